@@ -1,9 +1,408 @@
-export function AgentsSettings() {
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  CustomAgentDefinition,
+  CustomAgentInfo,
+  SaktiCodeApiClient,
+} from "@/core/services/api/api-client";
+import { For, Show, createEffect, createResource, createSignal } from "solid-js";
+
+interface AgentsSettingsProps {
+  apiClient?: SaktiCodeApiClient;
+}
+
+type AgentScope = CustomAgentInfo["scope"];
+type AgentMode = CustomAgentDefinition["mode"];
+
+/** Form state; numbers, tools and permissions are edited as text */
+interface AgentDraft {
+  name: string;
+  scope: AgentScope;
+  mode: AgentMode;
+  description: string;
+  model: string;
+  temperature: string;
+  maxIterations: string;
+  tools: string;
+  permission: string;
+  systemPrompt: string;
+}
+
+const INPUT_CLASS =
+  "border-border bg-background placeholder:text-muted-foreground/80 focus:border-primary/45 text-foreground rounded-md border px-2.5 py-2 text-xs outline-none transition-colors";
+
+const SCOPES: AgentScope[] = ["workspace", "user"];
+const MODES: AgentMode[] = ["subagent", "primary"];
+
+function emptyDraft(): AgentDraft {
+  return {
+    name: "",
+    scope: "workspace",
+    mode: "subagent",
+    description: "",
+    model: "",
+    temperature: "",
+    maxIterations: "",
+    tools: "",
+    permission: "",
+    systemPrompt: "",
+  };
+}
+
+function toDraft(agent: CustomAgentInfo): AgentDraft {
+  return {
+    name: agent.name,
+    scope: agent.scope,
+    mode: agent.mode,
+    description: agent.description ?? "",
+    model: agent.model ?? "",
+    temperature: agent.temperature?.toString() ?? "",
+    maxIterations: agent.maxIterations?.toString() ?? "",
+    tools: agent.tools?.join(", ") ?? "",
+    permission: agent.permission ? JSON.stringify(agent.permission, null, 2) : "",
+    systemPrompt: agent.systemPrompt,
+  };
+}
+
+function fromDraft(draft: AgentDraft): CustomAgentDefinition {
+  const temperature = Number.parseFloat(draft.temperature);
+  const maxIterations = Number.parseInt(draft.maxIterations, 10);
+  const tools = draft.tools
+    .split(",")
+    .map(tool => tool.trim())
+    .filter(Boolean);
+
+  let permission: CustomAgentDefinition["permission"];
+  if (draft.permission.trim()) {
+    try {
+      permission = JSON.parse(draft.permission) as CustomAgentDefinition["permission"];
+    } catch {
+      throw new Error("Permissions must be a JSON object");
+    }
+  }
+
+  return {
+    name: draft.name.trim(),
+    mode: draft.mode,
+    systemPrompt: draft.systemPrompt,
+    ...(draft.description.trim() ? { description: draft.description.trim() } : {}),
+    ...(draft.model.trim() ? { model: draft.model.trim() } : {}),
+    ...(Number.isFinite(temperature) ? { temperature } : {}),
+    ...(Number.isFinite(maxIterations) ? { maxIterations } : {}),
+    ...(tools.length > 0 ? { tools } : {}),
+    ...(permission ? { permission } : {}),
+  };
+}
+
+export function AgentsSettings(props: AgentsSettingsProps) {
+  const [directory, setDirectory] = createSignal<string>("");
+  const [draft, setDraft] = createSignal<AgentDraft>(emptyDraft());
+  /** Agent the draft was opened from, to detect renames */
+  const [editing, setEditing] = createSignal<CustomAgentInfo | null>(null);
+  const [saving, setSaving] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+  const [savedAt, setSavedAt] = createSignal<number | null>(null);
+
+  const [workspaces] = createResource(
+    () => props.apiClient,
+    client => client.getWorkspaces()
+  );
+  const workspaceName = (path: string) =>
+    workspaces()?.find(workspace => workspace.path === path)?.name ?? path;
+
+  createEffect(() => {
+    const first = workspaces()?.[0];
+    if (first && !directory()) setDirectory(first.path);
+  });
+
+  const [agents, { refetch }] = createResource(
+    () => {
+      const client = props.apiClient;
+      const dir = directory();
+      return client && dir ? { client, dir } : undefined;
+    },
+    ({ client, dir }) => client.listCustomAgents(dir)
+  );
+
+  const update = (patch: Partial<AgentDraft>) => {
+    setDraft(current => ({ ...current, ...patch }));
+    setSavedAt(null);
+  };
+
+  const open = (agent: CustomAgentInfo | null) => {
+    setEditing(agent);
+    setDraft(agent ? toDraft(agent) : emptyDraft());
+    setError(null);
+    setSavedAt(null);
+  };
+
+  const save = async () => {
+    const client = props.apiClient;
+    if (!client || !directory()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const agent = fromDraft(draft());
+      const saved = await client.saveCustomAgent(directory(), draft().scope, agent);
+
+      // Renaming or moving an agent writes a new file; remove the old one
+      const previous = editing();
+      if (previous && (previous.name !== saved.name || previous.scope !== saved.scope)) {
+        await client.deleteCustomAgent(directory(), previous.scope, previous.name);
+      }
+
+      setEditing(saved);
+      setDraft(toDraft(saved));
+      setSavedAt(Date.now());
+      await refetch();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    const client = props.apiClient;
+    const agent = editing();
+    if (!client || !directory() || !agent) return;
+
+    setError(null);
+    try {
+      await client.deleteCustomAgent(directory(), agent.scope, agent.name);
+      open(null);
+      await refetch();
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : String(deleteError));
+    }
+  };
+
   return (
     <div class="space-y-0">
-      <div class="border-border/70 px-0 py-8 text-center">
-        <p class="text-muted-foreground text-sm">Agents settings coming soon</p>
+      <div class="border-border/70 flex items-center justify-between border-b px-0 py-4">
+        <div class="flex-1">
+          <label class="text-foreground text-sm font-medium">Workspace</label>
+          <p class="text-muted-foreground text-xs">
+            Agents are Markdown files with frontmatter, saved to .sakti-code/agents in the workspace
+            or to your user agents directory.
+          </p>
+        </div>
+        <div class="ml-6 w-56">
+          <Select
+            value={directory()}
+            onChange={value => value && setDirectory(value)}
+            options={(workspaces() ?? []).map(workspace => workspace.path)}
+            placeholder="Select workspace…"
+            itemComponent={itemProps => (
+              <SelectItem item={itemProps.item}>
+                {workspaceName(itemProps.item.rawValue)}
+              </SelectItem>
+            )}
+          >
+            <SelectTrigger aria-label="Workspace" class="w-full">
+              <SelectValue<string>>{state => workspaceName(state.selectedOption())}</SelectValue>
+            </SelectTrigger>
+            <SelectContent />
+          </Select>
+        </div>
       </div>
+
+      <Show
+        when={directory()}
+        fallback={
+          <div class="px-0 py-8 text-center">
+            <p class="text-muted-foreground text-sm">
+              {workspaces.loading
+                ? "Loading workspaces..."
+                : "Open a workspace to configure agents"}
+            </p>
+          </div>
+        }
+      >
+        <Card class="mt-4 p-4">
+          <div class="mb-3 flex items-center justify-between gap-3">
+            <h3 class="text-sm font-semibold tracking-tight">Custom agents</h3>
+            <Button variant="ghost" size="sm" class="text-xs" onClick={() => open(null)}>
+              New agent
+            </Button>
+          </div>
+
+          <Show
+            when={(agents()?.agents.length ?? 0) > 0}
+            fallback={
+              <p class="text-muted-foreground text-xs">
+                {agents.loading ? "Loading agents..." : "No custom agents defined."}
+              </p>
+            }
+          >
+            <div class="space-y-1">
+              <For each={agents()?.agents}>
+                {agent => (
+                  <button
+                    type="button"
+                    class="hover:bg-muted/60 flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-xs transition-colors"
+                    classList={{
+                      "bg-muted/60":
+                        editing()?.name === agent.name && editing()?.scope === agent.scope,
+                    }}
+                    data-agent-name={agent.name}
+                    onClick={() => open(agent)}
+                  >
+                    <span class="font-mono font-medium">{agent.name}</span>
+                    <span class="text-muted-foreground rounded border px-1.5 py-0.5 text-[10px]">
+                      {agent.mode}
+                    </span>
+                    <span class="text-muted-foreground rounded border px-1.5 py-0.5 text-[10px]">
+                      {agent.scope}
+                    </span>
+                    <span class="text-muted-foreground flex-1 truncate">{agent.description}</span>
+                  </button>
+                )}
+              </For>
+            </div>
+          </Show>
+
+          <Show when={(agents()?.errors.length ?? 0) > 0}>
+            <div class="mt-3 space-y-1">
+              <For each={agents()?.errors}>
+                {loadError => (
+                  <p class="text-destructive text-xs">
+                    <span class="font-mono">{loadError.path}</span>: {loadError.message}
+                  </p>
+                )}
+              </For>
+            </div>
+          </Show>
+        </Card>
+
+        <Card class="mt-4 space-y-3 p-4">
+          <h3 class="text-sm font-semibold tracking-tight">
+            {editing() ? `Edit ${editing()?.name}` : "New agent"}
+          </h3>
+
+          <div class="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              class={`${INPUT_CLASS} font-mono`}
+              placeholder="Name, e.g. reviewer"
+              value={draft().name}
+              onInput={e => update({ name: e.currentTarget.value })}
+            />
+            <input
+              type="text"
+              class={INPUT_CLASS}
+              placeholder="Description"
+              value={draft().description}
+              onInput={e => update({ description: e.currentTarget.value })}
+            />
+            <Select
+              value={draft().mode}
+              onChange={value => value && update({ mode: value })}
+              options={MODES}
+              itemComponent={itemProps => (
+                <SelectItem item={itemProps.item}>{itemProps.item.rawValue}</SelectItem>
+              )}
+            >
+              <SelectTrigger aria-label="Mode" class="w-full">
+                <SelectValue<AgentMode>>{state => state.selectedOption()}</SelectValue>
+              </SelectTrigger>
+              <SelectContent />
+            </Select>
+            <Select
+              value={draft().scope}
+              onChange={value => value && update({ scope: value })}
+              options={SCOPES}
+              itemComponent={itemProps => (
+                <SelectItem item={itemProps.item}>{itemProps.item.rawValue}</SelectItem>
+              )}
+            >
+              <SelectTrigger aria-label="Scope" class="w-full">
+                <SelectValue<AgentScope>>{state => state.selectedOption()}</SelectValue>
+              </SelectTrigger>
+              <SelectContent />
+            </Select>
+            <input
+              type="text"
+              class={`${INPUT_CLASS} font-mono`}
+              placeholder="Model, e.g. zai/glm-4.7"
+              value={draft().model}
+              onInput={e => update({ model: e.currentTarget.value })}
+            />
+            <div class="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                max="2"
+                step="0.1"
+                class={`${INPUT_CLASS} w-full`}
+                placeholder="Temperature"
+                value={draft().temperature}
+                onInput={e => update({ temperature: e.currentTarget.value })}
+              />
+              <input
+                type="number"
+                min="1"
+                class={`${INPUT_CLASS} w-full`}
+                placeholder="Max iterations"
+                value={draft().maxIterations}
+                onInput={e => update({ maxIterations: e.currentTarget.value })}
+              />
+            </div>
+          </div>
+
+          <input
+            type="text"
+            class={`${INPUT_CLASS} w-full font-mono`}
+            placeholder="Tools, e.g. read, grep, bash (empty for the build agent's tools)"
+            value={draft().tools}
+            onInput={e => update({ tools: e.currentTarget.value })}
+          />
+          <textarea
+            class={`${INPUT_CLASS} min-h-[72px] w-full font-mono`}
+            placeholder={
+              'Permissions as JSON, e.g. { "edit": "deny", "bash": { "git *": "allow" } }'
+            }
+            value={draft().permission}
+            onInput={e => update({ permission: e.currentTarget.value })}
+          />
+          <textarea
+            class={`${INPUT_CLASS} min-h-[160px] w-full`}
+            placeholder="System prompt"
+            value={draft().systemPrompt}
+            onInput={e => update({ systemPrompt: e.currentTarget.value })}
+          />
+
+          <div class="flex items-center justify-end gap-3">
+            <Show when={error()}>
+              <p class="text-destructive flex-1 text-xs">{error()}</p>
+            </Show>
+            <Show when={!error() && savedAt()}>
+              <p class="text-muted-foreground flex-1 text-xs">Agent saved.</p>
+            </Show>
+            <Show when={editing()}>
+              <Button variant="ghost" size="sm" class="text-xs" onClick={() => void remove()}>
+                Delete
+              </Button>
+            </Show>
+            <Button
+              variant="primary"
+              size="sm"
+              disabled={saving() || !draft().name.trim() || !draft().systemPrompt.trim()}
+              onClick={() => void save()}
+            >
+              {saving() ? "Saving..." : "Save agent"}
+            </Button>
+          </div>
+        </Card>
+      </Show>
     </div>
   );
 }
@@ -1,9 +1,299 @@
-export function HooksSettings() {
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  HookCommandConfig,
+  HookEventName,
+  SaktiCodeApiClient,
+  WorkspaceHooksConfig,
+} from "@/core/services/api/api-client";
+import { For, Show, createEffect, createResource, createSignal } from "solid-js";
+
+interface HooksSettingsProps {
+  apiClient?: SaktiCodeApiClient;
+}
+
+interface HookEventInfo {
+  id: HookEventName;
+  label: string;
+  description: string;
+  /** Tool events filter hooks by tool name */
+  toolEvent: boolean;
+}
+
+const HOOK_EVENTS: HookEventInfo[] = [
+  {
+    id: "preToolUse",
+    label: "Pre tool use",
+    description: "Runs before a tool call. Exit with code 2 to block it.",
+    toolEvent: true,
+  },
+  {
+    id: "postToolUse",
+    label: "Post tool use",
+    description: "Runs after a tool call, for example to format edited files.",
+    toolEvent: true,
+  },
+  {
+    id: "sessionStart",
+    label: "Session start",
+    description: "Runs before the first message of a session.",
+    toolEvent: false,
+  },
+  {
+    id: "userPromptSubmit",
+    label: "Prompt submit",
+    description: "Runs when a message is sent. Exit with code 2 to reject it.",
+    toolEvent: false,
+  },
+  {
+    id: "stop",
+    label: "Stop",
+    description: "Runs when the agent finishes. Exit with code 2 to send it back to work.",
+    toolEvent: false,
+  },
+];
+
+const INPUT_CLASS =
+  "border-border bg-background placeholder:text-muted-foreground/80 focus:border-primary/45 text-foreground rounded-md border px-2.5 py-2 text-xs outline-none transition-colors";
+
+function emptyHooks(): WorkspaceHooksConfig {
+  return { preToolUse: [], postToolUse: [], sessionStart: [], userPromptSubmit: [], stop: [] };
+}
+
+export function HooksSettings(props: HooksSettingsProps) {
+  const [directory, setDirectory] = createSignal<string>("");
+  const [draft, setDraft] = createSignal<WorkspaceHooksConfig>(emptyHooks());
+  const [saving, setSaving] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+  const [savedAt, setSavedAt] = createSignal<number | null>(null);
+  const [trusted, setTrusted] = createSignal(true);
+
+  const [workspaces] = createResource(
+    () => props.apiClient,
+    client => client.getWorkspaces()
+  );
+  const workspaceName = (path: string) =>
+    workspaces()?.find(workspace => workspace.path === path)?.name ?? path;
+
+  createEffect(() => {
+    const first = workspaces()?.[0];
+    if (first && !directory()) setDirectory(first.path);
+  });
+
+  const [config] = createResource(
+    () => {
+      const client = props.apiClient;
+      const dir = directory();
+      return client && dir ? { client, dir } : undefined;
+    },
+    ({ client, dir }) => client.getWorkspaceHooks(dir)
+  );
+
+  createEffect(() => {
+    if (config.error) {
+      setError(config.error instanceof Error ? config.error.message : String(config.error));
+      setDraft(emptyHooks());
+      return;
+    }
+    const loaded = config();
+    if (!loaded) return;
+    setError(null);
+    setSavedAt(null);
+    setTrusted(loaded.trusted);
+    setDraft(loaded.hooks);
+  });
+
+  const updateHook = (event: HookEventName, index: number, patch: Partial<HookCommandConfig>) => {
+    setDraft(current => ({
+      ...current,
+      [event]: current[event].map((hook, i) => (i === index ? { ...hook, ...patch } : hook)),
+    }));
+  };
+
+  const addHook = (event: HookEventName) => {
+    setDraft(current => ({ ...current, [event]: [...current[event], { command: "" }] }));
+  };
+
+  const removeHook = (event: HookEventName, index: number) => {
+    setDraft(current => ({ ...current, [event]: current[event].filter((_, i) => i !== index) }));
+  };
+
+  const save = async () => {
+    const client = props.apiClient;
+    if (!client || !directory()) return;
+
+    // Drop rows left empty, and optional fields left blank
+    const hooks = emptyHooks();
+    for (const { id } of HOOK_EVENTS) {
+      hooks[id] = draft()
+        [id].filter(hook => hook.command.trim())
+        .map(hook => ({
+          command: hook.command.trim(),
+          ...(hook.matcher?.trim() ? { matcher: hook.matcher.trim() } : {}),
+          ...(hook.timeoutMs ? { timeoutMs: hook.timeoutMs } : {}),
+        }));
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await client.saveWorkspaceHooks(directory(), hooks);
+      setDraft(saved.hooks);
+      setTrusted(saved.trusted);
+      setSavedAt(Date.now());
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <div class="space-y-0">
-      <div class="border-border/70 px-0 py-8 text-center">
-        <p class="text-muted-foreground text-sm">Hooks settings coming soon</p>
+      <div class="border-border/70 flex items-center justify-between border-b px-0 py-4">
+        <div class="flex-1">
+          <label class="text-foreground text-sm font-medium">Workspace</label>
+          <p class="text-muted-foreground text-xs">
+            Hooks are shell commands that receive a JSON payload on stdin. They are saved to
+            .sakti-code/hooks.json in the workspace, and only hooks saved here run.
+          </p>
+          <Show when={!trusted()}>
+            <p class="text-destructive mt-1 text-xs" data-hooks-untrusted>
+              This workspace's hooks were changed outside settings and will not run. Review them and
+              save to trust them.
+            </p>
+          </Show>
+        </div>
+        <div class="ml-6 w-56">
+          <Select
+            value={directory()}
+            onChange={value => value && setDirectory(value)}
+            options={(workspaces() ?? []).map(workspace => workspace.path)}
+            placeholder="Select workspace…"
+            itemComponent={itemProps => (
+              <SelectItem item={itemProps.item}>
+                {workspaceName(itemProps.item.rawValue)}
+              </SelectItem>
+            )}
+          >
+            <SelectTrigger aria-label="Workspace" class="w-full">
+              <SelectValue<string>>{state => workspaceName(state.selectedOption())}</SelectValue>
+            </SelectTrigger>
+            <SelectContent />
+          </Select>
+        </div>
       </div>
+
+      <Show
+        when={directory()}
+        fallback={
+          <div class="px-0 py-8 text-center">
+            <p class="text-muted-foreground text-sm">
+              {workspaces.loading ? "Loading workspaces..." : "Open a workspace to configure hooks"}
+            </p>
+          </div>
+        }
+      >
+        <For each={HOOK_EVENTS}>
+          {event => (
+            <Card class="mt-4 p-4" data-hook-event={event.id}>
+              <div class="mb-3 flex items-center justify-between gap-3">
+                <div>
+                  <h3 class="text-sm font-semibold tracking-tight">{event.label}</h3>
+                  <p class="text-muted-foreground mt-0.5 text-xs">{event.description}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  class="shrink-0 text-xs"
+                  onClick={() => addHook(event.id)}
+                >
+                  Add hook
+                </Button>
+              </div>
+
+              <Show
+                when={draft()[event.id].length > 0}
+                fallback={<p class="text-muted-foreground text-xs">No hooks configured.</p>}
+              >
+                <div class="space-y-2">
+                  <For each={draft()[event.id]}>
+                    {(hook, index) => (
+                      <div class="flex flex-wrap items-center gap-2">
+                        <input
+                          type="text"
+                          class={`${INPUT_CLASS} min-w-[220px] flex-1 font-mono`}
+                          placeholder="Command, e.g. pnpm prettier --write ."
+                          value={hook.command}
+                          onInput={e =>
+                            updateHook(event.id, index(), { command: e.currentTarget.value })
+                          }
+                        />
+                        <Show when={event.toolEvent}>
+                          <input
+                            type="text"
+                            class={`${INPUT_CLASS} w-36 font-mono`}
+                            placeholder="Tools, e.g. edit|write"
+                            value={hook.matcher ?? ""}
+                            onInput={e =>
+                              updateHook(event.id, index(), { matcher: e.currentTarget.value })
+                            }
+                          />
+                        </Show>
+                        <input
+                          type="number"
+                          min="1"
+                          class={`${INPUT_CLASS} w-28`}
+                          placeholder="Timeout ms"
+                          value={hook.timeoutMs ?? ""}
+                          onInput={e => {
+                            const value = Number.parseInt(e.currentTarget.value, 10);
+                            updateHook(event.id, index(), {
+                              timeoutMs: Number.isFinite(value) && value > 0 ? value : undefined,
+                            });
+                          }}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          class="text-xs"
+                          onClick={() => removeHook(event.id, index())}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    )}
+                  </For>
+                </div>
+              </Show>
+            </Card>
+          )}
+        </For>
+
+        <div class="flex items-center justify-end gap-3 py-4">
+          <Show when={error()}>
+            <p class="text-destructive flex-1 text-xs">{error()}</p>
+          </Show>
+          <Show when={!error() && savedAt()}>
+            <p class="text-muted-foreground flex-1 text-xs">Hooks saved.</p>
+          </Show>
+          <Button
+            variant="primary"
+            size="sm"
+            disabled={saving() || config.loading}
+            onClick={() => void save()}
+          >
+            {saving() ? "Saving..." : "Save hooks"}
+          </Button>
+        </div>
+      </Show>
     </div>
   );
 }
@@ -1,9 +1,598 @@
-export function McpSettings() {
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch, SwitchControl, SwitchThumb } from "@/components/ui/switch";
+import type {
+  AgentPermissionAction,
+  McpConnectionState,
+  McpServerConfig,
+  McpServerInfo,
+  McpStatusInfo,
+  SaktiCodeApiClient,
+} from "@/core/services/api/api-client";
+import { cn } from "@/utils";
+import { For, Show, createEffect, createResource, createSignal, onCleanup } from "solid-js";
+
+interface McpSettingsProps {
+  apiClient?: SaktiCodeApiClient;
+}
+
+type ServerScope = McpServerInfo["scope"];
+type ToolPermission = AgentPermissionAction | "default";
+
+/** Form state; lists and maps are edited one entry per line */
+interface ServerDraft {
+  name: string;
+  scope: ServerScope;
+  type: McpServerConfig["type"];
+  command: string;
+  args: string;
+  env: string;
+  cwd: string;
+  url: string;
+  headers: string;
+}
+
+const STATUS_POLL_MS = 3_000;
+
+const STATE_LABELS: Record<McpConnectionState, string> = {
+  connecting: "Connecting",
+  connected: "Connected",
+  degraded: "Reconnecting",
+  offline: "Offline",
+};
+
+const TOOL_PERMISSIONS: ToolPermission[] = ["default", "allow", "ask", "deny"];
+
+const INPUT_CLASS =
+  "border-border bg-background placeholder:text-muted-foreground/80 focus:border-primary/45 text-foreground rounded-md border px-2.5 py-2 text-xs outline-none transition-colors";
+
+function emptyDraft(): ServerDraft {
+  return {
+    name: "",
+    scope: "workspace",
+    type: "stdio",
+    command: "",
+    args: "",
+    env: "",
+    cwd: "",
+    url: "",
+    headers: "",
+  };
+}
+
+function formatPairs(values: Record<string, string> | undefined, separator: string): string {
+  return Object.entries(values ?? {})
+    .map(([key, value]) => `${key}${separator}${value}`)
+    .join("\n");
+}
+
+function parsePairs(text: string, separator: string): Record<string, string> | undefined {
+  const pairs: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const index = line.indexOf(separator);
+    if (index <= 0) continue;
+    pairs[line.slice(0, index).trim()] = line.slice(index + separator.length).trim();
+  }
+  return Object.keys(pairs).length > 0 ? pairs : undefined;
+}
+
+function toDraft(server: McpServerInfo): ServerDraft {
+  const config = server.config;
+  return {
+    ...emptyDraft(),
+    name: server.name,
+    scope: server.scope,
+    type: config.type,
+    ...(config.type === "stdio"
+      ? {
+          command: config.command,
+          args: (config.args ?? []).join("\n"),
+          env: formatPairs(config.env, "="),
+          cwd: config.cwd ?? "",
+        }
+      : { url: config.url, headers: formatPairs(config.headers, ": ") }),
+  };
+}
+
+/**
+ * Build a server definition from the form, keeping the enabled flag and
+ * tool permissions of the server being edited
+ */
+function fromDraft(draft: ServerDraft, previous?: McpServerConfig): McpServerConfig {
+  const kept = {
+    ...(previous?.enabled === false ? { enabled: false } : {}),
+    ...(previous?.permissions ? { permissions: previous.permissions } : {}),
+  };
+
+  if (draft.type === "http") {
+    const headers = parsePairs(draft.headers, ":");
+    return { type: "http", url: draft.url.trim(), ...(headers ? { headers } : {}), ...kept };
+  }
+
+  const args = draft.args
+    .split("\n")
+    .map(arg => arg.trim())
+    .filter(Boolean);
+  const env = parsePairs(draft.env, "=");
+  return {
+    type: "stdio",
+    command: draft.command.trim(),
+    ...(args.length > 0 ? { args } : {}),
+    ...(env ? { env } : {}),
+    ...(draft.cwd.trim() ? { cwd: draft.cwd.trim() } : {}),
+    ...kept,
+  };
+}
+
+function describeServer(config: McpServerConfig): string {
+  return config.type === "http" ? config.url : [config.command, ...(config.args ?? [])].join(" ");
+}
+
+function withToolPermission(
+  config: McpServerConfig,
+  toolName: string,
+  permission: ToolPermission
+): McpServerConfig {
+  const permissions = { ...config.permissions };
+  if (permission === "default") {
+    delete permissions[toolName];
+  } else {
+    permissions[toolName] = permission;
+  }
+  const { permissions: _previous, ...rest } = config;
+  return Object.keys(permissions).length > 0 ? { ...rest, permissions } : rest;
+}
+
+function PermissionSelect(props: {
+  label: string;
+  value: ToolPermission;
+  onChange: (value: ToolPermission) => void;
+}) {
+  return (
+    <Select
+      value={props.value}
+      onChange={value => value && props.onChange(value)}
+      options={TOOL_PERMISSIONS}
+      itemComponent={itemProps => (
+        <SelectItem item={itemProps.item}>{itemProps.item.rawValue}</SelectItem>
+      )}
+    >
+      <SelectTrigger aria-label={props.label} class="h-7 w-24 text-xs">
+        <SelectValue<ToolPermission>>{state => state.selectedOption()}</SelectValue>
+      </SelectTrigger>
+      <SelectContent />
+    </Select>
+  );
+}
+
+function ServerCard(props: {
+  server: McpServerInfo;
+  busy: boolean;
+  onSave: (config: McpServerConfig) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  const config = () => props.server.config;
+  const toolPermission = (name: string): ToolPermission =>
+    config().permissions?.[name] ?? "default";
+
+  return (
+    <Card class="mt-4 p-4" data-mcp-server={props.server.name} data-state={props.server.state}>
+      <div class="flex items-center justify-between gap-3">
+        <div class="min-w-0">
+          <h3 class="text-sm font-semibold tracking-tight">{props.server.name}</h3>
+          <p class="text-muted-foreground mt-0.5 truncate font-mono text-xs">
+            {describeServer(config())}
+          </p>
+        </div>
+        <div class="flex shrink-0 items-center gap-2 text-xs">
+          <span class="text-muted-foreground">
+            {props.server.scope === "user" ? "User" : "Workspace"}
+          </span>
+          <span
+            data-slot="mcp-state"
+            class={cn(
+              "rounded px-1.5 py-0.5 font-medium",
+              props.server.state === "connected" && "bg-emerald-500/15 text-emerald-300",
+              (props.server.state === "connecting" || props.server.state === "degraded") &&
+                "bg-amber-500/15 text-amber-300",
+              props.server.state === "offline" && "bg-red-500/15 text-red-300"
+            )}
+          >
+            {props.server.enabled ? STATE_LABELS[props.server.state] : "Disabled"}
+          </span>
+          <Switch
+            checked={props.server.enabled}
+            disabled={props.busy}
+            onChange={enabled => {
+              const { enabled: _enabled, ...rest } = config();
+              props.onSave(enabled ? rest : { ...rest, enabled: false });
+            }}
+          >
+            <SwitchControl>
+              <SwitchThumb />
+            </SwitchControl>
+          </Switch>
+        </div>
+      </div>
+
+      <Show when={props.server.enabled && props.server.error}>
+        <p data-slot="mcp-error" class="text-destructive mt-2 text-xs">
+          {props.server.error}
+        </p>
+      </Show>
+
+      <div class="mt-3 flex items-center justify-between gap-3 text-xs">
+        <span class="text-muted-foreground">Default permission for every tool</span>
+        <PermissionSelect
+          label={`${props.server.name} default permission`}
+          value={toolPermission("*")}
+          onChange={value => props.onSave(withToolPermission(config(), "*", value))}
+        />
+      </div>
+
+      <Show when={props.server.tools.length > 0}>
+        <div class="mt-3 space-y-1.5">
+          <p class="text-muted-foreground text-xs font-medium">Tools</p>
+          <For each={props.server.tools}>
+            {tool => (
+              <div
+                class="flex items-center justify-between gap-3 text-xs"
+                data-mcp-tool={tool.name}
+              >
+                <div class="min-w-0">
+                  <span class="font-mono">{tool.name}</span>
+                  <Show when={tool.description}>
+                    <p class="text-muted-foreground truncate">{tool.description}</p>
+                  </Show>
+                </div>
+                <PermissionSelect
+                  label={`${tool.name} permission`}
+                  value={toolPermission(tool.name)}
+                  onChange={value => props.onSave(withToolPermission(config(), tool.name, value))}
+                />
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+
+      <Show when={props.server.resources.length > 0}>
+        <div class="mt-3 space-y-1">
+          <p class="text-muted-foreground text-xs font-medium">Resources</p>
+          <For each={props.server.resources}>
+            {resource => (
+              <p class="truncate text-xs">
+                <span class="font-mono">{resource.uri}</span>
+                <span class="text-muted-foreground ml-2">
+                  {resource.description ?? resource.name}
+                </span>
+              </p>
+            )}
+          </For>
+        </div>
+      </Show>
+
+      <div class="mt-3 flex justify-end gap-2">
+        <Button variant="ghost" size="sm" class="text-xs" onClick={() => props.onEdit()}>
+          Edit
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          class="text-xs"
+          disabled={props.busy}
+          onClick={() => props.onDelete()}
+        >
+          Delete
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+export function McpSettings(props: McpSettingsProps) {
+  const [directory, setDirectory] = createSignal<string>("");
+  /** Open form, and the server it edits when not adding a new one */
+  const [draft, setDraft] = createSignal<ServerDraft | null>(null);
+  const [editing, setEditing] = createSignal<McpServerInfo | null>(null);
+  const [busy, setBusy] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const [workspaces] = createResource(
+    () => props.apiClient,
+    client => client.getWorkspaces()
+  );
+  const workspaceName = (path: string) =>
+    workspaces()?.find(workspace => workspace.path === path)?.name ?? path;
+
+  createEffect(() => {
+    const first = workspaces()?.[0];
+    if (first && !directory()) setDirectory(first.path);
+  });
+
+  const [status, { mutate, refetch }] = createResource<
+    McpStatusInfo,
+    { client: SaktiCodeApiClient; dir: string }
+  >(
+    () => {
+      const client = props.apiClient;
+      const dir = directory();
+      return client && dir ? { client, dir } : undefined;
+    },
+    ({ client, dir }) => client.getMcpStatus(dir)
+  );
+
+  // Connection state changes on the server side, so keep polling while open
+  const timer = setInterval(() => {
+    if (!busy() && !status.loading) void refetch();
+  }, STATUS_POLL_MS);
+  onCleanup(() => clearInterval(timer));
+
+  const run = async (
+    action: (client: SaktiCodeApiClient, dir: string) => Promise<McpStatusInfo>
+  ) => {
+    const client = props.apiClient;
+    if (!client || !directory()) return false;
+
+    setBusy(true);
+    setError(null);
+    try {
+      mutate(await action(client, directory()));
+      return true;
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveServer = (server: McpServerInfo, config: McpServerConfig) =>
+    run((client, dir) => client.saveMcpServer(dir, server.scope, server.name, config));
+
+  const open = (server: McpServerInfo | null) => {
+    setEditing(server);
+    setDraft(server ? toDraft(server) : emptyDraft());
+    setError(null);
+  };
+
+  const update = (patch: Partial<ServerDraft>) => {
+    setDraft(current => (current ? { ...current, ...patch } : current));
+  };
+
+  const submit = async () => {
+    const form = draft();
+    if (!form) return;
+    const previous = editing();
+    const name = form.name.trim();
+
+    const saved = await run(async (client, dir) => {
+      const result = await client.saveMcpServer(
+        dir,
+        form.scope,
+        name,
+        fromDraft(form, previous?.config)
+      );
+      // Renaming or moving a server writes a new entry; remove the old one
+      if (previous && (previous.name !== name || previous.scope !== form.scope)) {
+        return client.deleteMcpServer(dir, previous.scope, previous.name);
+      }
+      return result;
+    });
+    if (saved) setDraft(null);
+  };
+
   return (
     <div class="space-y-0">
-      <div class="border-border/70 px-0 py-8 text-center">
-        <p class="text-muted-foreground text-sm">MCP settings coming soon</p>
+      <div class="border-border/70 flex items-center justify-between border-b px-0 py-4">
+        <div class="flex-1">
+          <label class="text-foreground text-sm font-medium">Workspace</label>
+          <p class="text-muted-foreground text-xs">
+            MCP servers are saved to .sakti-code/mcp.json in the workspace or to the user mcp.json.
+            Tool permissions apply when the agent calls a server's tools.
+          </p>
+        </div>
+        <div class="ml-6 w-56">
+          <Select
+            value={directory()}
+            onChange={value => value && setDirectory(value)}
+            options={(workspaces() ?? []).map(workspace => workspace.path)}
+            placeholder="Select workspace…"
+            itemComponent={itemProps => (
+              <SelectItem item={itemProps.item}>
+                {workspaceName(itemProps.item.rawValue)}
+              </SelectItem>
+            )}
+          >
+            <SelectTrigger aria-label="Workspace" class="w-full">
+              <SelectValue<string>>{state => workspaceName(state.selectedOption())}</SelectValue>
+            </SelectTrigger>
+            <SelectContent />
+          </Select>
+        </div>
       </div>
+
+      <Show
+        when={directory()}
+        fallback={
+          <div class="px-0 py-8 text-center">
+            <p class="text-muted-foreground text-sm">
+              {workspaces.loading ? "Loading workspaces..." : "Open a workspace to configure MCP"}
+            </p>
+          </div>
+        }
+      >
+        <div class="flex items-center justify-between gap-3 pt-4">
+          <p class="text-muted-foreground text-xs">
+            <Show when={status()} fallback={status.loading ? "Loading servers..." : ""}>
+              {info => `${info().summary.connected} of ${info().summary.total} servers connected`}
+            </Show>
+          </p>
+          <div class="flex gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              class="text-xs"
+              disabled={busy()}
+              onClick={() => void run((client, dir) => client.reloadMcpServers(dir))}
+            >
+              Reconnect
+            </Button>
+            <Button variant="ghost" size="sm" class="text-xs" onClick={() => open(null)}>
+              Add server
+            </Button>
+          </div>
+        </div>
+
+        <Show when={error()}>
+          <p class="text-destructive pt-3 text-xs">{error()}</p>
+        </Show>
+
+        <Show when={draft()}>
+          {form => (
+            <Card class="mt-4 space-y-3 p-4">
+              <h3 class="text-sm font-semibold tracking-tight">
+                {editing() ? `Edit ${editing()?.name}` : "New server"}
+              </h3>
+
+              <div class="grid grid-cols-3 gap-2">
+                <input
+                  type="text"
+                  class={`${INPUT_CLASS} font-mono`}
+                  placeholder="Name, e.g. github"
+                  value={form().name}
+                  onInput={e => update({ name: e.currentTarget.value })}
+                />
+                <Select
+                  value={form().type}
+                  onChange={value => value && update({ type: value })}
+                  options={["stdio", "http"] as McpServerConfig["type"][]}
+                  itemComponent={itemProps => (
+                    <SelectItem item={itemProps.item}>{itemProps.item.rawValue}</SelectItem>
+                  )}
+                >
+                  <SelectTrigger aria-label="Transport" class="w-full">
+                    <SelectValue<McpServerConfig["type"]>>
+                      {state => state.selectedOption()}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent />
+                </Select>
+                <Select
+                  value={form().scope}
+                  onChange={value => value && update({ scope: value })}
+                  options={["workspace", "user"] as ServerScope[]}
+                  itemComponent={itemProps => (
+                    <SelectItem item={itemProps.item}>{itemProps.item.rawValue}</SelectItem>
+                  )}
+                >
+                  <SelectTrigger aria-label="Scope" class="w-full">
+                    <SelectValue<ServerScope>>{state => state.selectedOption()}</SelectValue>
+                  </SelectTrigger>
+                  <SelectContent />
+                </Select>
+              </div>
+
+              <Show
+                when={form().type === "stdio"}
+                fallback={
+                  <>
+                    <input
+                      type="text"
+                      class={`${INPUT_CLASS} w-full font-mono`}
+                      placeholder="URL, e.g. http://127.0.0.1:8080/mcp"
+                      value={form().url}
+                      onInput={e => update({ url: e.currentTarget.value })}
+                    />
+                    <textarea
+                      class={`${INPUT_CLASS} min-h-[60px] w-full font-mono`}
+                      placeholder="Headers, one per line: Authorization: Bearer …"
+                      value={form().headers}
+                      onInput={e => update({ headers: e.currentTarget.value })}
+                    />
+                  </>
+                }
+              >
+                <div class="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    class={`${INPUT_CLASS} font-mono`}
+                    placeholder="Command, e.g. npx"
+                    value={form().command}
+                    onInput={e => update({ command: e.currentTarget.value })}
+                  />
+                  <input
+                    type="text"
+                    class={`${INPUT_CLASS} font-mono`}
+                    placeholder="Working directory (optional)"
+                    value={form().cwd}
+                    onInput={e => update({ cwd: e.currentTarget.value })}
+                  />
+                </div>
+                <textarea
+                  class={`${INPUT_CLASS} min-h-[60px] w-full font-mono`}
+                  placeholder="Arguments, one per line"
+                  value={form().args}
+                  onInput={e => update({ args: e.currentTarget.value })}
+                />
+                <textarea
+                  class={`${INPUT_CLASS} min-h-[60px] w-full font-mono`}
+                  placeholder="Environment, one per line: GITHUB_TOKEN=…"
+                  value={form().env}
+                  onInput={e => update({ env: e.currentTarget.value })}
+                />
+              </Show>
+
+              <div class="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" class="text-xs" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  disabled={busy() || !form().name.trim()}
+                  onClick={() => void submit()}
+                >
+                  {busy() ? "Saving..." : "Save server"}
+                </Button>
+              </div>
+            </Card>
+          )}
+        </Show>
+
+        <Show
+          when={(status()?.servers.length ?? 0) > 0}
+          fallback={
+            <Show when={!draft() && status()}>
+              <div class="px-0 py-8 text-center">
+                <p class="text-muted-foreground text-sm">No MCP servers configured.</p>
+              </div>
+            </Show>
+          }
+        >
+          <For each={status()?.servers}>
+            {server => (
+              <ServerCard
+                server={server}
+                busy={busy()}
+                onSave={config => void saveServer(server, config)}
+                onEdit={() => open(server)}
+                onDelete={() =>
+                  void run((client, dir) => client.deleteMcpServer(dir, server.scope, server.name))
+                }
+              />
+            )}
+          </For>
+        </Show>
+      </Show>
     </div>
   );
 }
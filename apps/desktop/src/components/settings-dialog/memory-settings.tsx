@@ -1,8 +1,626 @@
-export function MemorySettings() {
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch, SwitchControl, SwitchThumb } from "@/components/ui/switch";
+import type {
+  MemoryPinSource,
+  MemorySettingsInfo,
+  SaktiCodeApiClient,
+} from "@/core/services/api/api-client";
+import { For, Show, createEffect, createResource, createSignal, type JSX } from "solid-js";
+
+interface MemorySettingsProps {
+  apiClient?: SaktiCodeApiClient;
+}
+
+/** Thread picker value for the records shared by every thread of the resource */
+const RESOURCE_SCOPE = "__resource__";
+
+const INPUT_CLASS =
+  "border-border bg-background placeholder:text-muted-foreground/80 focus:border-primary/45 text-foreground rounded-md border px-2.5 py-2 text-xs outline-none transition-colors";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function parseThreshold(value: string): number | undefined {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+interface MemoryEntryProps {
+  content: string;
+  /** Shown under the content, e.g. the generation of a reflection */
+  meta?: string;
+  onSave: (content: string) => Promise<void>;
+  onDelete: () => Promise<void>;
+  onPin?: () => Promise<void>;
+}
+
+/**
+ * One stored text with inline editing
+ */
+function MemoryEntry(props: MemoryEntryProps) {
+  const [editing, setEditing] = createSignal(false);
+  const [draft, setDraft] = createSignal("");
+
+  const save = async () => {
+    await props.onSave(draft());
+    setEditing(false);
+  };
+
+  return (
+    <div class="border-border/70 border-b py-2 last:border-b-0">
+      <Show
+        when={editing()}
+        fallback={<p class="text-foreground whitespace-pre-wrap text-xs">{props.content}</p>}
+      >
+        <textarea
+          class={`${INPUT_CLASS} min-h-[96px] w-full font-mono`}
+          value={draft()}
+          onInput={e => setDraft(e.currentTarget.value)}
+        />
+      </Show>
+      <div class="mt-1 flex items-center gap-1">
+        <Show when={props.meta}>
+          <span class="text-muted-foreground flex-1 text-[11px]">{props.meta}</span>
+        </Show>
+        <Show
+          when={editing()}
+          fallback={
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                class="text-xs"
+                onClick={() => {
+                  setDraft(props.content);
+                  setEditing(true);
+                }}
+              >
+                Edit
+              </Button>
+              <Show when={props.onPin}>
+                {onPin => (
+                  <Button variant="ghost" size="sm" class="text-xs" onClick={() => void onPin()()}>
+                    Pin
+                  </Button>
+                )}
+              </Show>
+              <Button
+                variant="ghost"
+                size="sm"
+                class="text-xs"
+                onClick={() => void props.onDelete()}
+              >
+                Delete
+              </Button>
+            </>
+          }
+        >
+          <Button variant="ghost" size="sm" class="text-xs" onClick={() => setEditing(false)}>
+            Cancel
+          </Button>
+          <Button variant="primary" size="sm" class="text-xs" onClick={() => void save()}>
+            Save
+          </Button>
+        </Show>
+      </div>
+    </div>
+  );
+}
+
+function Section(props: { title: string; description: string; children: JSX.Element }) {
+  return (
+    <Card class="mt-4 p-4">
+      <div class="mb-3">
+        <h3 class="text-sm font-semibold tracking-tight">{props.title}</h3>
+        <p class="text-muted-foreground mt-0.5 text-xs">{props.description}</p>
+      </div>
+      {props.children}
+    </Card>
+  );
+}
+
+export function MemorySettings(props: MemorySettingsProps) {
+  const [resourceId, setResourceId] = createSignal("");
+  const [threadKey, setThreadKey] = createSignal(RESOURCE_SCOPE);
+  const [workingDraft, setWorkingDraft] = createSignal("");
+  const [newPin, setNewPin] = createSignal("");
+  const [linkTarget, setLinkTarget] = createSignal("");
+  const [thresholds, setThresholds] = createSignal<MemorySettingsInfo>({});
+  const [error, setError] = createSignal<string | null>(null);
+  const [notice, setNotice] = createSignal<string | null>(null);
+
+  const [resources, { refetch: refetchResources }] = createResource(
+    () => props.apiClient,
+    client => client.listMemoryResources()
+  );
+  const resource = () => resources()?.find(entry => entry.resourceId === resourceId());
+  const resourceName = (id: string) => {
+    const entry = resources()?.find(candidate => candidate.resourceId === id);
+    return entry?.workspace?.name ?? id;
+  };
+  const threadId = () => (threadKey() === RESOURCE_SCOPE ? undefined : threadKey());
+  const threadName = (key: string) =>
+    key === RESOURCE_SCOPE
+      ? "Whole workspace"
+      : (resource()?.threads.find(thread => thread.id === key)?.title ?? key);
+
+  createEffect(() => {
+    const first = resources()?.[0];
+    if (first && !resourceId()) setResourceId(first.resourceId);
+  });
+
+  const [records, { refetch: refetchRecords }] = createResource(
+    () => {
+      const client = props.apiClient;
+      const id = resourceId();
+      return client && id ? { client, id, thread: threadId() } : undefined;
+    },
+    ({ client, id, thread }) => client.getMemoryRecords(id, thread)
+  );
+
+  const [settings] = createResource(
+    () => props.apiClient,
+    client => client.getMemorySettings()
+  );
+
+  const [sharing, { mutate: setSharing }] = createResource(
+    () => {
+      const client = props.apiClient;
+      const id = resourceId();
+      return client && id ? { client, id } : undefined;
+    },
+    ({ client, id }) => client.getMemorySharing(id)
+  );
+
+  const [workspaces] = createResource(
+    () => props.apiClient,
+    client => client.getWorkspaces()
+  );
+
+  /** Workspaces and remembered resources that are not linked yet */
+  const linkCandidates = () => {
+    const linked = new Set(sharing()?.links.map(link => link.resourceId));
+    const candidates = new Set([
+      ...(workspaces() ?? []).map(workspace => workspace.path),
+      ...(resources() ?? []).map(entry => entry.resourceId),
+    ]);
+    return Array.from(candidates).filter(id => id !== resourceId() && !linked.has(id));
+  };
+  const candidateName = (id: string) =>
+    workspaces()?.find(workspace => workspace.path === id)?.name ?? resourceName(id);
+
+  createEffect(() => {
+    const loaded = settings();
+    if (loaded) setThresholds(loaded);
+  });
+
+  createEffect(() => {
+    if (records.error) setError(errorMessage(records.error));
+    setWorkingDraft(records()?.workingMemory?.content ?? "");
+  });
+
+  /** Non-empty lines with their position, so edits keep headings and spacing intact */
+  const observationLines = () =>
+    (records()?.observations?.content ?? "")
+      .split("\n")
+      .map((text, index) => ({ text, index }))
+      .filter(line => line.text.trim());
+
+  /** Run a change, then reload the records so the page shows what is stored */
+  const apply = async (action: (client: SaktiCodeApiClient) => Promise<unknown>, done?: string) => {
+    const client = props.apiClient;
+    if (!client) return;
+    setError(null);
+    setNotice(null);
+    try {
+      await action(client);
+      if (done) setNotice(done);
+      await refetchRecords();
+    } catch (applyError) {
+      setError(errorMessage(applyError));
+    }
+  };
+
+  const pin = (content: string, sourceType: MemoryPinSource, sourceId?: string) =>
+    apply(
+      client =>
+        client.createMemoryPin({
+          resourceId: resourceId(),
+          threadId: threadId(),
+          content: content.replace(/^\s*[-*]\s*/, ""),
+          sourceType,
+          sourceId,
+        }),
+      "Fact pinned."
+    );
+
+  const saveObservations = (content: string) => {
+    const observations = records()?.observations;
+    if (!observations) return Promise.resolve();
+    return apply(client => client.updateObservations(observations.id, content));
+  };
+
+  /** Replace one observation line; null removes it */
+  const replaceObservationLine = (index: number, content: string | null) => {
+    const lines = (records()?.observations?.content ?? "").split("\n");
+    if (content === null) lines.splice(index, 1);
+    else lines[index] = content;
+    return saveObservations(lines.join("\n"));
+  };
+
+  const addPin = async () => {
+    const content = newPin().trim();
+    if (!content) return;
+    await pin(content, "manual");
+    setNewPin("");
+  };
+
+  const link = () => {
+    const target = linkTarget();
+    if (!target) return;
+    return apply(async client => {
+      setSharing(await client.linkMemory(resourceId(), target));
+      setLinkTarget("");
+    }, "Workspaces linked.");
+  };
+
+  const unlink = (linkedResourceId: string) =>
+    apply(async client => {
+      await client.unlinkMemory(resourceId(), linkedResourceId);
+      setSharing(await client.getMemorySharing(resourceId()));
+    });
+
+  const setPrivate = (isPrivate: boolean) =>
+    apply(async client => setSharing(await client.setMemoryPrivacy(resourceId(), isPrivate)));
+
+  const saveThresholds = () =>
+    apply(
+      async client => setThresholds(await client.saveMemorySettings(thresholds())),
+      "Thresholds saved."
+    );
+
   return (
     <div class="space-y-0">
-      <div class="border-border/70 px-0 py-8 text-center">
-        <p class="text-muted-foreground text-sm">Memory settings coming soon</p>
+      <div class="border-border/70 flex items-center justify-between border-b px-0 py-4">
+        <div class="flex-1">
+          <label class="text-foreground text-sm font-medium">Memory of</label>
+          <p class="text-muted-foreground text-xs">
+            Review what the agent remembers about a workspace or one of its sessions.
+          </p>
+        </div>
+        <div class="ml-6 flex w-72 flex-col gap-2">
+          <Select
+            value={resourceId()}
+            onChange={value => {
+              if (!value) return;
+              setResourceId(value);
+              setThreadKey(RESOURCE_SCOPE);
+            }}
+            options={(resources() ?? []).map(entry => entry.resourceId)}
+            placeholder="Select workspace…"
+            itemComponent={itemProps => (
+              <SelectItem item={itemProps.item}>{resourceName(itemProps.item.rawValue)}</SelectItem>
+            )}
+          >
+            <SelectTrigger aria-label="Workspace" class="w-full">
+              <SelectValue<string>>{state => resourceName(state.selectedOption())}</SelectValue>
+            </SelectTrigger>
+            <SelectContent />
+          </Select>
+          <Select
+            value={threadKey()}
+            onChange={value => value && setThreadKey(value)}
+            options={[RESOURCE_SCOPE, ...(resource()?.threads ?? []).map(thread => thread.id)]}
+            itemComponent={itemProps => (
+              <SelectItem item={itemProps.item}>{threadName(itemProps.item.rawValue)}</SelectItem>
+            )}
+          >
+            <SelectTrigger aria-label="Session" class="w-full">
+              <SelectValue<string>>{state => threadName(state.selectedOption())}</SelectValue>
+            </SelectTrigger>
+            <SelectContent />
+          </Select>
+        </div>
+      </div>
+
+      <Show when={error()}>
+        <p class="text-destructive pt-4 text-xs">{error()}</p>
+      </Show>
+      <Show when={!error() && notice()}>
+        <p class="text-muted-foreground pt-4 text-xs">{notice()}</p>
+      </Show>
+
+      <Show
+        when={resourceId()}
+        fallback={
+          <div class="px-0 py-8 text-center">
+            <p class="text-muted-foreground text-sm">
+              {resources.loading ? "Loading memory..." : "Nothing has been remembered yet"}
+            </p>
+          </div>
+        }
+      >
+        <Section
+          title="Observations"
+          description="Notes the observer took from the conversation. Delete wrong ones or pin them so they are never condensed away."
+        >
+          <Show
+            when={records()?.observations}
+            fallback={<p class="text-muted-foreground text-xs">No observations yet.</p>}
+          >
+            {observations => (
+              <>
+                <Show when={observations().busy}>
+                  <p class="text-muted-foreground mb-2 text-xs">
+                    The observer is updating these notes; edits are possible once it finishes.
+                  </p>
+                </Show>
+                <For each={observationLines()}>
+                  {line => (
+                    <MemoryEntry
+                      content={line.text}
+                      onSave={content => replaceObservationLine(line.index, content)}
+                      onDelete={() => replaceObservationLine(line.index, null)}
+                      onPin={() => pin(line.text, "observation", observations().id)}
+                    />
+                  )}
+                </For>
+              </>
+            )}
+          </Show>
+        </Section>
+
+        <Section title="Reflections" description="Condensed summaries of older observations.">
+          <Show
+            when={(records()?.reflections.length ?? 0) > 0}
+            fallback={<p class="text-muted-foreground text-xs">No reflections yet.</p>}
+          >
+            <For each={records()?.reflections}>
+              {reflection => (
+                <MemoryEntry
+                  content={reflection.content}
+                  meta={`Generation ${reflection.generationCount}`}
+                  onSave={content =>
+                    apply(client => client.updateReflection(reflection.id, content))
+                  }
+                  onDelete={() => apply(client => client.deleteReflection(reflection.id))}
+                  onPin={() => pin(reflection.content, "reflection", reflection.id)}
+                />
+              )}
+            </For>
+          </Show>
+        </Section>
+
+        <Section
+          title="Pinned facts"
+          description="Confirmed facts injected into every turn. They are kept as written and never condensed."
+        >
+          <For each={records()?.pins}>
+            {entry => (
+              <MemoryEntry
+                content={entry.content}
+                meta={entry.threadId ? "This session" : "Whole workspace"}
+                onSave={content => apply(client => client.updateMemoryPin(entry.id, content))}
+                onDelete={() => apply(client => client.deleteMemoryPin(entry.id))}
+              />
+            )}
+          </For>
+          <div class="mt-2 flex items-center gap-2">
+            <input
+              type="text"
+              class={`${INPUT_CLASS} flex-1`}
+              placeholder="A fact to remember, e.g. Deploys go through staging first"
+              value={newPin()}
+              onInput={e => setNewPin(e.currentTarget.value)}
+              onKeyDown={e => e.key === "Enter" && void addPin()}
+            />
+            <Button variant="ghost" size="sm" class="text-xs" onClick={() => void addPin()}>
+              Pin fact
+            </Button>
+          </div>
+        </Section>
+
+        <Section
+          title="Working memory"
+          description="Structured notes the agent keeps up to date while it works."
+        >
+          <textarea
+            class={`${INPUT_CLASS} min-h-[120px] w-full font-mono`}
+            placeholder="No working memory yet"
+            value={workingDraft()}
+            onInput={e => setWorkingDraft(e.currentTarget.value)}
+          />
+          <div class="mt-2 flex justify-end">
+            <Button
+              variant="ghost"
+              size="sm"
+              class="text-xs"
+              onClick={() =>
+                void apply(
+                  client =>
+                    client.saveWorkingMemory({
+                      resourceId: resourceId(),
+                      threadId: threadId(),
+                      content: workingDraft(),
+                    }),
+                  "Working memory saved."
+                )
+              }
+            >
+              Save working memory
+            </Button>
+          </div>
+        </Section>
+
+        <Section
+          title="Linked workspaces"
+          description="Linked workspaces share their reflections and milestones with each other. Each shared entry is labelled with the workspace it came from."
+        >
+          <div class="flex items-center justify-between gap-3 pb-2">
+            <div>
+              <p class="text-foreground text-xs font-medium">Keep this workspace private</p>
+              <p class="text-muted-foreground text-xs">
+                Its memory is never shared, even with linked workspaces.
+              </p>
+            </div>
+            <Switch
+              checked={sharing()?.private ?? false}
+              disabled={sharing.loading}
+              onChange={isPrivate => void setPrivate(isPrivate)}
+            >
+              <SwitchControl aria-label="Keep this workspace private">
+                <SwitchThumb />
+              </SwitchControl>
+            </Switch>
+          </div>
+          <For each={sharing()?.links}>
+            {linked => (
+              <div class="flex items-center gap-2 py-1" data-memory-link>
+                <div class="flex-1">
+                  <p class="text-foreground text-xs font-medium">
+                    {linked.workspace?.name ?? linked.resourceId}
+                    <Show when={linked.private}>
+                      <span class="text-muted-foreground font-normal"> (private, not shared)</span>
+                    </Show>
+                  </p>
+                  <p class="text-muted-foreground text-xs">{linked.resourceId}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  class="text-xs"
+                  onClick={() => void unlink(linked.resourceId)}
+                >
+                  Unlink
+                </Button>
+              </div>
+            )}
+          </For>
+          <div class="mt-2 flex items-center gap-2">
+            <Select
+              value={linkTarget()}
+              onChange={value => setLinkTarget(value ?? "")}
+              options={linkCandidates()}
+              placeholder="Link a workspace…"
+              itemComponent={itemProps => (
+                <SelectItem item={itemProps.item}>
+                  {candidateName(itemProps.item.rawValue)}
+                </SelectItem>
+              )}
+            >
+              <SelectTrigger aria-label="Workspace to link" class="flex-1">
+                <SelectValue<string>>{state => candidateName(state.selectedOption())}</SelectValue>
+              </SelectTrigger>
+              <SelectContent />
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              class="text-xs"
+              disabled={!linkTarget()}
+              onClick={() => void link()}
+            >
+              Link
+            </Button>
+          </div>
+        </Section>
+
+        <Show when={!threadId() && (records()?.keypoints.length ?? 0) > 0}>
+          <Section
+            title="Project milestones"
+            description="Task milestones recorded for this workspace."
+          >
+            <For each={records()?.keypoints}>
+              {keypoint => (
+                <div class="flex items-start gap-2 py-1">
+                  <div class="flex-1">
+                    <p class="text-foreground text-xs font-medium">
+                      {keypoint.taskTitle}{" "}
+                      <span class="text-muted-foreground font-normal">({keypoint.milestone})</span>
+                    </p>
+                    <p class="text-muted-foreground text-xs">{keypoint.summary}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    class="text-xs"
+                    onClick={() => void apply(client => client.deleteProjectKeypoint(keypoint.id))}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </For>
+          </Section>
+        </Show>
+      </Show>
+
+      <Section
+        title="Token thresholds"
+        description="When the observer and reflector run, in tokens. Leave empty to use each agent mode's default."
+      >
+        <div class="flex flex-wrap items-center gap-2">
+          <input
+            type="number"
+            min="1"
+            class={`${INPUT_CLASS} w-40`}
+            placeholder="Observe after"
+            aria-label="Observation threshold"
+            value={thresholds().observationThreshold ?? ""}
+            onInput={e =>
+              setThresholds(current => ({
+                ...current,
+                observationThreshold: parseThreshold(e.currentTarget.value),
+              }))
+            }
+          />
+          <input
+            type="number"
+            min="1"
+            class={`${INPUT_CLASS} w-40`}
+            placeholder="Reflect after"
+            aria-label="Reflection threshold"
+            value={thresholds().reflectionThreshold ?? ""}
+            onInput={e =>
+              setThresholds(current => ({
+                ...current,
+                reflectionThreshold: parseThreshold(e.currentTarget.value),
+              }))
+            }
+          />
+          <div class="flex-1" />
+          <Button
+            variant="primary"
+            size="sm"
+            disabled={settings.loading}
+            onClick={() => void saveThresholds()}
+          >
+            Save thresholds
+          </Button>
+        </div>
+      </Section>
+
+      <div class="flex justify-end py-4">
+        <Button
+          variant="ghost"
+          size="sm"
+          class="text-xs"
+          onClick={() => {
+            void refetchResources();
+            void refetchRecords();
+          }}
+        >
+          Refresh
+        </Button>
       </div>
     </div>
   );
@@ -1037,17 +1037,27 @@ export function ModelsSettings(props: ModelsSettingsProps) {
                                   Active
                                 </span>
                               </div>
-                              <p class="text-muted-foreground mt-1 text-xs">
-                                This provider is connected. You can disconnect it from here.
-                              </p>
-                              <div class="mt-3">
-                                <button
-                                  class="border-border/90 bg-muted/70 text-foreground hover:bg-muted rounded-md border px-2.5 py-2 text-xs font-medium transition-colors"
-                                  onClick={() => void disconnect(providerId())}
-                                >
-                                  Disconnect
-                                </button>
-                              </div>
+                              <Show
+                                when={auth()[providerId()]?.method !== "none"}
+                                fallback={
+                                  <p class="text-muted-foreground mt-1 text-xs">
+                                    This provider needs no credentials. Models are discovered from
+                                    the server when it is running.
+                                  </p>
+                                }
+                              >
+                                <p class="text-muted-foreground mt-1 text-xs">
+                                  This provider is connected. You can disconnect it from here.
+                                </p>
+                                <div class="mt-3">
+                                  <button
+                                    class="border-border/90 bg-muted/70 text-foreground hover:bg-muted rounded-md border px-2.5 py-2 text-xs font-medium transition-colors"
+                                    onClick={() => void disconnect(providerId())}
+                                  >
+                                    Disconnect
+                                  </button>
+                                </div>
+                              </Show>
                             </div>
                           </Show>
                         </Show>
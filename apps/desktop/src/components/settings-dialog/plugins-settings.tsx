@@ -0,0 +1,276 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  PluginInfo,
+  PluginState,
+  SaktiCodeApiClient,
+  WorkspacePluginsInfo,
+} from "@/core/services/api/api-client";
+import { cn } from "@/utils";
+import { For, Show, createEffect, createResource, createSignal } from "solid-js";
+
+interface PluginsSettingsProps {
+  apiClient?: SaktiCodeApiClient;
+}
+
+const STATE_LABELS: Record<PluginState, string> = {
+  loaded: "Loaded",
+  failed: "Failed",
+  incompatible: "Incompatible",
+  untrusted: "Untrusted",
+};
+
+const CONTRIBUTIONS: {
+  key: "tools" | "agents" | "commands" | "hooks" | "providers";
+  label: string;
+}[] = [
+  { key: "tools", label: "Tools" },
+  { key: "agents", label: "Agents" },
+  { key: "commands", label: "Commands" },
+  { key: "hooks", label: "Hooks" },
+  { key: "providers", label: "Providers" },
+];
+
+function PluginCard(props: { plugin: PluginInfo; trusting: boolean; onTrust: () => void }) {
+  const contributions = () =>
+    CONTRIBUTIONS.filter(({ key }) => props.plugin[key].length > 0).map(({ key, label }) => ({
+      label,
+      names: props.plugin[key],
+    }));
+
+  return (
+    <Card class="mt-4 p-4" data-plugin={props.plugin.name} data-state={props.plugin.state}>
+      <div class="flex items-center justify-between gap-3">
+        <div class="min-w-0">
+          <h3 class="text-sm font-semibold tracking-tight">
+            {props.plugin.name}
+            <Show when={props.plugin.version}>
+              <span class="text-muted-foreground ml-1.5 text-xs font-normal">
+                v{props.plugin.version}
+              </span>
+            </Show>
+          </h3>
+          <p class="text-muted-foreground mt-0.5 truncate font-mono text-xs">{props.plugin.path}</p>
+        </div>
+        <div class="flex shrink-0 items-center gap-2 text-xs">
+          <span class="text-muted-foreground">
+            {props.plugin.scope === "user" ? "User" : "Workspace"}
+          </span>
+          <span
+            data-slot="plugin-state"
+            class={cn(
+              "rounded px-1.5 py-0.5 font-medium",
+              props.plugin.state === "loaded" && "bg-emerald-500/15 text-emerald-300",
+              props.plugin.state === "failed" && "bg-red-500/15 text-red-300",
+              (props.plugin.state === "incompatible" || props.plugin.state === "untrusted") &&
+                "bg-amber-500/15 text-amber-300"
+            )}
+          >
+            {STATE_LABELS[props.plugin.state]}
+          </span>
+          <Show when={props.plugin.state === "untrusted"}>
+            <Button
+              variant="secondary"
+              size="sm"
+              data-slot="plugin-trust"
+              disabled={props.trusting}
+              onClick={() => props.onTrust()}
+            >
+              {props.trusting ? "Trusting..." : "Trust"}
+            </Button>
+          </Show>
+        </div>
+      </div>
+
+      <Show when={props.plugin.error}>
+        <p data-slot="plugin-error" class="text-destructive mt-2 text-xs">
+          {props.plugin.error}
+        </p>
+      </Show>
+
+      <Show when={contributions().length > 0}>
+        <dl class="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+          <For each={contributions()}>
+            {contribution => (
+              <>
+                <dt class="text-muted-foreground">{contribution.label}</dt>
+                <dd class="font-mono">{contribution.names.join(", ")}</dd>
+              </>
+            )}
+          </For>
+        </dl>
+      </Show>
+    </Card>
+  );
+}
+
+export function PluginsSettings(props: PluginsSettingsProps) {
+  const [directory, setDirectory] = createSignal<string>("");
+  const [reloading, setReloading] = createSignal(false);
+  const [trusting, setTrusting] = createSignal<string | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const [workspaces] = createResource(
+    () => props.apiClient,
+    client => client.getWorkspaces()
+  );
+  const workspaceName = (path: string) =>
+    workspaces()?.find(workspace => workspace.path === path)?.name ?? path;
+
+  createEffect(() => {
+    const first = workspaces()?.[0];
+    if (first && !directory()) setDirectory(first.path);
+  });
+
+  const [info, { mutate }] = createResource<
+    WorkspacePluginsInfo,
+    { client: SaktiCodeApiClient; dir: string }
+  >(
+    () => {
+      const client = props.apiClient;
+      const dir = directory();
+      return client && dir ? { client, dir } : undefined;
+    },
+    ({ client, dir }) => client.listPlugins(dir)
+  );
+
+  createEffect(() => {
+    if (info.error) {
+      setError(info.error instanceof Error ? info.error.message : String(info.error));
+    } else if (info()) {
+      setError(null);
+    }
+  });
+
+  const reload = async () => {
+    const client = props.apiClient;
+    if (!client || !directory()) return;
+
+    setReloading(true);
+    setError(null);
+    try {
+      mutate(await client.reloadPlugins(directory()));
+    } catch (reloadError) {
+      setError(reloadError instanceof Error ? reloadError.message : String(reloadError));
+    } finally {
+      setReloading(false);
+    }
+  };
+
+  const trust = async (plugin: PluginInfo) => {
+    const client = props.apiClient;
+    if (!client || !directory()) return;
+
+    setTrusting(plugin.path);
+    setError(null);
+    try {
+      mutate(await client.trustPlugin(directory(), plugin.path));
+    } catch (trustError) {
+      setError(trustError instanceof Error ? trustError.message : String(trustError));
+    } finally {
+      setTrusting(null);
+    }
+  };
+
+  return (
+    <div class="space-y-0">
+      <div class="border-border/70 flex items-center justify-between border-b px-0 py-4">
+        <div class="flex-1">
+          <label class="text-foreground text-sm font-medium">Workspace</label>
+          <p class="text-muted-foreground text-xs">
+            Plugins are ES modules in .sakti-code/plugins in the workspace or in the user plugins
+            directory. They can add tools, agents, slash commands and hooks. Workspace plugins only
+            load once you trust them, and again after their files change.
+          </p>
+        </div>
+        <div class="ml-6 w-56">
+          <Select
+            value={directory()}
+            onChange={value => value && setDirectory(value)}
+            options={(workspaces() ?? []).map(workspace => workspace.path)}
+            placeholder="Select workspace…"
+            itemComponent={itemProps => (
+              <SelectItem item={itemProps.item}>
+                {workspaceName(itemProps.item.rawValue)}
+              </SelectItem>
+            )}
+          >
+            <SelectTrigger aria-label="Workspace" class="w-full">
+              <SelectValue<string>>{state => workspaceName(state.selectedOption())}</SelectValue>
+            </SelectTrigger>
+            <SelectContent />
+          </Select>
+        </div>
+      </div>
+
+      <Show
+        when={directory()}
+        fallback={
+          <div class="px-0 py-8 text-center">
+            <p class="text-muted-foreground text-sm">
+              {workspaces.loading ? "Loading workspaces..." : "Open a workspace to see its plugins"}
+            </p>
+          </div>
+        }
+      >
+        <Show
+          when={(info()?.plugins.length ?? 0) > 0}
+          fallback={
+            <div class="px-0 py-8 text-center">
+              <p class="text-muted-foreground text-sm">
+                {info.loading ? "Loading plugins..." : "No plugins found."}
+              </p>
+              <Show when={info()}>
+                {loaded => (
+                  <p class="text-muted-foreground mt-1 font-mono text-xs">
+                    {loaded().workspaceDir}
+                    <br />
+                    {loaded().userDir}
+                  </p>
+                )}
+              </Show>
+            </div>
+          }
+        >
+          <For each={info()?.plugins}>
+            {plugin => (
+              <PluginCard
+                plugin={plugin}
+                trusting={trusting() === plugin.path}
+                onTrust={() => void trust(plugin)}
+              />
+            )}
+          </For>
+        </Show>
+
+        <div class="flex items-center justify-end gap-3 py-4">
+          <Show when={error()}>
+            <p class="text-destructive flex-1 text-xs">{error()}</p>
+          </Show>
+          <Show when={!error() && info()}>
+            {loaded => (
+              <p class="text-muted-foreground flex-1 text-xs">
+                Plugin API version {loaded().apiVersion}
+              </p>
+            )}
+          </Show>
+          <Button
+            variant="primary"
+            size="sm"
+            disabled={reloading() || info.loading}
+            onClick={() => void reload()}
+          >
+            {reloading() ? "Reloading..." : "Reload plugins"}
+          </Button>
+        </div>
+      </Show>
+    </div>
+  );
+}
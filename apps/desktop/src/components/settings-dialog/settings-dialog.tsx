@@ -15,6 +15,7 @@ import {
   FileText,
   GitBranch,
   Hammer,
+  Puzzle,
   Slash,
   Terminal,
   User,
@@ -41,6 +42,7 @@ export const SETTINGS_TABS: SettingsTab[] = [
   { id: "agents", label: "Agents", icon: Brain },
   { id: "memory", label: "Memory", icon: Zap },
   { id: "hooks", label: "Hooks", icon: Cloud },
+  { id: "plugins", label: "Plugins", icon: Puzzle },
   { id: "experimental", label: "Experimental", icon: FileText },
   { id: "changelog", label: "Changelog", icon: Book, external: true, href: "https://github.com" },
   { id: "docs", label: "Docs", icon: Book, external: true, href: "https://docs.sakti-code.dev" },
@@ -97,6 +99,7 @@ export function DialogSidebar(props: DialogSidebarProps) {
   );
 }
 
+import type { SaktiCodeApiClient } from "@/core/services/api/api-client";
 import type { ProviderClient } from "@/core/services/api/provider-client";
 import { AgentsSettings } from "./agents-settings";
 import { CommandsSettings } from "./commands-settings";
@@ -107,12 +110,14 @@ import { HooksSettings } from "./hooks-settings";
 import { McpSettings } from "./mcp-settings";
 import { MemorySettings } from "./memory-settings";
 import { ModelsSettings } from "./models-settings";
+import { PluginsSettings } from "./plugins-settings";
 import { TerminalSettings } from "./terminal-settings";
 
 interface SettingsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   providerClient?: ProviderClient;
+  apiClient?: SaktiCodeApiClient;
 }
 
 export function SettingsDialog(props: SettingsDialogProps) {
@@ -127,15 +132,17 @@ export function SettingsDialog(props: SettingsDialogProps) {
       case "terminal":
         return <TerminalSettings />;
       case "mcp":
-        return <McpSettings />;
+        return <McpSettings apiClient={props.apiClient} />;
       case "commands":
         return <CommandsSettings />;
       case "agents":
-        return <AgentsSettings />;
+        return <AgentsSettings apiClient={props.apiClient} />;
       case "memory":
-        return <MemorySettings />;
+        return <MemorySettings apiClient={props.apiClient} />;
       case "hooks":
-        return <HooksSettings />;
+        return <HooksSettings apiClient={props.apiClient} />;
+      case "plugins":
+        return <PluginsSettings apiClient={props.apiClient} />;
       case "models":
         return <ModelsSettings client={props.providerClient} />;
       case "experimental":
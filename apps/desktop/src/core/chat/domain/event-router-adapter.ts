@@ -462,6 +462,14 @@ function processEvent(
       break;
     }
 
+    case "message.removed": {
+      const props = isRecord(event.properties) ? event.properties : {};
+      const messageID = typeof props.messageID === "string" ? props.messageID : undefined;
+      if (!messageID) break;
+      messageActions.remove(messageID);
+      break;
+    }
+
     case "message.part.removed": {
       const props = isRecord(event.properties) ? event.properties : {};
       const messageID = typeof props.messageID === "string" ? props.messageID : undefined;
@@ -57,7 +57,10 @@ type _ServerInstanceDisposedHandler = (
 type EventHandler = (event: AllServerEvents, deps: EventRouterDependencies) => void;
 
 // Import handlers
-import { handleMessageUpdated as _handleMessageUpdated } from "./message-events";
+import {
+  handleMessageRemoved as _handleMessageRemoved,
+  handleMessageUpdated as _handleMessageUpdated,
+} from "./message-events";
 import {
   handlePartRemoved as _handlePartRemoved,
   handlePartUpdated as _handlePartUpdated,
@@ -78,6 +81,12 @@ const handleMessageUpdated: EventHandler = (event, deps) => {
   }
 };
 
+const handleMessageRemoved: EventHandler = (event, deps) => {
+  if (event.type === "message.removed") {
+    _handleMessageRemoved(event, deps);
+  }
+};
+
 const handlePartUpdated: EventHandler = (event, deps) => {
   if (event.type === "message.part.updated") {
     _handlePartUpdated(event, deps);
@@ -122,6 +131,7 @@ const HANDLERS: Partial<Record<EventType, EventHandler>> = {
   "message.updated": handleMessageUpdated,
   "message.part.updated": handlePartUpdated,
   "message.part.removed": handlePartRemoved,
+  "message.removed": handleMessageRemoved,
 
   // Session events
   "session.created": handleSessionCreated,
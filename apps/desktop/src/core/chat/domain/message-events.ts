@@ -8,7 +8,7 @@
 import type { MessageActions } from "@/state/stores/message-store";
 import type { PartActions } from "@/state/stores/part-store";
 import type { SessionActions } from "@/state/stores/session-store";
-import type { MessageUpdatedPayload } from "@sakti-code/shared/event-types";
+import type { MessageRemovedPayload, MessageUpdatedPayload } from "@sakti-code/shared/event-types";
 
 export interface MessageHandlerDependencies {
   messageActions: MessageActions;
@@ -40,3 +40,14 @@ export function handleMessageUpdated(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } as any);
 }
+
+/**
+ * Handle message.removed event
+ * Removes a message hidden by a session revert
+ */
+export function handleMessageRemoved(
+  event: { type: "message.removed"; properties: MessageRemovedPayload; directory?: string },
+  deps: MessageHandlerDependencies
+): void {
+  deps.messageActions.remove(event.properties.messageID);
+}
@@ -94,7 +94,10 @@ describe("useChat - Session Identity", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockChatFn = vi.fn();
-    mockClient = { chat: mockChatFn } as unknown as SaktiCodeApiClient;
+    mockClient = {
+      chat: mockChatFn,
+      getSessionRevert: vi.fn().mockResolvedValue(null),
+    } as unknown as SaktiCodeApiClient;
     mockGetBySession.mockReturnValue([]);
     mockGetById.mockReturnValue(undefined);
     mockGetByMessage.mockReturnValue([]);
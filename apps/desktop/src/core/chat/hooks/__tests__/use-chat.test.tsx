@@ -146,6 +146,7 @@ describe("useChat", () => {
     });
     mockClient = new SaktiCodeApiClient({ baseUrl: "http://localhost:3000", token: "test-token" });
     mockChatFn = vi.spyOn(mockClient, "chat");
+    vi.spyOn(mockClient, "getSessionRevert").mockResolvedValue(null);
     mockGetBySession.mockReturnValue([]);
     mockGetById.mockImplementation((id: string) => messagesById.get(id));
     mockGetByMessage.mockReturnValue([]);
@@ -498,6 +499,34 @@ describe("useChat", () => {
     });
   });
 
+  it("reverts a session and redoes it through the client", async () => {
+    const { useChat } = await import("@/core/chat/hooks");
+    const revert = { messageID: "msg-1", messageIDs: ["msg-1", "msg-2"], files: ["/repo/a.ts"] };
+    const revertSpy = vi.spyOn(mockClient, "revertSession").mockResolvedValue(revert);
+    const redoSpy = vi.spyOn(mockClient, "redoSession").mockResolvedValue(revert);
+
+    await createRoot(async dispose => {
+      const chat = useChat({
+        sessionId: () => "session-1",
+        workspace: () => "/repo",
+        client: mockClient,
+      });
+
+      await chat.revert("msg-1");
+
+      expect(revertSpy).toHaveBeenCalledWith("session-1", "msg-1");
+      expect(mockRemove).toHaveBeenCalledWith("msg-1");
+      expect(mockRemove).toHaveBeenCalledWith("msg-2");
+      expect(chat.revertState()).toEqual(revert);
+
+      await chat.redo();
+
+      expect(redoSpy).toHaveBeenCalledWith("session-1");
+      expect(chat.revertState()).toBeNull();
+      dispose();
+    });
+  });
+
   it("does not fail when server omits X-Task-Session-ID for new session", async () => {
     const { useChat } = await import("@/core/chat/hooks");
     const responseWithoutHeader = {
@@ -41,7 +41,7 @@ import { recordChatPerfCounter } from "@/core/chat/services/chat-perf-telemetry"
 import { parseChatStream } from "@/core/chat/services/chat-stream-parser";
 import { createStreamUpdateCoalescer } from "@/core/chat/services/stream-update-coalescer";
 import type { ChatUIMessage } from "@/core/chat/types/ui-message";
-import type { SaktiCodeApiClient } from "@/core/services/api/api-client";
+import type { SaktiCodeApiClient, SessionRevert } from "@/core/services/api/api-client";
 import { createLogger } from "@/core/shared/logger";
 import { useMessageStore, usePartStore, useSessionStore } from "@/state/providers";
 import { batch, createEffect, createSignal, onCleanup, type Accessor } from "solid-js";
@@ -52,6 +52,31 @@ import { useStreaming } from "./use-streaming";
 
 const logger = createLogger("desktop:hooks:use-chat");
 
+const SLASH_COMMAND = /^\/([a-z0-9][a-z0-9_-]*)(?:\s+([\s\S]*))?$/i;
+
+/**
+ * Match `/name arguments` against the workspace's user-defined commands
+ */
+async function resolveCustomCommand(
+  client: SaktiCodeApiClient,
+  workspace: string,
+  text: string
+): Promise<{ name: string; arguments: string } | undefined> {
+  const match = text.match(SLASH_COMMAND);
+  if (!match) return undefined;
+
+  try {
+    const commands = await client.listCommands(workspace);
+    const known = commands.some(
+      command => command.category === "custom" && command.trigger === match[1]
+    );
+    return known ? { name: match[1], arguments: match[2] ?? "" } : undefined;
+  } catch (error) {
+    logger.warn("Failed to resolve slash command", { error: String(error) });
+    return undefined;
+  }
+}
+
 function extractTextFromPart(part: Record<string, unknown>): string {
   if (part.type !== "text") return "";
   if (typeof part.text === "string") return part.text;
@@ -114,6 +139,8 @@ export interface UseChatOptions {
   modelId?: Accessor<string | null | undefined>;
   /** Optional runtime mode accessor for chat behavior */
   runtimeMode?: Accessor<"intake" | "plan" | "build" | undefined>;
+  /** Optional primary agent accessor; overrides the runtime mode's agent */
+  agent?: Accessor<string | undefined>;
 
   /** Called when session ID is received/updated */
   onSessionIdReceived?: (sessionId: string) => void;
@@ -158,6 +185,15 @@ export interface UseChatResult {
 
   /** Copy message text */
   copy: (messageId: string) => Promise<void>;
+
+  /** Active revert of the session, if any */
+  revertState: Accessor<SessionRevert | null>;
+
+  /** Revert the session to just before a message, restoring changed files */
+  revert: (messageId: string) => Promise<void>;
+
+  /** Undo the active revert */
+  redo: () => Promise<void>;
 }
 
 /**
@@ -202,6 +238,27 @@ export function useChat(options: UseChatOptions): UseChatResult {
     }
   });
 
+  const [revertState, setRevertState] = createSignal<SessionRevert | null>(null);
+
+  createEffect(() => {
+    const sessionId = effectiveSessionId();
+    setRevertState(null);
+    if (!sessionId || !client) return;
+
+    void client
+      .getSessionRevert(sessionId)
+      .then(revert => {
+        // A local revert may have landed while the request was in flight
+        if (effectiveSessionId() === sessionId && !revertState()) setRevertState(revert);
+      })
+      .catch(error => {
+        logger.warn("Failed to load session revert state", {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  });
+
   // Adopt server-created sessions when header-based session propagation is unavailable.
   createEffect(() => {
     if (effectiveSessionId()) return;
@@ -324,6 +381,9 @@ export function useChat(options: UseChatOptions): UseChatResult {
       return;
     }
 
+    // The server makes an active revert permanent when a new message arrives
+    setRevertState(null);
+
     // Get workspace
     const ws = options.workspace();
     if (!ws) {
@@ -452,6 +512,12 @@ export function useChat(options: UseChatOptions): UseChatResult {
     // Start streaming with active message id
     streaming.start(userMessageId);
 
+    // `/name arguments` runs a user-defined command; the server expands its template
+    const command =
+      !retryOptions && trimmed.startsWith("/")
+        ? await resolveCustomCommand(client, ws, trimmed)
+        : undefined;
+
     if (shouldUseBackgroundRun && currentSessionId) {
       const runMode = runtimeMode === "plan" || runtimeMode === "build" ? runtimeMode : null;
       if (!runMode) {
@@ -508,8 +574,10 @@ export function useChat(options: UseChatOptions): UseChatResult {
               workspace: ws,
               providerId: options.providerId?.() ?? undefined,
               modelId: options.modelId?.() ?? undefined,
+              agent: options.agent?.(),
               messageId: userMessageId,
               retryOfAssistantMessageId: retryOptions?.retryOfAssistantMessageId,
+              command,
             },
           });
 
@@ -579,6 +647,8 @@ export function useChat(options: UseChatOptions): UseChatResult {
         providerId: options.providerId?.() ?? undefined,
         modelId: options.modelId?.() ?? undefined,
         runtimeMode: options.runtimeMode?.(),
+        agent: options.agent?.(),
+        command,
         signal: abortController.signal,
       });
 
@@ -1270,6 +1340,48 @@ export function useChat(options: UseChatOptions): UseChatResult {
     await navigator.clipboard.writeText(text);
   };
 
+  /**
+   * Revert the session to just before a message
+   */
+  const revert = async (messageId: string): Promise<void> => {
+    const sessionId = effectiveSessionId();
+    if (!sessionId || !client) return;
+
+    if (!streaming.canSend()) {
+      logger.warn("Cannot revert, streaming in progress");
+      return;
+    }
+
+    try {
+      const result = await client.revertSession(sessionId, messageId);
+      batch(() => {
+        for (const id of result.messageIDs) {
+          messageActions.remove(id);
+        }
+      });
+      setRevertState(result);
+    } catch (error) {
+      logger.error("Failed to revert session", error as Error, { sessionId, messageId });
+      onError?.(error as Error);
+    }
+  };
+
+  /**
+   * Undo the active revert; restored messages arrive through SSE
+   */
+  const redo = async (): Promise<void> => {
+    const sessionId = effectiveSessionId();
+    if (!sessionId || !client) return;
+
+    try {
+      await client.redoSession(sessionId);
+      setRevertState(null);
+    } catch (error) {
+      logger.error("Failed to redo session", error as Error, { sessionId });
+      onError?.(error as Error);
+    }
+  };
+
   /**
    * Cleanup on unmount
    */
@@ -1289,5 +1401,8 @@ export function useChat(options: UseChatOptions): UseChatResult {
     retry,
     delete: deleteMsg,
     copy,
+    revertState,
+    revert,
+    redo,
   };
 }
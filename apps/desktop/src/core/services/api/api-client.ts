@@ -46,10 +46,29 @@ export interface ChatOptions {
   modelId?: string;
   /** Runtime mode for chat/tool behavior */
   runtimeMode?: "intake" | "plan" | "build";
+  /** Primary agent to run instead of the runtime mode's */
+  agent?: string;
+  /** User-defined slash command to run instead of the message text */
+  command?: { name: string; arguments?: string };
   /** Abort signal for request cancellation */
   signal?: AbortSignal;
 }
 
+/**
+ * Command catalog entry
+ */
+export interface CommandInfo {
+  id: string;
+  name: string;
+  description: string;
+  requiresApproval: boolean;
+  category: string;
+  enabled: boolean;
+  /** Slash trigger for user-defined commands */
+  trigger?: string;
+  scope?: "user" | "workspace" | "plugin";
+}
+
 /**
  * Permission approval response
  */
@@ -98,6 +117,25 @@ export interface SessionStatus {
   hasIncompleteWork?: boolean;
 }
 
+/**
+ * Active undo of a session: messages hidden and files restored by a revert
+ */
+export interface SessionRevert {
+  messageID: string;
+  messageIDs: string[];
+  files: string[];
+}
+
+export interface SessionCompaction {
+  /** Checkpoint message the older turns were folded into, or null if nothing was compacted */
+  checkpointId: string | null;
+  summary: string;
+  compacted: number;
+  reflected: boolean;
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
 export type TaskSessionStatus =
   | "researching"
   | "specifying"
@@ -112,6 +150,7 @@ export interface TaskSessionInfo {
   taskSessionId: string;
   resourceId: string;
   threadId: string;
+  parentId?: string | null;
   workspaceId: string | null;
   title: string | null;
   status: TaskSessionStatus;
@@ -129,6 +168,34 @@ export interface CreateTaskSessionPayload {
   sessionKind?: TaskSessionKind;
 }
 
+export interface ForkTaskSessionPayload {
+  /** Fork just before this message; omit to fork the whole conversation */
+  messageId?: string;
+  /** Give the fork its own git worktree on a new branch */
+  worktree?: { name?: string; branch?: string };
+}
+
+export interface ForkTaskSessionResult {
+  taskSession: TaskSessionInfo;
+  messages: number;
+  worktreePath: string | null;
+}
+
+export type TaskSessionExportFormat = "json" | "markdown" | "html";
+
+export interface ImportTaskSessionPayload {
+  /** Parsed JSON bundle produced by an export */
+  bundle: unknown;
+  workspaceId?: string;
+  resourceId?: string;
+}
+
+export interface ImportTaskSessionResult {
+  taskSession: TaskSessionInfo;
+  messages: number;
+  specRestored: boolean;
+}
+
 export interface UpdateTaskSessionPayload {
   status?: TaskSessionStatus;
   specType?: TaskSessionSpecType;
@@ -232,6 +299,355 @@ export interface ArchiveWorkspaceOptions {
   isMerged?: boolean;
 }
 
+/**
+ * Shell session owned by the server
+ */
+export interface TerminalInfo {
+  id: string;
+  directory: string;
+  title: string;
+  shell: string;
+  backend: "pty" | "pipe";
+  pid: number;
+  cols: number;
+  rows: number;
+  status: "running" | "exited";
+  exitCode?: number | null;
+  createdAt: number;
+}
+
+/**
+ * Message on a terminal stream; the first one is always the snapshot
+ */
+export type TerminalStreamEvent =
+  | { type: "snapshot"; terminal: TerminalInfo; scrollback: string }
+  | { type: "output"; data: string }
+  | { type: "exit"; exitCode: number | null };
+
+/**
+ * Token usage and cost, as totalled by the server
+ */
+export interface UsageTotals {
+  tokens: {
+    input: number;
+    output: number;
+    reasoning: number;
+    cache: { read: number; write: number };
+  };
+  totalTokens: number;
+  /** Cost in USD, from catalog pricing */
+  cost: number;
+  messages: number;
+}
+
+export type HookEventName =
+  | "preToolUse"
+  | "postToolUse"
+  | "sessionStart"
+  | "userPromptSubmit"
+  | "stop";
+
+/**
+ * Shell command run by a workspace hook
+ */
+export interface HookCommandConfig {
+  command: string;
+  /** Regex over tool names; only used by tool hooks */
+  matcher?: string;
+  timeoutMs?: number;
+}
+
+export type WorkspaceHooksConfig = Record<HookEventName, HookCommandConfig[]>;
+
+export interface WorkspaceHooksInfo {
+  directory: string;
+  /** Config file the hooks are read from and saved to */
+  path: string;
+  hooks: WorkspaceHooksConfig;
+  /** False when the file changed outside settings; its hooks do not run until saved */
+  trusted: boolean;
+}
+
+export type AgentPermissionAction = "allow" | "deny" | "ask";
+
+/**
+ * Agent listed by the server: built-in, custom or from a plugin
+ */
+export interface AgentInfo {
+  id: string;
+  name: string;
+  mode: "primary" | "subagent";
+  description?: string;
+}
+
+/**
+ * Agent defined in a Markdown file
+ */
+export interface CustomAgentDefinition {
+  name: string;
+  description?: string;
+  mode: "primary" | "subagent";
+  /** Model name or `provider/model` reference */
+  model?: string;
+  temperature?: number;
+  maxIterations?: number;
+  tools?: string[];
+  /** Permission overrides by permission, for every pattern or by pattern */
+  permission?: Record<string, AgentPermissionAction | Record<string, AgentPermissionAction>>;
+  systemPrompt: string;
+}
+
+export interface CustomAgentInfo extends CustomAgentDefinition {
+  scope: "user" | "workspace";
+  /** File the agent is read from */
+  location: string;
+}
+
+export interface CustomAgentsInfo {
+  directory: string;
+  userDir: string;
+  workspaceDir: string;
+  agents: CustomAgentInfo[];
+  /** Agent files that could not be loaded */
+  errors: Array<{ path: string; message: string }>;
+}
+
+export type McpConnectionState = "connecting" | "connected" | "degraded" | "offline";
+
+/**
+ * MCP server definition as saved to mcp.json
+ */
+export type McpServerConfig =
+  | {
+      type: "stdio";
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;
+      cwd?: string;
+      enabled?: boolean;
+      /** Default permission by tool name, or `*` for every tool */
+      permissions?: Record<string, AgentPermissionAction>;
+    }
+  | {
+      type: "http";
+      url: string;
+      headers?: Record<string, string>;
+      enabled?: boolean;
+      permissions?: Record<string, AgentPermissionAction>;
+    };
+
+export interface McpServerInfo {
+  name: string;
+  type: McpServerConfig["type"];
+  /** Config file the server is defined in */
+  scope: "user" | "workspace";
+  config: McpServerConfig;
+  enabled: boolean;
+  /** False for a workspace server saved outside settings; it is not started */
+  trusted: boolean;
+  state: McpConnectionState;
+  tools: Array<{ name: string; description?: string; permission?: AgentPermissionAction }>;
+  resources: Array<{ uri: string; name: string; description?: string; mimeType?: string }>;
+  error?: string;
+  connectedAt?: number;
+  reconnectAttempts: number;
+}
+
+export interface McpStatusInfo {
+  directory: string;
+  servers: McpServerInfo[];
+  summary: { total: number; connected: number; degraded: number; offline: number };
+}
+
+/**
+ * AGENTS.md or CLAUDE.md file and whether it is in the session's system prompt
+ */
+export interface InstructionFileInfo {
+  path: string;
+  scope: "user" | "workspace" | "directory";
+  /** Directory whose files the instructions apply to */
+  appliesTo?: string;
+  size: number;
+  truncated: boolean;
+  active: boolean;
+}
+
+export type PluginState = "loaded" | "failed" | "incompatible" | "untrusted";
+
+export interface PluginInfo {
+  name: string;
+  version?: string;
+  apiVersion?: number;
+  scope: "user" | "workspace";
+  path: string;
+  state: PluginState;
+  error?: string;
+  tools: string[];
+  agents: string[];
+  commands: string[];
+  hooks: string[];
+  providers: string[];
+  loadedAt?: number;
+}
+
+export interface WorkspacePluginsInfo {
+  directory: string;
+  /** Plugin API version implemented by the server */
+  apiVersion: number;
+  userDir: string;
+  workspaceDir: string;
+  plugins: PluginInfo[];
+}
+
+export interface MemoryThreadInfo {
+  id: string;
+  title: string;
+  updatedAt: string;
+}
+
+/**
+ * Resource the memory system stored records for, usually a workspace path
+ */
+export interface MemoryResourceInfo {
+  resourceId: string;
+  /** Workspace the resource ID refers to, if it still exists */
+  workspace: { id: string; name: string; path: string } | null;
+  threads: MemoryThreadInfo[];
+}
+
+export interface MemoryObservationsInfo {
+  id: string;
+  scope: "thread" | "resource";
+  threadId: string | null;
+  resourceId: string | null;
+  content: string;
+  generationCount: number;
+  /** The observer or reflector is rewriting the observations; edits are refused */
+  busy: boolean;
+  updatedAt: string;
+}
+
+export interface MemoryReflectionInfo {
+  id: string;
+  threadId: string | null;
+  resourceId: string | null;
+  content: string;
+  generationCount: number;
+  tokenCount: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkingMemoryInfo {
+  id: string;
+  resourceId: string;
+  scope: "thread" | "resource";
+  content: string;
+  updatedAt: string;
+}
+
+export type MemoryPinSource = "manual" | "observation" | "reflection";
+
+export interface MemoryPinInfo {
+  id: string;
+  resourceId: string;
+  /** Null when the fact applies to every thread of the resource */
+  threadId: string | null;
+  content: string;
+  sourceType: MemoryPinSource;
+  sourceId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Memory records of a thread, or of a resource when no thread is given
+ */
+export interface MemoryRecordsInfo {
+  resourceId: string;
+  threadId: string | null;
+  observations: MemoryObservationsInfo | null;
+  reflections: MemoryReflectionInfo[];
+  workingMemory: WorkingMemoryInfo | null;
+  pins: MemoryPinInfo[];
+  keypoints: Array<
+    Pick<ProjectKeypointInfo, "id" | "taskTitle" | "milestone" | "summary" | "completedAt">
+  >;
+}
+
+export interface CreateMemoryPinPayload {
+  resourceId: string;
+  threadId?: string;
+  content: string;
+  sourceType?: MemoryPinSource;
+  sourceId?: string;
+}
+
+/**
+ * Token thresholds; unset values use the agent mode's defaults
+ */
+export interface MemorySettingsInfo {
+  observationThreshold?: number;
+  reflectionThreshold?: number;
+}
+
+export interface LinkedMemoryResourceInfo {
+  resourceId: string;
+  workspace: { id: string; name: string; path: string } | null;
+  /** The linked resource shares nothing while private */
+  private: boolean;
+}
+
+/**
+ * Memory links of a resource and whether it shares its own memory
+ */
+export interface MemorySharingInfo {
+  resourceId: string;
+  private: boolean;
+  links: LinkedMemoryResourceInfo[];
+}
+
+export type SpecExecutionStatus = "running" | "completed" | "failed";
+
+export interface SpecExecutionTaskInfo {
+  taskId: string;
+  specTaskId: string;
+  title: string;
+  parallel: boolean;
+  state: "running" | "done" | "failed";
+  taskSessionId: string | null;
+  runId: string | null;
+  worktreePath: string | null;
+  branch: string | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface SpecMergeQueueEntryInfo {
+  taskId: string;
+  title: string;
+  branch: string;
+  worktreePath: string;
+  taskSessionId: string | null;
+}
+
+/**
+ * Execution of a compiled spec, each task in its own worktree
+ */
+export interface SpecExecutionInfo {
+  executionId: string;
+  workspaceId: string;
+  specSlug: string;
+  status: SpecExecutionStatus;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  tasks: SpecExecutionTaskInfo[];
+  /** Branches of the tasks that passed validation, in merge order; null while running */
+  mergeQueue: SpecMergeQueueEntryInfo[] | null;
+}
+
 /**
  * API Client for SaktiCode Desktop
  *
@@ -348,6 +764,8 @@ export class SaktiCodeApiClient {
           providerId: options.providerId,
           modelId: options.modelId,
           runtimeMode: options.runtimeMode,
+          agent: options.agent,
+          command: options.command,
           stream: true,
         }),
         signal: options.signal,
@@ -410,6 +828,101 @@ export class SaktiCodeApiClient {
     }
   }
 
+  /**
+   * Get the active revert of a session
+   *
+   * @returns The revert, or null when the session is not reverted
+   */
+  async getSessionRevert(sessionId: string): Promise<SessionRevert | null> {
+    const response = await fetch(`${this.config.baseUrl}/api/chat/${sessionId}/revert`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get session revert: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { revert: SessionRevert | null };
+    return data.revert;
+  }
+
+  /**
+   * Revert a session to just before a message
+   *
+   * Restores the files the agent changed since that message and hides it and
+   * every later message until the revert is redone or a new message is sent.
+   */
+  async revertSession(sessionId: string, messageId: string): Promise<SessionRevert> {
+    logger.info("Reverting session", { sessionId, messageId });
+
+    const response = await fetch(`${this.config.baseUrl}/api/chat/${sessionId}/revert`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ messageID: messageId }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      logger.warn("Session revert failed", { sessionId, messageId, error });
+      throw new Error(`Failed to revert session: ${error || response.statusText}`);
+    }
+
+    const data = (await response.json()) as { revert: SessionRevert };
+    return data.revert;
+  }
+
+  /**
+   * Undo the active revert of a session
+   *
+   * @returns The restored revert, or null when there was nothing to redo
+   */
+  async redoSession(sessionId: string): Promise<SessionRevert | null> {
+    logger.info("Redoing session revert", { sessionId });
+
+    const response = await fetch(`${this.config.baseUrl}/api/chat/${sessionId}/redo`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      const error = await response.text();
+      logger.warn("Session redo failed", { sessionId, error });
+      throw new Error(`Failed to redo session: ${error || response.statusText}`);
+    }
+
+    const data = (await response.json()) as { restored: SessionRevert };
+    return data.restored;
+  }
+
+  /**
+   * Summarize the older turns of a session into a checkpoint
+   *
+   * The agent continues from the summary; the folded turns stay searchable.
+   */
+  async compactSession(
+    sessionId: string,
+    options: { providerId?: string; modelId?: string } = {}
+  ): Promise<SessionCompaction> {
+    logger.info("Compacting session", { sessionId });
+
+    const response = await fetch(`${this.config.baseUrl}/api/chat/${sessionId}/compact`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify(options),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      logger.warn("Session compaction failed", { sessionId, error });
+      throw new Error(`Failed to compact session: ${error || response.statusText}`);
+    }
+
+    const data = (await response.json()) as { compaction: SessionCompaction };
+    return data.compaction;
+  }
+
   // ============================================================
   // Task Sessions API
   // ============================================================
@@ -521,86 +1034,191 @@ export class SaktiCodeApiClient {
   }
 
   /**
-   * Update a task session
+   * Fork a task session into a new one
    *
-   * @param taskSessionId - Task session ID to update
-   * @param patch - Partial task session fields to update
-   * @returns Updated task session
+   * @param taskSessionId - Task session ID to fork
+   * @param payload - Fork point and optional worktree
+   * @returns The new task session
    */
-  async updateTaskSession(
+  async forkTaskSession(
     taskSessionId: string,
-    patch: UpdateTaskSessionPayload
-  ): Promise<TaskSessionInfo> {
-    logger.info("Updating task session", { taskSessionId, patch });
+    payload: ForkTaskSessionPayload = {}
+  ): Promise<ForkTaskSessionResult> {
+    logger.info("Forking task session", { taskSessionId, messageId: payload.messageId });
 
     try {
-      const response = await fetch(`${this.config.baseUrl}/api/task-sessions/${taskSessionId}`, {
-        method: "PATCH",
-        headers: this.commonHeaders(),
-        body: JSON.stringify(patch),
-      });
+      const response = await fetch(
+        `${this.config.baseUrl}/api/task-sessions/${taskSessionId}/fork`,
+        {
+          method: "POST",
+          headers: this.commonHeaders(),
+          body: JSON.stringify(payload),
+        }
+      );
 
       if (!response.ok) {
-        throw new Error(`Failed to update task session: ${response.statusText}`);
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error ?? `Failed to fork task session: ${response.statusText}`);
       }
 
-      const data = await response.json();
-      logger.info("Task session updated", { taskSessionId });
-      return data.taskSession;
+      const data = (await response.json()) as ForkTaskSessionResult;
+      logger.info("Task session forked", {
+        taskSessionId,
+        forkId: data.taskSession.taskSessionId,
+      });
+      return data;
     } catch (error) {
-      logger.error("Failed to update task session", error as Error, { taskSessionId, patch });
+      logger.error("Failed to fork task session", error as Error, { taskSessionId });
       throw error;
     }
   }
 
   /**
-   * Delete a task session
+   * Export a task session as a shareable document
    *
-   * @param taskSessionId - Task session ID to delete
+   * @param taskSessionId - Task session ID to export
+   * @param format - JSON bundle (re-importable), Markdown or static HTML
+   * @returns The exported document as text
    */
-  async deleteTaskSession(taskSessionId: string): Promise<void> {
-    logger.info("Deleting task session", { taskSessionId });
+  async exportTaskSession(
+    taskSessionId: string,
+    format: TaskSessionExportFormat = "json"
+  ): Promise<string> {
+    logger.info("Exporting task session", { taskSessionId, format });
 
     try {
-      const response = await fetch(`${this.config.baseUrl}/api/task-sessions/${taskSessionId}`, {
-        method: "DELETE",
+      const url = new URL(`${this.config.baseUrl}/api/task-sessions/${taskSessionId}/export`);
+      url.searchParams.set("format", format);
+      const response = await fetch(url.toString(), {
+        method: "GET",
         headers: this.commonHeaders(),
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to delete task session: ${response.statusText}`);
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error ?? `Failed to export task session: ${response.statusText}`);
       }
 
-      logger.info("Task session deleted", { taskSessionId });
+      return await response.text();
     } catch (error) {
-      logger.error("Failed to delete task session", error as Error, { taskSessionId });
+      logger.error("Failed to export task session", error as Error, { taskSessionId });
       throw error;
     }
   }
 
   /**
-   * Get latest task session for workspace
+   * Import an exported JSON bundle as a new task session
    *
-   * @param workspaceId - Workspace ID
-   * @returns Task session or null if not found
+   * @param payload - Bundle and target workspace
+   * @returns The recreated task session
    */
-  async getLatestTaskSession(
-    workspaceId: string,
-    kind: TaskSessionKind = "task"
-  ): Promise<TaskSessionInfo | null> {
-    logger.debug("Fetching latest task session for workspace", { workspaceId, kind });
+  async importTaskSession(payload: ImportTaskSessionPayload): Promise<ImportTaskSessionResult> {
+    logger.info("Importing task session", { workspaceId: payload.workspaceId });
 
     try {
-      const response = await fetch(
-        `${this.config.baseUrl}/api/task-sessions/latest?workspaceId=${workspaceId}&kind=${kind}`,
-        {
-          method: "GET",
-          headers: this.commonHeaders(),
-        }
-      );
+      const response = await fetch(`${this.config.baseUrl}/api/task-sessions/import`, {
+        method: "POST",
+        headers: this.commonHeaders(),
+        body: JSON.stringify(payload),
+      });
 
       if (!response.ok) {
-        if (response.status === 404) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error ?? `Failed to import task session: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as ImportTaskSessionResult;
+      logger.info("Task session imported", {
+        taskSessionId: data.taskSession.taskSessionId,
+      });
+      return data;
+    } catch (error) {
+      logger.error("Failed to import task session", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a task session
+   *
+   * @param taskSessionId - Task session ID to update
+   * @param patch - Partial task session fields to update
+   * @returns Updated task session
+   */
+  async updateTaskSession(
+    taskSessionId: string,
+    patch: UpdateTaskSessionPayload
+  ): Promise<TaskSessionInfo> {
+    logger.info("Updating task session", { taskSessionId, patch });
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}/api/task-sessions/${taskSessionId}`, {
+        method: "PATCH",
+        headers: this.commonHeaders(),
+        body: JSON.stringify(patch),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to update task session: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      logger.info("Task session updated", { taskSessionId });
+      return data.taskSession;
+    } catch (error) {
+      logger.error("Failed to update task session", error as Error, { taskSessionId, patch });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a task session
+   *
+   * @param taskSessionId - Task session ID to delete
+   */
+  async deleteTaskSession(taskSessionId: string): Promise<void> {
+    logger.info("Deleting task session", { taskSessionId });
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}/api/task-sessions/${taskSessionId}`, {
+        method: "DELETE",
+        headers: this.commonHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to delete task session: ${response.statusText}`);
+      }
+
+      logger.info("Task session deleted", { taskSessionId });
+    } catch (error) {
+      logger.error("Failed to delete task session", error as Error, { taskSessionId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get latest task session for workspace
+   *
+   * @param workspaceId - Workspace ID
+   * @returns Task session or null if not found
+   */
+  async getLatestTaskSession(
+    workspaceId: string,
+    kind: TaskSessionKind = "task"
+  ): Promise<TaskSessionInfo | null> {
+    logger.debug("Fetching latest task session for workspace", { workspaceId, kind });
+
+    try {
+      const response = await fetch(
+        `${this.config.baseUrl}/api/task-sessions/latest?workspaceId=${workspaceId}&kind=${kind}`,
+        {
+          method: "GET",
+          headers: this.commonHeaders(),
+        }
+      );
+
+      if (!response.ok) {
+        if (response.status === 404) {
           logger.debug("No task session found for workspace", { workspaceId, kind });
           return null;
         }
@@ -774,6 +1392,20 @@ export class SaktiCodeApiClient {
     }
   }
 
+  async deleteProjectKeypoint(id: string): Promise<void> {
+    const response = await fetch(
+      `${this.config.baseUrl}/api/project-keypoints/${encodeURIComponent(id)}`,
+      {
+        method: "DELETE",
+        headers: this.commonHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete project keypoint: ${response.statusText}`);
+    }
+  }
+
   // ============================================================
   // Workspaces API
   // ============================================================
@@ -1376,6 +2008,836 @@ export class SaktiCodeApiClient {
     }
   }
 
+  // ============================================================
+  // Commands API
+  // ============================================================
+
+  /**
+   * List the command catalog, including the workspace's user-defined commands
+   *
+   * @param directory - Workspace directory path
+   */
+  async listCommands(directory: string): Promise<CommandInfo[]> {
+    logger.debug("Listing commands", { directory });
+
+    const searchParams = new URLSearchParams({ directory });
+    const response = await fetch(`${this.config.baseUrl}/api/commands?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list commands: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { commands: CommandInfo[] };
+    return data.commands;
+  }
+
+  // ============================================================
+  // Terminal API
+  // ============================================================
+
+  /**
+   * List the terminals open in a workspace
+   *
+   * @param directory - Workspace directory path
+   */
+  async listTerminals(directory: string): Promise<TerminalInfo[]> {
+    const searchParams = new URLSearchParams({ directory });
+    const response = await fetch(`${this.config.baseUrl}/api/terminals?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list terminals: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { terminals: TerminalInfo[] };
+    return data.terminals;
+  }
+
+  /**
+   * Start a shell in a workspace
+   */
+  async createTerminal(payload: {
+    directory: string;
+    cols?: number;
+    rows?: number;
+    title?: string;
+  }): Promise<TerminalInfo> {
+    logger.info("Creating terminal", { directory: payload.directory });
+
+    const response = await fetch(`${this.config.baseUrl}/api/terminals`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Failed to create terminal: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { terminal: TerminalInfo };
+    return data.terminal;
+  }
+
+  /**
+   * Send keystrokes to a terminal
+   */
+  async writeTerminal(id: string, data: string): Promise<void> {
+    const response = await fetch(`${this.config.baseUrl}/api/terminals/${id}/input`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ data }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to write to terminal: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Resize a terminal to the client's viewport
+   */
+  async resizeTerminal(id: string, cols: number, rows: number): Promise<void> {
+    const response = await fetch(`${this.config.baseUrl}/api/terminals/${id}/resize`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ cols, rows }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to resize terminal: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Kill a terminal's shell and remove it
+   */
+  async closeTerminal(id: string): Promise<void> {
+    logger.info("Closing terminal", { id });
+
+    const response = await fetch(`${this.config.baseUrl}/api/terminals/${id}`, {
+      method: "DELETE",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to close terminal: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Subscribe to a terminal's output over SSE
+   *
+   * EventSource cannot send headers, so the token travels as a query
+   * parameter like the main event stream. Returns a function that closes
+   * the connection.
+   */
+  streamTerminal(id: string, onEvent: (event: TerminalStreamEvent) => void): () => void {
+    const url = new URL(`${this.config.baseUrl}/api/terminals/${id}/stream`);
+    url.searchParams.set("token", this.config.token);
+
+    const source = new EventSource(url.toString());
+    source.onmessage = message => {
+      try {
+        onEvent(JSON.parse(message.data) as TerminalStreamEvent);
+      } catch (error) {
+        logger.warn("Dropped malformed terminal event", { id, error: String(error) });
+      }
+    };
+
+    return () => source.close();
+  }
+
+  // ============================================================
+  // Usage API
+  // ============================================================
+
+  /**
+   * Get token usage and cost of a task session
+   */
+  async getSessionUsage(sessionId: string): Promise<UsageTotals> {
+    const response = await fetch(
+      `${this.config.baseUrl}/api/usage/sessions/${encodeURIComponent(sessionId)}`,
+      {
+        method: "GET",
+        headers: this.commonHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to get session usage: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { totals: UsageTotals };
+    return data.totals;
+  }
+
+  /**
+   * Get token usage and cost of every session in a workspace
+   */
+  async getWorkspaceUsage(workspaceId: string): Promise<UsageTotals> {
+    const response = await fetch(
+      `${this.config.baseUrl}/api/usage/workspaces/${encodeURIComponent(workspaceId)}`,
+      {
+        method: "GET",
+        headers: this.commonHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to get workspace usage: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { totals: UsageTotals };
+    return data.totals;
+  }
+
+  // ============================================================
+  // Hooks API
+  // ============================================================
+
+  /**
+   * Get the hooks configured for a workspace
+   *
+   * @param directory - Workspace directory path
+   */
+  async getWorkspaceHooks(directory: string): Promise<WorkspaceHooksInfo> {
+    const searchParams = new URLSearchParams({ directory });
+    const response = await fetch(`${this.config.baseUrl}/api/hooks?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? `Failed to get hooks: ${response.statusText}`);
+    }
+
+    return (await response.json()) as WorkspaceHooksInfo;
+  }
+
+  /**
+   * Replace the hooks configured for a workspace
+   *
+   * @param directory - Workspace directory path
+   * @param hooks - Hook commands by event
+   */
+  async saveWorkspaceHooks(
+    directory: string,
+    hooks: Partial<WorkspaceHooksConfig>
+  ): Promise<WorkspaceHooksInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/hooks`, {
+      method: "PUT",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ directory, hooks }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? `Failed to save hooks: ${response.statusText}`);
+    }
+
+    return (await response.json()) as WorkspaceHooksInfo;
+  }
+
+  // ============================================================
+  // Agents API
+  // ============================================================
+
+  /**
+   * List the agents available in a workspace
+   *
+   * @param directory - Workspace directory path
+   */
+  async listAgents(directory: string): Promise<AgentInfo[]> {
+    const searchParams = new URLSearchParams({ directory });
+    const response = await fetch(`${this.config.baseUrl}/api/agents?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list agents: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { agents: AgentInfo[] };
+    return data.agents;
+  }
+
+  /**
+   * List the user and workspace agent files of a workspace
+   *
+   * @param directory - Workspace directory path
+   */
+  async listCustomAgents(directory: string): Promise<CustomAgentsInfo> {
+    const searchParams = new URLSearchParams({ directory });
+    const response = await fetch(`${this.config.baseUrl}/api/agents/custom?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list custom agents: ${response.statusText}`);
+    }
+
+    return (await response.json()) as CustomAgentsInfo;
+  }
+
+  /**
+   * Create or replace an agent file
+   *
+   * @param directory - Workspace directory path
+   * @param scope - Save to the user agents directory or the workspace's
+   * @param agent - Agent definition
+   */
+  async saveCustomAgent(
+    directory: string,
+    scope: CustomAgentInfo["scope"],
+    agent: CustomAgentDefinition
+  ): Promise<CustomAgentInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/agents/custom`, {
+      method: "PUT",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ directory, scope, agent }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? `Failed to save agent: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { agent: CustomAgentInfo };
+    return data.agent;
+  }
+
+  /**
+   * Delete an agent file
+   *
+   * @param directory - Workspace directory path
+   * @param scope - Scope the agent is defined in
+   * @param name - Agent name
+   */
+  async deleteCustomAgent(
+    directory: string,
+    scope: CustomAgentInfo["scope"],
+    name: string
+  ): Promise<void> {
+    const searchParams = new URLSearchParams({ directory, scope });
+    const response = await fetch(
+      `${this.config.baseUrl}/api/agents/custom/${encodeURIComponent(name)}?${searchParams}`,
+      {
+        method: "DELETE",
+        headers: this.commonHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete agent: ${response.statusText}`);
+    }
+  }
+
+  // ============================================================
+  // MCP API
+  // ============================================================
+
+  /**
+   * Get the MCP servers of a workspace with their connection state
+   *
+   * @param directory - Workspace directory path
+   */
+  async getMcpStatus(directory: string): Promise<McpStatusInfo> {
+    const searchParams = new URLSearchParams({ directory });
+    const response = await fetch(`${this.config.baseUrl}/api/mcp/status?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get MCP status: ${response.statusText}`);
+    }
+
+    return (await response.json()) as McpStatusInfo;
+  }
+
+  /**
+   * Create or replace an MCP server definition and reconnect the workspace's servers
+   *
+   * @param directory - Workspace directory path
+   * @param scope - Save to the user config file or the workspace's
+   * @param name - Server name
+   * @param server - Server definition
+   */
+  async saveMcpServer(
+    directory: string,
+    scope: McpServerInfo["scope"],
+    name: string,
+    server: McpServerConfig
+  ): Promise<McpStatusInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/mcp/servers`, {
+      method: "PUT",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ directory, scope, name, server }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? `Failed to save MCP server: ${response.statusText}`);
+    }
+
+    return (await response.json()) as McpStatusInfo;
+  }
+
+  /**
+   * Delete an MCP server definition
+   *
+   * @param directory - Workspace directory path
+   * @param scope - Scope the server is defined in
+   * @param name - Server name
+   */
+  async deleteMcpServer(
+    directory: string,
+    scope: McpServerInfo["scope"],
+    name: string
+  ): Promise<McpStatusInfo> {
+    const searchParams = new URLSearchParams({ directory, scope });
+    const response = await fetch(
+      `${this.config.baseUrl}/api/mcp/servers/${encodeURIComponent(name)}?${searchParams}`,
+      {
+        method: "DELETE",
+        headers: this.commonHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete MCP server: ${response.statusText}`);
+    }
+
+    return (await response.json()) as McpStatusInfo;
+  }
+
+  /**
+   * Reconnect a workspace's MCP servers
+   *
+   * @param directory - Workspace directory path
+   */
+  async reloadMcpServers(directory: string): Promise<McpStatusInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/mcp/reload`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ directory }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to reload MCP servers: ${response.statusText}`);
+    }
+
+    return (await response.json()) as McpStatusInfo;
+  }
+
+  // ============================================================
+  // Instructions API
+  // ============================================================
+
+  /**
+   * List the instruction files of a workspace
+   *
+   * @param directory - Workspace directory path
+   * @param sessionId - Session whose active nested instructions to report
+   */
+  async listInstructions(directory: string, sessionId?: string): Promise<InstructionFileInfo[]> {
+    const searchParams = new URLSearchParams({ directory });
+    if (sessionId) searchParams.set("sessionId", sessionId);
+    const response = await fetch(`${this.config.baseUrl}/api/instructions?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list instructions: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { files: InstructionFileInfo[] };
+    return data.files;
+  }
+
+  // ============================================================
+  // Plugins API
+  // ============================================================
+
+  /**
+   * List the plugins loaded for a workspace
+   *
+   * @param directory - Workspace directory path
+   */
+  async listPlugins(directory: string): Promise<WorkspacePluginsInfo> {
+    const searchParams = new URLSearchParams({ directory });
+    const response = await fetch(`${this.config.baseUrl}/api/plugins?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list plugins: ${response.statusText}`);
+    }
+
+    return (await response.json()) as WorkspacePluginsInfo;
+  }
+
+  /**
+   * Load a workspace's plugins again from disk
+   *
+   * @param directory - Workspace directory path
+   */
+  async reloadPlugins(directory: string): Promise<WorkspacePluginsInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/plugins/reload`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ directory }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to reload plugins: ${response.statusText}`);
+    }
+
+    return (await response.json()) as WorkspacePluginsInfo;
+  }
+
+  /**
+   * Trust a workspace plugin as its files are now and load it
+   *
+   * @param directory - Workspace directory path
+   * @param path - Plugin module path from the plugin list
+   */
+  async trustPlugin(directory: string, path: string): Promise<WorkspacePluginsInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/plugins/trust`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ directory, path }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? `Failed to trust plugin: ${response.statusText}`);
+    }
+
+    return (await response.json()) as WorkspacePluginsInfo;
+  }
+
+  // ============================================================
+  // Memory API
+  // ============================================================
+
+  /**
+   * List the resources and threads the memory system stored records for
+   */
+  async listMemoryResources(): Promise<MemoryResourceInfo[]> {
+    const response = await fetch(`${this.config.baseUrl}/api/memory/resources`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list memory resources: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { resources: MemoryResourceInfo[] };
+    return data.resources;
+  }
+
+  /**
+   * Get the memory records of a thread, or of a whole resource
+   *
+   * @param resourceId - Resource ID, usually the workspace path
+   * @param threadId - Thread (session) ID; omit for resource-scoped records
+   */
+  async getMemoryRecords(resourceId: string, threadId?: string): Promise<MemoryRecordsInfo> {
+    const searchParams = new URLSearchParams({ resourceId });
+    if (threadId) searchParams.set("threadId", threadId);
+    const response = await fetch(`${this.config.baseUrl}/api/memory/records?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get memory records: ${response.statusText}`);
+    }
+
+    return (await response.json()) as MemoryRecordsInfo;
+  }
+
+  /**
+   * Replace the observations of a record
+   *
+   * Fails while the observer or reflector is rewriting them.
+   */
+  async updateObservations(id: string, content: string): Promise<MemoryObservationsInfo> {
+    const response = await fetch(
+      `${this.config.baseUrl}/api/memory/observations/${encodeURIComponent(id)}`,
+      {
+        method: "PATCH",
+        headers: this.commonHeaders(),
+        body: JSON.stringify({ content }),
+      }
+    );
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? `Failed to update observations: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { observations: MemoryObservationsInfo };
+    return data.observations;
+  }
+
+  async updateReflection(id: string, content: string): Promise<MemoryReflectionInfo> {
+    const response = await fetch(
+      `${this.config.baseUrl}/api/memory/reflections/${encodeURIComponent(id)}`,
+      {
+        method: "PATCH",
+        headers: this.commonHeaders(),
+        body: JSON.stringify({ content }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to update reflection: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { reflection: MemoryReflectionInfo };
+    return data.reflection;
+  }
+
+  async deleteReflection(id: string): Promise<void> {
+    const response = await fetch(
+      `${this.config.baseUrl}/api/memory/reflections/${encodeURIComponent(id)}`,
+      {
+        method: "DELETE",
+        headers: this.commonHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete reflection: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Replace the working memory of a thread, or of a resource
+   */
+  async saveWorkingMemory(payload: {
+    resourceId: string;
+    threadId?: string;
+    content: string;
+  }): Promise<WorkingMemoryInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/memory/working-memory`, {
+      method: "PUT",
+      headers: this.commonHeaders(),
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to save working memory: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { workingMemory: WorkingMemoryInfo };
+    return data.workingMemory;
+  }
+
+  /**
+   * Pin a fact so it is injected into every turn and never reflected away
+   */
+  async createMemoryPin(payload: CreateMemoryPinPayload): Promise<MemoryPinInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/memory/pins`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to pin fact: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { pin: MemoryPinInfo };
+    return data.pin;
+  }
+
+  async updateMemoryPin(id: string, content: string): Promise<MemoryPinInfo> {
+    const response = await fetch(
+      `${this.config.baseUrl}/api/memory/pins/${encodeURIComponent(id)}`,
+      {
+        method: "PATCH",
+        headers: this.commonHeaders(),
+        body: JSON.stringify({ content }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to update pinned fact: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { pin: MemoryPinInfo };
+    return data.pin;
+  }
+
+  async deleteMemoryPin(id: string): Promise<void> {
+    const response = await fetch(
+      `${this.config.baseUrl}/api/memory/pins/${encodeURIComponent(id)}`,
+      {
+        method: "DELETE",
+        headers: this.commonHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete pinned fact: ${response.statusText}`);
+    }
+  }
+
+  async getMemorySettings(): Promise<MemorySettingsInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/memory/settings`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get memory settings: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { settings: MemorySettingsInfo };
+    return data.settings;
+  }
+
+  async saveMemorySettings(settings: MemorySettingsInfo): Promise<MemorySettingsInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/memory/settings`, {
+      method: "PUT",
+      headers: this.commonHeaders(),
+      body: JSON.stringify(settings),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? `Failed to save memory settings: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { settings: MemorySettingsInfo };
+    return data.settings;
+  }
+
+  /**
+   * Get the resources linked to a resource for memory sharing
+   *
+   * @param resourceId - Workspace or project path
+   */
+  async getMemorySharing(resourceId: string): Promise<MemorySharingInfo> {
+    const searchParams = new URLSearchParams({ resourceId });
+    const response = await fetch(`${this.config.baseUrl}/api/memory/links?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get memory links: ${response.statusText}`);
+    }
+
+    return (await response.json()) as MemorySharingInfo;
+  }
+
+  /**
+   * Share reflections and milestones between two resources, in both directions
+   */
+  async linkMemory(resourceId: string, linkedResourceId: string): Promise<MemorySharingInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/memory/links`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ resourceId, linkedResourceId }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? `Failed to link memory: ${response.statusText}`);
+    }
+
+    return (await response.json()) as MemorySharingInfo;
+  }
+
+  async unlinkMemory(resourceId: string, linkedResourceId: string): Promise<void> {
+    const searchParams = new URLSearchParams({ resourceId, linkedResourceId });
+    const response = await fetch(`${this.config.baseUrl}/api/memory/links?${searchParams}`, {
+      method: "DELETE",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to unlink memory: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Keep a resource's memory out of every linked resource
+   */
+  async setMemoryPrivacy(resourceId: string, isPrivate: boolean): Promise<MemorySharingInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/memory/privacy`, {
+      method: "PUT",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ resourceId, private: isPrivate }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to update memory privacy: ${response.statusText}`);
+    }
+
+    return (await response.json()) as MemorySharingInfo;
+  }
+
+  // ============================================================
+  // Spec Executions API
+  // ============================================================
+
+  /**
+   * List a workspace's spec executions, newest first
+   */
+  async listSpecExecutions(workspaceId: string): Promise<SpecExecutionInfo[]> {
+    const searchParams = new URLSearchParams({ workspaceId });
+    const response = await fetch(`${this.config.baseUrl}/api/spec-executions?${searchParams}`, {
+      method: "GET",
+      headers: this.commonHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list spec executions: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { executions: SpecExecutionInfo[] };
+    return data.executions;
+  }
+
+  /**
+   * Execute a compiled spec's tasks in their own worktrees
+   *
+   * @param workspaceId - Workspace the spec belongs to
+   * @param specSlug - Spec directory name under .kiro/specs
+   */
+  async startSpecExecution(workspaceId: string, specSlug: string): Promise<SpecExecutionInfo> {
+    const response = await fetch(`${this.config.baseUrl}/api/spec-executions`, {
+      method: "POST",
+      headers: this.commonHeaders(),
+      body: JSON.stringify({ workspaceId, specSlug }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? `Failed to start spec execution: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { execution: SpecExecutionInfo };
+    return data.execution;
+  }
+
   // ============================================================
   // VCS API
   // ============================================================
@@ -66,6 +66,8 @@ interface ChatProviderProps {
   modelId?: Accessor<string | null | undefined>;
   /** Optional runtime mode accessor for chat behavior */
   runtimeMode?: Accessor<"intake" | "plan" | "build" | undefined>;
+  /** Optional primary agent accessor */
+  agent?: Accessor<string | undefined>;
 
   /** Called on error */
   onError?: (error: Error) => void;
@@ -92,6 +94,7 @@ export const ChatProvider: ParentComponent<ChatProviderProps> = props => {
     providerId: props.providerId,
     modelId: props.modelId,
     runtimeMode: props.runtimeMode,
+    agent: props.agent,
     onError: props.onError,
     onFinish: props.onFinish,
   });
@@ -60,6 +60,7 @@ describe("ChatProvider", () => {
     mockChatFn = vi.fn();
     mockClient = {
       chat: mockChatFn,
+      getSessionRevert: vi.fn().mockResolvedValue(null),
     } as unknown as SaktiCodeApiClient;
   });
 
@@ -90,6 +90,7 @@ export interface WorkspaceContextValue {
   activeTaskSessionId: Accessor<string | null>;
   setActiveTaskSessionId: (id: string | null) => void;
   createTaskSession: (kind?: TaskSessionKind) => Promise<string>;
+  forkTaskSession: (id: string, messageId?: string) => Promise<string>;
   deleteTaskSession: (id: string) => Promise<void>;
   refreshTaskSessions: () => Promise<void>;
   isLoadingTaskSessions: Accessor<boolean>;
@@ -308,6 +309,21 @@ export const WorkspaceProvider: ParentComponent<WorkspaceProviderProps> = props
     return created.taskSessionId;
   };
 
+  /**
+   * Fork a task session just before a message and switch to the fork
+   * Returns the new task session ID
+   */
+  const forkTaskSession = async (id: string, messageId?: string): Promise<string> => {
+    const c = client();
+    if (!c) return "";
+
+    const { taskSession } = await c.forkTaskSession(id, { messageId });
+
+    setActiveTaskSessionId(taskSession.taskSessionId);
+    await refreshTaskSessions();
+    return taskSession.taskSessionId;
+  };
+
   /**
    * Delete a task session
    */
@@ -344,6 +360,7 @@ export const WorkspaceProvider: ParentComponent<WorkspaceProviderProps> = props
     activeTaskSessionId,
     setActiveTaskSessionId,
     createTaskSession,
+    forkTaskSession,
     deleteTaskSession,
     refreshTaskSessions,
     isLoadingTaskSessions,
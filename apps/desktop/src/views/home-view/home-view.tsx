@@ -190,6 +190,7 @@ export default function HomeView() {
         open={isSettingsOpen()}
         onOpenChange={setIsSettingsOpen}
         providerClient={apiClient()?.getProviderClient()}
+        apiClient={apiClient() ?? undefined}
       />
     </>
   );
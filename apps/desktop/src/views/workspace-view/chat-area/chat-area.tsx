@@ -21,6 +21,16 @@ export const ChatArea: Component<ChatAreaProps> = props => {
   const effectiveSessionId = createMemo(() => chat.sessionId() ?? ctx.activeTaskSessionId());
   const turns = useSessionTurns(effectiveSessionId);
 
+  const handleFork = async (messageId: string) => {
+    const sessionId = effectiveSessionId();
+    if (!sessionId) return;
+    try {
+      await ctx.forkTaskSession(sessionId, messageId);
+    } catch (error) {
+      console.error("Failed to fork session:", error);
+    }
+  };
+
   const isStreaming = () =>
     chat.streaming.status() === "connecting" || chat.streaming.status() === "streaming";
 
@@ -42,8 +52,32 @@ export const ChatArea: Component<ChatAreaProps> = props => {
           onPermissionDeny={chatInput.handleDenyPermission}
           onQuestionAnswer={chatInput.handleAnswerQuestion}
           onQuestionReject={chatInput.handleRejectQuestion}
+          onRevert={chat.revert}
+          onFork={handleFork}
         />
 
+        <Show when={chat.revertState()}>
+          {revert => (
+            <div
+              data-slot="chat-revert-banner"
+              class="text-muted-foreground mx-3 mb-2 flex items-center justify-between rounded-lg border px-3 py-2 text-xs"
+            >
+              <span>
+                {revert().messageIDs.length} messages and {revert().files.length} files reverted.
+                Sending a new message makes this permanent.
+              </span>
+              <button
+                type="button"
+                data-action="chat-revert-redo"
+                onClick={() => void chat.redo()}
+                class="hover:bg-muted rounded border px-2 py-1"
+              >
+                Redo
+              </button>
+            </div>
+          )}
+        </Show>
+
         <ChatInput class="mx-3 mb-3" />
       </div>
     </Resizable.Panel>
@@ -1,5 +1,6 @@
 import { type CommandCenterMode, type ModelSelectorSection } from "@/components/model-selector";
 import { type AgentMode } from "@/core/chat/types";
+import type { InstructionFileInfo, UsageTotals } from "@/core/services/api/api-client";
 import { cn } from "@/utils";
 import { Show, createEffect, createSignal, onMount, type Component } from "solid-js";
 import { InputFooter } from "./input-footer";
@@ -67,6 +68,9 @@ const defaultChatInput = {
   handleAnswerQuestion: ((_id: string, _a: unknown) => {}) as (id: string, answer: unknown) => void,
   handleRejectQuestion: ((_id: string) => {}) as (id: string) => void,
   workspace: () => undefined as string | undefined,
+  sessionUsage: () => null as UsageTotals | null,
+  workspaceUsage: () => null as UsageTotals | null,
+  instructionFiles: () => [] as InstructionFileInfo[],
   getFileSearchResults: ((_q: string) => Promise.resolve([])) as (
     query: string
   ) => Promise<Array<{ path: string; name: string; score: number; type: "file" | "directory" }>>,
@@ -288,7 +292,12 @@ export const ChatInput: Component<ChatInputProps> = props => {
         </div>
       </div>
 
-      <InputFooter charCount={() => value().length} />
+      <InputFooter
+        charCount={() => value().length}
+        sessionUsage={chatInput.sessionUsage}
+        workspaceUsage={chatInput.workspaceUsage}
+        instructionFiles={chatInput.instructionFiles}
+      />
     </div>
   );
 };
@@ -1,14 +1,63 @@
-import type { Accessor, Component } from "solid-js";
+import type { InstructionFileInfo, UsageTotals } from "@/core/services/api/api-client";
+import { Show, type Accessor, type Component } from "solid-js";
 
 interface InputFooterProps {
   charCount: Accessor<number>;
+  sessionUsage?: Accessor<UsageTotals | null>;
+  workspaceUsage?: Accessor<UsageTotals | null>;
+  /** Instruction files in the session's system prompt */
+  instructionFiles?: Accessor<InstructionFileInfo[]>;
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`;
+}
+
+function formatUsage(usage: UsageTotals): string {
+  return `${formatTokens(usage.totalTokens)} tokens · ${formatCost(usage.cost)}`;
+}
+
+function describeInstructions(files: InstructionFileInfo[]): string {
+  const lines = files.map(file => (file.truncated ? `${file.path} (truncated)` : file.path));
+  return ["Active instruction files:", ...lines].join("\n");
 }
 
 export const InputFooter: Component<InputFooterProps> = props => {
+  const instructionFiles = () => props.instructionFiles?.() ?? [];
+
   return (
-    <div class="text-muted-foreground/50 mt-2 flex items-center justify-between text-[10px]">
+    <div class="text-muted-foreground/50 mt-2 flex items-center justify-between gap-3 text-[10px]">
       <span>Enter to send, Shift+Enter for a new line</span>
-      <span>{props.charCount()} chars</span>
+      <div class="flex items-center gap-3">
+        <Show when={instructionFiles().length > 0}>
+          <span data-testid="instruction-files" title={describeInstructions(instructionFiles())}>
+            {instructionFiles().length === 1
+              ? "1 instruction file"
+              : `${instructionFiles().length} instruction files`}
+          </span>
+        </Show>
+        <Show when={props.sessionUsage?.()}>
+          {usage => (
+            <span data-testid="session-usage" title="Tokens and cost of this session">
+              Session {formatUsage(usage())}
+            </span>
+          )}
+        </Show>
+        <Show when={props.workspaceUsage?.()}>
+          {usage => (
+            <span data-testid="workspace-usage" title="Tokens and cost of this workspace">
+              Workspace {formatUsage(usage())}
+            </span>
+          )}
+        </Show>
+        <span>{props.charCount()} chars</span>
+      </div>
     </div>
   );
 };
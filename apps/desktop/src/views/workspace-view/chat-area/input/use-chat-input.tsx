@@ -1,6 +1,7 @@
 import { useFileSearch } from "@/core/chat/hooks";
 import { type AgentMode } from "@/core/chat/types";
 import { usePermissions } from "@/core/permissions/hooks/use-permissions";
+import type { InstructionFileInfo, UsageTotals } from "@/core/services/api/api-client";
 import { useChatContext } from "@/state/contexts/chat-provider";
 import {
   usePermissionStore,
@@ -8,7 +9,7 @@ import {
   useQuestionStore,
   useWorkspace,
 } from "@/state/providers";
-import { createMemo, createSignal } from "solid-js";
+import { createEffect, createMemo, createSignal, on } from "solid-js";
 import type { ChatInputModelOption } from "./model-selector-button";
 import type { PendingPermissionBannerData } from "./permission-banner";
 
@@ -149,6 +150,42 @@ export const useChatInput = () => {
     });
   };
 
+  const [sessionUsage, setSessionUsage] = createSignal<UsageTotals | null>(null);
+  const [workspaceUsage, setWorkspaceUsage] = createSignal<UsageTotals | null>(null);
+  const [instructionFiles, setInstructionFiles] = createSignal<InstructionFileInfo[]>([]);
+
+  // Refresh usage totals and active instruction files when the session
+  // changes and after each generation
+  createEffect(
+    on([effectiveSessionId, isGenerating, ctx.client], ([sessionId, generating, client]) => {
+      if (!client || generating) return;
+      const workspaceId = ctx.projectId();
+
+      if (sessionId) {
+        client
+          .getSessionUsage(sessionId)
+          .then(setSessionUsage)
+          .catch(() => setSessionUsage(null));
+      } else {
+        setSessionUsage(null);
+      }
+      client
+        .getWorkspaceUsage(workspaceId)
+        .then(setWorkspaceUsage)
+        .catch(() => setWorkspaceUsage(null));
+
+      const directory = ctx.workspace();
+      if (directory) {
+        client
+          .listInstructions(directory, sessionId ?? undefined)
+          .then(files => setInstructionFiles(files.filter(file => file.active)))
+          .catch(() => setInstructionFiles([]));
+      } else {
+        setInstructionFiles([]);
+      }
+    })
+  );
+
   const [draftMessage, setDraftMessage] = createSignal("");
 
   const handleSendMessage = async () => {
@@ -178,6 +215,9 @@ export const useChatInput = () => {
     handleAnswerQuestion,
     handleRejectQuestion,
     workspace: ctx.workspace,
+    sessionUsage,
+    workspaceUsage,
+    instructionFiles,
     getFileSearchResults: (query: string) =>
       fileSearch.search(query).then(() => fileSearch.results()),
   };
@@ -0,0 +1,65 @@
+import { createHookPart } from "@/fixtures/part-fixtures";
+import { HookPart } from "@/views/workspace-view/chat-area/parts/hook-part";
+import { render } from "@solidjs/testing-library";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("HookPart", () => {
+  let container: HTMLDivElement;
+  let dispose: () => void;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    dispose?.();
+    document.body.removeChild(container);
+  });
+
+  it("renders the hook event, tool and command", () => {
+    const part = createHookPart();
+
+    ({ unmount: dispose } = render(() => <HookPart part={part} />, { container }));
+
+    expect(container.querySelector('[data-slot="hook-label"]')?.textContent).toContain(
+      "Post-tool hook"
+    );
+    expect(container.querySelector('[data-slot="hook-tool"]')?.textContent).toContain("write");
+    expect(container.querySelector('[data-slot="hook-command"]')?.textContent).toBe(
+      "pnpm prettier --write ."
+    );
+    expect(container.querySelector('[data-slot="hook-output"]')?.textContent).toContain(
+      "src/index.ts"
+    );
+  });
+
+  it("marks blocked hooks", () => {
+    const part = createHookPart({
+      event: "preToolUse",
+      outcome: "blocked",
+      exitCode: 2,
+      output: "rm -rf is not allowed",
+    } as never);
+
+    ({ unmount: dispose } = render(() => <HookPart part={part} />, { container }));
+
+    const root = container.querySelector('[data-component="hook-part"]');
+    expect(root?.getAttribute("data-outcome")).toBe("blocked");
+    expect(container.querySelector('[data-slot="hook-outcome"]')?.textContent).toContain("blocked");
+  });
+
+  it("shows the failure reason of a failed hook", () => {
+    const part = createHookPart({
+      outcome: "error",
+      exitCode: null,
+      output: "",
+      error: "Hook timed out after 60000ms",
+    } as never);
+
+    ({ unmount: dispose } = render(() => <HookPart part={part} />, { container }));
+
+    expect(container.querySelector('[data-slot="hook-error"]')?.textContent).toContain("timed out");
+    expect(container.querySelector('[data-slot="hook-output"]')).toBeNull();
+  });
+});
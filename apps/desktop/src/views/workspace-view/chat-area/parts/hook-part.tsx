@@ -0,0 +1,102 @@
+import { cn } from "@/utils";
+import { Show, type Component } from "solid-js";
+
+export interface HookPartProps {
+  part: Record<string, unknown>;
+  class?: string;
+}
+
+type HookOutcome = "success" | "blocked" | "error";
+
+const EVENT_LABELS: Record<string, string> = {
+  preToolUse: "Pre-tool hook",
+  postToolUse: "Post-tool hook",
+  sessionStart: "Session start hook",
+  userPromptSubmit: "Prompt hook",
+  stop: "Stop hook",
+};
+
+const OUTCOME_LABELS: Record<HookOutcome, string> = {
+  success: "ran",
+  blocked: "blocked",
+  error: "failed",
+};
+
+function readString(part: Record<string, unknown>, key: string): string | undefined {
+  const value = part[key];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function readOutcome(part: Record<string, unknown>): HookOutcome {
+  const outcome = part.outcome;
+  return outcome === "blocked" || outcome === "error" ? outcome : "success";
+}
+
+function readDurationMs(part: Record<string, unknown>): number | undefined {
+  const time = part.time;
+  if (!time || typeof time !== "object") return undefined;
+  const { start, end } = time as { start?: unknown; end?: unknown };
+  if (typeof start !== "number" || typeof end !== "number") return undefined;
+  return Math.max(0, end - start);
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export const HookPart: Component<HookPartProps> = props => {
+  const event = () => readString(props.part, "event") ?? "";
+  const label = () => EVENT_LABELS[event()] ?? "Hook";
+  const command = () => readString(props.part, "command") ?? "";
+  const toolName = () => readString(props.part, "toolName");
+  const outcome = () => readOutcome(props.part);
+  const output = () => readString(props.part, "output");
+  const error = () => readString(props.part, "error");
+  const durationMs = () => readDurationMs(props.part);
+
+  return (
+    <div
+      data-component="hook-part"
+      data-outcome={outcome()}
+      class={cn(
+        "rounded-lg border px-3 py-2 text-sm",
+        outcome() === "success" && "border-border/70 bg-muted/30 text-foreground",
+        outcome() === "blocked" && "border-amber-300/40 bg-amber-500/10 text-amber-100",
+        outcome() === "error" && "border-red-400/40 bg-red-500/10 text-red-100",
+        props.class
+      )}
+    >
+      <div class="flex flex-wrap items-center gap-x-2 gap-y-1">
+        <span data-slot="hook-label" class="font-medium">
+          {label()}
+          <Show when={toolName()}>
+            <span data-slot="hook-tool"> · {toolName()}</span>
+          </Show>
+        </span>
+        <code data-slot="hook-command" class="truncate font-mono text-xs opacity-80">
+          {command()}
+        </code>
+        <span data-slot="hook-outcome" class="text-xs opacity-80">
+          {OUTCOME_LABELS[outcome()]}
+          <Show when={durationMs() !== undefined}> in {formatDuration(durationMs()!)}</Show>
+        </span>
+      </div>
+      <Show when={error()}>
+        <p data-slot="hook-error" class="mt-1 text-xs">
+          {error()}
+        </p>
+      </Show>
+      <Show when={output()}>
+        <details class="mt-1">
+          <summary class="cursor-pointer text-xs opacity-80">Output</summary>
+          <pre
+            data-slot="hook-output"
+            class="mt-1 max-h-48 overflow-auto whitespace-pre-wrap font-mono text-xs"
+          >
+            {output()}
+          </pre>
+        </details>
+      </Show>
+    </div>
+  );
+};
@@ -1,11 +1,12 @@
 /**
  * Register Default Part Components
  *
- * Registers the default part components for text, reasoning, tool, permission, and question types.
+ * Registers the default part components for text, reasoning, tool, permission, question and hook types.
  * Call this function during app initialization to set up the part registry.
  */
 
 import { ActionButtonPart } from "./action-button-part";
+import { HookPart } from "./hook-part";
 import { registerPartComponent } from "./part-registry";
 import { PermissionPart } from "./permission-part";
 import { QuestionPart } from "./question-part";
@@ -29,6 +30,7 @@ export function registerDefaultPartComponents(): void {
   registerPartComponent("permission", PermissionPart);
   registerPartComponent("question", QuestionPart);
   registerPartComponent("retry", RetryPart);
+  registerPartComponent("hook", HookPart);
   registerPartComponent("action_buttons", ActionButtonPart);
 
   registered = true;
@@ -195,4 +195,40 @@ describe("SessionTurn", () => {
 
     expect(container.textContent).toContain("Something went wrong");
   });
+
+  it("offers revert on finished turns only", () => {
+    const turn = projectSingleTurn(createSingleTurnFixture());
+    const onRevert = vi.fn();
+    const [streaming, setStreaming] = createSignal(true);
+
+    ({ unmount: dispose } = render(
+      () => <SessionTurn turn={() => turn} isStreaming={streaming} onRevert={onRevert} />,
+      { container }
+    ));
+
+    expect(container.querySelector('[data-action="session-turn-revert"]')).toBeNull();
+
+    setStreaming(false);
+    const button = container.querySelector<HTMLButtonElement>(
+      '[data-action="session-turn-revert"]'
+    );
+    button?.click();
+
+    expect(onRevert).toHaveBeenCalledWith(turn.userMessage.id);
+  });
+
+  it("forks from the user message of a finished turn", () => {
+    const turn = projectSingleTurn(createSingleTurnFixture());
+    const onFork = vi.fn();
+
+    ({ unmount: dispose } = render(
+      () => <SessionTurn turn={() => turn} isStreaming={() => false} onFork={onFork} />,
+      { container }
+    ));
+
+    expect(container.querySelector('[data-action="session-turn-revert"]')).toBeNull();
+    container.querySelector<HTMLButtonElement>('[data-action="session-turn-fork"]')?.click();
+
+    expect(onFork).toHaveBeenCalledWith(turn.userMessage.id);
+  });
 });
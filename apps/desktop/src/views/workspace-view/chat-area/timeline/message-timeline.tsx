@@ -18,6 +18,8 @@ export interface MessageTimelineProps {
   onPermissionDeny?: (id: string) => void | Promise<void>;
   onQuestionAnswer?: (id: string, answer: unknown) => void | Promise<void>;
   onQuestionReject?: (id: string) => void | Promise<void>;
+  onRevert?: (messageId: string) => void | Promise<void>;
+  onFork?: (messageId: string) => void | Promise<void>;
   class?: string;
 }
 
@@ -77,6 +79,8 @@ export function MessageTimeline(props: MessageTimelineProps): JSX.Element {
                     onPermissionDeny={props.onPermissionDeny}
                     onQuestionAnswer={props.onQuestionAnswer}
                     onQuestionReject={props.onQuestionReject}
+                    onRevert={props.onRevert}
+                    onFork={props.onFork}
                   />
                 </li>
               )}
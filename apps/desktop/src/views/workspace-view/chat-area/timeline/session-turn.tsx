@@ -28,6 +28,10 @@ export interface SessionTurnProps {
   onPermissionDeny?: (id: string) => void | Promise<void>;
   onQuestionAnswer?: (id: string, answer: unknown) => void | Promise<void>;
   onQuestionReject?: (id: string) => void | Promise<void>;
+  /** Revert the session to before this turn's user message */
+  onRevert?: (messageId: string) => void | Promise<void>;
+  /** Start a new session from just before this turn's user message */
+  onFork?: (messageId: string) => void | Promise<void>;
   class?: string;
 }
 
@@ -133,7 +137,35 @@ export function SessionTurn(props: SessionTurnProps): JSX.Element {
         class={cn("bg-background sticky top-0 z-10", "flex flex-col gap-2")}
       >
         <div data-slot="session-turn-user" class="bg-muted/30 rounded-lg p-3">
-          <div class="text-muted-foreground mb-1 text-xs">You</div>
+          <div class="text-muted-foreground mb-1 flex items-center justify-between text-xs">
+            <span>You</span>
+            <Show when={!turn().working && !props.isStreaming()}>
+              <div class="flex items-center gap-1">
+                <Show when={props.onFork}>
+                  <button
+                    type="button"
+                    data-action="session-turn-fork"
+                    title="Continue in a new session from before this message"
+                    onClick={() => props.onFork?.(turn().userMessage.id)}
+                    class="hover:text-foreground rounded px-1.5 py-0.5"
+                  >
+                    Fork from here
+                  </button>
+                </Show>
+                <Show when={props.onRevert}>
+                  <button
+                    type="button"
+                    data-action="session-turn-revert"
+                    title="Undo this message and the file changes made since"
+                    onClick={() => props.onRevert?.(turn().userMessage.id)}
+                    class="hover:text-foreground rounded px-1.5 py-0.5"
+                  >
+                    Revert to here
+                  </button>
+                </Show>
+              </div>
+            </Show>
+          </div>
           <div class="text-sm">{getUserText(turn())}</div>
         </div>
       </div>
@@ -5,6 +5,7 @@ import Resizable from "@corvu/resizable";
 import { Component, Show, createSignal } from "solid-js";
 import { DiffView } from "./diff/diff-view";
 import { FileContext } from "./files/file-context";
+import { SpecExecutions } from "./specs/spec-executions";
 import { TaskList } from "./tasks/task-list";
 import { TerminalPanel } from "./terminal/terminal-panel";
 
@@ -13,7 +14,9 @@ interface ContextPanelProps {
 }
 
 export const ContextPanel: Component<ContextPanelProps> = props => {
-  const [activeTopTab, setActiveTopTab] = createSignal<"files" | "diff" | "tasks">("files");
+  const [activeTopTab, setActiveTopTab] = createSignal<"files" | "diff" | "tasks" | "specs">(
+    "files"
+  );
   const ctx = useWorkspace();
   const { tasks } = useTasks(ctx.activeTaskSessionId);
 
@@ -77,6 +80,20 @@ export const ContextPanel: Component<ContextPanelProps> = props => {
             >
               Tasks
             </button>
+            <button
+              onClick={() => setActiveTopTab("specs")}
+              class={cn(
+                "rounded-t-lg px-3 py-1.5 text-sm transition-colors duration-150",
+                activeTopTab() === "specs"
+                  ? ["text-foreground font-medium", "bg-card/40 border-primary border-b-2"]
+                  : [
+                      "text-muted-foreground hover:text-foreground",
+                      "hover:bg-card/30 border-b-2 border-transparent",
+                    ]
+              )}
+            >
+              Specs
+            </button>
           </div>
 
           {/* Content */}
@@ -91,6 +108,10 @@ export const ContextPanel: Component<ContextPanelProps> = props => {
           <Show when={activeTopTab() === "tasks"}>
             <TaskList tasks={tasks()} />
           </Show>
+
+          <Show when={activeTopTab() === "specs"}>
+            <SpecExecutions client={ctx.client()} workspaceId={ctx.projectId()} />
+          </Show>
         </div>
 
         {/* Bottom section - Terminal */}
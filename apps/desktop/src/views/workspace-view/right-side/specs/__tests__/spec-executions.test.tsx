@@ -0,0 +1,87 @@
+import type { SaktiCodeApiClient, SpecExecutionInfo } from "@/core/services/api/api-client";
+import { SpecExecutions } from "@/views/workspace-view/right-side/specs/spec-executions";
+import { fireEvent, render, waitFor } from "@solidjs/testing-library";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+function execution(overrides: Partial<SpecExecutionInfo>): SpecExecutionInfo {
+  return {
+    executionId: "exec-1",
+    workspaceId: "ws-1",
+    specSlug: "checkout",
+    status: "completed",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    finishedAt: "2026-01-01T00:00:00.000Z",
+    tasks: [],
+    mergeQueue: [],
+    ...overrides,
+  };
+}
+
+describe("SpecExecutions", () => {
+  let dispose: (() => void) | undefined;
+
+  afterEach(() => {
+    dispose?.();
+    dispose = undefined;
+  });
+
+  it("shows the merge queue of a finished execution in order", async () => {
+    const client = {
+      listSpecExecutions: vi.fn().mockResolvedValue([
+        execution({
+          mergeQueue: [
+            {
+              taskId: "T-1",
+              title: "Cart",
+              branch: "spec/a-T-1",
+              worktreePath: "/w/1",
+              taskSessionId: null,
+            },
+            {
+              taskId: "T-2",
+              title: "Pay",
+              branch: "spec/a-T-2",
+              worktreePath: "/w/2",
+              taskSessionId: null,
+            },
+          ],
+        }),
+      ]),
+    } as unknown as SaktiCodeApiClient;
+
+    const { container, unmount } = render(() => (
+      <SpecExecutions client={client} workspaceId="ws-1" />
+    ));
+    dispose = unmount;
+
+    await waitFor(() => expect(container.querySelector("[data-merge-queue]")).not.toBeNull());
+    const branches = Array.from(container.querySelectorAll("[data-merge-queue] li")).map(
+      item => item.textContent
+    );
+    expect(branches).toEqual(["1.spec/a-T-1", "2.spec/a-T-2"]);
+    expect(client.listSpecExecutions).toHaveBeenCalledWith("ws-1");
+  });
+
+  it("shows why an execution could not start", async () => {
+    const client = {
+      listSpecExecutions: vi.fn().mockResolvedValue([]),
+      startSpecExecution: vi
+        .fn()
+        .mockRejectedValue(new Error("Spec execution needs background runs")),
+    } as unknown as SaktiCodeApiClient;
+
+    const { container, getByLabelText, getByText, unmount } = render(() => (
+      <SpecExecutions client={client} workspaceId="ws-1" />
+    ));
+    dispose = unmount;
+
+    fireEvent.input(getByLabelText("Spec slug"), { target: { value: "checkout" } });
+    fireEvent.click(getByText("Execute"));
+
+    await waitFor(() =>
+      expect(container.textContent).toContain("Spec execution needs background runs")
+    );
+    expect(client.startSpecExecution).toHaveBeenCalledWith("ws-1", "checkout");
+  });
+});
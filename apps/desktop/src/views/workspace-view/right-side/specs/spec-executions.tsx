@@ -0,0 +1,193 @@
+import type {
+  SaktiCodeApiClient,
+  SpecExecutionInfo,
+  SpecExecutionTaskInfo,
+} from "@/core/services/api/api-client";
+import { cn } from "@/utils";
+import { Check, Copy, GitMerge } from "lucide-solid";
+import { Component, For, Show, createResource, createSignal, onCleanup } from "solid-js";
+
+interface SpecExecutionsProps {
+  client: SaktiCodeApiClient | null;
+  workspaceId: string;
+  /** How often to refresh while an execution runs */
+  pollMs?: number;
+  class?: string;
+}
+
+const STATE_DOT: Record<SpecExecutionTaskInfo["state"], string> = {
+  running: "bg-blue-500",
+  done: "bg-green-500",
+  failed: "bg-red-500",
+};
+
+const STATUS_LABEL: Record<SpecExecutionInfo["status"], string> = {
+  running: "Running",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+/**
+ * Spec executions of the workspace, with the merge queue of finished ones
+ */
+export const SpecExecutions: Component<SpecExecutionsProps> = props => {
+  const [specSlug, setSpecSlug] = createSignal("");
+  const [starting, setStarting] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+  const [copied, setCopied] = createSignal<string | null>(null);
+
+  const [executions, { refetch }] = createResource(
+    () => {
+      const client = props.client;
+      return client && props.workspaceId ? { client, workspaceId: props.workspaceId } : undefined;
+    },
+    ({ client, workspaceId }) => client.listSpecExecutions(workspaceId)
+  );
+
+  const timer = setInterval(() => {
+    if (executions()?.some(execution => execution.status === "running")) {
+      void refetch();
+    }
+  }, props.pollMs ?? 3_000);
+  onCleanup(() => clearInterval(timer));
+
+  const start = async () => {
+    const client = props.client;
+    const slug = specSlug().trim();
+    if (!client || !slug) return;
+
+    setStarting(true);
+    setError(null);
+    try {
+      await client.startSpecExecution(props.workspaceId, slug);
+      setSpecSlug("");
+      await refetch();
+    } catch (startError) {
+      setError(startError instanceof Error ? startError.message : String(startError));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const copyMerge = async (branch: string) => {
+    await navigator.clipboard.writeText(`git merge --no-ff ${branch}`);
+    setCopied(branch);
+    setTimeout(() => setCopied(current => (current === branch ? null : current)), 2_000);
+  };
+
+  return (
+    <div class={cn("flex h-full flex-col gap-2 overflow-y-auto p-2", props.class)}>
+      <form
+        class="flex items-center gap-2"
+        onSubmit={event => {
+          event.preventDefault();
+          void start();
+        }}
+      >
+        <input
+          value={specSlug()}
+          onInput={event => setSpecSlug(event.currentTarget.value)}
+          placeholder="Spec slug"
+          aria-label="Spec slug"
+          class="border-border bg-background placeholder:text-muted-foreground/80 focus:border-primary/45 text-foreground flex-1 rounded-md border px-2.5 py-1.5 text-xs outline-none"
+        />
+        <button
+          type="submit"
+          disabled={starting() || !specSlug().trim()}
+          class="bg-primary text-primary-foreground rounded-md px-3 py-1.5 text-xs font-medium disabled:opacity-50"
+        >
+          {starting() ? "Starting..." : "Execute"}
+        </button>
+      </form>
+
+      <Show when={error()}>
+        <p class="text-destructive text-xs">{error()}</p>
+      </Show>
+
+      <Show
+        when={(executions() ?? []).length > 0}
+        fallback={
+          <p class="text-muted-foreground py-4 text-center text-xs">
+            {executions.loading ? "Loading spec executions..." : "No spec executions yet."}
+          </p>
+        }
+      >
+        <For each={executions()}>
+          {execution => (
+            <div
+              class="border-border/30 bg-card/20 rounded-lg border p-2"
+              data-spec-execution={execution.executionId}
+            >
+              <div class="mb-1 flex items-center justify-between gap-2">
+                <span class="truncate text-sm font-medium">{execution.specSlug}</span>
+                <span
+                  class={cn(
+                    "rounded px-1.5 py-0.5 text-xs",
+                    execution.status === "running" && "bg-blue-500/20 text-blue-400",
+                    execution.status === "completed" && "bg-green-500/20 text-green-400",
+                    execution.status === "failed" && "bg-red-500/20 text-red-400"
+                  )}
+                >
+                  {STATUS_LABEL[execution.status]}
+                </span>
+              </div>
+
+              <For each={execution.tasks}>
+                {task => (
+                  <div class="flex items-center gap-2 py-0.5 text-xs">
+                    <div class={cn("h-2 w-2 shrink-0 rounded-full", STATE_DOT[task.state])} />
+                    <span class="text-muted-foreground shrink-0">{task.specTaskId}</span>
+                    <span class="flex-1 truncate" title={task.error ?? undefined}>
+                      {task.title}
+                    </span>
+                  </div>
+                )}
+              </For>
+
+              <Show when={execution.mergeQueue}>
+                {queue => (
+                  <div class="border-border/30 mt-2 border-t pt-2" data-merge-queue>
+                    <div class="text-muted-foreground mb-1 flex items-center gap-1 text-xs">
+                      <GitMerge class="h-3 w-3" />
+                      <span>Merge queue</span>
+                    </div>
+                    <Show
+                      when={queue().length > 0}
+                      fallback={<p class="text-muted-foreground text-xs">Nothing to merge.</p>}
+                    >
+                      <ol class="flex flex-col gap-1">
+                        <For each={queue()}>
+                          {(entry, index) => (
+                            <li class="flex items-center gap-2 text-xs">
+                              <span class="text-muted-foreground w-4 shrink-0">{index() + 1}.</span>
+                              <span class="flex-1 truncate font-mono" title={entry.title}>
+                                {entry.branch}
+                              </span>
+                              <button
+                                type="button"
+                                onClick={() => void copyMerge(entry.branch)}
+                                aria-label={`Copy merge command for ${entry.branch}`}
+                                class="text-muted-foreground hover:text-foreground"
+                              >
+                                <Show
+                                  when={copied() === entry.branch}
+                                  fallback={<Copy class="h-3 w-3" />}
+                                >
+                                  <Check class="h-3 w-3" />
+                                </Show>
+                              </button>
+                            </li>
+                          )}
+                        </For>
+                      </ol>
+                    </Show>
+                  </div>
+                )}
+              </Show>
+            </div>
+          )}
+        </For>
+      </Show>
+    </div>
+  );
+};
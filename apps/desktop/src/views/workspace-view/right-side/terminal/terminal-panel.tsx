@@ -1,78 +1,83 @@
 import { Button } from "@/components/ui/button";
-
+import type { TerminalInfo } from "@/core/services/api/api-client";
+import { useWorkspace } from "@/state/providers";
 import { cn } from "@/utils";
-import { Terminal, Trash2 } from "lucide-solid";
-import { Component, For, Show, createSignal } from "solid-js";
-
-interface TerminalTab {
-  id: string;
-  label: string;
-  type: "terminal" | "console";
-}
-
-interface TerminalOutput {
-  timestamp: Date;
-  type: "info" | "warn" | "error" | "success";
-  content: string;
-}
+import { Plus, Terminal, X } from "lucide-solid";
+import { Component, For, Show, createEffect, createSignal, on } from "solid-js";
+import { TerminalView } from "./terminal-view";
 
 interface TerminalPanelProps {
   class?: string;
 }
 
 export const TerminalPanel: Component<TerminalPanelProps> = props => {
-  const [output, setOutput] = createSignal<TerminalOutput[]>([
-    {
-      timestamp: new Date(),
-      type: "info",
-      content: "Terminal initialized",
-    },
-  ]);
+  const ctx = useWorkspace();
+  const [terminals, setTerminals] = createSignal<TerminalInfo[]>([]);
+  const [activeId, setActiveId] = createSignal<string | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+  const [creating, setCreating] = createSignal(false);
+  // Kept apart from the list so an exit does not remount the terminal's view
+  const [exitCodes, setExitCodes] = createSignal<Record<string, number | null>>({});
 
-  const tabs: TerminalTab[] = [
-    { id: "terminal", label: "Terminal", type: "terminal" },
-    { id: "console", label: "Console", type: "console" },
-  ];
+  // Terminals live on the server, so switching back to a workspace reattaches to its shells
+  createEffect(
+    on(
+      () => [ctx.client(), ctx.workspace()] as const,
+      ([client, directory]) => {
+        setTerminals([]);
+        setActiveId(null);
+        if (!client || !directory) return;
 
-  const [activeTabId, setActiveTabId] = createSignal("terminal");
+        client
+          .listTerminals(directory)
+          .then(list => {
+            setTerminals(list);
+            setActiveId(list[0]?.id ?? null);
+          })
+          .catch(err => setError((err as Error).message));
+      }
+    )
+  );
 
-  const activeTab = () => tabs.find(t => t.id === activeTabId()) || tabs[0];
+  const handleCreate = async () => {
+    const client = ctx.client();
+    const directory = ctx.workspace();
+    if (!client || !directory || creating()) return;
 
-  const handleClear = () => {
-    setOutput([]);
+    setCreating(true);
+    setError(null);
+    try {
+      const terminal = await client.createTerminal({ directory });
+      setTerminals(prev => [...prev, terminal]);
+      setActiveId(terminal.id);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setCreating(false);
+    }
   };
 
-  const outputConfig = (type: TerminalOutput["type"]) => {
-    switch (type) {
-      case "error":
-        return {
-          bgColor: "bg-red-500/10 dark:bg-red-500/5",
-          textColor: "text-red-600 dark:text-red-400",
-          icon: "✕",
-        };
-      case "warn":
-        return {
-          bgColor: "bg-yellow-500/10 dark:bg-yellow-500/5",
-          textColor: "text-yellow-600 dark:text-yellow-400",
-          icon: "⚠",
-        };
-      case "success":
-        return {
-          bgColor: "bg-green-500/10 dark:bg-green-500/5",
-          textColor: "text-green-600 dark:text-green-400",
-          icon: "✓",
-        };
-      default:
-        return {
-          bgColor: "bg-transparent",
-          textColor: "text-foreground/80",
-          icon: "•",
-        };
+  const handleClose = async (id: string) => {
+    const remaining = terminals().filter(terminal => terminal.id !== id);
+    setTerminals(remaining);
+    if (activeId() === id) {
+      setActiveId(remaining[remaining.length - 1]?.id ?? null);
     }
+    await ctx
+      .client()
+      ?.closeTerminal(id)
+      .catch(err => setError((err as Error).message));
+  };
+
+  const markExited = (id: string, exitCode: number | null) => {
+    setExitCodes(prev => ({ ...prev, [id]: exitCode }));
   };
 
+  const hasExited = (terminal: TerminalInfo) =>
+    terminal.status === "exited" || terminal.id in exitCodes();
+
   return (
-    <div class={cn("flex h-[40%] flex-col", "bg-card/5", props.class)}>
+    <div class={cn("flex h-full flex-col", "bg-card/5", props.class)}>
       {/* Tab bar */}
       <div
         class={cn(
@@ -81,16 +86,13 @@ export const TerminalPanel: Component<TerminalPanelProps> = props => {
         )}
       >
         {/* Tabs */}
-        <div class="flex items-center gap-0.5">
-          <For each={tabs}>
-            {tab => (
-              <button
-                onClick={() => {
-                  setActiveTabId(tab.id);
-                }}
+        <div class="scrollbar-none flex items-center gap-0.5 overflow-x-auto">
+          <For each={terminals()}>
+            {terminal => (
+              <div
                 class={cn(
-                  "rounded-t-lg px-3 py-1.5 text-sm transition-colors duration-150",
-                  tab.id === activeTabId()
+                  "group flex items-center gap-1 rounded-t-lg px-3 py-1.5 text-sm transition-colors duration-150",
+                  terminal.id === activeId()
                     ? ["text-foreground font-medium", "bg-card/40 border-primary border-b-2"]
                     : [
                         "text-muted-foreground hover:text-foreground",
@@ -98,81 +100,74 @@ export const TerminalPanel: Component<TerminalPanelProps> = props => {
                       ]
                 )}
               >
-                {tab.label}
-              </button>
+                <button
+                  onClick={() => setActiveId(terminal.id)}
+                  class={cn("whitespace-nowrap", hasExited(terminal) && "line-through")}
+                  title={`${terminal.shell} — ${terminal.directory}`}
+                >
+                  {terminal.title}
+                </button>
+                <button
+                  onClick={() => void handleClose(terminal.id)}
+                  class="text-muted-foreground/60 hover:text-foreground opacity-0 group-hover:opacity-100"
+                  title="Close terminal"
+                >
+                  <X class="h-3 w-3" />
+                </button>
+              </div>
             )}
           </For>
         </div>
 
-        {/* Clear button */}
-        <Button variant="ghost" size="icon-sm" onClick={handleClear} title="Clear output">
-          <Trash2 class="h-4 w-4" />
+        {/* New terminal button */}
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => void handleCreate()}
+          disabled={!ctx.client() || !ctx.workspace() || creating()}
+          title="New terminal"
+        >
+          <Plus class="h-4 w-4" />
         </Button>
       </div>
 
-      {/* Output area */}
-      <div class="scrollbar-default flex-1 overflow-auto p-3 font-mono text-xs">
+      <Show when={error()}>
+        {message => (
+          <div class="border-border/30 border-b px-3 py-1 text-xs text-red-500">{message()}</div>
+        )}
+      </Show>
+
+      {/* Terminals; inactive ones stay mounted so their scrollback and stream survive tab switches */}
+      <div class="relative min-h-0 flex-1 overflow-hidden">
         <Show
-          when={output().length > 0}
+          when={terminals().length > 0}
           fallback={
             <div class="flex h-full flex-col items-center justify-center text-center">
               <Terminal class="text-muted-foreground/20 mb-2 h-10 w-10" />
-              <p class="text-muted-foreground/40 text-xs">
-                {activeTab().type === "terminal"
-                  ? "Terminal output will appear here..."
-                  : "Console logs will appear here..."}
-              </p>
+              <p class="text-muted-foreground/40 mb-2 text-xs">No terminal open</p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => void handleCreate()}
+                disabled={!ctx.client() || !ctx.workspace() || creating()}
+              >
+                New terminal
+              </Button>
             </div>
           }
         >
-          <div class="space-y-1">
-            <For each={output()}>
-              {line => {
-                const config = outputConfig(line.type);
-                return (
-                  <div class={cn("flex items-start gap-2 rounded px-2 py-1", config.bgColor)}>
-                    <span class={cn("flex-shrink-0", config.textColor)}>{config.icon}</span>
-                    <span class={cn("flex-1", config.textColor)}>{line.content}</span>
-                    <span class="text-muted-foreground/30 flex-shrink-0">
-                      {line.timestamp.toLocaleTimeString([], {
-                        hour: "2-digit",
-                        minute: "2-digit",
-                        second: "2-digit",
-                      })}
-                    </span>
-                  </div>
-                );
-              }}
-            </For>
-          </div>
+          <For each={terminals()}>
+            {terminal => (
+              <TerminalView
+                client={ctx.client()!}
+                terminal={terminal}
+                active={terminal.id === activeId()}
+                onExit={exitCode => markExited(terminal.id, exitCode)}
+              />
+            )}
+          </For>
         </Show>
       </div>
-
-      {/* Terminal input (placeholder for future) */}
-      <Show when={activeTab().type === "terminal"}>
-        <div class="border-border/30 border-t px-3 py-2">
-          <div
-            class={cn(
-              "flex items-center gap-2 rounded-md px-3 py-2",
-              "bg-card/20 border-border/30 border",
-              "focus-within:ring-primary/20 focus-within:ring-2",
-              "transition-all duration-200"
-            )}
-          >
-            <span class="text-muted-foreground/50">$</span>
-            <input
-              type="text"
-              placeholder="Type a command..."
-              class={cn(
-                "flex-1 bg-transparent outline-none",
-                "text-foreground placeholder:text-muted-foreground/40",
-                "text-xs"
-              )}
-              disabled
-            />
-          </div>
-        </div>
-      </Show>
     </div>
   );
 };
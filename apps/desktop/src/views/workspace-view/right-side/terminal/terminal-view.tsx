@@ -0,0 +1,97 @@
+import type { SaktiCodeApiClient, TerminalInfo } from "@/core/services/api/api-client";
+import { cn } from "@/utils";
+import { FitAddon } from "@xterm/addon-fit";
+import { Terminal as XTerm } from "@xterm/xterm";
+import "@xterm/xterm/css/xterm.css";
+import { Component, createEffect, onCleanup, onMount } from "solid-js";
+
+interface TerminalViewProps {
+  client: SaktiCodeApiClient;
+  terminal: TerminalInfo;
+  active: boolean;
+  onExit?: (exitCode: number | null) => void;
+  class?: string;
+}
+
+/**
+ * xterm.js view attached to one server-side terminal
+ *
+ * Replays the scrollback snapshot on attach, then follows live output.
+ * Keystrokes and viewport size are forwarded to the server.
+ */
+export const TerminalView: Component<TerminalViewProps> = props => {
+  let container!: HTMLDivElement;
+  const xterm = new XTerm({
+    cursorBlink: true,
+    convertEol: props.terminal.backend === "pipe",
+    fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+    fontSize: 12,
+    scrollback: 5000,
+    theme: { background: "#00000000" },
+    allowTransparency: true,
+  });
+  const fit = new FitAddon();
+  xterm.loadAddon(fit);
+
+  let lastSize = { cols: props.terminal.cols, rows: props.terminal.rows };
+
+  const fitToContainer = () => {
+    if (!props.active || container.clientWidth === 0) return;
+    fit.fit();
+    if (xterm.cols === lastSize.cols && xterm.rows === lastSize.rows) return;
+    lastSize = { cols: xterm.cols, rows: xterm.rows };
+    props.client.resizeTerminal(props.terminal.id, xterm.cols, xterm.rows).catch(() => {});
+  };
+
+  onMount(() => {
+    xterm.open(container);
+
+    const input = xterm.onData(data => {
+      props.client.writeTerminal(props.terminal.id, data).catch(() => {});
+    });
+
+    const unsubscribe = props.client.streamTerminal(props.terminal.id, event => {
+      switch (event.type) {
+        case "snapshot":
+          xterm.reset();
+          xterm.write(event.scrollback);
+          if (event.terminal.status === "exited") {
+            props.onExit?.(event.terminal.exitCode ?? null);
+          }
+          break;
+        case "output":
+          xterm.write(event.data);
+          break;
+        case "exit":
+          xterm.write(`\r\n[Process exited with code ${event.exitCode ?? "unknown"}]\r\n`);
+          props.onExit?.(event.exitCode);
+          break;
+      }
+    });
+
+    const observer = new ResizeObserver(() => fitToContainer());
+    observer.observe(container);
+
+    onCleanup(() => {
+      observer.disconnect();
+      unsubscribe();
+      input.dispose();
+      xterm.dispose();
+    });
+  });
+
+  createEffect(() => {
+    if (!props.active) return;
+    queueMicrotask(() => {
+      fitToContainer();
+      xterm.focus();
+    });
+  });
+
+  return (
+    <div
+      ref={container}
+      class={cn("h-full w-full px-2 py-1", !props.active && "hidden", props.class)}
+    />
+  );
+};
@@ -82,3 +82,25 @@ export function createRetryPart(overrides?: Partial<Part>): Part {
     ...overrides,
   } as Part;
 }
+
+/**
+ * Create a workspace hook run part for testing
+ */
+export function createHookPart(overrides?: Partial<Part>): Part {
+  const now = Date.now();
+  return {
+    id: "hook-part-1",
+    type: "hook",
+    messageID: "message-1",
+    sessionID: "session-1",
+    event: "postToolUse",
+    command: "pnpm prettier --write .",
+    toolName: "write",
+    toolCallID: "call-1",
+    outcome: "success",
+    exitCode: 0,
+    output: "src/index.ts 12ms",
+    time: { start: now - 120, end: now },
+    ...overrides,
+  } as Part;
+}
@@ -88,6 +88,7 @@ describe("Integration: Provider Initialization Order", () => {
     it("full provider tree mounts without errors", () => {
       const mockClient = {
         chat: vi.fn(),
+        getSessionRevert: vi.fn().mockResolvedValue(null),
       } as unknown as SaktiCodeApiClient;
 
       function TestComponent() {
@@ -129,6 +130,7 @@ describe("Integration: Provider Initialization Order", () => {
     it("nested providers maintain correct context hierarchy", () => {
       const mockClient = {
         chat: vi.fn(),
+        getSessionRevert: vi.fn().mockResolvedValue(null),
       } as unknown as SaktiCodeApiClient;
 
       function TestComponent() {
@@ -0,0 +1,205 @@
+import {
+  deleteCustomAgent,
+  getCustomAgents,
+  getWorkspaceAgentsDir,
+  loadCustomAgents,
+  parseCustomAgent,
+  saveCustomAgent,
+  serializeCustomAgent,
+} from "@/agent/custom";
+import { getAgent, listAgents, runAsAgent } from "@/agent/registry";
+import { Instance } from "@/instance";
+import { PermissionManager } from "@/security/permission-manager";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+const REVIEWER = [
+  "---",
+  "description: Reviews diffs",
+  "mode: subagent",
+  "model: zai/glm-4.7",
+  "temperature: 0.2",
+  "max-iterations: 20",
+  "tools: [read, grep, bash]",
+  "permission:",
+  "  edit: deny",
+  "  bash:",
+  '    "git diff*": allow',
+  '    "*": ask',
+  "---",
+  "You review code.",
+].join("\n");
+
+describe("agent/custom", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "custom-agents-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  async function writeAgent(name: string, content: string) {
+    const dir = getWorkspaceAgentsDir(workspace);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${name}.md`), content, "utf-8");
+  }
+
+  describe("parseCustomAgent", () => {
+    it("reads frontmatter fields and the permission block", () => {
+      const agent = parseCustomAgent(REVIEWER, {
+        name: "reviewer",
+        location: "/tmp/reviewer.md",
+        scope: "workspace",
+      });
+
+      expect(agent).toEqual({
+        name: "reviewer",
+        description: "Reviews diffs",
+        mode: "subagent",
+        model: "zai/glm-4.7",
+        temperature: 0.2,
+        maxIterations: 20,
+        tools: ["read", "grep", "bash"],
+        permission: { edit: "deny", bash: { "git diff*": "allow", "*": "ask" } },
+        systemPrompt: "You review code.",
+        scope: "workspace",
+        location: "/tmp/reviewer.md",
+      });
+    });
+
+    it("lets the frontmatter name override the file name", () => {
+      const agent = parseCustomAgent("---\nname: docs-writer\nmode: primary\n---\nWrite docs.", {
+        name: "docs",
+        location: "/tmp/docs.md",
+        scope: "user",
+      });
+
+      expect(agent).toMatchObject({ name: "docs-writer", mode: "primary" });
+      expect(agent.tools).toBeUndefined();
+    });
+
+    it.each([
+      ["---\nmode: boss\n---\nPrompt", "Invalid mode: boss"],
+      ["---\ntools: read, teleport\n---\nPrompt", "Unknown tools: teleport"],
+      ["---\ntemperature: 5\n---\nPrompt", "Invalid temperature: 5"],
+      ["---\npermission:\n  network: allow\n---\nPrompt", "Unknown permission: network"],
+      ["---\npermission:\n  edit: maybe\n---\nPrompt", "Invalid permission action for edit"],
+      ["---\ndescription: Nothing\n---\n", "Agent system prompt is empty"],
+    ])("rejects invalid agent files (%#)", (markdown, message) => {
+      expect(() =>
+        parseCustomAgent(markdown, { name: "broken", location: "/tmp/x.md", scope: "user" })
+      ).toThrow(message);
+    });
+
+    it("round-trips through serializeCustomAgent", () => {
+      const agent = parseCustomAgent(REVIEWER, {
+        name: "reviewer",
+        location: "/tmp/reviewer.md",
+        scope: "workspace",
+      });
+      const { scope: _scope, location: _location, ...input } = agent;
+
+      expect(
+        parseCustomAgent(serializeCustomAgent(input), {
+          name: "reviewer",
+          location: "/tmp/reviewer.md",
+          scope: "workspace",
+        })
+      ).toEqual(agent);
+    });
+  });
+
+  describe("loadCustomAgents", () => {
+    it("loads workspace agents and reports invalid files", async () => {
+      await writeAgent("reviewer", REVIEWER);
+      await writeAgent("broken", "---\nmode: boss\n---\nPrompt");
+      await writeAgent("build", "Replace the build agent");
+
+      const { agents, errors } = await loadCustomAgents(workspace);
+
+      expect(agents.map(agent => agent.name)).toEqual(["reviewer"]);
+      expect(errors).toEqual([
+        expect.objectContaining({ message: "Invalid mode: boss" }),
+        expect.objectContaining({ message: "Shadows built-in agent: build" }),
+      ]);
+      expect(getCustomAgents(workspace)).toEqual(agents);
+    });
+
+    it("saves and deletes agents", async () => {
+      const saved = await saveCustomAgent(workspace, "workspace", {
+        name: "tester",
+        mode: "primary",
+        tools: ["read", "bash"],
+        systemPrompt: "You write tests.",
+      });
+
+      expect(saved.location).toBe(path.join(getWorkspaceAgentsDir(workspace), "tester.md"));
+      expect(getCustomAgents(workspace).map(agent => agent.name)).toEqual(["tester"]);
+
+      await expect(deleteCustomAgent(workspace, "workspace", "tester")).resolves.toBe(true);
+      await expect(deleteCustomAgent(workspace, "workspace", "tester")).resolves.toBe(false);
+      expect(getCustomAgents(workspace)).toEqual([]);
+    });
+
+    it("refuses to save over a built-in agent", async () => {
+      await expect(
+        saveCustomAgent(workspace, "workspace", {
+          name: "plan",
+          mode: "subagent",
+          systemPrompt: "x",
+        })
+      ).rejects.toThrow("Shadows built-in agent: plan");
+    });
+  });
+
+  describe("registry", () => {
+    function inWorkspace<T>(fn: () => Promise<T>): Promise<T> {
+      return Instance.provide({
+        directory: workspace,
+        sessionID: "session-agents",
+        messageID: "message-1",
+        fn,
+      });
+    }
+
+    it("resolves custom agents with build agent defaults", async () => {
+      await writeAgent("docs", "---\nmode: primary\n---\nWrite docs.");
+      await writeAgent("reviewer", REVIEWER);
+      await loadCustomAgents(workspace);
+
+      await inWorkspace(async () => {
+        const docs = getAgent("docs");
+        expect(docs).toMatchObject({ name: "docs", mode: "primary", model: "glm-4.7" });
+        expect(docs.tools).toEqual(getAgent("build").tools);
+
+        expect(getAgent("reviewer").permission).toEqual([
+          { permission: "edit", pattern: "*", action: "deny" },
+          { permission: "bash", pattern: "git diff*", action: "allow" },
+          { permission: "bash", pattern: "*", action: "ask" },
+        ]);
+      });
+      expect(listAgents(workspace).map(agent => agent.name)).toEqual(["build", "docs", "reviewer"]);
+    });
+
+    it("applies agent permission overrides while the agent runs", async () => {
+      await writeAgent("reviewer", REVIEWER);
+      await loadCustomAgents(workspace);
+      const permissions = PermissionManager.getInstance();
+
+      await inWorkspace(async () => {
+        const before = await permissions.evaluate("session-agents", "edit", ["src/a.ts"]);
+        expect(before.decidedBy).not.toBe("agent");
+
+        const during = await runAsAgent(getAgent("reviewer"), () =>
+          permissions.evaluate("session-agents", "edit", ["src/a.ts"])
+        );
+        expect(during).toMatchObject({ action: "deny", decidedBy: "agent" });
+      });
+    });
+  });
+});
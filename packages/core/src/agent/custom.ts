@@ -0,0 +1,391 @@
+/**
+ * User-defined Agents
+ *
+ * Custom agents are Markdown files whose body is the agent's system prompt.
+ * They are read from the user config directory and from the workspace;
+ * workspace agents override user agents with the same name. Built-in agents
+ * cannot be redefined. Permission overrides can only tighten the user's
+ * rules: an override that is looser than them is ignored.
+ *
+ * .sakti-code/agents/reviewer.md:
+ * ---
+ * description: Reviews diffs for bugs and style issues
+ * mode: subagent
+ * model: zai/glm-4.7
+ * temperature: 0.2
+ * max-iterations: 20
+ * tools: read, grep, glob, bash
+ * permission:
+ *   edit: deny
+ *   bash:
+ *     "git push*": deny
+ *     "*": ask
+ * ---
+ * You are a meticulous code reviewer. ...
+ */
+
+import type { PermissionAction, PermissionType } from "@sakti-code/shared";
+import { createLogger } from "@sakti-code/shared/logger";
+import { resolveAppPaths } from "@sakti-code/shared/paths";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseFrontmatter, parseList, unquote, type FrontmatterLine } from "../config/frontmatter";
+import type { PermissionConfig, PermissionRuleConfig } from "../security/permission-rules";
+import { toolRegistry, type ToolName } from "../tools/registry";
+import type { AgentMode } from "./registry";
+import { AgentType } from "./workflow/types";
+
+const logger = createLogger("sakti-code:agent:custom");
+
+export const AGENTS_DIRNAME = "agents";
+export const WORKSPACE_AGENTS_DIR = ".sakti-code";
+
+const AGENT_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+const AGENT_MODES: AgentMode[] = ["primary", "subagent"];
+const PERMISSION_TYPES: PermissionType[] = [
+  "read",
+  "edit",
+  "external_directory",
+  "bash",
+  "mode_switch",
+  "skill",
+  "mcp",
+  "plugin",
+];
+const PERMISSION_ACTIONS: PermissionAction[] = ["allow", "deny", "ask"];
+
+/** Built-in agents, plus the task tool's `general` subagent type */
+const RESERVED_NAMES = new Set<string>([...AgentType.options, "general"]);
+
+/**
+ * Agent defined in a Markdown file
+ *
+ * Unset optional fields fall back to the build agent's settings.
+ */
+export interface CustomAgent {
+  name: string;
+  description?: string;
+  mode: AgentMode;
+  /** Model name or `provider/model` reference */
+  model?: string;
+  temperature?: number;
+  maxIterations?: number;
+  tools?: ToolName[];
+  /** Permission overrides, in the permissions config format */
+  permission?: PermissionConfig;
+  systemPrompt: string;
+  scope: "user" | "workspace";
+  location: string;
+}
+
+export type CustomAgentInput = Omit<CustomAgent, "scope" | "location">;
+
+export interface LoadedCustomAgents {
+  agents: CustomAgent[];
+  errors: Array<{ path: string; message: string }>;
+}
+
+/** Last load result per workspace, read synchronously by the agent registry */
+const loadedAgents = new Map<string, CustomAgent[]>();
+
+export function getUserAgentsDir(): string {
+  return path.join(resolveAppPaths().config, AGENTS_DIRNAME);
+}
+
+export function getWorkspaceAgentsDir(directory: string): string {
+  return path.join(directory, WORKSPACE_AGENTS_DIR, AGENTS_DIRNAME);
+}
+
+function getAgentsDir(directory: string, scope: CustomAgent["scope"]): string {
+  return scope === "user" ? getUserAgentsDir() : getWorkspaceAgentsDir(directory);
+}
+
+function parseAction(value: string, where: string): PermissionAction {
+  const action = unquote(value) as PermissionAction;
+  if (!PERMISSION_ACTIONS.includes(action)) {
+    throw new Error(`Invalid permission action for ${where}: ${value}`);
+  }
+  return action;
+}
+
+/**
+ * Parse the indented block under `permission:`
+ *
+ * Each permission is either an action for every pattern or a map of
+ * patterns to actions.
+ */
+function parsePermissionBlock(lines: FrontmatterLine[]): PermissionConfig {
+  const config: PermissionConfig = {};
+  const topIndent = lines[0]?.indent ?? 0;
+  let current: Record<string, PermissionAction | PermissionRuleConfig> | undefined;
+
+  for (const line of lines) {
+    if (line.indent === topIndent) {
+      if (!PERMISSION_TYPES.includes(line.key as PermissionType)) {
+        throw new Error(`Unknown permission: ${line.key}`);
+      }
+      if (line.value) {
+        config[line.key] = parseAction(line.value, line.key);
+        current = undefined;
+      } else {
+        current = {};
+        config[line.key] = current;
+      }
+    } else if (current && line.indent > topIndent) {
+      current[line.key] = parseAction(line.value, line.key);
+    } else {
+      throw new Error(`Unexpected indentation in permission block: ${line.key}`);
+    }
+  }
+  return config;
+}
+
+function parseNumber(value: string, field: string, range: { min: number; max?: number }): number {
+  const parsed = Number(value);
+  if (
+    !Number.isFinite(parsed) ||
+    parsed < range.min ||
+    (range.max !== undefined && parsed > range.max)
+  ) {
+    throw new Error(`Invalid ${field}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an agent file
+ *
+ * The frontmatter `name` defaults to the file name; the body is the system
+ * prompt and must not be empty.
+ */
+export function parseCustomAgent(
+  markdown: string,
+  options: { name: string; location: string; scope: CustomAgent["scope"] }
+): CustomAgent {
+  const frontmatter = parseFrontmatter(markdown);
+  const fields = frontmatter?.fields ?? {};
+  const permissionBlock = frontmatter?.blocks.permission ?? frontmatter?.blocks.permissions;
+  const permission = permissionBlock?.length ? parsePermissionBlock(permissionBlock) : undefined;
+
+  const systemPrompt = (frontmatter ? frontmatter.body : markdown).trim();
+  if (!systemPrompt) {
+    throw new Error("Agent system prompt is empty");
+  }
+
+  const name = fields.name || options.name;
+  if (!AGENT_NAME.test(name)) {
+    throw new Error(`Invalid agent name: ${name}`);
+  }
+
+  const mode = (fields.mode || "subagent") as AgentMode;
+  if (!AGENT_MODES.includes(mode)) {
+    throw new Error(`Invalid mode: ${fields.mode}`);
+  }
+
+  let tools: ToolName[] | undefined;
+  if (fields.tools) {
+    const names = parseList(fields.tools);
+    const unknown = names.filter(tool => !(tool in toolRegistry));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown tools: ${unknown.join(", ")}`);
+    }
+    tools = names as ToolName[];
+  }
+
+  const maxIterations = fields["max-iterations"] ?? fields.maxiterations;
+  return {
+    name,
+    description: fields.description || undefined,
+    mode,
+    model: fields.model || undefined,
+    temperature: fields.temperature
+      ? parseNumber(fields.temperature, "temperature", { min: 0, max: 2 })
+      : undefined,
+    maxIterations: maxIterations
+      ? Math.floor(parseNumber(maxIterations, "max-iterations", { min: 1 }))
+      : undefined,
+    tools,
+    permission,
+    systemPrompt,
+    scope: options.scope,
+    location: options.location,
+  };
+}
+
+function formatKey(key: string): string {
+  return /^[a-z0-9_-]+$/i.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Render an agent as a Markdown file that parseCustomAgent reads back
+ */
+export function serializeCustomAgent(agent: CustomAgentInput): string {
+  const lines = ["---", `name: ${agent.name}`];
+  if (agent.description) lines.push(`description: ${agent.description}`);
+  lines.push(`mode: ${agent.mode}`);
+  if (agent.model) lines.push(`model: ${agent.model}`);
+  if (agent.temperature !== undefined) lines.push(`temperature: ${agent.temperature}`);
+  if (agent.maxIterations !== undefined) lines.push(`max-iterations: ${agent.maxIterations}`);
+  if (agent.tools) lines.push(`tools: ${agent.tools.join(", ")}`);
+
+  const permissions = Object.entries(agent.permission ?? {});
+  if (permissions.length > 0) {
+    lines.push("permission:");
+    for (const [permission, value] of permissions) {
+      if (typeof value === "string") {
+        lines.push(`  ${permission}: ${value}`);
+        continue;
+      }
+      lines.push(`  ${permission}:`);
+      for (const [pattern, entry] of Object.entries(value)) {
+        const action = typeof entry === "string" ? entry : entry.action;
+        lines.push(`    ${formatKey(pattern)}: ${action}`);
+      }
+    }
+  }
+
+  lines.push("---", agent.systemPrompt.trim(), "");
+  return lines.join("\n");
+}
+
+async function readAgentsDir(
+  dir: string,
+  scope: CustomAgent["scope"],
+  result: LoadedCustomAgents,
+  byName: Map<string, CustomAgent>
+): Promise<void> {
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(dir)).sort();
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (path.extname(entry) !== ".md") continue;
+    const location = path.join(dir, entry);
+
+    try {
+      const content = await fs.readFile(location, "utf-8");
+      const agent = parseCustomAgent(content, {
+        name: path.basename(entry, ".md"),
+        location,
+        scope,
+      });
+      if (RESERVED_NAMES.has(agent.name)) {
+        result.errors.push({ path: location, message: `Shadows built-in agent: ${agent.name}` });
+        continue;
+      }
+      byName.set(agent.name, agent);
+    } catch (error) {
+      result.errors.push({
+        path: location,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Load user and workspace agents for a workspace directory
+ *
+ * Invalid files are reported in `errors` and skipped. The result is kept
+ * for getCustomAgents until the next load.
+ */
+export async function loadCustomAgents(directory: string): Promise<LoadedCustomAgents> {
+  const result: LoadedCustomAgents = { agents: [], errors: [] };
+  const byName = new Map<string, CustomAgent>();
+
+  await readAgentsDir(getUserAgentsDir(), "user", result, byName);
+  await readAgentsDir(getWorkspaceAgentsDir(directory), "workspace", result, byName);
+
+  for (const error of result.errors) {
+    logger.warn("invalid custom agent", error);
+  }
+
+  result.agents = [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+  loadedAgents.set(path.resolve(directory), result.agents);
+  return result;
+}
+
+/**
+ * Custom agents from the last loadCustomAgents call for a workspace
+ */
+export function getCustomAgents(directory: string): CustomAgent[] {
+  return loadedAgents.get(path.resolve(directory)) ?? [];
+}
+
+/**
+ * Find the file defining an agent in a directory
+ *
+ * The frontmatter name may differ from the file name, so files are parsed.
+ */
+async function findAgentFile(dir: string, name: string): Promise<string | undefined> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir);
+  } catch {
+    return undefined;
+  }
+
+  for (const entry of entries) {
+    if (path.extname(entry) !== ".md") continue;
+    const location = path.join(dir, entry);
+    try {
+      const content = await fs.readFile(location, "utf-8");
+      const agent = parseCustomAgent(content, {
+        name: path.basename(entry, ".md"),
+        location,
+        scope: "workspace",
+      });
+      if (agent.name === name) return location;
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Write an agent file, replacing any agent with the same name in the scope
+ *
+ * @throws Error if the agent is invalid or redefines a built-in agent
+ */
+export async function saveCustomAgent(
+  directory: string,
+  scope: CustomAgent["scope"],
+  agent: CustomAgentInput
+): Promise<CustomAgent> {
+  if (RESERVED_NAMES.has(agent.name)) {
+    throw new Error(`Shadows built-in agent: ${agent.name}`);
+  }
+
+  const dir = getAgentsDir(directory, scope);
+  const location = (await findAgentFile(dir, agent.name)) ?? path.join(dir, `${agent.name}.md`);
+  const content = serializeCustomAgent(agent);
+  // Parse before writing so an invalid agent never reaches disk
+  const saved = parseCustomAgent(content, { name: agent.name, location, scope });
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(location, content, "utf-8");
+  await loadCustomAgents(directory);
+  return saved;
+}
+
+/**
+ * Delete an agent file
+ *
+ * @returns false if the scope has no agent with that name
+ */
+export async function deleteCustomAgent(
+  directory: string,
+  scope: CustomAgent["scope"],
+  name: string
+): Promise<boolean> {
+  const location = await findAgentFile(getAgentsDir(directory, scope), name);
+  if (!location) return false;
+
+  await fs.rm(location, { force: true });
+  await loadCustomAgents(directory);
+  return true;
+}
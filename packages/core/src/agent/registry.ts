@@ -8,9 +8,17 @@
  */
 
 import type { LanguageModelV3 } from "@ai-sdk/provider";
-import { createTools, ToolName } from "../tools/registry";
+import type { PermissionRule } from "@sakti-code/shared";
+import { createLogger } from "@sakti-code/shared/logger";
+import { getContext, hasContext, runWithContext } from "../instance/context";
+import { Plugins, type PluginAgentDefinition } from "../plugin";
+import { parseConfigRules } from "../security/permission-rules";
+import { createTools, ToolName, toolRegistry } from "../tools/registry";
+import { getCustomAgents, type CustomAgent } from "./custom";
 import { getBuildModel, getExploreModel } from "./workflow/model-provider";
 
+const logger = createLogger("sakti-code:agent:registry");
+
 /**
  * Agent mode types
  *
@@ -49,6 +57,12 @@ export interface AgentConfig {
 
   /** Whether this agent should be hidden from agent listings */
   hidden?: boolean;
+
+  /** Short description shown in agent listings */
+  description?: string;
+
+  /** Permission rules that override the session's while this agent runs */
+  permission?: PermissionRule[];
 }
 
 /**
@@ -80,6 +94,12 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
       "glob",
       "question",
       "bash",
+      "terminal-output",
+      "process-start",
+      "process-output",
+      "process-input",
+      "process-list",
+      "process-kill",
       "grep",
       "webfetch",
       "sequentialthinking",
@@ -89,6 +109,12 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
       "ast-query",
       "grep-search",
       "file-read-docs",
+      "lsp-definition",
+      "lsp-references",
+      "lsp-hover",
+      "lsp-document-symbols",
+      "lsp-workspace-symbols",
+      "diagnostics",
       "task-query",
       "task-mutate",
       "memory-search",
@@ -109,6 +135,8 @@ Your capabilities include:
 - Use ls ONCE per directory to understand structure - do NOT call it repeatedly with different parameters
 - For finding specific files by pattern, use glob tool (e.g., "src/**/*.ts" to find TypeScript files)
 - For searching file contents, use grep tool
+- For symbol definitions, usages and types, prefer lsp-definition, lsp-references and lsp-hover over grep
+- Use diagnostics to list type errors and lint warnings for a file, glob or the workspace
 - For reading file contents, use read tool
 - Each tool call provides complete information - avoid redundant calls
 
@@ -150,6 +178,12 @@ Always maintain code quality and follow existing patterns in the codebase.`,
       "ast-query",
       "grep-search",
       "file-read-docs",
+      "lsp-definition",
+      "lsp-references",
+      "lsp-hover",
+      "lsp-document-symbols",
+      "lsp-workspace-symbols",
+      "diagnostics",
     ],
     systemPrompt: `You are an expert code explorer. Your task is to analyze the codebase and understand:
 - Project structure and architecture
@@ -161,6 +195,8 @@ Always maintain code quality and follow existing patterns in the codebase.`,
 - Use ls ONCE per directory to understand structure - do NOT call it repeatedly
 - For finding specific files by pattern, use glob tool (e.g., "src/**/*.ts" to find all TypeScript files)
 - For searching file contents, use grep tool
+- For symbol definitions, usages and types, prefer lsp-definition, lsp-references and lsp-hover over grep
+- Use diagnostics to list type errors and lint warnings for a file, glob or the workspace
 - For reading file contents, use read tool
 - Each tool call provides complete information - avoid redundant calls
 
@@ -195,6 +231,12 @@ You have read-only access. Focus on understanding rather than modifying.`,
       "ast-query",
       "grep-search",
       "file-read-docs",
+      "lsp-definition",
+      "lsp-references",
+      "lsp-hover",
+      "lsp-document-symbols",
+      "lsp-workspace-symbols",
+      "diagnostics",
       "task",
       "task-parallel",
       "plan-exit",
@@ -212,6 +254,8 @@ Review the task and exploration results, then create a step-by-step plan that in
 - Use ls ONCE per directory to understand structure - do NOT call it repeatedly
 - For finding specific files by pattern, use glob tool
 - For searching file contents, use grep tool
+- For symbol definitions, usages and types, prefer lsp-definition, lsp-references and lsp-hover over grep
+- Use diagnostics to list type errors and lint warnings for a file, glob or the workspace
 - For reading file contents, use read tool
 - Each tool call provides complete information - avoid redundant calls
 
@@ -226,18 +270,108 @@ You have read-only access. Focus on planning rather than implementing.`,
 /**
  * Get agent configuration by name
  *
+ * Built-in agents come first, then the workspace's custom agents, then
+ * agents registered by plugins.
+ *
  * @param name - Agent name (e.g., "build", "explore", "plan")
  * @returns Agent configuration
  * @throws Error if agent not found
  */
 export function getAgent(name: string): AgentConfig {
-  const agent = AGENT_REGISTRY[name];
+  const agent =
+    AGENT_REGISTRY[name] ?? getExtensionAgents().find(candidate => candidate.name === name);
   if (!agent) {
-    throw new Error(
-      `Unknown agent: ${name}. Available agents: ${Object.keys(AGENT_REGISTRY).join(", ")}`
-    );
+    const available = [...Object.keys(AGENT_REGISTRY), ...getExtensionAgents().map(a => a.name)];
+    throw new Error(`Unknown agent: ${name}. Available agents: ${available.join(", ")}`);
   }
-  return agent;
+  return agent === AGENT_REGISTRY.build ? { ...agent, tools: getBuildTools() } : agent;
+}
+
+/**
+ * The build agent's tools plus every tool registered by the workspace's
+ * plugins; other agents get a plugin tool only when their tools name it
+ */
+function getBuildTools(directory?: string): ToolName[] {
+  const dir = directory ?? (hasContext() ? getContext().directory : undefined);
+  const pluginTools = dir ? Plugins.getToolNames(dir) : [];
+  return [...AGENT_REGISTRY.build.tools, ...(pluginTools as ToolName[])];
+}
+
+/**
+ * Convert a Markdown agent to a config; unset fields default to the build agent's
+ */
+function fromCustomAgent(agent: CustomAgent, directory: string): AgentConfig {
+  const build = AGENT_REGISTRY.build;
+  return {
+    name: agent.name,
+    mode: agent.mode,
+    model: agent.model ?? build.model,
+    maxIterations: agent.maxIterations ?? build.maxIterations,
+    tools: agent.tools ?? getBuildTools(directory),
+    systemPrompt: agent.systemPrompt,
+    temperature: agent.temperature,
+    description: agent.description,
+    permission: agent.permission ? parseConfigRules(agent.permission) : undefined,
+  };
+}
+
+/**
+ * Whether a plugin agent names only built-in and plugin tools that exist, as
+ * parseCustomAgent requires of Markdown agents; agents that do not are left
+ * out with a warning
+ */
+function hasKnownTools(agent: PluginAgentDefinition, pluginTools: Set<string>): boolean {
+  const unknown = (agent.tools ?? []).filter(
+    name => !(name in toolRegistry) && !pluginTools.has(name)
+  );
+  if (unknown.length === 0) return true;
+  logger.warn("skipping plugin agent with unknown tools", { agent: agent.name, tools: unknown });
+  return false;
+}
+
+/**
+ * Convert a plugin agent to a config; unset fields default to the build agent's
+ */
+function fromPluginAgent(agent: PluginAgentDefinition, directory: string): AgentConfig {
+  const build = AGENT_REGISTRY.build;
+  return {
+    name: agent.name,
+    mode: agent.mode ?? "subagent",
+    model: agent.model ?? build.model,
+    maxIterations: agent.maxIterations ?? build.maxIterations,
+    tools: (agent.tools as ToolName[] | undefined) ?? getBuildTools(directory),
+    systemPrompt: agent.systemPrompt,
+    temperature: agent.temperature,
+    hidden: agent.hidden,
+  };
+}
+
+/**
+ * Custom and plugin agents for a workspace, or for the current Instance
+ * context when no directory is given; custom agents win over plugin agents
+ * and built-in agent names win over both
+ */
+function getExtensionAgents(directory?: string): AgentConfig[] {
+  const dir = directory ?? (hasContext() ? getContext().directory : undefined);
+  if (!dir) return [];
+
+  const custom = getCustomAgents(dir).map(agent => fromCustomAgent(agent, dir));
+  const taken = new Set([...Object.keys(AGENT_REGISTRY), ...custom.map(agent => agent.name)]);
+  const pluginTools = new Set(Plugins.getToolNames(dir));
+  const plugin = Plugins.getAgents(dir)
+    .filter(agent => !taken.has(agent.name) && hasKnownTools(agent, pluginTools))
+    .map(agent => fromPluginAgent(agent, dir));
+  return [...custom, ...plugin];
+}
+
+/**
+ * Whether an agent exists, hidden agents included
+ *
+ * @param name - Agent name
+ * @param directory - Workspace directory; defaults to the Instance context's
+ */
+export function hasAgent(name: string, directory?: string): boolean {
+  return name in AGENT_REGISTRY || getExtensionAgents(directory).some(agent => agent.name === name);
 }
 
 /**
@@ -254,12 +388,31 @@ export function getDefaultAgent(): string {
 /**
  * Get all available agent configurations
  *
- * Returns all non-hidden agents for listing purposes.
+ * Returns all non-hidden agents for listing purposes, including the
+ * workspace's custom agents (as of the last loadCustomAgents call) and those
+ * registered by its plugins.
  *
+ * @param directory - Workspace directory; defaults to the Instance context's
  * @returns Array of agent configurations
  */
-export function listAgents(): AgentConfig[] {
-  return Object.values(AGENT_REGISTRY).filter(agent => !agent.hidden);
+export function listAgents(directory?: string): AgentConfig[] {
+  return [...Object.values(AGENT_REGISTRY), ...getExtensionAgents(directory)].filter(
+    agent => !agent.hidden
+  );
+}
+
+/**
+ * Run a function as an agent
+ *
+ * Records the agent in the Instance context so its permission overrides
+ * apply to the tool calls made inside `fn`.
+ */
+export function runAsAgent<R>(agent: AgentConfig, fn: () => Promise<R>): Promise<R> {
+  if (!hasContext()) return fn();
+  return runWithContext(
+    { ...getContext(), agent: agent.name, agentPermissions: agent.permission },
+    fn
+  );
 }
 
 /**
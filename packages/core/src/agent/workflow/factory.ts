@@ -58,12 +58,17 @@ export function createAgent(
   // Resolve tool names to actual tool implementations
   const tools = resolveTools(registryConfig.tools);
 
-  // Load the language model
-  loadModel(registryConfig.model);
+  // Load the language model; `provider/model` references are resolved by the processor
+  if (!registryConfig.model.includes("/")) {
+    loadModel(registryConfig.model);
+  }
 
   return {
     id,
-    type: registryConfig.name as AgentType, // Map name to AgentType for compatibility
+    // Custom and plugin agents run as build agents with their own prompt and tools
+    type: AgentType.safeParse(registryConfig.name).success
+      ? (registryConfig.name as AgentType)
+      : "build",
     model: registryConfig.model,
     systemPrompt: registryConfig.systemPrompt,
     tools: tools, // Pass tools as object with named keys, not as array
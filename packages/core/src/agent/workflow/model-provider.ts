@@ -189,10 +189,25 @@ function defaultProviderHeaders(providerId: string): Record<string, string> | un
   }
 }
 
+/**
+ * OpenAI-compatible endpoint of the local model server (Ollama by default),
+ * used when a local model is referenced without catalog metadata
+ */
+function defaultLocalProviderApiUrl(): string {
+  const root = (process.env.SAKTI_CODE_LOCAL_PROVIDER_URL?.trim() || "http://127.0.0.1:11434")
+    .replace(/\/+$/, "")
+    .replace(/\/v1$/, "");
+  return `${root}/v1`;
+}
+
 function resolveModelFromSelection(selection: RuntimeSelection): LanguageModelV3 {
   const providerNpmPackage =
     selection.providerNpmPackage?.trim() || inferProviderNpmPackage(selection.providerId);
 
+  if (selection.providerId === "local" && !selection.providerApiUrl) {
+    selection = { ...selection, providerApiUrl: defaultLocalProviderApiUrl() };
+  }
+
   if (selection.providerId === "zai") {
     return createZai({
       apiKey: selection.apiKey || process.env.ZAI_API_KEY,
@@ -209,7 +224,9 @@ function resolveModelFromSelection(selection: RuntimeSelection): LanguageModelV3
     })(selection.modelId as any); // eslint-disable-line @typescript-eslint/no-explicit-any
   }
 
-  const cacheKey = `${selection.providerId}|${selection.providerApiUrl ?? ""}|${selection.apiKey ?? ""}|${providerNpmPackage ?? ""}`;
+  // Plugin provider factories belong to a workspace, so the cache is per workspace
+  const directory = Instance.inContext ? Instance.directory : undefined;
+  const cacheKey = `${selection.providerId}|${selection.providerApiUrl ?? ""}|${selection.apiKey ?? ""}|${providerNpmPackage ?? ""}|${directory ?? ""}`;
   const headers = {
     ...(defaultProviderHeaders(selection.providerId) ?? {}),
     ...(selection.headers ?? {}),
@@ -224,6 +241,7 @@ function resolveModelFromSelection(selection: RuntimeSelection): LanguageModelV3
       apiKey: selection.apiKey,
       baseURL: selection.providerApiUrl,
       headers,
+      directory,
     });
     providerCache.set(finalCacheKey, provider);
   }
@@ -18,6 +18,7 @@ import { createVercel } from "@ai-sdk/vercel";
 import { createXai } from "@ai-sdk/xai";
 import { createGitLab } from "@gitlab/gitlab-ai-provider";
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import { Plugins } from "../../plugin";
 
 export interface ProviderSdkOptions {
   providerId: string;
@@ -25,6 +26,8 @@ export interface ProviderSdkOptions {
   apiKey?: string;
   baseURL?: string;
   headers?: Record<string, string>;
+  /** Workspace whose plugins may provide the SDK factory */
+  directory?: string;
 }
 
 export type ProviderSdkFactory = ReturnType<typeof createOpenAI>;
@@ -135,6 +138,8 @@ export function inferProviderNpmPackage(providerId: string): string | undefined
       return "@openrouter/ai-sdk-provider";
     case "gitlab":
       return "@gitlab/gitlab-ai-provider";
+    case "local":
+      return "@ai-sdk/openai-compatible";
     default:
       return undefined;
   }
@@ -142,7 +147,11 @@ export function inferProviderNpmPackage(providerId: string): string | undefined
 
 export function resolveProviderSdkFactory(input: ProviderSdkOptions): ProviderSdkFactory {
   const npmPackage = input.providerNpmPackage?.trim();
-  const creator = npmPackage ? SDK_CREATORS[npmPackage] : undefined;
+  // Built-in SDKs first, then factories registered by the workspace's plugins
+  const creator = npmPackage
+    ? (SDK_CREATORS[npmPackage] ??
+      (input.directory ? Plugins.getProviderFactory(input.directory, npmPackage) : undefined))
+    : undefined;
   const effectiveCreator = creator ?? createOpenAI;
   const shouldUseOpenAiEnvFallback =
     input.providerId === "openai" || npmPackage === "@ai-sdk/openai";
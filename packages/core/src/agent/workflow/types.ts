@@ -50,6 +50,13 @@ export const AgentInput = z.object({
   task: z.string(),
   context: z.record(z.string(), z.any()).optional(),
   previousResults: z.array(AgentResult).optional(),
+  /** IDs to persist the turn's messages under, so memory matches the chat timeline */
+  messageIds: z
+    .object({
+      user: z.string().optional(),
+      assistant: z.string().optional(),
+    })
+    .optional(),
 });
 export type AgentInput = z.infer<typeof AgentInput>;
 
@@ -131,6 +138,21 @@ export const AgentEvent = z.discriminatedUnion("type", [
     durationMs: z.number(),
     agentId: z.string(),
   }),
+  // Workspace hook command runs (see ../../hooks)
+  z.object({
+    type: z.literal("hook"),
+    hookId: z.string(),
+    hookEvent: z.string(),
+    command: z.string(),
+    toolName: z.string().optional(),
+    toolCallId: z.string().optional(),
+    outcome: z.enum(["success", "blocked", "error"]),
+    exitCode: z.number().nullable(),
+    durationMs: z.number(),
+    output: z.string(),
+    error: z.string().optional(),
+    agentId: z.string(),
+  }),
   z.object({
     type: z.literal("retry"),
     attempt: z.number(),
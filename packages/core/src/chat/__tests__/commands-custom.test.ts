@@ -0,0 +1,175 @@
+import { getWorkspaceAgentsDir } from "@/agent/custom";
+import {
+  expandCommandTemplate,
+  getUserCommandsDir,
+  getWorkspaceCommandsDir,
+  loadCustomCommands,
+  parseCustomCommand,
+} from "@/chat/commands-custom";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("chat/commands-custom", () => {
+  let workspace: string;
+  const userCommands: string[] = [];
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "custom-commands-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+    for (const file of userCommands.splice(0)) {
+      await fs.rm(file, { force: true });
+    }
+  });
+
+  async function writeCommand(dir: string, name: string, content: string) {
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(dir, `${name}.md`);
+    await fs.writeFile(file, content, "utf-8");
+    return file;
+  }
+
+  describe("parseCustomCommand", () => {
+    it("reads frontmatter fields", () => {
+      const command = parseCustomCommand(
+        [
+          "---",
+          "description: Review a file",
+          "agent: plan",
+          "model: zai/glm-4.7",
+          "allowed-tools: [read, grep]",
+          "---",
+          "Review $ARGUMENTS",
+        ].join("\n"),
+        { name: "review", location: "/tmp/review.md", scope: "workspace" }
+      );
+
+      expect(command).toMatchObject({
+        id: "custom.review",
+        trigger: "review",
+        title: "review",
+        description: "Review a file",
+        type: "custom",
+        agent: "plan",
+        model: "zai/glm-4.7",
+        allowedTools: ["read", "grep"],
+        template: "Review $ARGUMENTS",
+      });
+    });
+
+    it("treats a file without frontmatter as a template", () => {
+      const command = parseCustomCommand("Explain $ARGUMENTS\n", {
+        name: "explain",
+        location: "/tmp/explain.md",
+        scope: "user",
+      });
+
+      expect(command.template).toBe("Explain $ARGUMENTS");
+      expect(command.allowedTools).toBeUndefined();
+    });
+
+    it("rejects an empty template", () => {
+      expect(() =>
+        parseCustomCommand("---\ndescription: Nothing\n---\n", {
+          name: "empty",
+          location: "/tmp/empty.md",
+          scope: "user",
+        })
+      ).toThrow("Command template is empty");
+    });
+
+    it("rejects an agent that does not exist", () => {
+      expect(() =>
+        parseCustomCommand("---\nagent: reviewr\n---\nReview $ARGUMENTS", {
+          name: "review",
+          location: "/tmp/review.md",
+          scope: "user",
+        })
+      ).toThrow("Unknown agent: reviewr");
+    });
+  });
+
+  describe("loadCustomCommands", () => {
+    it("lets workspace commands override user commands", async () => {
+      userCommands.push(
+        await writeCommand(getUserCommandsDir(), "zz-shared-test", "From user"),
+        await writeCommand(getUserCommandsDir(), "zz-user-test", "User only")
+      );
+      await writeCommand(getWorkspaceCommandsDir(workspace), "zz-shared-test", "From workspace");
+
+      const { commands, errors } = await loadCustomCommands(workspace);
+
+      expect(errors).toEqual([]);
+      const loaded = commands.filter(command => command.trigger.startsWith("zz-"));
+      expect(loaded.map(command => [command.trigger, command.scope, command.template])).toEqual([
+        ["zz-shared-test", "workspace", "From workspace"],
+        ["zz-user-test", "user", "User only"],
+      ]);
+    });
+
+    it("reports commands that shadow built-ins or have bad names", async () => {
+      const dir = getWorkspaceCommandsDir(workspace);
+      await writeCommand(dir, "undo", "Nope");
+      await writeCommand(dir, "bad name", "Nope");
+      await writeCommand(dir, "ok", "Fine");
+
+      const { commands, errors } = await loadCustomCommands(workspace);
+
+      expect(commands.map(command => command.trigger)).toContain("ok");
+      expect(errors.map(error => error.message).sort()).toEqual([
+        "Invalid command name: bad name",
+        "Shadows built-in command: undo",
+      ]);
+    });
+
+    it("accepts the workspace's custom agents", async () => {
+      const agentsDir = getWorkspaceAgentsDir(workspace);
+      await fs.mkdir(agentsDir, { recursive: true });
+      await fs.writeFile(path.join(agentsDir, "reviewer.md"), "You review code.", "utf-8");
+      const dir = getWorkspaceCommandsDir(workspace);
+      await writeCommand(dir, "review", "---\nagent: reviewer\n---\nReview $ARGUMENTS");
+      await writeCommand(dir, "typo", "---\nagent: reviewr\n---\nReview $ARGUMENTS");
+
+      const { commands, errors } = await loadCustomCommands(workspace);
+
+      expect(commands.find(command => command.trigger === "review")?.agent).toBe("reviewer");
+      expect(errors.map(error => error.message)).toEqual(["Unknown agent: reviewr"]);
+    });
+  });
+
+  describe("expandCommandTemplate", () => {
+    it("substitutes arguments and file includes", async () => {
+      await fs.mkdir(path.join(workspace, "src"));
+      await fs.writeFile(path.join(workspace, "src", "a.ts"), "export const a = 1;\n");
+
+      const prompt = await expandCommandTemplate(
+        "Review @{src/a.ts} for $ARGUMENTS",
+        "  naming  ",
+        workspace
+      );
+
+      expect(prompt).toBe("Review export const a = 1;\n for naming");
+    });
+
+    it("does not expand placeholders inside arguments or files", async () => {
+      await fs.writeFile(path.join(workspace, "note.md"), "see $ARGUMENTS");
+
+      const prompt = await expandCommandTemplate("@{note.md} / $ARGUMENTS", "@{x}", workspace);
+
+      expect(prompt).toBe("see $ARGUMENTS / @{x}");
+    });
+
+    it("refuses files outside the workspace", async () => {
+      await expect(expandCommandTemplate("@{../secret}", "", workspace)).rejects.toThrow(
+        "File include outside workspace: ../secret"
+      );
+      await expect(expandCommandTemplate("@{missing.txt}", "", workspace)).rejects.toThrow(
+        "File include not found: missing.txt"
+      );
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * User-defined Slash Commands
+ *
+ * Custom commands are Markdown files whose body is a prompt template. They are
+ * read from the user config directory and from the workspace; workspace
+ * commands override user commands with the same name, and both override
+ * commands registered by plugins.
+ *
+ * .sakti-code/commands/review.md:
+ * ---
+ * description: Review a file
+ * agent: plan
+ * model: zai/glm-4.7
+ * allowed-tools: read, grep, glob
+ * ---
+ * Review @{src/index.ts} with a focus on $ARGUMENTS.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { resolveAppPaths } from "@sakti-code/shared/paths";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { loadCustomAgents } from "../agent/custom";
+import { hasAgent } from "../agent/registry";
+import { parseFrontmatter, parseList } from "../config/frontmatter";
+import { Plugins } from "../plugin";
+import { SlashCommand } from "./commands";
+import { builtinCommands } from "./commands-builtin";
+
+const logger = createLogger("sakti-code:chat:commands");
+
+export const COMMANDS_DIRNAME = "commands";
+export const WORKSPACE_COMMANDS_DIR = ".sakti-code";
+
+const COMMAND_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+const FILE_INCLUDE = /@\{([^}]+)\}/g;
+const PLACEHOLDER = /@\{([^}]+)\}|\$ARGUMENTS/g;
+
+/**
+ * Custom slash command schema
+ *
+ * A slash command backed by a prompt template, with optional agent, model
+ * and tool restrictions applied when it runs.
+ */
+export const CustomCommand = SlashCommand.extend({
+  template: z.string(),
+  agent: z.string().optional(),
+  model: z.string().optional(),
+  allowedTools: z.array(z.string()).optional(),
+  scope: z.enum(["user", "workspace", "plugin"]),
+  location: z.string(),
+}).meta({
+  ref: "CustomCommand",
+});
+export type CustomCommand = z.infer<typeof CustomCommand>;
+
+export interface LoadedCustomCommands {
+  commands: CustomCommand[];
+  errors: Array<{ path: string; message: string }>;
+}
+
+export function getUserCommandsDir(): string {
+  return path.join(resolveAppPaths().config, COMMANDS_DIRNAME);
+}
+
+export function getWorkspaceCommandsDir(directory: string): string {
+  return path.join(directory, WORKSPACE_COMMANDS_DIR, COMMANDS_DIRNAME);
+}
+
+/**
+ * Parse a command file
+ *
+ * Frontmatter is optional; a file without it is a plain prompt template.
+ * The `agent` field must name a built-in agent or one of the custom and
+ * plugin agents of `directory`.
+ */
+export function parseCustomCommand(
+  markdown: string,
+  options: { name: string; location: string; scope: CustomCommand["scope"]; directory?: string }
+): CustomCommand {
+  const frontmatter = parseFrontmatter(markdown);
+  const fields = frontmatter?.fields ?? {};
+
+  const template = (frontmatter ? frontmatter.body : markdown).trim();
+  if (!template) {
+    throw new Error("Command template is empty");
+  }
+
+  const agent = fields.agent || undefined;
+  if (agent && !hasAgent(agent, options.directory)) {
+    throw new Error(`Unknown agent: ${agent}`);
+  }
+
+  const allowedTools = fields["allowed-tools"] ?? fields.allowedtools;
+  return {
+    id: `custom.${options.name}`,
+    trigger: options.name,
+    title: fields.title || options.name,
+    description: fields.description || undefined,
+    type: "custom",
+    source: "command",
+    template,
+    agent,
+    model: fields.model || undefined,
+    allowedTools: allowedTools ? parseList(allowedTools) : undefined,
+    scope: options.scope,
+    location: options.location,
+  };
+}
+
+async function readCommandsDir(
+  dir: string,
+  directory: string,
+  scope: CustomCommand["scope"],
+  result: LoadedCustomCommands,
+  byTrigger: Map<string, CustomCommand>
+): Promise<void> {
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(dir)).sort();
+  } catch {
+    return;
+  }
+
+  const builtinTriggers = new Set(builtinCommands.map(command => command.trigger));
+
+  for (const entry of entries) {
+    if (path.extname(entry) !== ".md") continue;
+    const location = path.join(dir, entry);
+    const name = path.basename(entry, ".md");
+
+    if (!COMMAND_NAME.test(name)) {
+      result.errors.push({ path: location, message: `Invalid command name: ${name}` });
+      continue;
+    }
+    if (builtinTriggers.has(name)) {
+      result.errors.push({ path: location, message: `Shadows built-in command: ${name}` });
+      continue;
+    }
+
+    try {
+      const content = await fs.readFile(location, "utf-8");
+      byTrigger.set(name, parseCustomCommand(content, { name, location, scope, directory }));
+    } catch (error) {
+      result.errors.push({
+        path: location,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Load plugin, user and workspace commands for a workspace directory
+ *
+ * Invalid files are reported in `errors` and skipped.
+ */
+export async function loadCustomCommands(directory: string): Promise<LoadedCustomCommands> {
+  const result: LoadedCustomCommands = { commands: [], errors: [] };
+  const byTrigger = new Map<string, CustomCommand>();
+
+  await Plugins.ensureWorkspace(directory);
+  const builtinTriggers = new Set(builtinCommands.map(command => command.trigger));
+  for (const command of Plugins.getCommands(directory)) {
+    if (builtinTriggers.has(command.trigger)) {
+      result.errors.push({
+        path: command.location,
+        message: `Shadows built-in command: ${command.trigger}`,
+      });
+      continue;
+    }
+    byTrigger.set(command.trigger, command);
+  }
+
+  await loadCustomAgents(directory);
+  await readCommandsDir(getUserCommandsDir(), directory, "user", result, byTrigger);
+  await readCommandsDir(
+    getWorkspaceCommandsDir(directory),
+    directory,
+    "workspace",
+    result,
+    byTrigger
+  );
+
+  for (const error of result.errors) {
+    logger.warn("invalid custom command", error);
+  }
+
+  result.commands = [...byTrigger.values()].sort((a, b) => a.trigger.localeCompare(b.trigger));
+  return result;
+}
+
+/**
+ * Expand a command template into a prompt
+ *
+ * `$ARGUMENTS` is replaced with the text typed after the command and
+ * `@{path}` with the contents of a workspace file.
+ *
+ * @throws Error if an included file is outside the workspace or unreadable
+ */
+export async function expandCommandTemplate(
+  template: string,
+  args: string,
+  directory: string
+): Promise<string> {
+  const root = path.resolve(directory);
+  const includes = new Map<string, string>();
+
+  for (const [, rawPath] of template.matchAll(FILE_INCLUDE)) {
+    const includePath = rawPath.trim();
+    if (includes.has(includePath)) continue;
+
+    const resolved = path.resolve(root, includePath);
+    const relative = path.relative(root, resolved);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new Error(`File include outside workspace: ${includePath}`);
+    }
+
+    try {
+      includes.set(includePath, await fs.readFile(resolved, "utf-8"));
+    } catch {
+      throw new Error(`File include not found: ${includePath}`);
+    }
+  }
+
+  // One pass so included files and arguments are never expanded themselves
+  return template.replace(PLACEHOLDER, (_, rawPath: string | undefined) =>
+    rawPath === undefined ? args.trim() : (includes.get(rawPath.trim()) ?? "")
+  );
+}
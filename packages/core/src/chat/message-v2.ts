@@ -367,6 +367,28 @@ export const RetryPart = PartBase.extend({
 });
 export type RetryPart = z.infer<typeof RetryPart>;
 
+/**
+ * Workspace hook run part - one hook command's outcome
+ */
+export const HookPart = PartBase.extend({
+  type: z.literal("hook"),
+  event: z.string(),
+  command: z.string(),
+  toolName: z.string().optional(),
+  toolCallID: z.string().optional(),
+  outcome: z.enum(["success", "blocked", "error"]),
+  exitCode: z.number().nullable(),
+  output: z.string(),
+  error: z.string().optional(),
+  time: z.object({
+    start: z.number(),
+    end: z.number(),
+  }),
+}).meta({
+  ref: "HookPart",
+});
+export type HookPart = z.infer<typeof HookPart>;
+
 /**
  * Step start part - beginning of a workflow step
  */
@@ -455,6 +477,7 @@ export const Part = z
     AgentPart,
     RetryPart,
     CompactionPart,
+    HookPart,
   ])
   .meta({
     ref: "Part",
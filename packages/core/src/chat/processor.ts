@@ -9,6 +9,7 @@
  */
 
 import { v7 as uuidv7 } from "uuid";
+import { normalizeUsage } from "../session/usage";
 import type {
   Part,
   ReasoningPart,
@@ -97,37 +98,6 @@ export interface ProcessorConfig {
   _onSessionStatus?: (status: "idle" | "busy") => void | Promise<void>;
 }
 
-function safeNumber(value: unknown): number {
-  return typeof value === "number" && Number.isFinite(value) ? value : 0;
-}
-
-function normalizeUsage(usage: unknown): {
-  cost: number;
-  tokens: {
-    input: number;
-    output: number;
-    reasoning: number;
-    cache: {
-      read: number;
-      write: number;
-    };
-  };
-} {
-  const data = usage && typeof usage === "object" ? (usage as Record<string, unknown>) : {};
-  return {
-    cost: safeNumber(data.cost ?? data.totalCost),
-    tokens: {
-      input: safeNumber(data.inputTokens ?? data.promptTokens ?? data.input),
-      output: safeNumber(data.outputTokens ?? data.completionTokens ?? data.output),
-      reasoning: safeNumber(data.reasoningTokens ?? data.reasoning),
-      cache: {
-        read: safeNumber(data.cacheReadInputTokens ?? data.cachedInputTokens ?? data.cacheRead),
-        write: safeNumber(data.cacheWriteInputTokens ?? data.cacheWrite),
-      },
-    },
-  };
-}
-
 /**
  * Process an AI SDK stream and emit part events
  *
@@ -0,0 +1,40 @@
+import { parseFrontmatter, parseList } from "@/config/frontmatter";
+import { describe, expect, it } from "vitest";
+
+describe("config/frontmatter", () => {
+  it("reads fields, indented blocks and the body", () => {
+    const frontmatter = parseFrontmatter(
+      [
+        "---",
+        "# comment",
+        'Description: "Uses: colons"',
+        "permission:",
+        "  edit: deny",
+        '  "git push*": ask',
+        "",
+        "tools: [read, 'grep']",
+        "---",
+        "Body",
+      ].join("\n")
+    );
+
+    expect(frontmatter).toEqual({
+      fields: { description: "Uses: colons", permission: "", tools: "[read, 'grep']" },
+      blocks: {
+        description: [],
+        permission: [
+          { indent: 2, key: "edit", value: "deny" },
+          { indent: 2, key: "git push*", value: "ask" },
+        ],
+        tools: [],
+      },
+      body: "Body",
+    });
+    expect(parseList(frontmatter!.fields.tools)).toEqual(["read", "grep"]);
+  });
+
+  it("returns undefined without frontmatter", () => {
+    expect(parseFrontmatter("Just a prompt")).toBeUndefined();
+    expect(parseFrontmatter("---\nname: empty\n---")?.body).toBe("");
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Markdown frontmatter
+ *
+ * Skills, slash commands and agents are Markdown files that start with a
+ * small YAML-like header. Only the subset they use is supported: `key: value`
+ * lines, quoted keys and values, `a, b` or `[a, b]` lists, and indented
+ * blocks under a key with no value. Values may contain colons, as in
+ * `description: Uses: colons`.
+ */
+
+export interface FrontmatterLine {
+  indent: number;
+  key: string;
+  value: string;
+}
+
+export interface Frontmatter {
+  /** Top-level values by lowercase key, unquoted */
+  fields: Record<string, string>;
+  /** Indented lines under a top-level key, by lowercase key */
+  blocks: Record<string, FrontmatterLine[]>;
+  body: string;
+}
+
+export function unquote(value: string): string {
+  return value.replace(/^"(.*)"$|^'(.*)'$/, (_, double, single) => double ?? single);
+}
+
+export function parseList(value: string): string[] {
+  return value
+    .replace(/^\[|\]$/g, "")
+    .split(",")
+    .map(item => unquote(item.trim()))
+    .filter(Boolean);
+}
+
+function parseLine(line: string): FrontmatterLine | undefined {
+  const match = line.match(/^(\s*)("[^"]*"|'[^']*'|[^:]+?)\s*:\s*(.*)$/);
+  if (!match) return undefined;
+  return { indent: match[1].length, key: unquote(match[2].trim()), value: match[3].trim() };
+}
+
+/**
+ * Split a Markdown file into its frontmatter and body
+ *
+ * Blank lines and `#` comments are skipped. Returns undefined when the file
+ * has no frontmatter.
+ */
+export function parseFrontmatter(markdown: string): Frontmatter | undefined {
+  const match = markdown.match(/^---\s*\n([\s\S]*?)\n---\s*(?:\n([\s\S]*))?$/);
+  if (!match) return undefined;
+
+  const frontmatter: Frontmatter = { fields: {}, blocks: {}, body: match[2] ?? "" };
+  let block: FrontmatterLine[] | undefined;
+  for (const raw of match[1].split("\n")) {
+    if (!raw.trim() || raw.trim().startsWith("#")) continue;
+    const line = parseLine(raw);
+    if (!line) continue;
+
+    if (line.indent > 0) {
+      block?.push(line);
+      continue;
+    }
+    const key = line.key.toLowerCase();
+    frontmatter.fields[key] = unquote(line.value);
+    block = frontmatter.blocks[key] = [];
+  }
+  return frontmatter;
+}
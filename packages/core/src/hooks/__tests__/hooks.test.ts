@@ -0,0 +1,259 @@
+import {
+  formatHookFeedback,
+  loadTrustedWorkspaceHooks,
+  loadWorkspaceHooks,
+  runHooks,
+  saveWorkspaceHooks,
+  WorkspaceHooksConfig,
+  wrapToolsWithHooks,
+  type HookExecution,
+} from "@/hooks";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+function hooks(config: Partial<Record<keyof WorkspaceHooksConfig, unknown>>) {
+  return WorkspaceHooksConfig.parse(config);
+}
+
+/** Shell command running an inline Node script, so tests do not depend on jq or similar */
+function node(script: string): string {
+  return `"${process.execPath}" -e ${JSON.stringify(script)}`;
+}
+
+const readStdin = "let s='';process.stdin.on('data',d=>s+=d).on('end',()=>{const p=JSON.parse(s);";
+
+describe("hooks", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "hooks-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  describe("config", () => {
+    it("returns no hooks when the workspace has no config", async () => {
+      const config = await loadWorkspaceHooks(workspace);
+      expect(config).toEqual({
+        preToolUse: [],
+        postToolUse: [],
+        sessionStart: [],
+        userPromptSubmit: [],
+        stop: [],
+      });
+    });
+
+    it("round-trips a saved config", async () => {
+      await saveWorkspaceHooks(workspace, {
+        postToolUse: [{ matcher: "write|edit", command: "pnpm prettier --write ." }],
+      });
+
+      const config = await loadWorkspaceHooks(workspace);
+      expect(config.postToolUse).toEqual([
+        { matcher: "write|edit", command: "pnpm prettier --write ." },
+      ]);
+    });
+
+    it("only runs hooks the user saved", async () => {
+      const hooksPath = path.join(workspace, ".sakti-code", "hooks.json");
+      await fs.mkdir(path.dirname(hooksPath), { recursive: true });
+      await fs.writeFile(hooksPath, JSON.stringify({ sessionStart: [{ command: "curl evil" }] }));
+      expect((await loadTrustedWorkspaceHooks(workspace)).sessionStart).toEqual([]);
+
+      await saveWorkspaceHooks(workspace, { sessionStart: [{ command: "git status" }] });
+      expect((await loadTrustedWorkspaceHooks(workspace)).sessionStart).toEqual([
+        { command: "git status" },
+      ]);
+
+      await fs.writeFile(hooksPath, JSON.stringify({ sessionStart: [{ command: "curl evil" }] }));
+      expect((await loadTrustedWorkspaceHooks(workspace)).sessionStart).toEqual([]);
+    });
+
+    it("rejects an invalid config instead of skipping its hooks", async () => {
+      await fs.mkdir(path.join(workspace, ".sakti-code"), { recursive: true });
+      await fs.writeFile(
+        path.join(workspace, ".sakti-code", "hooks.json"),
+        JSON.stringify({ preToolUse: [{ matcher: "(", command: "true" }] })
+      );
+
+      await expect(loadWorkspaceHooks(workspace)).rejects.toThrow(/Invalid hooks config/);
+    });
+  });
+
+  describe("runHooks", () => {
+    it("passes the payload on stdin and feeds stdout back", async () => {
+      const config = hooks({
+        userPromptSubmit: [{ command: node(`${readStdin}console.log('got '+p.prompt)})`) }],
+      });
+
+      const result = await runHooks(config, {
+        event: "userPromptSubmit",
+        sessionId: "s1",
+        directory: workspace,
+        prompt: "hello",
+      });
+
+      expect(result.blocked).toBeNull();
+      expect(result.feedback).toEqual([
+        { command: config.userPromptSubmit[0].command, output: "got hello" },
+      ]);
+      expect(result.executions[0]).toMatchObject({ outcome: "success", exitCode: 0 });
+    });
+
+    it("blocks on exit code 2 with stderr as the reason", async () => {
+      const config = hooks({
+        preToolUse: [
+          { command: node("console.error('no rm');process.exit(2)") },
+          { command: node("console.log('never')") },
+        ],
+      });
+
+      const result = await runHooks(config, {
+        event: "preToolUse",
+        sessionId: "s1",
+        directory: workspace,
+        toolName: "bash",
+      });
+
+      expect(result.blocked).toEqual({ command: config.preToolUse[0].command, reason: "no rm" });
+      expect(result.executions).toHaveLength(1);
+    });
+
+    it("only runs tool hooks whose matcher matches the tool", async () => {
+      const executions: HookExecution[] = [];
+      const config = hooks({
+        postToolUse: [
+          { matcher: "write|edit", command: node("console.log('formatted')") },
+          { matcher: "bash", command: node("console.log('bash')") },
+        ],
+      });
+
+      await runHooks(
+        config,
+        { event: "postToolUse", sessionId: "s1", directory: workspace, toolName: "edit" },
+        { onExecution: execution => executions.push(execution) }
+      );
+
+      expect(executions.map(execution => execution.output)).toEqual(["formatted"]);
+    });
+
+    it("treats other exit codes as failures that do not block", async () => {
+      const config = hooks({ stop: [{ command: node("process.exit(1)") }] });
+
+      const result = await runHooks(config, {
+        event: "stop",
+        sessionId: "s1",
+        directory: workspace,
+      });
+
+      expect(result.blocked).toBeNull();
+      expect(result.executions[0]).toMatchObject({ outcome: "error", exitCode: 1 });
+    });
+
+    it("fails a hook that runs past its timeout", async () => {
+      const config = hooks({
+        sessionStart: [{ command: node("setTimeout(()=>{},10000)"), timeoutMs: 200 }],
+      });
+
+      const result = await runHooks(config, {
+        event: "sessionStart",
+        sessionId: "s1",
+        directory: workspace,
+      });
+
+      expect(result.executions[0]).toMatchObject({ outcome: "error", exitCode: null });
+      expect(result.executions[0].error).toMatch(/timed out/);
+    });
+
+    it("reads JSON decisions and replacement tool input", async () => {
+      const config = hooks({
+        preToolUse: [
+          {
+            command: node(
+              `${readStdin}console.log(JSON.stringify({toolInput:{command:p.toolInput.command+' --dry-run'},context:'added --dry-run'}))})`
+            ),
+          },
+        ],
+      });
+
+      const result = await runHooks(config, {
+        event: "preToolUse",
+        sessionId: "s1",
+        directory: workspace,
+        toolName: "bash",
+        toolInput: { command: "make deploy" },
+      });
+
+      expect(result.toolInput).toEqual({ command: "make deploy --dry-run" });
+      expect(result.feedback[0].output).toBe("added --dry-run");
+    });
+  });
+
+  describe("wrapToolsWithHooks", () => {
+    it("blocks a tool call when a preToolUse hook blocks", async () => {
+      let called = false;
+      const tools = wrapToolsWithHooks(
+        {
+          bash: {
+            execute: async (_input: unknown) => {
+              called = true;
+              return "ran";
+            },
+          },
+        },
+        {
+          config: hooks({
+            preToolUse: [
+              { matcher: "bash", command: node("console.error('denied');process.exit(2)") },
+            ],
+          }),
+          sessionId: "s1",
+          directory: workspace,
+        }
+      );
+
+      await expect(tools.bash.execute({ command: "rm -rf /" })).rejects.toThrow(/denied/);
+      expect(called).toBe(false);
+    });
+
+    it("appends postToolUse output to the tool result", async () => {
+      const tools = wrapToolsWithHooks(
+        { write: { execute: async (_input: unknown) => ({ path: "a.ts" }) } },
+        {
+          config: hooks({ postToolUse: [{ command: node("console.log('formatted a.ts')") }] }),
+          sessionId: "s1",
+          directory: workspace,
+        }
+      );
+
+      const result = await tools.write.execute({});
+
+      expect(result).toMatchObject({
+        path: "a.ts",
+        hookFeedback: expect.stringContaining("formatted a.ts"),
+      });
+    });
+
+    it("leaves tools untouched without tool hooks", () => {
+      const original = { read: { execute: async () => "content" } };
+      const tools = wrapToolsWithHooks(original, {
+        config: hooks({ stop: [{ command: "true" }] }),
+        sessionId: "s1",
+        directory: workspace,
+      });
+
+      expect(tools).toBe(original);
+    });
+  });
+
+  it("formats no feedback as an empty string", () => {
+    expect(formatHookFeedback("stop", [])).toBe("");
+    expect(formatHookFeedback("stop", [{ command: "pnpm test", output: "1 failed" }])).toContain(
+      "[pnpm test]\n1 failed"
+    );
+  });
+});
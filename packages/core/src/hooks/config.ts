@@ -0,0 +1,197 @@
+/**
+ * Workspace hook configuration
+ *
+ * Hooks are shell commands run at points in the agent lifecycle. Each
+ * receives a JSON payload on stdin; see ./runner for the output protocol.
+ *
+ * .sakti-code/hooks.json:
+ * {
+ *   "preToolUse": [{ "matcher": "bash", "command": "./scripts/check-command.sh" }],
+ *   "postToolUse": [{ "matcher": "edit|write|multiedit", "command": "pnpm prettier --write ." }],
+ *   "sessionStart": [{ "command": "git status --short" }],
+ *   "userPromptSubmit": [],
+ *   "stop": [{ "command": "pnpm test", "timeoutMs": 300000 }]
+ * }
+ *
+ * Hooks only run once the user has trusted them: saving hooks from settings
+ * records a hash of the config in the user config directory. A file that
+ * arrives with a cloned repo, or that changes outside settings, runs nothing
+ * until it is saved again.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { resolveAppPaths } from "@sakti-code/shared/paths";
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+
+const logger = createLogger("sakti-code:hooks");
+
+export const HOOKS_CONFIG_FILENAME = "hooks.json";
+export const WORKSPACE_HOOKS_CONFIG_DIR = ".sakti-code";
+const TRUSTED_HOOKS_FILENAME = "trusted-hooks.json";
+
+export const HOOK_EVENTS = [
+  "preToolUse",
+  "postToolUse",
+  "sessionStart",
+  "userPromptSubmit",
+  "stop",
+] as const;
+export type HookEventName = (typeof HOOK_EVENTS)[number];
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const HookCommand = z.object({
+  command: z.string().trim().min(1),
+  /** Regex over tool names; only used by tool events, matches every tool when absent */
+  matcher: z
+    .string()
+    .refine(isValidPattern, "matcher must be a valid regular expression")
+    .optional(),
+  timeoutMs: z.number().int().positive().optional(),
+});
+export type HookCommand = z.infer<typeof HookCommand>;
+
+export const WorkspaceHooksConfig = z.object({
+  preToolUse: z.array(HookCommand).default([]),
+  postToolUse: z.array(HookCommand).default([]),
+  sessionStart: z.array(HookCommand).default([]),
+  userPromptSubmit: z.array(HookCommand).default([]),
+  stop: z.array(HookCommand).default([]),
+});
+export type WorkspaceHooksConfig = z.infer<typeof WorkspaceHooksConfig>;
+
+export function getWorkspaceHooksConfigPath(directory: string): string {
+  return path.join(directory, WORKSPACE_HOOKS_CONFIG_DIR, HOOKS_CONFIG_FILENAME);
+}
+
+export function hasHooks(config: WorkspaceHooksConfig): boolean {
+  return HOOK_EVENTS.some(event => config[event].length > 0);
+}
+
+function validateHooks(config: unknown, filePath: string): WorkspaceHooksConfig {
+  const validated = WorkspaceHooksConfig.safeParse(config);
+  if (!validated.success) {
+    throw new Error(
+      `Invalid hooks config ${filePath}: ${validated.error.issues
+        .map(issue => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ")}`
+    );
+  }
+  return validated.data;
+}
+
+/**
+ * Load a workspace's hooks; a missing file means no hooks
+ *
+ * @throws {Error} When the file exists but is invalid, so a broken config
+ *   never silently skips a guard hook
+ */
+export async function loadWorkspaceHooks(directory: string): Promise<WorkspaceHooksConfig> {
+  const filePath = getWorkspaceHooksConfigPath(directory);
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return WorkspaceHooksConfig.parse({});
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid hooks config ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return validateHooks(parsed, filePath);
+}
+
+function getTrustedHooksPath(): string {
+  return path.join(resolveAppPaths().config, TRUSTED_HOOKS_FILENAME);
+}
+
+function hashHooks(config: WorkspaceHooksConfig): string {
+  return createHash("sha256").update(JSON.stringify(config)).digest("hex");
+}
+
+/** Hashes of the trusted hooks config by workspace directory */
+async function readTrustedHooks(): Promise<Record<string, string>> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(getTrustedHooksPath(), "utf-8"));
+    return z.record(z.string(), z.string()).parse(parsed);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Whether the user has trusted exactly this hooks config for the workspace
+ */
+export async function isWorkspaceHooksTrusted(
+  directory: string,
+  config: WorkspaceHooksConfig
+): Promise<boolean> {
+  if (!hasHooks(config)) return true;
+  const trusted = await readTrustedHooks();
+  return trusted[path.resolve(directory)] === hashHooks(config);
+}
+
+async function trustWorkspaceHooks(directory: string, config: WorkspaceHooksConfig) {
+  const trusted = await readTrustedHooks();
+  trusted[path.resolve(directory)] = hashHooks(config);
+  const filePath = getTrustedHooksPath();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(trusted, null, 2)}\n`, "utf-8");
+}
+
+/**
+ * Load the hooks that may run for a workspace
+ *
+ * Hooks the user has not trusted are skipped with a warning.
+ *
+ * @throws {Error} When the file exists but is invalid, as loadWorkspaceHooks
+ */
+export async function loadTrustedWorkspaceHooks(directory: string): Promise<WorkspaceHooksConfig> {
+  const config = await loadWorkspaceHooks(directory);
+  if (await isWorkspaceHooksTrusted(directory, config)) {
+    return config;
+  }
+
+  logger.warn("Skipping untrusted workspace hooks; save them from settings to trust them", {
+    module: "hooks",
+    path: getWorkspaceHooksConfigPath(directory),
+  });
+  return WorkspaceHooksConfig.parse({});
+}
+
+/**
+ * Validate and write a workspace's hooks, and trust them
+ *
+ * Only call this on behalf of the user (the settings API); agents must not
+ * be able to trust their own hooks.
+ *
+ * @returns The saved config with defaults filled in
+ * @throws {Error} When the config is invalid; nothing is written
+ */
+export async function saveWorkspaceHooks(
+  directory: string,
+  config: unknown
+): Promise<WorkspaceHooksConfig> {
+  const filePath = getWorkspaceHooksConfigPath(directory);
+  const validated = validateHooks(config, filePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(validated, null, 2)}\n`, "utf-8");
+  await trustWorkspaceHooks(directory, validated);
+  return validated;
+}
@@ -0,0 +1,3 @@
+export * from "./config";
+export * from "./runner";
+export * from "./tools";
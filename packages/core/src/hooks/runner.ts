@@ -0,0 +1,265 @@
+/**
+ * Hook command execution
+ *
+ * Each hook runs through the shell in the workspace directory with a JSON
+ * payload on stdin. Exit codes decide the outcome:
+ * - 0: success; stdout is fed back to the agent. If stdout is a JSON object
+ *   it may instead set `decision: "block"` with a `reason`, a replacement
+ *   `toolInput` (preToolUse only) and `context` for the agent
+ * - 2: block; stderr (or stdout) is the reason given to the agent
+ * - anything else, or a timeout: the hook failed and the action continues
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { spawn } from "node:child_process";
+import { z } from "zod";
+import { killTree } from "../tools/shell/kill-tree";
+import { getAcceptableShell } from "../tools/shell/shell-selector";
+import type { HookCommand, HookEventName, WorkspaceHooksConfig } from "./config";
+
+const logger = createLogger("sakti-code:hooks");
+
+export const DEFAULT_HOOK_TIMEOUT_MS = 60_000;
+const MAX_OUTPUT_CHARS = 10_000;
+const BLOCK_EXIT_CODE = 2;
+
+export interface HookPayload {
+  event: HookEventName;
+  sessionId: string;
+  directory: string;
+  toolName?: string;
+  toolCallId?: string;
+  toolInput?: unknown;
+  toolResult?: unknown;
+  toolError?: string;
+  prompt?: string;
+  status?: string;
+  finalContent?: string;
+}
+
+export type HookOutcome = "success" | "blocked" | "error";
+
+/**
+ * One hook command run, as shown in the timeline
+ */
+export interface HookExecution {
+  id: string;
+  event: HookEventName;
+  command: string;
+  toolName?: string;
+  toolCallId?: string;
+  outcome: HookOutcome;
+  exitCode: number | null;
+  durationMs: number;
+  /** Text passed back to the agent, or the block reason */
+  output: string;
+  error?: string;
+}
+
+export interface HookRunResult {
+  executions: HookExecution[];
+  /** Set when a hook blocked the action; later hooks do not run */
+  blocked: { command: string; reason: string } | null;
+  /** Replacement input from preToolUse hooks */
+  toolInput?: unknown;
+  /** Hook output to hand to the agent */
+  feedback: Array<{ command: string; output: string }>;
+}
+
+export interface RunHooksOptions {
+  signal?: AbortSignal;
+  onExecution?: (execution: HookExecution) => void;
+}
+
+const HookJsonOutput = z.object({
+  decision: z.enum(["allow", "block"]).optional(),
+  reason: z.string().optional(),
+  toolInput: z.unknown().optional(),
+  context: z.string().optional(),
+});
+
+let executionCounter = 0;
+
+function truncate(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= MAX_OUTPUT_CHARS) return trimmed;
+  return `${trimmed.slice(0, MAX_OUTPUT_CHARS)}\n... (truncated ${trimmed.length - MAX_OUTPUT_CHARS} chars)`;
+}
+
+function parseJsonOutput(stdout: string): z.infer<typeof HookJsonOutput> | null {
+  const trimmed = stdout.trim();
+  if (!trimmed.startsWith("{")) return null;
+  try {
+    const parsed = HookJsonOutput.safeParse(JSON.parse(trimmed));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+function matchesTool(hook: HookCommand, toolName: string | undefined): boolean {
+  if (!hook.matcher || toolName === undefined) return true;
+  return new RegExp(`^(?:${hook.matcher})$`).test(toolName);
+}
+
+interface CommandOutput {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  error?: string;
+}
+
+function runCommand(
+  hook: HookCommand,
+  payload: HookPayload,
+  signal?: AbortSignal
+): Promise<CommandOutput> {
+  return new Promise(resolve => {
+    const timeoutMs = hook.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS;
+    let stdout = "";
+    let stderr = "";
+    let exited = false;
+    let settled = false;
+    let failure: string | undefined;
+
+    const proc = spawn(hook.command, {
+      cwd: payload.directory,
+      shell: getAcceptableShell(),
+      env: {
+        ...process.env,
+        SAKTI_CODE_HOOK_EVENT: payload.event,
+        SAKTI_CODE_PROJECT_DIR: payload.directory,
+        SAKTI_CODE_SESSION_ID: payload.sessionId,
+      },
+      stdio: ["pipe", "pipe", "pipe"],
+      detached: process.platform !== "win32",
+    });
+
+    const finish = (exitCode: number | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      resolve({ exitCode, stdout, stderr, error: failure });
+    };
+
+    const stop = (reason: string) => {
+      failure ??= reason;
+      void killTree(proc, { exited: () => exited });
+    };
+    const onAbort = () => stop("Hook aborted");
+    const timer = setTimeout(() => stop(`Hook timed out after ${timeoutMs}ms`), timeoutMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    proc.stdout?.on("data", (chunk: Buffer) => {
+      if (stdout.length <= MAX_OUTPUT_CHARS * 2) stdout += chunk.toString();
+    });
+    proc.stderr?.on("data", (chunk: Buffer) => {
+      if (stderr.length <= MAX_OUTPUT_CHARS * 2) stderr += chunk.toString();
+    });
+    proc.on("error", error => {
+      failure ??= error.message;
+      finish(null);
+    });
+    proc.on("close", code => {
+      exited = true;
+      finish(failure ? null : code);
+    });
+
+    // Hooks that ignore stdin close it early; that is not an error
+    proc.stdin?.on("error", () => {});
+    proc.stdin?.end(JSON.stringify(payload));
+  });
+}
+
+/**
+ * Run the hooks configured for an event in order
+ *
+ * Stops at the first hook that blocks. For preToolUse, a hook's replacement
+ * input is what the next hook receives.
+ */
+export async function runHooks(
+  config: WorkspaceHooksConfig,
+  payload: HookPayload,
+  options: RunHooksOptions = {}
+): Promise<HookRunResult> {
+  const result: HookRunResult = { executions: [], blocked: null, feedback: [] };
+  const hooks = config[payload.event].filter(hook => matchesTool(hook, payload.toolName));
+  let current = payload;
+
+  for (const hook of hooks) {
+    if (options.signal?.aborted) break;
+
+    const startedAt = Date.now();
+    const output = await runCommand(hook, current, options.signal);
+    const execution: HookExecution = {
+      id: `hook-${startedAt}-${++executionCounter}`,
+      event: payload.event,
+      command: hook.command,
+      toolName: payload.toolName,
+      toolCallId: payload.toolCallId,
+      outcome: "success",
+      exitCode: output.exitCode,
+      durationMs: Date.now() - startedAt,
+      output: "",
+    };
+
+    if (output.exitCode === BLOCK_EXIT_CODE) {
+      execution.outcome = "blocked";
+      execution.output = truncate(output.stderr) || truncate(output.stdout) || "Blocked by hook";
+    } else if (output.exitCode !== 0) {
+      execution.outcome = "error";
+      execution.output = truncate(output.stderr) || truncate(output.stdout);
+      execution.error = output.error ?? `Hook exited with code ${output.exitCode}`;
+    } else {
+      const json = parseJsonOutput(output.stdout);
+      if (json?.decision === "block") {
+        execution.outcome = "blocked";
+        execution.output = json.reason?.trim() || "Blocked by hook";
+      } else if (json) {
+        execution.output = truncate(json.context ?? "");
+        if (json.toolInput !== undefined && payload.event === "preToolUse") {
+          result.toolInput = json.toolInput;
+          current = { ...current, toolInput: json.toolInput };
+        }
+      } else {
+        execution.output = truncate(output.stdout);
+      }
+    }
+
+    if (execution.outcome === "error") {
+      logger.warn("Hook failed", {
+        module: "hooks",
+        event: payload.event,
+        command: hook.command,
+        exitCode: output.exitCode,
+        error: execution.error,
+      });
+    }
+
+    result.executions.push(execution);
+    options.onExecution?.(execution);
+
+    if (execution.outcome === "blocked") {
+      result.blocked = { command: hook.command, reason: execution.output };
+      break;
+    }
+    if (execution.outcome === "success" && execution.output) {
+      result.feedback.push({ command: hook.command, output: execution.output });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Format hook output as a reminder the agent reads alongside a message or result
+ */
+export function formatHookFeedback(
+  event: HookEventName,
+  feedback: Array<{ command: string; output: string }>
+): string {
+  if (feedback.length === 0) return "";
+  const body = feedback.map(entry => `[${entry.command}]\n${entry.output}`).join("\n\n");
+  return `<system-reminder>\nOutput of the workspace's ${event} hooks:\n${body}\n</system-reminder>`;
+}
@@ -0,0 +1,127 @@
+/**
+ * Run preToolUse and postToolUse hooks around agent tool calls
+ */
+
+import type { WorkspaceHooksConfig } from "./config";
+import { formatHookFeedback, runHooks, type HookExecution } from "./runner";
+
+type ToolExecute = (input: unknown, options?: unknown) => Promise<unknown> | unknown;
+
+export interface ToolHookContext {
+  config: WorkspaceHooksConfig;
+  sessionId: string;
+  directory: string;
+  onExecution?: (execution: HookExecution) => void;
+}
+
+function readCallOptions(options: unknown): { toolCallId?: string; abortSignal?: AbortSignal } {
+  if (!options || typeof options !== "object") return {};
+  const { toolCallId, abortSignal } = options as Record<string, unknown>;
+  return {
+    toolCallId: typeof toolCallId === "string" ? toolCallId : undefined,
+    abortSignal: abortSignal instanceof AbortSignal ? abortSignal : undefined,
+  };
+}
+
+/**
+ * Append hook output to a tool result so the agent sees it
+ */
+function attachFeedback(result: unknown, feedback: string): unknown {
+  if (!feedback) return result;
+  if (typeof result === "string") return `${result}\n\n${feedback}`;
+  if (result && typeof result === "object" && !Array.isArray(result)) {
+    return { ...(result as Record<string, unknown>), hookFeedback: feedback };
+  }
+  return { output: result, hookFeedback: feedback };
+}
+
+/**
+ * Wrap each tool's execute with the workspace's tool hooks
+ *
+ * A blocking preToolUse hook fails the call with its reason, which the agent
+ * receives as the tool error. Returns the tools unchanged when no tool hooks
+ * are configured.
+ */
+export function wrapToolsWithHooks<T extends Record<string, unknown>>(
+  tools: T,
+  context: ToolHookContext
+): T {
+  if (context.config.preToolUse.length === 0 && context.config.postToolUse.length === 0) {
+    return tools;
+  }
+
+  const wrapped: Record<string, unknown> = {};
+  for (const [toolName, tool] of Object.entries(tools)) {
+    const execute =
+      tool && typeof tool === "object" ? (tool as { execute?: unknown }).execute : undefined;
+    if (typeof execute !== "function") {
+      wrapped[toolName] = tool;
+      continue;
+    }
+
+    const original = execute as ToolExecute;
+    wrapped[toolName] = {
+      ...(tool as Record<string, unknown>),
+      execute: async (input: unknown, options?: unknown) => {
+        const { toolCallId, abortSignal } = readCallOptions(options);
+        const base = {
+          sessionId: context.sessionId,
+          directory: context.directory,
+          toolName,
+          toolCallId,
+        };
+        const hookOptions = { signal: abortSignal, onExecution: context.onExecution };
+
+        const before = await runHooks(
+          context.config,
+          { ...base, event: "preToolUse", toolInput: input },
+          hookOptions
+        );
+        if (before.blocked) {
+          throw new Error(
+            `Blocked by preToolUse hook (${before.blocked.command}): ${before.blocked.reason}`
+          );
+        }
+
+        const toolInput = before.toolInput ?? input;
+        let result: unknown;
+        try {
+          result = await original(toolInput, options);
+        } catch (error) {
+          await runHooks(
+            context.config,
+            {
+              ...base,
+              event: "postToolUse",
+              toolInput,
+              toolError: error instanceof Error ? error.message : String(error),
+            },
+            hookOptions
+          );
+          throw error;
+        }
+
+        const after = await runHooks(
+          context.config,
+          { ...base, event: "postToolUse", toolInput, toolResult: result },
+          hookOptions
+        );
+        const afterFeedback = after.blocked
+          ? [...after.feedback, { command: after.blocked.command, output: after.blocked.reason }]
+          : after.feedback;
+
+        return attachFeedback(
+          result,
+          [
+            formatHookFeedback("preToolUse", before.feedback),
+            formatHookFeedback("postToolUse", afterFeedback),
+          ]
+            .filter(Boolean)
+            .join("\n\n")
+        );
+      },
+    };
+  }
+
+  return wrapped as T;
+}
@@ -23,10 +23,54 @@ export {
   type UpdateTaskInput,
 } from "./memory";
 
+// Semantic memory search
+export {
+  getEmbeddingConfigPath,
+  getEmbeddingStatus,
+  indexPendingEmbeddings,
+  loadEmbeddingConfig,
+  reindexEmbeddings,
+  scheduleEmbeddingIndex,
+  setEmbedder,
+  type Embedder,
+  type EmbeddingIndexResult,
+  type EmbeddingStatus,
+} from "./memory";
+
+// Memory inspector
+export {
+  MemoryBusyError,
+  MemorySettings,
+  getMemorySettingsPath,
+  getMemorySnapshot,
+  listMemoryResources,
+  loadLinkedMemory,
+  loadMemorySettings,
+  memoryLinkStorage,
+  memoryPinStorage,
+  reflectionStorage,
+  saveMemorySettings,
+  updateObservations,
+  workingMemoryStorage,
+  type CreateMemoryPinInput,
+  type LinkedMemorySource,
+  type MemoryResourceSummary,
+  type MemorySnapshot,
+  type MemoryThreadSummary,
+} from "./memory";
+
 // Agents
 export { buildAgentModel, createRoleAgent } from "./agent";
 export type { AgentModels, AgentProfile, RoleAgentOverrides } from "./agent";
 export { createCoderAgent } from "./agent/coder";
+export {
+  deleteCustomAgent,
+  getUserAgentsDir,
+  getWorkspaceAgentsDir,
+  loadCustomAgents,
+  saveCustomAgent,
+} from "./agent/custom";
+export type { CustomAgent, CustomAgentInput, LoadedCustomAgents } from "./agent/custom";
 export { createPlannerAgent } from "./agent/planner";
 export { listAgents } from "./agent/registry";
 
@@ -124,15 +168,26 @@ export { TRUNCATION_LIMITS } from "./tools/base/types";
 export type { ToolExecutionContext, TruncationResult } from "./tools/base/types";
 
 // Security
-export type { PermissionAction, PermissionRule, PermissionType } from "@sakti-code/shared";
+export type {
+  PermissionAction,
+  PermissionRule,
+  PermissionRuleLayer,
+  PermissionRuleScope,
+  PermissionRuleSet,
+  PermissionType,
+} from "@sakti-code/shared";
 export {
   PermissionDeniedError,
   PermissionManager,
   PermissionRejectedError,
   PermissionTimeoutError,
+  type PermissionPolicyStore,
+  type PermissionRuleProvider,
 } from "./security/permission-manager";
 export {
+  PERMISSION_LAYER_ORDER,
   createDefaultRules,
+  evaluateLayeredPatterns,
   evaluatePatterns,
   evaluatePermission,
   expandPath,
@@ -140,8 +195,15 @@ export {
   formatConfigRules,
   globToRegex,
   matchesGlob,
+  matchesPathGlob,
+  matchesRulePattern,
   parseConfigRules,
+  ruleApplies,
+  type GlobOptions,
+  type LayeredEvaluation,
+  type PatternDecision,
   type PermissionConfig,
+  type PermissionRuleConfig,
 } from "./security/permission-rules";
 
 // Workspace
@@ -230,10 +292,22 @@ export {
 } from "./spec/validators";
 
 // Session Management (new architecture)
+export {
+  COMPACTION_THRESHOLD,
+  compactSession,
+  countSessionTokens,
+  isCompactionCheckpoint,
+  shouldCompact,
+} from "./session/compaction";
+export type { CompactSessionInput, CompactSessionResult } from "./session/compaction";
 export { SessionController } from "./session/controller";
+export { forkSessionMemory } from "./session/fork";
+export type { ForkSessionMemoryInput, ForkSessionMemoryResult } from "./session/fork";
 export { SessionManager } from "./session/manager";
 export { QuestionManager, QuestionRejectedError } from "./session/question-manager";
 export { ShutdownHandler } from "./session/shutdown";
+export { SessionSnapshot } from "./session/snapshot";
+export type { FileImage, SnapshotRevert, TurnSnapshot } from "./session/snapshot";
 export { Checkpoint, SessionConfig, SessionPhase, SessionStatus } from "./session/types";
 
 // Plugin hook compatibility layer (OpenCode-style hook names)
@@ -271,7 +345,105 @@ export {
 } from "./skill";
 
 // LSP
-export { LSP, LSPServerRegistry } from "./lsp";
-export type { LSPDiagnostic, LSPRange, LSPServerInfo, LSPStatus } from "./lsp";
+export { LSP, LSPServerRegistry, assertWorkspaceTarget, collectWorkspaceDiagnostics } from "./lsp";
+export type {
+  DiagnosticSeverityName,
+  FileDiagnostics,
+  LSPDiagnostic,
+  LSPHover,
+  LSPLocation,
+  LSPRange,
+  LSPServerInfo,
+  LSPStatus,
+  LSPSymbol,
+  WorkspaceDiagnosticsResult,
+} from "./lsp";
+
+// MCP
+export {
+  MCP,
+  deleteMcpServer,
+  getMcpPermissionPattern,
+  getMcpToolName,
+  loadMcpConfig,
+  saveMcpServer,
+} from "./mcp";
+export type {
+  McpConnectionState,
+  McpResourceInfo,
+  McpServerConfig,
+  McpServerStatus,
+  McpStatusSummary,
+  McpToolPermission,
+} from "./mcp";
+
+// Project instruction files
+export {
+  INSTRUCTION_FILENAMES,
+  activateInstructions,
+  formatInstructions,
+  getActiveInstructions,
+  getUserInstructionsDir,
+  listInstructionFiles,
+} from "./instructions";
+export type { InstructionFile, InstructionFileInfo, InstructionScope } from "./instructions";
+
+// Custom slash commands
+export {
+  CustomCommand,
+  expandCommandTemplate,
+  getUserCommandsDir,
+  getWorkspaceCommandsDir,
+  loadCustomCommands,
+} from "./chat/commands-custom";
+export type { LoadedCustomCommands } from "./chat/commands-custom";
+
+// Integrated terminal
+export { TERMINAL_SCROLLBACK_LIMIT, Terminal, terminalOutputToText } from "./terminal";
+export type { CreateTerminalOptions, TerminalEvent, TerminalInfo } from "./terminal";
+
+// Background processes
+export { BackgroundProcesses, PROCESS_OUTPUT_LIMIT } from "./tools/shell/process-manager";
+
+// Command sandbox
+export type {
+  BackgroundProcessInfo,
+  BackgroundProcessStatus,
+  ProcessOutputChunk,
+  StartProcessOptions,
+} from "./tools/shell/process-manager";
+export { SandboxPolicy, detectSandboxBackend, loadSandboxPolicy } from "./tools/shell/sandbox";
+export type { SandboxBackend, SandboxReport } from "./tools/shell/sandbox";
+
+// Workspace hooks
+export {
+  HOOK_EVENTS,
+  HookCommand,
+  WorkspaceHooksConfig,
+  getWorkspaceHooksConfigPath,
+  isWorkspaceHooksTrusted,
+  loadWorkspaceHooks,
+  runHooks,
+  saveWorkspaceHooks,
+} from "./hooks";
+export type { HookEventName, HookExecution, HookOutcome, HookPayload } from "./hooks";
+
+// Plugins
+export {
+  PLUGIN_API_VERSION,
+  Plugins,
+  definePlugin,
+  getUserPluginsDir,
+  getWorkspacePluginsDir,
+} from "./plugin";
+export type {
+  PluginAgentDefinition,
+  PluginApi,
+  PluginCommandDefinition,
+  PluginDefinition,
+  PluginState,
+  PluginStatus,
+  PluginToolDefinition,
+} from "./plugin";
 
 export const saktiCodeVersion = "0.0.1";
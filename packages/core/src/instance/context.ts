@@ -7,6 +7,7 @@
  * parameter passing.
  */
 
+import type { PermissionRule } from "@sakti-code/shared";
 import { AsyncLocalStorage } from "node:async_hooks";
 
 /**
@@ -27,6 +28,8 @@ export interface InstanceContext {
   createdAt: number;
   /** Optional agent identifier */
   agent?: string;
+  /** Permission overrides of the running agent, evaluated before session rules */
+  agentPermissions?: PermissionRule[];
   /** Optional abort signal for cancellation */
   abort?: AbortSignal;
   /** Optional provider/model runtime selection for the current request */
@@ -38,6 +41,8 @@ export interface InstanceContext {
     apiKey?: string;
     providerCredentialEnvVar?: string;
     headers?: Record<string, string>;
+    /** Context window of the selected model, used to decide when to compact */
+    contextWindow?: number;
     hybridVisionEnabled?: boolean;
     hybridVisionProviderId?: string;
     hybridVisionModelId?: string;
@@ -0,0 +1,118 @@
+import {
+  activateInstructions,
+  formatInstructions,
+  getActiveInstructions,
+  getUserInstructionsDir,
+  listInstructionFiles,
+  MAX_INSTRUCTION_FILE_CHARS,
+  MAX_INSTRUCTIONS_CHARS,
+  type InstructionFile,
+} from "@/instructions";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("instructions", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "instructions-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+    await fs.rm(path.join(getUserInstructionsDir(), "AGENTS.md"), { force: true });
+  });
+
+  async function write(relativePath: string, content: string) {
+    const filePath = path.join(workspace, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, "utf-8");
+    return filePath;
+  }
+
+  it("loads user and workspace root instructions for every session", async () => {
+    await fs.mkdir(getUserInstructionsDir(), { recursive: true });
+    await fs.writeFile(path.join(getUserInstructionsDir(), "AGENTS.md"), "Be brief.", "utf-8");
+    const rootFile = await write("AGENTS.md", "Use pnpm.\n");
+
+    const files = await getActiveInstructions(workspace, "session-1");
+
+    expect(files.map(file => [file.scope, file.content])).toEqual([
+      ["user", "Be brief."],
+      ["workspace", "Use pnpm."],
+    ]);
+    expect(files[1]?.path).toBe(rootFile);
+  });
+
+  it("falls back to CLAUDE.md and prefers AGENTS.md", async () => {
+    await write("CLAUDE.md", "Claude file");
+    expect((await getActiveInstructions(workspace, "s"))[0]?.content).toBe("Claude file");
+
+    await write("AGENTS.md", "Agents file");
+    expect((await getActiveInstructions(workspace, "s"))[0]?.content).toBe("Agents file");
+  });
+
+  it("activates nested instructions when a path under them is touched", async () => {
+    await write("AGENTS.md", "Root");
+    const apiFile = await write("packages/api/AGENTS.md", "API rules");
+    await write("packages/web/AGENTS.md", "Web rules");
+
+    const added = await activateInstructions(workspace, "session-2", [
+      "packages/api/src/index.ts",
+      path.join(os.tmpdir(), "elsewhere", "file.ts"),
+    ]);
+    expect(added.map(file => file.path)).toEqual([apiFile]);
+    expect(added[0]).toMatchObject({
+      scope: "directory",
+      appliesTo: path.join(workspace, "packages/api"),
+    });
+
+    // Activation is per session and only reported once
+    await expect(
+      activateInstructions(workspace, "session-2", [path.join(workspace, "packages/api/a.ts")])
+    ).resolves.toEqual([]);
+    expect((await getActiveInstructions(workspace, "session-2")).map(f => f.content)).toEqual([
+      "Root",
+      "API rules",
+    ]);
+    expect((await getActiveInstructions(workspace, "session-3")).map(f => f.content)).toEqual([
+      "Root",
+    ]);
+
+    const listed = await listInstructionFiles(workspace, "session-2");
+    expect(listed.map(file => [path.relative(workspace, file.path), file.active])).toEqual([
+      ["AGENTS.md", true],
+      [path.join("packages", "api", "AGENTS.md"), true],
+      [path.join("packages", "web", "AGENTS.md"), false],
+    ]);
+  });
+
+  it("skips instruction files in dependency directories when listing", async () => {
+    await write("node_modules/pkg/AGENTS.md", "Not ours");
+
+    await expect(listInstructionFiles(workspace)).resolves.toEqual([]);
+  });
+
+  it("truncates large files and caps the combined size", async () => {
+    await write("AGENTS.md", "x".repeat(MAX_INSTRUCTION_FILE_CHARS + 10));
+
+    const [file] = await getActiveInstructions(workspace, "s");
+    expect(file).toMatchObject({ truncated: true, size: MAX_INSTRUCTION_FILE_CHARS + 10 });
+    expect(file?.content).toHaveLength(MAX_INSTRUCTION_FILE_CHARS);
+
+    const many: InstructionFile[] = Array.from({ length: 4 }, (_, i) => ({
+      path: `/repo/dir${i}/AGENTS.md`,
+      scope: "directory",
+      appliesTo: `/repo/dir${i}`,
+      content: "y".repeat(MAX_INSTRUCTIONS_CHARS / 3),
+      size: MAX_INSTRUCTIONS_CHARS / 3,
+      truncated: false,
+    }));
+    const text = formatInstructions(many);
+    expect(text).toContain("Instructions for files under /repo/dir0/");
+    expect(text).toContain("[Omitted to stay within the size limit: /repo/dir3/AGENTS.md]");
+    expect(formatInstructions([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Project instruction files
+ *
+ * AGENTS.md files (or CLAUDE.md, for repositories that already have one)
+ * carry project conventions the agent should follow. They are read from:
+ * - the user config directory, for every workspace
+ * - the workspace root, for every session in the workspace
+ * - nested directories of the workspace, once the agent touches a file
+ *   under that directory during a session
+ *
+ * Active files are combined into one system message, capped per file and
+ * in total so a large file cannot crowd out the conversation.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { resolveAppPaths } from "@sakti-code/shared/paths";
+import type { Dirent } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const logger = createLogger("sakti-code:instructions");
+
+/** File names checked in each directory; the first one found is used */
+export const INSTRUCTION_FILENAMES = ["AGENTS.md", "CLAUDE.md"];
+
+export const MAX_INSTRUCTION_FILE_CHARS = 12_000;
+export const MAX_INSTRUCTIONS_CHARS = 32_000;
+
+const MAX_SCAN_DEPTH = 6;
+const MAX_SCAN_DIRECTORIES = 2_000;
+const SKIPPED_DIRECTORIES = new Set([
+  "node_modules",
+  ".git",
+  "dist",
+  "build",
+  "out",
+  "coverage",
+  ".next",
+  ".turbo",
+]);
+
+export type InstructionScope = "user" | "workspace" | "directory";
+
+export interface InstructionFile {
+  path: string;
+  scope: InstructionScope;
+  /** Directory whose files the instructions apply to; unset for user instructions */
+  appliesTo?: string;
+  content: string;
+  /** Length of the file before truncation, in characters */
+  size: number;
+  truncated: boolean;
+}
+
+export interface InstructionFileInfo extends Omit<InstructionFile, "content"> {
+  /** Whether the file is part of the session's system prompt */
+  active: boolean;
+}
+
+/** Nested directories whose instructions a session has activated, by workspace and session */
+const activatedDirectories = new Map<string, Set<string>>();
+
+function sessionKey(directory: string, sessionID: string): string {
+  return `${path.resolve(directory)}\0${sessionID}`;
+}
+
+export function getUserInstructionsDir(): string {
+  return resolveAppPaths().config;
+}
+
+async function findInstructionFile(dir: string): Promise<string | undefined> {
+  for (const filename of INSTRUCTION_FILENAMES) {
+    const filePath = path.join(dir, filename);
+    try {
+      if ((await fs.stat(filePath)).isFile()) return filePath;
+    } catch {
+      // Not present; try the next name
+    }
+  }
+  return undefined;
+}
+
+async function readInstructionFile(
+  filePath: string,
+  scope: InstructionScope,
+  appliesTo?: string
+): Promise<InstructionFile | undefined> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    logger.warn("failed to read instruction file", {
+      path: filePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+
+  const text = raw.trim();
+  if (!text) return undefined;
+
+  const truncated = text.length > MAX_INSTRUCTION_FILE_CHARS;
+  return {
+    path: filePath,
+    scope,
+    ...(appliesTo ? { appliesTo } : {}),
+    content: truncated ? text.slice(0, MAX_INSTRUCTION_FILE_CHARS) : text,
+    size: text.length,
+    truncated,
+  };
+}
+
+async function readDirectoryInstructions(
+  root: string,
+  dir: string
+): Promise<InstructionFile | undefined> {
+  const filePath = await findInstructionFile(dir);
+  if (!filePath) return undefined;
+  return readInstructionFile(filePath, dir === root ? "workspace" : "directory", dir);
+}
+
+/**
+ * User and workspace root instructions, which apply to every session
+ */
+async function loadBaseInstructions(root: string): Promise<InstructionFile[]> {
+  const files: InstructionFile[] = [];
+
+  const userFile = await findInstructionFile(getUserInstructionsDir());
+  const user = userFile ? await readInstructionFile(userFile, "user") : undefined;
+  if (user) files.push(user);
+
+  const workspace = await readDirectoryInstructions(root, root);
+  if (workspace) files.push(workspace);
+
+  return files;
+}
+
+/**
+ * Directories between a path and the workspace root, outermost first,
+ * excluding the root itself
+ */
+function nestedDirectoriesFor(root: string, target: string): string[] {
+  const absolute = path.resolve(root, target);
+  const relative = path.relative(root, absolute);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) return [];
+
+  const segments = relative.split(path.sep);
+  const directories: string[] = [];
+  // The last segment may be a file; a directory path is covered by its own instructions too
+  for (let i = 1; i <= segments.length; i++) {
+    directories.push(path.join(root, ...segments.slice(0, i)));
+  }
+  return directories;
+}
+
+/**
+ * Activate the instructions of nested directories containing the given paths
+ *
+ * Called with the paths a tool call touched. Relative paths are resolved
+ * against the workspace; paths outside it are ignored.
+ *
+ * @returns Instruction files that were not active before
+ */
+export async function activateInstructions(
+  directory: string,
+  sessionID: string,
+  paths: Iterable<string>
+): Promise<InstructionFile[]> {
+  const root = path.resolve(directory);
+  const key = sessionKey(root, sessionID);
+  const activated = activatedDirectories.get(key) ?? new Set<string>();
+
+  const candidates = new Set<string>();
+  for (const target of paths) {
+    for (const dir of nestedDirectoriesFor(root, target)) {
+      if (!activated.has(dir)) candidates.add(dir);
+    }
+  }
+
+  const added: InstructionFile[] = [];
+  for (const dir of candidates) {
+    const file = await readDirectoryInstructions(root, dir);
+    if (!file) continue;
+    activated.add(dir);
+    added.push(file);
+  }
+
+  if (activated.size > 0) activatedDirectories.set(key, activated);
+  if (added.length > 0) {
+    logger.info("activated nested instructions", {
+      sessionID,
+      files: added.map(file => file.path),
+    });
+  }
+  return added;
+}
+
+/**
+ * Instruction files in effect for a session, outermost first
+ */
+export async function getActiveInstructions(
+  directory: string,
+  sessionID: string
+): Promise<InstructionFile[]> {
+  const root = path.resolve(directory);
+  const files = await loadBaseInstructions(root);
+
+  const nested = Array.from(activatedDirectories.get(sessionKey(root, sessionID)) ?? []).sort(
+    (a, b) => a.split(path.sep).length - b.split(path.sep).length || a.localeCompare(b)
+  );
+  for (const dir of nested) {
+    const file = await readDirectoryInstructions(root, dir);
+    if (file) files.push(file);
+  }
+  return files;
+}
+
+/**
+ * Find nested instruction files in a workspace, skipping dependency and
+ * build directories
+ */
+async function scanNestedInstructions(root: string): Promise<string[]> {
+  const found: string[] = [];
+  const queue: Array<{ dir: string; depth: number }> = [{ dir: root, depth: 0 }];
+  let visited = 0;
+
+  while (queue.length > 0 && visited < MAX_SCAN_DIRECTORIES) {
+    const { dir, depth } = queue.shift()!;
+    visited += 1;
+
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    if (dir !== root && entries.some(entry => INSTRUCTION_FILENAMES.includes(entry.name))) {
+      found.push(dir);
+    }
+    if (depth >= MAX_SCAN_DEPTH) continue;
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || SKIPPED_DIRECTORIES.has(entry.name)) continue;
+      queue.push({ dir: path.join(dir, entry.name), depth: depth + 1 });
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Every instruction file of a workspace, and whether it is active
+ *
+ * Without a session only the user and workspace root files are active.
+ */
+export async function listInstructionFiles(
+  directory: string,
+  sessionID?: string
+): Promise<InstructionFileInfo[]> {
+  const root = path.resolve(directory);
+  const activated = sessionID
+    ? (activatedDirectories.get(sessionKey(root, sessionID)) ?? new Set<string>())
+    : new Set<string>();
+
+  const files: InstructionFileInfo[] = (await loadBaseInstructions(root)).map(
+    ({ content: _content, ...file }) => ({ ...file, active: true })
+  );
+
+  for (const dir of await scanNestedInstructions(root)) {
+    const file = await readDirectoryInstructions(root, dir);
+    if (!file) continue;
+    const { content: _content, ...info } = file;
+    files.push({ ...info, active: activated.has(dir) });
+  }
+  return files;
+}
+
+function describeFile(file: InstructionFile): string {
+  switch (file.scope) {
+    case "user":
+      return `User instructions (${file.path})`;
+    case "workspace":
+      return `Project instructions (${file.path})`;
+    case "directory":
+      return `Instructions for files under ${file.appliesTo}/ (${file.path})`;
+  }
+}
+
+/**
+ * Combine instruction files into the text of a system message
+ *
+ * Files are added in order until MAX_INSTRUCTIONS_CHARS; later files that
+ * do not fit are listed as omitted.
+ *
+ * @returns undefined when there are no files
+ */
+export function formatInstructions(files: InstructionFile[]): string | undefined {
+  if (files.length === 0) return undefined;
+
+  const sections: string[] = [];
+  const omitted: string[] = [];
+  let used = 0;
+
+  for (const file of files) {
+    const body = file.truncated
+      ? `${file.content}\n\n[Truncated: the file has ${file.size} characters]`
+      : file.content;
+    if (used + body.length > MAX_INSTRUCTIONS_CHARS) {
+      omitted.push(file.path);
+      continue;
+    }
+    used += body.length;
+    sections.push(`## ${describeFile(file)}\n\n${body}`);
+  }
+
+  const lines = [
+    "# Instructions",
+    "",
+    "Follow these instructions from the user and the project. Instructions for a directory apply to files under it and take precedence over broader ones.",
+    "",
+    sections.join("\n\n"),
+  ];
+  if (omitted.length > 0) {
+    lines.push("", `[Omitted to stay within the size limit: ${omitted.join(", ")}]`);
+  }
+  return lines.join("\n");
+}
@@ -110,4 +110,92 @@ describe("LSPClient", () => {
     await vi.advanceTimersByTimeAsync(3_200);
     await expect(promise).resolves.toBeUndefined();
   });
+
+  async function createClient() {
+    return LSPClient.create({
+      serverId: "typescript",
+      root: "/repo",
+      handle: {
+        process: {
+          pid: 123,
+          stdout: {} as never,
+          stdin: {} as never,
+          kill: vi.fn(),
+        } as never,
+      },
+    });
+  }
+
+  it("definition normalizes Location and LocationLink results", async () => {
+    const client = await createClient();
+    mockSendRequest.mockImplementationOnce(async () => [
+      {
+        targetUri: "file:///repo/src/util.ts",
+        targetRange: { start: { line: 3, character: 0 }, end: { line: 8, character: 1 } },
+        targetSelectionRange: {
+          start: { line: 3, character: 16 },
+          end: { line: 3, character: 20 },
+        },
+      },
+    ]);
+
+    const locations = await client.definition("src/main.ts", { line: 0, character: 4 });
+
+    expect(mockSendRequest).toHaveBeenLastCalledWith("textDocument/definition", {
+      textDocument: { uri: "file:///repo/src/main.ts" },
+      position: { line: 0, character: 4 },
+    });
+    expect(locations).toEqual([
+      {
+        filePath: "/repo/src/util.ts",
+        range: { start: { line: 3, character: 16 }, end: { line: 3, character: 20 } },
+      },
+    ]);
+  });
+
+  it("hover flattens markup content and returns null when empty", async () => {
+    const client = await createClient();
+    mockSendRequest.mockImplementationOnce(async () => ({
+      contents: { kind: "markdown", value: "```ts\nconst x: number\n```" },
+    }));
+
+    await expect(client.hover("/repo/src/main.ts", { line: 0, character: 6 })).resolves.toEqual({
+      contents: "```ts\nconst x: number\n```",
+      range: undefined,
+    });
+
+    mockSendRequest.mockImplementationOnce(async () => null as never);
+    await expect(client.hover("/repo/src/main.ts", { line: 0, character: 0 })).resolves.toBeNull();
+  });
+
+  it("documentSymbols maps hierarchical symbols with kind names", async () => {
+    const client = await createClient();
+    const range = { start: { line: 0, character: 0 }, end: { line: 4, character: 1 } };
+    mockSendRequest.mockImplementationOnce(async () => [
+      {
+        name: "Greeter",
+        kind: 5,
+        range,
+        selectionRange: { start: { line: 0, character: 6 }, end: { line: 0, character: 13 } },
+        children: [
+          {
+            name: "greet",
+            kind: 6,
+            range,
+            selectionRange: { start: { line: 1, character: 2 }, end: { line: 1, character: 7 } },
+          },
+        ],
+      },
+    ]);
+
+    const symbols = await client.documentSymbols("/repo/src/greeter.ts");
+
+    expect(symbols).toHaveLength(1);
+    expect(symbols[0]).toMatchObject({ name: "Greeter", kind: "Class" });
+    expect(symbols[0]?.children?.[0]).toMatchObject({
+      name: "greet",
+      kind: "Method",
+      filePath: "/repo/src/greeter.ts",
+    });
+  });
 });
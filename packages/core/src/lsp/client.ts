@@ -9,13 +9,26 @@ import {
   StreamMessageWriter,
   type MessageConnection,
 } from "vscode-jsonrpc/node";
-import type { Diagnostic as VSCodeDiagnostic } from "vscode-languageserver-types";
+import {
+  SymbolKind,
+  type DocumentSymbol,
+  type Hover,
+  type Location,
+  type LocationLink,
+  type MarkedString,
+  type MarkupContent,
+  type Range,
+  type SymbolInformation,
+  type Diagnostic as VSCodeDiagnostic,
+  type WorkspaceSymbol,
+} from "vscode-languageserver-types";
 import { LANGUAGE_EXTENSIONS } from "./language";
-import type { LSPDiagnostic } from "./types";
+import type { LSPDiagnostic, LSPHover, LSPLocation, LSPRange, LSPSymbol } from "./types";
 
 const DIAGNOSTICS_DEBOUNCE_MS = 150;
 const INITIALIZE_TIMEOUT_MS = 45_000;
 const DIAGNOSTICS_WAIT_MS = 3_000;
+const REQUEST_TIMEOUT_MS = 15_000;
 
 const logger = createLogger("sakti-code:lsp:client");
 
@@ -31,9 +44,30 @@ export interface LSPClientInstance {
   diagnostics: Map<string, LSPDiagnostic[]>;
   notifyOpen(filePath: string): Promise<void>;
   waitForDiagnostics(filePath: string): Promise<void>;
+  definition(filePath: string, position: LSPPosition): Promise<LSPLocation[]>;
+  references(
+    filePath: string,
+    position: LSPPosition,
+    includeDeclaration?: boolean
+  ): Promise<LSPLocation[]>;
+  hover(filePath: string, position: LSPPosition): Promise<LSPHover | null>;
+  documentSymbols(filePath: string): Promise<LSPSymbol[]>;
+  workspaceSymbols(query: string): Promise<LSPSymbol[]>;
   shutdown(): Promise<void>;
 }
 
+/** Zero-based line/character position, as used on the wire */
+export interface LSPPosition {
+  line: number;
+  character: number;
+}
+
+const SYMBOL_KIND_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(SymbolKind)
+    .filter(([, value]) => typeof value === "number")
+    .map(([name, value]) => [value as number, name])
+);
+
 function vscodeDiagnosticToLSP(diagnostic: VSCodeDiagnostic): LSPDiagnostic {
   return {
     severity: diagnostic.severity as 1 | 2 | 3 | 4,
@@ -52,6 +86,68 @@ function vscodeDiagnosticToLSP(diagnostic: VSCodeDiagnostic): LSPDiagnostic {
   };
 }
 
+function toRange(range: Range): LSPRange {
+  return {
+    start: { line: range.start.line, character: range.start.character },
+    end: { line: range.end.line, character: range.end.character },
+  };
+}
+
+function toLocations(result: Location | Location[] | LocationLink[] | null): LSPLocation[] {
+  if (!result) return [];
+  const items = Array.isArray(result) ? result : [result];
+  return items.map(item =>
+    "targetUri" in item
+      ? {
+          filePath: fileURLToPath(item.targetUri),
+          range: toRange(item.targetSelectionRange ?? item.targetRange),
+        }
+      : { filePath: fileURLToPath(item.uri), range: toRange(item.range) }
+  );
+}
+
+function markedStringToText(value: MarkedString): string {
+  if (typeof value === "string") return value;
+  return `\`\`\`${value.language}\n${value.value}\n\`\`\``;
+}
+
+function toHover(result: Hover | null): LSPHover | null {
+  if (!result) return null;
+  const contents = result.contents as MarkupContent | MarkedString | MarkedString[];
+  const text = Array.isArray(contents)
+    ? contents.map(markedStringToText).join("\n\n")
+    : typeof contents === "object" && "kind" in contents
+      ? contents.value
+      : markedStringToText(contents);
+  if (!text.trim()) return null;
+  return { contents: text, range: result.range ? toRange(result.range) : undefined };
+}
+
+function fromDocumentSymbol(symbol: DocumentSymbol, filePath: string): LSPSymbol {
+  return {
+    name: symbol.name,
+    kind: SYMBOL_KIND_NAMES[symbol.kind] ?? "Unknown",
+    detail: symbol.detail,
+    filePath,
+    range: toRange(symbol.selectionRange),
+    children: symbol.children?.map(child => fromDocumentSymbol(child, filePath)),
+  };
+}
+
+function fromSymbolInformation(symbol: SymbolInformation | WorkspaceSymbol): LSPSymbol {
+  const location = symbol.location;
+  return {
+    name: symbol.name,
+    kind: SYMBOL_KIND_NAMES[symbol.kind] ?? "Unknown",
+    containerName: symbol.containerName,
+    filePath: fileURLToPath(location.uri),
+    range:
+      "range" in location
+        ? toRange(location.range)
+        : { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+  };
+}
+
 export const LSPClient = {
   async create(input: {
     serverId: string;
@@ -126,6 +222,7 @@ export const LSPClient = {
             },
             workspace: {
               configuration: true,
+              symbol: {},
               didChangeWatchedFiles: {
                 dynamicRegistration: true,
               },
@@ -138,6 +235,16 @@ export const LSPClient = {
               publishDiagnostics: {
                 versionSupport: true,
               },
+              definition: {
+                linkSupport: true,
+              },
+              references: {},
+              hover: {
+                contentFormat: ["markdown", "plaintext"],
+              },
+              documentSymbol: {
+                hierarchicalDocumentSymbolSupport: true,
+              },
             },
           },
         })
@@ -161,6 +268,30 @@ export const LSPClient = {
 
     logger.info("initialized");
 
+    async function request<T>(method: string, params: unknown): Promise<T> {
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      try {
+        return await Promise.race([
+          connection.sendRequest<T>(method, params),
+          new Promise<never>((_, reject) => {
+            timeout = setTimeout(
+              () => reject(new Error(`LSP request timed out: ${method}`)),
+              REQUEST_TIMEOUT_MS
+            );
+          }),
+        ]);
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    function textDocumentPosition(filePath: string, position: LSPPosition) {
+      return {
+        textDocument: { uri: pathToFileURL(path.resolve(input.root, filePath)).href },
+        position,
+      };
+    }
+
     return {
       get serverId() {
         return input.serverId;
@@ -273,6 +404,46 @@ export const LSPClient = {
           }
         });
       },
+      async definition(filePath: string, position: LSPPosition) {
+        const result = await request<Location | Location[] | LocationLink[] | null>(
+          "textDocument/definition",
+          textDocumentPosition(filePath, position)
+        );
+        return toLocations(result);
+      },
+      async references(filePath: string, position: LSPPosition, includeDeclaration = true) {
+        const result = await request<Location[] | null>("textDocument/references", {
+          ...textDocumentPosition(filePath, position),
+          context: { includeDeclaration },
+        });
+        return toLocations(result);
+      },
+      async hover(filePath: string, position: LSPPosition) {
+        const result = await request<Hover | null>(
+          "textDocument/hover",
+          textDocumentPosition(filePath, position)
+        );
+        return toHover(result);
+      },
+      async documentSymbols(filePath: string) {
+        const absolutePath = path.resolve(input.root, filePath);
+        const result = await request<Array<DocumentSymbol | SymbolInformation> | null>(
+          "textDocument/documentSymbol",
+          { textDocument: { uri: pathToFileURL(absolutePath).href } }
+        );
+        return (result ?? []).map(symbol =>
+          "location" in symbol
+            ? fromSymbolInformation(symbol)
+            : fromDocumentSymbol(symbol, absolutePath)
+        );
+      },
+      async workspaceSymbols(query: string) {
+        const result = await request<Array<SymbolInformation | WorkspaceSymbol> | null>(
+          "workspace/symbol",
+          { query }
+        );
+        return (result ?? []).map(fromSymbolInformation);
+      },
       async shutdown() {
         logger.info("shutting down");
         try {
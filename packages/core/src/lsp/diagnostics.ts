@@ -0,0 +1,183 @@
+/**
+ * Workspace diagnostics collection
+ *
+ * Gathers diagnostics for a single file, a glob or everything the active
+ * language servers have reported for a workspace, shared by the diagnostics
+ * tool and the server's Problems panel route.
+ */
+
+import { glob } from "glob";
+import path from "node:path";
+import { resolveSafePath } from "../tools/base/safety";
+import { LSP } from "./index";
+import type { LSPDiagnostic } from "./types";
+
+/** Upper bound on files opened in language servers for one glob request */
+export const MAX_DIAGNOSTIC_FILES = 50;
+
+export type DiagnosticSeverityName = "error" | "warning" | "info" | "hint";
+
+const SEVERITY_NAMES: Record<LSPDiagnostic["severity"], DiagnosticSeverityName> = {
+  1: "error",
+  2: "warning",
+  3: "info",
+  4: "hint",
+};
+
+const SEVERITY_LEVELS: Record<DiagnosticSeverityName, LSPDiagnostic["severity"]> = {
+  error: 1,
+  warning: 2,
+  info: 3,
+  hint: 4,
+};
+
+export interface WorkspaceDiagnosticsOptions {
+  directory: string;
+  /** File path or glob relative to the directory; omit for all known diagnostics */
+  target?: string;
+  /** Least severe level to include (default: "warning") */
+  minSeverity?: DiagnosticSeverityName;
+}
+
+export interface FileDiagnostics {
+  filePath: string;
+  diagnostics: Array<LSPDiagnostic & { severityName: DiagnosticSeverityName }>;
+}
+
+export interface WorkspaceDiagnosticsResult {
+  files: FileDiagnostics[];
+  summary: Record<DiagnosticSeverityName, number>;
+  /** Files matched by the target but skipped because of MAX_DIAGNOSTIC_FILES */
+  skippedFiles: number;
+}
+
+export function severityName(severity: LSPDiagnostic["severity"]): DiagnosticSeverityName {
+  return SEVERITY_NAMES[severity] ?? "error";
+}
+
+function isInside(filePath: string, directory: string): boolean {
+  return filePath === directory || filePath.startsWith(`${directory}${path.sep}`);
+}
+
+export function isGlobTarget(target: string): boolean {
+  return /[*?[\]{}]/.test(target);
+}
+
+/**
+ * Reject targets that reach outside the workspace
+ *
+ * Targets must be workspace-relative: absolute paths, `..` segments and
+ * files that resolve outside the directory through symlinks are refused.
+ * Use this where no permission prompt guards the target.
+ *
+ * @throws {Error} When the target is absolute or escapes the workspace
+ */
+export async function assertWorkspaceTarget(directory: string, target: string): Promise<void> {
+  if (path.isAbsolute(target) || target.split(/[\\/]/).includes("..")) {
+    throw new Error(`Path must be relative to the workspace root: ${target}`);
+  }
+  if (!isGlobTarget(target) && (await resolveSafePath(target, directory)).isExternal) {
+    throw new Error(`Path resolves outside the workspace: ${target}`);
+  }
+}
+
+/**
+ * Drop repeats of the same diagnostic from the same source, which happens
+ * when overlapping clients publish for one file
+ */
+function dedupe(diagnostics: LSPDiagnostic[]): LSPDiagnostic[] {
+  const seen = new Set<string>();
+  return diagnostics.filter(diagnostic => {
+    const { start, end } = diagnostic.range;
+    const key = [
+      diagnostic.source ?? "",
+      diagnostic.severity,
+      start.line,
+      start.character,
+      end.line,
+      end.character,
+      diagnostic.message,
+    ].join("|");
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+async function resolveTargetFiles(
+  directory: string,
+  target: string
+): Promise<{ files: string[]; skipped: number }> {
+  if (!isGlobTarget(target)) {
+    return { files: [path.resolve(directory, target)], skipped: 0 };
+  }
+
+  let matches = await glob(target, {
+    cwd: directory,
+    absolute: true,
+    nodir: true,
+    ignore: ["**/node_modules/**", "**/.git/**", "**/dist/**"],
+  });
+  // Symlinked files may point anywhere; a glob only covers the workspace
+  const inside: string[] = [];
+  for (const match of matches) {
+    if (!(await resolveSafePath(match, directory)).isExternal) inside.push(match);
+  }
+  matches = inside;
+  matches.sort();
+  return {
+    files: matches.slice(0, MAX_DIAGNOSTIC_FILES),
+    skipped: Math.max(0, matches.length - MAX_DIAGNOSTIC_FILES),
+  };
+}
+
+export async function collectWorkspaceDiagnostics(
+  options: WorkspaceDiagnosticsOptions
+): Promise<WorkspaceDiagnosticsResult> {
+  const directory = path.resolve(options.directory);
+  const minLevel = SEVERITY_LEVELS[options.minSeverity ?? "warning"];
+
+  let targetFiles: Set<string> | undefined;
+  let skippedFiles = 0;
+
+  if (options.target) {
+    const resolved = await resolveTargetFiles(directory, options.target);
+    skippedFiles = resolved.skipped;
+    targetFiles = new Set(resolved.files);
+    for (const filePath of resolved.files) {
+      await LSP.touchFile(filePath, true);
+    }
+  }
+
+  const summary: WorkspaceDiagnosticsResult["summary"] = {
+    error: 0,
+    warning: 0,
+    info: 0,
+    hint: 0,
+  };
+  const files: FileDiagnostics[] = [];
+
+  const all = LSP.getDiagnostics();
+  for (const filePath of Object.keys(all).sort()) {
+    if (targetFiles ? !targetFiles.has(filePath) : !isInside(filePath, directory)) continue;
+
+    const diagnostics = dedupe(all[filePath] ?? [])
+      .filter(diagnostic => diagnostic.severity <= minLevel)
+      .sort(
+        (a, b) =>
+          a.severity - b.severity ||
+          a.range.start.line - b.range.start.line ||
+          a.range.start.character - b.range.start.character
+      )
+      .map(diagnostic => ({ ...diagnostic, severityName: severityName(diagnostic.severity) }));
+
+    if (diagnostics.length === 0) continue;
+
+    for (const diagnostic of diagnostics) {
+      summary[diagnostic.severityName] += 1;
+    }
+    files.push({ filePath, diagnostics });
+  }
+
+  return { files, summary, skippedFiles };
+}
@@ -1,13 +1,14 @@
 export * from "./client";
+export * from "./diagnostics";
 export * from "./language";
 export * from "./server";
 export * from "./types";
 
 import { createLogger } from "@sakti-code/shared/logger";
 import path from "node:path";
-import { LSPClient, type LSPClientInstance } from "./client";
+import { LSPClient, type LSPClientInstance, type LSPPosition } from "./client";
 import { LSPServerRegistry, type LSPServerDefinition } from "./server";
-import type { LSPDiagnostic } from "./types";
+import type { LSPDiagnostic, LSPHover, LSPLocation, LSPSymbol } from "./types";
 
 const logger = createLogger("sakti-code:lsp");
 
@@ -39,16 +40,30 @@ export const LSP = {
   async touchFile(filePath: string, waitForDiagnostics?: boolean): Promise<void> {
     logger.info("touchFile", { filePath, waitForDiagnostics });
 
+    const client = await LSP.getClient(filePath);
+    if (!client) return;
+
+    await client.notifyOpen(filePath);
+
+    if (waitForDiagnostics) {
+      await client.waitForDiagnostics(filePath);
+    }
+  },
+
+  /**
+   * Get the client responsible for a file, spawning its server if needed
+   */
+  async getClient(filePath: string): Promise<LSPClientInstance | undefined> {
     const server = await LSPServerRegistry.detectServer(filePath);
     if (!server) {
       logger.info("no LSP server for file", { filePath });
-      return;
+      return undefined;
     }
 
     const rootPath = await findProjectRoot(filePath);
     if (!rootPath) {
       logger.warn("no project root found", { filePath });
-      return;
+      return undefined;
     }
 
     const clientKey = getClientKey(rootPath, server.id);
@@ -72,14 +87,90 @@ export const LSP = {
 
     if (!client) {
       logger.warn("failed to get or create LSP client", { filePath, serverId: server.id });
-      return;
     }
 
+    return client;
+  },
+
+  /**
+   * Open a file in its language server so positional queries see current content
+   */
+  async openFile(filePath: string): Promise<LSPClientInstance | undefined> {
+    const client = await LSP.getClient(filePath);
+    if (!client) return undefined;
     await client.notifyOpen(filePath);
+    return client;
+  },
 
-    if (waitForDiagnostics) {
-      await client.waitForDiagnostics(filePath);
+  async definition(filePath: string, position: LSPPosition): Promise<LSPLocation[] | undefined> {
+    const client = await LSP.openFile(filePath);
+    return client?.definition(filePath, position);
+  },
+
+  async references(
+    filePath: string,
+    position: LSPPosition,
+    includeDeclaration = true
+  ): Promise<LSPLocation[] | undefined> {
+    const client = await LSP.openFile(filePath);
+    return client?.references(filePath, position, includeDeclaration);
+  },
+
+  /**
+   * Resolves to undefined when no server handles the file, null when the
+   * server has no hover information at that position
+   */
+  async hover(filePath: string, position: LSPPosition): Promise<LSPHover | null | undefined> {
+    const client = await LSP.openFile(filePath);
+    return client?.hover(filePath, position);
+  },
+
+  async documentSymbols(filePath: string): Promise<LSPSymbol[] | undefined> {
+    const client = await LSP.openFile(filePath);
+    return client?.documentSymbols(filePath);
+  },
+
+  /**
+   * Search symbols across every active client rooted inside a directory
+   *
+   * Servers are only consulted once they have been started, so a file hint
+   * can be passed to spawn the right server first.
+   */
+  async workspaceSymbols(
+    query: string,
+    directory: string,
+    hintFilePath?: string
+  ): Promise<{ symbols: LSPSymbol[]; serverCount: number }> {
+    if (hintFilePath) {
+      await LSP.openFile(hintFilePath);
     }
+
+    const normalizedDirectory = path.resolve(directory);
+    const clients = Array.from(activeClients.values()).filter(activeClient => {
+      const rootPath = path.resolve(activeClient.rootPath);
+      return (
+        rootPath === normalizedDirectory ||
+        rootPath.startsWith(`${normalizedDirectory}${path.sep}`) ||
+        normalizedDirectory.startsWith(`${rootPath}${path.sep}`)
+      );
+    });
+
+    const results = await Promise.allSettled(
+      clients.map(activeClient => activeClient.client.workspaceSymbols(query))
+    );
+
+    const symbols: LSPSymbol[] = [];
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        symbols.push(...result.value);
+      } else {
+        logger.warn("workspace/symbol request failed", {
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+      }
+    }
+
+    return { symbols, serverCount: clients.length };
   },
 
   async spawnClient(
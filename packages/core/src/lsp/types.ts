@@ -16,3 +16,23 @@ export interface LSPServerInfo {
   extensions: string[];
   rootPatterns: string[];
 }
+
+export interface LSPLocation {
+  filePath: string;
+  range: LSPRange;
+}
+
+export interface LSPHover {
+  contents: string;
+  range?: LSPRange;
+}
+
+export interface LSPSymbol {
+  name: string;
+  kind: string;
+  detail?: string;
+  containerName?: string;
+  filePath: string;
+  range: LSPRange;
+  children?: LSPSymbol[];
+}
@@ -0,0 +1,154 @@
+import {
+  deleteMcpServer,
+  getUserMcpConfigPath,
+  getWorkspaceMcpConfigPath,
+  loadMcpConfig,
+  saveMcpServer,
+} from "@/mcp/config";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("mcp/config", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-config-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+    await fs.rm(getUserMcpConfigPath(), { force: true });
+  });
+
+  async function writeWorkspaceConfig(content: unknown) {
+    const configPath = getWorkspaceMcpConfigPath(workspace);
+    await fs.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.writeFile(
+      configPath,
+      typeof content === "string" ? content : JSON.stringify(content),
+      "utf-8"
+    );
+  }
+
+  it("returns no servers when no config exists", async () => {
+    const config = await loadMcpConfig(workspace);
+    expect(config.servers).toEqual({});
+    expect(config.errors).toEqual([]);
+  });
+
+  it("infers transport type for shorthand entries", async () => {
+    await writeWorkspaceConfig({
+      mcpServers: {
+        local: { command: "node", args: ["server.mjs"] },
+        remote: { url: "http://127.0.0.1:9000/mcp", headers: { Authorization: "Bearer x" } },
+      },
+    });
+
+    const config = await loadMcpConfig(workspace);
+
+    expect(config.servers.local).toEqual({ type: "stdio", command: "node", args: ["server.mjs"] });
+    expect(config.servers.remote).toMatchObject({
+      type: "http",
+      url: "http://127.0.0.1:9000/mcp",
+    });
+    expect(config.sources).toEqual([
+      { scope: "workspace", path: getWorkspaceMcpConfigPath(workspace) },
+    ]);
+  });
+
+  it("lets workspace entries override user entries", async () => {
+    await fs.mkdir(path.dirname(getUserMcpConfigPath()), { recursive: true });
+    await fs.writeFile(
+      getUserMcpConfigPath(),
+      JSON.stringify({
+        mcpServers: {
+          shared: { command: "user-cmd" },
+          userOnly: { command: "user-only" },
+        },
+      })
+    );
+    await writeWorkspaceConfig({ mcpServers: { shared: { command: "workspace-cmd" } } });
+
+    const config = await loadMcpConfig(workspace);
+
+    expect(config.servers.shared).toMatchObject({ command: "workspace-cmd" });
+    expect(config.servers.userOnly).toMatchObject({ command: "user-only" });
+    expect(config.scopes).toEqual({ shared: "workspace", userOnly: "user" });
+  });
+
+  it("skips invalid entries and reports them", async () => {
+    await writeWorkspaceConfig({
+      mcpServers: {
+        good: { command: "node" },
+        bad: { args: ["missing-command"] },
+      },
+    });
+
+    const config = await loadMcpConfig(workspace);
+
+    expect(Object.keys(config.servers)).toEqual(["good"]);
+    expect(config.errors).toHaveLength(1);
+    expect(config.errors[0]?.server).toBe("bad");
+  });
+
+  it("reports unparsable files", async () => {
+    await writeWorkspaceConfig("{ not json");
+
+    const config = await loadMcpConfig(workspace);
+
+    expect(config.servers).toEqual({});
+    expect(config.errors).toHaveLength(1);
+  });
+
+  it("strips comments but not comment markers inside strings", async () => {
+    await writeWorkspaceConfig(
+      [
+        "{",
+        "  // servers",
+        '  "mcpServers": {',
+        "    /* local */",
+        '    "files": { "command": "node", "args": ["--glob", "src/**/*.ts", "http://x/*y*/"] } // end',
+        "  }",
+        "}",
+      ].join("\n")
+    );
+
+    const config = await loadMcpConfig(workspace);
+
+    expect(config.errors).toEqual([]);
+    expect(config.servers.files).toMatchObject({
+      args: ["--glob", "src/**/*.ts", "http://x/*y*/"],
+    });
+  });
+
+  it("saves and deletes servers, keeping other keys", async () => {
+    await writeWorkspaceConfig({ note: "kept", mcpServers: { old: { command: "node" } } });
+
+    const saved = await saveMcpServer(workspace, "workspace", "docs", {
+      url: "http://127.0.0.1:8080/mcp",
+      permissions: { search: "allow" },
+    });
+    expect(saved).toEqual({
+      type: "http",
+      url: "http://127.0.0.1:8080/mcp",
+      permissions: { search: "allow" },
+    });
+
+    await expect(deleteMcpServer(workspace, "workspace", "old")).resolves.toBe(true);
+    await expect(deleteMcpServer(workspace, "workspace", "old")).resolves.toBe(false);
+
+    const raw = JSON.parse(await fs.readFile(getWorkspaceMcpConfigPath(workspace), "utf-8"));
+    expect(raw).toEqual({ note: "kept", mcpServers: { docs: saved } });
+  });
+
+  it("rejects invalid server definitions", async () => {
+    await expect(
+      saveMcpServer(workspace, "workspace", "bad", { command: "node", permissions: { x: "maybe" } })
+    ).rejects.toThrow();
+    await expect(saveMcpServer(workspace, "workspace", " ", { command: "node" })).rejects.toThrow(
+      "Server name is required"
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import { Instance } from "@/instance";
+import { MCP, getMcpToolName, getWorkspaceMcpConfigPath, saveMcpServer } from "@/mcp";
+import { PermissionDeniedError } from "@/security/permission-manager";
+import { createTools } from "@/tools/registry";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+const echoServerPath = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../../../tests/fixtures/mcp/echo-server.mjs"
+);
+
+type ExecutableTool = {
+  execute: (args: Record<string, unknown>, options: Record<string, unknown>) => Promise<unknown>;
+};
+
+const ECHO_SERVER = {
+  command: process.execPath,
+  args: [echoServerPath],
+  permissions: { "*": "allow" },
+};
+
+describe("MCP manager", () => {
+  let workspace: string;
+
+  async function writeConfig(mcpServers: Record<string, unknown>) {
+    for (const [name, server] of Object.entries(mcpServers)) {
+      await saveMcpServer(workspace, "workspace", name, server);
+    }
+  }
+
+  async function writeUntrustedConfig(mcpServers: Record<string, unknown>) {
+    const configPath = getWorkspaceMcpConfigPath(workspace);
+    await fs.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.writeFile(configPath, JSON.stringify({ mcpServers }), "utf-8");
+  }
+
+  function callTool(tool: ExecutableTool, args: Record<string, unknown> = {}) {
+    return Instance.provide({
+      directory: workspace,
+      sessionID: "session-mcp",
+      fn: () => tool.execute(args, { toolCallId: "1", messages: [] }),
+    });
+  }
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-manager-"));
+  });
+
+  afterEach(async () => {
+    await MCP.shutdown();
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it("reports nothing for workspaces without config", async () => {
+    await MCP.ensureWorkspace(workspace);
+
+    expect(MCP.getStatus(workspace)).toEqual([]);
+    expect(MCP.getTools(workspace)).toEqual({});
+  });
+
+  it("connects a stdio server and exposes its tools", async () => {
+    await writeConfig({ echo: ECHO_SERVER });
+
+    await MCP.ensureWorkspace(workspace);
+
+    const [status] = MCP.getStatus(workspace);
+    expect(status).toMatchObject({
+      name: "echo",
+      type: "stdio",
+      scope: "workspace",
+      state: "connected",
+    });
+    expect(status?.tools.map(t => [t.name, t.permission])).toEqual([
+      ["echo", "allow"],
+      ["fail", "allow"],
+      ["crash", "allow"],
+    ]);
+    expect(status?.resources).toEqual([
+      { uri: "echo://readme", name: "readme", mimeType: "text/plain" },
+    ]);
+
+    const tools = MCP.getTools(workspace);
+    const echoTool = tools[getMcpToolName("echo", "echo")] as ExecutableTool;
+    const result = await callTool(echoTool, { text: "hello" });
+
+    expect(result).toMatchObject({ output: "echo: hello", metadata: { server: "echo" } });
+  }, 20_000);
+
+  it("throws when an MCP tool reports an error", async () => {
+    await writeConfig({ echo: ECHO_SERVER });
+    await MCP.ensureWorkspace(workspace);
+
+    const failTool = MCP.getTools(workspace)[getMcpToolName("echo", "fail")] as ExecutableTool;
+
+    await expect(callTool(failTool)).rejects.toThrow("something went wrong");
+  }, 20_000);
+
+  it("checks the mcp permission with per-tool defaults", async () => {
+    await writeConfig({
+      echo: { ...ECHO_SERVER, permissions: { "*": "allow", fail: "deny" } },
+    });
+    await MCP.ensureWorkspace(workspace);
+
+    const tools = MCP.getTools(workspace);
+    const failTool = tools[getMcpToolName("echo", "fail")] as ExecutableTool;
+    const echoTool = tools[getMcpToolName("echo", "echo")] as ExecutableTool;
+
+    await expect(callTool(failTool)).rejects.toThrow(PermissionDeniedError);
+    await expect(callTool(echoTool, { text: "hi" })).resolves.toMatchObject({
+      output: "echo: hi",
+    });
+    expect(MCP.getPermissionRules(workspace)).toEqual([
+      { permission: "mcp", pattern: "echo/*", action: "allow" },
+      { permission: "mcp", pattern: "echo/fail", action: "deny" },
+    ]);
+  }, 20_000);
+
+  it("does not start workspace servers until they are trusted", async () => {
+    await writeUntrustedConfig({ echo: ECHO_SERVER });
+
+    await MCP.ensureWorkspace(workspace);
+
+    expect(MCP.getStatus(workspace)).toEqual([
+      expect.objectContaining({ name: "echo", trusted: false, state: "offline" }),
+    ]);
+    expect(MCP.getTools(workspace)).toEqual({});
+
+    await saveMcpServer(workspace, "workspace", "echo", ECHO_SERVER);
+    await MCP.reload(workspace);
+
+    expect(MCP.getStatus(workspace)).toEqual([
+      expect.objectContaining({ name: "echo", trusted: true, state: "connected" }),
+    ]);
+  });
+
+  it("marks servers that fail to start as offline", async () => {
+    await writeConfig({
+      broken: { command: process.execPath, args: ["-e", "process.exit(1)"] },
+      disabled: { command: process.execPath, args: [echoServerPath], enabled: false },
+    });
+
+    await MCP.ensureWorkspace(workspace);
+
+    const statuses = MCP.getStatus(workspace);
+    expect(statuses.map(s => [s.name, s.state])).toEqual([
+      ["broken", "offline"],
+      ["disabled", "offline"],
+    ]);
+    expect(MCP.summarize(statuses)).toEqual({ total: 2, connected: 0, degraded: 0, offline: 2 });
+  }, 20_000);
+
+  it("reconnects after the server process exits", async () => {
+    await writeConfig({ echo: ECHO_SERVER });
+    await MCP.ensureWorkspace(workspace);
+
+    const crashTool = MCP.getTools(workspace)[getMcpToolName("echo", "crash")] as ExecutableTool;
+    await callTool(crashTool);
+
+    await expect.poll(() => MCP.getStatus(workspace)[0]?.state).toBe("degraded");
+    await expect
+      .poll(() => MCP.getStatus(workspace)[0]?.state, { timeout: 10_000 })
+      .toBe("connected");
+  }, 20_000);
+
+  it("merges MCP tools into createTools inside an instance context", async () => {
+    await writeConfig({ echo: ECHO_SERVER });
+    await MCP.ensureWorkspace(workspace);
+
+    const tools = await Instance.provide({
+      directory: workspace,
+      fn: async () => createTools(["read"]),
+    });
+
+    expect(Object.keys(tools)).toEqual([
+      "read",
+      getMcpToolName("echo", "echo"),
+      getMcpToolName("echo", "fail"),
+      getMcpToolName("echo", "crash"),
+    ]);
+  }, 20_000);
+});
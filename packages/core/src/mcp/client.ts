@@ -0,0 +1,207 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { createLogger } from "@sakti-code/shared/logger";
+import path from "node:path";
+import type { McpResourceInfo, McpServerConfig, McpToolInfo } from "./types";
+
+const CONNECT_TIMEOUT_MS = 30_000;
+const STDERR_TAIL_LINES = 20;
+
+const logger = createLogger("sakti-code:mcp:client");
+
+export interface McpCallResult {
+  output: string;
+  isError: boolean;
+}
+
+export interface McpClientInstance {
+  name: string;
+  tools: McpToolInfo[];
+  resources: McpResourceInfo[];
+  /** Last lines written to stderr by a stdio server, for error reporting */
+  stderrTail(): string;
+  listTools(): Promise<McpToolInfo[]>;
+  listResources(): Promise<McpResourceInfo[]>;
+  callTool(
+    toolName: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<McpCallResult>;
+  onClose(listener: () => void): void;
+  close(): Promise<void>;
+}
+
+function createTransport(config: McpServerConfig, root: string, stderrLines: string[]): Transport {
+  if (config.type === "http") {
+    return new StreamableHTTPClientTransport(new URL(config.url), {
+      requestInit: config.headers ? { headers: config.headers } : undefined,
+    });
+  }
+
+  const transport = new StdioClientTransport({
+    command: config.command,
+    args: config.args ?? [],
+    env: {
+      ...(process.env as Record<string, string>),
+      ...config.env,
+    },
+    cwd: config.cwd ? path.resolve(root, config.cwd) : root,
+    stderr: "pipe",
+  });
+
+  transport.stderr?.on("data", (chunk: Buffer) => {
+    for (const line of chunk.toString("utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      stderrLines.push(line);
+      if (stderrLines.length > STDERR_TAIL_LINES) stderrLines.shift();
+    }
+  });
+
+  return transport;
+}
+
+/**
+ * Flatten MCP tool result content into the text the agent sees
+ */
+function formatContent(content: unknown): string {
+  if (!Array.isArray(content)) return "";
+
+  return content
+    .map(item => {
+      const part = item as Record<string, unknown>;
+      switch (part.type) {
+        case "text":
+          return String(part.text ?? "");
+        case "image":
+        case "audio":
+          return `[${part.type}: ${String(part.mimeType ?? "unknown")}]`;
+        case "resource": {
+          const resource = (part.resource ?? {}) as Record<string, unknown>;
+          return typeof resource.text === "string"
+            ? resource.text
+            : `[resource: ${String(resource.uri ?? "")}]`;
+        }
+        case "resource_link":
+          return `[resource: ${String(part.uri ?? "")}]`;
+        default:
+          return JSON.stringify(part);
+      }
+    })
+    .join("\n");
+}
+
+export const McpClient = {
+  async create(input: {
+    name: string;
+    config: McpServerConfig;
+    root: string;
+  }): Promise<McpClientInstance> {
+    logger.info("connecting MCP server", { server: input.name, type: input.config.type });
+
+    const stderrLines: string[] = [];
+    const closeListeners: Array<() => void> = [];
+    let closing = false;
+
+    const client = new Client({ name: "sakti-code", version: "0.0.1" }, { capabilities: {} });
+    client.onclose = () => {
+      if (closing) return;
+      logger.warn("MCP server connection closed", { server: input.name });
+      for (const listener of closeListeners) listener();
+    };
+    client.onerror = error => {
+      logger.debug("MCP transport error", { server: input.name, error: error.message });
+    };
+
+    const transport = createTransport(input.config, input.root, stderrLines);
+    await client.connect(transport, { timeout: CONNECT_TIMEOUT_MS });
+
+    const instance: McpClientInstance = {
+      name: input.name,
+      tools: [],
+      resources: [],
+
+      stderrTail() {
+        return stderrLines.join("\n");
+      },
+
+      async listTools() {
+        const tools: McpToolInfo[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await client.listTools(cursor ? { cursor } : undefined);
+          for (const tool of page.tools) {
+            tools.push({
+              name: tool.name,
+              description: tool.description,
+              inputSchema: tool.inputSchema as Record<string, unknown>,
+            });
+          }
+          cursor = page.nextCursor;
+        } while (cursor);
+
+        instance.tools = tools;
+        return tools;
+      },
+
+      async listResources() {
+        const resources: McpResourceInfo[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await client.listResources(cursor ? { cursor } : undefined);
+          for (const resource of page.resources) {
+            resources.push({
+              uri: resource.uri,
+              name: resource.name,
+              description: resource.description,
+              mimeType: resource.mimeType,
+            });
+          }
+          cursor = page.nextCursor;
+        } while (cursor);
+
+        instance.resources = resources;
+        return resources;
+      },
+
+      async callTool(toolName, args, signal) {
+        const result = await client.callTool({ name: toolName, arguments: args }, undefined, {
+          signal,
+        });
+
+        if ("toolResult" in result) {
+          return { output: JSON.stringify(result.toolResult), isError: false };
+        }
+
+        const output =
+          formatContent(result.content) ||
+          (result.structuredContent ? JSON.stringify(result.structuredContent) : "");
+        return { output, isError: result.isError === true };
+      },
+
+      onClose(listener) {
+        closeListeners.push(listener);
+      },
+
+      async close() {
+        closing = true;
+        await client.close();
+      },
+    };
+
+    if (client.getServerCapabilities()?.tools) {
+      await instance.listTools();
+    }
+    if (client.getServerCapabilities()?.resources) {
+      await instance.listResources();
+    }
+
+    logger.info("MCP server connected", {
+      server: input.name,
+      tools: instance.tools.length,
+      resources: instance.resources.length,
+    });
+    return instance;
+  },
+};
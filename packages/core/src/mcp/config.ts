@@ -0,0 +1,296 @@
+/**
+ * MCP server configuration loading
+ *
+ * Server definitions are read from the user config directory and from the
+ * workspace. Workspace entries override user entries with the same name.
+ *
+ * .sakti-code/mcp.json:
+ * {
+ *   "mcpServers": {
+ *     "echo": {
+ *       "command": "node",
+ *       "args": ["echo-server.mjs"],
+ *       "permissions": { "echo": "allow", "*": "ask" }
+ *     },
+ *     "docs": { "type": "http", "url": "http://127.0.0.1:8080/mcp" }
+ *   }
+ * }
+ *
+ * Workspace servers only start once the user has trusted them: saving a
+ * server from settings records a hash of its definition in the user config
+ * directory. A definition that arrives with a cloned repo, or that changes
+ * outside settings, starts nothing until it is saved again.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { resolveAppPaths } from "@sakti-code/shared/paths";
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { McpServerConfig } from "./types";
+
+const logger = createLogger("sakti-code:mcp:config");
+
+export const MCP_CONFIG_FILENAME = "mcp.json";
+export const WORKSPACE_MCP_CONFIG_DIR = ".sakti-code";
+const TRUSTED_MCP_FILENAME = "trusted-mcp.json";
+
+export interface McpConfigSource {
+  scope: "user" | "workspace";
+  path: string;
+}
+
+export interface LoadedMcpConfig {
+  servers: Record<string, McpServerConfig>;
+  /** Config file scope each server was read from */
+  scopes: Record<string, McpConfigSource["scope"]>;
+  /** Whether each server may start; user servers always may */
+  trusted: Record<string, boolean>;
+  sources: McpConfigSource[];
+  errors: Array<{ path: string; server?: string; message: string }>;
+}
+
+export function getUserMcpConfigPath(): string {
+  return path.join(resolveAppPaths().config, MCP_CONFIG_FILENAME);
+}
+
+export function getWorkspaceMcpConfigPath(directory: string): string {
+  return path.join(directory, WORKSPACE_MCP_CONFIG_DIR, MCP_CONFIG_FILENAME);
+}
+
+/**
+ * Fill in the transport type for shorthand entries that omit it
+ */
+function withInferredType(raw: unknown): unknown {
+  if (!raw || typeof raw !== "object" || "type" in raw) return raw;
+  const entry = raw as Record<string, unknown>;
+  if (typeof entry.url === "string") return { ...entry, type: "http" };
+  if (typeof entry.command === "string") return { ...entry, type: "stdio" };
+  return raw;
+}
+
+/**
+ * Drop line and block comments, leaving string literals untouched
+ */
+function stripJsonComments(content: string): string {
+  let result = "";
+  let inString = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      result += char;
+      if (char === "\\") {
+        result += content[++i] ?? "";
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === "/" && content[i + 1] === "/") {
+      const end = content.indexOf("\n", i);
+      i = end === -1 ? content.length : end - 1;
+      continue;
+    }
+    if (char === "/" && content[i + 1] === "*") {
+      const end = content.indexOf("*/", i + 2);
+      i = end === -1 ? content.length : end + 1;
+      continue;
+    }
+
+    inString = char === '"';
+    result += char;
+  }
+  return result;
+}
+
+async function readConfigFile(
+  filePath: string,
+  result: LoadedMcpConfig,
+  scope: McpConfigSource["scope"]
+): Promise<void> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripJsonComments(content));
+  } catch (error) {
+    result.errors.push({
+      path: filePath,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  const serversRaw =
+    parsed && typeof parsed === "object" && "mcpServers" in parsed
+      ? (parsed as { mcpServers: unknown }).mcpServers
+      : undefined;
+  if (!serversRaw || typeof serversRaw !== "object") {
+    result.errors.push({ path: filePath, message: "Missing mcpServers object" });
+    return;
+  }
+
+  result.sources.push({ scope, path: filePath });
+
+  for (const [name, rawServer] of Object.entries(serversRaw as Record<string, unknown>)) {
+    const validated = McpServerConfig.safeParse(withInferredType(rawServer));
+    if (!validated.success) {
+      result.errors.push({
+        path: filePath,
+        server: name,
+        message: validated.error.issues.map(issue => issue.message).join("; "),
+      });
+      continue;
+    }
+    result.servers[name] = validated.data;
+    result.scopes[name] = scope;
+  }
+}
+
+/**
+ * Load merged MCP server definitions for a workspace directory
+ *
+ * Invalid files and entries are reported in `errors` and skipped so one
+ * broken definition does not take down the rest.
+ */
+export async function loadMcpConfig(directory: string): Promise<LoadedMcpConfig> {
+  const result: LoadedMcpConfig = {
+    servers: {},
+    scopes: {},
+    trusted: {},
+    sources: [],
+    errors: [],
+  };
+
+  await readConfigFile(getUserMcpConfigPath(), result, "user");
+  await readConfigFile(getWorkspaceMcpConfigPath(directory), result, "workspace");
+
+  const trustedServers = (await readTrustedServers())[path.resolve(directory)] ?? {};
+  for (const [name, server] of Object.entries(result.servers)) {
+    result.trusted[name] =
+      result.scopes[name] === "user" || trustedServers[name] === hashServer(server);
+  }
+
+  for (const error of result.errors) {
+    logger.warn("invalid MCP config", error);
+  }
+
+  return result;
+}
+
+function getTrustedMcpPath(): string {
+  return path.join(resolveAppPaths().config, TRUSTED_MCP_FILENAME);
+}
+
+function hashServer(server: McpServerConfig): string {
+  return createHash("sha256").update(JSON.stringify(server)).digest("hex");
+}
+
+/** Hashes of the trusted server definitions by workspace directory and server name */
+async function readTrustedServers(): Promise<Record<string, Record<string, string>>> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(getTrustedMcpPath(), "utf-8"));
+    return z.record(z.string(), z.record(z.string(), z.string())).parse(parsed);
+  } catch {
+    return {};
+  }
+}
+
+async function trustWorkspaceServer(directory: string, name: string, server: McpServerConfig) {
+  const trusted = await readTrustedServers();
+  const key = path.resolve(directory);
+  trusted[key] = { ...trusted[key], [name]: hashServer(server) };
+  const filePath = getTrustedMcpPath();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(trusted, null, 2)}\n`, "utf-8");
+}
+
+function getConfigPath(directory: string, scope: McpConfigSource["scope"]): string {
+  return scope === "user" ? getUserMcpConfigPath() : getWorkspaceMcpConfigPath(directory);
+}
+
+/**
+ * Read a config file for editing, keeping keys other than `mcpServers`
+ */
+async function readRawConfig(filePath: string): Promise<Record<string, unknown>> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return { mcpServers: {} };
+  }
+
+  const parsed = JSON.parse(stripJsonComments(content)) as unknown;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Invalid MCP config: ${filePath}`);
+  }
+  const config = parsed as Record<string, unknown>;
+  if (!config.mcpServers || typeof config.mcpServers !== "object") {
+    config.mcpServers = {};
+  }
+  return config;
+}
+
+async function writeRawConfig(filePath: string, config: Record<string, unknown>): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(config, null, 2)}\n`, "utf-8");
+}
+
+/**
+ * Add or replace a server definition in the user or workspace config file,
+ * trusting a workspace server
+ *
+ * Only call this on behalf of the user (the settings API); agents must not
+ * be able to trust their own servers. Comments in the file are not
+ * preserved.
+ */
+export async function saveMcpServer(
+  directory: string,
+  scope: McpConfigSource["scope"],
+  name: string,
+  server: unknown
+): Promise<McpServerConfig> {
+  if (!name.trim()) {
+    throw new Error("Server name is required");
+  }
+  const validated = McpServerConfig.safeParse(withInferredType(server));
+  if (!validated.success) {
+    throw new Error(validated.error.issues.map(issue => issue.message).join("; "));
+  }
+
+  const filePath = getConfigPath(directory, scope);
+  const config = await readRawConfig(filePath);
+  (config.mcpServers as Record<string, unknown>)[name] = validated.data;
+  await writeRawConfig(filePath, config);
+  if (scope === "workspace") {
+    await trustWorkspaceServer(directory, name, validated.data);
+  }
+  return validated.data;
+}
+
+/**
+ * Remove a server definition from the user or workspace config file
+ *
+ * @returns false when the file does not define the server
+ */
+export async function deleteMcpServer(
+  directory: string,
+  scope: McpConfigSource["scope"],
+  name: string
+): Promise<boolean> {
+  const filePath = getConfigPath(directory, scope);
+  const config = await readRawConfig(filePath);
+  const servers = config.mcpServers as Record<string, unknown>;
+  if (!(name in servers)) return false;
+
+  delete servers[name];
+  await writeRawConfig(filePath, config);
+  return true;
+}
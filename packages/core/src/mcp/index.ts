@@ -0,0 +1,360 @@
+export * from "./client";
+export * from "./config";
+export * from "./types";
+
+import type { PermissionRule } from "@sakti-code/shared";
+import { errorMessage } from "@sakti-code/shared/errors";
+import { createLogger } from "@sakti-code/shared/logger";
+import { shutdown } from "@sakti-code/shared/shutdown";
+import { jsonSchema, tool } from "ai";
+import path from "node:path";
+import { v7 as uuidv7 } from "uuid";
+import { PermissionManager } from "../security/permission-manager";
+import { getContextOrThrow } from "../tools/base/context";
+import { McpClient, type McpClientInstance } from "./client";
+import { loadMcpConfig, type McpConfigSource } from "./config";
+import type {
+  McpConnectionState,
+  McpServerConfig,
+  McpServerStatus,
+  McpStatusSummary,
+  McpToolPermission,
+} from "./types";
+
+const logger = createLogger("sakti-code:mcp");
+
+const MAX_RECONNECT_ATTEMPTS = 3;
+const RECONNECT_BASE_DELAY_MS = 1_000;
+
+/** Prefix for agent-facing tool names, e.g. `mcp__github__create_issue` */
+export const MCP_TOOL_PREFIX = "mcp__";
+
+interface ActiveServer {
+  name: string;
+  scope: McpConfigSource["scope"];
+  config: McpServerConfig;
+  root: string;
+  trusted: boolean;
+  state: McpConnectionState;
+  client?: McpClientInstance;
+  error?: string;
+  connectedAt?: number;
+  reconnectAttempts: number;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+}
+
+const workspaces = new Map<string, Map<string, ActiveServer>>();
+const loadingWorkspaces = new Map<string, Promise<void>>();
+let shutdownRegistered = false;
+
+function sanitizeToolSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+export function getMcpToolName(serverName: string, toolName: string): string {
+  return `${MCP_TOOL_PREFIX}${sanitizeToolSegment(serverName)}__${sanitizeToolSegment(toolName)}`;
+}
+
+/** Pattern an MCP tool call is checked against under the `mcp` permission */
+export function getMcpPermissionPattern(serverName: string, toolName: string): string {
+  return `${serverName}/${toolName}`;
+}
+
+function getToolPermission(
+  config: McpServerConfig,
+  toolName: string
+): McpToolPermission | undefined {
+  return config.permissions?.[toolName] ?? config.permissions?.["*"];
+}
+
+/**
+ * Ask for the `mcp` permission before a tool call reaches its server
+ */
+async function authorizeToolCall(serverName: string, toolName: string): Promise<void> {
+  const { sessionID } = getContextOrThrow();
+  const pattern = getMcpPermissionPattern(serverName, toolName);
+
+  const approved = await PermissionManager.getInstance().requestApproval({
+    id: uuidv7(),
+    permission: "mcp",
+    patterns: [pattern],
+    always: [pattern],
+    sessionID,
+    metadata: { server: serverName, tool: toolName },
+  });
+  if (!approved) {
+    throw new Error(`Permission denied: Cannot call MCP tool ${pattern}`);
+  }
+}
+
+async function connectServer(server: ActiveServer): Promise<void> {
+  try {
+    const client = await McpClient.create({
+      name: server.name,
+      config: server.config,
+      root: server.root,
+    });
+    client.onClose(() => handleUnexpectedClose(server));
+    server.client = client;
+    server.state = "connected";
+    server.error = undefined;
+    server.connectedAt = Date.now();
+    server.reconnectAttempts = 0;
+  } catch (error) {
+    server.client = undefined;
+    server.error = errorMessage(error);
+    logger.warn("failed to connect MCP server", { server: server.name, error: server.error });
+    throw error;
+  }
+}
+
+function handleUnexpectedClose(server: ActiveServer): void {
+  const stderr = server.client?.stderrTail();
+  server.client = undefined;
+  server.error = stderr ? `Connection closed: ${stderr}` : "Connection closed";
+  scheduleReconnect(server);
+}
+
+function scheduleReconnect(server: ActiveServer): void {
+  if (server.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+    server.state = "offline";
+    logger.warn("giving up on MCP server", { server: server.name, error: server.error });
+    return;
+  }
+
+  server.state = "degraded";
+  const delay = RECONNECT_BASE_DELAY_MS * Math.pow(2, server.reconnectAttempts);
+  server.reconnectAttempts += 1;
+
+  server.reconnectTimer = setTimeout(() => {
+    server.reconnectTimer = undefined;
+    connectServer(server).catch(() => scheduleReconnect(server));
+  }, delay);
+  server.reconnectTimer.unref?.();
+}
+
+async function stopServer(server: ActiveServer): Promise<void> {
+  if (server.reconnectTimer) {
+    clearTimeout(server.reconnectTimer);
+    server.reconnectTimer = undefined;
+  }
+  const client = server.client;
+  server.client = undefined;
+  server.state = "offline";
+  if (client) {
+    await client.close().catch(error => {
+      logger.error("error closing MCP client", error instanceof Error ? error : undefined, {
+        server: server.name,
+      });
+    });
+  }
+}
+
+async function loadWorkspace(directory: string): Promise<void> {
+  const config = await loadMcpConfig(directory);
+  const servers = new Map<string, ActiveServer>();
+
+  for (const [name, serverConfig] of Object.entries(config.servers)) {
+    const trusted = config.trusted[name] === true;
+    const error = !trusted
+      ? "Not trusted; save it from settings to trust it"
+      : serverConfig.enabled === false
+        ? "Disabled"
+        : undefined;
+    servers.set(name, {
+      name,
+      scope: config.scopes[name] ?? "workspace",
+      config: serverConfig,
+      root: directory,
+      trusted,
+      state: error ? "offline" : "connecting",
+      error,
+      reconnectAttempts: 0,
+    });
+  }
+  if (Object.values(config.trusted).includes(false)) {
+    logger.warn("skipping untrusted workspace MCP servers", {
+      directory,
+    });
+  }
+  workspaces.set(directory, servers);
+
+  PermissionManager.getInstance().setRuleProvider("mcp", getPermissionRules);
+
+  if (!shutdownRegistered && servers.size > 0) {
+    shutdown.register("mcp", () => MCP.shutdown());
+    shutdownRegistered = true;
+  }
+
+  await Promise.all(
+    Array.from(servers.values())
+      .filter(server => server.state === "connecting")
+      .map(server =>
+        connectServer(server).catch(() => {
+          server.state = "offline";
+        })
+      )
+  );
+}
+
+/**
+ * Per-tool permission defaults of a workspace's servers, as `mcp` rules
+ */
+function getPermissionRules(directory: string): PermissionRule[] {
+  const servers = workspaces.get(path.resolve(directory));
+  if (!servers) return [];
+
+  const rules: PermissionRule[] = [];
+  for (const server of servers.values()) {
+    const permissions = Object.entries(server.config.permissions ?? {});
+    // Specific tools after the `*` default so they win within the layer
+    permissions.sort(([a], [b]) => Number(a !== "*") - Number(b !== "*"));
+    for (const [toolName, action] of permissions) {
+      rules.push({
+        permission: "mcp",
+        pattern: getMcpPermissionPattern(server.name, toolName),
+        action,
+      });
+    }
+  }
+  return rules;
+}
+
+function toStatus(server: ActiveServer): McpServerStatus {
+  return {
+    name: server.name,
+    type: server.config.type,
+    scope: server.scope,
+    config: server.config,
+    enabled: server.config.enabled !== false,
+    trusted: server.trusted,
+    state: server.state,
+    tools: (server.client?.tools ?? []).map(t => ({
+      name: t.name,
+      description: t.description,
+      permission: getToolPermission(server.config, t.name),
+    })),
+    resources: server.client?.resources ?? [],
+    error: server.error,
+    connectedAt: server.connectedAt,
+    reconnectAttempts: server.reconnectAttempts,
+  };
+}
+
+/**
+ * Model Context Protocol client manager
+ *
+ * Keeps one set of MCP server connections per workspace directory,
+ * supervises them (reconnecting with backoff after a drop) and exposes
+ * their tools in the same shape as the built-in tool registry.
+ */
+export const MCP = {
+  /**
+   * Load MCP config for a workspace and connect its servers
+   *
+   * Safe to call repeatedly; only the first call per directory connects.
+   * Connection failures are recorded in status rather than thrown.
+   */
+  async ensureWorkspace(directory: string): Promise<void> {
+    const key = path.resolve(directory);
+    if (workspaces.has(key)) return;
+
+    const existing = loadingWorkspaces.get(key);
+    if (existing) return existing;
+
+    const loading = loadWorkspace(key).finally(() => loadingWorkspaces.delete(key));
+    loadingWorkspaces.set(key, loading);
+    return loading;
+  },
+
+  /**
+   * Disconnect and re-read config for a workspace
+   */
+  async reload(directory: string): Promise<void> {
+    const key = path.resolve(directory);
+    await loadingWorkspaces.get(key);
+    const servers = workspaces.get(key);
+    if (servers) {
+      await Promise.all(Array.from(servers.values()).map(stopServer));
+      workspaces.delete(key);
+    }
+    await MCP.ensureWorkspace(key);
+  },
+
+  getStatus(directory: string): McpServerStatus[] {
+    const servers = workspaces.get(path.resolve(directory));
+    if (!servers) return [];
+    return Array.from(servers.values()).map(toStatus);
+  },
+
+  getPermissionRules,
+
+  summarize(statuses: McpServerStatus[]): McpStatusSummary {
+    return {
+      total: statuses.length,
+      connected: statuses.filter(s => s.state === "connected").length,
+      degraded: statuses.filter(s => s.state === "degraded" || s.state === "connecting").length,
+      offline: statuses.filter(s => s.state === "offline").length,
+    };
+  },
+
+  /**
+   * Build agent tools for every connected server in a workspace
+   *
+   * Tool names are namespaced as `mcp__<server>__<tool>`. Each call asks
+   * for the `mcp` permission on `<server>/<tool>` first.
+   */
+  getTools(directory: string): Record<string, unknown> {
+    const servers = workspaces.get(path.resolve(directory));
+    if (!servers) return {};
+
+    const tools: Record<string, unknown> = {};
+    for (const server of servers.values()) {
+      const client = server.client;
+      if (server.state !== "connected" || !client) continue;
+
+      for (const info of client.tools) {
+        const toolName = getMcpToolName(server.name, info.name);
+        tools[toolName] = tool({
+          description: info.description || `${info.name} (MCP server: ${server.name})`,
+          inputSchema: jsonSchema<Record<string, unknown>>({
+            type: "object",
+            ...info.inputSchema,
+          }),
+          execute: async (args, options) => {
+            await authorizeToolCall(server.name, info.name);
+            const active = server.client;
+            if (!active) {
+              throw new Error(`MCP server "${server.name}" is not connected`);
+            }
+            const result = await active.callTool(info.name, args ?? {}, options?.abortSignal);
+            if (result.isError) {
+              throw new Error(result.output || `MCP tool ${info.name} failed`);
+            }
+            return {
+              title: `${server.name}: ${info.name}`,
+              output: result.output,
+              metadata: { server: server.name, tool: info.name },
+            };
+          },
+        });
+      }
+    }
+
+    return tools;
+  },
+
+  async shutdown(): Promise<void> {
+    logger.info("shutting down all MCP clients");
+    await Promise.all(loadingWorkspaces.values());
+
+    const stopping: Promise<void>[] = [];
+    for (const [key, servers] of workspaces) {
+      for (const server of servers.values()) {
+        stopping.push(stopServer(server));
+      }
+      workspaces.delete(key);
+    }
+    await Promise.all(stopping);
+  },
+};
@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+/**
+ * Default permission for each tool of a server, keyed by tool name or `*`
+ *
+ * Checked under the `mcp` permission with `<server>/<tool>` patterns; rules
+ * from permissions config and approvals saved for a scope take precedence.
+ */
+export const McpToolPermissions = z.record(z.string(), z.enum(["allow", "ask", "deny"]));
+export type McpToolPermissions = z.infer<typeof McpToolPermissions>;
+export type McpToolPermission = McpToolPermissions[string];
+
+/**
+ * MCP server definition for servers spawned as a local child process
+ */
+export const McpStdioServerConfig = z.object({
+  type: z.literal("stdio"),
+  command: z.string().min(1),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).optional(),
+  cwd: z.string().optional(),
+  enabled: z.boolean().optional(),
+  permissions: McpToolPermissions.optional(),
+});
+export type McpStdioServerConfig = z.infer<typeof McpStdioServerConfig>;
+
+/**
+ * MCP server definition for remote servers reached over streamable HTTP
+ */
+export const McpHttpServerConfig = z.object({
+  type: z.literal("http"),
+  url: z.string().url(),
+  headers: z.record(z.string(), z.string()).optional(),
+  enabled: z.boolean().optional(),
+  permissions: McpToolPermissions.optional(),
+});
+export type McpHttpServerConfig = z.infer<typeof McpHttpServerConfig>;
+
+export const McpServerConfig = z.discriminatedUnion("type", [
+  McpStdioServerConfig,
+  McpHttpServerConfig,
+]);
+export type McpServerConfig = z.infer<typeof McpServerConfig>;
+
+/**
+ * Connection state of a configured MCP server
+ *
+ * - connecting: initial handshake in progress
+ * - connected: handshake done, tools are exposed to the agent
+ * - degraded: connection dropped, reconnect attempts in progress
+ * - offline: disabled, failed to start, or gave up reconnecting
+ */
+export type McpConnectionState = "connecting" | "connected" | "degraded" | "offline";
+
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface McpResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpServerStatus {
+  name: string;
+  type: McpServerConfig["type"];
+  /** Config file the server is defined in */
+  scope: "user" | "workspace";
+  config: McpServerConfig;
+  enabled: boolean;
+  /** False for a workspace server the user has not trusted; it is not started */
+  trusted: boolean;
+  state: McpConnectionState;
+  tools: Array<{ name: string; description?: string; permission?: McpToolPermission }>;
+  resources: McpResourceInfo[];
+  error?: string;
+  connectedAt?: number;
+  reconnectAttempts: number;
+}
+
+export interface McpStatusSummary {
+  total: number;
+  connected: number;
+  degraded: number;
+  offline: number;
+}
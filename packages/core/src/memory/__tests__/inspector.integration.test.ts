@@ -0,0 +1,133 @@
+/**
+ * Tests for the memory inspector
+ *
+ * Tests verify:
+ * - Snapshots separate thread and resource memory
+ * - Pins apply to their thread or to the whole resource
+ * - Observations cannot be edited while the observer holds the record
+ * - Memory settings override a mode's thresholds
+ */
+
+import { getDb, threads } from "@/testing/db";
+import fs from "node:fs/promises";
+import { v7 as uuidv7 } from "uuid";
+import { afterAll, afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("memory inspector", () => {
+  let resourceId: string;
+  let threadId: string;
+  let memory: typeof import("@/memory");
+
+  beforeEach(async () => {
+    memory = await import("@/memory");
+    const db = await getDb();
+    resourceId = `inspector-${uuidv7()}`;
+    threadId = uuidv7();
+    await db.insert(threads).values({
+      id: threadId,
+      resource_id: resourceId,
+      title: "Inspector Thread",
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(memory.getMemorySettingsPath(), { force: true });
+  });
+
+  afterAll(async () => {
+    const { closeDb } = await import("@/testing/db");
+    closeDb();
+  });
+
+  it("lists resources with their threads", async () => {
+    const resources = await memory.listMemoryResources();
+
+    expect(resources.find(resource => resource.resourceId === resourceId)).toEqual({
+      resourceId,
+      threads: [expect.objectContaining({ id: threadId, title: "Inspector Thread" })],
+    });
+  });
+
+  it("separates thread memory from resource memory", async () => {
+    const threadRecord = await memory.getOrCreateObservationalMemory({
+      threadId,
+      resourceId,
+      scope: "thread",
+    });
+    await memory.reflectionStorage.createReflection({
+      id: uuidv7(),
+      threadId,
+      resourceId,
+      content: "Thread reflection",
+      generationCount: 1,
+    });
+    const resourcePin = await memory.memoryPinStorage.createPin({
+      resourceId,
+      content: "The API is versioned under /v2",
+    });
+    const threadPin = await memory.memoryPinStorage.createPin({
+      resourceId,
+      threadId,
+      content: "This thread targets the billing service",
+      sourceType: "observation",
+      sourceId: threadRecord.id,
+    });
+
+    const thread = await memory.getMemorySnapshot({ resourceId, threadId });
+    expect(thread.observations?.id).toBe(threadRecord.id);
+    expect(thread.reflections.map(r => r.content)).toEqual(["Thread reflection"]);
+    expect(thread.pins.map(pin => pin.id)).toEqual([resourcePin.id, threadPin.id]);
+
+    const resource = await memory.getMemorySnapshot({ resourceId });
+    expect(resource.threadId).toBeNull();
+    expect(resource.observations).toBeNull();
+    expect(resource.pins.map(pin => pin.id)).toEqual([resourcePin.id]);
+  });
+
+  it("edits observations unless the observer holds the record", async () => {
+    const record = await memory.getOrCreateObservationalMemory({
+      threadId,
+      resourceId,
+      scope: "thread",
+    });
+    await memory.observationalMemoryStorage.updateObservationalMemory(record.id, {
+      activeObservations: "- User prefers yarn\n- Tests run with vitest",
+    });
+
+    const updated = await memory.updateObservations(record.id, "- Tests run with vitest");
+    expect(updated?.active_observations).toBe("- Tests run with vitest");
+
+    await memory.observationalMemoryStorage.updateObservationalMemory(record.id, {
+      isObserving: true,
+    });
+    await expect(memory.updateObservations(record.id, "")).rejects.toBeInstanceOf(
+      memory.MemoryBusyError
+    );
+    await expect(memory.updateObservations(uuidv7(), "")).resolves.toBeNull();
+  });
+
+  it("formats pins for injection and skips empty ones", () => {
+    expect(memory.formatPinsForInjection([])).toBe("");
+    const formatted = memory.formatPinsForInjection([
+      { content: "Use pnpm" },
+      { content: "  " },
+      { content: "Deploy on Fridays is forbidden" },
+    ]);
+    expect(formatted).toContain("<pinned-memory>");
+    expect(formatted).toContain("- Use pnpm\n- Deploy on Fridays is forbidden");
+  });
+
+  it("saves memory settings and applies them over mode defaults", async () => {
+    await expect(memory.loadMemorySettings()).resolves.toEqual({});
+    await expect(memory.saveMemorySettings({ observationThreshold: 0 })).rejects.toThrow();
+
+    await memory.saveMemorySettings({ reflectionThreshold: 90000 });
+    const settings = await memory.loadMemorySettings();
+    expect(settings).toEqual({ reflectionThreshold: 90000 });
+
+    const config = memory.applyMemorySettings(memory.getMemoryConfig("explore"), settings);
+    expect(config).toMatchObject({ observationThreshold: 60000, reflectionThreshold: 90000 });
+  });
+});
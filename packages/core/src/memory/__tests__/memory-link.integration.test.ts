@@ -0,0 +1,190 @@
+/**
+ * Tests for memory shared between linked resources
+ *
+ * Tests verify:
+ * - Links are symmetric and never link a resource to itself
+ * - Reflections and keypoints of linked resources are loaded with their workspace
+ * - Private resources share nothing through their links
+ * - memory-search stays within the session's resource and its shared links
+ */
+
+import { Instance } from "@/instance";
+import { getDb } from "@/testing/db";
+import { sql } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+describe("memory links", () => {
+  let memory: typeof import("@/memory");
+  let webPath: string;
+  let apiPath: string;
+
+  async function createWorkspace(path: string, name: string): Promise<string> {
+    const db = await getDb();
+    const id = uuidv7();
+    const now = Math.floor(Date.now() / 1000);
+    await db.run(sql`
+      INSERT INTO workspaces (id, path, name, status, created_at, last_opened_at)
+      VALUES (${id}, ${path}, ${name}, 'active', ${now}, ${now})
+    `);
+    return id;
+  }
+
+  async function addKeypoint(workspaceId: string, taskTitle: string, summary: string) {
+    const db = await getDb();
+    const sessionId = uuidv7();
+    const now = Math.floor(Date.now() / 1000);
+    await db.run(sql`
+      INSERT INTO task_sessions (session_id, resource_id, thread_id, workspace_id, created_at,
+        last_accessed, last_activity_at)
+      VALUES (${sessionId}, 'local', ${sessionId}, ${workspaceId}, ${now}, ${now}, ${now})
+    `);
+    await db.run(sql`
+      INSERT INTO project_keypoints (id, workspace_id, task_session_id, task_title, milestone,
+        completed_at, summary, artifacts, created_at)
+      VALUES (${uuidv7()}, ${workspaceId}, ${sessionId}, ${taskTitle}, 'completed', ${now},
+        ${summary}, '[]', ${now})
+    `);
+  }
+
+  beforeEach(async () => {
+    memory = await import("@/memory");
+    webPath = `/repos/web-${uuidv7()}`;
+    apiPath = `/repos/api-${uuidv7()}`;
+  });
+
+  afterAll(async () => {
+    const { closeDb } = await import("@/testing/db");
+    closeDb();
+  });
+
+  it("links resources in both directions", async () => {
+    await memory.memoryLinkStorage.createLink(webPath, apiPath);
+    await memory.memoryLinkStorage.createLink(apiPath, webPath);
+
+    expect(await memory.memoryLinkStorage.listLinkedResources(webPath)).toEqual([apiPath]);
+    expect(await memory.memoryLinkStorage.listLinkedResources(apiPath)).toEqual([webPath]);
+    await expect(memory.memoryLinkStorage.createLink(webPath, webPath)).rejects.toThrow(
+      "cannot be linked to itself"
+    );
+
+    expect(await memory.memoryLinkStorage.deleteLink(apiPath, webPath)).toBe(true);
+    expect(await memory.memoryLinkStorage.listLinkedResources(webPath)).toEqual([]);
+  });
+
+  it("loads reflections and keypoints of linked workspaces with provenance", async () => {
+    const apiWorkspace = await createWorkspace(apiPath, "payments-api");
+    await addKeypoint(
+      apiWorkspace,
+      "Add idempotency keys",
+      "POST /charges accepts Idempotency-Key"
+    );
+    await memory.reflectionStorage.createReflection({
+      id: uuidv7(),
+      resourceId: apiPath,
+      content: "Money amounts are integers in cents",
+      generationCount: 1,
+    });
+    await memory.memoryLinkStorage.createLink(webPath, apiPath);
+
+    const linked = await memory.loadLinkedMemory(webPath);
+
+    expect(linked).toEqual([
+      {
+        resourceId: apiPath,
+        name: "payments-api",
+        reflections: ["Money amounts are integers in cents"],
+        keypoints: [
+          expect.objectContaining({
+            taskTitle: "Add idempotency keys",
+            milestone: "completed",
+            summary: "POST /charges accepts Idempotency-Key",
+          }),
+        ],
+      },
+    ]);
+
+    const block = memory.formatLinkedMemoryForInjection(linked);
+    expect(block).toContain(`<workspace name="payments-api" path="${apiPath}">`);
+    expect(block).toContain("Add idempotency keys: POST /charges accepts Idempotency-Key");
+    expect(block).toContain("Money amounts are integers in cents");
+  });
+
+  it("shares nothing from private resources", async () => {
+    await memory.reflectionStorage.createReflection({
+      id: uuidv7(),
+      resourceId: apiPath,
+      content: "Signing keys rotate monthly",
+      generationCount: 1,
+    });
+    await memory.memoryLinkStorage.createLink(webPath, apiPath);
+    await memory.memoryLinkStorage.setPrivate(apiPath, true);
+
+    expect(await memory.memoryLinkStorage.isPrivate(apiPath)).toBe(true);
+    expect(await memory.loadLinkedMemory(webPath)).toEqual([]);
+    expect(memory.formatLinkedMemoryForInjection([])).toBe("");
+
+    await memory.memoryLinkStorage.setPrivate(apiPath, false);
+    expect(await memory.loadLinkedMemory(webPath)).toEqual([
+      expect.objectContaining({ resourceId: apiPath, name: null }),
+    ]);
+  });
+
+  it("searches only the session's resource and linked resources that share memory", async () => {
+    const secretPath = `/repos/secret-${uuidv7()}`;
+    const otherPath = `/repos/other-${uuidv7()}`;
+    const db = await getDb();
+    const threadIds = new Map<string, string>();
+    for (const resourceId of [webPath, apiPath, secretPath, otherPath]) {
+      const threadId = uuidv7();
+      threadIds.set(resourceId, threadId);
+      const now = Date.now();
+      await db.run(sql`
+        INSERT INTO threads (id, resource_id, title, created_at, updated_at)
+        VALUES (${threadId}, ${resourceId}, 'Search', ${now}, ${now})
+      `);
+      await memory.messageStorage.createMessage({
+        id: uuidv7(),
+        threadId,
+        resourceId,
+        role: "assistant",
+        rawContent: `quasarflux decision for ${resourceId}`,
+        createdAt: now,
+        messageIndex: 0,
+      });
+    }
+    await memory.memoryLinkStorage.createLink(webPath, apiPath);
+    await memory.memoryLinkStorage.createLink(secretPath, webPath);
+    await memory.memoryLinkStorage.setPrivate(secretPath, true);
+
+    const search = await Instance.provide({
+      directory: process.cwd(),
+      sessionID: threadIds.get(webPath)!,
+      fn: async () =>
+        (await memory.memorySearchTool.execute!(
+          { query: "quasarflux", limit: 10 },
+          { toolCallId: "search-1", messages: [] }
+        )) as Awaited<ReturnType<typeof memory.executeMemorySearch>>,
+    });
+
+    expect(search.success).toBe(true);
+    if (!search.success) return;
+    expect(search.results.map(result => result.content).sort()).toEqual(
+      [`quasarflux decision for ${apiPath}`, `quasarflux decision for ${webPath}`].sort()
+    );
+
+    const outside = await memory.memorySearchTool.execute!(
+      { query: "quasarflux", limit: 10 },
+      { toolCallId: "search-2", messages: [] }
+    );
+    expect(outside).toMatchObject({ success: false });
+
+    const byThread = (await memory.memorySearchTool.execute!(
+      { query: "quasarflux", threadId: threadIds.get(secretPath)!, limit: 10 },
+      { toolCallId: "search-3", messages: [] }
+    )) as Awaited<ReturnType<typeof memory.executeMemorySearch>>;
+    expect(byThread.success && byThread.results.map(result => result.content)).toEqual([
+      `quasarflux decision for ${secretPath}`,
+    ]);
+  });
+});
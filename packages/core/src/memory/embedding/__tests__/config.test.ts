@@ -0,0 +1,50 @@
+import { getEmbeddingConfigPath, loadEmbeddingConfig } from "@/memory/embedding";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("loadEmbeddingConfig", () => {
+  beforeEach(async () => {
+    await fs.mkdir(path.dirname(getEmbeddingConfigPath()), { recursive: true });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(getEmbeddingConfigPath(), { force: true });
+  });
+
+  it("is off without a config file or environment", async () => {
+    await expect(loadEmbeddingConfig()).resolves.toBeNull();
+  });
+
+  it("reads the config file and fills in the provider's default model", async () => {
+    await fs.writeFile(getEmbeddingConfigPath(), JSON.stringify({ provider: "local" }));
+
+    await expect(loadEmbeddingConfig()).resolves.toEqual({
+      provider: "local",
+      model: "nomic-embed-text",
+    });
+  });
+
+  it("lets environment variables override the file", async () => {
+    await fs.writeFile(getEmbeddingConfigPath(), JSON.stringify({ provider: "local" }));
+    vi.stubEnv("SAKTI_CODE_EMBEDDING_PROVIDER", "openai-compatible");
+    vi.stubEnv("SAKTI_CODE_EMBEDDING_MODEL", "bge-m3");
+    vi.stubEnv("SAKTI_CODE_EMBEDDING_API_URL", "http://127.0.0.1:8080/v1");
+
+    await expect(loadEmbeddingConfig()).resolves.toEqual({
+      provider: "openai-compatible",
+      model: "bge-m3",
+      baseURL: "http://127.0.0.1:8080/v1",
+    });
+  });
+
+  it("ignores an openai-compatible config without an endpoint", async () => {
+    await fs.writeFile(
+      getEmbeddingConfigPath(),
+      JSON.stringify({ provider: "openai-compatible", model: "bge-m3" })
+    );
+
+    await expect(loadEmbeddingConfig()).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Tests for semantic memory search
+ *
+ * Tests verify:
+ * - Messages are found by meaning when no keyword matches
+ * - Keyword and semantic rankings are fused
+ * - Observations and reflections are searchable
+ * - Pending rows are backfilled and re-indexed when the model changes
+ * - Similarity search stays within the searched resource
+ */
+
+import type { Embedder } from "@/memory/embedding";
+import { getDb, memoryEmbeddings, threads } from "@/testing/db";
+import { eq } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
+import { afterAll, afterEach, beforeEach, describe, expect, it } from "vitest";
+
+/** Words that mean the same thing share a dimension */
+const CONCEPTS = [
+  ["auth", "login", "credential"],
+  ["token", "jwt"],
+  ["refresh", "renew", "rotat", "expir"],
+  ["css", "color", "style"],
+];
+
+function createFakeEmbedder(id: string = `fake/${uuidv7()}`): Embedder & { calls: string[][] } {
+  const calls: string[][] = [];
+  return {
+    id,
+    calls,
+    async embed(values) {
+      calls.push(values);
+      return values.map(value => {
+        const text = value.toLowerCase();
+        return CONCEPTS.map(words => (words.some(word => text.includes(word)) ? 1 : 0));
+      });
+    },
+  };
+}
+
+describe("semantic memory search", () => {
+  let threadId: string;
+  let embedding: typeof import("@/memory/embedding");
+  let executeMemorySearch: typeof import("@/memory/search").executeMemorySearch;
+  let messageStorage: typeof import("@/memory/message/storage").messageStorage;
+  let messageIndex = 0;
+
+  async function addMessage(content: string): Promise<string> {
+    const id = uuidv7();
+    await messageStorage.createMessage({
+      id,
+      threadId,
+      resourceId: "embedding-resource",
+      role: "assistant",
+      rawContent: content,
+      createdAt: Date.now(),
+      messageIndex: messageIndex++,
+    });
+    return id;
+  }
+
+  beforeEach(async () => {
+    embedding = await import("@/memory/embedding");
+    ({ executeMemorySearch } = await import("@/memory/search"));
+    ({ messageStorage } = await import("@/memory/message/storage"));
+
+    const db = await getDb();
+    threadId = uuidv7();
+    messageIndex = 0;
+    await db.insert(threads).values({
+      id: threadId,
+      resource_id: "embedding-resource",
+      title: "Embedding Thread",
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+  });
+
+  afterEach(() => {
+    embedding.setEmbedder(undefined);
+  });
+
+  afterAll(async () => {
+    const { closeDb } = await import("@/testing/db");
+    closeDb();
+  });
+
+  it("finds messages that match by meaning but share no keywords", async () => {
+    embedding.setEmbedder(createFakeEmbedder());
+    const decision = await addMessage("We rotate JWTs every 15 minutes before they expire");
+    await addMessage("The sidebar uses the accent color for hover styles");
+
+    const search = await executeMemorySearch({
+      query: "where did we decide on auth token refresh",
+      threadId,
+    });
+
+    expect(search.success).toBe(true);
+    if (!search.success) return;
+    expect(search.results.map(result => result.id)).toEqual([decision]);
+    expect(search.results[0]).toMatchObject({ source: "message", matchScore: 0 });
+    expect(search.results[0]?.similarity).toBeGreaterThan(0.5);
+  });
+
+  it("ranks rows found by both keyword and similarity first", async () => {
+    embedding.setEmbedder(createFakeEmbedder());
+    await addMessage("Login credentials are checked on every request");
+    const both = await addMessage("The login token is renewed by the refresh endpoint");
+
+    const search = await executeMemorySearch({ query: "refresh", threadId });
+
+    expect(search.success).toBe(true);
+    if (!search.success) return;
+    expect(search.results[0]?.id).toBe(both);
+    expect(search.results[0]?.matchScore).toBeLessThan(0);
+  });
+
+  it("leaves out similar rows of resources outside the search", async () => {
+    embedding.setEmbedder(createFakeEmbedder());
+    const own = await addMessage("We rotate JWTs every 15 minutes before they expire");
+    const db = await getDb();
+    const otherThreadId = uuidv7();
+    await db.insert(threads).values({
+      id: otherThreadId,
+      resource_id: "other-resource",
+      title: "Other Thread",
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+    await messageStorage.createMessage({
+      id: uuidv7(),
+      threadId: otherThreadId,
+      resourceId: "other-resource",
+      role: "assistant",
+      rawContent: "Refresh tokens are renewed on login",
+      createdAt: Date.now(),
+      messageIndex: 0,
+    });
+
+    const search = await executeMemorySearch({
+      query: "auth token refresh",
+      resourceId: "embedding-resource",
+      limit: 10,
+    });
+
+    expect(search.success).toBe(true);
+    if (!search.success) return;
+    expect(search.results.map(result => result.id)).toContain(own);
+    expect(search.results.every(result => !result.content.includes("renewed on login"))).toBe(true);
+  });
+
+  it("searches observations and reflections", async () => {
+    embedding.setEmbedder(createFakeEmbedder());
+    const { reflectionStorage } = await import("@/memory/reflection/storage");
+    const reflection = await reflectionStorage.createReflection({
+      id: uuidv7(),
+      threadId,
+      resourceId: "embedding-resource",
+      content: "The team prefers short-lived JWTs that renew silently",
+      generationCount: 1,
+    });
+
+    const search = await executeMemorySearch({ query: "token refresh policy", threadId });
+
+    expect(search.success).toBe(true);
+    if (!search.success) return;
+    expect(search.results).toContainEqual(
+      expect.objectContaining({
+        id: reflection.id,
+        source: "reflection",
+        role: "reflection",
+        content: reflection.content,
+      })
+    );
+  });
+
+  it("backfills pending rows and re-embeds them for a new model", async () => {
+    const messageId = await addMessage("Auth tokens refresh on a timer");
+    const first = createFakeEmbedder();
+    embedding.setEmbedder(first);
+
+    const result = await embedding.indexPendingEmbeddings();
+    expect(result.model).toBe(first.id);
+    expect(result.indexed).toBeGreaterThan(0);
+    expect(result.pending).toBe(0);
+    expect(first.calls.flat()).toContain("Auth tokens refresh on a timer");
+
+    const db = await getDb();
+    const [row] = await db
+      .select()
+      .from(memoryEmbeddings)
+      .where(eq(memoryEmbeddings.source_id, messageId))
+      .all();
+    expect(row).toMatchObject({ source_type: "message", model: first.id, dimensions: 4 });
+
+    const second = createFakeEmbedder();
+    embedding.setEmbedder(second);
+    const status = await embedding.getEmbeddingStatus();
+    expect(status).toMatchObject({ enabled: true, model: second.id, indexed: 0 });
+    expect(status.pending).toBeGreaterThan(0);
+
+    const reindexed = await embedding.reindexEmbeddings();
+    expect(reindexed).toMatchObject({ model: second.id, pending: 0 });
+    await expect(embedding.getEmbeddingStatus()).resolves.toMatchObject({
+      indexed: reindexed.indexed,
+      pending: 0,
+    });
+  });
+
+  it("keeps keyword-only search when no embedding model is configured", async () => {
+    embedding.setEmbedder(null);
+    const id = await addMessage("The quasarflux cache is flushed nightly");
+
+    await expect(embedding.getEmbeddingStatus()).resolves.toEqual({
+      enabled: false,
+      model: null,
+      indexed: 0,
+      pending: 0,
+    });
+    const search = await executeMemorySearch({ query: "quasarflux", threadId });
+    expect(search).toEqual({
+      success: true,
+      results: [expect.objectContaining({ id, source: "message" })],
+    });
+  });
+});
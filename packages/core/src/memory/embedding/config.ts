@@ -0,0 +1,111 @@
+/**
+ * Embedding model configuration
+ *
+ * Semantic memory search is off until an embedding model is configured,
+ * either in the user config directory or through environment variables
+ * (which take precedence):
+ *
+ * embeddings.json:
+ * { "provider": "local", "model": "nomic-embed-text" }
+ *
+ * SAKTI_CODE_EMBEDDING_PROVIDER, SAKTI_CODE_EMBEDDING_MODEL,
+ * SAKTI_CODE_EMBEDDING_API_URL, SAKTI_CODE_EMBEDDING_API_KEY
+ *
+ * Providers:
+ * - local: OpenAI-compatible endpoint of the local model server (Ollama by
+ *   default, see SAKTI_CODE_LOCAL_PROVIDER_URL)
+ * - openai: OpenAI embeddings; the key falls back to OPENAI_API_KEY
+ * - openai-compatible: any OpenAI-compatible endpoint; requires baseURL
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { resolveAppPaths } from "@sakti-code/shared/paths";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+
+const logger = createLogger("sakti-code:memory:embedding");
+
+export const EMBEDDINGS_CONFIG_FILENAME = "embeddings.json";
+
+const DEFAULT_MODELS: Record<string, string> = {
+  local: "nomic-embed-text",
+  openai: "text-embedding-3-small",
+};
+
+export const EmbeddingConfig = z
+  .object({
+    provider: z.enum(["local", "openai", "openai-compatible"]),
+    model: z.string().min(1).optional(),
+    baseURL: z.string().url().optional(),
+    apiKey: z.string().optional(),
+  })
+  .refine(config => config.provider !== "openai-compatible" || config.baseURL, {
+    message: "baseURL is required for openai-compatible embeddings",
+  })
+  .refine(config => config.model || DEFAULT_MODELS[config.provider], {
+    message: "model is required for openai-compatible embeddings",
+  })
+  .transform(config => ({
+    ...config,
+    model: config.model ?? DEFAULT_MODELS[config.provider],
+  }));
+export type EmbeddingConfig = z.output<typeof EmbeddingConfig>;
+
+export function getEmbeddingConfigPath(): string {
+  return path.join(resolveAppPaths().config, EMBEDDINGS_CONFIG_FILENAME);
+}
+
+async function readConfigFile(): Promise<Record<string, unknown>> {
+  const filePath = getEmbeddingConfigPath();
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(content) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+  } catch (error) {
+    logger.warn("invalid embeddings config", {
+      path: filePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
+
+function readEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  const entries: Array<[string, string | undefined]> = [
+    ["provider", process.env.SAKTI_CODE_EMBEDDING_PROVIDER],
+    ["model", process.env.SAKTI_CODE_EMBEDDING_MODEL],
+    ["baseURL", process.env.SAKTI_CODE_EMBEDDING_API_URL],
+    ["apiKey", process.env.SAKTI_CODE_EMBEDDING_API_KEY],
+  ];
+  for (const [key, value] of entries) {
+    if (value?.trim()) env[key] = value.trim();
+  }
+  return env;
+}
+
+/**
+ * Load the configured embedding model
+ *
+ * @returns null when no model is configured or the config is invalid
+ */
+export async function loadEmbeddingConfig(): Promise<EmbeddingConfig | null> {
+  const raw = { ...(await readConfigFile()), ...readEnv() };
+  if (!raw.provider) return null;
+
+  const validated = EmbeddingConfig.safeParse(raw);
+  if (!validated.success) {
+    logger.warn("invalid embeddings config", {
+      error: validated.error.issues.map(issue => issue.message).join("; "),
+    });
+    return null;
+  }
+  return validated.data;
+}
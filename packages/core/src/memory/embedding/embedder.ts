@@ -0,0 +1,82 @@
+/**
+ * Embedding model access for semantic memory search
+ */
+
+import { createOpenAI } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { EmbeddingModelV3 } from "@ai-sdk/provider";
+import { embedMany } from "ai";
+import { loadEmbeddingConfig, type EmbeddingConfig } from "./config";
+
+export interface Embedder {
+  /** Model identifier stored with each vector, as "provider/model" */
+  id: string;
+  embed(values: string[]): Promise<number[][]>;
+}
+
+/** Set by setEmbedder; undefined means use the configured model */
+let embedderOverride: Embedder | null | undefined;
+
+/**
+ * Replace the configured embedding model
+ *
+ * Pass null to turn semantic search off and undefined to go back to the
+ * configured model. Used by tests and by hosts that bring their own model.
+ */
+export function setEmbedder(embedder: Embedder | null | undefined): void {
+  embedderOverride = embedder;
+}
+
+/**
+ * Endpoint of the local model server the chat models use, with its
+ * OpenAI-compatible path
+ */
+function localProviderApiUrl(): string {
+  const root = (process.env.SAKTI_CODE_LOCAL_PROVIDER_URL?.trim() || "http://127.0.0.1:11434")
+    .replace(/\/+$/, "")
+    .replace(/\/v1$/, "");
+  return `${root}/v1`;
+}
+
+function resolveEmbeddingModel(config: EmbeddingConfig): EmbeddingModelV3 {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAI({
+        apiKey: config.apiKey ?? process.env.OPENAI_API_KEY,
+        baseURL: config.baseURL,
+      }).embedding(config.model);
+    case "local":
+      return createOpenAICompatible({
+        name: "local",
+        baseURL: config.baseURL ?? localProviderApiUrl(),
+        apiKey: config.apiKey,
+      }).embeddingModel(config.model);
+    case "openai-compatible":
+      return createOpenAICompatible({
+        name: "openai-compatible",
+        baseURL: config.baseURL!,
+        apiKey: config.apiKey,
+      }).embeddingModel(config.model);
+  }
+}
+
+export function createEmbedder(config: EmbeddingConfig): Embedder {
+  const model = resolveEmbeddingModel(config);
+  return {
+    id: `${config.provider}/${config.model}`,
+    async embed(values) {
+      if (values.length === 0) return [];
+      const { embeddings } = await embedMany({ model, values, maxRetries: 1 });
+      return embeddings;
+    },
+  };
+}
+
+/**
+ * Embedding model for semantic search, or null when none is configured
+ */
+export async function getEmbedder(): Promise<Embedder | null> {
+  if (embedderOverride !== undefined) return embedderOverride;
+  const config = await loadEmbeddingConfig();
+  return config ? createEmbedder(config) : null;
+}
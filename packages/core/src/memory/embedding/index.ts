@@ -0,0 +1,5 @@
+export * from "./config";
+export * from "./embedder";
+export * from "./indexer";
+export * from "./search";
+export * from "./storage";
@@ -0,0 +1,134 @@
+/**
+ * Embedding indexer
+ *
+ * Embeds memory rows that have no current vector. It runs in the background
+ * after new messages are stored, before each semantic search for the newest
+ * rows, and on demand to re-index everything. Rows written before semantic
+ * search was set up are backfilled by the same pass.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { getEmbedder, type Embedder } from "./embedder";
+import { embeddingStorage } from "./storage";
+
+const logger = createLogger("sakti-code:memory:embedding");
+
+const BATCH_SIZE = 32;
+/** Longer texts are cut before embedding; most embedding models cap input length */
+const MAX_EMBEDDING_CHARS = 8_000;
+const SCHEDULE_DELAY_MS = 2_000;
+
+export interface EmbeddingIndexResult {
+  model: string | null;
+  indexed: number;
+  pending: number;
+}
+
+export interface EmbeddingStatus {
+  enabled: boolean;
+  model: string | null;
+  indexed: number;
+  pending: number;
+}
+
+/** Pass in progress; passes never overlap so no row is embedded twice */
+let running: Promise<number> | null = null;
+let scheduled: ReturnType<typeof setTimeout> | null = null;
+
+async function indexBatches(embedder: Embedder, limit: number): Promise<number> {
+  let indexed = 0;
+  while (indexed < limit) {
+    const batch = await embeddingStorage.listPendingSources(
+      embedder.id,
+      Math.min(BATCH_SIZE, limit - indexed)
+    );
+    if (batch.length === 0) break;
+
+    const vectors = await embedder.embed(
+      batch.map(source => source.content.slice(0, MAX_EMBEDDING_CHARS))
+    );
+    if (vectors.length !== batch.length) {
+      throw new Error(
+        `Embedding model returned ${vectors.length} vectors for ${batch.length} inputs`
+      );
+    }
+    for (let i = 0; i < batch.length; i++) {
+      await embeddingStorage.upsertEmbedding(batch[i]!, embedder.id, vectors[i]!);
+    }
+    indexed += batch.length;
+  }
+  return indexed;
+}
+
+async function runPass(embedder: Embedder, limit: number): Promise<number> {
+  while (running) await running.catch(() => undefined);
+  running = indexBatches(embedder, limit);
+  try {
+    return await running;
+  } finally {
+    running = null;
+  }
+}
+
+/**
+ * Embed rows that have no vector from the current model
+ *
+ * @param options.limit - Stop after this many rows; unlimited by default
+ */
+export async function indexPendingEmbeddings(
+  options: { limit?: number } = {}
+): Promise<EmbeddingIndexResult> {
+  const embedder = await getEmbedder();
+  if (!embedder) return { model: null, indexed: 0, pending: 0 };
+
+  const indexed = await runPass(embedder, options.limit ?? Number.POSITIVE_INFINITY);
+  return {
+    model: embedder.id,
+    indexed,
+    pending: await embeddingStorage.countPendingSources(embedder.id),
+  };
+}
+
+/**
+ * Drop every stored vector and embed all memory rows again
+ */
+export async function reindexEmbeddings(): Promise<EmbeddingIndexResult> {
+  const embedder = await getEmbedder();
+  if (!embedder) return { model: null, indexed: 0, pending: 0 };
+
+  while (running) await running.catch(() => undefined);
+  await embeddingStorage.deleteAllEmbeddings();
+  logger.info("re-indexing memory embeddings", { model: embedder.id });
+  return indexPendingEmbeddings();
+}
+
+/**
+ * Index pending rows shortly, in the background
+ *
+ * Calls within the delay share one pass. Failures are logged; the rows stay
+ * pending for the next pass.
+ */
+export function scheduleEmbeddingIndex(): void {
+  if (scheduled) return;
+  scheduled = setTimeout(() => {
+    scheduled = null;
+    indexPendingEmbeddings().catch(error => {
+      logger.warn("embedding index pass failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }, SCHEDULE_DELAY_MS);
+  scheduled.unref?.();
+}
+
+export async function getEmbeddingStatus(): Promise<EmbeddingStatus> {
+  const embedder = await getEmbedder();
+  if (!embedder) return { enabled: false, model: null, indexed: 0, pending: 0 };
+
+  return {
+    enabled: true,
+    model: embedder.id,
+    indexed: await embeddingStorage.countEmbeddings(embedder.id),
+    pending: await embeddingStorage.countPendingSources(embedder.id),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Vector similarity search over memory embeddings
+ *
+ * Vectors are compared in process; the store holds one vector per message,
+ * observation and reflection, which stays small enough to scan.
+ */
+
+import type { Embedder } from "./embedder";
+import { embeddingStorage, type EmbeddingSourceType } from "./storage";
+
+export interface SemanticMatch {
+  sourceType: EmbeddingSourceType;
+  sourceId: string;
+  /** Cosine similarity to the query, from -1 to 1 */
+  similarity: number;
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Memory rows most similar to a query, best first
+ */
+export async function searchEmbeddings(
+  embedder: Embedder,
+  query: string,
+  options: { threadId?: string; resourceIds?: string[]; limit: number }
+): Promise<SemanticMatch[]> {
+  const [queryVector] = await embedder.embed([query]);
+  if (!queryVector) return [];
+
+  const stored = await embeddingStorage.listEmbeddings(embedder.id, {
+    threadId: options.threadId,
+    resourceIds: options.resourceIds,
+  });
+  return stored
+    .map(item => ({
+      sourceType: item.sourceType,
+      sourceId: item.sourceId,
+      similarity: cosineSimilarity(queryVector, item.vector),
+    }))
+    .filter(match => match.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit);
+}
@@ -0,0 +1,257 @@
+/**
+ * EmbeddingStorage - vectors for semantic memory search
+ *
+ * Messages, observations and reflections are embedded from their search
+ * text, active observations and content respectively. A source row is
+ * pending when it has no vector from the current model or changed after its
+ * vector was computed.
+ */
+
+import { and, eq, inArray, sql, type SQL } from "drizzle-orm";
+import {
+  getDb,
+  memoryEmbeddings,
+  messages,
+  observationalMemory,
+  reflections,
+  type MemoryEmbedding,
+} from "../../server-bridge";
+
+export type EmbeddingSourceType = MemoryEmbedding["source_type"];
+
+export interface PendingEmbeddingSource {
+  sourceType: EmbeddingSourceType;
+  sourceId: string;
+  threadId: string | null;
+  resourceId: string | null;
+  content: string;
+  /** Source timestamp in the database's seconds */
+  updatedAt: number;
+}
+
+export interface StoredEmbedding {
+  sourceType: EmbeddingSourceType;
+  sourceId: string;
+  vector: Float32Array;
+}
+
+export interface EmbeddingSourceContent {
+  sourceType: EmbeddingSourceType;
+  sourceId: string;
+  threadId: string | null;
+  role: string;
+  content: string;
+  createdAt: Date;
+  messageIndex?: number;
+}
+
+export function encodeVector(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+export function decodeVector(buffer: Buffer | Uint8Array | ArrayBuffer): Float32Array {
+  // Copy so the view is aligned regardless of the driver's buffer offset
+  const bytes = buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : Uint8Array.from(buffer);
+  return new Float32Array(bytes.buffer, 0, Math.floor(bytes.byteLength / 4));
+}
+
+function pendingJoin(
+  sourceType: EmbeddingSourceType,
+  idColumn: string,
+  updatedColumn: string,
+  model: string
+): SQL {
+  return sql`LEFT JOIN memory_embeddings e
+      ON e.source_type = ${sourceType} AND e.source_id = ${sql.raw(idColumn)}
+    WHERE (e.source_id IS NULL OR e.model != ${model}
+      OR e.source_updated_at < ${sql.raw(updatedColumn)})`;
+}
+
+/**
+ * Source rows without a current vector, across all three memory tables
+ */
+function pendingSourcesQuery(model: string): SQL {
+  return sql`
+    SELECT 'message' AS source_type, m.id AS source_id, m.thread_id, m.resource_id,
+      m.search_text AS content, m.created_at AS updated_at
+    FROM messages m
+    ${pendingJoin("message", "m.id", "m.created_at", model)} AND m.search_text != ''
+    UNION ALL
+    SELECT 'observation', o.id, o.thread_id, o.resource_id, o.active_observations, o.updated_at
+    FROM observational_memory o
+    ${pendingJoin("observation", "o.id", "o.updated_at", model)}
+      AND o.active_observations IS NOT NULL AND o.active_observations != ''
+    UNION ALL
+    SELECT 'reflection', r.id, r.thread_id, r.resource_id, r.content, r.updated_at
+    FROM reflections r
+    ${pendingJoin("reflection", "r.id", "r.updated_at", model)} AND r.content != ''
+  `;
+}
+
+export class EmbeddingStorage {
+  /**
+   * Pending rows, newest first so recent conversation is searchable before
+   * the backfill of older rows finishes
+   */
+  async listPendingSources(model: string, limit: number): Promise<PendingEmbeddingSource[]> {
+    const db = await getDb();
+    const rows = (await db.all(
+      sql`${pendingSourcesQuery(model)} ORDER BY updated_at DESC LIMIT ${limit}`
+    )) as Array<Record<string, unknown>>;
+
+    return rows.map(row => ({
+      sourceType: row.source_type as EmbeddingSourceType,
+      sourceId: row.source_id as string,
+      threadId: (row.thread_id as string | null) ?? null,
+      resourceId: (row.resource_id as string | null) ?? null,
+      content: row.content as string,
+      updatedAt: Number(row.updated_at),
+    }));
+  }
+
+  async countPendingSources(model: string): Promise<number> {
+    const db = await getDb();
+    const rows = (await db.all(
+      sql`SELECT COUNT(*) AS count FROM (${pendingSourcesQuery(model)})`
+    )) as Array<{ count: number }>;
+    return Number(rows[0]?.count ?? 0);
+  }
+
+  async countEmbeddings(model: string): Promise<number> {
+    const db = await getDb();
+    const result = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(memoryEmbeddings)
+      .where(eq(memoryEmbeddings.model, model));
+    return result[0]?.count ?? 0;
+  }
+
+  async upsertEmbedding(source: PendingEmbeddingSource, model: string, vector: number[]) {
+    const db = await getDb();
+    const values = {
+      thread_id: source.threadId,
+      resource_id: source.resourceId,
+      model,
+      dimensions: vector.length,
+      embedding: encodeVector(vector),
+      source_updated_at: new Date(source.updatedAt * 1000),
+      created_at: new Date(),
+    };
+
+    await db
+      .insert(memoryEmbeddings)
+      .values({ source_type: source.sourceType, source_id: source.sourceId, ...values })
+      .onConflictDoUpdate({
+        target: [memoryEmbeddings.source_type, memoryEmbeddings.source_id],
+        set: values,
+      });
+  }
+
+  /**
+   * Embeddings made by a model, optionally of one thread or of some resources
+   */
+  async listEmbeddings(
+    model: string,
+    filter: { threadId?: string; resourceIds?: string[] } = {}
+  ): Promise<StoredEmbedding[]> {
+    if (filter.resourceIds?.length === 0) return [];
+    const db = await getDb();
+    const condition = and(
+      eq(memoryEmbeddings.model, model),
+      filter.threadId ? eq(memoryEmbeddings.thread_id, filter.threadId) : undefined,
+      filter.resourceIds ? inArray(memoryEmbeddings.resource_id, filter.resourceIds) : undefined
+    );
+    const rows = (await db
+      .select({
+        source_type: memoryEmbeddings.source_type,
+        source_id: memoryEmbeddings.source_id,
+        embedding: memoryEmbeddings.embedding,
+      })
+      .from(memoryEmbeddings)
+      .where(condition)
+      .all()) as Array<Pick<MemoryEmbedding, "source_type" | "source_id" | "embedding">>;
+
+    return rows.map(row => ({
+      sourceType: row.source_type,
+      sourceId: row.source_id,
+      vector: decodeVector(row.embedding),
+    }));
+  }
+
+  async deleteAllEmbeddings(): Promise<void> {
+    const db = await getDb();
+    await db.delete(memoryEmbeddings);
+  }
+
+  /**
+   * Text and metadata of embedded sources, keyed by "sourceType:sourceId"
+   *
+   * Sources deleted since they were embedded are left out.
+   */
+  async getSourceContents(
+    refs: Array<{ sourceType: EmbeddingSourceType; sourceId: string }>
+  ): Promise<Map<string, EmbeddingSourceContent>> {
+    const db = await getDb();
+    const idsOf = (type: EmbeddingSourceType) =>
+      refs.filter(ref => ref.sourceType === type).map(ref => ref.sourceId);
+    const contents = new Map<string, EmbeddingSourceContent>();
+
+    const messageIds = idsOf("message");
+    if (messageIds.length > 0) {
+      const rows = await db.select().from(messages).where(inArray(messages.id, messageIds)).all();
+      for (const row of rows) {
+        contents.set(`message:${row.id}`, {
+          sourceType: "message",
+          sourceId: row.id,
+          threadId: row.thread_id,
+          role: row.role,
+          content: row.injection_text,
+          createdAt: row.created_at,
+          messageIndex: row.message_index,
+        });
+      }
+    }
+
+    const observationIds = idsOf("observation");
+    if (observationIds.length > 0) {
+      const rows = await db
+        .select()
+        .from(observationalMemory)
+        .where(inArray(observationalMemory.id, observationIds))
+        .all();
+      for (const row of rows) {
+        contents.set(`observation:${row.id}`, {
+          sourceType: "observation",
+          sourceId: row.id,
+          threadId: row.thread_id,
+          role: "observation",
+          content: row.active_observations ?? "",
+          createdAt: row.updated_at,
+        });
+      }
+    }
+
+    const reflectionIds = idsOf("reflection");
+    if (reflectionIds.length > 0) {
+      const rows = await db
+        .select()
+        .from(reflections)
+        .where(inArray(reflections.id, reflectionIds))
+        .all();
+      for (const row of rows) {
+        contents.set(`reflection:${row.id}`, {
+          sourceType: "reflection",
+          sourceId: row.id,
+          threadId: row.thread_id,
+          role: "reflection",
+          content: row.content,
+          createdAt: row.updated_at,
+        });
+      }
+    }
+
+    return contents;
+  }
+}
+
+export const embeddingStorage = new EmbeddingStorage();
@@ -25,6 +25,22 @@ export {
 
 export { executeMemorySearch, memorySearchTool, type SearchResult } from "./search";
 
+export {
+  EmbeddingConfig,
+  createEmbedder,
+  getEmbedder,
+  getEmbeddingConfigPath,
+  getEmbeddingStatus,
+  indexPendingEmbeddings,
+  loadEmbeddingConfig,
+  reindexEmbeddings,
+  scheduleEmbeddingIndex,
+  setEmbedder,
+  type Embedder,
+  type EmbeddingIndexResult,
+  type EmbeddingStatus,
+} from "./embedding";
+
 export {
   SimpleTokenCounter,
   calculateObservationThresholds,
@@ -88,6 +104,41 @@ export {
   type ReflectorOutput,
 } from "./reflection/reflector";
 
+// Pinned facts, user settings and the memory inspector
+export {
+  formatPinsForInjection,
+  memoryPinStorage,
+  type CreateMemoryPinInput,
+  type MemoryPinSourceType,
+} from "./pin";
+
+export {
+  MemorySettings,
+  applyMemorySettings,
+  getMemorySettingsPath,
+  loadMemorySettings,
+  saveMemorySettings,
+} from "./settings";
+
+export {
+  MemoryBusyError,
+  getMemorySnapshot,
+  listMemoryResources,
+  updateObservations,
+  type MemoryResourceSummary,
+  type MemorySnapshot,
+  type MemoryThreadSummary,
+} from "./inspector";
+
+// Memory shared between linked resources
+export {
+  formatLinkedMemoryForInjection,
+  loadLinkedMemory,
+  memoryLinkStorage,
+  type LinkedKeypoint,
+  type LinkedMemorySource,
+} from "./link";
+
 // Phase 4: Working Memory
 export {
   WORKING_MEMORY_TEMPLATE,
@@ -0,0 +1,139 @@
+/**
+ * Memory inspector
+ *
+ * Read and correct what the memory system stored for a resource or thread:
+ * observations, reflections, working memory and pinned facts. Edits bump the
+ * row's updated_at, so semantic search re-embeds the corrected text.
+ */
+
+import { desc } from "drizzle-orm";
+import {
+  getDb,
+  threads,
+  type MemoryPin,
+  type ObservationalMemory,
+  type Reflection,
+  type WorkingMemory,
+} from "../server-bridge";
+import { observationalMemoryStorage } from "./observation/storage";
+import { memoryPinStorage } from "./pin/storage";
+import { reflectionStorage } from "./reflection/storage";
+import { workingMemoryStorage } from "./working-memory/storage";
+
+export interface MemoryThreadSummary {
+  id: string;
+  title: string;
+  updatedAt: Date;
+}
+
+export interface MemoryResourceSummary {
+  resourceId: string;
+  threads: MemoryThreadSummary[];
+}
+
+export interface MemorySnapshot {
+  resourceId: string;
+  threadId: string | null;
+  /** Thread-scoped record for a thread, the resource-scoped record otherwise */
+  observations: ObservationalMemory | null;
+  reflections: Reflection[];
+  workingMemory: WorkingMemory | null;
+  /** For a thread, also the pins that apply to its whole resource */
+  pins: MemoryPin[];
+}
+
+/**
+ * Thrown when observations are edited while the observer or reflector is
+ * rewriting them; the edit would be lost when that run finishes
+ */
+export class MemoryBusyError extends Error {
+  constructor(public readonly recordId: string) {
+    super("Memory is being updated by the observer or reflector; try again shortly");
+    this.name = "MemoryBusyError";
+  }
+}
+
+/**
+ * Resources that have threads, most recently active first
+ */
+export async function listMemoryResources(): Promise<MemoryResourceSummary[]> {
+  const db = await getDb();
+  const rows = (await db
+    .select({
+      id: threads.id,
+      resource_id: threads.resource_id,
+      title: threads.title,
+      updated_at: threads.updated_at,
+    })
+    .from(threads)
+    .orderBy(desc(threads.updated_at))
+    .all()) as Array<{ id: string; resource_id: string; title: string; updated_at: Date }>;
+
+  const resources = new Map<string, MemoryResourceSummary>();
+  for (const row of rows) {
+    let resource = resources.get(row.resource_id);
+    if (!resource) {
+      resource = { resourceId: row.resource_id, threads: [] };
+      resources.set(row.resource_id, resource);
+    }
+    resource.threads.push({ id: row.id, title: row.title, updatedAt: row.updated_at });
+  }
+  return Array.from(resources.values());
+}
+
+/**
+ * Everything the memory system holds for one thread, or for a resource as a whole
+ */
+export async function getMemorySnapshot(input: {
+  resourceId: string;
+  threadId?: string;
+}): Promise<MemorySnapshot> {
+  const { resourceId, threadId } = input;
+
+  const [observations, reflections, workingMemory, pins] = threadId
+    ? await Promise.all([
+        observationalMemoryStorage.getObservationalMemory("thread", resourceId, threadId),
+        reflectionStorage.getReflectionsByThread(threadId),
+        // Thread-scoped working memory is keyed by the thread ID
+        workingMemoryStorage.getWorkingMemory(threadId, "thread"),
+        memoryPinStorage.listPins(resourceId, threadId),
+      ])
+    : await Promise.all([
+        observationalMemoryStorage.getObservationalMemory("resource", resourceId),
+        reflectionStorage.getReflectionsByResource(resourceId),
+        workingMemoryStorage.getWorkingMemory(resourceId, "resource"),
+        memoryPinStorage.listPins(resourceId),
+      ]);
+
+  return {
+    resourceId,
+    threadId: threadId ?? null,
+    observations,
+    reflections,
+    workingMemory,
+    pins,
+  };
+}
+
+/**
+ * Replace a record's active observations
+ *
+ * @returns The updated record, or null when it does not exist
+ * @throws {MemoryBusyError} While the record is being observed or reflected
+ */
+export async function updateObservations(
+  id: string,
+  content: string
+): Promise<ObservationalMemory | null> {
+  const record = await observationalMemoryStorage.getObservationalMemoryById(id);
+  if (!record) return null;
+
+  const locked = record.lock_expires_at != null && record.lock_expires_at > new Date();
+  if (record.is_observing || record.is_reflecting || locked) {
+    throw new MemoryBusyError(id);
+  }
+
+  return observationalMemoryStorage.updateObservationalMemory(id, {
+    activeObservations: content,
+  });
+}
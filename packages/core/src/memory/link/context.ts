@@ -0,0 +1,126 @@
+/**
+ * Linked memory context
+ *
+ * Loads the reflections and project keypoints of resources linked to the
+ * current one, labelled with the workspace they came from. Keypoints belong to
+ * workspaces; a resource ID matches a workspace by path or ID, or every
+ * workspace of a project by the project's path.
+ */
+
+import { sql } from "drizzle-orm";
+import { getDb } from "../../server-bridge";
+import { reflectionStorage } from "../reflection/storage";
+import { memoryLinkStorage } from "./storage";
+
+/** Latest-generation reflections taken from each linked resource */
+const LINKED_REFLECTION_LIMIT = 2;
+/** Newest keypoints taken from each linked resource */
+const LINKED_KEYPOINT_LIMIT = 10;
+
+export interface LinkedKeypoint {
+  taskTitle: string;
+  milestone: string;
+  summary: string;
+  completedAt: Date;
+}
+
+export interface LinkedMemorySource {
+  resourceId: string;
+  /** Workspace or project name; null when the resource is not a known workspace */
+  name: string | null;
+  reflections: string[];
+  keypoints: LinkedKeypoint[];
+}
+
+async function getResourceName(resourceId: string): Promise<string | null> {
+  const db = await getDb();
+  const rows = (await db.all(sql`
+    SELECT name FROM workspaces WHERE path = ${resourceId} OR id = ${resourceId}
+    UNION ALL
+    SELECT name FROM projects WHERE path = ${resourceId}
+    LIMIT 1
+  `)) as Array<{ name: string }>;
+  return rows[0]?.name ?? null;
+}
+
+async function listResourceKeypoints(resourceId: string, limit: number): Promise<LinkedKeypoint[]> {
+  const db = await getDb();
+  const rows = (await db.all(sql`
+    SELECT k.task_title, k.milestone, k.summary, k.completed_at
+    FROM project_keypoints k
+    JOIN workspaces w ON w.id = k.workspace_id
+    WHERE w.path = ${resourceId} OR w.id = ${resourceId}
+      OR w.project_id IN (SELECT id FROM projects WHERE path = ${resourceId})
+    ORDER BY k.completed_at DESC
+    LIMIT ${limit}
+  `)) as Array<Record<string, unknown>>;
+
+  return rows.map(row => ({
+    taskTitle: row.task_title as string,
+    milestone: row.milestone as string,
+    summary: row.summary as string,
+    // Stored in seconds
+    completedAt: new Date(Number(row.completed_at) * 1000),
+  }));
+}
+
+/**
+ * Reflections and keypoints shared with a resource through its links
+ *
+ * Private resources and linked resources with nothing to share are left out.
+ */
+export async function loadLinkedMemory(resourceId: string): Promise<LinkedMemorySource[]> {
+  const sources: LinkedMemorySource[] = [];
+  for (const linkedId of await memoryLinkStorage.listSharedResources(resourceId)) {
+    const [reflections, keypoints, name] = await Promise.all([
+      reflectionStorage.getReflectionsByResource(linkedId, LINKED_REFLECTION_LIMIT),
+      listResourceKeypoints(linkedId, LINKED_KEYPOINT_LIMIT),
+      getResourceName(linkedId),
+    ]);
+    const contents = reflections.map(reflection => reflection.content.trim()).filter(Boolean);
+    if (contents.length === 0 && keypoints.length === 0) continue;
+
+    sources.push({ resourceId: linkedId, name, reflections: contents, keypoints });
+  }
+  return sources;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+/**
+ * Format linked memory for injection into LLM context
+ *
+ * @returns One block per linked workspace in XML tags, or "" when there is nothing
+ */
+export function formatLinkedMemoryForInjection(sources: LinkedMemorySource[]): string {
+  if (sources.length === 0) {
+    return "";
+  }
+
+  const blocks = sources.map(source => {
+    const lines = [
+      `<workspace name="${escapeAttribute(source.name ?? source.resourceId)}" path="${escapeAttribute(source.resourceId)}">`,
+    ];
+    if (source.keypoints.length > 0) {
+      lines.push("Milestones:");
+      for (const keypoint of source.keypoints) {
+        const date = keypoint.completedAt.toISOString().slice(0, 10);
+        lines.push(`- [${keypoint.milestone} ${date}] ${keypoint.taskTitle}: ${keypoint.summary}`);
+      }
+    }
+    if (source.reflections.length > 0) {
+      lines.push("Reflections:", ...source.reflections);
+    }
+    lines.push("</workspace>");
+    return lines.join("\n");
+  });
+
+  return `
+<linked-memory>
+Knowledge from linked workspaces. Each block names the workspace it came from; check that it applies here before relying on it.
+${blocks.join("\n")}
+</linked-memory>
+`;
+}
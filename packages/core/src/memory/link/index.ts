@@ -0,0 +1,11 @@
+/**
+ * Memory Links Index
+ */
+
+export {
+  formatLinkedMemoryForInjection,
+  loadLinkedMemory,
+  type LinkedKeypoint,
+  type LinkedMemorySource,
+} from "./context";
+export { memoryLinkStorage } from "./storage";
@@ -0,0 +1,123 @@
+/**
+ * MemoryLinkStorage - opt-in memory sharing between resources
+ *
+ * Links are symmetric and stored once, under the resource that created them.
+ * A private resource keeps its links but never shares its memory through them.
+ */
+
+import { and, eq, or } from "drizzle-orm";
+import { getDb, memoryLinks, memoryResourceSettings, type MemoryLink } from "../../server-bridge";
+
+export class MemoryLinkStorage {
+  /**
+   * Link two resources; linking an already linked pair returns the existing link
+   *
+   * @throws {Error} When a resource is linked to itself
+   */
+  async createLink(resourceId: string, linkedResourceId: string): Promise<MemoryLink> {
+    if (resourceId === linkedResourceId) {
+      throw new Error("A resource cannot be linked to itself");
+    }
+
+    const existing = await this.getLink(resourceId, linkedResourceId);
+    if (existing) return existing;
+
+    const db = await getDb();
+    const [link] = await db
+      .insert(memoryLinks)
+      .values({
+        resource_id: resourceId,
+        linked_resource_id: linkedResourceId,
+        created_at: new Date(),
+      })
+      .returning();
+    return link;
+  }
+
+  /**
+   * The link between two resources, in either direction
+   */
+  async getLink(resourceId: string, otherResourceId: string): Promise<MemoryLink | null> {
+    const db = await getDb();
+    const result = await db
+      .select()
+      .from(memoryLinks)
+      .where(this.pairCondition(resourceId, otherResourceId))
+      .get();
+    return result ?? null;
+  }
+
+  async deleteLink(resourceId: string, otherResourceId: string): Promise<boolean> {
+    const db = await getDb();
+    const deleted = await db
+      .delete(memoryLinks)
+      .where(this.pairCondition(resourceId, otherResourceId))
+      .returning({ resource_id: memoryLinks.resource_id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Resources linked to a resource, oldest link first
+   */
+  async listLinkedResources(resourceId: string): Promise<string[]> {
+    const db = await getDb();
+    const rows = (await db
+      .select()
+      .from(memoryLinks)
+      .where(
+        or(eq(memoryLinks.resource_id, resourceId), eq(memoryLinks.linked_resource_id, resourceId))
+      )
+      .orderBy(memoryLinks.created_at)
+      .all()) as MemoryLink[];
+
+    return rows.map(row =>
+      row.resource_id === resourceId ? row.linked_resource_id : row.resource_id
+    );
+  }
+
+  async isPrivate(resourceId: string): Promise<boolean> {
+    const db = await getDb();
+    const result = await db
+      .select()
+      .from(memoryResourceSettings)
+      .where(eq(memoryResourceSettings.resource_id, resourceId))
+      .get();
+    return Boolean(result?.is_private);
+  }
+
+  async setPrivate(resourceId: string, isPrivate: boolean): Promise<void> {
+    const db = await getDb();
+    const values = { is_private: isPrivate, updated_at: new Date() };
+    await db
+      .insert(memoryResourceSettings)
+      .values({ resource_id: resourceId, ...values })
+      .onConflictDoUpdate({ target: memoryResourceSettings.resource_id, set: values });
+  }
+
+  /**
+   * Linked resources whose memory may be shared with a resource
+   */
+  async listSharedResources(resourceId: string): Promise<string[]> {
+    const linked = await this.listLinkedResources(resourceId);
+    const shared: string[] = [];
+    for (const id of linked) {
+      if (!(await this.isPrivate(id))) shared.push(id);
+    }
+    return shared;
+  }
+
+  private pairCondition(resourceId: string, otherResourceId: string) {
+    return or(
+      and(
+        eq(memoryLinks.resource_id, resourceId),
+        eq(memoryLinks.linked_resource_id, otherResourceId)
+      ),
+      and(
+        eq(memoryLinks.resource_id, otherResourceId),
+        eq(memoryLinks.linked_resource_id, resourceId)
+      )
+    );
+  }
+}
+
+export const memoryLinkStorage = new MemoryLinkStorage();
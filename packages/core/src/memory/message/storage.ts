@@ -4,8 +4,10 @@
  * Phase 1 Memory System - Message storage with three-storage model for non-destructive compaction.
  */
 
-import { and, eq, sql } from "drizzle-orm";
+import { and, asc, eq, gte, inArray, isNull, lt, or, sql, type SQL } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
 import { getDb, messages, threads, type Message } from "../../server-bridge";
+import { scheduleEmbeddingIndex } from "../embedding/indexer";
 
 export interface CreateMessageInput {
   id: string;
@@ -17,6 +19,8 @@ export interface CreateMessageInput {
   injectionText?: string;
   taskId?: string;
   sessionId?: string;
+  /** Checkpoint summary; set on the messages written by session compaction */
+  summary?: string;
   createdAt: number;
   messageIndex: number;
 }
@@ -25,6 +29,10 @@ export interface ListMessagesOptions {
   threadId?: string;
   resourceId?: string;
   limit?: number;
+  /** Leave out messages folded into a compaction checkpoint */
+  uncompacted?: boolean;
+  /** Only messages created at or after this time */
+  since?: Date;
 }
 
 export class MessageStorage {
@@ -63,11 +71,13 @@ export class MessageStorage {
         search_text: searchText,
         injection_text: injectionText,
         task_id: taskIdToUse,
+        summary: input.summary ?? null,
         created_at: new Date(input.createdAt),
         message_index: input.messageIndex,
       })
       .returning();
 
+    scheduleEmbeddingIndex();
     return message;
   }
 
@@ -80,44 +90,24 @@ export class MessageStorage {
   async listMessages(options?: ListMessagesOptions): Promise<Message[]> {
     const db = await getDb();
 
-    if (options?.threadId && options?.resourceId) {
-      return db
-        .select()
-        .from(messages)
-        .where(
-          and(
-            eq(messages.thread_id, options.threadId!),
-            eq(messages.resource_id, options.resourceId!)
-          )
-        )
-        .orderBy(messages.message_index)
-        .limit(options.limit ?? 100)
-        .all();
-    }
-
+    const conditions: SQL[] = [];
     if (options?.threadId) {
-      return db
-        .select()
-        .from(messages)
-        .where(eq(messages.thread_id, options.threadId!))
-        .orderBy(messages.message_index)
-        .limit(options.limit ?? 100)
-        .all();
+      conditions.push(eq(messages.thread_id, options.threadId));
     }
-
     if (options?.resourceId) {
-      return db
-        .select()
-        .from(messages)
-        .where(eq(messages.resource_id, options.resourceId!))
-        .orderBy(messages.message_index)
-        .limit(options.limit ?? 100)
-        .all();
+      conditions.push(eq(messages.resource_id, options.resourceId));
+    }
+    if (options?.uncompacted) {
+      conditions.push(or(isNull(messages.compaction_level), eq(messages.compaction_level, 0))!);
+    }
+    if (options?.since) {
+      conditions.push(gte(messages.created_at, options.since));
     }
 
     return db
       .select()
       .from(messages)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
       .orderBy(messages.message_index)
       .limit(options?.limit ?? 100)
       .all();
@@ -137,6 +127,64 @@ export class MessageStorage {
     await db.delete(messages).where(eq(messages.id, id));
   }
 
+  /**
+   * Delete the messages of a thread created at or after a point in time
+   *
+   * Used when a session is reverted so the agent no longer recalls undone turns.
+   */
+  async deleteMessagesSince(threadId: string, since: Date): Promise<void> {
+    const db = await getDb();
+    await db
+      .delete(messages)
+      .where(and(eq(messages.thread_id, threadId), gte(messages.created_at, since)));
+  }
+
+  /**
+   * Mark messages as folded into a compaction checkpoint
+   *
+   * Their raw, search and injection text are kept so memory-search still finds
+   * them; only context assembly skips them.
+   */
+  async markMessagesCompacted(ids: string[], level: number = 1): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await getDb();
+    await db.update(messages).set({ compaction_level: level }).where(inArray(messages.id, ids));
+  }
+
+  /**
+   * Copy the messages of a thread into another thread under new IDs
+   *
+   * Used when a session is forked; only messages created before `before` are
+   * copied when it is given. Returns a map from source to copied message ID.
+   */
+  async copyThreadMessages(input: {
+    sourceThreadId: string;
+    targetThreadId: string;
+    before?: Date;
+  }): Promise<Map<string, string>> {
+    const db = await getDb();
+    const condition = input.before
+      ? and(eq(messages.thread_id, input.sourceThreadId), lt(messages.created_at, input.before))
+      : eq(messages.thread_id, input.sourceThreadId);
+    const rows = await db
+      .select()
+      .from(messages)
+      .where(condition)
+      .orderBy(asc(messages.message_index))
+      .all();
+
+    const copied = new Map<string, string>();
+    for (const row of rows) {
+      const id = uuidv7();
+      // Tasks stay with the source session
+      await db
+        .insert(messages)
+        .values({ ...row, id, thread_id: input.targetThreadId, task_id: null });
+      copied.set(row.id, id);
+    }
+    return copied;
+  }
+
   async searchMessages(searchQuery: string, limit: number = 5): Promise<Message[]> {
     const db = await getDb();
 
@@ -172,64 +220,59 @@ export class MessageStorage {
     return results as Message[];
   }
 
+  /**
+   * Search messages with BM25 ranked by recency
+   *
+   * `resourceIds` limits the search to messages of those resources; an empty
+   * list matches nothing.
+   */
   async searchMessagesWithRecency(
     searchQuery: string,
     limit: number = 5,
-    threadId?: string
+    threadId?: string,
+    resourceIds?: string[]
   ): Promise<Array<Message & { matchScore: number; finalRank: number }>> {
     const db = await getDb();
     const RECENCY_FACTOR = 0.0000001;
 
-    let query;
+    const filters: SQL[] = [sql`messages_fts MATCH ${searchQuery}`];
     if (threadId) {
-      query = sql`
-        SELECT 
-          m.id,
-          m.thread_id,
-          m.resource_id,
-          m.role,
-          m.raw_content,
-          m.search_text,
-          m.injection_text,
-          m.task_id,
-          m.summary,
-          m.compaction_level,
-          m.created_at,
-          m.message_index,
-          m.token_count,
-          bm25(messages_fts) as match_score,
-          (bm25(messages_fts) - (m.created_at * ${RECENCY_FACTOR})) as final_rank
-        FROM messages_fts fts
-        JOIN messages m ON m.rowid = fts.rowid
-        WHERE messages_fts MATCH ${searchQuery} AND m.thread_id = ${threadId}
-        ORDER BY final_rank ASC
-        LIMIT ${limit}
-      `;
-    } else {
-      query = sql`
-        SELECT 
-          m.id,
-          m.thread_id,
-          m.resource_id,
-          m.role,
-          m.raw_content,
-          m.search_text,
-          m.injection_text,
-          m.task_id,
-          m.summary,
-          m.compaction_level,
-          m.created_at,
-          m.message_index,
-          m.token_count,
-          bm25(messages_fts) as match_score,
-          (bm25(messages_fts) - (m.created_at * ${RECENCY_FACTOR})) as final_rank
-        FROM messages_fts fts
-        JOIN messages m ON m.rowid = fts.rowid
-        WHERE messages_fts MATCH ${searchQuery}
-        ORDER BY final_rank ASC
-        LIMIT ${limit}
-      `;
+      filters.push(sql`m.thread_id = ${threadId}`);
     }
+    if (resourceIds) {
+      filters.push(
+        resourceIds.length > 0
+          ? sql`m.resource_id IN (${sql.join(
+              resourceIds.map(id => sql`${id}`),
+              sql`, `
+            )})`
+          : sql`0`
+      );
+    }
+
+    const query = sql`
+      SELECT 
+        m.id,
+        m.thread_id,
+        m.resource_id,
+        m.role,
+        m.raw_content,
+        m.search_text,
+        m.injection_text,
+        m.task_id,
+        m.summary,
+        m.compaction_level,
+        m.created_at,
+        m.message_index,
+        m.token_count,
+        bm25(messages_fts) as match_score,
+        (bm25(messages_fts) - (m.created_at * ${RECENCY_FACTOR})) as final_rank
+      FROM messages_fts fts
+      JOIN messages m ON m.rowid = fts.rowid
+      WHERE ${sql.join(filters, sql` AND `)}
+      ORDER BY final_rank ASC
+      LIMIT ${limit}
+    `;
 
     const results = await db.all(query);
 
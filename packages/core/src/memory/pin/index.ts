@@ -0,0 +1,10 @@
+/**
+ * Memory Pins Index
+ */
+
+export {
+  formatPinsForInjection,
+  memoryPinStorage,
+  type CreateMemoryPinInput,
+  type MemoryPinSourceType,
+} from "./storage";
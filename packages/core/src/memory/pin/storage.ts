@@ -0,0 +1,109 @@
+/**
+ * MemoryPinStorage - facts the user pinned as permanent memory
+ *
+ * Pins live outside the observation text so the observer and the reflector
+ * can never rewrite or drop them. A pin applies to one thread, or to every
+ * thread of its resource when it has no thread.
+ */
+
+import { and, asc, eq, isNull, or } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
+import { getDb, memoryPins, type MemoryPin } from "../../server-bridge";
+
+export type MemoryPinSourceType = MemoryPin["source_type"];
+
+export interface CreateMemoryPinInput {
+  resourceId: string;
+  threadId?: string;
+  content: string;
+  sourceType?: MemoryPinSourceType;
+  sourceId?: string;
+}
+
+export class MemoryPinStorage {
+  async createPin(input: CreateMemoryPinInput): Promise<MemoryPin> {
+    const db = await getDb();
+    const now = new Date();
+
+    const [pin] = await db
+      .insert(memoryPins)
+      .values({
+        id: uuidv7(),
+        resource_id: input.resourceId,
+        thread_id: input.threadId ?? null,
+        content: input.content,
+        source_type: input.sourceType ?? "manual",
+        source_id: input.sourceId ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .returning();
+
+    return pin;
+  }
+
+  async getPinById(id: string): Promise<MemoryPin | null> {
+    const db = await getDb();
+    const result = await db.select().from(memoryPins).where(eq(memoryPins.id, id)).get();
+    return result ?? null;
+  }
+
+  /**
+   * Pins that apply to a thread: its own and its resource's
+   *
+   * Without a thread, only the pins that apply to the whole resource.
+   */
+  async listPins(resourceId: string, threadId?: string): Promise<MemoryPin[]> {
+    const db = await getDb();
+    const threadCondition = threadId
+      ? or(isNull(memoryPins.thread_id), eq(memoryPins.thread_id, threadId))
+      : isNull(memoryPins.thread_id);
+
+    return db
+      .select()
+      .from(memoryPins)
+      .where(and(eq(memoryPins.resource_id, resourceId), threadCondition))
+      .orderBy(asc(memoryPins.created_at))
+      .all();
+  }
+
+  async updatePin(id: string, content: string): Promise<MemoryPin | null> {
+    const db = await getDb();
+    const [updated] = await db
+      .update(memoryPins)
+      .set({ content, updated_at: new Date() })
+      .where(eq(memoryPins.id, id))
+      .returning();
+    return updated ?? null;
+  }
+
+  async deletePin(id: string): Promise<boolean> {
+    const db = await getDb();
+    const deleted = await db
+      .delete(memoryPins)
+      .where(eq(memoryPins.id, id))
+      .returning({ id: memoryPins.id });
+    return deleted.length > 0;
+  }
+}
+
+export const memoryPinStorage = new MemoryPinStorage();
+
+/**
+ * Format pinned facts for injection into LLM context
+ *
+ * @returns Facts in XML tags, or "" when there are none
+ */
+export function formatPinsForInjection(pins: Array<Pick<MemoryPin, "content">>): string {
+  const facts = pins.map(pin => pin.content.trim()).filter(Boolean);
+  if (facts.length === 0) {
+    return "";
+  }
+
+  return `
+<pinned-memory>
+These facts were confirmed by the user. Treat them as true unless the user says otherwise.
+${facts.map(fact => `- ${fact}`).join("\n")}
+</pinned-memory>
+`;
+}
@@ -107,8 +107,8 @@ export class MemoryProcessor {
     if (recentMessages.length === 0) {
       recentMessages = await messageStorage.listMessages(
         recallScope === "resource"
-          ? ({ resourceId, limit: 10 } as ListMessagesOptions)
-          : ({ threadId, limit: 10 } as ListMessagesOptions)
+          ? ({ resourceId, limit: 10, uncompacted: true } as ListMessagesOptions)
+          : ({ threadId, limit: 10, uncompacted: true } as ListMessagesOptions)
       );
     }
 
@@ -84,6 +84,16 @@ export class ReflectionStorage {
       .all();
   }
 
+  async updateReflection(id: string, content: string): Promise<Reflection | null> {
+    const db = await getDb();
+    const [updated] = await db
+      .update(reflections)
+      .set({ content, updated_at: new Date() })
+      .where(eq(reflections.id, id))
+      .returning();
+    return updated ?? null;
+  }
+
   async deleteReflection(id: string): Promise<void> {
     const db = await getDb();
     await db.delete(reflections).where(eq(reflections.id, id));
@@ -1,22 +1,76 @@
 /**
  * memory-search tool
  *
- * Search past conversations using BM25 + recency ranking.
+ * Search past conversations using BM25 + recency ranking, merged with
+ * semantic similarity when an embedding model is configured.
  *
  * Uses SQLite FTS5 for full-text search with BM25 ranking,
  * plus a recency boost to prioritize newer messages when
- * keyword match quality is similar.
+ * keyword match quality is similar. With embeddings, messages,
+ * observations and reflections are also ranked by vector similarity
+ * and the two rankings are combined with reciprocal rank fusion.
+ *
+ * The tool only searches the memory of the session's resource, or of the
+ * requested thread's resource, and of the linked resources that are not
+ * private. A requested thread with no stored row is searched on its own.
  */
 
+import { createLogger } from "@sakti-code/shared/logger";
 import { tool } from "ai";
+import { eq } from "drizzle-orm";
 import { z } from "zod";
+import { Instance } from "../instance";
+import { getDb, threads } from "../server-bridge";
+import {
+  embeddingStorage,
+  getEmbedder,
+  indexPendingEmbeddings,
+  searchEmbeddings,
+  type EmbeddingSourceType,
+  type SemanticMatch,
+} from "./embedding";
+import { memoryLinkStorage } from "./link/storage";
 import { messageStorage } from "./message/storage";
 
+const logger = createLogger("sakti-code:memory:search");
+
+/** Reciprocal rank fusion constant; damps the weight of the top few ranks */
+const RRF_K = 60;
+/** Candidates taken from each ranking per requested result */
+const CANDIDATE_FACTOR = 4;
+/** Rows embedded before a search so the newest messages are searchable */
+const SEARCH_CATCH_UP_LIMIT = 64;
+
+async function getThreadResourceId(threadId: string): Promise<string | undefined> {
+  const db = await getDb();
+  const thread = await db
+    .select({ resourceId: threads.resource_id })
+    .from(threads)
+    .where(eq(threads.id, threadId))
+    .get();
+  return thread?.resourceId;
+}
+
+/**
+ * Resource whose memory the tool searches: the session's, falling back to
+ * the resource of the requested thread
+ */
+async function getSearchResourceId(threadId?: string): Promise<string | undefined> {
+  const sessionResourceId = Instance.inContext
+    ? await getThreadResourceId(Instance.context.sessionID)
+    : undefined;
+  if (sessionResourceId) return sessionResourceId;
+  return threadId ? getThreadResourceId(threadId) : undefined;
+}
+
 export const memorySearchTool = tool({
-  description: `Search past conversations using BM25 + recency ranking.
+  description: `Search past conversations using BM25 + recency ranking, plus semantic similarity when embeddings are configured.
 
-This tool searches through all stored messages using SQLite FTS5 full-text search.
+This tool searches the stored messages of this workspace, and of linked workspaces that share
+their memory, using SQLite FTS5 full-text search.
 It uses BM25 ranking with a recency boost to find the most relevant recent messages.
+When an embedding model is configured it also finds messages, observations and
+reflections that mean the same thing in different words.
 
 Best for:
 - Finding code snippets from earlier in the conversation
@@ -29,6 +83,7 @@ Query tips:
 - "LoginSchema" will find the exact schema definition
 - "auth.ts JWT" will find messages mentioning both
 - Code identifiers are preserved (e.g., "refresh_tokens" is one token)
+- Natural-language questions work too when semantic search is on
 
 Examples:
 - Search: { "query": "LoginSchema" }
@@ -39,42 +94,163 @@ Examples:
     threadId: z.string().optional().describe("Optional: limit search to specific thread"),
     limit: z.number().default(5).describe("Maximum number of results (default: 5)"),
   }),
-  execute: async input => executeMemorySearch(input),
+  execute: async input => {
+    const resourceId = await getSearchResourceId(input.threadId);
+    if (!resourceId && !input.threadId) {
+      return {
+        success: false as const,
+        error: "memory-search needs an active session or a threadId",
+      };
+    }
+    // Without a resource the search is limited to the requested thread
+    return executeMemorySearch({ ...input, resourceId });
+  },
 });
 
 export interface SearchResult {
   id: string;
+  /** Kind of memory the result came from; only messages are found without embeddings */
+  source: EmbeddingSourceType;
   role: string;
   content: string;
   createdAt: string;
-  messageIndex: number;
+  /** Position in the thread; set for messages */
+  messageIndex?: number;
+  /** BM25 score; lower is better, 0 when only found by similarity */
   matchScore: number;
+  /** Cosine similarity to the query, when found by semantic search */
+  similarity?: number;
+  /** BM25 rank with recency boost (lower is better), or the fused score (higher is better) */
   rank: number;
 }
 
+type KeywordMatch = Awaited<ReturnType<typeof messageStorage.searchMessagesWithRecency>>[number];
+
+function keywordResult(m: KeywordMatch): SearchResult {
+  return {
+    id: m.id,
+    source: "message",
+    role: m.role,
+    content: m.injection_text,
+    createdAt: m.created_at.toISOString(),
+    messageIndex: m.message_index,
+    matchScore: m.matchScore,
+    rank: m.finalRank,
+  };
+}
+
+/**
+ * Merge keyword and semantic rankings with reciprocal rank fusion
+ */
+async function fuseResults(
+  keyword: KeywordMatch[],
+  semantic: SemanticMatch[],
+  limit: number
+): Promise<SearchResult[]> {
+  const scores = new Map<string, number>();
+  const addRank = (key: string, rank: number) =>
+    scores.set(key, (scores.get(key) ?? 0) + 1 / (RRF_K + rank + 1));
+
+  keyword.forEach((m, rank) => addRank(`message:${m.id}`, rank));
+  semantic.forEach((m, rank) => addRank(`${m.sourceType}:${m.sourceId}`, rank));
+
+  const keywordByKey = new Map(keyword.map(m => [`message:${m.id}`, m]));
+  const similarityByKey = new Map(semantic.map(m => [`${m.sourceType}:${m.sourceId}`, m]));
+  const contents = await embeddingStorage.getSourceContents(
+    semantic.filter(m => !keywordByKey.has(`${m.sourceType}:${m.sourceId}`))
+  );
+
+  const results: SearchResult[] = [];
+  for (const [key, score] of Array.from(scores).sort((a, b) => b[1] - a[1])) {
+    if (results.length >= limit) break;
+    const similarity = similarityByKey.get(key)?.similarity;
+    const match = keywordByKey.get(key);
+    if (match) {
+      results.push({ ...keywordResult(match), similarity, rank: score });
+      continue;
+    }
+
+    // Rows deleted since they were embedded have no content and are skipped
+    const content = contents.get(key);
+    if (!content) continue;
+    results.push({
+      id: content.sourceId,
+      source: content.sourceType,
+      role: content.role,
+      content: content.content,
+      createdAt: content.createdAt.toISOString(),
+      messageIndex: content.messageIndex,
+      matchScore: 0,
+      similarity,
+      rank: score,
+    });
+  }
+  return results;
+}
+
+/**
+ * Search memory with keywords, and by similarity when embeddings are configured
+ *
+ * With `resourceId`, only memory of that resource and of linked resources that
+ * are not private is searched.
+ */
 export async function executeMemorySearch(input: {
   query: string;
   threadId?: string;
+  resourceId?: string;
   limit?: number;
 }): Promise<{ success: true; results: SearchResult[] } | { success: false; error: string }> {
+  const limit = input.limit ?? 5;
   try {
-    const messages = await messageStorage.searchMessagesWithRecency(
-      input.query,
-      input.limit ?? 5,
-      input.threadId
-    );
-
-    const results: SearchResult[] = messages.map(m => ({
-      id: m.id,
-      role: m.role,
-      content: m.injection_text,
-      createdAt: m.created_at.toISOString(),
-      messageIndex: m.message_index,
-      matchScore: m.matchScore,
-      rank: m.finalRank,
-    }));
-
-    return { success: true, results };
+    const resourceIds = input.resourceId
+      ? [input.resourceId, ...(await memoryLinkStorage.listSharedResources(input.resourceId))]
+      : undefined;
+    const embedder = await getEmbedder();
+    if (!embedder) {
+      const messages = await messageStorage.searchMessagesWithRecency(
+        input.query,
+        limit,
+        input.threadId,
+        resourceIds
+      );
+      return { success: true, results: messages.map(keywordResult) };
+    }
+
+    const candidates = limit * CANDIDATE_FACTOR;
+    let keyword: KeywordMatch[] = [];
+    let keywordError: unknown;
+    try {
+      keyword = await messageStorage.searchMessagesWithRecency(
+        input.query,
+        candidates,
+        input.threadId,
+        resourceIds
+      );
+    } catch (error) {
+      // Natural-language queries are not always valid FTS5 syntax; similarity still applies
+      keywordError = error;
+      logger.debug("keyword search failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    let semantic: SemanticMatch[] = [];
+    try {
+      await indexPendingEmbeddings({ limit: SEARCH_CATCH_UP_LIMIT });
+      semantic = await searchEmbeddings(embedder, input.query, {
+        threadId: input.threadId,
+        resourceIds,
+        limit: candidates,
+      });
+    } catch (error) {
+      if (keywordError) throw keywordError;
+      logger.warn("semantic search failed; using keyword results only", {
+        model: embedder.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return { success: true, results: await fuseResults(keyword, semantic, limit) };
   } catch (error) {
     return { success: false, error: String(error) };
   }
@@ -0,0 +1,86 @@
+/**
+ * User memory settings
+ *
+ * Token thresholds that override the agent mode's defaults for every
+ * session. Unset values keep the mode's defaults.
+ *
+ * memory.json (user config directory):
+ * { "observationThreshold": 20000, "reflectionThreshold": 50000 }
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { resolveAppPaths } from "@sakti-code/shared/paths";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import type { ObservationalMemoryConfig } from "./observation/storage";
+
+const logger = createLogger("sakti-code:memory:settings");
+
+export const MEMORY_SETTINGS_FILENAME = "memory.json";
+
+export const MemorySettings = z.object({
+  /** Unobserved message tokens that trigger the observer */
+  observationThreshold: z.number().int().positive().optional(),
+  /** Observation tokens that trigger the reflector */
+  reflectionThreshold: z.number().int().positive().optional(),
+});
+export type MemorySettings = z.infer<typeof MemorySettings>;
+
+export function getMemorySettingsPath(): string {
+  return path.join(resolveAppPaths().config, MEMORY_SETTINGS_FILENAME);
+}
+
+/**
+ * Load the user's memory settings; a missing or invalid file means no overrides
+ */
+export async function loadMemorySettings(): Promise<MemorySettings> {
+  const filePath = getMemorySettingsPath();
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return {};
+  }
+
+  try {
+    return MemorySettings.parse(JSON.parse(content));
+  } catch (error) {
+    logger.warn("invalid memory settings", {
+      path: filePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
+
+/**
+ * Validate and write the user's memory settings
+ *
+ * @throws {z.ZodError} When the settings are invalid; nothing is written
+ */
+export async function saveMemorySettings(settings: unknown): Promise<MemorySettings> {
+  const validated = MemorySettings.parse(settings);
+  const filePath = getMemorySettingsPath();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(validated, null, 2)}\n`, "utf-8");
+  return validated;
+}
+
+/**
+ * Apply the user's thresholds on top of a mode's memory config
+ */
+export function applyMemorySettings<T extends Partial<ObservationalMemoryConfig>>(
+  config: T,
+  settings: MemorySettings
+): T {
+  return {
+    ...config,
+    ...(settings.observationThreshold !== undefined
+      ? { observationThreshold: settings.observationThreshold }
+      : {}),
+    ...(settings.reflectionThreshold !== undefined
+      ? { reflectionThreshold: settings.reflectionThreshold }
+      : {}),
+  };
+}
@@ -0,0 +1,319 @@
+import { getAgent, listAgents } from "@/agent/registry";
+import { loadCustomCommands } from "@/chat/commands-custom";
+import { Instance } from "@/instance";
+import { discoverPlugins, getWorkspacePluginsDir, Plugins, trustWorkspacePlugin } from "@/plugin";
+import { triggerChatParamsHook } from "@/plugin/hooks";
+import { PermissionDeniedError, PermissionManager } from "@/security/permission-manager";
+import { createTools, type ToolName } from "@/tools/registry";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+const TICKETS_PLUGIN = `
+export default {
+  name: "tickets",
+  version: "1.2.0",
+  apiVersion: 1,
+  setup(api) {
+    api.registerTool("ticket_lookup", {
+      description: "Look up a ticket",
+      inputSchema: { type: "object", properties: { id: { type: "string" } }, required: ["id"] },
+      execute: async ({ id }) => {
+        if (id === "missing") throw new Error("no such ticket");
+        return { output: "Ticket " + id + ": fix login" };
+      },
+    });
+    api.registerAgent({ name: "triage", systemPrompt: "You triage tickets.", tools: ["read"] });
+    api.registerCommand({ name: "ticket", description: "Work on a ticket", template: "Fix ticket $ARGUMENTS" });
+    api.registerHooks({
+      "chat.params": (_input, output) => { output.options.plugin = "tickets"; },
+    });
+  },
+};
+`;
+
+describe("plugins", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-"));
+    Plugins.clear();
+  });
+
+  afterEach(async () => {
+    Plugins.clear();
+    PermissionManager.getInstance().clearRules();
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  async function writeUntrustedPlugin(file: string, content: string) {
+    const dir = getWorkspacePluginsDir(workspace);
+    await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+    await fs.writeFile(path.join(dir, file), content, "utf-8");
+  }
+
+  async function writePlugin(file: string, content: string) {
+    await writeUntrustedPlugin(file, content);
+    for (const entry of await discoverPlugins(workspace)) {
+      if (entry.scope === "workspace") await trustWorkspacePlugin(workspace, entry.path);
+    }
+  }
+
+  function inWorkspace<T>(fn: () => Promise<T> | T): Promise<T> {
+    return Instance.provide({
+      directory: workspace,
+      sessionID: "session-plugins",
+      messageID: "message-1",
+      fn: async () => fn(),
+    });
+  }
+
+  it("loads a workspace plugin and reports what it registered", async () => {
+    await writePlugin("tickets.mjs", TICKETS_PLUGIN);
+
+    await Plugins.ensureWorkspace(workspace);
+
+    expect(Plugins.getStatus(workspace)).toEqual([
+      expect.objectContaining({
+        name: "tickets",
+        version: "1.2.0",
+        apiVersion: 1,
+        scope: "workspace",
+        state: "loaded",
+        tools: ["ticket_lookup"],
+        agents: ["triage"],
+        commands: ["ticket"],
+        hooks: ["chat.params"],
+      }),
+    ]);
+  });
+
+  it("does not import workspace plugins until they are trusted", async () => {
+    const marker = path.join(workspace, "imported");
+    await writeUntrustedPlugin(
+      "tickets.mjs",
+      `import fs from "node:fs";
+      fs.writeFileSync(${JSON.stringify(marker)}, "");
+      ${TICKETS_PLUGIN}`
+    );
+    const pluginPath = path.join(getWorkspacePluginsDir(workspace), "tickets.mjs");
+
+    await Plugins.ensureWorkspace(workspace);
+
+    expect(Plugins.getStatus(workspace)).toEqual([
+      expect.objectContaining({ name: "tickets", state: "untrusted", tools: [] }),
+    ]);
+    await expect(fs.access(marker)).rejects.toThrow();
+
+    await Plugins.trust(workspace, pluginPath);
+    expect(Plugins.getStatus(workspace)[0]).toMatchObject({ name: "tickets", state: "loaded" });
+
+    await fs.appendFile(pluginPath, "\n// edited\n");
+    await Plugins.reload(workspace);
+    expect(Plugins.getStatus(workspace)[0]).toMatchObject({ state: "untrusted" });
+  });
+
+  it("refuses to trust files outside the workspace plugins directory", async () => {
+    await expect(Plugins.trust(workspace, path.join(workspace, "elsewhere.mjs"))).rejects.toThrow(
+      "Not a workspace plugin"
+    );
+  });
+
+  it("keeps plugin provider factories to their workspace", async () => {
+    await writePlugin(
+      "provider.mjs",
+      `export default { name: "provider", apiVersion: 1, setup(api) {
+        api.registerProvider("acme-ai-provider", () => () => ({}));
+      } };`
+    );
+    const other = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-other-"));
+
+    try {
+      await Plugins.ensureWorkspace(workspace);
+      await Plugins.ensureWorkspace(other);
+
+      expect(Plugins.getProviderFactory(workspace, "acme-ai-provider")).toBeTypeOf("function");
+      expect(Plugins.getProviderFactory(other, "acme-ai-provider")).toBeUndefined();
+    } finally {
+      await fs.rm(other, { recursive: true, force: true });
+    }
+  });
+
+  it("loads a plugin directory through its package.json main", async () => {
+    await writePlugin("schema/package.json", JSON.stringify({ main: "lib/main.mjs" }));
+    await writePlugin(
+      "schema/lib/main.mjs",
+      `export default { name: "schema", apiVersion: 1, setup(api) {
+        api.registerTool("schema_migrate", { description: "Migrate", execute: () => "done" });
+      } };`
+    );
+
+    await Plugins.ensureWorkspace(workspace);
+
+    expect(Plugins.getStatus(workspace)[0]).toMatchObject({ name: "schema", state: "loaded" });
+  });
+
+  it("refuses plugins written for another API version", async () => {
+    await writePlugin(
+      "future.mjs",
+      `export default { name: "future", apiVersion: 2, setup() {} };`
+    );
+
+    await Plugins.ensureWorkspace(workspace);
+
+    expect(Plugins.getStatus(workspace)[0]).toMatchObject({
+      name: "future",
+      state: "incompatible",
+      error: expect.stringContaining("API version 2"),
+    });
+  });
+
+  it("isolates a plugin whose setup throws", async () => {
+    await writePlugin(
+      "broken.mjs",
+      `export default { name: "broken", apiVersion: 1, setup(api) {
+        api.registerTool("half_done", { description: "x", execute: () => "x" });
+        throw new Error("missing API token");
+      } };`
+    );
+    await writePlugin("tickets.mjs", TICKETS_PLUGIN);
+
+    await Plugins.ensureWorkspace(workspace);
+
+    const [broken, tickets] = Plugins.getStatus(workspace);
+    expect(broken).toMatchObject({ name: "broken", state: "failed", error: "missing API token" });
+    expect(broken.tools).toEqual([]);
+    expect(tickets.state).toBe("loaded");
+    expect(Object.keys(Plugins.getTools(workspace))).toEqual(["ticket_lookup"]);
+  });
+
+  it("reports modules that fail to import", async () => {
+    await writePlugin("syntax.mjs", "export default {");
+
+    await Plugins.ensureWorkspace(workspace);
+
+    expect(Plugins.getStatus(workspace)[0]).toMatchObject({ name: "syntax", state: "failed" });
+  });
+
+  it("rejects a tool name already registered by another plugin", async () => {
+    await writePlugin("a.mjs", TICKETS_PLUGIN);
+    await writePlugin(
+      "b.mjs",
+      `export default { name: "copycat", apiVersion: 1, setup(api) {
+        api.registerTool("ticket_lookup", { description: "x", execute: () => "x" });
+      } };`
+    );
+
+    await Plugins.ensureWorkspace(workspace);
+
+    expect(Plugins.getStatus(workspace)[1]).toMatchObject({
+      name: "copycat",
+      state: "failed",
+      error: expect.stringContaining("already registered"),
+    });
+  });
+
+  it("exposes plugin tools, agents and hooks inside the workspace context", async () => {
+    await writePlugin("tickets.mjs", TICKETS_PLUGIN);
+    await Plugins.ensureWorkspace(workspace);
+
+    PermissionManager.getInstance().setRules([
+      { permission: "plugin", pattern: "tickets/*", action: "allow" },
+    ]);
+
+    await inWorkspace(async () => {
+      const tools = createTools(["read", "ticket_lookup"] as ToolName[]) as Record<
+        string,
+        { execute: (input: unknown, options: unknown) => Promise<unknown> }
+      >;
+      expect(Object.keys(tools)).toEqual(["read", "ticket_lookup"]);
+      await expect(
+        tools.ticket_lookup.execute({ id: "42" }, { toolCallId: "c1", messages: [] })
+      ).resolves.toEqual({ output: "Ticket 42: fix login" });
+      await expect(
+        tools.ticket_lookup.execute({ id: "missing" }, { toolCallId: "c2", messages: [] })
+      ).rejects.toThrow('Plugin "tickets" tool ticket_lookup failed: no such ticket');
+
+      expect(getAgent("triage")).toMatchObject({
+        name: "triage",
+        mode: "subagent",
+        model: getAgent("build").model,
+        tools: ["read"],
+      });
+      expect(listAgents().map(agent => agent.name)).toContain("triage");
+
+      const params = await triggerChatParamsHook(
+        {
+          sessionID: "s1",
+          agent: "build",
+          model: { providerID: "zai", modelID: "glm-4.7" },
+          provider: { id: "zai" },
+          message: { role: "user", content: "hi" },
+        },
+        { options: {} }
+      );
+      expect(params.options.plugin).toBe("tickets");
+    });
+  });
+
+  it("gives plugin tools only to agents that list them", async () => {
+    await writePlugin("tickets.mjs", TICKETS_PLUGIN);
+    await Plugins.ensureWorkspace(workspace);
+
+    await inWorkspace(() => {
+      expect(Object.keys(createTools(["read"]))).toEqual(["read"]);
+      expect(getAgent("build").tools).toContain("ticket_lookup");
+      expect(getAgent("explore").tools).not.toContain("ticket_lookup");
+      expect(getAgent("plan").tools).not.toContain("ticket_lookup");
+    });
+  });
+
+  it("checks the plugin permission before a plugin tool runs", async () => {
+    await writePlugin("tickets.mjs", TICKETS_PLUGIN);
+    await Plugins.ensureWorkspace(workspace);
+    PermissionManager.getInstance().setRules([
+      { permission: "plugin", pattern: "tickets/ticket_lookup", action: "deny" },
+    ]);
+
+    await inWorkspace(async () => {
+      const tool = Plugins.getTools(workspace).ticket_lookup as {
+        execute: (input: unknown, options: unknown) => Promise<unknown>;
+      };
+      await expect(tool.execute({ id: "42" }, { toolCallId: "c1", messages: [] })).rejects.toThrow(
+        PermissionDeniedError
+      );
+    });
+  });
+
+  it("leaves out plugin agents that name unknown tools", async () => {
+    await writePlugin(
+      "agents.mjs",
+      `export default { name: "agents", apiVersion: 1, setup(api) {
+        api.registerTool("notes_search", { description: "Search notes", execute: () => "none" });
+        api.registerAgent({ name: "reader", systemPrompt: "Read.", tools: ["read", "notes_search"] });
+        api.registerAgent({ name: "typo", systemPrompt: "Edit.", tools: ["read", "edti"] });
+      } };`
+    );
+    await Plugins.ensureWorkspace(workspace);
+
+    await inWorkspace(() => {
+      const names = listAgents().map(agent => agent.name);
+      expect(names).toContain("reader");
+      expect(getAgent("reader").tools).toEqual(["read", "notes_search"]);
+      expect(names).not.toContain("typo");
+      expect(() => getAgent("typo")).toThrow("Unknown agent: typo");
+    });
+  });
+
+  it("adds plugin commands to the workspace's slash commands", async () => {
+    await writePlugin("tickets.mjs", TICKETS_PLUGIN);
+
+    const { commands } = await loadCustomCommands(workspace);
+
+    expect(commands.find(command => command.trigger === "ticket")).toMatchObject({
+      scope: "plugin",
+      template: "Fix ticket $ARGUMENTS",
+    });
+  });
+});
@@ -1,3 +1,6 @@
+import { getContext, hasContext } from "../instance/context";
+import { Plugins } from "./index";
+
 /**
  * Agent type - inlined to avoid circular dependency in server exports
  */
@@ -46,12 +49,28 @@ export function clearCorePluginHooks(): void {
   activeHooks = {};
 }
 
+/**
+ * Every implementation of a hook, host hooks first, then those registered
+ * by the current workspace's plugins in load order
+ */
+function collectHooks<K extends keyof CorePluginHooks>(
+  name: K
+): Array<NonNullable<CorePluginHooks[K]>> {
+  const sets = hasContext()
+    ? [activeHooks, ...Plugins.getHooks(getContext().directory)]
+    : [activeHooks];
+  return sets
+    .map(hooks => hooks[name])
+    .filter((hook): hook is NonNullable<CorePluginHooks[K]> => typeof hook === "function");
+}
+
 export async function triggerChatParamsHook(
   input: ChatHookInput,
   output: ChatParamsOutput
 ): Promise<ChatParamsOutput> {
-  if (!activeHooks["chat.params"]) return output;
-  await activeHooks["chat.params"](input, output);
+  for (const hook of collectHooks("chat.params")) {
+    await hook(input, output);
+  }
   return output;
 }
 
@@ -59,8 +78,9 @@ export async function triggerChatHeadersHook(
   input: ChatHookInput,
   output: ChatHeadersOutput
 ): Promise<ChatHeadersOutput> {
-  if (!activeHooks["chat.headers"]) return output;
-  await activeHooks["chat.headers"](input, output);
+  for (const hook of collectHooks("chat.headers")) {
+    await hook(input, output);
+  }
   return output;
 }
 
@@ -112,8 +132,8 @@ export function resolveHookModel(input: {
 export async function applyToolDefinitionHook(input: {
   tools: Record<string, unknown>;
 }): Promise<Record<string, unknown>> {
-  const toolDefHook = activeHooks["tool.definition"];
-  if (!toolDefHook) return input.tools;
+  const toolDefHooks = collectHooks("tool.definition");
+  if (toolDefHooks.length === 0) return input.tools;
 
   const nextTools: Record<string, unknown> = {};
   for (const [toolID, toolValue] of Object.entries(input.tools)) {
@@ -134,7 +154,9 @@ export async function applyToolDefinitionHook(input: {
             : undefined,
     };
 
-    await toolDefHook({ toolID }, output);
+    for (const hook of toolDefHooks) {
+      await hook({ toolID }, output);
+    }
 
     nextTools[toolID] = {
       ...asRecord,
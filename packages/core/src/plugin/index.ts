@@ -0,0 +1,233 @@
+export * from "./loader";
+export * from "./types";
+
+import { errorMessage } from "@sakti-code/shared/errors";
+import { createLogger } from "@sakti-code/shared/logger";
+import { jsonSchema, tool } from "ai";
+import path from "node:path";
+import { v7 as uuidv7 } from "uuid";
+import { PermissionManager } from "../security/permission-manager";
+import { getContextOrThrow } from "../tools/base/context";
+import type { CorePluginHooks } from "./hooks";
+import {
+  discoverPlugins,
+  loadPlugin,
+  trustWorkspacePlugin,
+  type LoadedPlugin,
+  type PluginCommandEntry,
+  type TakenNames,
+} from "./loader";
+import type {
+  PluginAgentDefinition,
+  PluginProviderFactory,
+  PluginStatus,
+  PluginToolDefinition,
+} from "./types";
+
+const logger = createLogger("sakti-code:plugin");
+
+const workspaces = new Map<string, LoadedPlugin[]>();
+const loadingWorkspaces = new Map<string, Promise<void>>();
+
+async function loadWorkspace(directory: string): Promise<void> {
+  const taken: TakenNames = {
+    plugins: new Set(),
+    tools: new Set(),
+    agents: new Set(),
+    commands: new Set(),
+  };
+  const loaded: LoadedPlugin[] = [];
+
+  for (const entry of await discoverPlugins(directory)) {
+    const plugin = await loadPlugin(entry, directory, taken);
+    loaded.push(plugin);
+
+    if (plugin.status.state !== "loaded") {
+      logger.warn("failed to load plugin", {
+        path: entry.path,
+        state: plugin.status.state,
+        error: plugin.status.error,
+      });
+      continue;
+    }
+
+    taken.plugins.add(plugin.status.name);
+    plugin.status.tools.forEach(name => taken.tools.add(name));
+    plugin.status.agents.forEach(name => taken.agents.add(name));
+    plugin.status.commands.forEach(name => taken.commands.add(name));
+  }
+
+  workspaces.set(directory, loaded);
+}
+
+function activePlugins(directory: string): LoadedPlugin[] {
+  return (workspaces.get(path.resolve(directory)) ?? []).filter(
+    plugin => plugin.status.state === "loaded"
+  );
+}
+
+/** Pattern a plugin tool call is checked against under the `plugin` permission */
+export function getPluginPermissionPattern(pluginName: string, toolName: string): string {
+  return `${pluginName}/${toolName}`;
+}
+
+/**
+ * Ask for the `plugin` permission before a plugin tool runs
+ */
+async function authorizeToolCall(pluginName: string, toolName: string): Promise<void> {
+  const { sessionID } = getContextOrThrow();
+  const pattern = getPluginPermissionPattern(pluginName, toolName);
+
+  const approved = await PermissionManager.getInstance().requestApproval({
+    id: uuidv7(),
+    permission: "plugin",
+    patterns: [pattern],
+    always: [pattern],
+    sessionID,
+    metadata: { plugin: pluginName, tool: toolName },
+  });
+  if (!approved) {
+    throw new Error(`Permission denied: Cannot call plugin tool ${pattern}`);
+  }
+}
+
+/**
+ * Wrap a plugin tool so it asks for permission and a throwing tool reports
+ * which plugin it came from
+ */
+function toAgentTool(pluginName: string, name: string, definition: PluginToolDefinition) {
+  return tool({
+    description: definition.description || `${name} (plugin: ${pluginName})`,
+    inputSchema: jsonSchema<Record<string, unknown>>({
+      type: "object",
+      ...definition.inputSchema,
+    }),
+    execute: async (args, options) => {
+      await authorizeToolCall(pluginName, name);
+      try {
+        return await definition.execute(args ?? {}, { abortSignal: options?.abortSignal });
+      } catch (error) {
+        throw new Error(`Plugin "${pluginName}" tool ${name} failed: ${errorMessage(error)}`);
+      }
+    },
+  });
+}
+
+/**
+ * Wrap a plugin's hooks so a throwing hook is logged and skipped
+ */
+function isolateHooks(pluginName: string, hooks: CorePluginHooks): CorePluginHooks {
+  const isolated: Record<string, unknown> = {};
+  for (const [name, hook] of Object.entries(hooks)) {
+    if (typeof hook !== "function") continue;
+    isolated[name] = async (...args: unknown[]) => {
+      try {
+        await (hook as (...hookArgs: unknown[]) => unknown)(...args);
+      } catch (error) {
+        logger.warn("plugin hook failed", {
+          plugin: pluginName,
+          hook: name,
+          error: errorMessage(error),
+        });
+      }
+    };
+  }
+  return isolated as CorePluginHooks;
+}
+
+/**
+ * Plugin manager
+ *
+ * Loads each workspace's user and workspace plugins once and exposes their
+ * tools, agents, slash commands and hooks. Built-in tools, agents and
+ * commands take precedence over plugin ones with the same name.
+ */
+export const Plugins = {
+  /**
+   * Discover and load a workspace's plugins
+   *
+   * Safe to call repeatedly; only the first call per directory loads.
+   * Plugin failures are recorded in status rather than thrown.
+   */
+  async ensureWorkspace(directory: string): Promise<void> {
+    const key = path.resolve(directory);
+    if (workspaces.has(key)) return;
+
+    const existing = loadingWorkspaces.get(key);
+    if (existing) return existing;
+
+    const loading = loadWorkspace(key).finally(() => loadingWorkspaces.delete(key));
+    loadingWorkspaces.set(key, loading);
+    return loading;
+  },
+
+  /**
+   * Drop a workspace's plugins and load them again from disk
+   */
+  async reload(directory: string): Promise<void> {
+    const key = path.resolve(directory);
+    await loadingWorkspaces.get(key);
+    workspaces.delete(key);
+    await Plugins.ensureWorkspace(key);
+  },
+
+  /**
+   * Trust a workspace plugin module on behalf of the user and reload the
+   * workspace so it is imported
+   */
+  async trust(directory: string, pluginPath: string): Promise<void> {
+    await trustWorkspacePlugin(directory, pluginPath);
+    await Plugins.reload(directory);
+  },
+
+  getStatus(directory: string): PluginStatus[] {
+    return (workspaces.get(path.resolve(directory)) ?? []).map(plugin => plugin.status);
+  },
+
+  /**
+   * Build agent tools for every loaded plugin in a workspace
+   */
+  getTools(directory: string): Record<string, unknown> {
+    const tools: Record<string, unknown> = {};
+    for (const plugin of activePlugins(directory)) {
+      for (const [name, definition] of Object.entries(plugin.contributions.tools)) {
+        tools[name] = toAgentTool(plugin.status.name, name, definition);
+      }
+    }
+    return tools;
+  },
+
+  getToolNames(directory: string): string[] {
+    return activePlugins(directory).flatMap(plugin => Object.keys(plugin.contributions.tools));
+  },
+
+  getAgents(directory: string): PluginAgentDefinition[] {
+    return activePlugins(directory).flatMap(plugin => Object.values(plugin.contributions.agents));
+  },
+
+  getCommands(directory: string): PluginCommandEntry[] {
+    return activePlugins(directory).flatMap(plugin => Object.values(plugin.contributions.commands));
+  },
+
+  getHooks(directory: string): CorePluginHooks[] {
+    return activePlugins(directory).flatMap(plugin =>
+      plugin.contributions.hooks.map(hooks => isolateHooks(plugin.status.name, hooks))
+    );
+  },
+
+  /**
+   * Provider SDK factory a workspace's plugins registered for an npm package
+   */
+  getProviderFactory(directory: string, npmPackage: string): PluginProviderFactory | undefined {
+    return activePlugins(directory)
+      .map(plugin => plugin.contributions.providers[npmPackage])
+      .find(factory => factory !== undefined);
+  },
+
+  /**
+   * Forget every loaded plugin; modules stay in the import cache
+   */
+  clear(): void {
+    workspaces.clear();
+  },
+};
@@ -0,0 +1,405 @@
+/**
+ * Plugin discovery and loading
+ *
+ * Plugins are local ES modules read from the user config directory and from
+ * the workspace. Each entry of a plugins directory is either a `.js`/`.mjs`
+ * file or a directory with an `index.js`/`index.mjs` or a package.json
+ * `main`. The module's default export is a plugin definition:
+ *
+ * .sakti-code/plugins/tickets.mjs:
+ * export default {
+ *   name: "tickets",
+ *   version: "1.0.0",
+ *   apiVersion: 1,
+ *   setup(api) {
+ *     api.registerTool("ticket_lookup", {
+ *       description: "Look up a ticket by id",
+ *       inputSchema: { type: "object", properties: { id: { type: "string" } }, required: ["id"] },
+ *       execute: async ({ id }) => fetchTicket(id),
+ *     });
+ *   },
+ * };
+ *
+ * Workspace plugins are only imported once the user has trusted them from
+ * settings, which records a hash of the plugin's files in the user config
+ * directory. A plugin that arrives with a cloned repo, or whose files change
+ * afterwards, is listed as untrusted and never imported.
+ */
+
+import { errorMessage } from "@sakti-code/shared/errors";
+import { resolveAppPaths } from "@sakti-code/shared/paths";
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { z } from "zod";
+import type { CustomCommand } from "../chat/commands-custom";
+import type { CorePluginHooks } from "./hooks";
+import {
+  PLUGIN_API_VERSION,
+  type PluginAgentDefinition,
+  type PluginApi,
+  type PluginDefinition,
+  type PluginProviderFactory,
+  type PluginStatus,
+  type PluginToolDefinition,
+} from "./types";
+
+export const PLUGINS_DIRNAME = "plugins";
+export const WORKSPACE_PLUGINS_DIR = ".sakti-code";
+const TRUSTED_PLUGINS_FILENAME = "trusted-plugins.json";
+
+const PLUGIN_FILE_EXTENSIONS = [".js", ".mjs"];
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * A plugin module found on disk, not yet imported
+ */
+export interface PluginEntry {
+  scope: PluginStatus["scope"];
+  /** Module file to import */
+  path: string;
+}
+
+/**
+ * What a plugin registered during setup
+ */
+export interface PluginContributions {
+  tools: Record<string, PluginToolDefinition>;
+  agents: Record<string, PluginAgentDefinition>;
+  commands: Record<string, PluginCommandEntry>;
+  hooks: CorePluginHooks[];
+  providers: Record<string, PluginProviderFactory>;
+}
+
+export type PluginCommandEntry = Omit<CustomCommand, "scope"> & { scope: "plugin" };
+
+export interface LoadedPlugin {
+  status: PluginStatus;
+  contributions: PluginContributions;
+}
+
+export function getUserPluginsDir(): string {
+  return path.join(resolveAppPaths().config, PLUGINS_DIRNAME);
+}
+
+export function getWorkspacePluginsDir(directory: string): string {
+  return path.join(directory, WORKSPACE_PLUGINS_DIR, PLUGINS_DIRNAME);
+}
+
+async function resolveDirectoryEntry(dir: string): Promise<string | undefined> {
+  try {
+    const pkg = JSON.parse(await fs.readFile(path.join(dir, "package.json"), "utf-8")) as {
+      main?: unknown;
+    };
+    if (typeof pkg.main === "string") return path.join(dir, pkg.main);
+  } catch {
+    // No package.json; fall back to an index file
+  }
+
+  for (const ext of PLUGIN_FILE_EXTENSIONS) {
+    const candidate = path.join(dir, `index${ext}`);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+async function readPluginsDir(dir: string, scope: PluginEntry["scope"]): Promise<PluginEntry[]> {
+  let entries: import("node:fs").Dirent[];
+  try {
+    entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  } catch {
+    return [];
+  }
+
+  const found: PluginEntry[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isFile() && PLUGIN_FILE_EXTENSIONS.includes(path.extname(entry.name))) {
+      found.push({ scope, path: entryPath });
+    } else if (entry.isDirectory()) {
+      const main = await resolveDirectoryEntry(entryPath);
+      if (main) found.push({ scope, path: main });
+    }
+  }
+  return found;
+}
+
+/**
+ * List user and workspace plugin modules, user plugins first
+ */
+export async function discoverPlugins(directory: string): Promise<PluginEntry[]> {
+  return [
+    ...(await readPluginsDir(getUserPluginsDir(), "user")),
+    ...(await readPluginsDir(getWorkspacePluginsDir(directory), "workspace")),
+  ];
+}
+
+function getTrustedPluginsPath(): string {
+  return path.join(resolveAppPaths().config, TRUSTED_PLUGINS_FILENAME);
+}
+
+/**
+ * Hash a workspace plugin's files: the module itself, or every file of the
+ * plugin directory it is the entry of
+ */
+async function hashPlugin(directory: string, pluginPath: string): Promise<string> {
+  const pluginsDir = getWorkspacePluginsDir(directory);
+  const root = path.join(pluginsDir, path.relative(pluginsDir, pluginPath).split(path.sep)[0]);
+  const files =
+    root === pluginPath
+      ? [pluginPath]
+      : (await fs.readdir(root, { recursive: true, withFileTypes: true }))
+          .filter(entry => entry.isFile())
+          .map(entry => path.join(entry.parentPath, entry.name))
+          .sort();
+
+  const hash = createHash("sha256");
+  for (const file of files) {
+    hash
+      .update(path.relative(root, file))
+      .update("\0")
+      .update(await fs.readFile(file));
+  }
+  return hash.digest("hex");
+}
+
+/** Hashes of the trusted plugins by workspace directory and module path */
+async function readTrustedPlugins(): Promise<Record<string, Record<string, string>>> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(getTrustedPluginsPath(), "utf-8"));
+    return z.record(z.string(), z.record(z.string(), z.string())).parse(parsed);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Whether a workspace plugin's files are unchanged since the user trusted it
+ */
+export async function isWorkspacePluginTrusted(
+  directory: string,
+  pluginPath: string
+): Promise<boolean> {
+  const trusted = (await readTrustedPlugins())[path.resolve(directory)]?.[pluginPath];
+  if (!trusted) return false;
+  try {
+    return trusted === (await hashPlugin(directory, pluginPath));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Trust a workspace plugin as its files are now
+ *
+ * Only call this on behalf of the user (the settings API); agents must not
+ * be able to trust their own plugins.
+ */
+export async function trustWorkspacePlugin(directory: string, pluginPath: string): Promise<void> {
+  const entries = await readPluginsDir(getWorkspacePluginsDir(directory), "workspace");
+  if (!entries.some(entry => entry.path === pluginPath)) {
+    throw new Error(`Not a workspace plugin: ${pluginPath}`);
+  }
+
+  const trusted = await readTrustedPlugins();
+  const key = path.resolve(directory);
+  trusted[key] = { ...trusted[key], [pluginPath]: await hashPlugin(directory, pluginPath) };
+  const filePath = getTrustedPluginsPath();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(trusted, null, 2)}\n`, "utf-8");
+}
+
+function assertName(kind: string, name: unknown): asserts name is string {
+  if (typeof name !== "string" || !NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid ${kind} name: ${String(name)}`);
+  }
+}
+
+function assertUnused(kind: string, name: string, taken: Set<string>): void {
+  if (taken.has(name)) {
+    throw new Error(`${kind} "${name}" is already registered by another plugin`);
+  }
+}
+
+function readDefinition(module: unknown): PluginDefinition {
+  const exported =
+    module && typeof module === "object" && "default" in module
+      ? (module as { default: unknown }).default
+      : module;
+  if (!exported || typeof exported !== "object") {
+    throw new Error("Plugin module has no default export");
+  }
+
+  const definition = exported as Partial<PluginDefinition>;
+  assertName("plugin", definition.name);
+  if (typeof definition.setup !== "function") {
+    throw new Error("Plugin has no setup function");
+  }
+  return definition as PluginDefinition;
+}
+
+/**
+ * Names already taken by plugins loaded earlier for the same workspace
+ */
+export interface TakenNames {
+  plugins: Set<string>;
+  tools: Set<string>;
+  agents: Set<string>;
+  commands: Set<string>;
+}
+
+/**
+ * Import a plugin module and run its setup
+ *
+ * Never throws: a plugin that fails to import, targets another API version
+ * or throws during setup is reported in its status with no contributions,
+ * so one broken plugin cannot take down the others. An untrusted workspace
+ * plugin is not imported at all.
+ */
+export async function loadPlugin(
+  entry: PluginEntry,
+  directory: string,
+  taken: TakenNames
+): Promise<LoadedPlugin> {
+  const contributions: PluginContributions = {
+    tools: {},
+    agents: {},
+    commands: {},
+    hooks: [],
+    providers: {},
+  };
+  const status: PluginStatus = {
+    name: path.basename(entry.path, path.extname(entry.path)),
+    scope: entry.scope,
+    path: entry.path,
+    state: "failed",
+    tools: [],
+    agents: [],
+    commands: [],
+    hooks: [],
+    providers: [],
+  };
+  const empty = (): LoadedPlugin => ({
+    status: { ...status, tools: [], agents: [], commands: [], hooks: [], providers: [] },
+    contributions: { tools: {}, agents: {}, commands: {}, hooks: [], providers: {} },
+  });
+
+  if (entry.scope === "workspace" && !(await isWorkspacePluginTrusted(directory, entry.path))) {
+    status.state = "untrusted";
+    status.error = "Not trusted; trust it from settings to load it";
+    return empty();
+  }
+
+  let definition: PluginDefinition;
+  try {
+    // The mtime query makes a reload pick up edits instead of the cached module
+    const { mtimeMs } = await fs.stat(entry.path);
+    const url = `${pathToFileURL(entry.path).href}?v=${Math.floor(mtimeMs)}`;
+    definition = readDefinition(await import(/* @vite-ignore */ url));
+  } catch (error) {
+    status.error = errorMessage(error);
+    return empty();
+  }
+
+  status.name = definition.name;
+  status.version = typeof definition.version === "string" ? definition.version : undefined;
+  status.apiVersion = typeof definition.apiVersion === "number" ? definition.apiVersion : undefined;
+
+  if (taken.plugins.has(definition.name)) {
+    status.error = `A plugin named "${definition.name}" is already loaded`;
+    return empty();
+  }
+  if (status.apiVersion !== PLUGIN_API_VERSION) {
+    status.state = "incompatible";
+    status.error = `Plugin targets API version ${status.apiVersion ?? "(none)"}, host provides ${PLUGIN_API_VERSION}`;
+    return empty();
+  }
+
+  const api: PluginApi = {
+    apiVersion: PLUGIN_API_VERSION,
+    directory,
+    registerTool(name, tool) {
+      assertName("tool", name);
+      assertUnused("Tool", name, new Set([...taken.tools, ...Object.keys(contributions.tools)]));
+      if (!tool || typeof tool.execute !== "function") {
+        throw new Error(`Tool "${name}" has no execute function`);
+      }
+      contributions.tools[name] = tool;
+      status.tools.push(name);
+    },
+    registerAgent(agent) {
+      assertName("agent", agent?.name);
+      assertUnused(
+        "Agent",
+        agent.name,
+        new Set([...taken.agents, ...Object.keys(contributions.agents)])
+      );
+      if (typeof agent.systemPrompt !== "string" || !agent.systemPrompt.trim()) {
+        throw new Error(`Agent "${agent.name}" has no system prompt`);
+      }
+      contributions.agents[agent.name] = agent;
+      status.agents.push(agent.name);
+    },
+    registerCommand(command) {
+      assertName("command", command?.name);
+      assertUnused(
+        "Command",
+        command.name,
+        new Set([...taken.commands, ...Object.keys(contributions.commands)])
+      );
+      if (typeof command.template !== "string" || !command.template.trim()) {
+        throw new Error(`Command "${command.name}" has an empty template`);
+      }
+      contributions.commands[command.name] = {
+        id: `custom.${command.name}`,
+        trigger: command.name,
+        title: command.title || command.name,
+        description: command.description,
+        type: "custom",
+        source: "command",
+        template: command.template.trim(),
+        agent: command.agent,
+        model: command.model,
+        allowedTools: command.allowedTools,
+        scope: "plugin",
+        location: entry.path,
+      };
+      status.commands.push(command.name);
+    },
+    registerHooks(hooks) {
+      contributions.hooks.push(hooks);
+      for (const name of Object.keys(hooks)) {
+        if (!status.hooks.includes(name)) status.hooks.push(name);
+      }
+    },
+    registerProvider(npmPackage, factory) {
+      if (typeof npmPackage !== "string" || !npmPackage.trim()) {
+        throw new Error("Provider package name is required");
+      }
+      if (typeof factory !== "function") {
+        throw new Error(`Provider "${npmPackage}" has no factory function`);
+      }
+      contributions.providers[npmPackage] = factory;
+      status.providers.push(npmPackage);
+    },
+  };
+
+  try {
+    await definition.setup(api);
+  } catch (error) {
+    status.error = errorMessage(error);
+    return empty();
+  }
+
+  status.state = "loaded";
+  status.loadedAt = Date.now();
+  return { status, contributions };
+}
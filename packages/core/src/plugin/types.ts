@@ -0,0 +1,112 @@
+import type { ProviderSdkFactory } from "../agent/workflow/provider-sdk-registry";
+import type { CorePluginHooks } from "./hooks";
+
+/**
+ * Plugin API version implemented by this host
+ *
+ * Plugins declare the version they were written against; a plugin built for
+ * another version is not loaded.
+ */
+export const PLUGIN_API_VERSION = 1;
+
+/**
+ * Tool contributed by a plugin
+ *
+ * `inputSchema` is a JSON Schema object describing the tool's input, so
+ * plugins do not need the AI SDK or zod to declare a tool.
+ */
+export interface PluginToolDefinition {
+  description: string;
+  inputSchema?: Record<string, unknown>;
+  execute: (input: Record<string, unknown>, options: { abortSignal?: AbortSignal }) => unknown;
+}
+
+/**
+ * Agent contributed by a plugin; unset fields default to the build agent's
+ */
+export interface PluginAgentDefinition {
+  name: string;
+  systemPrompt: string;
+  mode?: "primary" | "subagent";
+  model?: string;
+  maxIterations?: number;
+  /** Built-in and plugin tool names */
+  tools?: string[];
+  temperature?: number;
+  hidden?: boolean;
+}
+
+/**
+ * Slash command contributed by a plugin, as in a command Markdown file
+ */
+export interface PluginCommandDefinition {
+  name: string;
+  template: string;
+  title?: string;
+  description?: string;
+  agent?: string;
+  model?: string;
+  allowedTools?: string[];
+}
+
+export type PluginProviderFactory = (options: Record<string, unknown>) => ProviderSdkFactory;
+
+/**
+ * Registration API handed to a plugin's setup function
+ *
+ * Each register call throws when the name is invalid or already taken,
+ * which fails the plugin's setup as a whole.
+ */
+export interface PluginApi {
+  /** Host plugin API version */
+  apiVersion: number;
+  /** Workspace the plugin is loaded for */
+  directory: string;
+  registerTool(name: string, tool: PluginToolDefinition): void;
+  registerAgent(agent: PluginAgentDefinition): void;
+  registerCommand(command: PluginCommandDefinition): void;
+  registerHooks(hooks: CorePluginHooks): void;
+  /** Register a provider SDK factory under an npm package name */
+  registerProvider(npmPackage: string, factory: PluginProviderFactory): void;
+}
+
+/**
+ * Default export of a plugin module
+ */
+export interface PluginDefinition {
+  name: string;
+  version?: string;
+  apiVersion: number;
+  setup: (api: PluginApi) => void | Promise<void>;
+}
+
+/**
+ * Type helper for plugin modules written in TypeScript or checked with JSDoc
+ */
+export function definePlugin(definition: PluginDefinition): PluginDefinition {
+  return definition;
+}
+
+/**
+ * - loaded: setup finished; the plugin's contributions are active
+ * - failed: the module could not be imported or its setup threw
+ * - incompatible: the plugin targets another plugin API version
+ * - untrusted: a workspace plugin the user has not trusted; it was not imported
+ */
+export type PluginState = "loaded" | "failed" | "incompatible" | "untrusted";
+
+export interface PluginStatus {
+  name: string;
+  version?: string;
+  apiVersion?: number;
+  scope: "user" | "workspace";
+  path: string;
+  state: PluginState;
+  error?: string;
+  tools: string[];
+  agents: string[];
+  commands: string[];
+  hooks: string[];
+  providers: string[];
+  loadedAt?: number;
+}
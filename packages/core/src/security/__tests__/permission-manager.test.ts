@@ -0,0 +1,125 @@
+/**
+ * Tests for PermissionManager scoped rule storage
+ */
+
+import {
+  PermissionDeniedError,
+  PermissionManager,
+  type PermissionPolicyStore,
+} from "@/security/permission-manager";
+import type { PermissionRequest, PermissionRule, PermissionRuleSet } from "@sakti-code/shared";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+function createStore(ruleSets: PermissionRuleSet[] = [], approvals: PermissionRule[] = []) {
+  return {
+    getRuleSets: vi.fn(async () => ruleSets),
+    getApprovals: vi.fn(async () => approvals),
+    saveApproval: vi.fn(async () => {}),
+    clearApprovals: vi.fn(async () => {}),
+  } satisfies PermissionPolicyStore;
+}
+
+function request(overrides: Partial<PermissionRequest> = {}): PermissionRequest {
+  return {
+    id: `perm-${Math.random()}`,
+    permission: "bash",
+    patterns: ["git push"],
+    always: ["git push*"],
+    sessionID: "session-1",
+    ...overrides,
+  };
+}
+
+describe("security/permission-manager", () => {
+  const manager = PermissionManager.getInstance();
+
+  beforeEach(() => {
+    manager.setRules([{ permission: "bash", pattern: "*", action: "ask" }]);
+  });
+
+  afterEach(async () => {
+    manager.setPolicyStore(null);
+    manager.setRules([]);
+    await manager.clearSession("session-1");
+  });
+
+  it("places persisted layers before the config rules", async () => {
+    const store = createStore([
+      { layer: "session", rules: [{ permission: "bash", pattern: "git*", action: "allow" }] },
+    ]);
+    manager.setPolicyStore(store);
+
+    const ruleSets = await manager.getRuleSets("session-1");
+
+    expect(store.getRuleSets).toHaveBeenCalledWith("session-1");
+    expect(ruleSets.map(set => set.layer)).toEqual(["session", "config"]);
+    await expect(manager.requestApproval(request())).resolves.toBe(true);
+  });
+
+  it("reports the rules of the layer that denied", async () => {
+    const deny = { permission: "bash" as const, pattern: "git push*", action: "deny" as const };
+    manager.setPolicyStore(createStore([{ layer: "workspace", rules: [deny] }]));
+
+    const error = await manager.requestApproval(request()).catch(e => e);
+
+    expect(error).toBeInstanceOf(PermissionDeniedError);
+    expect(error.rules).toEqual([deny]);
+  });
+
+  it("falls back to the config rules when the store fails", async () => {
+    const store = createStore();
+    store.getRuleSets.mockRejectedValueOnce(new Error("db offline"));
+    manager.setPolicyStore(store);
+
+    const result = await manager.evaluate("session-1", "bash", ["ls"]);
+
+    expect(result).toMatchObject({ action: "ask", decidedBy: "config" });
+  });
+
+  it("settles asked requests with persisted approvals but never denied ones", async () => {
+    const approval = { permission: "bash" as const, pattern: "git*", action: "allow" as const };
+    const deny = { permission: "bash" as const, pattern: "git push*", action: "deny" as const };
+    manager.setPolicyStore(createStore([{ layer: "config", rules: [] }], [approval]));
+
+    await expect(manager.requestApproval(request({ patterns: ["git fetch"] }))).resolves.toBe(true);
+
+    manager.setPolicyStore(createStore([{ layer: "workspace", rules: [deny] }], [approval]));
+    await expect(manager.requestApproval(request())).rejects.toBeInstanceOf(PermissionDeniedError);
+  });
+
+  it("persists always approvals and clears them with the session", async () => {
+    const store = createStore();
+    manager.setPolicyStore(store);
+    const pending = request();
+
+    const approval = manager.requestApproval(pending);
+    await vi.waitFor(() => expect(manager.getPendingRequests()).toHaveLength(1));
+    await manager.handleResponse({ id: pending.id, approved: true, patterns: ["git push*"] });
+
+    await expect(approval).resolves.toBe(true);
+    expect(store.saveApproval).toHaveBeenCalledWith("session-1", "bash", ["git push*"]);
+
+    await manager.clearSession("session-1");
+    expect(store.clearApprovals).toHaveBeenCalledWith("session-1");
+  });
+
+  it("asks again for a chain with a command nobody approved", async () => {
+    const first = request({ patterns: ["git status"], always: ["git*"] });
+    const approval = manager.requestApproval(first);
+    await vi.waitFor(() => expect(manager.getPendingRequests()).toHaveLength(1));
+    await manager.handleResponse({ id: first.id, approved: true, patterns: ["git status"] });
+    await expect(approval).resolves.toBe(true);
+
+    await expect(
+      manager.requestApproval(request({ patterns: ["git status"], always: ["git*"] }))
+    ).resolves.toBe(true);
+
+    const chain = request({ patterns: ["git status", "rm -rf ~"], always: ["git*", "rm*"] });
+    const chainApproval = manager.requestApproval(chain);
+    await vi.waitFor(() => expect(manager.getPendingRequests()).toHaveLength(1));
+    expect(manager.getPendingRequests()[0].id).toBe(chain.id);
+
+    await manager.handleResponse({ id: chain.id, approved: false });
+    await expect(chainApproval).resolves.toBe(false);
+  });
+});
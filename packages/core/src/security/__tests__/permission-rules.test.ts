@@ -0,0 +1,246 @@
+/**
+ * Tests for permission rule matching
+ */
+
+import {
+  createDefaultRules,
+  evaluateLayeredPatterns,
+  evaluatePermission,
+  formatConfigRules,
+  globToRegex,
+  matchesPathGlob,
+  parseConfigRules,
+} from "@/security/permission-rules";
+import type { PermissionRule } from "@sakti-code/shared";
+import { describe, expect, it } from "vitest";
+
+describe("security/permission-rules", () => {
+  describe("globToRegex", () => {
+    it("matches anything with * by default", () => {
+      expect(globToRegex("git*").test("git push origin main")).toBe(true);
+      expect(globToRegex("ls").test("ls -la")).toBe(false);
+    });
+
+    it("keeps * and ? within a segment when segment-aware", () => {
+      const regex = globToRegex("src/*.ts", { segmentAware: true });
+      expect(regex.test("src/a.ts")).toBe(true);
+      expect(regex.test("src/lib/a.ts")).toBe(false);
+      expect(globToRegex("a?c", { segmentAware: true }).test("a/c")).toBe(false);
+    });
+
+    it("lets **/ match zero or more directories", () => {
+      const regex = globToRegex("src/**/*.ts", { segmentAware: true });
+      expect(regex.test("src/a.ts")).toBe(true);
+      expect(regex.test("src/lib/deep/a.ts")).toBe(true);
+      expect(regex.test("test/a.ts")).toBe(false);
+    });
+
+    it("supports negated character classes and escapes regex characters", () => {
+      expect(globToRegex("file[!0-9].txt").test("filea.txt")).toBe(true);
+      expect(globToRegex("file[!0-9].txt").test("file1.txt")).toBe(false);
+      expect(globToRegex("a.b").test("axb")).toBe(false);
+    });
+  });
+
+  describe("matchesPathGlob", () => {
+    it("anchors absolute patterns at the root", () => {
+      expect(matchesPathGlob("/etc/*", "/etc/hosts")).toBe(true);
+      expect(matchesPathGlob("/etc/*", "/etc/ssh/sshd_config")).toBe(false);
+      expect(matchesPathGlob("/etc/**", "/etc/ssh/sshd_config")).toBe(true);
+      expect(matchesPathGlob("/etc/**", "/home/etc/hosts")).toBe(false);
+    });
+
+    it("matches relative patterns at any directory boundary", () => {
+      expect(matchesPathGlob("*.env", "/repo/config/.env")).toBe(true);
+      expect(matchesPathGlob("config/*.env", "/repo/other/config.env")).toBe(false);
+      expect(matchesPathGlob(".env*", "/repo/config/.env.local")).toBe(true);
+      expect(matchesPathGlob("src/*.ts", "/repo/src/index.ts")).toBe(true);
+      expect(matchesPathGlob("src/*.ts", "/repo/src/lib/index.ts")).toBe(false);
+      expect(matchesPathGlob("*", "/repo/src/index.ts")).toBe(true);
+    });
+
+    it("expands the home directory", () => {
+      expect(matchesPathGlob("~/.ssh/**", "/home/me/.ssh/id_rsa", "/home/me")).toBe(true);
+    });
+  });
+
+  describe("evaluatePermission", () => {
+    const rules: PermissionRule[] = [
+      { permission: "edit", pattern: "*", action: "allow" },
+      { permission: "edit", pattern: "secrets/**", action: "deny" },
+    ];
+
+    it("uses path semantics for path permissions", () => {
+      expect(evaluatePermission("edit", "src/a.ts", rules)).toBe("allow");
+      expect(evaluatePermission("edit", "secrets/prod/key.pem", rules)).toBe("deny");
+    });
+
+    it("applies a rule only when its conditions hold", () => {
+      const bashRules: PermissionRule[] = [
+        { permission: "bash", pattern: "git*", action: "allow" },
+        {
+          permission: "bash",
+          pattern: "git push*",
+          action: "deny",
+          when: [{ argMatches: ["--force*", "-f"] }],
+        },
+      ];
+
+      const push = (args: string[]) =>
+        evaluatePermission("bash", ["git", ...args].join(" "), bashRules, args);
+
+      expect(push(["push", "origin", "main"])).toBe("allow");
+      expect(push(["push", "--force", "origin", "main"])).toBe("deny");
+      expect(push(["push", "-f"])).toBe("deny");
+      expect(push(["push", "--force-with-lease"])).toBe("deny");
+    });
+
+    it("supports negative argument conditions", () => {
+      const bashRules: PermissionRule[] = [
+        { permission: "bash", pattern: "rm *", action: "allow", when: [{ argNotMatches: "-*r*" }] },
+      ];
+
+      expect(evaluatePermission("bash", "rm build.log", bashRules, ["build.log"])).toBe("allow");
+      expect(evaluatePermission("bash", "rm -rf build", bashRules, ["-rf", "build"])).toBe("ask");
+    });
+  });
+
+  describe("bash argument conditions", () => {
+    it("asks before a force push with the default rules", () => {
+      const rules = createDefaultRules();
+      const forcePush = rules.find(rule => rule.pattern === "git push*");
+
+      expect(forcePush?.when).toEqual([{ argMatches: ["--force*", "-f"] }]);
+      expect(evaluatePermission("bash", "git push --force", rules, ["push", "--force"])).toBe(
+        "ask"
+      );
+    });
+
+    it("checks the parsed arguments, not the command text", () => {
+      const rules: PermissionRule[] = [
+        { permission: "bash", pattern: "git commit*", action: "allow" },
+        {
+          permission: "bash",
+          pattern: "git commit*",
+          action: "deny",
+          when: [{ argMatches: "--no-verify" }],
+        },
+      ];
+
+      expect(
+        evaluatePermission("bash", `git commit -m "skip --no-verify"`, rules, [
+          "commit",
+          "-m",
+          "skip --no-verify",
+        ])
+      ).toBe("allow");
+      expect(
+        evaluatePermission("bash", "git commit --no-verify -m 'wip'", rules, [
+          "commit",
+          "--no-verify",
+          "-m",
+          "wip",
+        ])
+      ).toBe("deny");
+    });
+  });
+
+  describe("evaluateLayeredPatterns", () => {
+    const config: PermissionRule[] = [
+      { permission: "bash", pattern: "*", action: "ask" },
+      { permission: "bash", pattern: "git*", action: "allow" },
+    ];
+
+    it("lets the most specific layer with a matching rule decide", () => {
+      const result = evaluateLayeredPatterns(
+        "bash",
+        ["git push", "npm test"],
+        [
+          { layer: "config", rules: config },
+          { layer: "global", rules: [{ permission: "bash", pattern: "npm*", action: "allow" }] },
+          {
+            layer: "session",
+            rules: [{ permission: "bash", pattern: "git push*", action: "deny" }],
+          },
+        ]
+      );
+
+      expect(result.action).toBe("deny");
+      expect(result.decidedBy).toBe("session");
+      expect(result.decisions.map(d => [d.pattern, d.action, d.layer])).toEqual([
+        ["git push", "deny", "session"],
+        ["npm test", "allow", "global"],
+      ]);
+    });
+
+    it("falls through layers without a matching rule", () => {
+      const result = evaluateLayeredPatterns(
+        "bash",
+        ["git status"],
+        [
+          { layer: "workspace", rules: [{ permission: "edit", pattern: "*", action: "deny" }] },
+          { layer: "config", rules: config },
+        ]
+      );
+
+      expect(result).toMatchObject({ action: "allow", decidedBy: "config" });
+    });
+
+    it("lets agent rules tighten but never loosen other layers", () => {
+      const result = evaluateLayeredPatterns(
+        "bash",
+        ["git status", "rm -rf build", "curl example.com"],
+        [
+          { layer: "config", rules: config },
+          {
+            layer: "global",
+            rules: [{ permission: "bash", pattern: "rm*", action: "deny" }],
+          },
+          {
+            layer: "agent",
+            rules: [
+              { permission: "bash", pattern: "*", action: "allow" },
+              { permission: "bash", pattern: "git*", action: "ask" },
+              { permission: "bash", pattern: "rm*", action: "ask" },
+            ],
+          },
+        ]
+      );
+
+      expect(result.decisions.map(d => [d.pattern, d.action, d.layer])).toEqual([
+        ["git status", "ask", "agent"],
+        ["rm -rf build", "deny", "global"],
+        ["curl example.com", "ask", "config"],
+      ]);
+    });
+
+    it("asks without a deciding layer when nothing matches", () => {
+      const result = evaluateLayeredPatterns("read", ["/tmp/a"], []);
+
+      expect(result.action).toBe("ask");
+      expect(result.decidedBy).toBeUndefined();
+    });
+  });
+
+  describe("config rules", () => {
+    it("round-trips rules with conditions", () => {
+      const rules = parseConfigRules({
+        bash: {
+          "git*": "allow",
+          "git push*": { action: "deny", when: [{ argMatches: "--force" }] },
+        },
+      });
+
+      expect(rules).toEqual([
+        { permission: "bash", pattern: "git*", action: "allow" },
+        {
+          permission: "bash",
+          pattern: "git push*",
+          action: "deny",
+          when: [{ argMatches: "--force" }],
+        },
+      ]);
+      expect(parseConfigRules(formatConfigRules(rules))).toEqual(rules);
+    });
+  });
+});
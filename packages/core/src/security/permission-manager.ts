@@ -3,10 +3,22 @@
  * Based on OpenCode's permission system with enhancements
  */
 
-import type { PermissionRequest, PermissionResponse, PermissionRule } from "@sakti-code/shared";
+import type {
+  PermissionRequest,
+  PermissionResponse,
+  PermissionRule,
+  PermissionRuleSet,
+  PermissionType,
+} from "@sakti-code/shared";
 import { createLogger } from "@sakti-code/shared/logger";
 import { EventEmitter } from "events";
-import { evaluatePatterns, matchesGlob } from "./permission-rules";
+import { getContext, hasContext } from "../instance/context";
+import {
+  evaluateLayeredPatterns,
+  findMatchingRule,
+  matchesRulePattern,
+  type LayeredEvaluation,
+} from "./permission-rules";
 
 const logger = createLogger("sakti-code");
 
@@ -46,6 +58,31 @@ export class PermissionTimeoutError extends Error {
   }
 }
 
+/**
+ * Persistent storage for scoped permission rules
+ *
+ * Registered by the server so that global, workspace and session rules and
+ * "always" approvals survive restarts. Approvals are kept out of the rule
+ * layers: they only settle requests the rules leave at "ask", so a deny in
+ * any layer still wins over them.
+ */
+export interface PermissionPolicyStore {
+  /** Rule sets of the persisted scopes that apply to a session, without approvals */
+  getRuleSets(sessionID: string): Promise<PermissionRuleSet[]>;
+  /** Patterns the user approved for the rest of a session, as allow rules */
+  getApprovals(sessionID: string): Promise<PermissionRule[]>;
+  /** Persist patterns the user approved for the rest of a session */
+  saveApproval(sessionID: string, permission: PermissionType, patterns: string[]): Promise<void>;
+  /** Forget the persisted approvals of a session */
+  clearApprovals(sessionID: string): Promise<void>;
+}
+
+/**
+ * Default rules a subsystem contributes for a workspace directory, such as
+ * the per-tool defaults of MCP servers
+ */
+export type PermissionRuleProvider = (directory: string) => PermissionRule[];
+
 export class PermissionManager extends EventEmitter {
   private static instance: PermissionManager;
   private pendingRequests = new Map<
@@ -58,6 +95,8 @@ export class PermissionManager extends EventEmitter {
   >();
   private approvals = new Map<string, Set<string>>();
   private rules: PermissionRule[] = [];
+  private policyStore: PermissionPolicyStore | null = null;
+  private ruleProviders = new Map<string, PermissionRuleProvider>();
 
   private constructor() {
     super();
@@ -109,11 +148,82 @@ export class PermissionManager extends EventEmitter {
     });
   }
 
+  /**
+   * Set the store for persisted scoped rules, or null to use only the
+   * in-memory rules
+   */
+  setPolicyStore(store: PermissionPolicyStore | null): void {
+    this.policyStore = store;
+  }
+
+  /**
+   * Register default rules by name, or remove them with null
+   *
+   * Provided rules for the workspace of the current Instance context join
+   * the config layer ahead of the config rules, so config rules and the
+   * persisted scopes override them.
+   */
+  setRuleProvider(name: string, provider: PermissionRuleProvider | null): void {
+    if (provider) {
+      this.ruleProviders.set(name, provider);
+    } else {
+      this.ruleProviders.delete(name);
+    }
+  }
+
+  /**
+   * Rule sets that apply to a session: the overrides of the agent running in
+   * the current Instance context, the persisted scopes and the in-memory
+   * rules loaded from config, after any provided defaults
+   */
+  async getRuleSets(sessionID: string): Promise<PermissionRuleSet[]> {
+    const context = hasContext() ? getContext() : undefined;
+    const providedRules = context
+      ? Array.from(this.ruleProviders.values()).flatMap(provider => provider(context.directory))
+      : [];
+    const ruleSets: PermissionRuleSet[] = [
+      { layer: "config", rules: [...providedRules, ...this.rules] },
+    ];
+
+    if (context?.sessionID === sessionID && context.agentPermissions?.length) {
+      ruleSets.unshift({ layer: "agent", rules: context.agentPermissions });
+    }
+    if (!this.policyStore) return ruleSets;
+
+    try {
+      ruleSets.unshift(...(await this.policyStore.getRuleSets(sessionID)));
+    } catch (error) {
+      logger.warn("Failed to load scoped permission rules", {
+        module: "permissions",
+        sessionID,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return ruleSets;
+  }
+
+  /**
+   * Evaluate patterns against every rule layer that applies to a session
+   */
+  async evaluate(
+    sessionID: string,
+    permission: PermissionType,
+    patterns: string[],
+    args?: Record<string, string[]>
+  ): Promise<LayeredEvaluation> {
+    return evaluateLayeredPatterns(permission, patterns, await this.getRuleSets(sessionID), args);
+  }
+
   async requestApproval(request: PermissionRequest): Promise<boolean> {
     const cacheKey = `${request.sessionID}:${request.permission}`;
 
     // 1. Evaluate against rules first
-    const evaluation = evaluatePatterns(request.permission, request.patterns, this.rules);
+    const evaluation = await this.evaluate(
+      request.sessionID,
+      request.permission,
+      request.patterns,
+      request.arguments
+    );
 
     if (evaluation.action === "deny") {
       // Auto-deny by rule
@@ -121,12 +231,14 @@ export class PermissionManager extends EventEmitter {
         module: "permissions",
         permission: request.permission,
         patterns: evaluation.deniedPatterns,
+        decidedBy: evaluation.decidedBy,
       });
-      throw new PermissionDeniedError(
-        request.permission,
-        evaluation.deniedPatterns,
-        this.rules.filter(r => evaluation.deniedPatterns.some(p => matchesGlob(r.pattern, p)))
+      const denyingRules = evaluation.decisions.flatMap(d =>
+        d.action === "deny" && d.rule ? [d.rule] : []
       );
+      throw new PermissionDeniedError(request.permission, evaluation.deniedPatterns, [
+        ...new Set(denyingRules),
+      ]);
     }
 
     if (evaluation.action === "allow") {
@@ -135,39 +247,37 @@ export class PermissionManager extends EventEmitter {
         module: "permissions",
         permission: request.permission,
         patterns: request.patterns,
+        decidedBy: evaluation.decidedBy,
       });
       return true;
     }
 
-    // 2. Check cached approvals for "always" patterns
-    if (this.approvals.has(cacheKey)) {
-      const alwaysApproved = request.always.some(pattern =>
-        this.matchesPattern(pattern, request.patterns)
-      );
-      if (alwaysApproved) {
-        logger.debug("Auto-approved by always pattern", {
-          module: "permissions",
-          sessionID: request.sessionID,
-          permission: request.permission,
-        });
-        return true;
-      }
+    // 2. Check approvals cached for the session; every pattern must be covered
+    const approvedPatterns = this.approvals.get(cacheKey);
+    if (
+      approvedPatterns &&
+      request.patterns.length > 0 &&
+      request.patterns.every(pattern =>
+        this.isCachedApproval(request.permission, pattern, approvedPatterns)
+      )
+    ) {
+      logger.debug("Auto-approved by cached patterns", {
+        module: "permissions",
+        sessionID: request.sessionID,
+        permission: request.permission,
+        patterns: request.patterns,
+      });
+      return true;
     }
 
-    // 3. Check if any pattern is already approved
-    const approvedPatterns = this.approvals.get(cacheKey);
-    if (approvedPatterns) {
-      for (const pattern of request.patterns) {
-        if (approvedPatterns.has(pattern)) {
-          logger.debug("Auto-approved by cached pattern", {
-            module: "permissions",
-            sessionID: request.sessionID,
-            permission: request.permission,
-            pattern,
-          });
-          return true;
-        }
-      }
+    // 3. Check approvals persisted by earlier runs of the session
+    if (await this.isPersistentlyApproved(request)) {
+      logger.debug("Auto-approved by persisted approval", {
+        module: "permissions",
+        sessionID: request.sessionID,
+        permission: request.permission,
+      });
+      return true;
     }
 
     // 4. Request user approval
@@ -200,7 +310,7 @@ export class PermissionManager extends EventEmitter {
     });
   }
 
-  handleResponse(response: PermissionResponse): void {
+  async handleResponse(response: PermissionResponse): Promise<void> {
     const pending = this.pendingRequests.get(response.id);
     if (!pending) return;
 
@@ -224,6 +334,27 @@ export class PermissionManager extends EventEmitter {
     }
 
     pending.resolve(response.approved);
+
+    if (
+      response.approved &&
+      response.patterns &&
+      response.patterns.length > 0 &&
+      this.policyStore
+    ) {
+      try {
+        await this.policyStore.saveApproval(
+          pending.request.sessionID,
+          pending.request.permission,
+          response.patterns
+        );
+      } catch (error) {
+        logger.warn("Failed to persist permission approval", {
+          module: "permissions",
+          permissionId: response.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
   }
 
   approvePattern(sessionID: string, permission: string, pattern: string): void {
@@ -241,12 +372,13 @@ export class PermissionManager extends EventEmitter {
     });
   }
 
-  clearSession(sessionID: string): void {
+  async clearSession(sessionID: string): Promise<void> {
     for (const [key] of this.approvals) {
       if (key.startsWith(`${sessionID}:`)) {
         this.approvals.delete(key);
       }
     }
+    await this.policyStore?.clearApprovals(sessionID);
 
     logger.info("Session approvals cleared", {
       module: "permissions",
@@ -270,8 +402,38 @@ export class PermissionManager extends EventEmitter {
     return [];
   }
 
-  private matchesPattern(pattern: string, targets: string[]): boolean {
-    // Use the improved glob matching from permission-rules
-    return targets.some(t => matchesGlob(pattern, t));
+  /**
+   * Whether persisted approvals cover every pattern of a request
+   */
+  private async isPersistentlyApproved(request: PermissionRequest): Promise<boolean> {
+    if (!this.policyStore) return false;
+
+    try {
+      const approvals = await this.policyStore.getApprovals(request.sessionID);
+      return request.patterns.every(
+        pattern =>
+          findMatchingRule(request.permission, pattern, approvals, request.arguments?.[pattern])
+            ?.action === "allow"
+      );
+    } catch (error) {
+      logger.warn("Failed to load persisted permission approvals", {
+        module: "permissions",
+        sessionID: request.sessionID,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  private isCachedApproval(
+    permission: PermissionRequest["permission"],
+    target: string,
+    approvedPatterns: Set<string>
+  ): boolean {
+    if (approvedPatterns.has(target)) return true;
+    // Path permissions use segment-aware globs, commands plain ones
+    return Array.from(approvedPatterns).some(pattern =>
+      matchesRulePattern(permission, pattern, target)
+    );
   }
 }
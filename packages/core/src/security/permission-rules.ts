@@ -3,31 +3,66 @@
  * Based on OpenCode's permission/next.ts pattern
  */
 
-import type { PermissionAction, PermissionRule, PermissionType } from "@sakti-code/shared";
+import type {
+  PermissionAction,
+  PermissionRule,
+  PermissionRuleCondition,
+  PermissionRuleLayer,
+  PermissionRuleSet,
+  PermissionType,
+} from "@sakti-code/shared";
 import { createLogger } from "@sakti-code/shared/logger";
 
 const logger = createLogger("sakti-code");
 
+/**
+ * Permissions whose patterns are file paths
+ */
+const PATH_PERMISSIONS = new Set<PermissionType>(["read", "edit", "external_directory"]);
+
+export interface GlobOptions {
+  /**
+   * Treat `/` as a segment separator: `*` and `?` stay within a segment and
+   * only `**` crosses directories
+   */
+  segmentAware?: boolean;
+}
+
 /**
  * Convert glob pattern to regex
- * Supports: *, **, ?, character classes [a-z]
- */
-export function globToRegex(glob: string): RegExp {
-  const regexString =
-    "^" +
-    glob
-      // Escape special regex chars first (except *, ?, [, ])
-      .replace(/[.+^${}()|\\]/g, "\\$&")
-      // Handle character classes [abc]
-      .replace(/\[([^\]]+)\]/g, "[$1]")
-      // Replace ** with .* (matches anything including /)
-      .replace(/\*\*/g, ".*")
-      // Replace * with .* (matches anything) - must be after escaping!
-      .replace(/\*/g, ".*")
-      // Replace ? with .
-      .replace(/\?/g, ".") +
-    "$";
-  return new RegExp(regexString);
+ * Supports: *, **, ?, character classes [a-z] and [!a-z]
+ */
+export function globToRegex(glob: string, options: GlobOptions = {}): RegExp {
+  const { segmentAware = false } = options;
+  let regexString = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*" && glob[i + 1] === "*") {
+      i++;
+      if (segmentAware && glob[i + 1] === "/") {
+        // "**/" matches zero or more whole directories
+        i++;
+        regexString += "(?:.*/)?";
+      } else {
+        regexString += ".*";
+      }
+    } else if (char === "*") {
+      regexString += segmentAware ? "[^/]*" : ".*";
+    } else if (char === "?") {
+      regexString += segmentAware ? "[^/]" : ".";
+    } else if (char === "[" && glob.indexOf("]", i + 2) !== -1) {
+      const close = glob.indexOf("]", i + 2);
+      const body = glob.slice(i + 1, close).replace(/\\/g, "\\\\");
+      regexString += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = close;
+    } else {
+      regexString += char.replace(/[.+^${}()|\\[\]]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${regexString}$`);
 }
 
 /**
@@ -42,6 +77,82 @@ export function matchesGlob(pattern: string, str: string): boolean {
   return matches;
 }
 
+/**
+ * Test if a file path matches a path glob
+ *
+ * Relative patterns match at any directory boundary, so `*.ts` matches every
+ * TypeScript file and `src/*.ts` only files directly inside a `src` directory.
+ * Absolute and `~/` patterns are anchored at the root.
+ */
+export function matchesPathGlob(pattern: string, filePath: string, homeDir?: string): boolean {
+  const expanded = expandPath(pattern, homeDir).replace(/\\/g, "/");
+  const target = filePath.replace(/\\/g, "/");
+  const regex = globToRegex(expanded, { segmentAware: true });
+  if (expanded.startsWith("/") || /^[a-zA-Z]:\//.test(expanded)) {
+    return regex.test(target);
+  }
+
+  const unanchored = new RegExp(`^(?:.*/)?${regex.source.slice(1)}`);
+  return unanchored.test(target);
+}
+
+/**
+ * Test if a request target matches a rule pattern for a permission
+ */
+export function matchesRulePattern(
+  permission: PermissionType,
+  pattern: string,
+  target: string
+): boolean {
+  return PATH_PERMISSIONS.has(permission)
+    ? matchesPathGlob(pattern, target)
+    : matchesGlob(pattern, target);
+}
+
+/**
+ * Arguments a rule condition is checked against
+ *
+ * Bash targets are commands, so their arguments are the argument nodes the
+ * bash parser found (see parseCommand); a command that was not parsed has
+ * none. Any other target is a single argument.
+ */
+function targetArguments(permission: PermissionType, target: string, args?: string[]): string[] {
+  return permission === "bash" ? (args ?? []) : [target];
+}
+
+function anyArgMatches(globs: string | string[], args: string[]): boolean {
+  const regexes = (Array.isArray(globs) ? globs : [globs]).map(glob => globToRegex(glob));
+  return args.some(arg => regexes.some(regex => regex.test(arg)));
+}
+
+function conditionHolds(condition: PermissionRuleCondition, args: string[]): boolean {
+  if (condition.argMatches !== undefined && !anyArgMatches(condition.argMatches, args)) {
+    return false;
+  }
+  if (condition.argNotMatches !== undefined && anyArgMatches(condition.argNotMatches, args)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Test if a rule applies to a request target
+ */
+export function ruleApplies(
+  rule: PermissionRule,
+  permission: PermissionType,
+  target: string,
+  args?: string[]
+): boolean {
+  if (rule.permission !== permission || !matchesRulePattern(permission, rule.pattern, target)) {
+    return false;
+  }
+  if (!rule.when || rule.when.length === 0) return true;
+
+  const targetArgs = targetArguments(permission, target, args);
+  return rule.when.every(condition => conditionHolds(condition, targetArgs));
+}
+
 /**
  * Find the last (most recent) matching rule
  * Later rules override earlier ones
@@ -49,12 +160,11 @@ export function matchesGlob(pattern: string, str: string): boolean {
 export function findMatchingRule(
   permission: PermissionType,
   pattern: string,
-  rules: PermissionRule[]
+  rules: PermissionRule[],
+  args?: string[]
 ): PermissionRule | undefined {
-  // Find rules that match both permission type and pattern
-  const matchingRules = rules.filter(
-    rule => rule.permission === permission && matchesGlob(rule.pattern, pattern)
-  );
+  // Find rules that match the permission type, pattern and conditions
+  const matchingRules = rules.filter(rule => ruleApplies(rule, permission, pattern, args));
 
   // Return the last matching rule (most recent)
   return matchingRules.length > 0 ? matchingRules[matchingRules.length - 1] : undefined;
@@ -67,13 +177,14 @@ export function findMatchingRule(
 export function evaluatePermission(
   permission: PermissionType,
   pattern: string,
-  rules: PermissionRule[]
+  rules: PermissionRule[],
+  args?: string[]
 ): PermissionAction {
   console.log(
     `[evaluatePermission] Checking ${permission}:${pattern} against ${rules.length} rules`
   );
 
-  const match = findMatchingRule(permission, pattern, rules);
+  const match = findMatchingRule(permission, pattern, rules, args);
 
   if (!match) {
     // Default to "ask" if no rule matches
@@ -136,6 +247,103 @@ export function evaluatePatterns(
   return { action: "allow", deniedPatterns, askPatterns };
 }
 
+const ACTION_STRICTNESS: Record<PermissionAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+/**
+ * Precedence of rule layers, most specific first
+ *
+ * Agent rules come from agent definitions the agent may be able to edit, so
+ * they can only make a decision stricter (see evaluateLayeredPatterns).
+ */
+export const PERMISSION_LAYER_ORDER: PermissionRuleLayer[] = [
+  "agent",
+  "session",
+  "workspace",
+  "global",
+  "config",
+];
+
+export interface PatternDecision {
+  pattern: string;
+  action: PermissionAction;
+  /** Layer whose rule matched; undefined when no layer had a matching rule */
+  layer?: PermissionRuleLayer;
+  rule?: PermissionRule;
+}
+
+export interface LayeredEvaluation {
+  action: PermissionAction;
+  deniedPatterns: string[];
+  askPatterns: string[];
+  /** Layer that decided the overall action; undefined when no rule matched */
+  decidedBy?: PermissionRuleLayer;
+  decisions: PatternDecision[];
+}
+
+/**
+ * Evaluate patterns against layered rule sets
+ *
+ * Each pattern is decided by the most specific layer that has a matching
+ * rule (see PERMISSION_LAYER_ORDER); within a layer the last matching rule
+ * wins, as in evaluatePermission. Patterns no layer matches default to "ask".
+ * An "agent" rule only decides a pattern when it is stricter than what the
+ * other layers decide. The overall action is combined as in
+ * evaluatePatterns, and `decidedBy` names the layer of the first pattern
+ * that produced it. Bash patterns are checked against their parsed
+ * arguments, by pattern.
+ */
+export function evaluateLayeredPatterns(
+  permission: PermissionType,
+  patterns: string[],
+  ruleSets: PermissionRuleSet[],
+  args: Record<string, string[]> = {}
+): LayeredEvaluation {
+  const ordered = [...ruleSets].sort(
+    (a, b) => PERMISSION_LAYER_ORDER.indexOf(a.layer) - PERMISSION_LAYER_ORDER.indexOf(b.layer)
+  );
+
+  const decisions = patterns.map((pattern): PatternDecision => {
+    let decision: PatternDecision = { pattern, action: "ask" };
+    for (const { layer, rules } of ordered) {
+      if (layer === "agent") continue;
+      const rule = findMatchingRule(permission, pattern, rules, args[pattern]);
+      if (rule) {
+        decision = { pattern, action: rule.action, layer, rule };
+        break;
+      }
+    }
+
+    for (const { layer, rules } of ordered) {
+      if (layer !== "agent") continue;
+      const rule = findMatchingRule(permission, pattern, rules, args[pattern]);
+      if (rule && ACTION_STRICTNESS[rule.action] > ACTION_STRICTNESS[decision.action]) {
+        decision = { pattern, action: rule.action, layer, rule };
+      }
+    }
+    return decision;
+  });
+
+  const deniedPatterns = decisions.filter(d => d.action === "deny").map(d => d.pattern);
+  const askPatterns = decisions.filter(d => d.action === "ask").map(d => d.pattern);
+  const action: PermissionAction =
+    deniedPatterns.length > 0 ? "deny" : askPatterns.length > 0 ? "ask" : "allow";
+
+  logger.debug("Layered permission evaluated", {
+    module: "permissions",
+    permission,
+    action,
+    layers: ordered.map(set => set.layer),
+  });
+
+  return {
+    action,
+    deniedPatterns,
+    askPatterns,
+    decidedBy: decisions.find(d => d.action === action)?.layer,
+    decisions,
+  };
+}
+
 /**
  * Create default permission rules
  * Similar to OpenCode's sensible defaults
@@ -160,6 +368,14 @@ export function createDefaultRules(): PermissionRule[] {
     { permission: "bash", pattern: "pwd", action: "allow" },
     { permission: "bash", pattern: "*", action: "ask" },
 
+    // Rewriting shared history still needs approval
+    {
+      permission: "bash",
+      pattern: "git push*",
+      action: "ask",
+      when: [{ argMatches: ["--force*", "-f"] }],
+    },
+
     // External directory access - always require approval
     { permission: "external_directory", pattern: "*", action: "ask" },
 
@@ -173,10 +389,15 @@ export function createDefaultRules(): PermissionRule[] {
 
 /**
  * Parse rules from config format
- * Config format: { permission: action | { pattern: action } }
+ * Config format: { permission: action | { pattern: action | { action, when } } }
  */
+export interface PermissionRuleConfig {
+  action: PermissionAction;
+  when?: PermissionRuleCondition[];
+}
+
 export interface PermissionConfig {
-  [permission: string]: PermissionAction | Record<string, PermissionAction>;
+  [permission: string]: PermissionAction | Record<string, PermissionAction | PermissionRuleConfig>;
 }
 
 export function parseConfigRules(config: PermissionConfig): PermissionRule[] {
@@ -191,13 +412,18 @@ export function parseConfigRules(config: PermissionConfig): PermissionRule[] {
         action: value,
       });
     } else {
-      // Pattern format: { "bash": { "git*": "allow", "*": "ask" } }
-      for (const [pattern, action] of Object.entries(value)) {
-        rules.push({
-          permission: permission as PermissionType,
-          pattern,
-          action,
-        });
+      // Pattern format: { "bash": { "git*": "allow", "git push*": { "action": "deny", "when": [...] } } }
+      for (const [pattern, entry] of Object.entries(value)) {
+        rules.push(
+          typeof entry === "string"
+            ? { permission: permission as PermissionType, pattern, action: entry }
+            : {
+                permission: permission as PermissionType,
+                pattern,
+                action: entry.action,
+                ...(entry.when ? { when: entry.when } : {}),
+              }
+        );
       }
     }
   }
@@ -222,7 +448,9 @@ export function formatConfigRules(rules: PermissionRule[]): PermissionConfig {
       config[rule.permission] = { "*": value };
     }
 
-    (config[rule.permission] as Record<string, PermissionAction>)[rule.pattern] = rule.action;
+    (config[rule.permission] as Record<string, PermissionAction | PermissionRuleConfig>)[
+      rule.pattern
+    ] = rule.when?.length ? { action: rule.action, when: rule.when } : rule.action;
   }
 
   return config;
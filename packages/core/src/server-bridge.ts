@@ -2,6 +2,9 @@ import {
   getCoreBusBindings,
   getCoreDbBindings,
   type CoreDbBindings,
+  type MemoryEmbedding,
+  type MemoryLink,
+  type MemoryPin,
   type Message,
   type NewTask,
   type NewWorkingMemory,
@@ -67,6 +70,10 @@ export const messages = tableProxy("messages");
 export const workingMemory = tableProxy("workingMemory");
 export const reflections = tableProxy("reflections");
 export const observationalMemory = tableProxy("observationalMemory");
+export const memoryEmbeddings = tableProxy("memoryEmbeddings");
+export const memoryPins = tableProxy("memoryPins");
+export const memoryLinks = tableProxy("memoryLinks");
+export const memoryResourceSettings = tableProxy("memoryResourceSettings");
 export const toolSessions = tableProxy("toolSessions");
 
 export async function publishTaskUpdated(sessionId: string, list: Array<Task>) {
@@ -84,6 +91,9 @@ export async function publishTaskUpdated(sessionId: string, list: Array<Task>) {
 }
 
 export type {
+  MemoryEmbedding,
+  MemoryLink,
+  MemoryPin,
   Message,
   NewTask,
   NewWorkingMemory,
@@ -9,12 +9,14 @@ export type { InstanceContext } from "./instance/context";
 export { Instance } from "./instance/index.ts";
 export {
   clone,
+  commitAll,
   createWorktree,
   detectProject as detectProjectFromPath,
   getVCSInfo as getVcsInfo,
   getWorkspacesDir,
   listLocalBranches,
   listRemoteBranches,
+  mergeBranches,
   worktreeExists,
 } from "./workspace";
 
@@ -23,15 +25,19 @@ export {
   PermissionManager,
   PermissionRejectedError,
   PermissionTimeoutError,
+  type PermissionPolicyStore,
 } from "./security/permission-manager";
 export { QuestionManager, QuestionRejectedError } from "./session/question-manager";
 
 export {
   createDefaultRules,
+  evaluateLayeredPatterns,
   evaluatePermission,
   formatConfigRules,
   parseConfigRules,
+  type LayeredEvaluation,
 } from "./security/permission-rules";
+export { parseCommand } from "./tools/shell/parser";
 
 export { initializePermissionRules } from "./config/permissions";
 
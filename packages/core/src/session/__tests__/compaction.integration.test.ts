@@ -0,0 +1,160 @@
+/**
+ * Tests for session compaction
+ */
+
+import { v7 as uuidv7 } from "uuid";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const observerMock = vi.fn();
+const reflectorMock = vi.fn();
+
+vi.mock("@/memory/observation/observer", () => ({
+  callObserverAgent: observerMock,
+}));
+
+vi.mock("@/memory/reflection/reflector", () => ({
+  callReflectorAgent: reflectorMock,
+}));
+
+describe("session compaction", () => {
+  let compaction: typeof import("@/session/compaction");
+  let messageStorage: typeof import("@/memory/message/storage").messageStorage;
+  let executeMemorySearch: typeof import("@/memory/search").executeMemorySearch;
+  let threadId: string;
+  const model = {} as never;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    compaction = await import("@/session/compaction");
+    ({ messageStorage } = await import("@/memory/message/storage"));
+    ({ executeMemorySearch } = await import("@/memory/search"));
+
+    const { getDb, threads } = await import("@/testing/db");
+    const db = await getDb();
+    threadId = uuidv7();
+    await db.insert(threads).values({
+      id: threadId,
+      resource_id: "local",
+      title: "Compaction Thread",
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+
+    const texts = [
+      "Set up the zephyrquartz parser",
+      "Parser added in parser.ts",
+      "Now add tests",
+      "Tests added",
+      "Run lint",
+      "Lint passes",
+    ];
+    for (const [index, text] of texts.entries()) {
+      await messageStorage.createMessage({
+        id: uuidv7(),
+        threadId,
+        resourceId: "local",
+        role: index % 2 === 0 ? "user" : "assistant",
+        rawContent: text,
+        createdAt: 1000 * (index + 1),
+        messageIndex: index,
+      });
+    }
+
+    observerMock.mockResolvedValue({
+      observations: "User asked for a parser and tests; both were added.",
+      tokenCount: 10,
+    });
+  });
+
+  afterAll(async () => {
+    const { closeDb } = await import("@/testing/db");
+    closeDb();
+  });
+
+  it("compacts only when the history nears the context limit", () => {
+    expect(compaction.shouldCompact(700, 1000)).toBe(false);
+    expect(compaction.shouldCompact(800, 1000)).toBe(true);
+    expect(compaction.shouldCompact(500, 1000, 0.5)).toBe(true);
+    expect(compaction.shouldCompact(500, 0)).toBe(false);
+  });
+
+  it("folds older turns into a checkpoint and keeps recent ones", async () => {
+    const result = await compaction.compactSession({ threadId, model, keepRecent: 2 });
+
+    expect(result.compacted).toBe(4);
+    expect(result.reflected).toBe(false);
+    expect(observerMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        existingObservations: "",
+        messages: expect.arrayContaining([
+          expect.objectContaining({ content: "Set up the zephyrquartz parser" }),
+        ]),
+      }),
+      model
+    );
+
+    const visible = await messageStorage.listMessages({ threadId, uncompacted: true });
+    expect(visible.map(message => message.raw_content)).toEqual([
+      "User asked for a parser and tests; both were added.",
+      "Run lint",
+      "Lint passes",
+    ]);
+    expect(compaction.isCompactionCheckpoint(visible[0]!)).toBe(true);
+    expect(visible[0]!.id).toBe(result.checkpointId);
+    expect(await messageStorage.listMessages({ threadId })).toHaveLength(7);
+  });
+
+  it("keeps compacted turns searchable", async () => {
+    await compaction.compactSession({ threadId, model, keepRecent: 2 });
+
+    const search = await executeMemorySearch({ query: "zephyrquartz", threadId });
+    expect(search.success).toBe(true);
+    if (search.success) {
+      expect(search.results.map(result => result.content)).toContain(
+        "Set up the zephyrquartz parser"
+      );
+    }
+  });
+
+  it("folds the previous checkpoint into the next one", async () => {
+    await compaction.compactSession({ threadId, model, keepRecent: 2 });
+    observerMock.mockResolvedValue({
+      observations: "Parser, tests and lint are done.",
+      tokenCount: 8,
+    });
+
+    const result = await compaction.compactSession({ threadId, model, keepRecent: 0 });
+
+    expect(result.compacted).toBe(2);
+    expect(observerMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        existingObservations: "User asked for a parser and tests; both were added.",
+      }),
+      model
+    );
+    const visible = await messageStorage.listMessages({ threadId, uncompacted: true });
+    expect(visible.map(message => message.raw_content)).toEqual([
+      "Parser, tests and lint are done.",
+    ]);
+  });
+
+  it("condenses large summaries with the reflector", async () => {
+    observerMock.mockResolvedValue({ observations: "x".repeat(10000), tokenCount: 2500 });
+    reflectorMock.mockResolvedValue({ observations: "Condensed summary", tokenCount: 5 });
+
+    const result = await compaction.compactSession({ threadId, model, keepRecent: 2 });
+
+    expect(result.reflected).toBe(true);
+    expect(result.summary).toBe("Condensed summary");
+    const { reflectionStorage } = await import("@/memory/reflection/storage");
+    const reflections = await reflectionStorage.getReflectionsByThread(threadId);
+    expect(reflections.map(reflection => reflection.origin_type)).toEqual(["compaction"]);
+  });
+
+  it("does nothing when every message is recent", async () => {
+    const result = await compaction.compactSession({ threadId, model, keepRecent: 10 });
+
+    expect(result.checkpointId).toBeNull();
+    expect(observerMock).not.toHaveBeenCalled();
+  });
+});
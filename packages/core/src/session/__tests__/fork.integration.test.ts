@@ -0,0 +1,128 @@
+/**
+ * Tests for forking session memory
+ */
+
+import { v7 as uuidv7 } from "uuid";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+describe("forkSessionMemory", () => {
+  let forkSessionMemory: typeof import("@/session/fork").forkSessionMemory;
+  let messageStorage: typeof import("@/memory/message/storage").messageStorage;
+  let workingMemoryStorage: typeof import("@/memory/working-memory/storage").workingMemoryStorage;
+  let observationalMemoryStorage: typeof import("@/memory/observation/storage").observationalMemoryStorage;
+  let sourceThreadId: string;
+  let targetThreadId: string;
+
+  async function createThread(id: string): Promise<void> {
+    const { getDb, threads } = await import("@/testing/db");
+    const db = await getDb();
+    await db.insert(threads).values({
+      id,
+      resource_id: "local",
+      title: "Fork Thread",
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+  }
+
+  beforeEach(async () => {
+    ({ forkSessionMemory } = await import("@/session/fork"));
+    ({ messageStorage } = await import("@/memory/message/storage"));
+    ({ workingMemoryStorage } = await import("@/memory/working-memory/storage"));
+    ({ observationalMemoryStorage } = await import("@/memory/observation/storage"));
+
+    sourceThreadId = uuidv7();
+    targetThreadId = uuidv7();
+    await createThread(sourceThreadId);
+    await createThread(targetThreadId);
+
+    for (const [index, text] of ["first question", "first answer", "second question"].entries()) {
+      await messageStorage.createMessage({
+        id: uuidv7(),
+        threadId: sourceThreadId,
+        resourceId: "local",
+        role: index % 2 === 0 ? "user" : "assistant",
+        rawContent: text,
+        createdAt: 1000 * (index + 1),
+        messageIndex: index,
+      });
+    }
+  });
+
+  afterAll(async () => {
+    const { closeDb } = await import("@/testing/db");
+    closeDb();
+  });
+
+  it("copies messages from before the fork point under new IDs", async () => {
+    const result = await forkSessionMemory({
+      sourceThreadId,
+      targetThreadId,
+      before: new Date(3000),
+    });
+
+    expect(result.messages).toBe(2);
+    const source = await messageStorage.listMessages({ threadId: sourceThreadId });
+    const copied = await messageStorage.listMessages({ threadId: targetThreadId });
+    expect(copied.map(message => message.raw_content)).toEqual(["first question", "first answer"]);
+    expect(copied.map(message => message.message_index)).toEqual([0, 1]);
+    expect(copied.some(message => source.some(original => original.id === message.id))).toBe(false);
+  });
+
+  it("copies thread working memory and observations that predate the fork", async () => {
+    await workingMemoryStorage.upsertWorkingMemory(
+      sourceThreadId,
+      { resourceId: sourceThreadId, scope: "thread", content: "# Context\n- forked" },
+      "thread"
+    );
+    const [firstMessage] = await messageStorage.listMessages({ threadId: sourceThreadId });
+    const observed = await observationalMemoryStorage.createObservationalMemory({
+      threadId: sourceThreadId,
+      scope: "thread",
+      createdAt: 1000,
+    });
+    await observationalMemoryStorage.updateObservationalMemory(observed.id, {
+      activeObservations: "User asked the first question",
+      observedMessageIds: [firstMessage!.id],
+      lastObservedAt: 1500,
+    });
+
+    const result = await forkSessionMemory({ sourceThreadId, targetThreadId });
+
+    expect(result).toMatchObject({ messages: 3, workingMemory: true, observationalMemory: true });
+    const working = await workingMemoryStorage.getWorkingMemory(targetThreadId, "thread");
+    expect(working?.content).toBe("# Context\n- forked");
+
+    const copiedObservations = await observationalMemoryStorage.getObservationalMemory(
+      "thread",
+      undefined,
+      targetThreadId
+    );
+    const [copiedFirst] = await messageStorage.listMessages({ threadId: targetThreadId });
+    expect(copiedObservations?.active_observations).toBe("User asked the first question");
+    expect(copiedObservations?.observed_message_ids).toEqual([copiedFirst!.id]);
+  });
+
+  it("skips observations made after the fork point", async () => {
+    const observed = await observationalMemoryStorage.createObservationalMemory({
+      threadId: sourceThreadId,
+      scope: "thread",
+      createdAt: 1000,
+    });
+    await observationalMemoryStorage.updateObservationalMemory(observed.id, {
+      activeObservations: "User asked the second question",
+      lastObservedAt: 3500,
+    });
+
+    const result = await forkSessionMemory({
+      sourceThreadId,
+      targetThreadId,
+      before: new Date(2500),
+    });
+
+    expect(result.observationalMemory).toBe(false);
+    expect(
+      await observationalMemoryStorage.getObservationalMemory("thread", undefined, targetThreadId)
+    ).toBeNull();
+  });
+});
@@ -12,6 +12,10 @@ const memoryFormatMock = vi.fn();
 const injectSpecContextMock = vi.fn();
 const processInputStepMock = vi.fn();
 const listMessagesMock = vi.fn();
+const getMessageMock = vi.fn();
+const loadMemorySettingsMock = vi.fn();
+const listPinsMock = vi.fn();
+const loadLinkedMemoryMock = vi.fn();
 
 type TestableProcessor = {
   streamIteration: (...args: unknown[]) => Promise<unknown>;
@@ -26,10 +30,24 @@ vi.mock("ai", () => ({
 
 vi.mock("@/memory", () => ({
   SimpleTokenCounter: class MockTokenCounter {},
+  applyMemorySettings: vi.fn((config, settings) => ({ ...config, ...settings })),
   createObserverAgent: vi.fn(() => vi.fn()),
+  formatLinkedMemoryForInjection: vi.fn((sources: Array<{ resourceId: string }>) =>
+    sources.length > 0 ? `<linked-memory>${sources[0]?.resourceId}</linked-memory>` : ""
+  ),
   formatObservationsForInjection: vi.fn(() => ""),
+  formatPinsForInjection: vi.fn((pins: Array<{ content: string }>) =>
+    pins.length > 0
+      ? `<pinned-memory>${pins.map(pin => pin.content).join("\n")}</pinned-memory>`
+      : ""
+  ),
   getAgentMode: vi.fn(() => "default"),
   getMemoryConfig: vi.fn(() => ({})),
+  loadLinkedMemory: loadLinkedMemoryMock,
+  loadMemorySettings: loadMemorySettingsMock,
+  memoryPinStorage: {
+    listPins: listPinsMock,
+  },
   memoryProcessor: {
     input: memoryInputMock,
     output: memoryOutputMock,
@@ -37,6 +55,7 @@ vi.mock("@/memory", () => ({
   },
   messageStorage: {
     listMessages: listMessagesMock,
+    getMessage: getMessageMock,
   },
   processInputStep: processInputStepMock,
 }));
@@ -73,7 +92,11 @@ describe("session/processor memory integration", () => {
     });
     injectSpecContextMock.mockImplementation(async messages => messages);
     listMessagesMock.mockResolvedValue([]);
+    getMessageMock.mockResolvedValue(null);
     processInputStepMock.mockResolvedValue({ record: { active_observations: "" } });
+    loadMemorySettingsMock.mockResolvedValue({});
+    listPinsMock.mockResolvedValue([]);
+    loadLinkedMemoryMock.mockResolvedValue([]);
   });
 
   it("uses memory input processor when thread context is present", async () => {
@@ -157,6 +180,50 @@ describe("session/processor memory integration", () => {
     });
   });
 
+  it("persists messages under their chat timeline IDs and skips a retried user message", async () => {
+    const { AgentProcessor } = await import("@/session/processor");
+    const config = {
+      id: "test-agent-memory-ids",
+      type: "build" as const,
+      model: "test-model",
+      systemPrompt: "You are a test agent",
+      tools: {},
+      maxIterations: 2,
+    };
+    const run = async (assistant: string) => {
+      const processor = new AgentProcessor(config, () => {});
+      const p = processor as unknown as TestableProcessor;
+      p.streamIteration = vi.fn(async () => ({}));
+      p.processStream = vi.fn(async () => {
+        p.messages.push({ role: "assistant", content: "Fix complete" });
+        return { finished: true };
+      });
+      await processor.run({
+        task: "Fix failing tests",
+        context: { sessionId: "session-memory-ids", resourceId: "local" },
+        messageIds: { user: "user-1", assistant },
+      });
+    };
+
+    await run("assistant-1");
+    expect(memoryOutputMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        messages: [
+          { id: "user-1", role: "user", content: "Fix failing tests" },
+          { id: "assistant-1", role: "assistant", content: "Fix complete" },
+        ],
+      })
+    );
+
+    getMessageMock.mockResolvedValue({ id: "user-1" });
+    await run("assistant-2");
+    expect(memoryOutputMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        messages: [{ id: "assistant-2", role: "assistant", content: "Fix complete" }],
+      })
+    );
+  });
+
   it("injects spec context into model messages when thread context is present", async () => {
     const { AgentProcessor } = await import("@/session/processor");
 
@@ -223,6 +290,88 @@ describe("session/processor memory integration", () => {
     );
   });
 
+  it("applies user memory thresholds and injects pinned facts", async () => {
+    loadMemorySettingsMock.mockResolvedValue({ observationThreshold: 12000 });
+    listPinsMock.mockResolvedValue([{ content: "Deploys go through the staging branch" }]);
+    const { AgentProcessor } = await import("@/session/processor");
+
+    const processor = new AgentProcessor(
+      {
+        id: "test-agent-pins",
+        type: "build",
+        model: "test-model",
+        systemPrompt: "You are a test agent",
+        tools: {},
+        maxIterations: 2,
+      },
+      () => {}
+    );
+
+    const p = processor as unknown as TestableProcessor;
+    p.streamIteration = vi.fn(async () => ({}));
+    p.processStream = vi.fn(async () => ({ finished: true }));
+
+    await processor.run({
+      task: "Ship the release",
+      context: {
+        sessionId: "session-memory-pins",
+        resourceId: "local",
+      },
+    });
+
+    expect(processInputStepMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({ observationThreshold: 12000 }),
+      })
+    );
+    expect(listPinsMock).toHaveBeenCalledWith("local", "session-memory-pins");
+    const injected = injectSpecContextMock.mock.calls[0]?.[0] as Array<{
+      role: string;
+      content: string;
+    }>;
+    expect(injected.map(message => message.role)).toEqual(["system", "system", "user"]);
+    expect(injected[1]?.content).toContain("Deploys go through the staging branch");
+  });
+
+  it("injects memory shared by linked workspaces after pinned facts", async () => {
+    listPinsMock.mockResolvedValue([{ content: "Deploys go through the staging branch" }]);
+    loadLinkedMemoryMock.mockResolvedValue([{ resourceId: "/repos/api" }]);
+    const { AgentProcessor } = await import("@/session/processor");
+
+    const processor = new AgentProcessor(
+      {
+        id: "test-agent-linked",
+        type: "build",
+        model: "test-model",
+        systemPrompt: "You are a test agent",
+        tools: {},
+        maxIterations: 2,
+      },
+      () => {}
+    );
+
+    const p = processor as unknown as TestableProcessor;
+    p.streamIteration = vi.fn(async () => ({}));
+    p.processStream = vi.fn(async () => ({ finished: true }));
+
+    await processor.run({
+      task: "Ship the release",
+      context: {
+        sessionId: "session-memory-linked",
+        resourceId: "/repos/web",
+      },
+    });
+
+    expect(loadLinkedMemoryMock).toHaveBeenCalledWith("/repos/web");
+    const injected = injectSpecContextMock.mock.calls[0]?.[0] as Array<{
+      role: string;
+      content: string;
+    }>;
+    expect(injected.map(message => message.role)).toEqual(["system", "system", "system", "user"]);
+    expect(injected[1]?.content).toContain("<pinned-memory>");
+    expect(injected[2]?.content).toBe("<linked-memory>/repos/api</linked-memory>");
+  });
+
   it("supports resource-scope observation integration when memoryScope is resource", async () => {
     const { AgentProcessor } = await import("@/session/processor");
 
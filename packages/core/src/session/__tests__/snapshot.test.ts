@@ -0,0 +1,154 @@
+/**
+ * Tests for session file snapshots (undo/redo)
+ */
+
+import { Instance } from "@/instance";
+import { SessionSnapshot } from "@/session/snapshot";
+import { writeTool } from "@/tools/filesystem/write";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { v7 as uuidv7 } from "uuid";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lsp", () => ({
+  LSP: {
+    touchFile: vi.fn(),
+    getDiagnostics: vi.fn(() => ({})),
+  },
+}));
+
+vi.mock("@/security/permission-manager", () => ({
+  PermissionManager: {
+    getInstance: vi.fn(() => ({
+      requestApproval: vi.fn().mockResolvedValue(true),
+    })),
+  },
+}));
+
+describe("SessionSnapshot", () => {
+  let workspace: string;
+  let sessionID: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "session-snapshot-"));
+    sessionID = uuidv7();
+  });
+
+  afterEach(async () => {
+    await SessionSnapshot.remove(sessionID);
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  function file(name: string): string {
+    return path.join(workspace, name);
+  }
+
+  async function read(name: string): Promise<string | null> {
+    return fs.readFile(file(name), "utf-8").catch(() => null);
+  }
+
+  /** Run one assistant turn that writes the given files */
+  async function turn(messageID: string, writes: Record<string, string>): Promise<void> {
+    await Instance.provide({
+      directory: workspace,
+      sessionID,
+      messageID,
+      fn: async () => {
+        for (const [name, content] of Object.entries(writes)) {
+          await (
+            writeTool as unknown as {
+              execute: (input: unknown, options: unknown) => Promise<unknown>;
+            }
+          ).execute({ filePath: file(name), content }, {});
+        }
+      },
+    });
+  }
+
+  it("keeps the first before-image of each file per turn", async () => {
+    await fs.writeFile(file("a.txt"), "original");
+    const messageID = uuidv7();
+
+    await Instance.provide({
+      directory: workspace,
+      sessionID,
+      messageID,
+      fn: async () => {
+        await SessionSnapshot.track(file("a.txt"));
+        await fs.writeFile(file("a.txt"), "changed");
+        await SessionSnapshot.track(file("a.txt"));
+        await SessionSnapshot.track(file("new.txt"));
+      },
+    });
+
+    const snapshot = await SessionSnapshot.getTurn(sessionID, messageID);
+    expect(snapshot?.files).toEqual([
+      {
+        path: file("a.txt"),
+        existed: true,
+        content: Buffer.from("original").toString("base64"),
+      },
+      { path: file("new.txt"), existed: false },
+    ]);
+  });
+
+  it("does nothing outside an instance context", async () => {
+    await expect(SessionSnapshot.track(file("a.txt"))).resolves.toBeUndefined();
+  });
+
+  it("reverts files to before the earliest reverted turn and redoes them", async () => {
+    await fs.writeFile(file("a.txt"), "v0");
+    const first = uuidv7();
+    const second = uuidv7();
+    await turn(first, { "a.txt": "v1" });
+    await turn(second, { "a.txt": "v2", "b.txt": "created" });
+
+    const revert = await SessionSnapshot.revert({ sessionID, messageIDs: [first, second] });
+
+    expect(revert.files.sort()).toEqual([file("a.txt"), file("b.txt")]);
+    expect(await read("a.txt")).toBe("v0");
+    expect(await read("b.txt")).toBeNull();
+    expect(await SessionSnapshot.getRevert(sessionID)).toMatchObject({
+      messageIDs: [first, second],
+    });
+
+    const redo = await SessionSnapshot.redo(sessionID);
+
+    expect(redo?.messageIDs).toEqual([first, second]);
+    expect(await read("a.txt")).toBe("v2");
+    expect(await read("b.txt")).toBe("created");
+    expect(await SessionSnapshot.getRevert(sessionID)).toBeNull();
+  });
+
+  it("starts from the latest state when reverting again", async () => {
+    await fs.writeFile(file("a.txt"), "v0");
+    const first = uuidv7();
+    const second = uuidv7();
+    await turn(first, { "a.txt": "v1" });
+    await turn(second, { "a.txt": "v2" });
+
+    await SessionSnapshot.revert({ sessionID, messageIDs: [second] });
+    expect(await read("a.txt")).toBe("v1");
+
+    await SessionSnapshot.revert({ sessionID, messageIDs: [first, second] });
+    expect(await read("a.txt")).toBe("v0");
+
+    await SessionSnapshot.redo(sessionID);
+    expect(await read("a.txt")).toBe("v2");
+  });
+
+  it("drops reverted turns when the revert is committed", async () => {
+    const messageID = uuidv7();
+    await turn(messageID, { "a.txt": "v1" });
+    await SessionSnapshot.revert({ sessionID, messageIDs: [messageID], cutoffMessageID: "msg-1" });
+
+    expect(await SessionSnapshot.commitRevert(sessionID)).toMatchObject({
+      messageIDs: [messageID],
+      cutoffMessageID: "msg-1",
+    });
+    expect(await SessionSnapshot.getTurn(sessionID, messageID)).toBeNull();
+    expect(await SessionSnapshot.redo(sessionID)).toBeNull();
+    expect(await read("a.txt")).toBeNull();
+  });
+});
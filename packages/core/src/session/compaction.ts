@@ -0,0 +1,194 @@
+/**
+ * Session compaction
+ *
+ * Folds the older turns of a session thread into a checkpoint message once the
+ * stored history nears the model's context window. The observer summarizes the
+ * turns and the reflector condenses that summary when it is still too large.
+ * Folded messages keep their text, so memory-search keeps finding them; they
+ * are only left out when the agent's context is assembled.
+ */
+
+import type { LanguageModelV3 } from "@ai-sdk/provider";
+import { createLogger } from "@sakti-code/shared/logger";
+import { v7 as uuidv7 } from "uuid";
+import { messageStorage } from "../memory/message/storage";
+import { callObserverAgent } from "../memory/observation/observer";
+import { SimpleTokenCounter, type ObservationMessage } from "../memory/observation/storage";
+import { callReflectorAgent } from "../memory/reflection/reflector";
+import { reflectionStorage } from "../memory/reflection/storage";
+import type { Message } from "../server-bridge";
+
+const logger = createLogger("sakti-code:session:compaction");
+
+/** Share of the context window the history may fill before it is compacted */
+export const COMPACTION_THRESHOLD = 0.8;
+/** Most recent messages left untouched by a compaction */
+const DEFAULT_KEEP_RECENT = 4;
+/** Checkpoint summaries above this size are condensed by the reflector */
+const CHECKPOINT_REFLECTION_TOKENS = 2000;
+const HISTORY_LIMIT = 1000;
+
+export interface CompactSessionInput {
+  threadId: string;
+  resourceId?: string;
+  model: LanguageModelV3;
+  /** Number of most recent messages to keep verbatim (default 4) */
+  keepRecent?: number;
+  /** Whether compaction was triggered by the context limit rather than the user */
+  auto?: boolean;
+}
+
+export interface CompactSessionResult {
+  /** ID of the checkpoint message, or null when there was nothing to compact */
+  checkpointId: string | null;
+  summary: string;
+  compacted: number;
+  reflected: boolean;
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+export function isCompactionCheckpoint(message: Pick<Message, "role" | "summary">): boolean {
+  return message.role === "system" && message.summary !== null && message.summary !== undefined;
+}
+
+/**
+ * Whether a history of `tokens` tokens is close enough to `contextLimit` to compact
+ */
+export function shouldCompact(
+  tokens: number,
+  contextLimit: number,
+  threshold: number = COMPACTION_THRESHOLD
+): boolean {
+  if (contextLimit <= 0) return false;
+  return tokens >= contextLimit * threshold;
+}
+
+function countTokens(history: Message[]): number {
+  const counter = new SimpleTokenCounter();
+  return history.reduce((total, message) => total + counter.countString(message.injection_text), 0);
+}
+
+/**
+ * Estimate the tokens of the history the agent still sees for a thread
+ */
+export async function countSessionTokens(threadId: string): Promise<number> {
+  const history = await messageStorage.listMessages({
+    threadId,
+    uncompacted: true,
+    limit: HISTORY_LIMIT,
+  });
+  return countTokens(history);
+}
+
+function formatCheckpoint(summary: string): string {
+  return `<compaction-checkpoint>\n${summary}\n</compaction-checkpoint>`;
+}
+
+/**
+ * Summarize the older turns of a session into a checkpoint message
+ *
+ * An earlier checkpoint is folded into the new one, so a thread only ever has
+ * one active checkpoint.
+ */
+export async function compactSession(input: CompactSessionInput): Promise<CompactSessionResult> {
+  const { threadId, model } = input;
+  const keepRecent = Math.max(0, input.keepRecent ?? DEFAULT_KEEP_RECENT);
+
+  const history = await messageStorage.listMessages({
+    threadId,
+    uncompacted: true,
+    limit: HISTORY_LIMIT,
+  });
+  const tokensBefore = countTokens(history);
+  const older = history.slice(0, Math.max(0, history.length - keepRecent));
+  const turns = older.filter(message => !isCompactionCheckpoint(message));
+
+  if (turns.length === 0) {
+    return {
+      checkpointId: null,
+      summary: "",
+      compacted: 0,
+      reflected: false,
+      tokensBefore,
+      tokensAfter: tokensBefore,
+    };
+  }
+
+  const previousSummary = older
+    .filter(isCompactionCheckpoint)
+    .map(message => message.summary)
+    .join("\n\n");
+
+  const observed = await callObserverAgent(
+    {
+      existingObservations: previousSummary,
+      messages: turns.map(
+        (message): ObservationMessage => ({
+          id: message.id,
+          role:
+            message.role === "tool" ? "assistant" : (message.role as ObservationMessage["role"]),
+          content: message.raw_content,
+          createdAt: message.created_at.getTime(),
+        })
+      ),
+    },
+    model
+  );
+
+  let summary = observed.observations;
+  let reflected = false;
+  if (new SimpleTokenCounter().countString(summary) > CHECKPOINT_REFLECTION_TOKENS) {
+    const reflection = await callReflectorAgent({ activeObservations: summary }, model);
+    summary = reflection.observations;
+    reflected = true;
+
+    const previous = await reflectionStorage.getReflectionsByThread(threadId);
+    await reflectionStorage.createReflection({
+      id: uuidv7(),
+      threadId,
+      resourceId: input.resourceId,
+      content: summary,
+      mergedFrom: [],
+      originType: "compaction",
+      generationCount: previous.length + 1,
+      tokenCount: reflection.tokenCount,
+    });
+  }
+
+  // The checkpoint takes the place of the last folded message so it sorts
+  // between the folded history and the turns that were kept
+  const last = older[older.length - 1]!;
+  const checkpoint = await messageStorage.createMessage({
+    id: uuidv7(),
+    threadId,
+    resourceId: input.resourceId ?? last.resource_id ?? undefined,
+    role: "system",
+    rawContent: summary,
+    searchText: summary,
+    injectionText: formatCheckpoint(summary),
+    summary,
+    createdAt: last.created_at.getTime(),
+    messageIndex: last.message_index,
+  });
+  await messageStorage.markMessagesCompacted(older.map(message => message.id));
+
+  const tokensAfter = await countSessionTokens(threadId);
+  const result: CompactSessionResult = {
+    checkpointId: checkpoint.id,
+    summary,
+    compacted: turns.length,
+    reflected,
+    tokensBefore,
+    tokensAfter,
+  };
+  logger.info("session compacted", {
+    threadId,
+    auto: input.auto ?? false,
+    compacted: result.compacted,
+    reflected,
+    tokensBefore,
+    tokensAfter,
+  });
+  return result;
+}
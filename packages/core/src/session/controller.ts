@@ -8,11 +8,25 @@
 import { EventEmitter } from "events";
 import { access, mkdir, writeFile } from "fs/promises";
 import { join } from "path";
+import { loadCustomAgents } from "../agent/custom";
+import { getAgent, runAsAgent } from "../agent/registry";
 import { createAgent } from "../agent/workflow/factory";
+import {
+  formatHookFeedback,
+  loadTrustedWorkspaceHooks,
+  runHooks,
+  wrapToolsWithHooks,
+  type HookExecution,
+} from "../hooks";
+import { MCP } from "../mcp";
+import { Plugins } from "../plugin";
 import { getSessionRuntimeMode } from "../spec/helpers";
 import { AgentProcessor } from "./processor";
 import { Checkpoint, SessionConfig, SessionPhase, SessionStatus } from "./types";
 
+/** How many times blocking stop hooks may send the agent back to work per message */
+const MAX_STOP_HOOK_CONTINUATIONS = 3;
+
 /**
  * Session controller class
  *
@@ -30,6 +44,7 @@ export class SessionController {
   private currentAgent: AgentProcessor | null = null;
   private currentPhase: SessionPhase = "idle";
   private abortController: AbortController | null = null;
+  private sessionStarted = false;
 
   constructor(config: {
     sessionId: string;
@@ -52,13 +67,19 @@ export class SessionController {
    * Process a user message with the agent
    *
    * @param message - The user's message
-   * @param options - Optional callbacks
+   * @param options - Optional callbacks and command overrides
    * @returns Agent execution result
    */
   async processMessage(
     message: string,
     options?: {
       onEvent?: (event: { type: string; [key: string]: unknown }) => void;
+      /** Run this agent instead of the one for the session's runtime mode */
+      agent?: string;
+      /** Restrict the agent to these tools */
+      allowedTools?: string[];
+      /** Chat timeline IDs of the turn, reused for the persisted messages */
+      messageIds?: { user?: string; assistant?: string };
     }
   ): Promise<{
     status: "completed" | "failed" | "stopped";
@@ -87,16 +108,29 @@ export class SessionController {
       // build → build (implementation and delivery)
       const agentTypeForRuntimeMode = runtimeMode === "intake" ? "explore" : runtimeMode;
 
-      // Create agent configuration based on resolved runtime mode
+      // Connect workspace MCP servers and load plugins so createTools can merge their tools
+      await MCP.ensureWorkspace(this.config.workspace);
+      await Plugins.ensureWorkspace(this.config.workspace);
+      await loadCustomAgents(this.config.workspace);
+      const hooks = await loadTrustedWorkspaceHooks(this.config.workspace);
+
+      // Create agent configuration based on resolved runtime mode. The selected
+      // model applies unless the agent names a `provider/model` of its own.
+      const agentDefinition = getAgent(options?.agent ?? agentTypeForRuntimeMode);
       const activeModelId = process.env.SAKTI_CODE_ACTIVE_MODEL_ID?.trim();
       const agentConfig = createAgent(
-        agentTypeForRuntimeMode,
+        agentDefinition.name,
         this.sessionId,
-        activeModelId ? { model: activeModelId } : undefined
+        activeModelId && !agentDefinition.model.includes("/") ? { model: activeModelId } : undefined
       );
+      if (options?.allowedTools) {
+        const allowed = new Set(options.allowedTools);
+        agentConfig.tools = Object.fromEntries(
+          Object.entries(agentConfig.tools).filter(([name]) => allowed.has(name))
+        );
+      }
 
-      // Create processor
-      this.currentAgent = new AgentProcessor(agentConfig, event => {
+      const forwardEvent = (event: { type: string; [key: string]: unknown }) => {
         // Forward agent events through event bus
         this.emitEvent({
           type: "agent-event",
@@ -106,18 +140,100 @@ export class SessionController {
         });
 
         // Call user callback if provided
-        options?.onEvent?.(event as { type: string; [key: string]: unknown });
+        options?.onEvent?.(event);
+      };
+      const hookPayload = { sessionId: this.sessionId, directory: this.config.workspace };
+      const hookOptions = {
+        signal: this.abortController.signal,
+        onExecution: (execution: HookExecution) =>
+          forwardEvent({
+            type: "hook",
+            hookId: execution.id,
+            hookEvent: execution.event,
+            command: execution.command,
+            toolName: execution.toolName,
+            toolCallId: execution.toolCallId,
+            outcome: execution.outcome,
+            exitCode: execution.exitCode,
+            durationMs: execution.durationMs,
+            output: execution.output,
+            error: execution.error,
+            agentId: agentConfig.id,
+          }),
+      };
+
+      const hookContext: string[] = [];
+      if (!this.sessionStarted) {
+        this.sessionStarted = true;
+        const started = await runHooks(
+          hooks,
+          { ...hookPayload, event: "sessionStart" },
+          hookOptions
+        );
+        hookContext.push(formatHookFeedback("sessionStart", started.feedback));
+      }
+
+      const submitted = await runHooks(
+        hooks,
+        { ...hookPayload, event: "userPromptSubmit", prompt: message },
+        hookOptions
+      );
+      if (submitted.blocked) {
+        this.currentPhase = "failed";
+        return {
+          status: "failed",
+          error: `Prompt blocked by userPromptSubmit hook (${submitted.blocked.command}): ${submitted.blocked.reason}`,
+        };
+      }
+      hookContext.push(formatHookFeedback("userPromptSubmit", submitted.feedback));
+
+      agentConfig.tools = wrapToolsWithHooks(agentConfig.tools, {
+        config: hooks,
+        ...hookPayload,
+        onExecution: hookOptions.onExecution,
       });
 
+      const agentContext = {
+        sessionId: this.sessionId,
+        resourceId: this.config.resourceId,
+        workspace: this.config.workspace,
+      };
+
       // Run the agent
-      const result = await this.currentAgent.run({
-        task: message,
-        context: {
-          sessionId: this.sessionId,
-          resourceId: this.config.resourceId,
-          workspace: this.config.workspace,
-        },
-      });
+      const processor = new AgentProcessor(agentConfig, forwardEvent);
+      this.currentAgent = processor;
+      let result = await runAsAgent(agentDefinition, () =>
+        processor.run({
+          task: [message, ...hookContext].filter(Boolean).join("\n\n"),
+          context: agentContext,
+          messageIds: options?.messageIds,
+        })
+      );
+
+      // A blocking stop hook sends the agent back to work with its reason
+      for (let continuation = 0; ; continuation++) {
+        const stopped = await runHooks(
+          hooks,
+          {
+            ...hookPayload,
+            event: "stop",
+            status: result.status,
+            finalContent: result.finalContent,
+          },
+          hookOptions
+        );
+        if (!stopped.blocked || result.status !== "completed") break;
+        if (continuation >= MAX_STOP_HOOK_CONTINUATIONS) break;
+
+        const task = formatHookFeedback("stop", [
+          { command: stopped.blocked.command, output: stopped.blocked.reason },
+        ]);
+        const continued = new AgentProcessor(agentConfig, forwardEvent);
+        this.currentAgent = continued;
+        result = await runAsAgent(agentDefinition, () =>
+          continued.run({ task, context: agentContext })
+        );
+      }
 
       this.currentPhase = result.status === "completed" ? "completed" : "failed";
 
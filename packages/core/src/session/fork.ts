@@ -0,0 +1,101 @@
+/**
+ * Session fork
+ *
+ * Copies the agent memory of one session thread into a new thread so a
+ * conversation can continue in two directions from the same point: thread
+ * messages, thread-scoped working memory and thread-scoped observational memory.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { messageStorage } from "../memory/message/storage";
+import { observationalMemoryStorage } from "../memory/observation/storage";
+import { workingMemoryStorage } from "../memory/working-memory/storage";
+
+const logger = createLogger("sakti-code:session:fork");
+
+export interface ForkSessionMemoryInput {
+  sourceThreadId: string;
+  targetThreadId: string;
+  /** Only memory from before this point is copied; omit to copy everything */
+  before?: Date;
+}
+
+export interface ForkSessionMemoryResult {
+  messages: number;
+  /** ID of each copied message, keyed by the ID of its source */
+  messageIds: Map<string, string>;
+  workingMemory: boolean;
+  observationalMemory: boolean;
+}
+
+/**
+ * Copy the memory of a session thread into a freshly created thread
+ */
+export async function forkSessionMemory(
+  input: ForkSessionMemoryInput
+): Promise<ForkSessionMemoryResult> {
+  const { sourceThreadId, targetThreadId, before } = input;
+
+  const copied = await messageStorage.copyThreadMessages({
+    sourceThreadId,
+    targetThreadId,
+    before,
+  });
+
+  const working = await workingMemoryStorage.getWorkingMemory(sourceThreadId, "thread");
+  if (working) {
+    await workingMemoryStorage.upsertWorkingMemory(
+      targetThreadId,
+      { resourceId: targetThreadId, scope: "thread", content: working.content },
+      "thread"
+    );
+  }
+
+  // Observations summarize everything seen so far and cannot be cut at the
+  // fork point, so they are only carried over when they predate it
+  const observed = await observationalMemoryStorage.getObservationalMemory(
+    "thread",
+    undefined,
+    sourceThreadId
+  );
+  const lastObservedAt = observed?.last_observed_at
+    ? new Date(observed.last_observed_at as Date | number).getTime()
+    : undefined;
+  const observedBeforeFork = Boolean(
+    observed?.active_observations &&
+    (!before || (lastObservedAt !== undefined && lastObservedAt < before.getTime()))
+  );
+
+  if (observed && observedBeforeFork) {
+    const record = await observationalMemoryStorage.createObservationalMemory({
+      threadId: targetThreadId,
+      resourceId: observed.resource_id ?? undefined,
+      scope: "thread",
+      createdAt: Date.now(),
+      config: observed.config ?? undefined,
+    });
+    await observationalMemoryStorage.updateObservationalMemory(record.id, {
+      activeObservations: observed.active_observations ?? undefined,
+      observedMessageIds: (observed.observed_message_ids ?? []).flatMap(id => {
+        const copy = copied.get(id);
+        return copy ? [copy] : [];
+      }),
+      lastObservedAt,
+      generationCount: observed.generation_count ?? 0,
+    });
+  }
+
+  logger.info("session memory forked", {
+    sourceThreadId,
+    targetThreadId,
+    messages: copied.size,
+    workingMemory: Boolean(working),
+    observationalMemory: observedBeforeFork,
+  });
+  return {
+    messages: copied.size,
+    messageIds: copied,
+    workingMemory: Boolean(working),
+    observationalMemory: observedBeforeFork,
+  };
+}
@@ -7,6 +7,7 @@
 import { access, readFile } from "fs/promises";
 import { join } from "path";
 import { v7 as uuidv7 } from "uuid";
+import { BackgroundProcesses } from "../tools/shell/process-manager";
 import { SessionController } from "./controller";
 import { Checkpoint, SessionConfig } from "./types";
 
@@ -206,5 +207,6 @@ export class SessionManager {
       session.abort();
       this.sessions.delete(sessionId);
     }
+    await BackgroundProcesses.killSession(sessionId);
   }
 }
@@ -18,12 +18,19 @@ import {
 } from "../agent/workflow/model-provider";
 import { AgentConfig, AgentEvent, AgentInput, AgentResult } from "../agent/workflow/types";
 import { Instance } from "../instance";
+import { activateInstructions, formatInstructions, getActiveInstructions } from "../instructions";
 import {
   SimpleTokenCounter,
+  applyMemorySettings,
   createObserverAgent,
+  formatLinkedMemoryForInjection,
   formatObservationsForInjection,
+  formatPinsForInjection,
   getAgentMode,
   getMemoryConfig,
+  loadLinkedMemory,
+  loadMemorySettings,
+  memoryPinStorage,
   memoryProcessor,
   messageStorage,
   processInputStep,
@@ -34,7 +41,9 @@ import {
   triggerChatHeadersHook,
   triggerChatParamsHook,
 } from "../plugin/hooks";
+import { compactSession, countSessionTokens, shouldCompact } from "./compaction";
 import { classifyAgentError } from "./error-classification";
+import { normalizeUsage } from "./usage";
 
 import { injectSpecContextForModelMessages } from "../agent/spec-injector";
 import { MAX_STEPS_PROMPT } from "../prompts/auto-compaction";
@@ -71,10 +80,6 @@ function isInteractiveToolSignature(signature: string): boolean {
   return INTERACTIVE_TOOL_NAMES.has(extractToolName(signature));
 }
 
-function safeNumber(value: unknown): number {
-  return typeof value === "number" && Number.isFinite(value) ? value : 0;
-}
-
 function toErrorObject(value: unknown): Record<string, unknown> | undefined {
   return value && typeof value === "object" ? (value as Record<string, unknown>) : undefined;
 }
@@ -143,34 +148,6 @@ async function sleepWithAbort(ms: number, signal: AbortSignal): Promise<void> {
   });
 }
 
-function normalizeUsage(usage: unknown): {
-  cost: number;
-  tokens: {
-    input: number;
-    output: number;
-    reasoning: number;
-    cache: {
-      read: number;
-      write: number;
-    };
-  };
-} {
-  const data = usage && typeof usage === "object" ? (usage as Record<string, unknown>) : {};
-
-  return {
-    cost: safeNumber(data.cost ?? data.totalCost),
-    tokens: {
-      input: safeNumber(data.inputTokens ?? data.promptTokens ?? data.input),
-      output: safeNumber(data.outputTokens ?? data.completionTokens ?? data.output),
-      reasoning: safeNumber(data.reasoningTokens ?? data.reasoning),
-      cache: {
-        read: safeNumber(data.cacheReadInputTokens ?? data.cachedInputTokens ?? data.cacheRead),
-        write: safeNumber(data.cacheWriteInputTokens ?? data.cacheWrite),
-      },
-    },
-  };
-}
-
 function maybeAddPath(paths: Set<string>, value: unknown) {
   if (typeof value !== "string") return;
   const trimmed = value.trim();
@@ -250,6 +227,8 @@ export class AgentProcessor {
     const inputMessage = this.buildInputMessage(input);
 
     if (resolvedMemoryContext) {
+      await this.maybeCompactSession(resolvedMemoryContext);
+
       try {
         // First, get basic memory context (working memory + recent messages)
         const memoryInput = await memoryProcessor.input({
@@ -262,7 +241,10 @@ export class AgentProcessor {
         const tokenCounter = new SimpleTokenCounter();
         const observerModel = this.getModel();
         const agentMode = getAgentMode(this.config.type);
-        const modeConfig = getMemoryConfig(agentMode);
+        const modeConfig = applyMemorySettings(
+          getMemoryConfig(agentMode),
+          await loadMemorySettings()
+        );
         const observerAgent = createObserverAgent(observerModel, agentMode, 30000);
 
         const requestedScope = this.getString(input.context?.memoryScope);
@@ -272,8 +254,8 @@ export class AgentProcessor {
         // Get messages from storage for observation
         const messagesForObservation = await messageStorage.listMessages(
           observationScope === "resource"
-            ? { resourceId: resolvedMemoryContext.resourceId, limit: 50 }
-            : { threadId: resolvedMemoryContext.threadId, limit: 50 }
+            ? { resourceId: resolvedMemoryContext.resourceId, limit: 50, uncompacted: true }
+            : { threadId: resolvedMemoryContext.threadId, limit: 50, uncompacted: true }
         );
 
         const observationMessages = messagesForObservation.map(msg => ({
@@ -300,18 +282,23 @@ export class AgentProcessor {
 
         const messages = memoryProcessor.formatForAgentInput(memoryInput, this.config.systemPrompt);
 
-        // Add observations as system message if available
-        if (observationResult.record.active_observations) {
-          const formattedObservations = formatObservationsForInjection(
-            observationResult.record.active_observations
-          );
-          if (formattedObservations) {
-            const insertAt = messages.findIndex(message => message.role !== "system");
-            messages.splice(insertAt === -1 ? messages.length : insertAt, 0, {
-              role: "system",
-              content: formattedObservations,
-            });
-          }
+        // Add pinned facts, linked workspaces' memory and observations as system messages
+        const pins = await memoryPinStorage.listPins(
+          resolvedMemoryContext.resourceId,
+          resolvedMemoryContext.threadId
+        );
+        const linkedMemory = await loadLinkedMemory(resolvedMemoryContext.resourceId);
+        const memoryBlocks = [
+          formatPinsForInjection(pins),
+          formatLinkedMemoryForInjection(linkedMemory),
+          formatObservationsForInjection(observationResult.record.active_observations ?? ""),
+        ].filter(Boolean);
+        for (const content of memoryBlocks) {
+          const insertAt = messages.findIndex(message => message.role !== "system");
+          messages.splice(insertAt === -1 ? messages.length : insertAt, 0, {
+            role: "system",
+            content,
+          });
         }
 
         this.messages = await injectSpecContextForModelMessages(
@@ -496,7 +483,7 @@ export class AgentProcessor {
     // Access context to ensure we're in an Instance.provide() context
     void Instance.context;
 
-    const iterationMessages = this.buildIterationMessages();
+    const iterationMessages = this.buildIterationMessages(await this.loadInstructionsMessage());
     const hookModel = resolveHookModel({
       configuredModelID: this.config.model,
       agentType: this.config.type,
@@ -547,8 +534,47 @@ export class AgentProcessor {
     return this.iterationCount >= this.config.maxIterations - 1;
   }
 
-  private buildIterationMessages(): ModelMessage[] {
-    const base = this.injectQueuedUserReminders(this.messages);
+  /**
+   * System message with the project instruction files active for the session
+   *
+   * Rebuilt every iteration so nested instructions apply as soon as the
+   * agent touches files under their directory.
+   */
+  private async loadInstructionsMessage(): Promise<ModelMessage | undefined> {
+    const { directory, sessionID } = Instance.context;
+    try {
+      const content = formatInstructions(await getActiveInstructions(directory, sessionID));
+      return content ? { role: "system", content } : undefined;
+    } catch (error) {
+      logger.warn("Failed to load instruction files", {
+        module: "agent:processor",
+        agent: this.config.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  private async activateNestedInstructions(paths: Set<string>): Promise<void> {
+    const { directory, sessionID } = Instance.context;
+    try {
+      await activateInstructions(directory, sessionID, paths);
+    } catch (error) {
+      logger.warn("Failed to activate nested instruction files", {
+        module: "agent:processor",
+        agent: this.config.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private buildIterationMessages(instructions?: ModelMessage): ModelMessage[] {
+    let base = this.injectQueuedUserReminders(this.messages);
+    if (instructions) {
+      // After the agent's own system prompt, before memory and conversation
+      const insertAt = base[0]?.role === "system" ? 1 : 0;
+      base = [...base.slice(0, insertAt), instructions, ...base.slice(insertAt)];
+    }
     if (!this.isLastStep()) {
       return base;
     }
@@ -953,6 +979,10 @@ export class AgentProcessor {
       finishFallbackStep(finishReason ?? "stop");
     }
 
+    if (touchedFiles.size > 0) {
+      await this.activateNestedInstructions(touchedFiles);
+    }
+
     // Persist response messages (assistant + tool results) so the next iteration
     // has full tool-call context. Without this, the model won't "see" tool results.
     const response = await stream.response;
@@ -1094,6 +1124,34 @@ export class AgentProcessor {
     };
   }
 
+  /**
+   * Compact the session history when it nears the selected model's context window
+   */
+  private async maybeCompactSession(memoryContext: MemoryContext): Promise<void> {
+    const contextWindow = Instance.inContext
+      ? Instance.context.providerRuntime?.contextWindow
+      : undefined;
+    if (!contextWindow) return;
+
+    try {
+      const tokens = await countSessionTokens(memoryContext.threadId);
+      if (!shouldCompact(tokens, contextWindow)) return;
+
+      await compactSession({
+        threadId: memoryContext.threadId,
+        resourceId: memoryContext.resourceId,
+        model: this.getModel(),
+        auto: true,
+      });
+    } catch (error) {
+      logger.warn("Failed to compact session history", {
+        module: "agent:processor",
+        agent: this.config.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   private getString(value: unknown): string | undefined {
     if (typeof value !== "string") return undefined;
     const trimmed = value.trim();
@@ -1113,16 +1171,26 @@ export class AgentProcessor {
     const assistantContent =
       typeof result.finalContent === "string" ? this.getString(result.finalContent) : undefined;
 
-    const messagesToPersist: Array<{ role: "user" | "assistant" | "system"; content: string }> = [];
-    if (userContent) {
-      messagesToPersist.push({ role: "user", content: userContent });
-    }
-    if (assistantContent) {
-      messagesToPersist.push({ role: "assistant", content: assistantContent });
-    }
-    if (messagesToPersist.length === 0) return;
-
     try {
+      const messagesToPersist: Array<{
+        id?: string;
+        role: "user" | "assistant" | "system";
+        content: string;
+      }> = [];
+      const userId = input.messageIds?.user;
+      // A retried turn reuses its user message, which is already stored
+      if (userContent && !(userId && (await messageStorage.getMessage(userId)))) {
+        messagesToPersist.push({ id: userId, role: "user", content: userContent });
+      }
+      if (assistantContent) {
+        messagesToPersist.push({
+          id: input.messageIds?.assistant,
+          role: "assistant",
+          content: assistantContent,
+        });
+      }
+      if (messagesToPersist.length === 0) return;
+
       await memoryProcessor.output({
         messages: messagesToPersist,
         threadId: memoryContext.threadId,
@@ -4,6 +4,7 @@
  * Handles graceful shutdown with checkpoint saving for all active sessions.
  */
 
+import { BackgroundProcesses } from "../tools/shell/process-manager";
 import type { SessionManager } from "./manager";
 
 /**
@@ -47,7 +48,8 @@ export class ShutdownHandler {
   /**
    * Handle graceful shutdown
    *
-   * Saves checkpoints for all active sessions before exiting.
+   * Saves checkpoints for all active sessions and stops their background
+   * processes before exiting.
    *
    * @param signal - The signal that triggered shutdown
    */
@@ -61,6 +63,9 @@ export class ShutdownHandler {
     console.log(`\nReceived ${signal}. Starting graceful shutdown...`);
 
     try {
+      // Stop dev servers and watchers the agent left running
+      await BackgroundProcesses.shutdown();
+
       // Get all active sessions
       const activeSessions = this.sessionManager.getActiveSessions();
       console.log(`Saving checkpoints for ${activeSessions.length} active sessions...`);
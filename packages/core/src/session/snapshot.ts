@@ -0,0 +1,304 @@
+/**
+ * Session file snapshots
+ *
+ * Records a before-image of every file the agent modifies during an assistant
+ * turn, so a session can be rolled back to an earlier message (undo) and
+ * rolled forward again (redo).
+ *
+ * Layout under `<state>/snapshots/<sessionID>/`:
+ * - `turns/<messageID>.json` - before-images captured during one assistant turn
+ * - `revert.json` - the active revert, holding the after-images needed for redo
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { resolveAppPaths } from "@sakti-code/shared/paths";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Message } from "../chat/message-v2";
+import { getContext, hasContext } from "../instance/context";
+
+const logger = createLogger("sakti-code:session:snapshot");
+
+/** Content of a file at one point in time; `content` is base64 when the file existed */
+export interface FileImage {
+  path: string;
+  existed: boolean;
+  content?: string;
+}
+
+export interface TurnSnapshot {
+  messageID: string;
+  createdAt: number;
+  files: FileImage[];
+}
+
+export interface SnapshotRevert {
+  /** Messages whose file changes are currently rolled back */
+  messageIDs: string[];
+  /** Files touched by the revert */
+  files: string[];
+  /** First persisted message of the reverted history; removed with everything after it on commit */
+  cutoffMessageID?: string;
+  /** Messages hidden by the revert, kept here so redo can show them again after a restart */
+  messages: Message[];
+  createdAt: number;
+}
+
+interface RevertState extends SnapshotRevert {
+  /** Contents the files had before the revert, restored by redo */
+  redo: FileImage[];
+}
+
+const sessionLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Serialize snapshot updates per session; tools of one turn may run in parallel
+ */
+function withSessionLock<T>(sessionID: string, fn: () => Promise<T>): Promise<T> {
+  const previous = sessionLocks.get(sessionID) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(fn);
+  sessionLocks.set(sessionID, next);
+  void next
+    .catch(() => undefined)
+    .finally(() => {
+      if (sessionLocks.get(sessionID) === next) sessionLocks.delete(sessionID);
+    });
+  return next;
+}
+
+function sessionDir(sessionID: string): string {
+  return path.join(resolveAppPaths().state, "snapshots", sessionID);
+}
+
+function turnPath(sessionID: string, messageID: string): string {
+  return path.join(sessionDir(sessionID), "turns", `${messageID}.json`);
+}
+
+function revertPath(sessionID: string): string {
+  return path.join(sessionDir(sessionID), "revert.json");
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(value), "utf-8");
+}
+
+async function readImage(filePath: string): Promise<FileImage> {
+  try {
+    const content = await fs.readFile(filePath);
+    return { path: filePath, existed: true, content: content.toString("base64") };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { path: filePath, existed: false };
+    }
+    throw error;
+  }
+}
+
+async function applyImage(image: FileImage): Promise<void> {
+  if (!image.existed) {
+    await fs.rm(image.path, { force: true });
+    return;
+  }
+  await fs.mkdir(path.dirname(image.path), { recursive: true });
+  await fs.writeFile(image.path, Buffer.from(image.content ?? "", "base64"));
+}
+
+async function listTurns(sessionID: string): Promise<TurnSnapshot[]> {
+  const dir = path.join(sessionDir(sessionID), "turns");
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const turns: TurnSnapshot[] = [];
+  for (const entry of entries) {
+    if (!entry.endsWith(".json")) continue;
+    const turn = await readJson<TurnSnapshot>(path.join(dir, entry));
+    if (turn) turns.push(turn);
+  }
+  return turns.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+function toPublic(state: RevertState): SnapshotRevert {
+  return {
+    messageIDs: state.messageIDs,
+    files: state.files,
+    cutoffMessageID: state.cutoffMessageID,
+    messages: state.messages ?? [],
+    createdAt: state.createdAt,
+  };
+}
+
+async function redoUnlocked(sessionID: string): Promise<SnapshotRevert | null> {
+  const state = await readJson<RevertState>(revertPath(sessionID));
+  if (!state) return null;
+
+  for (const image of state.redo) {
+    await applyImage(image);
+  }
+  await fs.rm(revertPath(sessionID), { force: true });
+  return toPublic(state);
+}
+
+export const SessionSnapshot = {
+  /**
+   * Capture the before-image of a file about to be modified in the current turn
+   *
+   * Only the first capture per file and turn is kept, so the snapshot holds the
+   * content from before the turn started. No-op outside an instance context;
+   * failures are logged rather than thrown.
+   */
+  async track(filePath: string): Promise<void> {
+    if (!hasContext()) return;
+    const { sessionID, messageID } = getContext();
+    const absolutePath = path.resolve(filePath);
+
+    await withSessionLock(sessionID, async () => {
+      const target = turnPath(sessionID, messageID);
+      const turn = (await readJson<TurnSnapshot>(target)) ?? {
+        messageID,
+        createdAt: Date.now(),
+        files: [],
+      };
+      if (turn.files.some(file => file.path === absolutePath)) return;
+
+      turn.files.push(await readImage(absolutePath));
+      await writeJson(target, turn);
+    }).catch(error => {
+      // A missing snapshot only limits undo; it must not block the edit itself
+      logger.warn("failed to snapshot file", {
+        sessionID,
+        filePath: absolutePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  },
+
+  /**
+   * Get the files captured for one assistant turn
+   */
+  async getTurn(sessionID: string, messageID: string): Promise<TurnSnapshot | null> {
+    return readJson<TurnSnapshot>(turnPath(sessionID, messageID));
+  },
+
+  /**
+   * Roll files back to their state before the earliest of the given messages
+   *
+   * An active revert is redone first, so reverting again (further back or
+   * forward) always starts from the latest state of the files. With `since`,
+   * turns captured at or after that time are rolled back too, for when the
+   * reverted messages are only known from persisted storage.
+   */
+  async revert(input: {
+    sessionID: string;
+    messageIDs: string[];
+    cutoffMessageID?: string;
+    messages?: Message[];
+    since?: number;
+  }): Promise<SnapshotRevert> {
+    const { sessionID } = input;
+
+    return withSessionLock(sessionID, async () => {
+      await redoUnlocked(sessionID);
+
+      const selected = new Set(input.messageIDs);
+      const turns = (await listTurns(sessionID)).filter(
+        turn =>
+          selected.has(turn.messageID) ||
+          (input.since !== undefined && turn.createdAt >= input.since)
+      );
+
+      // Walk newest to oldest so each file ends at its earliest before-image
+      const restore = new Map<string, FileImage>();
+      for (const turn of [...turns].reverse()) {
+        for (const image of turn.files) {
+          restore.set(image.path, image);
+        }
+      }
+
+      const redo: FileImage[] = [];
+      for (const filePath of restore.keys()) {
+        redo.push(await readImage(filePath));
+      }
+
+      const state: RevertState = {
+        messageIDs: input.messageIDs,
+        files: [...restore.keys()],
+        cutoffMessageID: input.cutoffMessageID,
+        messages: input.messages ?? [],
+        createdAt: Date.now(),
+        redo,
+      };
+      await writeJson(revertPath(sessionID), state);
+
+      for (const image of restore.values()) {
+        await applyImage(image);
+      }
+
+      logger.info("session reverted", {
+        sessionID,
+        messages: input.messageIDs.length,
+        files: state.files.length,
+      });
+      return toPublic(state);
+    });
+  },
+
+  /**
+   * Reapply the file changes undone by the active revert
+   */
+  async redo(sessionID: string): Promise<SnapshotRevert | null> {
+    return withSessionLock(sessionID, async () => {
+      const result = await redoUnlocked(sessionID);
+      if (result) {
+        logger.info("session revert undone", { sessionID, files: result.files.length });
+      }
+      return result;
+    });
+  },
+
+  async getRevert(sessionID: string): Promise<SnapshotRevert | null> {
+    const state = await readJson<RevertState>(revertPath(sessionID));
+    return state ? toPublic(state) : null;
+  },
+
+  /**
+   * Make the active revert permanent, dropping the snapshots of reverted turns
+   *
+   * Called before new work starts on a reverted session; returns the revert
+   * that was committed, or null when none was active.
+   */
+  async commitRevert(sessionID: string): Promise<SnapshotRevert | null> {
+    return withSessionLock(sessionID, async () => {
+      const state = await readJson<RevertState>(revertPath(sessionID));
+      if (!state) return null;
+
+      for (const messageID of state.messageIDs) {
+        await fs.rm(turnPath(sessionID, messageID), { force: true });
+      }
+      await fs.rm(revertPath(sessionID), { force: true });
+      return toPublic(state);
+    });
+  },
+
+  /**
+   * Delete all snapshots of a session
+   */
+  async remove(sessionID: string): Promise<void> {
+    await withSessionLock(sessionID, () =>
+      fs.rm(sessionDir(sessionID), { recursive: true, force: true })
+    );
+  },
+};
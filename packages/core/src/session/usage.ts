@@ -0,0 +1,56 @@
+/**
+ * Token usage - Normalize the usage reported by a model step
+ *
+ * Providers and AI SDK versions name their counts differently; every field
+ * falls back to 0 when it is missing.
+ */
+
+export interface NormalizedUsage {
+  cost: number;
+  tokens: {
+    input: number;
+    output: number;
+    reasoning: number;
+    cache: {
+      read: number;
+      write: number;
+    };
+  };
+}
+
+function safeNumber(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+function readRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+export function normalizeUsage(usage: unknown): NormalizedUsage {
+  const data = readRecord(usage);
+  // ai v6 reports cache and reasoning counts in detail objects
+  const inputDetails = readRecord(data.inputTokenDetails);
+  const outputDetails = readRecord(data.outputTokenDetails);
+
+  return {
+    cost: safeNumber(data.cost ?? data.totalCost),
+    tokens: {
+      input: safeNumber(data.inputTokens ?? data.promptTokens ?? data.input),
+      output: safeNumber(data.outputTokens ?? data.completionTokens ?? data.output),
+      reasoning: safeNumber(
+        outputDetails.reasoningTokens ?? data.reasoningTokens ?? data.reasoning
+      ),
+      cache: {
+        read: safeNumber(
+          inputDetails.cacheReadTokens ??
+            data.cacheReadInputTokens ??
+            data.cachedInputTokens ??
+            data.cacheRead
+        ),
+        write: safeNumber(
+          inputDetails.cacheWriteTokens ?? data.cacheWriteInputTokens ?? data.cacheWrite
+        ),
+      },
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { Terminal, terminalOutputToText, type TerminalEvent } from "@/terminal";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("terminal", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "terminal-")));
+  });
+
+  afterEach(async () => {
+    await Terminal.shutdown();
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  describe("terminalOutputToText", () => {
+    it("strips escape sequences and applies carriage returns", () => {
+      const raw = "\x1b[32mok\x1b[0m\r\n10%\r50%\r100%\n\x1b]0;title\x07done";
+
+      expect(terminalOutputToText(raw)).toBe("ok\n100%\ndone");
+    });
+  });
+
+  describe("Terminal", () => {
+    it("runs commands in the workspace and keeps their output", async () => {
+      const info = await Terminal.create({ directory: workspace, cols: 100, rows: 30 });
+      const events: TerminalEvent[] = [];
+      Terminal.subscribe(info.id, event => events.push(event));
+
+      Terminal.write(info.id, "pwd && echo terminal-ready\r");
+
+      await vi.waitFor(() => expect(Terminal.readOutput(info.id)).toContain("terminal-ready"), {
+        timeout: 5000,
+      });
+      expect(Terminal.readOutput(info.id)).toContain(workspace);
+      expect(events.some(event => event.type === "output")).toBe(true);
+      expect(Terminal.list(workspace)).toMatchObject([
+        { id: info.id, title: "Terminal 1", status: "running", cols: 100, rows: 30 },
+      ]);
+    });
+
+    it("reports exit and keeps the scrollback readable", async () => {
+      const info = await Terminal.create({ directory: workspace, title: "build" });
+
+      Terminal.write(info.id, "echo bye; exit 3\r");
+
+      await vi.waitFor(() => expect(Terminal.get(info.id)?.status).toBe("exited"), {
+        timeout: 5000,
+      });
+      expect(Terminal.get(info.id)?.exitCode).toBe(3);
+      expect(Terminal.readOutput(info.id, { lines: 5 })).toContain("bye");
+      expect(() => Terminal.write(info.id, "ls\r")).toThrow(`Terminal has exited: ${info.id}`);
+    });
+
+    it("forgets closed terminals", async () => {
+      const info = await Terminal.create({ directory: workspace });
+
+      await Terminal.close(info.id);
+
+      expect(Terminal.get(info.id)).toBeUndefined();
+      expect(() => Terminal.readOutput(info.id)).toThrow(`Terminal not found: ${info.id}`);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+export * from "./types";
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { shutdown } from "@sakti-code/shared/shutdown";
+import path from "node:path";
+import { v7 as uuidv7 } from "uuid";
+import { getAcceptableShell } from "../tools/shell/shell-selector";
+import { spawnPty, type PtyProcess } from "./pty";
+import type { CreateTerminalOptions, TerminalEvent, TerminalInfo } from "./types";
+
+const logger = createLogger("sakti-code:terminal");
+
+/** Characters of output kept per terminal for reattaching clients and the agent */
+export const TERMINAL_SCROLLBACK_LIMIT = 256 * 1024;
+
+const DEFAULT_COLS = 80;
+const DEFAULT_ROWS = 24;
+
+// CSI/OSC sequences and other escapes, stripped when output is read as text
+const ANSI_PATTERN = /\x1b(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[@-Z\\-_])/g;
+
+type TerminalListener = (event: TerminalEvent) => void;
+
+interface ActiveTerminal {
+  info: TerminalInfo;
+  process: PtyProcess;
+  scrollback: string;
+  listeners: Set<TerminalListener>;
+}
+
+const terminals = new Map<string, ActiveTerminal>();
+let shutdownRegistered = false;
+
+function getActive(id: string): ActiveTerminal {
+  const terminal = terminals.get(id);
+  if (!terminal) {
+    throw new Error(`Terminal not found: ${id}`);
+  }
+  return terminal;
+}
+
+function emit(terminal: ActiveTerminal, event: TerminalEvent): void {
+  for (const listener of terminal.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.warn("terminal listener failed", {
+        terminalId: terminal.info.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+function appendScrollback(terminal: ActiveTerminal, data: string): void {
+  terminal.scrollback += data;
+  if (terminal.scrollback.length > TERMINAL_SCROLLBACK_LIMIT) {
+    terminal.scrollback = terminal.scrollback.slice(-TERMINAL_SCROLLBACK_LIMIT);
+  }
+}
+
+/**
+ * Convert raw terminal output to plain text lines
+ *
+ * Drops escape sequences and applies carriage returns the way a terminal
+ * would, so progress bars collapse to their final state.
+ */
+export function terminalOutputToText(output: string): string {
+  return output
+    .replace(ANSI_PATTERN, "")
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map(line => line.split("\r").pop() ?? "")
+    .join("\n");
+}
+
+/**
+ * Integrated terminal manager
+ *
+ * Owns the shell sessions shown in the workspace terminal panel. Each
+ * terminal keeps a bounded scrollback so clients can reattach after a reload
+ * and the agent can read what the user ran.
+ */
+export const Terminal = {
+  async create(options: CreateTerminalOptions): Promise<TerminalInfo> {
+    const directory = path.resolve(options.directory);
+    const shell = getAcceptableShell();
+    const cols = options.cols ?? DEFAULT_COLS;
+    const rows = options.rows ?? DEFAULT_ROWS;
+
+    const proc = await spawnPty({ shell, cwd: directory, cols, rows });
+    const id = uuidv7();
+    const count = Array.from(terminals.values()).filter(t => t.info.directory === directory).length;
+
+    const terminal: ActiveTerminal = {
+      info: {
+        id,
+        directory,
+        title: options.title?.trim() || `Terminal ${count + 1}`,
+        shell,
+        backend: proc.backend,
+        pid: proc.pid,
+        cols,
+        rows,
+        status: "running",
+        createdAt: Date.now(),
+      },
+      process: proc,
+      scrollback: "",
+      listeners: new Set(),
+    };
+    terminals.set(id, terminal);
+
+    proc.onData(data => {
+      appendScrollback(terminal, data);
+      emit(terminal, { type: "output", data });
+    });
+    proc.onExit(exitCode => {
+      if (terminal.info.status === "exited") return;
+      terminal.info.status = "exited";
+      terminal.info.exitCode = exitCode;
+      emit(terminal, { type: "exit", exitCode });
+    });
+
+    if (!shutdownRegistered) {
+      shutdown.register("terminal", () => Terminal.shutdown());
+      shutdownRegistered = true;
+    }
+
+    logger.info("terminal created", { terminalId: id, directory, backend: proc.backend });
+    return { ...terminal.info };
+  },
+
+  get(id: string): TerminalInfo | undefined {
+    const terminal = terminals.get(id);
+    return terminal ? { ...terminal.info } : undefined;
+  },
+
+  /**
+   * List terminals, optionally only those of one workspace directory
+   */
+  list(directory?: string): TerminalInfo[] {
+    const key = directory ? path.resolve(directory) : undefined;
+    return Array.from(terminals.values())
+      .filter(terminal => !key || terminal.info.directory === key)
+      .map(terminal => ({ ...terminal.info }));
+  },
+
+  write(id: string, data: string): void {
+    const terminal = getActive(id);
+    if (terminal.info.status === "exited") {
+      throw new Error(`Terminal has exited: ${id}`);
+    }
+    terminal.process.write(data);
+  },
+
+  resize(id: string, cols: number, rows: number): void {
+    const terminal = getActive(id);
+    terminal.info.cols = cols;
+    terminal.info.rows = rows;
+    if (terminal.info.status === "running") {
+      terminal.process.resize(cols, rows);
+    }
+  },
+
+  /**
+   * Raw output kept for the terminal, escape sequences included
+   */
+  getScrollback(id: string): string {
+    return getActive(id).scrollback;
+  },
+
+  /**
+   * Recent output as plain text, for the agent
+   */
+  readOutput(id: string, options: { lines?: number } = {}): string {
+    const text = terminalOutputToText(getActive(id).scrollback).replace(/\n+$/, "");
+    if (!options.lines) return text;
+    return text.split("\n").slice(-options.lines).join("\n");
+  },
+
+  /**
+   * Receive output and exit events; returns an unsubscribe function
+   */
+  subscribe(id: string, listener: TerminalListener): () => void {
+    const terminal = getActive(id);
+    terminal.listeners.add(listener);
+    return () => {
+      terminal.listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Kill the shell and forget the terminal
+   */
+  async close(id: string): Promise<void> {
+    const terminal = getActive(id);
+    terminals.delete(id);
+    if (terminal.info.status === "running") {
+      await terminal.process.kill();
+    }
+    terminal.listeners.clear();
+    logger.info("terminal closed", { terminalId: id });
+  },
+
+  async shutdown(): Promise<void> {
+    await Promise.all(Array.from(terminals.keys()).map(id => Terminal.close(id)));
+  },
+};
@@ -0,0 +1,124 @@
+/**
+ * Pseudo-terminal spawning
+ *
+ * Uses node-pty when its native binding is available and falls back to a
+ * shell attached with plain pipes otherwise, so terminals still work (without
+ * resizing or full-screen programs) on platforms without a prebuilt binary.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { spawn } from "node:child_process";
+import path from "node:path";
+import { killTree } from "../tools/shell/kill-tree";
+import type { TerminalBackend } from "./types";
+
+const logger = createLogger("sakti-code:terminal");
+
+export interface PtyProcess {
+  readonly pid: number;
+  readonly backend: TerminalBackend;
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  kill(): Promise<void>;
+  onData(listener: (data: string) => void): void;
+  onExit(listener: (exitCode: number | null) => void): void;
+}
+
+export interface SpawnPtyOptions {
+  shell: string;
+  cwd: string;
+  cols: number;
+  rows: number;
+  env?: Record<string, string>;
+}
+
+type NodePty = typeof import("node-pty");
+
+let nodePty: Promise<NodePty | null> | null = null;
+
+function loadNodePty(): Promise<NodePty | null> {
+  nodePty ??= import("node-pty")
+    .then(module => (module as NodePty & { default?: NodePty }).default ?? module)
+    .catch(error => {
+      logger.warn("node-pty unavailable, terminals will use pipes", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    });
+  return nodePty;
+}
+
+function spawnWithPty(pty: NodePty, options: SpawnPtyOptions): PtyProcess {
+  const proc = pty.spawn(options.shell, [], {
+    name: "xterm-256color",
+    cwd: options.cwd,
+    cols: options.cols,
+    rows: options.rows,
+    env: { ...process.env, ...options.env } as Record<string, string>,
+  });
+
+  return {
+    pid: proc.pid,
+    backend: "pty",
+    write: data => proc.write(data),
+    resize: (cols, rows) => proc.resize(cols, rows),
+    kill: async () => proc.kill(),
+    onData: listener => {
+      proc.onData(listener);
+    },
+    onExit: listener => {
+      proc.onExit(({ exitCode }) => listener(exitCode));
+    },
+  };
+}
+
+function spawnWithPipes(options: SpawnPtyOptions): PtyProcess {
+  const shellName = path.basename(options.shell).replace(/\.exe$/i, "");
+  // Without a tty the shell only prints prompts when forced interactive
+  const args = ["bash", "zsh", "sh"].includes(shellName) ? ["-i"] : [];
+  const proc = spawn(options.shell, args, {
+    cwd: options.cwd,
+    env: { ...process.env, ...options.env, TERM: "dumb" },
+    stdio: ["pipe", "pipe", "pipe"],
+    detached: process.platform !== "win32",
+  });
+  let exited = false;
+  proc.once("exit", () => {
+    exited = true;
+  });
+
+  return {
+    pid: proc.pid ?? -1,
+    backend: "pipe",
+    write: data => {
+      proc.stdin?.write(data.replace(/\r(?!\n)/g, "\n"));
+    },
+    resize: () => {},
+    kill: () => killTree(proc, { exited: () => exited }),
+    onData: listener => {
+      proc.stdout?.on("data", (chunk: Buffer) => listener(chunk.toString()));
+      proc.stderr?.on("data", (chunk: Buffer) => listener(chunk.toString()));
+    },
+    onExit: listener => {
+      proc.once("exit", code => listener(code));
+      proc.once("error", () => listener(null));
+    },
+  };
+}
+
+/**
+ * Start a shell attached to a pseudo-terminal, or to pipes as a fallback
+ */
+export async function spawnPty(options: SpawnPtyOptions): Promise<PtyProcess> {
+  const pty = await loadNodePty();
+  if (pty) {
+    try {
+      return spawnWithPty(pty, options);
+    } catch (error) {
+      logger.warn("failed to spawn pty, falling back to pipes", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return spawnWithPipes(options);
+}
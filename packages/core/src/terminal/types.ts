@@ -0,0 +1,41 @@
+/**
+ * How a terminal's shell is attached
+ *
+ * - pty: a real pseudo-terminal (node-pty); supports resizing and full-screen programs
+ * - pipe: plain stdio pipes, used when the native pty module cannot be loaded
+ */
+export type TerminalBackend = "pty" | "pipe";
+
+export type TerminalStatus = "running" | "exited";
+
+/**
+ * A shell session owned by the server
+ */
+export interface TerminalInfo {
+  id: string;
+  /** Workspace directory the shell was started in */
+  directory: string;
+  title: string;
+  shell: string;
+  backend: TerminalBackend;
+  pid: number;
+  cols: number;
+  rows: number;
+  status: TerminalStatus;
+  exitCode?: number | null;
+  createdAt: number;
+}
+
+export interface CreateTerminalOptions {
+  directory: string;
+  title?: string;
+  cols?: number;
+  rows?: number;
+}
+
+/**
+ * Event delivered to terminal subscribers
+ */
+export type TerminalEvent =
+  | { type: "output"; data: string }
+  | { type: "exit"; exitCode: number | null };
@@ -35,9 +35,16 @@ export const messages = coreDbBindings.messages;
 export const workingMemory = coreDbBindings.workingMemory;
 export const reflections = coreDbBindings.reflections;
 export const observationalMemory = coreDbBindings.observationalMemory;
+export const memoryEmbeddings = coreDbBindings.memoryEmbeddings;
+export const memoryPins = coreDbBindings.memoryPins;
+export const memoryLinks = coreDbBindings.memoryLinks;
+export const memoryResourceSettings = coreDbBindings.memoryResourceSettings;
 export const toolSessions = coreDbBindings.toolSessions;
 
 export type {
+  MemoryEmbedding,
+  MemoryLink,
+  MemoryPin,
   Message,
   NewTask,
   NewWorkingMemory,
@@ -310,6 +310,25 @@ describe("validatePathOperation", () => {
         })
       ).rejects.toThrow("Permission denied");
     });
+
+    it("rejects edits to workspace configuration without asking", async () => {
+      await expect(
+        Instance.provide({
+          directory: "/workspace",
+          sessionID: "session-123",
+          async fn() {
+            await validatePathOperation(
+              "/workspace/.sakti-code/hooks.json",
+              "/workspace",
+              "edit",
+              PermissionManager.getInstance(),
+              "session-123"
+            );
+          },
+        })
+      ).rejects.toThrow("can only be changed from settings");
+      expect(mockRequestApproval).not.toHaveBeenCalled();
+    });
   });
 
   describe("internal paths", () => {
@@ -0,0 +1,126 @@
+/**
+ * Tests for the diagnostics tool
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { Instance } from "@/instance";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockTouchFile = vi.fn();
+const mockGetDiagnostics = vi.fn();
+
+vi.mock("@/lsp", () => ({
+  LSP: {
+    touchFile: mockTouchFile,
+    getDiagnostics: mockGetDiagnostics,
+  },
+}));
+
+vi.mock("@/security/permission-manager", () => ({
+  PermissionManager: {
+    getInstance: vi.fn(() => ({
+      requestApproval: vi.fn().mockResolvedValue(true),
+    })),
+  },
+}));
+
+const { diagnosticsTool } = await import("@/tools/lsp/diagnostics");
+
+function diagnostic(line: number, severity: 1 | 2 | 3 | 4, message: string, source = "ts") {
+  return {
+    range: { start: { line, character: 4 }, end: { line, character: 8 } },
+    severity,
+    message,
+    source,
+  };
+}
+
+describe("diagnostics tool", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "lsp-diagnostics-"));
+    await fs.mkdir(path.join(workspace, "src"));
+    await fs.writeFile(path.join(workspace, "src", "a.ts"), "const a: number = 'x';\n");
+    await fs.writeFile(path.join(workspace, "src", "b.ts"), "let unused = 1;\n");
+    await fs.writeFile(path.join(workspace, "README.md"), "# readme\n");
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  function run(fn: () => Promise<any>): Promise<any> {
+    return Instance.provide({ directory: workspace, sessionID: "test-session", fn });
+  }
+
+  it("lists errors and warnings across the workspace, sorted and deduplicated", async () => {
+    const a = path.join(workspace, "src", "a.ts");
+    mockGetDiagnostics.mockReturnValue({
+      [a]: [
+        diagnostic(3, 2, "'x' is declared but never used", "eslint"),
+        diagnostic(0, 1, "Type 'string' is not assignable to type 'number'."),
+        diagnostic(0, 1, "Type 'string' is not assignable to type 'number'."),
+        diagnostic(5, 4, "Convert to arrow function"),
+      ],
+      "/elsewhere/other.ts": [diagnostic(0, 1, "outside the workspace")],
+    });
+
+    const result = await run(() => (diagnosticsTool as any).execute({}, {}));
+
+    expect(mockTouchFile).not.toHaveBeenCalled();
+    expect(result.output).toBe(
+      [
+        "src/a.ts:1:5 [error] Type 'string' is not assignable to type 'number'. (ts)",
+        "src/a.ts:4:5 [warning] 'x' is declared but never used (eslint)",
+      ].join("\n")
+    );
+    expect(result.metadata).toEqual({ errors: 1, warnings: 1, files: 1, truncated: false });
+    expect(result.title).toBe("workspace: 1 errors, 1 warnings");
+  });
+
+  it("includes hints when requested", async () => {
+    mockGetDiagnostics.mockReturnValue({
+      [path.join(workspace, "src", "a.ts")]: [diagnostic(5, 4, "Convert to arrow function")],
+    });
+
+    const result = await run(() => (diagnosticsTool as any).execute({ severity: "hint" }, {}));
+
+    expect(result.output).toBe("src/a.ts:6:5 [hint] Convert to arrow function (ts)");
+  });
+
+  it("opens a single file before reading its diagnostics", async () => {
+    const b = path.join(workspace, "src", "b.ts");
+    mockGetDiagnostics.mockReturnValue({
+      [b]: [diagnostic(0, 2, "'unused' is declared but never used")],
+      [path.join(workspace, "src", "a.ts")]: [diagnostic(0, 1, "not requested")],
+    });
+
+    const result = await run(() => (diagnosticsTool as any).execute({ path: "src/b.ts" }, {}));
+
+    expect(mockTouchFile).toHaveBeenCalledWith(b, true);
+    expect(result.output).toBe("src/b.ts:1:5 [warning] 'unused' is declared but never used (ts)");
+  });
+
+  it("opens every file matched by a glob", async () => {
+    mockGetDiagnostics.mockReturnValue({});
+
+    const result = await run(() => (diagnosticsTool as any).execute({ path: "src/*.ts" }, {}));
+
+    expect(mockTouchFile.mock.calls.map(call => call[0])).toEqual([
+      path.join(workspace, "src", "a.ts"),
+      path.join(workspace, "src", "b.ts"),
+    ]);
+    expect(result.output).toBe("No problems found in src/*.ts");
+  });
+
+  it("rejects globs that escape the workspace", async () => {
+    await expect(
+      run(() => (diagnosticsTool as any).execute({ path: "../**/*.ts" }, {}))
+    ).rejects.toThrow("Glob must be relative to the workspace root");
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for LSP navigation tools
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { Instance } from "@/instance";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockDefinition = vi.fn();
+const mockReferences = vi.fn();
+const mockHover = vi.fn();
+const mockDocumentSymbols = vi.fn();
+const mockWorkspaceSymbols = vi.fn();
+
+vi.mock("@/lsp", () => ({
+  LSP: {
+    definition: mockDefinition,
+    references: mockReferences,
+    hover: mockHover,
+    documentSymbols: mockDocumentSymbols,
+    workspaceSymbols: mockWorkspaceSymbols,
+  },
+}));
+
+vi.mock("@/security/permission-manager", () => ({
+  PermissionManager: {
+    getInstance: vi.fn(() => ({
+      requestApproval: vi.fn().mockResolvedValue(true),
+    })),
+  },
+}));
+
+const {
+  lspDefinitionTool,
+  lspDocumentSymbolsTool,
+  lspHoverTool,
+  lspReferencesTool,
+  lspWorkspaceSymbolsTool,
+} = await import("@/tools/lsp/navigation");
+
+function range(line: number, character: number) {
+  return { start: { line, character }, end: { line, character: character + 1 } };
+}
+
+describe("LSP navigation tools", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "lsp-nav-"));
+    await fs.mkdir(path.join(workspace, "src"));
+    await fs.writeFile(
+      path.join(workspace, "src", "util.ts"),
+      "// helpers\nexport function add(a: number, b: number) {\n  return a + b;\n}\n"
+    );
+    await fs.writeFile(path.join(workspace, "src", "main.ts"), "import { add } from './util';\n");
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  function run(fn: () => Promise<any>): Promise<any> {
+    return Instance.provide({ directory: workspace, sessionID: "test-session", fn });
+  }
+
+  it("converts 1-based input positions and renders definitions with source lines", async () => {
+    mockDefinition.mockResolvedValue([
+      { filePath: path.join(workspace, "src", "util.ts"), range: range(1, 16) },
+    ]);
+
+    const result = await run(() =>
+      (lspDefinitionTool as any).execute({ filePath: "src/main.ts", line: 1, column: 10 }, {})
+    );
+
+    expect(mockDefinition).toHaveBeenCalledWith(path.join(workspace, "src", "main.ts"), {
+      line: 0,
+      character: 9,
+    });
+    expect(result.output).toBe("src/util.ts:2:17  export function add(a: number, b: number) {");
+    expect(result.metadata).toEqual({ count: 1, truncated: false });
+  });
+
+  it("reports when no language server handles the file", async () => {
+    mockReferences.mockResolvedValue(undefined);
+
+    const result = await run(() =>
+      (lspReferencesTool as any).execute({ filePath: "src/main.ts", line: 1, column: 10 }, {})
+    );
+
+    expect(result.output).toContain("No language server is available");
+  });
+
+  it("passes includeDeclaration through to references", async () => {
+    mockReferences.mockResolvedValue([]);
+
+    const result = await run(() =>
+      (lspReferencesTool as any).execute(
+        { filePath: "src/util.ts", line: 2, column: 17, includeDeclaration: false },
+        {}
+      )
+    );
+
+    expect(mockReferences).toHaveBeenCalledWith(
+      path.join(workspace, "src", "util.ts"),
+      { line: 1, character: 16 },
+      false
+    );
+    expect(result.output).toBe("No references found at src/util.ts:2:17");
+  });
+
+  it("returns hover contents", async () => {
+    mockHover.mockResolvedValue({ contents: "function add(a: number, b: number): number" });
+
+    const result = await run(() =>
+      (lspHoverTool as any).execute({ filePath: "src/util.ts", line: 2, column: 17 }, {})
+    );
+
+    expect(result.output).toBe("function add(a: number, b: number): number");
+    expect(result.metadata.count).toBe(1);
+  });
+
+  it("renders nested document symbols as an outline", async () => {
+    const filePath = path.join(workspace, "src", "util.ts");
+    mockDocumentSymbols.mockResolvedValue([
+      {
+        name: "Calc",
+        kind: "Class",
+        filePath,
+        range: range(0, 6),
+        children: [{ name: "add", kind: "Method", filePath, range: range(1, 2) }],
+      },
+    ]);
+
+    const result = await run(() =>
+      (lspDocumentSymbolsTool as any).execute({ filePath: "src/util.ts" }, {})
+    );
+
+    expect(result.output).toBe("Class Calc  1:7\n  Method add  2:3");
+    expect(result.metadata.count).toBe(2);
+  });
+
+  it("explains how to start a server when none is running for workspace symbols", async () => {
+    mockWorkspaceSymbols.mockResolvedValue({ symbols: [], serverCount: 0 });
+
+    const result = await run(() => (lspWorkspaceSymbolsTool as any).execute({ query: "add" }, {}));
+
+    expect(mockWorkspaceSymbols).toHaveBeenCalledWith("add", workspace, undefined);
+    expect(result.output).toContain("No language server is running");
+  });
+
+  it("lists workspace symbols with relative paths", async () => {
+    mockWorkspaceSymbols.mockResolvedValue({
+      symbols: [
+        {
+          name: "add",
+          kind: "Function",
+          containerName: "util",
+          filePath: path.join(workspace, "src", "util.ts"),
+          range: range(1, 16),
+        },
+      ],
+      serverCount: 1,
+    });
+
+    const result = await run(() =>
+      (lspWorkspaceSymbolsTool as any).execute({ query: "add", filePath: "src/main.ts" }, {})
+    );
+
+    expect(mockWorkspaceSymbols).toHaveBeenCalledWith(
+      "add",
+      workspace,
+      path.join(workspace, "src", "main.ts")
+    );
+    expect(result.output).toBe("Function add (in util)  src/util.ts:2:17");
+  });
+});
@@ -75,6 +75,7 @@ describe("parseCommand", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     clearCache();
+    mockParser = null;
   });
 
   afterEach(() => {
@@ -117,6 +118,37 @@ describe("parseCommand", () => {
     expect(result.always).toContain("ls*");
   });
 
+  it("should record the full text and arguments of each command", async () => {
+    const result = await parseCommand("ls -la", "/workspace");
+
+    expect([...result.commands]).toEqual([["ls -la", ["-la"]]]);
+  });
+
+  it("should unquote string arguments", async () => {
+    const children = [
+      { type: "command_name", text: "git" },
+      { type: "word", text: "commit" },
+      { type: "word", text: "-m" },
+      { type: "string", text: '"skip --no-verify"' },
+    ];
+    mockParser = {
+      rootNode: {
+        type: "command",
+        text: 'git commit -m "skip --no-verify"',
+        childCount: children.length,
+        child: (i: number) => children[i] || null,
+      },
+    };
+
+    const result = await parseCommand('git commit -m "skip --no-verify"', "/workspace");
+
+    expect(result.commands.get('git commit -m "skip --no-verify"')).toEqual([
+      "commit",
+      "-m",
+      "skip --no-verify",
+    ]);
+  });
+
   it("should skip options starting with -", async () => {
     const result = await parseCommand("ls -la -h", "/workspace");
 
@@ -0,0 +1,83 @@
+/**
+ * Tests for process-manager.ts
+ */
+
+import { BackgroundProcesses, EXITED_PROCESS_LIMIT } from "@/tools/shell/process-manager";
+import os from "node:os";
+import { afterEach, describe, expect, it } from "vitest";
+
+async function waitFor(check: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe("BackgroundProcesses", () => {
+  const cwd = os.tmpdir();
+
+  afterEach(async () => {
+    await BackgroundProcesses.shutdown();
+  });
+
+  it("reads output incrementally by offset", async () => {
+    const info = BackgroundProcesses.start({
+      sessionID: "session-a",
+      command: "echo first; sleep 0.2; echo second",
+      cwd,
+    });
+
+    await waitFor(() => BackgroundProcesses.read(info.id).output.includes("first"));
+    const first = BackgroundProcesses.read(info.id);
+    expect(first.output).toBe("first\n");
+
+    await waitFor(() => BackgroundProcesses.get(info.id)?.status === "exited");
+    const second = BackgroundProcesses.read(info.id, { offset: first.nextOffset });
+    expect(second).toMatchObject({ output: "second\n", status: "exited", exitCode: 0 });
+  });
+
+  it("releases the output of an exited process once it has been read", async () => {
+    const info = BackgroundProcesses.start({ sessionID: "session-a", command: "echo done", cwd });
+    await waitFor(() => BackgroundProcesses.get(info.id)?.status === "exited");
+    await waitFor(() => BackgroundProcesses.get(info.id)?.outputLength === 5);
+
+    expect(BackgroundProcesses.read(info.id).output).toBe("done\n");
+    expect(BackgroundProcesses.read(info.id)).toMatchObject({ output: "", dropped: 5 });
+  });
+
+  it("forgets the oldest exited processes beyond the limit", async () => {
+    const started = Array.from({ length: EXITED_PROCESS_LIMIT + 1 }, () =>
+      BackgroundProcesses.start({ sessionID: "session-a", command: "true", cwd })
+    );
+
+    await waitFor(() =>
+      started.every(info => BackgroundProcesses.get(info.id)?.status !== "running")
+    );
+
+    expect(BackgroundProcesses.list()).toHaveLength(EXITED_PROCESS_LIMIT);
+  });
+
+  it("writes to stdin and kills the process", async () => {
+    const info = BackgroundProcesses.start({ sessionID: "session-a", command: "cat", cwd });
+
+    BackgroundProcesses.write(info.id, "hello\n");
+    await waitFor(() => BackgroundProcesses.read(info.id).output === "hello\n");
+
+    await BackgroundProcesses.kill(info.id);
+    expect(BackgroundProcesses.get(info.id)).toBeUndefined();
+  });
+
+  it("keeps processes scoped to their session", async () => {
+    const a = BackgroundProcesses.start({ sessionID: "session-a", command: "sleep 5", cwd });
+    const b = BackgroundProcesses.start({ sessionID: "session-b", command: "sleep 5", cwd });
+
+    expect(BackgroundProcesses.list("session-a").map(p => p.id)).toEqual([a.id]);
+    expect(() => BackgroundProcesses.read(b.id, { sessionID: "session-a" })).toThrow(
+      `Process not found: ${b.id}`
+    );
+
+    await BackgroundProcesses.killSession("session-b");
+    expect(BackgroundProcesses.list().map(p => p.id)).toEqual([a.id]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for process.tool.ts
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any -- Test files use any for simplicity */
+
+import { Instance } from "@/instance";
+import { BackgroundProcesses } from "@/tools/shell/process-manager";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/tools/shell/authorize", () => ({
+  authorizeCommand: vi.fn(async (_command: string, workdir: string | undefined) => {
+    return workdir ?? process.cwd();
+  }),
+}));
+
+describe("background process tools", () => {
+  let tools: any;
+
+  const run = (fn: () => Promise<any>): Promise<any> =>
+    Instance.provide({
+      directory: process.cwd(),
+      sessionID: "test-session",
+      messageID: "test-message",
+      fn,
+    });
+
+  beforeEach(async () => {
+    tools = await import("@/tools/shell/process.tool");
+  });
+
+  afterEach(async () => {
+    await BackgroundProcesses.shutdown();
+  });
+
+  it("starts a process and reads only new output", async () => {
+    const started = await run(() =>
+      tools.processStartTool.execute({ command: "cat", description: "Echo stdin" }, {})
+    );
+    const { processId } = started.metadata;
+
+    await run(() => tools.processInputTool.execute({ processId, input: "one\n" }, {}));
+    await vi.waitFor(() => expect(BackgroundProcesses.read(processId).output).toBe("one\n"));
+    const first = await run(() => tools.processOutputTool.execute({ processId }, {}));
+    expect(first.content).toBe("one\n");
+
+    const second = await run(() =>
+      tools.processOutputTool.execute({ processId, offset: first.metadata.nextOffset }, {})
+    );
+    expect(second.content).toBe("(no new output)");
+    expect(second.metadata.status).toBe("running");
+  });
+
+  it("lists and kills only the session's processes", async () => {
+    const other = BackgroundProcesses.start({
+      sessionID: "other-session",
+      command: "sleep 5",
+      cwd: process.cwd(),
+    });
+
+    const empty = await run(() => tools.processListTool.execute({}, {}));
+    expect(empty.content).toBe("No background processes in this session");
+
+    await expect(
+      run(() => tools.processKillTool.execute({ processId: other.id }, {}))
+    ).rejects.toThrow(`Process not found: ${other.id}`);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for sandbox.ts
+ */
+
+import {
+  buildSandboxedCommand,
+  detectSandboxBackend,
+  loadSandboxPolicy,
+  resetSandboxBackend,
+  SandboxPolicy,
+} from "@/tools/shell/sandbox";
+import { spawnSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("sandbox", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "sandbox-"));
+  });
+
+  afterEach(async () => {
+    resetSandboxBackend();
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  async function writePolicy(content: string) {
+    await fs.mkdir(path.join(workspace, ".sakti-code"), { recursive: true });
+    await fs.writeFile(path.join(workspace, ".sakti-code", "sandbox.json"), content);
+  }
+
+  describe("loadSandboxPolicy", () => {
+    it("is disabled without a config file", async () => {
+      expect((await loadSandboxPolicy(workspace)).enabled).toBe(false);
+    });
+
+    it("fills in defaults", async () => {
+      await writePolicy(JSON.stringify({ enabled: true }));
+
+      expect(await loadSandboxPolicy(workspace)).toEqual({
+        enabled: true,
+        network: false,
+        writablePaths: [],
+        cpuSeconds: 120,
+        memoryMb: 4096,
+      });
+    });
+
+    it("rejects an invalid config instead of running unsandboxed", async () => {
+      await writePolicy(JSON.stringify({ enabled: true, cpuSeconds: -1 }));
+
+      await expect(loadSandboxPolicy(workspace)).rejects.toThrow("Invalid sandbox config");
+    });
+  });
+
+  describe("buildSandboxedCommand", () => {
+    const policy = SandboxPolicy.parse({ enabled: true, cpuSeconds: 10, memoryMb: 512 });
+
+    it("uses bubblewrap with a read-only root and no network", async () => {
+      resetSandboxBackend("bubblewrap");
+      await writePolicy(JSON.stringify({ enabled: true }));
+
+      const { file, args, report } = buildSandboxedCommand({
+        command: "ls",
+        cwd: workspace,
+        shell: "/bin/bash",
+        workspace,
+        policy,
+      });
+
+      expect(file).toBe("bwrap");
+      expect(args.slice(0, 3)).toEqual(["--ro-bind", "/", "/"]);
+      expect(args).toContain("--unshare-net");
+      expect(args.join(" ")).toContain(`--bind ${workspace} ${workspace}`);
+      const configDir = path.join(workspace, ".sakti-code");
+      expect(args.join(" ")).toContain(`--ro-bind ${configDir} ${configDir}`);
+      expect(args.slice(-3)).toEqual(["sandbox", "/bin/bash", "ls"]);
+      expect(report).toMatchObject({
+        backend: "bubblewrap",
+        readOnlyOutsideWorkspace: true,
+        networkDisabled: true,
+        readOnlyPaths: [configDir],
+        cpuSeconds: 10,
+        memoryMb: 512,
+        unavailable: [],
+      });
+    });
+
+    it("reports what could not be enforced without a backend", () => {
+      resetSandboxBackend("none");
+
+      const { file, report } = buildSandboxedCommand({
+        command: "ls",
+        cwd: workspace,
+        shell: "/bin/sh",
+        workspace,
+        policy,
+      });
+
+      expect(file).toBe("/bin/sh");
+      expect(report).toMatchObject({
+        readOnlyOutsideWorkspace: false,
+        networkDisabled: false,
+        unavailable: ["read-only filesystem", "network"],
+      });
+    });
+  });
+
+  const isolated = process.platform === "linux" && detectSandboxBackend() !== "none";
+  resetSandboxBackend();
+
+  it.skipIf(!isolated)("blocks writes outside the workspace and to its policy", async () => {
+    const outside = await fs.mkdtemp(path.join(os.homedir(), ".sandbox-outside-"));
+    await writePolicy(JSON.stringify({ enabled: true }));
+    try {
+      const { file, args } = buildSandboxedCommand({
+        command: `echo in > inside.txt; echo '{}' > .sakti-code/sandbox.json; echo out > ${path.join(outside, "x.txt")}`,
+        cwd: workspace,
+        shell: "/bin/sh",
+        workspace,
+        policy: SandboxPolicy.parse({ enabled: true }),
+      });
+
+      const result = spawnSync(file, args, { encoding: "utf-8", timeout: 10000 });
+
+      expect(result.stderr).toContain("Read-only file system");
+      expect(await fs.readFile(path.join(workspace, "inside.txt"), "utf-8")).toBe("in\n");
+      expect((await loadSandboxPolicy(workspace)).enabled).toBe(true);
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+});
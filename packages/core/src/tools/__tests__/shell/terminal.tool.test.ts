@@ -0,0 +1,85 @@
+/**
+ * Tests for terminal.tool.ts
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any -- Test files use any for simplicity */
+
+import { Instance } from "@/instance";
+import type { TerminalInfo } from "@/terminal";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mockList = vi.fn<(directory?: string) => TerminalInfo[]>();
+const mockReadOutput = vi.fn<(id: string, options?: { lines?: number }) => string>();
+
+vi.mock("@/terminal", () => ({
+  Terminal: {
+    list: (directory?: string) => mockList(directory),
+    readOutput: (id: string, options?: { lines?: number }) => mockReadOutput(id, options),
+  },
+}));
+
+function terminal(overrides: Partial<TerminalInfo> = {}): TerminalInfo {
+  return {
+    id: "term-1",
+    directory: "/workspace",
+    title: "Terminal 1",
+    shell: "/bin/bash",
+    backend: "pty",
+    pid: 100,
+    cols: 80,
+    rows: 24,
+    status: "running",
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe("terminalOutputTool", () => {
+  let terminalOutputTool: any;
+
+  const run = (fn: () => Promise<any>): Promise<any> =>
+    Instance.provide({
+      directory: "/workspace",
+      sessionID: "test-session",
+      messageID: "test-message",
+      fn,
+    });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    ({ terminalOutputTool } = await import("@/tools/shell/terminal.tool"));
+  });
+
+  it("lists the workspace terminals", async () => {
+    mockList.mockReturnValue([
+      terminal(),
+      terminal({ id: "term-2", status: "exited", exitCode: 1 }),
+    ]);
+
+    const result = await run(() => terminalOutputTool.execute({}, {}));
+
+    expect(mockList).toHaveBeenCalledWith("/workspace");
+    expect(result.content).toBe("term-1  Terminal 1  running\nterm-2  Terminal 1  exited (1)");
+  });
+
+  it("reads recent output of a terminal", async () => {
+    mockList.mockReturnValue([terminal()]);
+    mockReadOutput.mockReturnValue("$ npm test\n5 passed");
+
+    const result = await run(() =>
+      terminalOutputTool.execute({ terminalId: "term-1", lines: 20 }, {})
+    );
+
+    expect(mockReadOutput).toHaveBeenCalledWith("term-1", { lines: 20 });
+    expect(result.content).toBe("$ npm test\n5 passed");
+    expect(result.metadata).toMatchObject({ title: "Terminal 1", status: "running" });
+  });
+
+  it("refuses terminals of other workspaces", async () => {
+    mockList.mockReturnValue([]);
+
+    await expect(
+      run(() => terminalOutputTool.execute({ terminalId: "elsewhere" }, {}))
+    ).rejects.toThrow("Terminal not found in workspace workspace: elsewhere");
+  });
+});
@@ -5,7 +5,8 @@
  * 1. Context existence
  * 2. Path resolution
  * 3. External directory detection
- * 4. Permission validation
+ * 4. Workspace configuration protection
+ * 5. Permission validation
  */
 
 import fs from "node:fs/promises";
@@ -35,6 +36,13 @@ export interface SafePathResult {
  */
 export type PathOperation = "read" | "edit";
 
+/**
+ * Workspace directory holding hooks, sandbox, MCP and permission config
+ *
+ * Tools may not edit it: its files run commands or relax the sandbox.
+ */
+export const WORKSPACE_CONFIG_DIR = ".sakti-code";
+
 /**
  * Resolve a path safely with workspace boundary validation
  *
@@ -118,7 +126,8 @@ async function resolveViaParent(target: string): Promise<string | null> {
  * 1. Validates context exists
  * 2. Resolves path safely
  * 3. Checks external directory permission
- * 4. Checks operation-specific permission
+ * 4. Rejects edits to workspace configuration
+ * 5. Checks operation-specific permission
  *
  * @param targetPath - Path to validate
  * @param workspaceRoot - Workspace root directory
@@ -127,7 +136,7 @@ async function resolveViaParent(target: string): Promise<string | null> {
  * @param sessionID - Current session ID
  * @param options - Optional overrides for permission metadata and patterns
  * @throws {Error} If context is missing
- * @throws {Error} If permission is denied
+ * @throws {Error} If permission is denied or the path is workspace configuration
  * @returns Resolved safe path info
  *
  * @example
@@ -177,7 +186,17 @@ export async function validatePathOperation(
     }
   }
 
-  // 4. Check operation-specific permission
+  // 4. Workspace configuration is edited by the user from settings only
+  if (operation === "edit") {
+    const configDir = await resolveSafePath(WORKSPACE_CONFIG_DIR, workspaceRoot);
+    if (containsPath(configDir.absolutePath, absolutePath)) {
+      throw new Error(
+        `Permission denied: ${relativePath} is workspace configuration and can only be changed from settings`
+      );
+    }
+  }
+
+  // 5. Check operation-specific permission
   // For read operations in development, auto-allow to avoid blocking the UI
   if (operation === "read") {
     // Still check rules, but don't block on "ask" - auto-allow instead
@@ -8,6 +8,7 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { z } from "zod";
 import { PermissionManager } from "../../security/permission-manager";
+import { SessionSnapshot } from "../../session/snapshot";
 import { getContextOrThrow } from "../base/context";
 import { validatePathOperation } from "../base/safety";
 
@@ -182,6 +183,10 @@ export const applyPatchTool = tool({
 
     // Apply all operations after successful parsing
     for (const op of operations) {
+      for (const target of [op.oldPath, op.newPath]) {
+        if (target) await SessionSnapshot.track(target.absolutePath);
+      }
+
       if (op.action === "delete" && op.oldPath) {
         await fs.unlink(op.oldPath.absolutePath).catch(() => undefined);
         continue;
@@ -8,6 +8,7 @@ import fs from "node:fs/promises";
 import { z } from "zod";
 import { LSP } from "../../lsp";
 import { PermissionManager } from "../../security/permission-manager";
+import { SessionSnapshot } from "../../session/snapshot";
 import { getContextOrThrow } from "../base/context";
 import { validatePathOperation } from "../base/safety";
 
@@ -96,6 +97,7 @@ export const editTool = tool({
       throw new Error(`String not found in file: "${oldString.slice(0, 50)}..."`);
     }
 
+    await SessionSnapshot.track(absolutePath);
     await fs.writeFile(absolutePath, content, "utf-8");
 
     logger.info("File edited successfully", {
@@ -6,6 +6,7 @@ import { tool, zodSchema } from "ai";
 import fs from "node:fs/promises";
 import { z } from "zod";
 import { PermissionManager } from "../../security/permission-manager";
+import { SessionSnapshot } from "../../session/snapshot";
 import { getContextOrThrow } from "../base/context";
 import { validatePathOperation } from "../base/safety";
 
@@ -89,6 +90,7 @@ export const multieditTool = tool({
       totalReplacements += replacements;
     }
 
+    await SessionSnapshot.track(absolutePath);
     await fs.writeFile(absolutePath, content, "utf-8");
 
     return {
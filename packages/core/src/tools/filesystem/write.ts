@@ -10,6 +10,7 @@ import path from "node:path";
 import { z } from "zod";
 import { LSP } from "../../lsp";
 import { PermissionManager } from "../../security/permission-manager";
+import { SessionSnapshot } from "../../session/snapshot";
 import { getContextOrThrow } from "../base/context";
 import { validatePathOperation } from "../base/safety";
 
@@ -83,6 +84,7 @@ export const writeTool = tool({
     await fs.mkdir(path.dirname(absolutePath), { recursive: true });
 
     // Write file
+    await SessionSnapshot.track(absolutePath);
     await fs.writeFile(absolutePath, content, "utf-8");
 
     logger.info("File written successfully", {
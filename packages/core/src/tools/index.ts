@@ -16,6 +16,13 @@ export { questionTool } from "./question";
 
 // Shell tools
 export { bashTool } from "./shell/bash.tool";
+export {
+  processInputTool,
+  processKillTool,
+  processListTool,
+  processOutputTool,
+  processStartTool,
+} from "./shell/process.tool";
 
 // Search tools
 export { grepTool } from "./search/grep.tool";
@@ -45,6 +52,16 @@ export {
 // Code research tools (search-docs)
 export * from "./search-docs";
 
+// LSP tools
+export { diagnosticsTool } from "./lsp/diagnostics";
+export {
+  lspDefinitionTool,
+  lspDocumentSymbolsTool,
+  lspHoverTool,
+  lspReferencesTool,
+  lspWorkspaceSymbolsTool,
+} from "./lsp/navigation";
+
 // Re-export base utilities
 export * from "./base";
 
@@ -0,0 +1,125 @@
+/**
+ * Diagnostics tool
+ *
+ * Lists compiler and linter problems reported by the language servers for a
+ * file, a glob or the whole workspace.
+ */
+
+import { tool, zodSchema } from "ai";
+import path from "node:path";
+import { z } from "zod";
+import {
+  collectWorkspaceDiagnostics,
+  isGlobTarget,
+  MAX_DIAGNOSTIC_FILES,
+} from "../../lsp/diagnostics";
+import { PermissionManager } from "../../security/permission-manager";
+import { getContextOrThrow } from "../base/context";
+import { validatePathOperation } from "../base/safety";
+import { truncateOutput } from "../base/truncation";
+
+function displayPath(filePath: string, directory: string): string {
+  const relative = path.relative(directory, filePath);
+  return relative && !relative.startsWith("..") ? relative : filePath;
+}
+
+export const diagnosticsTool = tool({
+  description: `List errors and warnings reported by the language servers.
+
+- Pass a file path to check one file, a glob (e.g. "src/**/*.ts") to check several, or omit
+  path to list everything reported so far in the workspace
+- Globs open at most ${MAX_DIAGNOSTIC_FILES} files; narrow the pattern for large trees
+- Use severity to include info and hint diagnostics (default: warnings and errors)
+- Run this after edits to confirm the code still type-checks`,
+
+  inputSchema: zodSchema(
+    z.object({
+      path: z
+        .string()
+        .optional()
+        .describe("File path or glob relative to the workspace root; omit for the whole workspace"),
+      severity: z
+        .enum(["error", "warning", "info", "hint"])
+        .optional()
+        .describe("Least severe level to include (default: warning)"),
+    })
+  ),
+
+  outputSchema: zodSchema(
+    z.object({
+      title: z.string(),
+      output: z.string(),
+      metadata: z.object({
+        errors: z.number(),
+        warnings: z.number(),
+        files: z.number(),
+        truncated: z.boolean(),
+      }),
+    })
+  ),
+
+  execute: async ({ path: target, severity = "warning" }) => {
+    const { directory, sessionID } = getContextOrThrow();
+
+    if (target && isGlobTarget(target)) {
+      if (path.isAbsolute(target) || target.split(/[\\/]/).includes("..")) {
+        throw new Error(`Glob must be relative to the workspace root: ${target}`);
+      }
+    } else if (target) {
+      const { relativePath } = await validatePathOperation(
+        target,
+        directory,
+        "read",
+        PermissionManager.getInstance(),
+        sessionID,
+        { always: ["*"] }
+      );
+      target = relativePath;
+    }
+
+    const result = await collectWorkspaceDiagnostics({
+      directory,
+      target,
+      minSeverity: severity,
+    });
+
+    const lines: string[] = [];
+    for (const file of result.files) {
+      const relative = displayPath(file.filePath, directory);
+      for (const diagnostic of file.diagnostics) {
+        const { line, character } = diagnostic.range.start;
+        const source = diagnostic.source ? ` (${diagnostic.source})` : "";
+        lines.push(
+          `${relative}:${line + 1}:${character + 1} [${diagnostic.severityName}] ${diagnostic.message}${source}`
+        );
+      }
+    }
+
+    if (result.skippedFiles > 0) {
+      lines.push(
+        `... (${result.skippedFiles} more files matched but were not checked; narrow the glob)`
+      );
+    }
+
+    const { summary } = result;
+    const scope = target ?? "workspace";
+    const formatted =
+      lines.length > 0
+        ? lines.join("\n")
+        : target
+          ? `No problems found in ${scope}`
+          : "No problems reported. Open or edit files to start their language servers, or pass a path.";
+    const { content, truncated } = await truncateOutput(formatted);
+
+    return {
+      title: `${scope}: ${summary.error} errors, ${summary.warning} warnings`,
+      output: content,
+      metadata: {
+        errors: summary.error,
+        warnings: summary.warning,
+        files: result.files.length,
+        truncated: truncated || result.skippedFiles > 0,
+      },
+    };
+  },
+});
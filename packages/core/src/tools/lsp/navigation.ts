@@ -0,0 +1,335 @@
+/**
+ * LSP navigation tools
+ *
+ * Precise symbol navigation backed by the language servers already used for
+ * diagnostics: go-to-definition, find-references, hover, document symbols
+ * and workspace symbol search.
+ */
+
+import { tool, zodSchema } from "ai";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { LSP, type LSPLocation, type LSPSymbol } from "../../lsp";
+import { PermissionManager } from "../../security/permission-manager";
+import { getContextOrThrow } from "../base/context";
+import { validatePathOperation } from "../base/safety";
+import { truncateOutput } from "../base/truncation";
+
+/** Maximum locations or symbols rendered before the list is cut short */
+const MAX_RESULTS = 100;
+
+const NO_SERVER_MESSAGE =
+  "No language server is available for this file type. Fall back to grep or ast-query.";
+
+const positionSchema = {
+  filePath: z.string().describe("Path to the file (absolute or relative to workspace root)"),
+  line: z.coerce.number().int().min(1).describe("1-based line number, as shown by the read tool"),
+  column: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .describe("1-based column of a character inside the symbol name"),
+};
+
+const navigationOutputSchema = zodSchema(
+  z.object({
+    title: z.string(),
+    output: z.string(),
+    metadata: z.object({
+      count: z.number(),
+      truncated: z.boolean(),
+    }),
+  })
+);
+
+async function resolveReadablePath(filePath: string) {
+  const { directory, sessionID } = getContextOrThrow();
+  const resolved = await validatePathOperation(
+    filePath,
+    directory,
+    "read",
+    PermissionManager.getInstance(),
+    sessionID,
+    { always: ["*"] }
+  );
+  return { directory, ...resolved };
+}
+
+function displayPath(filePath: string, directory: string): string {
+  const relative = path.relative(directory, filePath);
+  return relative && !relative.startsWith("..") ? relative : filePath;
+}
+
+async function readLines(
+  filePath: string,
+  cache: Map<string, string[] | null>
+): Promise<string[] | null> {
+  if (!cache.has(filePath)) {
+    try {
+      cache.set(filePath, (await fs.readFile(filePath, "utf-8")).split("\n"));
+    } catch {
+      cache.set(filePath, null);
+    }
+  }
+  return cache.get(filePath) ?? null;
+}
+
+/**
+ * Render locations as `path:line:col  <source line>` with 1-based positions
+ */
+async function formatLocations(locations: LSPLocation[], directory: string): Promise<string> {
+  const cache = new Map<string, string[] | null>();
+  const lines: string[] = [];
+
+  for (const location of locations.slice(0, MAX_RESULTS)) {
+    const { line, character } = location.range.start;
+    const source = (await readLines(location.filePath, cache))?.[line]?.trim();
+    const position = `${displayPath(location.filePath, directory)}:${line + 1}:${character + 1}`;
+    lines.push(source ? `${position}  ${source}` : position);
+  }
+
+  if (locations.length > MAX_RESULTS) {
+    lines.push(`... (${locations.length - MAX_RESULTS} more locations)`);
+  }
+
+  return lines.join("\n");
+}
+
+function formatSymbols(
+  symbols: LSPSymbol[],
+  directory: string,
+  options: { includePath: boolean; depth?: number }
+): string[] {
+  const depth = options.depth ?? 0;
+  const lines: string[] = [];
+
+  for (const symbol of symbols) {
+    const position = `${symbol.range.start.line + 1}:${symbol.range.start.character + 1}`;
+    const location = options.includePath
+      ? `${displayPath(symbol.filePath, directory)}:${position}`
+      : position;
+    const container = symbol.containerName ? ` (in ${symbol.containerName})` : "";
+    const detail = symbol.detail ? ` — ${symbol.detail}` : "";
+    lines.push(
+      `${"  ".repeat(depth)}${symbol.kind} ${symbol.name}${container}${detail}  ${location}`
+    );
+
+    if (symbol.children?.length) {
+      lines.push(...formatSymbols(symbol.children, directory, { ...options, depth: depth + 1 }));
+    }
+  }
+
+  return lines;
+}
+
+function countSymbols(symbols: LSPSymbol[]): number {
+  return symbols.reduce((total, symbol) => total + 1 + countSymbols(symbol.children ?? []), 0);
+}
+
+function toPosition(line: number, column: number) {
+  return { line: line - 1, character: column - 1 };
+}
+
+export const lspDefinitionTool = tool({
+  description: `Go to the definition of the symbol at a position using the language server.
+
+- Use this instead of grepping for where a function, class, type or variable is defined
+- line and column are 1-based; point at any character inside the symbol name
+- Returns file:line:column locations with the source line`,
+
+  inputSchema: zodSchema(z.object(positionSchema)),
+  outputSchema: navigationOutputSchema,
+
+  execute: async ({ filePath, line, column }) => {
+    const { directory, absolutePath, relativePath } = await resolveReadablePath(filePath);
+    const locations = await LSP.definition(absolutePath, toPosition(line, column));
+
+    if (!locations) {
+      return {
+        title: relativePath,
+        output: NO_SERVER_MESSAGE,
+        metadata: { count: 0, truncated: false },
+      };
+    }
+
+    const output =
+      locations.length > 0
+        ? await formatLocations(locations, directory)
+        : `No definition found at ${relativePath}:${line}:${column}`;
+
+    return {
+      title: `${relativePath}:${line}:${column}`,
+      output,
+      metadata: { count: locations.length, truncated: locations.length > MAX_RESULTS },
+    };
+  },
+});
+
+export const lspReferencesTool = tool({
+  description: `Find all references to the symbol at a position using the language server.
+
+- Use this to find call sites and usages before renaming or changing a signature
+- line and column are 1-based; point at any character inside the symbol name
+- Set includeDeclaration=false to list usages only`,
+
+  inputSchema: zodSchema(
+    z.object({
+      ...positionSchema,
+      includeDeclaration: z
+        .boolean()
+        .optional()
+        .describe("Include the declaration itself (default: true)"),
+    })
+  ),
+  outputSchema: navigationOutputSchema,
+
+  execute: async ({ filePath, line, column, includeDeclaration = true }) => {
+    const { directory, absolutePath, relativePath } = await resolveReadablePath(filePath);
+    const locations = await LSP.references(
+      absolutePath,
+      toPosition(line, column),
+      includeDeclaration
+    );
+
+    if (!locations) {
+      return {
+        title: relativePath,
+        output: NO_SERVER_MESSAGE,
+        metadata: { count: 0, truncated: false },
+      };
+    }
+
+    const formatted =
+      locations.length > 0
+        ? await formatLocations(locations, directory)
+        : `No references found at ${relativePath}:${line}:${column}`;
+    const { content, truncated } = await truncateOutput(formatted);
+
+    return {
+      title: `${relativePath}:${line}:${column}`,
+      output: content,
+      metadata: {
+        count: locations.length,
+        truncated: truncated || locations.length > MAX_RESULTS,
+      },
+    };
+  },
+});
+
+export const lspHoverTool = tool({
+  description: `Show type information and documentation for the symbol at a position.
+
+- Use this to learn a variable's inferred type or a function's signature without reading its source
+- line and column are 1-based; point at any character inside the symbol name`,
+
+  inputSchema: zodSchema(z.object(positionSchema)),
+  outputSchema: navigationOutputSchema,
+
+  execute: async ({ filePath, line, column }) => {
+    const { absolutePath, relativePath } = await resolveReadablePath(filePath);
+    const hover = await LSP.hover(absolutePath, toPosition(line, column));
+
+    if (hover === undefined) {
+      return {
+        title: relativePath,
+        output: NO_SERVER_MESSAGE,
+        metadata: { count: 0, truncated: false },
+      };
+    }
+
+    const { content, truncated } = await truncateOutput(
+      hover?.contents ?? `No hover information at ${relativePath}:${line}:${column}`
+    );
+
+    return {
+      title: `${relativePath}:${line}:${column}`,
+      output: content,
+      metadata: { count: hover ? 1 : 0, truncated },
+    };
+  },
+});
+
+export const lspDocumentSymbolsTool = tool({
+  description: `List the symbols (classes, functions, methods, variables...) declared in a file.
+
+- Gives a structural outline with 1-based line:column positions
+- Cheaper than reading a large file when you only need to know what it defines`,
+
+  inputSchema: zodSchema(
+    z.object({
+      filePath: positionSchema.filePath,
+    })
+  ),
+  outputSchema: navigationOutputSchema,
+
+  execute: async ({ filePath }) => {
+    const { directory, absolutePath, relativePath } = await resolveReadablePath(filePath);
+    const symbols = await LSP.documentSymbols(absolutePath);
+
+    if (!symbols) {
+      return {
+        title: relativePath,
+        output: NO_SERVER_MESSAGE,
+        metadata: { count: 0, truncated: false },
+      };
+    }
+
+    const formatted =
+      symbols.length > 0
+        ? formatSymbols(symbols, directory, { includePath: false }).join("\n")
+        : `No symbols found in ${relativePath}`;
+    const { content, truncated } = await truncateOutput(formatted);
+
+    return {
+      title: relativePath,
+      output: content,
+      metadata: { count: countSymbols(symbols), truncated },
+    };
+  },
+});
+
+export const lspWorkspaceSymbolsTool = tool({
+  description: `Search symbols by name across the workspace using the running language servers.
+
+- Matches are fuzzy and case-insensitive on the server side
+- Only servers that are already running are queried; pass filePath of any file in the
+  target language to start the right server first`,
+
+  inputSchema: zodSchema(
+    z.object({
+      query: z.string().min(1).describe("Symbol name or fragment to search for"),
+      filePath: z
+        .string()
+        .optional()
+        .describe("Optional file whose language server should be started and queried"),
+    })
+  ),
+  outputSchema: navigationOutputSchema,
+
+  execute: async ({ query, filePath }) => {
+    const { directory } = getContextOrThrow();
+    const hintPath = filePath ? (await resolveReadablePath(filePath)).absolutePath : undefined;
+    const { symbols, serverCount } = await LSP.workspaceSymbols(query, directory, hintPath);
+
+    if (serverCount === 0) {
+      return {
+        title: query,
+        output:
+          "No language server is running for this workspace. Pass filePath of a source file to start one.",
+        metadata: { count: 0, truncated: false },
+      };
+    }
+
+    const lines = formatSymbols(symbols.slice(0, MAX_RESULTS), directory, { includePath: true });
+    if (symbols.length > MAX_RESULTS) {
+      lines.push(`... (${symbols.length - MAX_RESULTS} more symbols)`);
+    }
+
+    return {
+      title: query,
+      output: lines.length > 0 ? lines.join("\n") : `No symbols matching "${query}"`,
+      metadata: { count: symbols.length, truncated: symbols.length > MAX_RESULTS },
+    };
+  },
+});
@@ -24,6 +24,12 @@ const INTAKE_TOOLS: ToolName[] = [
   "grep-search",
   "file-read-docs",
   "sequentialthinking",
+  "lsp-definition",
+  "lsp-references",
+  "lsp-hover",
+  "lsp-document-symbols",
+  "lsp-workspace-symbols",
+  "diagnostics",
 ];
 
 /**
@@ -17,6 +17,14 @@ import { grepTool } from "./search/grep.tool";
 import { webfetchTool } from "./search/webfetch.tool";
 import { sequentialThinking } from "./sequential-thinking";
 import { bashTool } from "./shell/bash.tool";
+import {
+  processInputTool,
+  processKillTool,
+  processListTool,
+  processOutputTool,
+  processStartTool,
+} from "./shell/process.tool";
+import { terminalOutputTool } from "./shell/terminal.tool";
 import { taskTool } from "./task";
 
 // Code research tools (search-docs)
@@ -49,6 +57,21 @@ import {
 // Skill tools
 import { skillTool } from "../skill/tool";
 
+// LSP tools
+import { diagnosticsTool } from "./lsp/diagnostics";
+import {
+  lspDefinitionTool,
+  lspDocumentSymbolsTool,
+  lspHoverTool,
+  lspReferencesTool,
+  lspWorkspaceSymbolsTool,
+} from "./lsp/navigation";
+
+// MCP server tools
+import { getContext, hasContext } from "../instance/context";
+import { MCP } from "../mcp";
+import { Plugins } from "../plugin";
+
 // Tool name type (union of all available tool names)
 export type ToolName =
   | "read"
@@ -61,6 +84,12 @@ export type ToolName =
   | "glob"
   | "question"
   | "bash"
+  | "terminal-output"
+  | "process-start"
+  | "process-output"
+  | "process-input"
+  | "process-list"
+  | "process-kill"
   | "grep"
   | "webfetch"
   | "sequentialthinking"
@@ -84,7 +113,13 @@ export type ToolName =
   | "spec-validate-gap"
   | "spec-validate-design"
   | "spec-validate-impl"
-  | "skill";
+  | "skill"
+  | "lsp-definition"
+  | "lsp-references"
+  | "lsp-hover"
+  | "lsp-document-symbols"
+  | "lsp-workspace-symbols"
+  | "diagnostics";
 
 export const toolRegistry = {
   // Filesystem tools
@@ -100,6 +135,12 @@ export const toolRegistry = {
 
   // Shell tools
   bash: bashTool,
+  "terminal-output": terminalOutputTool,
+  "process-start": processStartTool,
+  "process-output": processOutputTool,
+  "process-input": processInputTool,
+  "process-list": processListTool,
+  "process-kill": processKillTool,
 
   // Search tools
   grep: grepTool,
@@ -141,6 +182,14 @@ export const toolRegistry = {
   // Skill tools
   skill: skillTool,
 
+  // LSP tools
+  "lsp-definition": lspDefinitionTool,
+  "lsp-references": lspReferencesTool,
+  "lsp-hover": lspHoverTool,
+  "lsp-document-symbols": lspDocumentSymbolsTool,
+  "lsp-workspace-symbols": lspWorkspaceSymbolsTool,
+  diagnostics: diagnosticsTool,
+
   getAll(): Record<string, unknown> {
     const { getAll: _getAll, getToolNames: _getToolNames, ...tools } = this;
     return tools as Record<string, unknown>;
@@ -154,8 +203,13 @@ export const toolRegistry = {
 /**
  * Create a tools object with specified tools
  *
+ * When called inside an Instance context, tools exposed by the workspace's
+ * connected MCP servers are merged in under their `mcp__<server>__<tool>` names.
+ * Tools registered by the workspace's plugins are included when `toolNames`
+ * names them and no built-in tool has the same name.
+ *
  * @param toolNames - Array of tool names to include
- * @returns Object containing only the specified tools
+ * @returns Object containing the specified tools plus workspace MCP tools
  */
 export function createTools(toolNames: ToolName[]): Record<string, unknown> {
   const tools: Record<string, unknown> = {};
@@ -164,6 +218,17 @@ export function createTools(toolNames: ToolName[]): Record<string, unknown> {
       tools[name] = toolRegistry[name as keyof typeof toolRegistry];
     }
   }
+
+  if (hasContext()) {
+    const { directory } = getContext();
+    Object.assign(tools, MCP.getTools(directory));
+    for (const [name, pluginTool] of Object.entries(Plugins.getTools(directory))) {
+      if (!(name in toolRegistry) && toolNames.includes(name as ToolName)) {
+        tools[name] = pluginTool;
+      }
+    }
+  }
+
   return tools;
 }
 
@@ -0,0 +1,76 @@
+/**
+ * Shell command authorization
+ *
+ * Shared by the foreground and background shell tools so both ask for the
+ * same permissions before anything is spawned.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { v7 as uuidv7 } from "uuid";
+import { PermissionManager } from "../../security/permission-manager";
+import { validatePathOperation } from "../base/safety";
+import { parseCommand } from "./parser";
+
+const logger = createLogger("sakti-code");
+
+/**
+ * Resolve the working directory and request permission to run a command
+ *
+ * @param command - Shell command line
+ * @param workdir - Optional working directory, relative to the workspace
+ * @param context - Workspace directory and session of the calling tool
+ * @returns Absolute working directory to spawn the command in
+ * @throws {Error} When the command or a path it touches is denied
+ */
+export async function authorizeCommand(
+  command: string,
+  workdir: string | undefined,
+  context: { directory: string; sessionID: string }
+): Promise<string> {
+  const { directory, sessionID } = context;
+  const permissionMgr = PermissionManager.getInstance();
+
+  // Resolve working directory
+  let cwd = workdir || directory;
+  if (workdir) {
+    const { absolutePath } = await validatePathOperation(
+      workdir,
+      directory,
+      "read",
+      permissionMgr,
+      sessionID,
+      { always: ["*"] }
+    );
+    cwd = absolutePath;
+  }
+
+  // Parse command to extract file paths and patterns
+  const { directories, patterns, always, commands } = await parseCommand(command, cwd);
+
+  // Request external directory permission if needed
+  for (const dir of directories) {
+    await validatePathOperation(dir, directory, "read", permissionMgr, sessionID, {
+      always: ["*"],
+    });
+  }
+
+  // Request bash permission; every sub-command of a chain must be allowed
+  const subCommands = commands.size > 0 ? Array.from(commands.keys()) : Array.from(patterns);
+  if (subCommands.length > 0) {
+    const bashApproved = await permissionMgr.requestApproval({
+      id: uuidv7(),
+      permission: "bash",
+      patterns: subCommands,
+      always: Array.from(always),
+      sessionID,
+      arguments: Object.fromEntries(commands),
+    });
+
+    if (!bashApproved) {
+      logger.warn("Bash permission denied", { module: "tool:bash", sessionID, command });
+      throw new Error(`Permission denied: Cannot execute command "${command}"`);
+    }
+  }
+
+  return cwd;
+}
@@ -7,13 +7,11 @@
 import { createLogger } from "@sakti-code/shared/logger";
 import { tool, zodSchema } from "ai";
 import { spawn, type ChildProcess } from "node:child_process";
-import { v7 as uuidv7 } from "uuid";
 import { z } from "zod";
-import { PermissionManager } from "../../security/permission-manager";
 import { getContextOrThrow } from "../base/context";
-import { validatePathOperation } from "../base/safety";
 import { truncateOutput } from "../base/truncation";
-import { parseCommand } from "./parser";
+import { authorizeCommand } from "./authorize";
+import { buildSandboxedCommand, describeSandbox, loadSandboxPolicy } from "./sandbox";
 import { getAcceptableShell } from "./shell-selector";
 
 const logger = createLogger("sakti-code");
@@ -29,7 +27,8 @@ Supports common operations like git, npm, ls, cat, etc.
 - timeout: Default 120000ms (2 minutes)
 - workdir: Run command in specific directory (instead of using cd)
 - Output is truncated to 2000 lines / 50KB
-- Exit code 0 = success, non-zero = failure`,
+- Exit code 0 = success, non-zero = failure
+- Workspaces can enable a sandbox (read-only filesystem outside the workspace, no network, CPU/memory limits); metadata.sandbox reports what applied`,
 
   inputSchema: zodSchema(
     z.object({
@@ -50,6 +49,18 @@ Supports common operations like git, npm, ls, cat, etc.
         truncated: z.boolean().optional(),
         lineCount: z.number().optional(),
         description: z.string(),
+        sandbox: z
+          .object({
+            backend: z.enum(["bubblewrap", "unshare", "none"]),
+            readOnlyOutsideWorkspace: z.boolean(),
+            networkDisabled: z.boolean(),
+            writablePaths: z.array(z.string()),
+            readOnlyPaths: z.array(z.string()),
+            cpuSeconds: z.number().optional(),
+            memoryMb: z.number().optional(),
+            unavailable: z.array(z.string()),
+          })
+          .optional(),
       }),
     })
   ),
@@ -57,21 +68,6 @@ Supports common operations like git, npm, ls, cat, etc.
   execute: async ({ command, timeout = DEFAULT_TIMEOUT, workdir, description }, _options) => {
     // Get context with enhanced error message
     const { directory, sessionID } = getContextOrThrow();
-    const permissionMgr = PermissionManager.getInstance();
-
-    // Resolve working directory
-    let cwd = workdir || directory;
-    if (workdir) {
-      const { absolutePath } = await validatePathOperation(
-        workdir,
-        directory,
-        "read",
-        permissionMgr,
-        sessionID,
-        { always: ["*"] }
-      );
-      cwd = absolutePath;
-    }
 
     // Validate timeout
     if (timeout < 0) {
@@ -82,49 +78,35 @@ Supports common operations like git, npm, ls, cat, etc.
       module: "tool:bash",
       sessionID,
       command,
-      cwd,
+      workdir,
       timeout,
     });
 
-    // Parse command to extract file paths and patterns
-    const { directories, patterns, always } = await parseCommand(command, cwd);
-
-    // Request external directory permission if needed
-    for (const dir of directories) {
-      await validatePathOperation(dir, directory, "read", permissionMgr, sessionID, {
-        always: ["*"],
-      });
-    }
-
-    // Request bash permission
-    if (patterns.size > 0) {
-      const bashApproved = await permissionMgr.requestApproval({
-        id: uuidv7(),
-        permission: "bash",
-        patterns: Array.from(patterns),
-        always: Array.from(always),
-        sessionID,
-      });
-
-      if (!bashApproved) {
-        logger.warn("Bash permission denied", { module: "tool:bash", sessionID, command });
-        throw new Error(`Permission denied: Cannot execute command "${command}"`);
-      }
-    }
+    const cwd = await authorizeCommand(command, workdir, { directory, sessionID });
 
     // Get the shell to use
     const shell = getAcceptableShell();
 
+    // Wrap the command when the workspace asks for a sandbox
+    const policy = await loadSandboxPolicy(directory);
+    const sandboxed = policy.enabled
+      ? buildSandboxedCommand({ command, cwd, shell, workspace: directory, policy })
+      : undefined;
+
     // Spawn the process
-    const proc = spawn(command, {
-      shell,
+    const spawnOptions = {
       cwd,
       env: {
         ...process.env,
       },
-      stdio: ["ignore", "pipe", "pipe"],
+      stdio: ["ignore", "pipe", "pipe"] as ["ignore", "pipe", "pipe"],
       detached: process.platform !== "win32",
-    }) as ChildProcess & { exitCode: number | null };
+    };
+    const proc = (
+      sandboxed
+        ? spawn(sandboxed.file, sandboxed.args, spawnOptions)
+        : spawn(command, { ...spawnOptions, shell })
+    ) as ChildProcess & { exitCode: number | null };
 
     let output = "";
 
@@ -179,6 +161,9 @@ Supports common operations like git, npm, ls, cat, etc.
     if (timedOut) {
       metadataParts.push(`Command terminated after exceeding timeout of ${timeout}ms`);
     }
+    if (sandboxed) {
+      metadataParts.push(describeSandbox(sandboxed.report));
+    }
 
     if (metadataParts.length > 0) {
       output += "\n\n<bash_metadata>\n" + metadataParts.join("\n") + "\n</bash_metadata>";
@@ -203,6 +188,7 @@ Supports common operations like git, npm, ls, cat, etc.
         truncated,
         lineCount,
         description,
+        sandbox: sandboxed?.report,
       },
     };
   },
@@ -18,7 +18,7 @@ async function initParser(): Promise<any> {
 
   try {
     const { default: Parser } = await import("tree-sitter");
-    const bash = await import("tree-sitter-bash");
+    const { default: bash } = await import("tree-sitter-bash");
 
     parserInstance = new Parser();
     parserInstance.setLanguage(bash);
@@ -38,6 +38,10 @@ export function clearCache(): void {
 
 /**
  * Parse a bash command and extract file paths and command patterns
+ *
+ * `commands` maps the full text of every sub-command, including those in
+ * pipelines, chains and substitutions, to its argument words, for
+ * argument-aware permission rules.
  */
 export async function parseCommand(
   command: string,
@@ -46,14 +50,16 @@ export async function parseCommand(
   directories: Set<string>;
   patterns: Set<string>;
   always: Set<string>;
+  commands: Map<string, string[]>;
 }> {
   const directories = new Set<string>();
   const patterns = new Set<string>();
   const always = new Set<string>();
+  const commands = new Map<string, string[]>();
 
   // Handle empty command
   if (!command || command.trim() === "") {
-    return { directories, patterns, always };
+    return { directories, patterns, always, commands };
   }
 
   try {
@@ -61,13 +67,13 @@ export async function parseCommand(
     if (!parser) {
       // Parser not available, return basic patterns
       patterns.add(command);
-      return { directories, patterns, always };
+      return { directories, patterns, always, commands };
     }
 
     const tree = parser.parse(command);
     if (!tree?.rootNode) {
       patterns.add(command);
-      return { directories, patterns, always };
+      return { directories, patterns, always, commands };
     }
 
     // Commands that access file paths
@@ -99,6 +105,7 @@ export async function parseCommand(
 
       if (node.type === "command") {
         const commandParts: string[] = [];
+        const args: string[] = [];
         for (let i = 0; i < node.childCount; i++) {
           const child = node.child(i);
           if (!child) continue;
@@ -110,6 +117,7 @@ export async function parseCommand(
             child.type === "concatenation"
           ) {
             commandParts.push(child.text);
+            if (child.type !== "command_name") args.push(argumentText(child));
           }
         }
 
@@ -132,6 +140,8 @@ export async function parseCommand(
 
           // Add command pattern for bash permission (without file arguments)
           if (cmdName !== "cd") {
+            commands.set(typeof node.text === "string" ? node.text : commandParts.join(" "), args);
+
             // Separate flags from file paths for the pattern
             const patternParts = [cmdName];
             for (const arg of commandParts.slice(1)) {
@@ -159,9 +169,19 @@ export async function parseCommand(
   } catch (_e) {
     // Parse failed, return basic patterns
     patterns.add(command);
+    commands.clear();
   }
 
-  return { directories, patterns, always };
+  return { directories, patterns, always, commands };
+}
+
+/**
+ * Word an argument node stands for; quotes around a string are dropped
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function argumentText(node: any): string {
+  const text: string = node.text;
+  return node.type === "string" || node.type === "raw_string" ? text.slice(1, -1) : text;
 }
 
 /**
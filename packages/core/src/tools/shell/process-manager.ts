@@ -0,0 +1,252 @@
+/**
+ * Background process manager
+ *
+ * Keeps long-running commands started by the agent (dev servers, watchers,
+ * test runners in watch mode) alive between tool calls. Processes belong to
+ * the session that started them and are killed with it.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { shutdown } from "@sakti-code/shared/shutdown";
+import { spawn, type ChildProcess } from "node:child_process";
+import { v7 as uuidv7 } from "uuid";
+import { killTree } from "./kill-tree";
+import { buildSandboxedCommand, type SandboxPolicy, type SandboxReport } from "./sandbox";
+import { getAcceptableShell } from "./shell-selector";
+
+const logger = createLogger("sakti-code:process");
+
+/** Characters of output kept per process; older output is dropped */
+export const PROCESS_OUTPUT_LIMIT = 1024 * 1024;
+/** Exited processes remembered per manager; the oldest are forgotten first */
+export const EXITED_PROCESS_LIMIT = 20;
+
+export type BackgroundProcessStatus = "running" | "exited";
+
+export interface BackgroundProcessInfo {
+  id: string;
+  sessionID: string;
+  command: string;
+  description?: string;
+  cwd: string;
+  pid: number | undefined;
+  status: BackgroundProcessStatus;
+  exitCode: number | null;
+  startedAt: number;
+  exitedAt?: number;
+  /** Total characters of output produced so far */
+  outputLength: number;
+  /** Restrictions applied when the workspace sandbox is enabled */
+  sandbox?: SandboxReport;
+}
+
+export interface StartProcessOptions {
+  sessionID: string;
+  command: string;
+  cwd: string;
+  description?: string;
+  /** Run under this sandbox policy, with `workspace` writable */
+  sandbox?: { policy: SandboxPolicy; workspace: string };
+}
+
+export interface ProcessOutputChunk {
+  output: string;
+  /** Offset to pass on the next read to get only new output */
+  nextOffset: number;
+  /** Characters skipped because they fell out of the retained buffer */
+  dropped: number;
+  status: BackgroundProcessStatus;
+  exitCode: number | null;
+}
+
+interface ManagedProcess {
+  info: BackgroundProcessInfo;
+  child: ChildProcess;
+  buffer: string;
+  /** Absolute offset of the first character still in `buffer` */
+  bufferStart: number;
+}
+
+const processes = new Map<string, ManagedProcess>();
+let shutdownRegistered = false;
+
+function getManaged(id: string, sessionID?: string): ManagedProcess {
+  const managed = processes.get(id);
+  if (!managed || (sessionID && managed.info.sessionID !== sessionID)) {
+    throw new Error(`Process not found: ${id}`);
+  }
+  return managed;
+}
+
+function append(managed: ManagedProcess, text: string): void {
+  managed.buffer += text;
+  managed.info.outputLength += text.length;
+  const overflow = managed.buffer.length - PROCESS_OUTPUT_LIMIT;
+  if (overflow > 0) {
+    managed.buffer = managed.buffer.slice(overflow);
+    managed.bufferStart += overflow;
+  }
+}
+
+/**
+ * Forget the oldest exited processes beyond the limit
+ */
+function pruneExited(): void {
+  const exited = Array.from(processes.values())
+    .filter(managed => managed.info.status === "exited")
+    .sort((a, b) => (a.info.exitedAt ?? 0) - (b.info.exitedAt ?? 0));
+  for (const managed of exited.slice(0, Math.max(exited.length - EXITED_PROCESS_LIMIT, 0))) {
+    processes.delete(managed.info.id);
+  }
+}
+
+export const BackgroundProcesses = {
+  /**
+   * Spawn a command in the background; permission checks are the caller's job
+   */
+  start(options: StartProcessOptions): BackgroundProcessInfo {
+    const shell = getAcceptableShell();
+    const sandboxed = options.sandbox?.policy.enabled
+      ? buildSandboxedCommand({
+          command: options.command,
+          cwd: options.cwd,
+          shell,
+          ...options.sandbox,
+        })
+      : undefined;
+    const spawnOptions = {
+      cwd: options.cwd,
+      env: { ...process.env },
+      stdio: ["pipe", "pipe", "pipe"] as ["pipe", "pipe", "pipe"],
+      detached: process.platform !== "win32",
+    };
+    const child = sandboxed
+      ? spawn(sandboxed.file, sandboxed.args, spawnOptions)
+      : spawn(options.command, { ...spawnOptions, shell });
+
+    const managed: ManagedProcess = {
+      info: {
+        id: uuidv7(),
+        sessionID: options.sessionID,
+        command: options.command,
+        description: options.description,
+        cwd: options.cwd,
+        pid: child.pid,
+        status: "running",
+        exitCode: null,
+        startedAt: Date.now(),
+        outputLength: 0,
+        sandbox: sandboxed?.report,
+      },
+      child,
+      buffer: "",
+      bufferStart: 0,
+    };
+    processes.set(managed.info.id, managed);
+
+    const onData = (chunk: Buffer) => append(managed, chunk.toString());
+    child.stdout?.on("data", onData);
+    child.stderr?.on("data", onData);
+    // Writing to a process that already exited must not crash the server
+    child.stdin?.on("error", () => {});
+
+    const markExited = (exitCode: number | null) => {
+      if (managed.info.status === "exited") return;
+      managed.info.status = "exited";
+      managed.info.exitCode = exitCode;
+      managed.info.exitedAt = Date.now();
+      pruneExited();
+    };
+    child.once("exit", code => markExited(code));
+    child.once("error", error => {
+      append(managed, `${error.message}\n`);
+      markExited(null);
+    });
+
+    if (!shutdownRegistered) {
+      shutdown.register("background-processes", () => BackgroundProcesses.shutdown());
+      shutdownRegistered = true;
+    }
+
+    logger.info("background process started", {
+      processId: managed.info.id,
+      sessionID: options.sessionID,
+      pid: child.pid,
+    });
+    return { ...managed.info };
+  },
+
+  get(id: string, sessionID?: string): BackgroundProcessInfo | undefined {
+    const managed = processes.get(id);
+    if (!managed || (sessionID && managed.info.sessionID !== sessionID)) return undefined;
+    return { ...managed.info };
+  },
+
+  /**
+   * List processes, optionally only those of one session
+   */
+  list(sessionID?: string): BackgroundProcessInfo[] {
+    return Array.from(processes.values())
+      .filter(managed => !sessionID || managed.info.sessionID === sessionID)
+      .map(managed => ({ ...managed.info }));
+  },
+
+  /**
+   * Read output produced since `offset`
+   *
+   * Offsets count characters from the start of the process, so repeated
+   * reads with the returned `nextOffset` see each line once. Once an exited
+   * process's output has been read to the end, its buffer is released.
+   */
+  read(id: string, options: { offset?: number; sessionID?: string } = {}): ProcessOutputChunk {
+    const managed = getManaged(id, options.sessionID);
+    const offset = Math.max(options.offset ?? 0, 0);
+    const start = Math.max(offset, managed.bufferStart);
+    const chunk: ProcessOutputChunk = {
+      output: managed.buffer.slice(start - managed.bufferStart),
+      nextOffset: managed.info.outputLength,
+      dropped: start - offset,
+      status: managed.info.status,
+      exitCode: managed.info.exitCode,
+    };
+    if (managed.info.status === "exited") {
+      managed.buffer = "";
+      managed.bufferStart = managed.info.outputLength;
+    }
+    return chunk;
+  },
+
+  write(id: string, data: string, sessionID?: string): void {
+    const managed = getManaged(id, sessionID);
+    if (managed.info.status === "exited" || !managed.child.stdin?.writable) {
+      throw new Error(`Process has exited: ${id}`);
+    }
+    managed.child.stdin.write(data);
+  },
+
+  /**
+   * Kill the process tree and forget the process
+   */
+  async kill(id: string, sessionID?: string): Promise<BackgroundProcessInfo> {
+    const managed = getManaged(id, sessionID);
+    processes.delete(id);
+    if (managed.info.status === "running") {
+      await killTree(managed.child, { exited: () => managed.info.status === "exited" });
+    }
+    logger.info("background process killed", { processId: id });
+    return { ...managed.info };
+  },
+
+  /**
+   * Kill every process started by a session
+   */
+  async killSession(sessionID: string): Promise<void> {
+    await Promise.all(
+      BackgroundProcesses.list(sessionID).map(info => BackgroundProcesses.kill(info.id))
+    );
+  },
+
+  async shutdown(): Promise<void> {
+    await Promise.all(Array.from(processes.keys()).map(id => BackgroundProcesses.kill(id)));
+  },
+};
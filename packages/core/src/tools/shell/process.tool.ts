@@ -0,0 +1,172 @@
+/**
+ * Background process tools
+ *
+ * Start long-running commands without waiting for them to exit, then poll
+ * their output, feed them input and stop them.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { tool, zodSchema } from "ai";
+import { z } from "zod";
+import { getContextOrThrow } from "../base/context";
+import { truncateOutput } from "../base/truncation";
+import { authorizeCommand } from "./authorize";
+import { BackgroundProcesses, type BackgroundProcessInfo } from "./process-manager";
+import { describeSandbox, loadSandboxPolicy } from "./sandbox";
+
+const logger = createLogger("sakti-code");
+
+function describeProcess(info: BackgroundProcessInfo): string {
+  const status = info.status === "exited" ? `exited (${info.exitCode})` : "running";
+  return `${info.id}  ${status}  ${info.command}`;
+}
+
+export const processStartTool = tool({
+  description: `Start a shell command in the background and return immediately.
+
+Use this for commands that keep running: dev servers, file watchers, test runners in watch mode.
+For commands that finish on their own, use bash instead.
+
+- Returns a processId; pass it to process-output, process-input and process-kill
+- Processes are stopped when the session ends
+- Runs with the same permission checks and workspace sandbox as bash`,
+
+  inputSchema: zodSchema(
+    z.object({
+      command: z.string().describe("The bash command to run in the background"),
+      workdir: z.string().optional().describe("Working directory (defaults to workspace root)"),
+      description: z
+        .string()
+        .describe("Clear, concise description of what this command does (5-10 words)"),
+    })
+  ),
+
+  execute: async ({ command, workdir, description }) => {
+    const { directory, sessionID } = getContextOrThrow();
+    const cwd = await authorizeCommand(command, workdir, { directory, sessionID });
+
+    const policy = await loadSandboxPolicy(directory);
+    const info = BackgroundProcesses.start({
+      sessionID,
+      command,
+      cwd,
+      description,
+      sandbox: { policy, workspace: directory },
+    });
+    logger.info("Background command started", {
+      module: "tool:process",
+      sessionID,
+      command,
+      processId: info.id,
+    });
+
+    return {
+      content:
+        `Started background process ${info.id} (pid ${info.pid ?? "unknown"})` +
+        (info.sandbox ? `\n${describeSandbox(info.sandbox)}` : ""),
+      metadata: { processId: info.id, pid: info.pid, description, sandbox: info.sandbox },
+    };
+  },
+});
+
+export const processOutputTool = tool({
+  description: `Read output from a background process started with process-start.
+
+- offset: character offset to read from; pass the nextOffset of the previous read to get only new output (default: 0, all retained output)
+- Output is truncated to 2000 lines / 50KB`,
+
+  inputSchema: zodSchema(
+    z.object({
+      processId: z.string().describe("Background process ID"),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Offset returned as nextOffset by the previous read"),
+    })
+  ),
+
+  execute: async ({ processId, offset = 0 }) => {
+    const { sessionID } = getContextOrThrow();
+    const chunk = BackgroundProcesses.read(processId, { offset, sessionID });
+
+    let output = chunk.output;
+    if (chunk.dropped > 0) {
+      output = `[${chunk.dropped} earlier characters were discarded]\n` + output;
+    }
+    const { content, truncated } = await truncateOutput(output || "(no new output)");
+
+    return {
+      content,
+      metadata: {
+        nextOffset: chunk.nextOffset,
+        status: chunk.status,
+        exitCode: chunk.exitCode,
+        truncated,
+      },
+    };
+  },
+});
+
+export const processInputTool = tool({
+  description: `Write to the stdin of a background process started with process-start.
+
+Include a trailing newline to submit a line (e.g. "y\\n").`,
+
+  inputSchema: zodSchema(
+    z.object({
+      processId: z.string().describe("Background process ID"),
+      input: z.string().describe("Text to write to the process's stdin"),
+    })
+  ),
+
+  execute: async ({ processId, input }) => {
+    const { sessionID } = getContextOrThrow();
+    BackgroundProcesses.write(processId, input, sessionID);
+
+    return {
+      content: `Wrote ${input.length} characters to process ${processId}`,
+      metadata: { processId },
+    };
+  },
+});
+
+export const processListTool = tool({
+  description: `List the background processes started in this session, with their status.`,
+
+  inputSchema: zodSchema(z.object({})),
+
+  execute: async () => {
+    const { sessionID } = getContextOrThrow();
+    const processes = BackgroundProcesses.list(sessionID);
+
+    return {
+      content:
+        processes.length > 0
+          ? processes.map(describeProcess).join("\n")
+          : "No background processes in this session",
+      metadata: { processes: processes.length },
+    };
+  },
+});
+
+export const processKillTool = tool({
+  description: `Stop a background process and its child processes.`,
+
+  inputSchema: zodSchema(
+    z.object({
+      processId: z.string().describe("Background process ID"),
+    })
+  ),
+
+  execute: async ({ processId }) => {
+    const { sessionID } = getContextOrThrow();
+    const info = await BackgroundProcesses.kill(processId, sessionID);
+
+    return {
+      content: `Stopped process ${processId}: ${info.command}`,
+      metadata: { processId, exitCode: info.exitCode },
+    };
+  },
+});
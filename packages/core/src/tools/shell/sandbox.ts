@@ -0,0 +1,255 @@
+/**
+ * Sandboxed command execution
+ *
+ * When a workspace opts in, shell commands run inside a Linux sandbox:
+ * the filesystem outside the workspace and the temp directory is read-only,
+ * networking is off and CPU time and memory are capped. The workspace's
+ * .sakti-code directory stays read-only, so a sandboxed command cannot turn
+ * its own sandbox off. bubblewrap is used when installed, otherwise
+ * unprivileged user/mount/network namespaces via `unshare`.
+ *
+ * .sakti-code/sandbox.json:
+ * {
+ *   "enabled": true,
+ *   "network": false,
+ *   "writablePaths": ["/home/me/.npm"],
+ *   "cpuSeconds": 120,
+ *   "memoryMb": 4096
+ * }
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { z } from "zod";
+
+const logger = createLogger("sakti-code:sandbox");
+
+export const SANDBOX_CONFIG_FILENAME = "sandbox.json";
+export const WORKSPACE_SANDBOX_CONFIG_DIR = ".sakti-code";
+
+export const SandboxPolicy = z.object({
+  enabled: z.boolean().default(false),
+  /** Allow network access from sandboxed commands */
+  network: z.boolean().default(false),
+  /** Paths besides the workspace and the temp directory that stay writable */
+  writablePaths: z.array(z.string()).default([]),
+  /** CPU time limit per command, in seconds */
+  cpuSeconds: z.number().int().positive().default(120),
+  /** Virtual memory limit per command, in megabytes */
+  memoryMb: z.number().int().positive().default(4096),
+});
+export type SandboxPolicy = z.infer<typeof SandboxPolicy>;
+
+export type SandboxBackend = "bubblewrap" | "unshare" | "none";
+
+/**
+ * Restrictions that actually applied to a command, reported in tool metadata
+ */
+export interface SandboxReport {
+  backend: SandboxBackend;
+  readOnlyOutsideWorkspace: boolean;
+  networkDisabled: boolean;
+  writablePaths: string[];
+  /** Paths inside the writable ones that stay read-only */
+  readOnlyPaths: string[];
+  cpuSeconds?: number;
+  memoryMb?: number;
+  /** Policy restrictions this platform could not enforce */
+  unavailable: string[];
+}
+
+export interface SandboxedCommand {
+  file: string;
+  args: string[];
+  report: SandboxReport;
+}
+
+let detectedBackend: SandboxBackend | undefined;
+
+export function getWorkspaceSandboxConfigPath(directory: string): string {
+  return path.join(directory, WORKSPACE_SANDBOX_CONFIG_DIR, SANDBOX_CONFIG_FILENAME);
+}
+
+/**
+ * Load a workspace's sandbox policy; a missing file means no sandbox
+ *
+ * @throws {Error} When the file exists but is not a valid policy, so a
+ *   broken config never silently runs commands unsandboxed
+ */
+export async function loadSandboxPolicy(directory: string): Promise<SandboxPolicy> {
+  const filePath = getWorkspaceSandboxConfigPath(directory);
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return SandboxPolicy.parse({});
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid sandbox config ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const validated = SandboxPolicy.safeParse(parsed);
+  if (!validated.success) {
+    throw new Error(
+      `Invalid sandbox config ${filePath}: ${validated.error.issues.map(i => i.message).join("; ")}`
+    );
+  }
+  return validated.data;
+}
+
+function probe(file: string, args: string[]): boolean {
+  try {
+    const result = spawnSync(file, args, { stdio: "ignore", timeout: 5000 });
+    return result.status === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the strongest isolation available on this machine
+ *
+ * Probes by running a no-op, since both tools exist on systems where
+ * unprivileged user namespaces are disabled. The result is cached.
+ */
+export function detectSandboxBackend(): SandboxBackend {
+  if (detectedBackend) return detectedBackend;
+
+  if (process.platform !== "linux") {
+    detectedBackend = "none";
+  } else if (probe("bwrap", ["--ro-bind", "/", "/", "--unshare-net", "true"])) {
+    detectedBackend = "bubblewrap";
+  } else if (probe("unshare", ["--user", "--map-root-user", "--mount", "--net", "true"])) {
+    detectedBackend = "unshare";
+  } else {
+    detectedBackend = "none";
+  }
+
+  logger.info("sandbox backend detected", { backend: detectedBackend });
+  return detectedBackend;
+}
+
+/**
+ * Shell prefix applying the resource limits, then running the command
+ *
+ * Expects the shell as $1 and the command as $2.
+ */
+function limitsScript(policy: SandboxPolicy): string {
+  const limits: string[] = [];
+  if (policy.cpuSeconds) limits.push(`ulimit -t ${policy.cpuSeconds}`);
+  if (policy.memoryMb) limits.push(`ulimit -v ${policy.memoryMb * 1024}`);
+  return [...limits, 'exec "$1" -c "$2"'].join("; ");
+}
+
+// Remount every mount read-only, re-bind the writable paths ($6...) rw, then
+// the protected path ($5, may be empty) ro again. Runs as root inside a fresh
+// user + mount namespace, so nothing leaks out.
+const UNSHARE_SCRIPT = [
+  "cwd=$1; sh_bin=$2; cmd=$3; limits=$4; protected=$5; shift 5",
+  "for m in $(awk '{print $2}' /proc/self/mounts); do",
+  '  case "$m" in /proc|/proc/*|/dev|/dev/*|/sys|/sys/*) ;;',
+  '  *) mount -o remount,bind,ro "$m" 2>/dev/null ;; esac',
+  "done",
+  'for p in "$@"; do',
+  '  mount --bind "$p" "$p" && mount -o remount,bind,rw "$p" || exit 125',
+  "done",
+  'if [ -n "$protected" ]; then',
+  '  mount --bind "$protected" "$protected" && mount -o remount,bind,ro "$protected" || exit 125',
+  "fi",
+  'cd "$cwd" || exit 125',
+  'exec /bin/sh -c "$limits" sandbox "$sh_bin" "$cmd"',
+].join("\n");
+
+/**
+ * Build the argv that runs `command` under the workspace's sandbox policy
+ *
+ * @param options.workspace - Workspace root; writable except for its .sakti-code directory
+ * @param options.cwd - Directory to run the command in
+ * @param options.shell - Shell used to interpret the command
+ * @throws {Error} On Windows, where no sandbox or resource limits exist
+ */
+export function buildSandboxedCommand(options: {
+  command: string;
+  cwd: string;
+  shell: string;
+  workspace: string;
+  policy: SandboxPolicy;
+}): SandboxedCommand {
+  const { command, cwd, shell, workspace, policy } = options;
+  if (process.platform === "win32") {
+    throw new Error("Sandboxed execution is not supported on Windows");
+  }
+
+  const backend = detectSandboxBackend();
+  const writablePaths = Array.from(
+    new Set([workspace, os.tmpdir(), ...policy.writablePaths].map(p => path.resolve(p)))
+  );
+  // An enabled policy lives in this directory, so it exists whenever a sandbox is built
+  const configDir = path.join(path.resolve(workspace), WORKSPACE_SANDBOX_CONFIG_DIR);
+  const readOnlyPaths = existsSync(configDir) ? [configDir] : [];
+  const limits = limitsScript(policy);
+  const isolated = backend !== "none";
+
+  const report: SandboxReport = {
+    backend,
+    readOnlyOutsideWorkspace: isolated,
+    networkDisabled: isolated && !policy.network,
+    writablePaths: isolated ? writablePaths : [],
+    readOnlyPaths: isolated ? readOnlyPaths : [],
+    cpuSeconds: policy.cpuSeconds,
+    memoryMb: policy.memoryMb,
+    unavailable: isolated ? [] : ["read-only filesystem", ...(policy.network ? [] : ["network"])],
+  };
+
+  if (backend === "bubblewrap") {
+    const args = ["--ro-bind", "/", "/", "--dev", "/dev", "--proc", "/proc"];
+    for (const p of writablePaths) args.push("--bind", p, p);
+    for (const p of readOnlyPaths) args.push("--ro-bind", p, p);
+    if (!policy.network) args.push("--unshare-net");
+    args.push("--die-with-parent", "--chdir", cwd, "--", "/bin/sh", "-c", limits);
+    args.push("sandbox", shell, command);
+    return { file: "bwrap", args, report };
+  }
+
+  if (backend === "unshare") {
+    const args = ["--user", "--map-root-user", "--mount"];
+    if (!policy.network) args.push("--net");
+    args.push("--", "/bin/sh", "-c", UNSHARE_SCRIPT, "sandbox", cwd, shell, command, limits);
+    args.push(readOnlyPaths[0] ?? "");
+    args.push(...writablePaths);
+    return { file: "unshare", args, report };
+  }
+
+  logger.warn("no sandbox backend available; applying resource limits only", {
+    platform: process.platform,
+  });
+  return { file: "/bin/sh", args: ["-c", limits, "sandbox", shell, command], report };
+}
+
+/**
+ * One-line summary of the restrictions, appended to command output
+ */
+export function describeSandbox(report: SandboxReport): string {
+  const parts = [`backend=${report.backend}`];
+  if (report.readOnlyOutsideWorkspace) parts.push("read-only outside workspace");
+  if (report.networkDisabled) parts.push("network disabled");
+  if (report.cpuSeconds) parts.push(`cpu ${report.cpuSeconds}s`);
+  if (report.memoryMb) parts.push(`memory ${report.memoryMb}MB`);
+  if (report.unavailable.length > 0) parts.push(`not enforced: ${report.unavailable.join(", ")}`);
+  return `Sandboxed (${parts.join(", ")})`;
+}
+
+/** @internal Reset the cached backend; for tests */
+export function resetSandboxBackend(backend?: SandboxBackend): void {
+  detectedBackend = backend;
+}
@@ -0,0 +1,67 @@
+/**
+ * Terminal output tool
+ *
+ * Lets the agent read what is happening in the user's integrated terminals
+ */
+
+import { tool, zodSchema } from "ai";
+import path from "node:path";
+import { z } from "zod";
+import { Terminal } from "../../terminal";
+import { getContextOrThrow } from "../base/context";
+import { truncateOutput } from "../base/truncation";
+
+const DEFAULT_LINES = 100;
+
+export const terminalOutputTool = tool({
+  description: `Read recent output from the user's integrated terminals in this workspace.
+
+- Without terminalId, lists the workspace's terminals
+- With terminalId, returns the last lines of that terminal's output as plain text
+- Use this to see the result of commands the user ran, dev server logs, or test output
+- This tool is read-only; use bash to run commands yourself`,
+
+  inputSchema: zodSchema(
+    z.object({
+      terminalId: z.string().optional().describe("Terminal to read; omit to list terminals"),
+      lines: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(`Number of most recent lines to return (default: ${DEFAULT_LINES})`),
+    })
+  ),
+
+  execute: async ({ terminalId, lines = DEFAULT_LINES }) => {
+    const { directory } = getContextOrThrow();
+    const terminals = Terminal.list(directory);
+
+    if (!terminalId) {
+      const listing = terminals.map(
+        t => `${t.id}  ${t.title}  ${t.status}${t.status === "exited" ? ` (${t.exitCode})` : ""}`
+      );
+      return {
+        content:
+          listing.length > 0 ? listing.join("\n") : "No terminals are open in this workspace",
+        metadata: { terminals: terminals.length },
+      };
+    }
+
+    const terminal = terminals.find(t => t.id === terminalId);
+    if (!terminal) {
+      throw new Error(`Terminal not found in workspace ${path.basename(directory)}: ${terminalId}`);
+    }
+
+    const { content, truncated } = await truncateOutput(Terminal.readOutput(terminalId, { lines }));
+    return {
+      content,
+      metadata: {
+        title: terminal.title,
+        status: terminal.status,
+        exitCode: terminal.exitCode,
+        truncated,
+      },
+    };
+  },
+});
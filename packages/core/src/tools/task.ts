@@ -14,6 +14,7 @@
 import type { LanguageModelV3 } from "@ai-sdk/provider";
 import { tool } from "ai";
 import { z } from "zod";
+import type { AgentConfig as RegistryAgentConfig } from "../agent/registry";
 import type { AgentConfig, AgentEvent, AgentInput, AgentResult } from "../agent/workflow/types";
 import { Instance } from "../instance";
 import type { AgentMode } from "../prompts/memory/observer/modes";
@@ -239,6 +240,7 @@ Use this tool when you need to:
 - Explore the codebase (use "explore" subagent)
 - Create detailed plans (use "plan" subagent)
 - Delegate any specialized work (use "general" subagent)
+- Hand work to a custom subagent defined in the workspace (use its name)
 
 The subagent will run in isolation and return results to you.
 
@@ -255,9 +257,10 @@ Examples:
       .describe("Brief description (3-5 words) of the task for the subagent"),
     prompt: z.string().min(1).describe("Detailed prompt for the subagent explaining what to do"),
     subagent_type: z
-      .enum(SUBAGENT_TYPES)
+      .string()
+      .min(1)
       .describe(
-        "Type of subagent to spawn: explore (codebase exploration), plan (detailed planning), or general (any task)"
+        "Type of subagent to spawn: explore (codebase exploration), plan (detailed planning), general (any task), or the name of a custom subagent"
       ),
     session_id: z
       .string()
@@ -269,7 +272,7 @@ Examples:
     params: {
       description: string;
       prompt: string;
-      subagent_type: SubagentType;
+      subagent_type: string;
       session_id?: string;
     },
     _context: unknown
@@ -291,24 +294,34 @@ Examples:
       throw new Error(`${runtimeMode} mode can only spawn explore subagents`);
     }
 
-    // Get subagent configuration
-    const config = SUBAGENT_CONFIGS[subagent_type];
-
-    // Load model and tools
-    await loadModelForAgent(config.model);
-    const tools = await getToolsForAgent(config.agentType);
-
-    // Create agent configuration
     const agentId =
       session_id || `subagent-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-    const agentConfig: AgentConfig = {
-      id: agentId,
-      type: config.agentType,
-      model: config.model,
-      systemPrompt: config.systemPrompt,
-      tools: tools, // Pass tools as object with named keys
-      maxIterations: config.maxIterations,
-    };
+
+    // Get subagent configuration; names other than the built-in types are custom agents
+    const builtin = isSubagentType(subagent_type);
+    const custom = builtin ? undefined : await getCustomSubagent(subagent_type);
+    let agentConfig: AgentConfig;
+    let mode: AgentMode = "default";
+    if (builtin) {
+      const config = SUBAGENT_CONFIGS[subagent_type];
+      mode = config.mode;
+
+      // Load model and tools
+      await loadModelForAgent(config.model);
+      const tools = await getToolsForAgent(config.agentType);
+
+      agentConfig = {
+        id: agentId,
+        type: config.agentType,
+        model: config.model,
+        systemPrompt: config.systemPrompt,
+        tools: tools, // Pass tools as object with named keys
+        maxIterations: config.maxIterations,
+      };
+    } else {
+      const { createAgent } = await import("../agent/workflow/factory");
+      agentConfig = createAgent(subagent_type, agentId);
+    }
 
     // Collect events for tracking tool calls
     const toolCalls: Array<{ name: string; args: unknown }> = [];
@@ -330,12 +343,18 @@ Examples:
       context: {
         parentSessionId: instanceContext.sessionID,
         parentMessageId: instanceContext.messageID,
-        mode: config.mode,
+        mode,
       },
     };
 
-    // Run the subagent
-    const result: AgentResult = await processor.run(input);
+    // Run the subagent; custom agents run with their permission overrides
+    let result: AgentResult;
+    if (custom) {
+      const { runAsAgent } = await import("../agent/registry");
+      result = await runAsAgent(custom, () => processor.run(input));
+    } else {
+      result = await processor.run(input);
+    }
 
     // Parse exploration result for explore subagents
     let explorationResult: ExplorationResult | undefined;
@@ -357,6 +376,32 @@ Examples:
   },
 });
 
+function isSubagentType(name: string): name is SubagentType {
+  return (SUBAGENT_TYPES as readonly string[]).includes(name);
+}
+
+/**
+ * Look up a custom or plugin subagent for the current workspace
+ *
+ * @throws Error if no such agent exists or it is a primary agent
+ */
+async function getCustomSubagent(name: string): Promise<RegistryAgentConfig> {
+  // Import lazily: the agent registry imports the tool registry, which imports this tool
+  const { getAgent } = await import("../agent/registry");
+  let agent: RegistryAgentConfig;
+  try {
+    agent = getAgent(name);
+  } catch {
+    throw new Error(
+      `Unknown subagent type: ${name}. Use ${SUBAGENT_TYPES.join(", ")} or a custom subagent`
+    );
+  }
+  if (agent.mode !== "subagent") {
+    throw new Error(`Agent ${name} is a primary agent and cannot be spawned as a subagent`);
+  }
+  return agent;
+}
+
 /**
  * Parse exploration result from subagent output
  *
@@ -177,6 +177,27 @@ describe("createWorktree", () => {
     expect(branchSummary.current).toBe("feature/feature-branch");
   });
 
+  it("starts a new branch from startPoint", async () => {
+    const { default: simpleGit } = await import("simple-git");
+    const git = simpleGit(repoDir);
+    await git.checkout("dev-branch");
+    await fs.writeFile(path.join(repoDir, "dev.txt"), "dev");
+    await git.add(".");
+    await git.commit("Dev change");
+    await git.checkout("-");
+
+    const worktreePath = await createWorktree({
+      repoPath: repoDir,
+      worktreeName: "from-dev",
+      branch: "feature/from-dev",
+      worktreesDir: workspacesDir,
+      createBranch: true,
+      startPoint: "dev-branch",
+    });
+
+    expect(await fs.readFile(path.join(worktreePath, "dev.txt"), "utf-8")).toBe("dev");
+  });
+
   it("throws error if worktree name already exists", async () => {
     await createWorktree({
       repoPath: repoDir,
@@ -6,10 +6,12 @@ export { WorkspaceInstance } from "./instance";
 export { detectProject, findProjectRootFromPath } from "./project";
 export {
   clone,
+  commitAll,
   createWorktree,
   getVCSInfo,
   getWorkspacesDir,
   listLocalBranches,
   listRemoteBranches,
+  mergeBranches,
   worktreeExists,
 } from "./vcs";
@@ -2,7 +2,7 @@
  * Version Control System detection and operations
  *
  * Detects VCS type and retrieves branch, commit, and remote information.
- * Provides git operations: clone, worktree, branch listing.
+ * Provides git operations: clone, worktree, branch listing, commit and merge.
  */
 
 import { resolveAppPaths } from "@sakti-code/shared/paths";
@@ -268,6 +268,7 @@ export async function clone(options: {
  * @param options.branch - Branch name to create/checkout in the worktree
  * @param options.worktreesDir - Directory where worktrees are stored
  * @param options.createBranch - If true, create a new branch with the given name
+ * @param options.startPoint - Branch or commit a new branch starts from; defaults to HEAD
  * @returns Path to the created worktree
  * @throws Error if not a git repository or worktree creation fails
  */
@@ -277,8 +278,9 @@ export async function createWorktree(options: {
   branch: string;
   worktreesDir: string;
   createBranch?: boolean;
+  startPoint?: string;
 }): Promise<string> {
-  const { repoPath, worktreeName, branch, worktreesDir, createBranch } = options;
+  const { repoPath, worktreeName, branch, worktreesDir, createBranch, startPoint } = options;
 
   if (!(await hasGitDirectory(repoPath))) {
     throw new Error("Not a git repository");
@@ -298,7 +300,14 @@ export async function createWorktree(options: {
   const git = simpleGit(repoPath);
   if (createBranch) {
     // Create new branch AND worktree
-    await git.raw(["worktree", "add", "-b", branch, worktreePath]);
+    await git.raw([
+      "worktree",
+      "add",
+      "-b",
+      branch,
+      worktreePath,
+      ...(startPoint ? [startPoint] : []),
+    ]);
   } else {
     // Use existing branch
     await git.raw(["worktree", "add", worktreePath, branch]);
@@ -307,6 +316,43 @@ export async function createWorktree(options: {
   return worktreePath;
 }
 
+/**
+ * Commit every change in a working tree
+ *
+ * @param directory - Repository or worktree to commit in
+ * @param message - Commit message
+ * @returns False when there was nothing to commit
+ */
+export async function commitAll(directory: string, message: string): Promise<boolean> {
+  const git = simpleGit(directory);
+  await git.add(["--all"]);
+  if ((await git.status()).isClean()) {
+    return false;
+  }
+  await git.commit(message);
+  return true;
+}
+
+/**
+ * Merge branches into the branch checked out in a working tree, in order
+ *
+ * @param directory - Repository or worktree to merge into
+ * @param branches - Branches to merge
+ * @throws Error naming the branch when a merge conflicts; that merge is aborted
+ */
+export async function mergeBranches(directory: string, branches: string[]): Promise<void> {
+  const git = simpleGit(directory);
+  for (const branch of branches) {
+    try {
+      await git.merge(["--no-edit", branch]);
+    } catch (error) {
+      await git.merge(["--abort"]).catch(() => undefined);
+      const detail = error instanceof Error ? error.message : String(error);
+      throw new Error(`Merge of ${branch} failed: ${detail}`);
+    }
+  }
+}
+
 /**
  * Check if a worktree name already exists
  *
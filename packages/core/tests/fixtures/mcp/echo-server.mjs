@@ -0,0 +1,57 @@
+// Minimal stdio MCP server used by the MCP client tests.
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+const server = new Server(
+  { name: "echo", version: "1.0.0" },
+  { capabilities: { tools: {}, resources: {} } }
+);
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+  resources: [{ uri: "echo://readme", name: "readme", mimeType: "text/plain" }],
+}));
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [
+    {
+      name: "echo",
+      description: "Echo the given text back",
+      inputSchema: {
+        type: "object",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+      },
+    },
+    {
+      name: "fail",
+      description: "Always returns an error result",
+      inputSchema: { type: "object", properties: {} },
+    },
+    {
+      name: "crash",
+      description: "Exit the server process",
+      inputSchema: { type: "object", properties: {} },
+    },
+  ],
+}));
+
+server.setRequestHandler(CallToolRequestSchema, async request => {
+  switch (request.params.name) {
+    case "echo":
+      return { content: [{ type: "text", text: `echo: ${request.params.arguments?.text ?? ""}` }] };
+    case "fail":
+      return { content: [{ type: "text", text: "something went wrong" }], isError: true };
+    case "crash":
+      setTimeout(() => process.exit(1), 10);
+      return { content: [{ type: "text", text: "bye" }] };
+    default:
+      throw new Error(`Unknown tool: ${request.params.name}`);
+  }
+});
+
+await server.connect(new StdioServerTransport());
@@ -14,6 +14,10 @@ function ensureBridgeBindings(): void {
     workingMemory: dbModule.workingMemory,
     reflections: dbModule.reflections,
     observationalMemory: dbModule.observationalMemory,
+    memoryEmbeddings: dbModule.memoryEmbeddings,
+    memoryPins: dbModule.memoryPins,
+    memoryLinks: dbModule.memoryLinks,
+    memoryResourceSettings: dbModule.memoryResourceSettings,
     toolSessions: dbModule.toolSessions,
   });
 }
@@ -36,9 +40,16 @@ export const messages = dbModule.messages;
 export const workingMemory = dbModule.workingMemory;
 export const reflections = dbModule.reflections;
 export const observationalMemory = dbModule.observationalMemory;
+export const memoryEmbeddings = dbModule.memoryEmbeddings;
+export const memoryPins = dbModule.memoryPins;
+export const memoryLinks = dbModule.memoryLinks;
+export const memoryResourceSettings = dbModule.memoryResourceSettings;
 export const toolSessions = dbModule.toolSessions;
 
 export type {
+  MemoryEmbedding,
+  MemoryLink,
+  MemoryPin,
   Message,
   NewTask,
   NewWorkingMemory,
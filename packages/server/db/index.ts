@@ -169,5 +169,9 @@ registerCoreDbBindings({
   workingMemory: schema.workingMemory,
   reflections: schema.reflections,
   observationalMemory: schema.observationalMemory,
+  memoryEmbeddings: schema.memoryEmbeddings,
+  memoryPins: schema.memoryPins,
+  memoryLinks: schema.memoryLinks,
+  memoryResourceSettings: schema.memoryResourceSettings,
   toolSessions: schema.toolSessions,
 });
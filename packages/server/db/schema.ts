@@ -5,10 +5,12 @@
  */
 
 import {
+  blob,
   foreignKey,
   index,
   integer,
   primaryKey,
+  real,
   sqliteTable,
   text,
   uniqueIndex,
@@ -315,6 +317,65 @@ export const taskRunEvents = sqliteTable(
   })
 );
 
+/**
+ * Spec executions table - autonomous runs of a compiled spec's tasks.
+ *
+ * - workspace_id: workspace whose repository the task worktrees branch from
+ * - spec_slug: spec whose tasks are executed
+ * - status: running | completed | failed
+ */
+export const specExecutions = sqliteTable(
+  "spec_executions",
+  {
+    execution_id: text("execution_id").primaryKey(),
+    workspace_id: text("workspace_id")
+      .notNull()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+    spec_slug: text("spec_slug").notNull(),
+    status: text("status").notNull().default("running"),
+    created_at: integer("created_at", { mode: "timestamp" }).notNull(),
+    updated_at: integer("updated_at", { mode: "timestamp" }).notNull(),
+    finished_at: integer("finished_at", { mode: "timestamp" }),
+  },
+  table => ({
+    statusIdx: index("spec_executions_status_idx").on(table.status),
+  })
+);
+
+/**
+ * Spec execution tasks table - one entry per spec task an execution started.
+ *
+ * - task_id: compiled task id (spec-<slug>_T-1)
+ * - state: running | done | failed
+ * - task_session_id/run_id: task session and run that implement the task
+ * - worktree_path/branch: git worktree the run works in, queued for merge when done
+ */
+export const specExecutionTasks = sqliteTable(
+  "spec_execution_tasks",
+  {
+    execution_id: text("execution_id")
+      .notNull()
+      .references(() => specExecutions.execution_id, { onDelete: "cascade" }),
+    task_id: text("task_id").notNull(),
+    spec_task_id: text("spec_task_id").notNull(),
+    title: text("title").notNull(),
+    parallel: integer("parallel", { mode: "boolean" }).notNull().default(false),
+    state: text("state").notNull().default("running"),
+    task_session_id: text("task_session_id").references(() => taskSessions.session_id, {
+      onDelete: "set null",
+    }),
+    run_id: text("run_id"),
+    worktree_path: text("worktree_path"),
+    branch: text("branch"),
+    error: text("error"),
+    started_at: integer("started_at", { mode: "timestamp" }).notNull(),
+    finished_at: integer("finished_at", { mode: "timestamp" }),
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.execution_id, table.task_id] }),
+  })
+);
+
 /**
  * Type definitions for TypeScript
  */
@@ -330,6 +391,10 @@ export type TaskSessionRun = typeof taskSessionRuns.$inferSelect;
 export type NewTaskSessionRun = typeof taskSessionRuns.$inferInsert;
 export type TaskRunEvent = typeof taskRunEvents.$inferSelect;
 export type NewTaskRunEvent = typeof taskRunEvents.$inferInsert;
+export type SpecExecution = typeof specExecutions.$inferSelect;
+export type NewSpecExecution = typeof specExecutions.$inferInsert;
+export type SpecExecutionTask = typeof specExecutionTasks.$inferSelect;
+export type NewSpecExecutionTask = typeof specExecutionTasks.$inferInsert;
 
 /**
  * Threads table - conversation threads for memory system
@@ -592,6 +657,122 @@ export const workingMemory = sqliteTable("working_memory", {
 export type WorkingMemory = typeof workingMemory.$inferSelect;
 export type NewWorkingMemory = typeof workingMemory.$inferInsert;
 
+/**
+ * Memory embeddings table - vectors for semantic memory search
+ *
+ * One row per embedded memory item, written by the embedding indexer.
+ * - source_type: "message" | "observation" | "reflection"
+ * - source_id: ID of the row in messages, observational_memory or reflections
+ * - thread_id/resource_id: Copied from the source for filtering
+ * - model: Embedding model the vector came from ("provider/model"); rows from
+ *   another model are re-embedded
+ * - dimensions: Vector length
+ * - embedding: Float32 vector, little-endian
+ * - source_updated_at: Source timestamp the vector was computed from; a newer
+ *   source row is re-embedded
+ */
+export const memoryEmbeddings = sqliteTable(
+  "memory_embeddings",
+  {
+    source_type: text("source_type").notNull(),
+    source_id: text("source_id").notNull(),
+    thread_id: text("thread_id"),
+    resource_id: text("resource_id"),
+    model: text("model").notNull(),
+    dimensions: integer("dimensions").notNull(),
+    embedding: blob("embedding", { mode: "buffer" }).notNull(),
+    source_updated_at: integer("source_updated_at", { mode: "timestamp" }).notNull(),
+    created_at: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.source_type, table.source_id] }),
+    modelThreadIdx: index("memory_embeddings_model_thread_idx").on(table.model, table.thread_id),
+  })
+);
+
+/**
+ * Type definitions for memory embeddings
+ */
+export type MemoryEmbedding = typeof memoryEmbeddings.$inferSelect;
+export type NewMemoryEmbedding = typeof memoryEmbeddings.$inferInsert;
+
+/**
+ * Memory pins table - facts the user pinned as permanent memory
+ *
+ * Pinned facts are injected with the observations on every turn and are never
+ * condensed or dropped by the reflector.
+ * - resource_id: Resource the fact belongs to
+ * - thread_id: Thread the fact is limited to; null for every thread of the resource
+ * - content: The fact itself
+ * - source_type: "manual" | "observation" | "reflection" - where it was pinned from
+ * - source_id: ID of the observational memory or reflection row it was pinned from
+ */
+export const memoryPins = sqliteTable(
+  "memory_pins",
+  {
+    id: text("id").primaryKey(),
+    resource_id: text("resource_id").notNull(),
+    thread_id: text("thread_id"),
+    content: text("content").notNull(),
+    source_type: text("source_type").notNull().default("manual"),
+    source_id: text("source_id"),
+    created_at: integer("created_at", { mode: "timestamp" }).notNull(),
+    updated_at: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  table => ({
+    resourceThreadIdx: index("memory_pins_resource_thread_idx").on(
+      table.resource_id,
+      table.thread_id
+    ),
+  })
+);
+
+/**
+ * Type definitions for memory pins
+ */
+export type MemoryPin = typeof memoryPins.$inferSelect;
+export type NewMemoryPin = typeof memoryPins.$inferInsert;
+
+/**
+ * Memory links table - opt-in sharing of memory between resources
+ *
+ * A link is symmetric: sessions in either resource can retrieve the other's
+ * reflections and project keypoints. Resource IDs are workspace or project paths.
+ * - resource_id: Resource that created the link
+ * - linked_resource_id: Resource it was linked to
+ */
+export const memoryLinks = sqliteTable(
+  "memory_links",
+  {
+    resource_id: text("resource_id").notNull(),
+    linked_resource_id: text("linked_resource_id").notNull(),
+    created_at: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.resource_id, table.linked_resource_id] }),
+    linkedIdx: index("memory_links_linked_idx").on(table.linked_resource_id),
+  })
+);
+
+/**
+ * Memory resource settings table - per-resource memory sharing options
+ *
+ * - resource_id: Workspace or project path
+ * - is_private: Never share this resource's memory through links
+ */
+export const memoryResourceSettings = sqliteTable("memory_resource_settings", {
+  resource_id: text("resource_id").primaryKey(),
+  is_private: integer("is_private", { mode: "boolean" }).notNull().default(false),
+  updated_at: integer("updated_at", { mode: "timestamp" }).notNull(),
+});
+
+/**
+ * Type definitions for memory links and resource settings
+ */
+export type MemoryLink = typeof memoryLinks.$inferSelect;
+export type NewMemoryLink = typeof memoryLinks.$inferInsert;
+export type MemoryResourceSetting = typeof memoryResourceSettings.$inferSelect;
+
 /**
  * Project Keypoints table - stores project milestones and highlights
  *
@@ -636,6 +817,101 @@ export const projectKeypoints = sqliteTable(
   })
 );
 
+/**
+ * Permission Rules table - persisted scoped permission rules
+ *
+ * Rules are layered: session rules override workspace rules, which override
+ * global rules, which override the rules loaded from config.
+ * - id: UUIDv7 primary key
+ * - scope: "global" | "workspace" | "session"
+ * - scope_id: Workspace ID or task session ID; null for global rules
+ * - permission/pattern/action: The rule itself
+ * - conditions: JSON-encoded argument conditions (the rule's `when`)
+ * - source: "rule" when written through the API, "approval" for patterns the
+ *   user approved with "always" in a session
+ * - position: Order within a scope; later rules override earlier ones
+ * - created_at: When the rule was stored
+ */
+export const permissionRules = sqliteTable(
+  "permission_rules",
+  {
+    id: text("id").primaryKey(),
+    scope: text("scope").notNull(),
+    scope_id: text("scope_id"),
+    permission: text("permission").notNull(),
+    pattern: text("pattern").notNull(),
+    action: text("action").notNull(),
+    conditions: text("conditions", { mode: "json" }).$type<
+      Array<{ argMatches?: string | string[]; argNotMatches?: string | string[] }>
+    >(),
+    source: text("source").notNull().default("rule"),
+    position: integer("position").notNull(),
+    created_at: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  table => ({
+    scopePositionIdx: index("permission_rules_scope_position_idx").on(
+      table.scope,
+      table.scope_id,
+      table.position
+    ),
+  })
+);
+
+/**
+ * Message usage table - token usage and cost of each assistant message
+ *
+ * One row per assistant message, updated after every model step so usage
+ * survives an interrupted run.
+ * - message_id: Assistant message ID (primary key)
+ * - session_id: Task session the message belongs to (cascade delete)
+ * - workspace_id: Workspace of the session, for workspace totals
+ * - run_id: Durable task run that produced the message, if any
+ * - provider_id/model_id: Model the tokens were spent on
+ * - *_tokens: Token counts summed over the message's steps; input includes
+ *   cache reads and writes, output includes reasoning
+ * - cost: Cost in USD computed from catalog pricing; 0 when unpriced
+ * - steps: Number of model steps recorded
+ */
+export const messageUsage = sqliteTable(
+  "message_usage",
+  {
+    message_id: text("message_id").primaryKey(),
+    session_id: text("session_id")
+      .notNull()
+      .references(() => taskSessions.session_id, { onDelete: "cascade" }),
+    workspace_id: text("workspace_id").references(() => workspaces.id, { onDelete: "set null" }),
+    run_id: text("run_id").references(() => taskSessionRuns.run_id, { onDelete: "set null" }),
+    provider_id: text("provider_id").notNull(),
+    model_id: text("model_id").notNull(),
+    input_tokens: integer("input_tokens").notNull().default(0),
+    output_tokens: integer("output_tokens").notNull().default(0),
+    reasoning_tokens: integer("reasoning_tokens").notNull().default(0),
+    cache_read_tokens: integer("cache_read_tokens").notNull().default(0),
+    cache_write_tokens: integer("cache_write_tokens").notNull().default(0),
+    cost: real("cost").notNull().default(0),
+    steps: integer("steps").notNull().default(0),
+    created_at: integer("created_at", { mode: "timestamp" }).notNull(),
+    updated_at: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  table => ({
+    sessionIdx: index("message_usage_session_idx").on(table.session_id),
+    workspaceIdx: index("message_usage_workspace_idx").on(table.workspace_id),
+    runIdx: index("message_usage_run_idx").on(table.run_id),
+  })
+);
+
+/**
+ * Type definitions for message usage
+ */
+export type MessageUsageRow = typeof messageUsage.$inferSelect;
+export type NewMessageUsageRow = typeof messageUsage.$inferInsert;
+
+/**
+ * Type definitions for permission rules
+ */
+export type PermissionRuleRow = typeof permissionRules.$inferSelect;
+export type NewPermissionRuleRow = typeof permissionRules.$inferInsert;
+
 /**
  * Type definitions for project keypoints
  */
@@ -0,0 +1,14 @@
+CREATE TABLE `permission_rules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`scope` text NOT NULL,
+	`scope_id` text,
+	`permission` text NOT NULL,
+	`pattern` text NOT NULL,
+	`action` text NOT NULL,
+	`conditions` text,
+	`source` text DEFAULT 'rule' NOT NULL,
+	`position` integer NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `permission_rules_scope_position_idx` ON `permission_rules` (`scope`,`scope_id`,`position`);
\ No newline at end of file
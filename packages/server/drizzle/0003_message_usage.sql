@@ -0,0 +1,24 @@
+CREATE TABLE `message_usage` (
+	`message_id` text PRIMARY KEY NOT NULL,
+	`session_id` text NOT NULL,
+	`workspace_id` text,
+	`run_id` text,
+	`provider_id` text NOT NULL,
+	`model_id` text NOT NULL,
+	`input_tokens` integer DEFAULT 0 NOT NULL,
+	`output_tokens` integer DEFAULT 0 NOT NULL,
+	`reasoning_tokens` integer DEFAULT 0 NOT NULL,
+	`cache_read_tokens` integer DEFAULT 0 NOT NULL,
+	`cache_write_tokens` integer DEFAULT 0 NOT NULL,
+	`cost` real DEFAULT 0 NOT NULL,
+	`steps` integer DEFAULT 0 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `task_sessions`(`session_id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`run_id`) REFERENCES `task_session_runs`(`run_id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `message_usage_session_idx` ON `message_usage` (`session_id`);--> statement-breakpoint
+CREATE INDEX `message_usage_workspace_idx` ON `message_usage` (`workspace_id`);--> statement-breakpoint
+CREATE INDEX `message_usage_run_idx` ON `message_usage` (`run_id`);
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `memory_embeddings` (
+	`source_type` text NOT NULL,
+	`source_id` text NOT NULL,
+	`thread_id` text,
+	`resource_id` text,
+	`model` text NOT NULL,
+	`dimensions` integer NOT NULL,
+	`embedding` blob NOT NULL,
+	`source_updated_at` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	PRIMARY KEY(`source_type`, `source_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `memory_embeddings_model_thread_idx` ON `memory_embeddings` (`model`,`thread_id`);
\ No newline at end of file
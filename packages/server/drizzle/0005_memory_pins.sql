@@ -0,0 +1,12 @@
+CREATE TABLE `memory_pins` (
+	`id` text PRIMARY KEY NOT NULL,
+	`resource_id` text NOT NULL,
+	`thread_id` text,
+	`content` text NOT NULL,
+	`source_type` text DEFAULT 'manual' NOT NULL,
+	`source_id` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `memory_pins_resource_thread_idx` ON `memory_pins` (`resource_id`,`thread_id`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `memory_links` (
+	`resource_id` text NOT NULL,
+	`linked_resource_id` text NOT NULL,
+	`created_at` integer NOT NULL,
+	PRIMARY KEY(`resource_id`, `linked_resource_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `memory_links_linked_idx` ON `memory_links` (`linked_resource_id`);--> statement-breakpoint
+CREATE TABLE `memory_resource_settings` (
+	`resource_id` text PRIMARY KEY NOT NULL,
+	`is_private` integer DEFAULT false NOT NULL,
+	`updated_at` integer NOT NULL
+);
@@ -0,0 +1,31 @@
+CREATE TABLE `spec_execution_tasks` (
+	`execution_id` text NOT NULL,
+	`task_id` text NOT NULL,
+	`spec_task_id` text NOT NULL,
+	`title` text NOT NULL,
+	`parallel` integer DEFAULT false NOT NULL,
+	`state` text DEFAULT 'running' NOT NULL,
+	`task_session_id` text,
+	`run_id` text,
+	`worktree_path` text,
+	`branch` text,
+	`error` text,
+	`started_at` integer NOT NULL,
+	`finished_at` integer,
+	PRIMARY KEY(`execution_id`, `task_id`),
+	FOREIGN KEY (`execution_id`) REFERENCES `spec_executions`(`execution_id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`task_session_id`) REFERENCES `task_sessions`(`session_id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `spec_executions` (
+	`execution_id` text PRIMARY KEY NOT NULL,
+	`workspace_id` text NOT NULL,
+	`spec_slug` text NOT NULL,
+	`status` text DEFAULT 'running' NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`finished_at` integer,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `spec_executions_status_idx` ON `spec_executions` (`status`);
\ No newline at end of file
@@ -1,21 +1,33 @@
 import type { Hono } from "hono";
 import type { Env } from "../index.js";
 import { agentRoutes } from "../modules/agent/controller/routes/index.js";
-import { chatRoutes, sessionDataRoutes } from "../modules/chat/controller/routes/index.js";
+import {
+  chatRoutes,
+  sessionCompactionRoutes,
+  sessionDataRoutes,
+  sessionRevertRoutes,
+} from "../modules/chat/controller/routes/index.js";
 import { commandRoutes } from "../modules/command/controller/routes/index.js";
 import { eventRoutes, eventsRoutes } from "../modules/events/controller/routes/index.js";
 import { filesRoutes } from "../modules/files/controller/routes/index.js";
 import { healthRoutes } from "../modules/health/controller/routes/index.js";
+import { hooksRoutes } from "../modules/hooks/controller/routes/index.js";
+import { instructionsRoutes } from "../modules/instructions/controller/routes/index.js";
 import { lspRoutes } from "../modules/lsp/controller/routes/index.js";
 import { mcpRoutes } from "../modules/mcp/controller/routes/index.js";
+import { memoryRoutes } from "../modules/memory/controller/routes/index.js";
 import { permissionsRoutes } from "../modules/permissions/controller/routes/index.js";
+import { pluginsRoutes } from "../modules/plugins/controller/routes/index.js";
 import { projectRoutes } from "../modules/project/controller/routes/index.js";
 import { providerRoutes } from "../modules/provider/controller/routes/index.js";
 import { questionsRoutes } from "../modules/questions/controller/routes/index.js";
 import { rulesRoutes } from "../modules/rules/controller/routes/index.js";
+import { specExecutionsRoutes } from "../modules/spec-executions/controller/routes/index.js";
 import { runEventsRoutes, taskRunsRoutes } from "../modules/task-runs/controller/routes/index.js";
 import { taskSessionsRoutes } from "../modules/task-sessions/controller/routes/index.js";
 import { tasksRoutes } from "../modules/tasks/controller/routes/index.js";
+import { terminalRoutes } from "../modules/terminal/controller/routes/index.js";
+import { usageRoutes } from "../modules/usage/controller/routes/index.js";
 import { diffRoutes, vcsRoutes } from "../modules/vcs/controller/routes/index.js";
 import { workspaceRoutes } from "../modules/workspace/controller/routes/index.js";
 
@@ -23,9 +35,12 @@ export function registerRoutes(app: Hono<Env>): void {
   app.route("/", healthRoutes);
   app.route("/", chatRoutes);
   app.route("/", sessionDataRoutes);
+  app.route("/", sessionRevertRoutes);
+  app.route("/", sessionCompactionRoutes);
   app.route("/", taskSessionsRoutes);
   app.route("/", taskRunsRoutes);
   app.route("/", runEventsRoutes);
+  app.route("/", specExecutionsRoutes);
   app.route("/", tasksRoutes);
   app.route("/", providerRoutes);
   app.route("/", workspaceRoutes);
@@ -42,4 +57,10 @@ export function registerRoutes(app: Hono<Env>): void {
   app.route("/", eventRoutes);
   app.route("/", lspRoutes);
   app.route("/", mcpRoutes);
+  app.route("/", terminalRoutes);
+  app.route("/", usageRoutes);
+  app.route("/", hooksRoutes);
+  app.route("/", pluginsRoutes);
+  app.route("/", instructionsRoutes);
+  app.route("/", memoryRoutes);
 }
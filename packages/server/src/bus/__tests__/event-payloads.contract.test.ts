@@ -9,6 +9,7 @@ import { describe, expect, it } from "vitest";
 import {
   MessagePartRemoved,
   MessagePartUpdated,
+  MessageRemoved,
   MessageUpdated,
   PermissionAsked,
   PermissionReplied,
@@ -66,6 +67,10 @@ describe("Event Contract Tests", () => {
         partID: "part-123",
         sessionID: "session-123",
       },
+      "message.removed": {
+        messageID: "msg-123",
+        sessionID: "session-123",
+      },
       "session.created": {
         sessionID: "session-123",
         directory: "/test/path",
@@ -153,6 +158,10 @@ describe("Event Contract Tests", () => {
         partID: "part-123",
         sessionID: "session-123",
       },
+      "message.removed": {
+        messageID: "msg-123",
+        // missing sessionID
+      },
       "session.created": {
         // missing required fields
       },
@@ -283,6 +292,16 @@ describe("Event Contract Tests", () => {
       const invalid = getInvalidFixture("message.part.removed");
       expect(() => MessagePartRemoved.properties.parse(invalid)).toThrow();
     });
+
+    it("MessageRemoved validates correct payload", () => {
+      const valid = getValidFixture("message.removed");
+      expect(() => MessageRemoved.properties.parse(valid)).not.toThrow();
+    });
+
+    it("MessageRemoved rejects invalid payload", () => {
+      const invalid = getInvalidFixture("message.removed");
+      expect(() => MessageRemoved.properties.parse(invalid)).toThrow();
+    });
   });
 
   describe("Session Events", () => {
@@ -13,6 +13,7 @@ import { createLogger } from "@sakti-code/shared/logger";
 import { v7 as uuidv7 } from "uuid";
 import { z } from "zod";
 import {
+  removeMessage,
   removePart,
   upsertMessage,
   upsertPart,
@@ -148,6 +149,14 @@ export const MessagePartRemoved = defineBusEvent(
   })
 );
 
+export const MessageRemoved = defineBusEvent(
+  "message.removed",
+  z.object({
+    messageID: z.string(),
+    sessionID: z.string(),
+  })
+);
+
 export const SessionCreated = defineBusEvent(
   "session.created",
   z.object({
@@ -309,6 +318,11 @@ export async function publish<Definition extends BusEventDefinition>(
     if (part) {
       upsertPart(part);
     }
+  } else if (def.type === "message.removed") {
+    const payload = properties as { sessionID?: string; messageID?: string };
+    if (payload.sessionID && payload.messageID) {
+      removeMessage({ sessionID: payload.sessionID, messageID: payload.messageID });
+    }
   } else if (def.type === "message.part.removed") {
     const payload = properties as { sessionID?: string; messageID?: string; partID?: string };
     if (payload.sessionID && payload.messageID && payload.partID) {
@@ -31,7 +31,7 @@ if (process.env.NODE_ENV !== "production") {
 }
 
 import { serve } from "@hono/node-server";
-import { ShutdownHandler } from "@sakti-code/core";
+import { scheduleEmbeddingIndex, ShutdownHandler } from "@sakti-code/core";
 import {
   initializePermissionRules,
   PermissionManager,
@@ -45,6 +45,9 @@ import { setRuntimePort } from "./app/runtime-config.js";
 import { getSessionManager } from "./app/runtime/session-manager";
 import { getServerToken } from "./app/security/server-token";
 import { PermissionAsked, publish, QuestionAsked } from "./bus";
+import { buildRuleUsecases } from "./modules/rules/controller/factory/rules.factory.js";
+import { buildSpecExecutionUsecases } from "./modules/spec-executions/controller/factory/spec-executions.factory.js";
+import { SpecExecutionWorker } from "./modules/spec-executions/infrastructure/spec-execution-worker";
 import {
   createChatTaskRunExecutor,
   TaskRunWorker,
@@ -78,12 +81,16 @@ const logger = createLogger("server");
 const SERVER_PORT = parseInt(process.env.PORT || "0") || 0; // Random port
 let serverInstance: CloseableServer | null = null;
 let taskRunWorker: TaskRunWorker | null = null;
+let specExecutionWorker: SpecExecutionWorker | null = null;
 
 // Start server
 export async function startServer() {
   // Initialize permission rules from config
   initializePermissionRules();
 
+  // Layer persisted global, workspace and session rules over them
+  PermissionManager.getInstance().setPolicyStore(buildRuleUsecases().policyStore);
+
   if (!permissionBusBound) {
     const permissionMgr = PermissionManager.getInstance();
     permissionMgr.on("permission:request", request => {
@@ -145,6 +152,9 @@ export async function startServer() {
     }
   );
 
+  // Backfill memory embeddings written before semantic search was set up
+  scheduleEmbeddingIndex();
+
   if (process.env.SAKTI_CODE_BACKGROUND_RUNS_ENABLED === "true") {
     taskRunWorker = new TaskRunWorker({
       workerId: `worker-${process.pid}`,
@@ -155,6 +165,11 @@ export async function startServer() {
     });
     taskRunWorker.start();
     logger.info("Background task run worker started", { module: "server:task-runs" });
+
+    specExecutionWorker = new SpecExecutionWorker({
+      advanceRunningExecutions: buildSpecExecutionUsecases().advanceRunningSpecExecutionsUsecase,
+    });
+    specExecutionWorker.start();
   }
 
   // Register cleanup with centralized shutdown manager
@@ -174,6 +189,11 @@ export async function startServer() {
         taskRunWorker = null;
         logger.info("Background task run worker stopped", { module: "server:task-runs" });
       }
+
+      if (specExecutionWorker) {
+        specExecutionWorker.stop();
+        specExecutionWorker = null;
+      }
     },
     10
   ); // Very high priority (run first)
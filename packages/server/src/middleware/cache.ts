@@ -211,7 +211,23 @@ export function createCacheMiddleware(options: CacheOptions = {}) {
   };
 }
 
-export const cacheMiddleware = createCacheMiddleware();
+// Terminal state changes with every keystroke, usage with every model step,
+// hooks config and agent files with every save, plugin status with every
+// reload, MCP connection state at any time, active instruction files
+// whenever the agent touches a new directory and embedding index progress
+// with every stored message, so their reads are never cached
+export const cacheMiddleware = createCacheMiddleware({
+  excludePaths: [
+    "/api/terminals",
+    "/api/usage",
+    "/api/hooks",
+    "/api/plugins",
+    "/api/agents",
+    "/api/mcp",
+    "/api/instructions",
+    "/api/memory",
+  ],
+});
 
 export function clearCache(): void {
   globalCache.clear();
@@ -3,6 +3,8 @@ import { listAgents } from "@sakti-code/core";
 export interface AgentSummary {
   id: string;
   name: string;
+  mode: "primary" | "subagent";
+  description?: string;
 }
 
 const nameMap: Record<string, string> = {
@@ -11,9 +13,20 @@ const nameMap: Record<string, string> = {
   plan: "Plan Agent",
 };
 
-export function listAgentsUsecase(): AgentSummary[] {
-  return listAgents().map(agent => ({
+/**
+ * List built-in agents, plus custom and plugin agents when a workspace is given
+ */
+export async function listAgentsUsecase(directory?: string): Promise<AgentSummary[]> {
+  if (directory) {
+    const { loadCustomAgents, Plugins } = await import("@sakti-code/core");
+    await Plugins.ensureWorkspace(directory);
+    await loadCustomAgents(directory);
+  }
+
+  return listAgents(directory).map(agent => ({
     id: agent.name,
     name: nameMap[agent.name] ?? agent.name,
+    mode: agent.mode,
+    description: agent.description,
   }));
 }
@@ -0,0 +1,43 @@
+import type { CustomAgent, CustomAgentInput } from "@sakti-code/core";
+
+export type CustomAgentScope = CustomAgent["scope"];
+
+export interface CustomAgentsOutput {
+  directory: string;
+  userDir: string;
+  workspaceDir: string;
+  agents: CustomAgent[];
+  errors: Array<{ path: string; message: string }>;
+}
+
+export async function listCustomAgentsUsecase(directory: string): Promise<CustomAgentsOutput> {
+  const { getUserAgentsDir, getWorkspaceAgentsDir, loadCustomAgents } =
+    await import("@sakti-code/core");
+  const { agents, errors } = await loadCustomAgents(directory);
+
+  return {
+    directory,
+    userDir: getUserAgentsDir(),
+    workspaceDir: getWorkspaceAgentsDir(directory),
+    agents,
+    errors,
+  };
+}
+
+export async function saveCustomAgentUsecase(
+  directory: string,
+  scope: CustomAgentScope,
+  agent: CustomAgentInput
+): Promise<CustomAgent> {
+  const { saveCustomAgent } = await import("@sakti-code/core");
+  return saveCustomAgent(directory, scope, agent);
+}
+
+export async function deleteCustomAgentUsecase(
+  directory: string,
+  scope: CustomAgentScope,
+  name: string
+): Promise<boolean> {
+  const { deleteCustomAgent } = await import("@sakti-code/core");
+  return deleteCustomAgent(directory, scope, name);
+}
@@ -1,5 +1,15 @@
 import { listAgentsUsecase } from "../../application/usecases/list-agents.usecase.js";
+import {
+  deleteCustomAgentUsecase,
+  listCustomAgentsUsecase,
+  saveCustomAgentUsecase,
+} from "../../application/usecases/manage-custom-agents.usecase.js";
 
 export function buildAgentUsecases() {
-  return { listAgentsUsecase };
+  return {
+    listAgentsUsecase,
+    listCustomAgentsUsecase,
+    saveCustomAgentUsecase,
+    deleteCustomAgentUsecase,
+  };
 }
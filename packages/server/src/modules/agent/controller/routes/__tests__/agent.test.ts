@@ -1,18 +1,27 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 const listAgentsMock = vi.fn();
+const ensureWorkspaceMock = vi.fn();
+const loadCustomAgentsMock = vi.fn();
 
 vi.mock("@sakti-code/core", () => ({
   listAgents: listAgentsMock,
+  loadCustomAgents: loadCustomAgentsMock,
+  Plugins: { ensureWorkspace: ensureWorkspaceMock },
 }));
 
 describe("agent route", () => {
   beforeEach(() => {
     listAgentsMock.mockReset();
+    ensureWorkspaceMock.mockReset();
+    loadCustomAgentsMock.mockReset();
   });
 
   it("returns agents from core registry", async () => {
-    listAgentsMock.mockReturnValue([{ name: "build" }, { name: "plan" }]);
+    listAgentsMock.mockReturnValue([
+      { name: "build", mode: "primary" },
+      { name: "plan", mode: "subagent" },
+    ]);
 
     const { agentRoutes: agentRouter } = await import("../agent.route");
     const response = await agentRouter.request("http://localhost/api/agents");
@@ -20,18 +29,39 @@ describe("agent route", () => {
 
     expect(response.status).toBe(200);
     expect(data.agents).toEqual([
-      { id: "build", name: "Build Agent" },
-      { id: "plan", name: "Plan Agent" },
+      { id: "build", name: "Build Agent", mode: "primary" },
+      { id: "plan", name: "Plan Agent", mode: "subagent" },
     ]);
   });
 
   it("falls back to raw name for unmapped agents", async () => {
-    listAgentsMock.mockReturnValue([{ name: "custom-agent" }]);
+    listAgentsMock.mockReturnValue([{ name: "custom-agent", mode: "subagent" }]);
 
     const { agentRoutes: agentRouter } = await import("../agent.route");
     const response = await agentRouter.request("http://localhost/api/agents");
     const data = await response.json();
 
-    expect(data.agents).toEqual([{ id: "custom-agent", name: "custom-agent" }]);
+    expect(data.agents).toEqual([{ id: "custom-agent", name: "custom-agent", mode: "subagent" }]);
+  });
+
+  it("loads workspace plugins and custom agents before listing agents for a directory", async () => {
+    listAgentsMock.mockReturnValue([
+      { name: "build", mode: "primary" },
+      { name: "triage", mode: "subagent", description: "Triages tickets" },
+    ]);
+
+    const { agentRoutes: agentRouter } = await import("../agent.route");
+    const response = await agentRouter.request(
+      "http://localhost/api/agents?directory=/tmp/project"
+    );
+    const data = await response.json();
+
+    expect(ensureWorkspaceMock).toHaveBeenCalledWith("/tmp/project");
+    expect(loadCustomAgentsMock).toHaveBeenCalledWith("/tmp/project");
+    expect(listAgentsMock).toHaveBeenCalledWith("/tmp/project");
+    expect(data.agents).toEqual([
+      { id: "build", name: "Build Agent", mode: "primary" },
+      { id: "triage", name: "triage", mode: "subagent", description: "Triages tickets" },
+    ]);
   });
 });
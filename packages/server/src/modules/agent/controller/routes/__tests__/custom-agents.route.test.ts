@@ -0,0 +1,94 @@
+import { Hono } from "hono";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("Custom Agents Routes", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "custom-agents-route-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  async function createApp() {
+    const app = new Hono();
+    const { agentRoutes } = await import("../agent.route");
+    app.route("/", agentRoutes);
+    return app;
+  }
+
+  function put(app: Hono, body: unknown) {
+    return app.request("/api/agents/custom", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  const reviewer = {
+    name: "reviewer",
+    description: "Reviews diffs",
+    mode: "subagent",
+    tools: ["read", "grep"],
+    permission: { edit: "deny", bash: { "git diff*": "allow" } },
+    systemPrompt: "You review code.",
+  };
+
+  it("saves an agent file and lists it", async () => {
+    const app = await createApp();
+
+    const saved = await put(app, { directory: workspace, agent: reviewer });
+    expect(saved.status).toBe(200);
+
+    const file = path.join(workspace, ".sakti-code", "agents", "reviewer.md");
+    await expect(fs.readFile(file, "utf-8")).resolves.toContain("You review code.");
+
+    const res = await app.request(`/api/agents/custom?directory=${encodeURIComponent(workspace)}`);
+    const json = await res.json();
+    expect(json.agents).toEqual([
+      expect.objectContaining({ ...reviewer, scope: "workspace", location: file }),
+    ]);
+    expect(json.errors).toEqual([]);
+
+    const agents = await app.request(`/api/agents?directory=${encodeURIComponent(workspace)}`);
+    expect((await agents.json()).agents).toContainEqual({
+      id: "reviewer",
+      name: "reviewer",
+      mode: "subagent",
+      description: "Reviews diffs",
+    });
+  });
+
+  it("rejects invalid agents", async () => {
+    const app = await createApp();
+
+    const res = await put(app, {
+      directory: workspace,
+      agent: { ...reviewer, tools: ["teleport"] },
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Unknown tools: teleport");
+
+    const builtin = await put(app, { directory: workspace, agent: { ...reviewer, name: "build" } });
+    expect(builtin.status).toBe(400);
+  });
+
+  it("deletes an agent", async () => {
+    const app = await createApp();
+    await put(app, { directory: workspace, agent: reviewer });
+
+    const query = `directory=${encodeURIComponent(workspace)}&scope=workspace`;
+    const res = await app.request(`/api/agents/custom/reviewer?${query}`, { method: "DELETE" });
+    expect(res.status).toBe(200);
+
+    const missing = await app.request(`/api/agents/custom/reviewer?${query}`, {
+      method: "DELETE",
+    });
+    expect(missing.status).toBe(404);
+  });
+});
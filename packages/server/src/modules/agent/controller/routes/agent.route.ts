@@ -1,20 +1,103 @@
+import { errorMessage } from "@sakti-code/shared/errors";
 import { Hono } from "hono";
+import { z } from "zod";
+import type { Env } from "../../../../index.js";
+import { resolveDirectory } from "../../../../shared/controller/http/directory-resolver.js";
+import { zValidator } from "../../../../shared/controller/http/validators.js";
 import { buildAgentUsecases } from "../factory/agent.factory.js";
 
-type Env = {
-  Variables: {
-    requestId: string;
-    startTime: number;
-  };
-};
-
 const app = new Hono<Env>();
-const { listAgentsUsecase } = buildAgentUsecases();
+const {
+  listAgentsUsecase,
+  listCustomAgentsUsecase,
+  saveCustomAgentUsecase,
+  deleteCustomAgentUsecase,
+} = buildAgentUsecases();
+
+const scopeSchema = z.enum(["user", "workspace"]);
+const permissionActionSchema = z.enum(["allow", "deny", "ask"]);
 
-app.get("/api/agents", async c => {
+const directoryQuerySchema = z.object({
+  directory: z.string().optional(),
+});
+
+const deleteQuerySchema = z.object({
+  directory: z.string().optional(),
+  scope: scopeSchema.default("workspace"),
+});
+
+const saveSchema = z.object({
+  directory: z.string().optional(),
+  scope: scopeSchema.default("workspace"),
+  agent: z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    mode: z.enum(["primary", "subagent"]),
+    model: z.string().optional(),
+    temperature: z.number().optional(),
+    maxIterations: z.number().int().positive().optional(),
+    tools: z.array(z.string()).optional(),
+    permission: z
+      .record(
+        z.string(),
+        z.union([permissionActionSchema, z.record(z.string(), permissionActionSchema)])
+      )
+      .optional(),
+    systemPrompt: z.string().min(1),
+  }),
+});
+
+app.get("/api/agents", zValidator("query", directoryQuerySchema), async c => {
+  const resolution = resolveDirectory(c);
   return c.json({
-    agents: listAgentsUsecase(),
+    agents: await listAgentsUsecase(resolution.ok ? resolution.directory : undefined),
   });
 });
 
+app.get("/api/agents/custom", zValidator("query", directoryQuerySchema), async c => {
+  const resolution = resolveDirectory(c);
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  return c.json(await listCustomAgentsUsecase(resolution.directory));
+});
+
+app.put("/api/agents/custom", zValidator("json", saveSchema), async c => {
+  const body = c.req.valid("json");
+  const resolution = resolveDirectory(c, { directory: body.directory });
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  try {
+    // Tool names are checked against the tool registry by core
+    const agent = await saveCustomAgentUsecase(resolution.directory, body.scope, {
+      ...body.agent,
+      tools: body.agent.tools as Parameters<typeof saveCustomAgentUsecase>[2]["tools"],
+    });
+    return c.json({ agent });
+  } catch (error) {
+    return c.json({ error: errorMessage(error, "Invalid agent") }, 400);
+  }
+});
+
+app.delete("/api/agents/custom/:name", zValidator("query", deleteQuerySchema), async c => {
+  const query = c.req.valid("query");
+  const resolution = resolveDirectory(c);
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  const deleted = await deleteCustomAgentUsecase(
+    resolution.directory,
+    query.scope,
+    c.req.param("name")
+  );
+  if (!deleted) {
+    return c.json({ error: "Agent not found" }, 404);
+  }
+  return c.json({ success: true });
+});
+
 export const agentRoutes = app;
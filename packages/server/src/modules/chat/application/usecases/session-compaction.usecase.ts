@@ -0,0 +1,93 @@
+import { compactSession, getModelByReference, type CompactSessionResult } from "@sakti-code/core";
+import { Instance } from "@sakti-code/core/server";
+import { getSessionManager } from "../../../../app/runtime/session-manager.js";
+import { resolveOAuthAccessToken } from "../../../provider/infrastructure/provider/auth/oauth";
+import {
+  getProviderRuntime,
+  resolveChatSelection,
+} from "../../../provider/infrastructure/provider/runtime";
+
+export interface CompactSessionUsecaseInput {
+  sessionId: string;
+  providerId?: string;
+  modelId?: string;
+  /** Number of most recent messages to keep verbatim */
+  keepRecent?: number;
+}
+
+async function assertSessionIdle(sessionId: string): Promise<void> {
+  const controller = await getSessionManager().getSession(sessionId);
+  if (controller?.hasIncompleteWork()) {
+    throw new Error(`Session is busy: ${sessionId}`);
+  }
+}
+
+/**
+ * Summarize the older turns of a session into a checkpoint on demand
+ *
+ * The summary is written with the selected model, using the stored provider
+ * credential the same way a chat turn does.
+ */
+export async function compactSessionUsecase(
+  input: CompactSessionUsecaseInput
+): Promise<CompactSessionResult> {
+  await assertSessionIdle(input.sessionId);
+
+  const providerRuntime = getProviderRuntime();
+  const selection = resolveChatSelection({
+    providerId: input.providerId,
+    modelId: input.modelId,
+  });
+  const selectedModelId = selection.modelId.includes("/")
+    ? selection.modelId
+    : `${selection.providerId}/${selection.modelId}`;
+  const modelCatalog = await providerRuntime.modelCatalogService.list();
+  const selectedModel = modelCatalog.find(model => model.id === selectedModelId);
+  if (!selectedModel) {
+    throw new Error(`Unknown model: ${selectedModelId}`);
+  }
+
+  const providerId = selectedModel.providerId || selection.providerId;
+  const credential = await providerRuntime.authService.getCredential(providerId);
+  const token = credential
+    ? credential.kind === "oauth"
+      ? await resolveOAuthAccessToken(providerId, providerRuntime.authService)
+      : credential.token
+    : null;
+
+  const runtime = {
+    providerId,
+    modelId: selectedModel.id,
+    providerApiUrl: selectedModel.providerApiUrl,
+    providerNpmPackage: selectedModel.providerNpmPackage,
+    apiKey: token ?? undefined,
+    contextWindow: selectedModel.contextWindow,
+  };
+  const run = () =>
+    compactSession({
+      threadId: input.sessionId,
+      model: getModelByReference(selectedModel.id),
+      keepRecent: input.keepRecent,
+    });
+
+  // The model reads the credential from the Instance context; the compact
+  // route has none, so provide one
+  if (!Instance.inContext) {
+    return Instance.provide({
+      directory: process.cwd(),
+      sessionID: input.sessionId,
+      init: async context => {
+        context.providerRuntime = runtime;
+      },
+      fn: run,
+    });
+  }
+
+  const previousRuntime = Instance.context.providerRuntime;
+  Instance.context.providerRuntime = runtime;
+  try {
+    return await run();
+  } finally {
+    Instance.context.providerRuntime = previousRuntime;
+  }
+}
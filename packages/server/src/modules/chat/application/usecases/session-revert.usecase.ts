@@ -0,0 +1,174 @@
+import { SessionSnapshot, isCompactionCheckpoint, messageStorage } from "@sakti-code/core";
+import type { Message } from "@sakti-code/core/chat";
+import { getSessionManager } from "../../../../app/runtime/session-manager.js";
+import { MessagePartUpdated, MessageRemoved, MessageUpdated, publish } from "../../../../bus";
+import {
+  discardRevertedMessages,
+  restoreRevertedMessages,
+  revertMessages,
+  showMessages,
+} from "../../infrastructure/session-message-store.js";
+
+/** Most persisted messages read back when reverting a session after a restart */
+const PERSISTED_MESSAGE_LIMIT = 10000;
+
+export interface SessionRevertState {
+  /** First reverted message; the session reads as if it ended just before it */
+  messageID: string;
+  messageIDs: string[];
+  files: string[];
+}
+
+export interface RevertSessionInput {
+  sessionId: string;
+  messageId: string;
+}
+
+function createdAt(message: Message): number | undefined {
+  const time = (message.info as { time?: { created?: unknown } }).time;
+  return typeof time?.created === "number" ? time.created : undefined;
+}
+
+async function assertSessionIdle(sessionId: string): Promise<void> {
+  const controller = await getSessionManager().getSession(sessionId);
+  if (controller?.hasIncompleteWork()) {
+    throw new Error(`Session is busy: ${sessionId}`);
+  }
+}
+
+/**
+ * Read a session's persisted history from a message onward
+ *
+ * The live message store does not survive a restart, so a revert falls back
+ * to the stored messages. Returns null when the message is not stored for
+ * the session.
+ */
+async function loadPersistedMessages(
+  sessionId: string,
+  messageId: string
+): Promise<Message[] | null> {
+  const target = await messageStorage.getMessage(messageId);
+  if (!target || target.thread_id !== sessionId) return null;
+
+  const stored = await messageStorage.listMessages({
+    threadId: sessionId,
+    since: target.created_at,
+    limit: PERSISTED_MESSAGE_LIMIT,
+  });
+  return stored
+    .filter(message => !isCompactionCheckpoint(message))
+    .map(message => ({
+      info: {
+        role: message.role === "user" ? "user" : "assistant",
+        id: message.id,
+        sessionID: sessionId,
+        time: { created: message.created_at.getTime() },
+      },
+      parts: [
+        {
+          id: `${message.id}-text`,
+          sessionID: sessionId,
+          messageID: message.id,
+          type: "text",
+          text: message.raw_content,
+        },
+      ],
+    }));
+}
+
+export async function getSessionRevertUsecase(
+  sessionId: string
+): Promise<SessionRevertState | null> {
+  const revert = await SessionSnapshot.getRevert(sessionId);
+  const [first] = revert?.messageIDs ?? [];
+  if (!revert || !first) return null;
+  return { messageID: first, messageIDs: revert.messageIDs, files: revert.files };
+}
+
+/**
+ * Roll the session back to just before a message: restore the files changed
+ * since then and hide that message and everything after it
+ */
+export async function revertSessionUsecase(input: RevertSessionInput): Promise<SessionRevertState> {
+  await assertSessionIdle(input.sessionId);
+
+  const live = revertMessages({ sessionID: input.sessionId, messageID: input.messageId });
+  const reverted = live ?? (await loadPersistedMessages(input.sessionId, input.messageId));
+  if (!reverted || reverted.length === 0) {
+    throw new Error(`Message not found: ${input.messageId}`);
+  }
+
+  const messageIDs = reverted.map(message => message.info.id);
+  const since = createdAt(reverted[0]!);
+  const [cutoff] =
+    since === undefined
+      ? []
+      : await messageStorage.listMessages({
+          threadId: input.sessionId,
+          since: new Date(since),
+          limit: 1,
+        });
+  const snapshot = await SessionSnapshot.revert({
+    sessionID: input.sessionId,
+    messageIDs,
+    cutoffMessageID: cutoff?.id,
+    messages: reverted,
+    // Turn snapshots are keyed by live message IDs, so match stored messages by time
+    since: live ? undefined : since,
+  });
+
+  for (const messageID of messageIDs) {
+    await publish(MessageRemoved, { sessionID: input.sessionId, messageID });
+  }
+
+  return { messageID: input.messageId, messageIDs, files: snapshot.files };
+}
+
+/**
+ * Undo the active revert: reapply its file changes and show its messages again
+ */
+export async function redoSessionUsecase(sessionId: string): Promise<SessionRevertState | null> {
+  await assertSessionIdle(sessionId);
+
+  const snapshot = await SessionSnapshot.redo(sessionId);
+  let restored = restoreRevertedMessages(sessionId);
+  if (restored.length === 0 && snapshot) {
+    // The live store lost the hidden messages with a restart
+    restored = snapshot.messages;
+    showMessages(restored);
+  }
+  if (!snapshot && restored.length === 0) return null;
+
+  for (const message of restored) {
+    await publish(MessageUpdated, { info: message.info });
+    for (const part of message.parts) {
+      await publish(MessagePartUpdated, { part });
+    }
+  }
+
+  return {
+    messageID: restored[0]?.info.id ?? snapshot?.messageIDs[0] ?? "",
+    messageIDs: restored.map(message => message.info.id),
+    files: snapshot?.files ?? [],
+  };
+}
+
+/**
+ * Make the active revert permanent before new work starts on the session
+ *
+ * Drops the hidden messages, their file snapshots and the persisted messages
+ * from the cutoff recorded with the revert onward.
+ */
+export async function commitSessionRevertUsecase(sessionId: string): Promise<string[]> {
+  const discarded = discardRevertedMessages(sessionId);
+  const revert = await SessionSnapshot.commitRevert(sessionId);
+
+  const cutoff = revert?.cutoffMessageID
+    ? await messageStorage.getMessage(revert.cutoffMessageID)
+    : null;
+  if (cutoff) {
+    await messageStorage.deleteMessagesSince(cutoff.thread_id, cutoff.created_at);
+  }
+
+  return revert?.messageIDs ?? discarded.map(message => message.info.id);
+}
@@ -1,6 +1,28 @@
 import { createChatService } from "../../application/services/chat.service.js";
+import { compactSessionUsecase } from "../../application/usecases/session-compaction.usecase.js";
+import {
+  commitSessionRevertUsecase,
+  getSessionRevertUsecase,
+  redoSessionUsecase,
+  revertSessionUsecase,
+} from "../../application/usecases/session-revert.usecase.js";
 import { chatSessionRepository } from "../../infrastructure/repositories/chat-session.repository.drizzle.js";
 
 export function buildChatService() {
   return createChatService(chatSessionRepository);
 }
+
+export function buildSessionRevertUsecases() {
+  return {
+    commitSessionRevertUsecase,
+    getSessionRevertUsecase,
+    redoSessionUsecase,
+    revertSessionUsecase,
+  };
+}
+
+export function buildSessionCompactionUsecases() {
+  return {
+    compactSessionUsecase,
+  };
+}
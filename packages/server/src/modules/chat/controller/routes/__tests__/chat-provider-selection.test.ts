@@ -34,6 +34,10 @@ describe("chat provider selection", () => {
       workingMemory: dbModule.workingMemory,
       reflections: dbModule.reflections,
       observationalMemory: dbModule.observationalMemory,
+      memoryEmbeddings: dbModule.memoryEmbeddings,
+      memoryPins: dbModule.memoryPins,
+      memoryLinks: dbModule.memoryLinks,
+      memoryResourceSettings: dbModule.memoryResourceSettings,
       toolSessions: dbModule.toolSessions,
     });
     const busModule = await import("@/bus/index");
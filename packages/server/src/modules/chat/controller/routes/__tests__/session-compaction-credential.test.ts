@@ -0,0 +1,132 @@
+/**
+ * Session compaction credential tests
+ *
+ * Runs a real compaction through the route, against a local OpenAI-compatible
+ * endpoint, to check the stored provider credential reaches the model even
+ * though the compact route has no Instance context.
+ */
+
+import { Hono } from "hono";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { v7 as uuidv7 } from "uuid";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { db, messages, threads } from "../../../../../../db";
+
+const catalog: Array<Record<string, unknown>> = [];
+
+vi.mock("../../../../../app/runtime/session-manager.js", () => ({
+  getSessionManager: () => ({
+    async getSession() {
+      return { hasIncompleteWork: () => false };
+    },
+  }),
+}));
+
+vi.mock("../../../../provider/infrastructure/provider/runtime", async importOriginal => ({
+  ...(await importOriginal<
+    typeof import("../../../../provider/infrastructure/provider/runtime")
+  >()),
+  getProviderRuntime: () => ({
+    modelCatalogService: { list: async () => catalog },
+    authService: {
+      getCredential: async () => ({ kind: "api", token: "stored-api-key" }),
+    },
+  }),
+}));
+
+const { default: sessionCompactionRoutes } = await import("../session-compaction.route");
+
+describe("Session compaction credentials", () => {
+  let server: Server;
+  let authorizations: Array<string | undefined>;
+  let sessionID: string;
+
+  beforeEach(async () => {
+    authorizations = [];
+    server = createServer((req, res) => {
+      authorizations.push(req.headers.authorization);
+      req.resume();
+      req.on("end", () => {
+        res.setHeader("Content-Type", "application/json");
+        res.end(
+          JSON.stringify({
+            id: "chatcmpl-1",
+            object: "chat.completion",
+            created: 0,
+            model: "summarizer",
+            choices: [
+              {
+                index: 0,
+                message: {
+                  role: "assistant",
+                  content: "<observations>User set up the parser.</observations>",
+                },
+                finish_reason: "stop",
+              },
+            ],
+            usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+          })
+        );
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    catalog.length = 0;
+    catalog.push({
+      id: "compaction-test/summarizer",
+      providerId: "compaction-test",
+      providerApiUrl: `http://127.0.0.1:${port}/v1`,
+      providerNpmPackage: "@ai-sdk/openai-compatible",
+      contextWindow: 128000,
+    });
+
+    sessionID = uuidv7();
+    const now = Date.now();
+    await db.insert(threads).values({
+      id: sessionID,
+      resource_id: "local",
+      title: "Compaction",
+      created_at: new Date(now),
+      updated_at: new Date(now),
+    });
+    for (const [index, text] of ["Set up a parser", "Parser added", "Thanks"].entries()) {
+      await db.insert(messages).values({
+        id: `${sessionID}-${index}`,
+        thread_id: sessionID,
+        role: index % 2 === 0 ? "user" : "assistant",
+        raw_content: text,
+        search_text: text,
+        injection_text: text,
+        created_at: new Date(now + index),
+        message_index: index,
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("summarizes with the stored credential outside an Instance context", async () => {
+    const app = new Hono();
+    app.route("/", sessionCompactionRoutes);
+
+    const response = await app.request(`/api/chat/${sessionID}/compact`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        providerId: "compaction-test",
+        modelId: "compaction-test/summarizer",
+        keepRecent: 1,
+      }),
+    });
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.compaction).toMatchObject({ compacted: 2, summary: "User set up the parser." });
+    expect(authorizations.length).toBeGreaterThan(0);
+    expect(authorizations.every(header => header === "Bearer stored-api-key")).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Session compaction route tests
+ *
+ * Covers the manual compaction trigger: model resolution, busy sessions and
+ * the compaction result returned to the client.
+ */
+
+import { Hono } from "hono";
+import { v7 as uuidv7 } from "uuid";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const busy = new Set<string>();
+const compactSessionMock = vi.fn();
+
+vi.mock("../../../../../app/runtime/session-manager.js", () => ({
+  getSessionManager: () => ({
+    async getSession(sessionId: string) {
+      return { hasIncompleteWork: () => busy.has(sessionId) };
+    },
+  }),
+}));
+
+vi.mock("@sakti-code/core", async importOriginal => ({
+  ...(await importOriginal<typeof import("@sakti-code/core")>()),
+  compactSession: compactSessionMock,
+  getModelByReference: vi.fn((reference: string) => ({ reference })),
+}));
+
+vi.mock("../../../../provider/infrastructure/provider/runtime", async importOriginal => ({
+  ...(await importOriginal<
+    typeof import("../../../../provider/infrastructure/provider/runtime")
+  >()),
+  getProviderRuntime: () => ({
+    modelCatalogService: {
+      list: async () => [{ id: "zai/glm-4.7", providerId: "zai", contextWindow: 128000 }],
+    },
+    authService: {
+      getCredential: async () => null,
+    },
+  }),
+}));
+
+const { default: sessionCompactionRoutes } = await import("../session-compaction.route");
+
+describe("Session compaction routes", () => {
+  let app: Hono;
+  let sessionID: string;
+
+  beforeEach(() => {
+    app = new Hono();
+    app.route("/", sessionCompactionRoutes);
+    sessionID = uuidv7();
+    compactSessionMock.mockResolvedValue({
+      checkpointId: "checkpoint-1",
+      summary: "User set up the parser.",
+      compacted: 4,
+      reflected: false,
+      tokensBefore: 900,
+      tokensAfter: 120,
+    });
+  });
+
+  afterEach(() => {
+    busy.clear();
+    vi.clearAllMocks();
+  });
+
+  function compact(body: Record<string, unknown> = {}) {
+    return app.request(`/api/chat/${sessionID}/compact`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("compacts the session with the selected model", async () => {
+    const response = await compact({ providerId: "zai", modelId: "zai/glm-4.7", keepRecent: 2 });
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.sessionID).toBe(sessionID);
+    expect(data.compaction).toMatchObject({ checkpointId: "checkpoint-1", compacted: 4 });
+    expect(compactSessionMock).toHaveBeenCalledWith({
+      threadId: sessionID,
+      model: { reference: "zai/glm-4.7" },
+      keepRecent: 2,
+    });
+  });
+
+  it("rejects unknown models", async () => {
+    const response = await compact({ providerId: "zai", modelId: "zai/missing" });
+
+    expect(response.status).toBe(400);
+    expect(compactSessionMock).not.toHaveBeenCalled();
+  });
+
+  it("refuses to compact while the agent is working", async () => {
+    busy.add(sessionID);
+
+    const response = await compact();
+
+    expect(response.status).toBe(409);
+    expect(compactSessionMock).not.toHaveBeenCalled();
+  });
+});
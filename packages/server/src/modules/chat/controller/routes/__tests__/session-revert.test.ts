@@ -0,0 +1,210 @@
+/**
+ * Session revert route tests
+ *
+ * Covers undo/redo of agent turns: file restoration from snapshots and
+ * hiding/restoring the reverted messages.
+ */
+
+import { SessionSnapshot, messageStorage } from "@sakti-code/core";
+import { Instance } from "@sakti-code/core/server";
+import { Hono } from "hono";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { v7 as uuidv7 } from "uuid";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { db, threads } from "../../../../../../db";
+
+const busy = new Set<string>();
+
+vi.mock("../../../../../app/runtime/session-manager.js", () => ({
+  getSessionManager: () => ({
+    async getSession(sessionId: string) {
+      return { hasIncompleteWork: () => busy.has(sessionId) };
+    },
+  }),
+}));
+
+const { clearSessionStore, getSessionMessages, upsertMessage, upsertPart } =
+  await import("../../../infrastructure/session-message-store");
+const { default: sessionRevertRoutes } = await import("../session-revert.route");
+const { commitSessionRevertUsecase } =
+  await import("../../../application/usecases/session-revert.usecase");
+
+describe("Session revert routes", () => {
+  let app: Hono;
+  let workspace: string;
+  let sessionID: string;
+  let userId: string;
+  let assistantId: string;
+
+  beforeEach(async () => {
+    app = new Hono();
+    app.route("/", sessionRevertRoutes);
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "session-revert-"));
+    sessionID = uuidv7();
+    userId = uuidv7();
+    assistantId = uuidv7();
+
+    upsertMessage({ role: "user", id: userId, sessionID, time: { created: 1000 } });
+    upsertPart({
+      id: `${userId}-text`,
+      sessionID,
+      messageID: userId,
+      type: "text",
+      text: "rewrite a.txt",
+    });
+    upsertMessage({ role: "assistant", id: assistantId, sessionID, time: { created: 2000 } });
+
+    const target = path.join(workspace, "a.txt");
+    await fs.writeFile(target, "before");
+    await Instance.provide({
+      directory: workspace,
+      sessionID,
+      messageID: assistantId,
+      fn: async () => {
+        await SessionSnapshot.track(target);
+        await fs.writeFile(target, "after");
+      },
+    });
+  });
+
+  afterEach(async () => {
+    busy.clear();
+    clearSessionStore();
+    await SessionSnapshot.remove(sessionID);
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  function post(url: string, body?: unknown) {
+    return app.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  }
+
+  it("reverts files and hides the turn, then redoes it", async () => {
+    const revertRes = await post(`/api/chat/${sessionID}/revert`, { messageID: userId });
+    expect(revertRes.status).toBe(200);
+    const { revert } = await revertRes.json();
+    expect(revert).toEqual({
+      messageID: userId,
+      messageIDs: [userId, assistantId],
+      files: [path.join(workspace, "a.txt")],
+    });
+    expect(await fs.readFile(path.join(workspace, "a.txt"), "utf-8")).toBe("before");
+    expect(getSessionMessages(sessionID)).toEqual([]);
+
+    const stateRes = await app.request(`/api/chat/${sessionID}/revert`);
+    expect((await stateRes.json()).revert.messageIDs).toEqual([userId, assistantId]);
+
+    const redoRes = await post(`/api/chat/${sessionID}/redo`);
+    expect(redoRes.status).toBe(200);
+    expect(await fs.readFile(path.join(workspace, "a.txt"), "utf-8")).toBe("after");
+    expect(getSessionMessages(sessionID).map(message => message.info.id)).toEqual([
+      userId,
+      assistantId,
+    ]);
+    expect(getSessionMessages(sessionID)[0]?.parts).toHaveLength(1);
+  });
+
+  it("returns 404 for unknown messages and when there is nothing to redo", async () => {
+    const revertRes = await post(`/api/chat/${sessionID}/revert`, { messageID: "missing" });
+    expect(revertRes.status).toBe(404);
+
+    const redoRes = await post(`/api/chat/${sessionID}/redo`);
+    expect(redoRes.status).toBe(404);
+  });
+
+  it("refuses to revert a busy session", async () => {
+    busy.add(sessionID);
+
+    const res = await post(`/api/chat/${sessionID}/revert`, { messageID: userId });
+
+    expect(res.status).toBe(409);
+    expect(await fs.readFile(path.join(workspace, "a.txt"), "utf-8")).toBe("after");
+  });
+
+  it("makes the revert permanent when committed", async () => {
+    await post(`/api/chat/${sessionID}/revert`, { messageID: assistantId });
+
+    expect(await commitSessionRevertUsecase(sessionID)).toEqual([assistantId]);
+
+    const redoRes = await post(`/api/chat/${sessionID}/redo`);
+    expect(redoRes.status).toBe(404);
+    expect(getSessionMessages(sessionID).map(message => message.info.id)).toEqual([userId]);
+    expect(await fs.readFile(path.join(workspace, "a.txt"), "utf-8")).toBe("before");
+  });
+
+  it("reverts from persisted messages and redoes after a restart", async () => {
+    await db.insert(threads).values({
+      id: sessionID,
+      resource_id: "local",
+      title: "Revert",
+      created_at: new Date(0),
+      updated_at: new Date(0),
+    });
+    const base = Date.now() - 60_000;
+    for (const [index, role] of (["user", "assistant"] as const).entries()) {
+      await messageStorage.createMessage({
+        id: `${sessionID}-${index}`,
+        threadId: sessionID,
+        role,
+        rawContent: `turn ${index}`,
+        createdAt: base + index,
+        messageIndex: index,
+      });
+    }
+    const storedIds = [`${sessionID}-0`, `${sessionID}-1`];
+
+    // The live store starts empty after a restart
+    clearSessionStore();
+    const revertRes = await post(`/api/chat/${sessionID}/revert`, { messageID: storedIds[0] });
+    expect(revertRes.status).toBe(200);
+    expect((await revertRes.json()).revert).toMatchObject({
+      messageID: storedIds[0],
+      messageIDs: storedIds,
+    });
+    expect(await fs.readFile(path.join(workspace, "a.txt"), "utf-8")).toBe("before");
+
+    clearSessionStore();
+    const stateRes = await app.request(`/api/chat/${sessionID}/revert`);
+    expect((await stateRes.json()).revert.messageIDs).toEqual(storedIds);
+
+    const redoRes = await post(`/api/chat/${sessionID}/redo`);
+    expect(redoRes.status).toBe(200);
+    expect(await fs.readFile(path.join(workspace, "a.txt"), "utf-8")).toBe("after");
+    expect(getSessionMessages(sessionID).map(message => message.info.id)).toEqual(storedIds);
+  });
+
+  it("drops persisted messages from the revert cutoff even after a restart", async () => {
+    await db.insert(threads).values({
+      id: sessionID,
+      resource_id: "local",
+      title: "Revert",
+      created_at: new Date(0),
+      updated_at: new Date(0),
+    });
+    for (const [index, created] of [1500, 2500, 3000].entries()) {
+      await messageStorage.createMessage({
+        id: `${sessionID}-${index}`,
+        threadId: sessionID,
+        role: index % 2 === 0 ? "user" : "assistant",
+        rawContent: `turn ${index}`,
+        createdAt: created,
+        messageIndex: index,
+      });
+    }
+
+    await post(`/api/chat/${sessionID}/revert`, { messageID: assistantId });
+    expect((await SessionSnapshot.getRevert(sessionID))?.cutoffMessageID).toBe(`${sessionID}-1`);
+
+    // The hidden messages are only held in memory and do not survive a restart
+    clearSessionStore();
+    await commitSessionRevertUsecase(sessionID);
+
+    const remaining = await messageStorage.listMessages({ threadId: sessionID });
+    expect(remaining.map(message => message.id)).toEqual([`${sessionID}-0`]);
+  });
+});
@@ -19,18 +19,27 @@ import { MessagePartUpdated, MessageUpdated, publish, SessionStatus } from "../.
 import type { Env } from "../../../../index.js";
 import { createSessionMessage, sessionBridge } from "../../../../middleware/session-bridge";
 import { zValidator } from "../../../../shared/controller/http/validators.js";
+import { buildCommandUsecases } from "../../../command/controller/factory/command.factory.js";
 import { resolveOAuthAccessToken } from "../../../provider/infrastructure/provider/auth/oauth";
 import { normalizeProviderError } from "../../../provider/infrastructure/provider/errors";
 import {
   getProviderRuntime,
   resolveChatSelection,
 } from "../../../provider/infrastructure/provider/runtime";
+import { buildTaskRunUsecases } from "../../../task-runs/controller/factory/task-runs.factory.js";
+import { buildUsageUsecases } from "../../../usage/controller/factory/usage.factory.js";
+import type { UsageTokens } from "../../../usage/domain/repositories/usage.repository.js";
 import { getSessionMessages } from "../../infrastructure/session-message-store";
-import { buildChatService } from "../factory/chat.factory.js";
+import { buildChatService, buildSessionRevertUsecases } from "../factory/chat.factory.js";
+import { chatMessageSchema } from "../schemas/chat.schema.js";
 
 const app = new Hono<Env>();
 const logger = createLogger("server");
 const { maybeAssignAutoSessionTitle, persistRuntimeMode } = buildChatService();
+const { commitSessionRevertUsecase } = buildSessionRevertUsecases();
+const { runCommandUsecase } = buildCommandUsecases();
+const { loadUsageBudget, startUsageTrackingUsecase } = buildUsageUsecases();
+const { getTaskRunByIdUsecase } = buildTaskRunUsecases();
 
 // Apply session bridge middleware only to chat endpoints.
 app.use("/api/chat", sessionBridge);
@@ -258,45 +267,6 @@ function createToolActions(toolName: string, args: Record<string, unknown>): Age
   return actions;
 }
 
-/**
- * Schema for multimodal chat messages
- *
- * Supports:
- * - Simple text messages
- * - Messages with image URLs
- * - Messages with base64-encoded images
- *
- * @example
- * // Simple text message
- * { message: "Hello" }
- *
- * // Multimodal message with image
- * { message: [{ type: "text", text: "What is this?" }, { type: "image", url: "..." }] }
- */
-const chatMessageSchema = z.object({
-  message: z.union([
-    z.string(), // Simple text message
-    z.object({
-      // Multimodal message with content parts
-      content: z.array(
-        z.object({
-          type: z.enum(["text", "image", "image_url", "file"]),
-          text: z.string().optional(),
-          url: z.string().optional(),
-          image: z.union([z.string(), z.object({ url: z.string() })]).optional(),
-          mediaType: z.string().optional(),
-        })
-      ),
-    }),
-  ]),
-  messageId: z.string().optional(),
-  retryOfAssistantMessageId: z.string().optional(),
-  providerId: z.string().optional(),
-  modelId: z.string().optional(),
-  runtimeMode: z.enum(["intake", "plan", "build"]).optional(),
-  stream: z.boolean().optional().default(true),
-});
-
 // Export for validation use in middleware
 export { chatMessageSchema };
 
@@ -374,6 +344,27 @@ function requestHasImageContent(rawMessage: unknown): boolean {
   });
 }
 
+/**
+ * Read the token counts of a step-finish event, defaulting missing fields to 0
+ */
+function readStepTokens(value: unknown): UsageTokens {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const rawCache =
+    raw.cache && typeof raw.cache === "object" ? (raw.cache as Record<string, unknown>) : {};
+  const toNumber = (entry: unknown) =>
+    typeof entry === "number" && Number.isFinite(entry) ? entry : 0;
+
+  return {
+    input: toNumber(raw.input),
+    output: toNumber(raw.output),
+    reasoning: toNumber(raw.reasoning),
+    cache: {
+      read: toNumber(rawCache.read),
+      write: toNumber(rawCache.write),
+    },
+  };
+}
+
 export function createPartPublishState(): PartPublishState {
   return {
     reasoning: new Map(),
@@ -541,16 +532,8 @@ export async function publishPartEvent(
 
     case "step-finish": {
       await finalizeTextPart();
-      const rawTokens =
-        event.tokens && typeof event.tokens === "object"
-          ? (event.tokens as Record<string, unknown>)
-          : {};
-      const rawCache =
-        rawTokens.cache && typeof rawTokens.cache === "object"
-          ? (rawTokens.cache as Record<string, unknown>)
-          : {};
-      const toNumber = (value: unknown) =>
-        typeof value === "number" && Number.isFinite(value) ? value : 0;
+      const tokens = readStepTokens(event.tokens);
+      const cost = typeof event.cost === "number" && Number.isFinite(event.cost) ? event.cost : 0;
 
       await publish(MessagePartUpdated, {
         part: {
@@ -560,18 +543,31 @@ export async function publishPartEvent(
           type: "step-finish",
           reason: String(event.reason ?? "stop"),
           snapshot: typeof event.snapshot === "string" ? event.snapshot : undefined,
-          cost: toNumber(event.cost),
-          tokens: {
-            input: toNumber(rawTokens.input),
-            output: toNumber(rawTokens.output),
-            reasoning: toNumber(rawTokens.reasoning),
-            cache: {
-              read: toNumber(rawCache.read),
-              write: toNumber(rawCache.write),
-            },
-          },
+          cost,
+          tokens,
         },
       });
+
+      // Keep the message's running totals current for clients
+      const total = assistantInfo.tokens ?? {
+        input: 0,
+        output: 0,
+        reasoning: 0,
+        cache: { read: 0, write: 0 },
+      };
+      assistantInfo.cost = (assistantInfo.cost ?? 0) + cost;
+      assistantInfo.tokens = {
+        input: total.input + tokens.input,
+        output: total.output + tokens.output,
+        reasoning: total.reasoning + tokens.reasoning,
+        cache: {
+          read: total.cache.read + tokens.cache.read,
+          write: total.cache.write + tokens.cache.write,
+        },
+      };
+      await publish(MessageUpdated, {
+        info: cloneAssistantInfo(assistantInfo),
+      });
       break;
     }
 
@@ -725,6 +721,39 @@ export async function publishPartEvent(
       break;
     }
 
+    case "hook": {
+      await finalizeTextPart();
+      const command = String(event.command ?? "");
+      const outcome = event.outcome;
+      if (!command || (outcome !== "success" && outcome !== "blocked" && outcome !== "error")) {
+        break;
+      }
+
+      const end = Date.now();
+      const durationMs =
+        typeof event.durationMs === "number" && Number.isFinite(event.durationMs)
+          ? event.durationMs
+          : 0;
+      await publish(MessagePartUpdated, {
+        part: {
+          id: uuidv7(),
+          sessionID: sessionId,
+          messageID: messageId,
+          type: "hook",
+          event: String(event.hookEvent ?? ""),
+          command,
+          toolName: typeof event.toolName === "string" ? event.toolName : undefined,
+          toolCallID: typeof event.toolCallId === "string" ? event.toolCallId : undefined,
+          outcome,
+          exitCode: typeof event.exitCode === "number" ? event.exitCode : null,
+          output: typeof event.output === "string" ? event.output : "",
+          error: typeof event.error === "string" ? event.error : undefined,
+          time: { start: end - durationMs, end },
+        },
+      });
+      break;
+    }
+
     case "retry": {
       await finalizeTextPart();
       const attempt =
@@ -879,10 +908,6 @@ app.post("/api/chat", zValidator("json", chatMessageSchema), async c => {
       : undefined;
   const shouldStream = body.stream !== false;
   const runtimeMode = body.runtimeMode;
-  const selection = resolveChatSelection({
-    providerId: body.providerId,
-    modelId: body.modelId,
-  });
 
   // Parse message - support both simple string and multimodal formats
   let messageText = "";
@@ -976,6 +1001,38 @@ app.post("/api/chat", zValidator("json", chatMessageSchema), async c => {
     return c.json({ error: "No workspace directory" }, 400);
   }
 
+  let commandRun: Awaited<ReturnType<typeof runCommandUsecase>> | undefined;
+  if (body.command) {
+    try {
+      commandRun = await runCommandUsecase({
+        directory,
+        name: body.command.name,
+        arguments: body.command.arguments,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return c.json({ error: message }, message.startsWith("Unknown command:") ? 404 : 400);
+    }
+    messageText = commandRun.prompt;
+  }
+
+  // A command that names a model runs on it regardless of the selected one
+  const selection = resolveChatSelection(
+    commandRun?.modelId
+      ? { providerId: commandRun.providerId ?? body.providerId, modelId: commandRun.modelId }
+      : { providerId: body.providerId, modelId: body.modelId }
+  );
+
+  // Sending a new message makes an active undo permanent
+  const committedRevert = await commitSessionRevertUsecase(session.taskSessionId);
+  if (committedRevert.length > 0) {
+    logger.info("Committed session revert", {
+      module: "chat",
+      sessionId: session.taskSessionId,
+      messages: committedRevert.length,
+    });
+  }
+
   const providerRuntime = getProviderRuntime();
   const modelCatalog = await providerRuntime.modelCatalogService.list();
   const selectedModelId = selection.modelId.includes("/")
@@ -1061,6 +1118,18 @@ app.post("/api/chat", zValidator("json", chatMessageSchema), async c => {
     );
   }
 
+  let usageBudget: Awaited<ReturnType<typeof loadUsageBudget>>;
+  try {
+    usageBudget = await loadUsageBudget();
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, 400);
+  }
+
+  // Durable task runs pass their ID so usage can be totalled per run
+  const taskRunIdHeader = c.req.header("X-Task-Run-ID");
+  const taskRun = taskRunIdHeader ? await getTaskRunByIdUsecase(taskRunIdHeader) : null;
+  const taskRunId = taskRun?.taskSessionId === session.taskSessionId ? taskRun.runId : null;
+
   logger.debug("Getting or creating session controller", {
     module: "chat",
     directory,
@@ -1210,8 +1279,8 @@ app.post("/api/chat", zValidator("json", chatMessageSchema), async c => {
           info: cloneAssistantInfo(assistantInfo),
         });
 
-        // Check if selected provider is configured
-        if (!storedCredential) {
+        // Check if selected provider is configured; keyless providers need no credential
+        if (!storedCredential && authState.status !== "connected") {
           logger.error("No AI provider configured", undefined, {
             module: "chat",
             sessionId: session.taskSessionId,
@@ -1227,6 +1296,35 @@ app.post("/api/chat", zValidator("json", chatMessageSchema), async c => {
           return;
         }
 
+        const { tracker: usageTracker, exceeded: exceededAtStart } =
+          await startUsageTrackingUsecase({
+            messageId,
+            sessionId: session.taskSessionId,
+            workspaceId: session.workspaceId,
+            runId: taskRunId,
+            providerId: selectedProviderId,
+            modelId: selectedModel.id,
+            pricing: selectedModel.pricing,
+            budget: usageBudget,
+          });
+        if (exceededAtStart) {
+          logger.warn("Usage budget exhausted before run", {
+            module: "chat",
+            sessionId: session.taskSessionId,
+            reason: exceededAtStart,
+          });
+          writeStreamEvent({
+            type: "error",
+            errorText: exceededAtStart,
+          });
+          writeStreamEvent({
+            type: "finish",
+            finishReason: "error",
+          });
+          return;
+        }
+        let budgetExceeded: string | null = null;
+
         logger.info("Starting agent execution", {
           module: "chat",
           sessionId: session.taskSessionId,
@@ -1346,9 +1444,32 @@ app.post("/api/chat", zValidator("json", chatMessageSchema), async c => {
             status: { type: "busy" },
           });
 
+          // Price each step, and stop the run once it goes over budget
+          const recordStepUsage = (event: {
+            type: string;
+            [key: string]: unknown;
+          }): { type: string; [key: string]: unknown } => {
+            const step = usageTracker.recordStep(readStepTokens(event.tokens));
+            if (step.exceeded && !budgetExceeded) {
+              budgetExceeded = step.exceeded;
+              logger.warn("Usage budget exceeded, stopping run", {
+                module: "chat",
+                sessionId: session.taskSessionId,
+                reason: step.exceeded,
+              });
+              controller.abort();
+            }
+            return { ...event, cost: step.cost };
+          };
+
           const processAgentMessage = () =>
             controller.processMessage(messageText, {
-              onEvent: event => {
+              agent: commandRun?.agent ?? body.agent,
+              allowedTools: commandRun?.allowedTools,
+              messageIds: { user: userMessageId, assistant: messageId },
+              onEvent: rawEvent => {
+                const event =
+                  rawEvent.type === "step-finish" ? recordStepUsage(rawEvent) : rawEvent;
                 // Publish Opencode-style part event to Bus (for SSE streaming)
                 queuePartEvent(event);
 
@@ -1667,12 +1788,16 @@ app.post("/api/chat", zValidator("json", chatMessageSchema), async c => {
               : null;
 
             const previousRuntime = Instance.context.providerRuntime;
+            const previousMessageId = Instance.context.messageID;
+            // File snapshots taken by tools are keyed by the assistant message
+            Instance.context.messageID = messageId;
             Instance.context.providerRuntime = {
               providerId: selectedProviderId,
               modelId: selectedModel.id,
               providerApiUrl: selectedModel.providerApiUrl,
               providerNpmPackage: selectedModel.providerNpmPackage,
               apiKey: token ?? undefined,
+              contextWindow: selectedModel.contextWindow,
               hybridVisionEnabled: shouldUseHybridFallback,
               hybridVisionProviderId,
               hybridVisionModelId: hybridVisionModel?.id,
@@ -1700,9 +1825,27 @@ app.post("/api/chat", zValidator("json", chatMessageSchema), async c => {
               return processResult;
             } finally {
               Instance.context.providerRuntime = previousRuntime;
+              Instance.context.messageID = previousMessageId;
             }
           })();
           await partPublishQueue;
+          await usageTracker.flush();
+
+          if (budgetExceeded) {
+            writeStreamEvent({
+              type: "error",
+              errorText: budgetExceeded,
+            });
+            await publish(MessagePartUpdated, {
+              part: {
+                id: uuidv7(),
+                sessionID: session.taskSessionId,
+                messageID: messageId,
+                type: "error",
+                message: budgetExceeded,
+              },
+            });
+          }
 
           if (result.status === "failed") {
             logger.error("Agent execution failed", undefined, {
@@ -1,2 +1,4 @@
 export { default as chatRoutes } from "./chat.route.js";
+export { default as sessionCompactionRoutes } from "./session-compaction.route.js";
 export { default as sessionDataRoutes } from "./session-data.route.js";
+export { default as sessionRevertRoutes } from "./session-revert.route.js";
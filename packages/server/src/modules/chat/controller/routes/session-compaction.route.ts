@@ -0,0 +1,65 @@
+/**
+ * Session Compaction API - manual context compaction
+ *
+ * Summarizes the older turns of a session into a checkpoint so the agent
+ * works from the summary instead of the full history. Compaction also runs on
+ * its own when the history nears the model's context window.
+ *
+ * - POST /api/chat/:sessionId/compact - compact with { providerId?, modelId?, keepRecent? }
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { Hono } from "hono";
+import { z } from "zod";
+import type { Env } from "../../../../index.js";
+import { zValidator } from "../../../../shared/controller/http/validators.js";
+import { buildSessionCompactionUsecases } from "../factory/chat.factory.js";
+import { sessionCompactSchema } from "../schemas/chat.schema.js";
+
+const app = new Hono<Env>();
+const logger = createLogger("server");
+const { compactSessionUsecase } = buildSessionCompactionUsecases();
+
+const sessionParamsSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
+function errorStatus(error: unknown): 400 | 409 | 500 {
+  if (error instanceof Error && error.message.startsWith("Unknown model:")) return 400;
+  if (error instanceof Error && error.message.startsWith("Session is busy:")) return 409;
+  return 500;
+}
+
+app.post(
+  "/api/chat/:sessionId/compact",
+  zValidator("param", sessionParamsSchema),
+  zValidator("json", sessionCompactSchema),
+  async c => {
+    const { sessionId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    try {
+      const compaction = await compactSessionUsecase({ sessionId, ...body });
+      logger.info("Session compacted", {
+        module: "chat",
+        sessionId,
+        compacted: compaction.compacted,
+        tokensBefore: compaction.tokensBefore,
+        tokensAfter: compaction.tokensAfter,
+      });
+      return c.json({ sessionID: sessionId, compaction });
+    } catch (error) {
+      const status = errorStatus(error);
+      if (status === 500) {
+        logger.error("Session compaction failed", error instanceof Error ? error : undefined, {
+          module: "chat",
+          sessionId,
+        });
+      }
+      const message = error instanceof Error ? error.message : "Failed to compact session";
+      return c.json({ error: message }, status);
+    }
+  }
+);
+
+export default app;
@@ -0,0 +1,99 @@
+/**
+ * Session Revert API - undo/redo of agent turns
+ *
+ * Rolls a session back to just before a message, restoring the files the
+ * agent changed since then, and rolls it forward again.
+ *
+ * - GET  /api/chat/:sessionId/revert - active revert, or null
+ * - POST /api/chat/:sessionId/revert - revert to before { messageID }
+ * - POST /api/chat/:sessionId/redo   - undo the active revert
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { Hono } from "hono";
+import { z } from "zod";
+import type { Env } from "../../../../index.js";
+import { zValidator } from "../../../../shared/controller/http/validators.js";
+import { buildSessionRevertUsecases } from "../factory/chat.factory.js";
+import { sessionRevertSchema } from "../schemas/chat.schema.js";
+
+const app = new Hono<Env>();
+const logger = createLogger("server");
+const { getSessionRevertUsecase, redoSessionUsecase, revertSessionUsecase } =
+  buildSessionRevertUsecases();
+
+const sessionParamsSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
+function errorStatus(error: unknown): 404 | 409 | 500 {
+  if (error instanceof Error && error.message.startsWith("Message not found:")) return 404;
+  if (error instanceof Error && error.message.startsWith("Session is busy:")) return 409;
+  return 500;
+}
+
+app.get("/api/chat/:sessionId/revert", zValidator("param", sessionParamsSchema), async c => {
+  const { sessionId } = c.req.valid("param");
+  const revert = await getSessionRevertUsecase(sessionId);
+  return c.json({ sessionID: sessionId, revert });
+});
+
+app.post(
+  "/api/chat/:sessionId/revert",
+  zValidator("param", sessionParamsSchema),
+  zValidator("json", sessionRevertSchema),
+  async c => {
+    const { sessionId } = c.req.valid("param");
+    const { messageID } = c.req.valid("json");
+
+    try {
+      const revert = await revertSessionUsecase({ sessionId, messageId: messageID });
+      logger.info("Session reverted", {
+        module: "chat",
+        sessionId,
+        messageID,
+        files: revert.files.length,
+      });
+      return c.json({ sessionID: sessionId, revert });
+    } catch (error) {
+      const status = errorStatus(error);
+      if (status === 500) {
+        logger.error("Session revert failed", error instanceof Error ? error : undefined, {
+          module: "chat",
+          sessionId,
+        });
+      }
+      const message = error instanceof Error ? error.message : "Failed to revert session";
+      return c.json({ error: message }, status);
+    }
+  }
+);
+
+app.post("/api/chat/:sessionId/redo", zValidator("param", sessionParamsSchema), async c => {
+  const { sessionId } = c.req.valid("param");
+
+  try {
+    const restored = await redoSessionUsecase(sessionId);
+    if (!restored) {
+      return c.json({ error: "Nothing to redo" }, 404);
+    }
+    logger.info("Session revert undone", {
+      module: "chat",
+      sessionId,
+      files: restored.files.length,
+    });
+    return c.json({ sessionID: sessionId, restored });
+  } catch (error) {
+    const status = errorStatus(error);
+    if (status === 500) {
+      logger.error("Session redo failed", error instanceof Error ? error : undefined, {
+        module: "chat",
+        sessionId,
+      });
+    }
+    const message = error instanceof Error ? error.message : "Failed to redo session";
+    return c.json({ error: message }, status);
+  }
+});
+
+export default app;
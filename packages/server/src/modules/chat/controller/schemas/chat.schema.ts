@@ -1,5 +1,20 @@
 import { z } from "zod";
 
+/**
+ * Schema for multimodal chat messages
+ *
+ * Supports:
+ * - Simple text messages
+ * - Messages with image URLs
+ * - Messages with base64-encoded images
+ *
+ * @example
+ * // Simple text message
+ * { message: "Hello" }
+ *
+ * // Multimodal message with image
+ * { message: [{ type: "text", text: "What is this?" }, { type: "image", url: "..." }] }
+ */
 export const chatMessageSchema = z.object({
   message: z.union([
     z.string(),
@@ -20,6 +35,15 @@ export const chatMessageSchema = z.object({
   providerId: z.string().optional(),
   modelId: z.string().optional(),
   runtimeMode: z.enum(["intake", "plan", "build"]).optional(),
+  /** Primary agent to run instead of the runtime mode's */
+  agent: z.string().min(1).optional(),
+  /** Run a user-defined slash command; its expanded template replaces the message text */
+  command: z
+    .object({
+      name: z.string().min(1),
+      arguments: z.string().optional(),
+    })
+    .optional(),
   stream: z.boolean().optional().default(true),
 });
 
@@ -27,3 +51,13 @@ export const sessionMessagesSchema = z.object({
   limit: z.coerce.number().min(1).max(1000).default(100),
   offset: z.coerce.number().min(0).default(0),
 });
+
+export const sessionRevertSchema = z.object({
+  messageID: z.string().min(1),
+});
+
+export const sessionCompactSchema = z.object({
+  providerId: z.string().optional(),
+  modelId: z.string().optional(),
+  keepRecent: z.number().int().min(0).optional(),
+});
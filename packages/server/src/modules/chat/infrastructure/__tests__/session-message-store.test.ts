@@ -11,8 +11,12 @@ import type { MessageInfo, Part } from "@sakti-code/core/chat";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import {
   clearSessionStore,
+  discardRevertedMessages,
+  getRevertedMessages,
   getSessionMessages,
   removePart,
+  restoreRevertedMessages,
+  revertMessages,
   upsertMessage,
   upsertPart,
 } from "../session-message-store";
@@ -213,4 +217,53 @@ describe("Session Message Store", () => {
       expect(messages[0].parts[1].id).toBe("part-b");
     });
   });
+
+  describe("revertMessages", () => {
+    beforeEach(() => {
+      upsertMessage(createUserMessage({ id: "msg-1", time: { created: 1000 } }));
+      upsertMessage(createAssistantMessage({ id: "msg-2", time: { created: 2000 } }));
+      upsertPart(createTextPart({ id: "part-2", messageID: "msg-2" }));
+      upsertMessage(createUserMessage({ id: "msg-3", time: { created: 3000 } }));
+    });
+
+    it("should hide the target and every later message", () => {
+      const reverted = revertMessages({ sessionID: "session-1", messageID: "msg-2" });
+
+      expect(reverted?.map(message => message.info.id)).toEqual(["msg-2", "msg-3"]);
+      expect(getSessionMessages("session-1").map(message => message.info.id)).toEqual(["msg-1"]);
+      expect(getRevertedMessages("session-1")).toHaveLength(2);
+    });
+
+    it("should return null for unknown messages", () => {
+      expect(revertMessages({ sessionID: "session-1", messageID: "missing" })).toBeNull();
+      expect(getSessionMessages("session-1")).toHaveLength(3);
+    });
+
+    it("should restore hidden messages with their parts", () => {
+      revertMessages({ sessionID: "session-1", messageID: "msg-2" });
+
+      const restored = restoreRevertedMessages("session-1");
+
+      expect(restored).toHaveLength(2);
+      const messages = getSessionMessages("session-1");
+      expect(messages.map(message => message.info.id)).toEqual(["msg-1", "msg-2", "msg-3"]);
+      expect(messages[1].parts[0].id).toBe("part-2");
+    });
+
+    it("should restore an active revert before reverting further back", () => {
+      revertMessages({ sessionID: "session-1", messageID: "msg-3" });
+      const reverted = revertMessages({ sessionID: "session-1", messageID: "msg-1" });
+
+      expect(reverted?.map(message => message.info.id)).toEqual(["msg-1", "msg-2", "msg-3"]);
+      expect(getSessionMessages("session-1")).toEqual([]);
+    });
+
+    it("should forget discarded messages", () => {
+      revertMessages({ sessionID: "session-1", messageID: "msg-2" });
+
+      expect(discardRevertedMessages("session-1")).toHaveLength(2);
+      expect(restoreRevertedMessages("session-1")).toEqual([]);
+      expect(getSessionMessages("session-1")).toHaveLength(1);
+    });
+  });
 });
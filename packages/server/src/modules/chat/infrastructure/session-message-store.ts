@@ -1,8 +1,11 @@
 import type { Message, MessageInfo, Part } from "@sakti-code/core/chat";
+import { v7 as uuidv7 } from "uuid";
 
 type SessionState = {
   messages: Map<string, MessageInfo>;
   partsByMessage: Map<string, Map<string, Part>>;
+  /** Messages hidden by an active revert, kept so redo can restore them */
+  reverted: Message[];
 };
 
 const sessionStore = new Map<string, SessionState>();
@@ -20,6 +23,7 @@ function ensureSession(sessionID: string): SessionState {
     state = {
       messages: new Map(),
       partsByMessage: new Map(),
+      reverted: [],
     };
     sessionStore.set(sessionID, state);
   }
@@ -103,3 +107,128 @@ export function getSessionMessages(sessionID: string): Message[] {
     };
   });
 }
+
+export function removeMessage(input: { sessionID: string; messageID: string }): void {
+  const state = sessionStore.get(input.sessionID);
+  if (!state) return;
+  state.messages.delete(input.messageID);
+  state.partsByMessage.delete(input.messageID);
+}
+
+/**
+ * Hide a message and every later message of the session
+ *
+ * An active revert is restored first so the new revert always covers the full
+ * history from the target onward. Returns the hidden messages, or null when
+ * the target does not exist.
+ */
+export function revertMessages(input: { sessionID: string; messageID: string }): Message[] | null {
+  restoreRevertedMessages(input.sessionID);
+
+  const messages = getSessionMessages(input.sessionID);
+  const index = messages.findIndex(message => message.info.id === input.messageID);
+  if (index === -1) return null;
+
+  const state = ensureSession(input.sessionID);
+  const reverted = messages.slice(index);
+  for (const message of reverted) {
+    removeMessage({ sessionID: input.sessionID, messageID: message.info.id });
+  }
+  state.reverted = reverted;
+  return reverted;
+}
+
+export function getRevertedMessages(sessionID: string): Message[] {
+  return sessionStore.get(sessionID)?.reverted ?? [];
+}
+
+/**
+ * Add messages to their sessions as they are, keeping their IDs
+ */
+export function showMessages(messages: Message[]): void {
+  for (const message of messages) {
+    upsertMessage(message.info);
+    for (const part of message.parts) {
+      upsertPart(part);
+    }
+  }
+}
+
+/**
+ * Put messages hidden by the active revert back into the session
+ */
+export function restoreRevertedMessages(sessionID: string): Message[] {
+  const state = sessionStore.get(sessionID);
+  if (!state || state.reverted.length === 0) return [];
+
+  const restored = state.reverted;
+  state.reverted = [];
+  showMessages(restored);
+  return restored;
+}
+
+/**
+ * Forget messages hidden by the active revert
+ */
+export function discardRevertedMessages(sessionID: string): Message[] {
+  const state = sessionStore.get(sessionID);
+  if (!state) return [];
+  const discarded = state.reverted;
+  state.reverted = [];
+  return discarded;
+}
+
+/**
+ * Add messages to a session under new IDs, keeping their order and links
+ *
+ * Message and part IDs are regenerated, or taken from `ids` when it maps the
+ * source message, and parent links are remapped to the new IDs. Returns all
+ * messages of the target session.
+ */
+export function importMessages(
+  sessionID: string,
+  messages: Message[],
+  ids?: Map<string, string>
+): Message[] {
+  const messageIDs = new Map<string, string>();
+  for (const message of messages) {
+    messageIDs.set(message.info.id, ids?.get(message.info.id) ?? uuidv7());
+  }
+
+  for (const message of messages) {
+    const id = messageIDs.get(message.info.id)!;
+    const info = { ...message.info, id, sessionID } as MessageInfo;
+    if ("parentID" in info && typeof info.parentID === "string") {
+      info.parentID = messageIDs.get(info.parentID) ?? info.parentID;
+    }
+    upsertMessage(info);
+    for (const part of message.parts) {
+      upsertPart({ ...part, id: uuidv7(), messageID: id, sessionID });
+    }
+  }
+
+  return getSessionMessages(sessionID);
+}
+
+/**
+ * Copy the messages of a session into another session under new IDs
+ *
+ * With `beforeMessageID`, only messages preceding it are copied. `messageIDs`
+ * gives the IDs their persisted copies received. Returns the copied messages,
+ * or null when `beforeMessageID` does not exist.
+ */
+export function forkMessages(input: {
+  sourceSessionID: string;
+  targetSessionID: string;
+  beforeMessageID?: string;
+  messageIDs?: Map<string, string>;
+}): Message[] | null {
+  const messages = getSessionMessages(input.sourceSessionID);
+  let end = messages.length;
+  if (input.beforeMessageID) {
+    end = messages.findIndex(message => message.info.id === input.beforeMessageID);
+    if (end === -1) return null;
+  }
+
+  return importMessages(input.targetSessionID, messages.slice(0, end), input.messageIDs);
+}
@@ -1,3 +1,5 @@
+import { loadCustomCommands } from "@sakti-code/core";
+
 export interface CommandItem {
   id: string;
   name: string;
@@ -5,6 +7,10 @@ export interface CommandItem {
   requiresApproval: boolean;
   category: string;
   enabled: boolean;
+  /** Slash trigger for user-defined commands */
+  trigger?: string;
+  /** Where a user-defined command was loaded from */
+  scope?: "user" | "workspace" | "plugin";
 }
 
 const defaultCommands: CommandItem[] = [
@@ -106,12 +112,29 @@ const defaultCommands: CommandItem[] = [
   },
 ];
 
-export function listCommandsUsecase(input: {
+export async function listCommandsUsecase(input: {
   category?: string;
   enabled?: "true" | "false";
-}): CommandItem[] {
+  directory?: string;
+}): Promise<CommandItem[]> {
   let commands = [...defaultCommands];
 
+  if (input.directory) {
+    const { commands: custom } = await loadCustomCommands(input.directory);
+    commands.push(
+      ...custom.map(command => ({
+        id: command.id,
+        name: command.title,
+        description: command.description ?? "",
+        requiresApproval: false,
+        category: "custom",
+        enabled: true,
+        trigger: command.trigger,
+        scope: command.scope,
+      }))
+    );
+  }
+
   if (input.category) {
     commands = commands.filter(command => command.category === input.category);
   }
@@ -0,0 +1,45 @@
+import { expandCommandTemplate, loadCustomCommands } from "@sakti-code/core";
+
+export interface RunCommandInput {
+  directory: string;
+  name: string;
+  arguments?: string;
+}
+
+export interface RunCommandOutput {
+  prompt: string;
+  agent?: string;
+  providerId?: string;
+  modelId?: string;
+  allowedTools?: string[];
+}
+
+/**
+ * Expand a user-defined command into the prompt and settings of a chat turn
+ */
+export async function runCommandUsecase(input: RunCommandInput): Promise<RunCommandOutput> {
+  const { commands } = await loadCustomCommands(input.directory);
+  const command = commands.find(candidate => candidate.trigger === input.name);
+  if (!command) {
+    throw new Error(`Unknown command: ${input.name}`);
+  }
+
+  const prompt = await expandCommandTemplate(
+    command.template,
+    input.arguments ?? "",
+    input.directory
+  );
+
+  // Models are written as provider/model; a bare model uses the default provider
+  const separator = command.model?.indexOf("/") ?? -1;
+  const providerId = separator > 0 ? command.model?.slice(0, separator) : undefined;
+  const modelId = separator > 0 ? command.model?.slice(separator + 1) : command.model;
+
+  return {
+    prompt,
+    agent: command.agent,
+    providerId,
+    modelId,
+    allowedTools: command.allowedTools,
+  };
+}
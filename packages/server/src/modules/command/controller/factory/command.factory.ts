@@ -1,5 +1,6 @@
 import { listCommandsUsecase } from "../../application/usecases/list-commands.usecase.js";
+import { runCommandUsecase } from "../../application/usecases/run-command.usecase.js";
 
 export function buildCommandUsecases() {
-  return { listCommandsUsecase };
+  return { listCommandsUsecase, runCommandUsecase };
 }
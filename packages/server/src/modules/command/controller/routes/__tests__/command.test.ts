@@ -0,0 +1,97 @@
+import { Hono } from "hono";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("Command Routes", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "command-route-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  async function createApp() {
+    const app = new Hono();
+    const { commandRoutes } = await import("../command.route");
+    app.route("/", commandRoutes);
+    return app;
+  }
+
+  async function writeCommand(name: string, content: string) {
+    const dir = path.join(workspace, ".sakti-code", "commands");
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${name}.md`), content, "utf-8");
+  }
+
+  describe("GET /api/commands", () => {
+    it("returns no custom commands without a directory", async () => {
+      const app = await createApp();
+
+      const res = await app.request("/api/commands?category=custom");
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.commands).toEqual([]);
+    });
+
+    it("merges workspace commands into the catalog", async () => {
+      await writeCommand("review", "---\ndescription: Review a file\n---\nReview $ARGUMENTS");
+      const app = await createApp();
+
+      const res = await app.request(`/api/commands?directory=${encodeURIComponent(workspace)}`);
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.commands.map((command: { id: string }) => command.id)).toContain("session.new");
+      expect(json.commands).toContainEqual({
+        id: "custom.review",
+        name: "review",
+        description: "Review a file",
+        requiresApproval: false,
+        category: "custom",
+        enabled: true,
+        trigger: "review",
+        scope: "workspace",
+      });
+    });
+  });
+
+  describe("runCommandUsecase", () => {
+    it("expands the template and splits the model reference", async () => {
+      await writeCommand(
+        "fix",
+        "---\nagent: build\nmodel: zai/glm-4.7\nallowed-tools: read, edit\n---\nFix $ARGUMENTS"
+      );
+      const { runCommandUsecase } =
+        await import("../../../application/usecases/run-command.usecase");
+
+      const run = await runCommandUsecase({
+        directory: workspace,
+        name: "fix",
+        arguments: "the flaky test",
+      });
+
+      expect(run).toEqual({
+        prompt: "Fix the flaky test",
+        agent: "build",
+        providerId: "zai",
+        modelId: "glm-4.7",
+        allowedTools: ["read", "edit"],
+      });
+    });
+
+    it("rejects unknown commands", async () => {
+      const { runCommandUsecase } =
+        await import("../../../application/usecases/run-command.usecase");
+
+      await expect(runCommandUsecase({ directory: workspace, name: "missing" })).rejects.toThrow(
+        "Unknown command: missing"
+      );
+    });
+  });
+});
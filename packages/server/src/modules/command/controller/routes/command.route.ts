@@ -7,6 +7,7 @@ type Env = {
   Variables: {
     requestId: string;
     startTime: number;
+    instanceContext: { directory: string } | undefined;
   };
 };
 
@@ -15,13 +16,18 @@ const { listCommandsUsecase } = buildCommandUsecases();
 const commandQuerySchema = z.object({
   category: z.string().optional(),
   enabled: z.enum(["true", "false"]).optional(),
+  directory: z.string().optional(),
 });
 
 app.get("/api/commands", zValidator("query", commandQuerySchema), async c => {
-  const { category, enabled } = c.req.valid("query");
+  const { category, enabled, directory } = c.req.valid("query");
 
   return c.json({
-    commands: listCommandsUsecase({ category, enabled }),
+    commands: await listCommandsUsecase({
+      category,
+      enabled,
+      directory: directory?.trim() || c.get("instanceContext")?.directory,
+    }),
   });
 });
 
@@ -0,0 +1,36 @@
+import type { WorkspaceHooksConfig } from "@sakti-code/core";
+
+export interface WorkspaceHooksOutput {
+  directory: string;
+  path: string;
+  hooks: WorkspaceHooksConfig;
+  /** False when the file changed outside settings; its hooks do not run until saved */
+  trusted: boolean;
+}
+
+export async function getWorkspaceHooksUsecase(directory: string): Promise<WorkspaceHooksOutput> {
+  const { getWorkspaceHooksConfigPath, isWorkspaceHooksTrusted, loadWorkspaceHooks } =
+    await import("@sakti-code/core");
+
+  const hooks = await loadWorkspaceHooks(directory);
+  return {
+    directory,
+    path: getWorkspaceHooksConfigPath(directory),
+    hooks,
+    trusted: await isWorkspaceHooksTrusted(directory, hooks),
+  };
+}
+
+export async function saveWorkspaceHooksUsecase(
+  directory: string,
+  hooks: unknown
+): Promise<WorkspaceHooksOutput> {
+  const { getWorkspaceHooksConfigPath, saveWorkspaceHooks } = await import("@sakti-code/core");
+
+  return {
+    directory,
+    path: getWorkspaceHooksConfigPath(directory),
+    hooks: await saveWorkspaceHooks(directory, hooks),
+    trusted: true,
+  };
+}
@@ -0,0 +1,8 @@
+import {
+  getWorkspaceHooksUsecase,
+  saveWorkspaceHooksUsecase,
+} from "../../application/usecases/manage-hooks.usecase.js";
+
+export function buildHooksUsecases() {
+  return { getWorkspaceHooksUsecase, saveWorkspaceHooksUsecase };
+}
@@ -0,0 +1,107 @@
+import { Hono } from "hono";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("Hooks Routes", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "hooks-route-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  async function createApp() {
+    const app = new Hono();
+    const { hooksRoutes } = await import("../hooks.route");
+    app.route("/", hooksRoutes);
+    return app;
+  }
+
+  function put(app: Hono, body: unknown) {
+    return app.request("/api/hooks", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("returns empty hooks for a workspace without a hooks config", async () => {
+    const app = await createApp();
+
+    const res = await app.request(`/api/hooks?directory=${encodeURIComponent(workspace)}`);
+    expect(res.status).toBe(200);
+
+    const json = await res.json();
+    expect(json.directory).toBe(workspace);
+    expect(json.path).toBe(path.join(workspace, ".sakti-code", "hooks.json"));
+    expect(json.hooks).toEqual({
+      preToolUse: [],
+      postToolUse: [],
+      sessionStart: [],
+      userPromptSubmit: [],
+      stop: [],
+    });
+  });
+
+  it("saves hooks to the workspace and reads them back", async () => {
+    const app = await createApp();
+
+    const saved = await put(app, {
+      directory: workspace,
+      hooks: { postToolUse: [{ matcher: "write|edit", command: "pnpm prettier --write ." }] },
+    });
+    expect(saved.status).toBe(200);
+
+    const onDisk = JSON.parse(
+      await fs.readFile(path.join(workspace, ".sakti-code", "hooks.json"), "utf-8")
+    );
+    expect(onDisk.postToolUse).toEqual([
+      { matcher: "write|edit", command: "pnpm prettier --write ." },
+    ]);
+
+    const res = await app.request(`/api/hooks?directory=${encodeURIComponent(workspace)}`);
+    const json = await res.json();
+    expect(json.hooks.postToolUse).toHaveLength(1);
+    expect(json.trusted).toBe(true);
+  });
+
+  it("reports hooks changed outside settings as untrusted", async () => {
+    const app = await createApp();
+    await fs.mkdir(path.join(workspace, ".sakti-code"), { recursive: true });
+    await fs.writeFile(
+      path.join(workspace, ".sakti-code", "hooks.json"),
+      JSON.stringify({ sessionStart: [{ command: "git status" }] })
+    );
+
+    const res = await app.request(`/api/hooks?directory=${encodeURIComponent(workspace)}`);
+    expect((await res.json()).trusted).toBe(false);
+  });
+
+  it("rejects invalid hooks without writing them", async () => {
+    const app = await createApp();
+
+    const res = await put(app, {
+      directory: workspace,
+      hooks: { preToolUse: [{ matcher: "(", command: "true" }] },
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/matcher must be a valid regular expression/);
+
+    await expect(fs.access(path.join(workspace, ".sakti-code", "hooks.json"))).rejects.toThrow();
+  });
+
+  it("reports a broken hooks file", async () => {
+    await fs.mkdir(path.join(workspace, ".sakti-code"), { recursive: true });
+    await fs.writeFile(path.join(workspace, ".sakti-code", "hooks.json"), "{ not json");
+    const app = await createApp();
+
+    const res = await app.request(`/api/hooks?directory=${encodeURIComponent(workspace)}`);
+    expect(res.status).toBe(422);
+    expect((await res.json()).error).toMatch(/Invalid hooks config/);
+  });
+});
@@ -0,0 +1,49 @@
+import { errorMessage } from "@sakti-code/shared/errors";
+import { Hono } from "hono";
+import { z } from "zod";
+import type { Env } from "../../../../index.js";
+import { resolveDirectory } from "../../../../shared/controller/http/directory-resolver.js";
+import { zValidator } from "../../../../shared/controller/http/validators.js";
+import { buildHooksUsecases } from "../factory/hooks.factory.js";
+
+const app = new Hono<Env>();
+const { getWorkspaceHooksUsecase, saveWorkspaceHooksUsecase } = buildHooksUsecases();
+
+const directoryQuerySchema = z.object({
+  directory: z.string().optional(),
+});
+
+const saveSchema = z.object({
+  directory: z.string().optional(),
+  hooks: z.record(z.string(), z.unknown()),
+});
+
+app.get("/api/hooks", zValidator("query", directoryQuerySchema), async c => {
+  const resolution = resolveDirectory(c);
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  try {
+    return c.json(await getWorkspaceHooksUsecase(resolution.directory));
+  } catch (error) {
+    // The file on disk is broken; report it so the user can fix or overwrite it
+    return c.json({ error: errorMessage(error, "Invalid hooks config") }, 422);
+  }
+});
+
+app.put("/api/hooks", zValidator("json", saveSchema), async c => {
+  const body = c.req.valid("json");
+  const resolution = resolveDirectory(c, { directory: body.directory });
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  try {
+    return c.json(await saveWorkspaceHooksUsecase(resolution.directory, body.hooks));
+  } catch (error) {
+    return c.json({ error: errorMessage(error, "Invalid hooks config") }, 400);
+  }
+});
+
+export const hooksRoutes = app;
@@ -0,0 +1 @@
+export { hooksRoutes } from "./hooks.route.js";
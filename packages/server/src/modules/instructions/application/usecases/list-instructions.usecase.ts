@@ -0,0 +1,18 @@
+import type { InstructionFileInfo } from "@sakti-code/core";
+
+export interface ListInstructionsOutput {
+  directory: string;
+  files: InstructionFileInfo[];
+}
+
+export async function listInstructionsUsecase(
+  directory: string,
+  sessionId?: string
+): Promise<ListInstructionsOutput> {
+  const { listInstructionFiles } = await import("@sakti-code/core");
+
+  return {
+    directory,
+    files: await listInstructionFiles(directory, sessionId),
+  };
+}
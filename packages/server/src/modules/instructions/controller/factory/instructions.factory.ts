@@ -0,0 +1,5 @@
+import { listInstructionsUsecase } from "../../application/usecases/list-instructions.usecase.js";
+
+export function buildInstructionsUsecases() {
+  return { listInstructionsUsecase };
+}
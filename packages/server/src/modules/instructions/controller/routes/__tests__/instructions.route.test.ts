@@ -0,0 +1,72 @@
+import { Hono } from "hono";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("Instructions Routes", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "instructions-route-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  async function createApp() {
+    const app = new Hono();
+    const { instructionsRoutes } = await import("../instructions.route");
+    app.route("/", instructionsRoutes);
+    return app;
+  }
+
+  it("lists workspace instruction files and which are active for a session", async () => {
+    await fs.writeFile(path.join(workspace, "AGENTS.md"), "Root rules");
+    await fs.mkdir(path.join(workspace, "packages", "api"), { recursive: true });
+    await fs.writeFile(path.join(workspace, "packages", "api", "AGENTS.md"), "API rules");
+
+    const { activateInstructions } = await import("@sakti-code/core");
+    await activateInstructions(workspace, "session-1", ["packages/api/index.ts"]);
+    const app = await createApp();
+
+    const res = await app.request(
+      `/api/instructions?directory=${encodeURIComponent(workspace)}&sessionId=session-1`
+    );
+    expect(res.status).toBe(200);
+
+    const json = await res.json();
+    expect(json.directory).toBe(workspace);
+    const files = json.files.filter((file: { scope: string }) => file.scope !== "user");
+    expect(files).toMatchObject([
+      { path: path.join(workspace, "AGENTS.md"), scope: "workspace", active: true },
+      {
+        path: path.join(workspace, "packages", "api", "AGENTS.md"),
+        scope: "directory",
+        appliesTo: path.join(workspace, "packages", "api"),
+        active: true,
+      },
+    ]);
+    expect(files[0]).not.toHaveProperty("content");
+  });
+
+  it("marks nested files inactive without a session", async () => {
+    await fs.mkdir(path.join(workspace, "docs"), { recursive: true });
+    await fs.writeFile(path.join(workspace, "docs", "CLAUDE.md"), "Docs rules");
+    const app = await createApp();
+
+    const res = await app.request(`/api/instructions?directory=${encodeURIComponent(workspace)}`);
+    const json = await res.json();
+    expect(json.files.filter((file: { scope: string }) => file.scope !== "user")).toMatchObject([
+      { path: path.join(workspace, "docs", "CLAUDE.md"), active: false },
+    ]);
+  });
+
+  it("requires a directory", async () => {
+    const app = await createApp();
+
+    const res = await app.request("/api/instructions");
+    expect(res.status).toBe(400);
+  });
+});
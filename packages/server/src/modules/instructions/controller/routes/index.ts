@@ -0,0 +1 @@
+export { instructionsRoutes } from "./instructions.route.js";
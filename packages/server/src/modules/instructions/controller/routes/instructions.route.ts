@@ -0,0 +1,32 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { zValidator } from "../../../../shared/controller/http/validators.js";
+import { buildInstructionsUsecases } from "../factory/instructions.factory.js";
+
+type Env = {
+  Variables: {
+    requestId: string;
+    startTime: number;
+    instanceContext: { directory: string } | undefined;
+  };
+};
+
+const app = new Hono<Env>();
+const { listInstructionsUsecase } = buildInstructionsUsecases();
+
+const listQuerySchema = z.object({
+  directory: z.string().optional(),
+  sessionId: z.string().optional(),
+});
+
+app.get("/api/instructions", zValidator("query", listQuerySchema), async c => {
+  const query = c.req.valid("query");
+  const directory = query.directory?.trim() || c.get("instanceContext")?.directory;
+  if (!directory) {
+    return c.json({ error: "Directory parameter required" }, 400);
+  }
+
+  return c.json(await listInstructionsUsecase(directory, query.sessionId || undefined));
+});
+
+export const instructionsRoutes = app;
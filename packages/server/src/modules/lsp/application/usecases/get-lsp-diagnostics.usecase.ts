@@ -0,0 +1,72 @@
+export type LspDiagnosticSeverity = "error" | "warning" | "info" | "hint";
+
+export interface LspDiagnosticItem {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  severity: LspDiagnosticSeverity;
+  message: string;
+  source?: string;
+}
+
+export interface LspFileDiagnostics {
+  filePath: string;
+  diagnostics: LspDiagnosticItem[];
+}
+
+export interface GetLspDiagnosticsInput {
+  directory?: string;
+  fallbackDirectory?: string;
+  path?: string;
+  severity?: LspDiagnosticSeverity;
+}
+
+export interface GetLspDiagnosticsOutput {
+  directory: string | undefined;
+  files: LspFileDiagnostics[];
+  summary: Record<LspDiagnosticSeverity, number>;
+}
+
+/**
+ * Diagnostics for a workspace, optionally narrowed to a file or glob
+ *
+ * @throws {Error} When `path` is absolute or escapes the workspace
+ */
+export async function getLspDiagnosticsUsecase(
+  input: GetLspDiagnosticsInput
+): Promise<GetLspDiagnosticsOutput> {
+  const directory = input.directory || input.fallbackDirectory;
+  const empty: GetLspDiagnosticsOutput = {
+    directory,
+    files: [],
+    summary: { error: 0, warning: 0, info: 0, hint: 0 },
+  };
+  if (!directory) return empty;
+
+  const { assertWorkspaceTarget, collectWorkspaceDiagnostics } = await import("@sakti-code/core");
+  if (input.path) {
+    await assertWorkspaceTarget(directory, input.path);
+  }
+  const result = await collectWorkspaceDiagnostics({
+    directory,
+    target: input.path,
+    minSeverity: input.severity,
+  });
+
+  // Positions are 1-based so the desktop Problems panel can render them as-is
+  const files = result.files.map(file => ({
+    filePath: file.filePath,
+    diagnostics: file.diagnostics.map(diagnostic => ({
+      line: diagnostic.range.start.line + 1,
+      column: diagnostic.range.start.character + 1,
+      endLine: diagnostic.range.end.line + 1,
+      endColumn: diagnostic.range.end.character + 1,
+      severity: diagnostic.severityName,
+      message: diagnostic.message,
+      source: diagnostic.source,
+    })),
+  }));
+
+  return { directory, files, summary: result.summary };
+}
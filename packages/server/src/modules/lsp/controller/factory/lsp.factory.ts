@@ -1,5 +1,6 @@
+import { getLspDiagnosticsUsecase } from "../../application/usecases/get-lsp-diagnostics.usecase.js";
 import { getLspStatusUsecase } from "../../application/usecases/get-lsp-status.usecase.js";
 
 export function buildLspUsecases() {
-  return { getLspStatusUsecase };
+  return { getLspDiagnosticsUsecase, getLspStatusUsecase };
 }
@@ -16,4 +16,45 @@ describe("LSP Routes", () => {
       expect(json).toHaveProperty("directory");
     });
   });
+
+  describe("GET /api/lsp/diagnostics", () => {
+    it("should return an empty report when no servers have published", async () => {
+      const app = new Hono();
+      const { lspRoutes: lspRouter } = await import("../lsp.route");
+      app.route("/", lspRouter);
+
+      const res = await app.request("/api/lsp/diagnostics?directory=/test&severity=error");
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json).toEqual({
+        directory: "/test",
+        files: [],
+        summary: { error: 0, warning: 0, info: 0, hint: 0 },
+      });
+    });
+
+    it("should reject paths outside the workspace", async () => {
+      const app = new Hono();
+      const { lspRoutes: lspRouter } = await import("../lsp.route");
+      app.route("/", lspRouter);
+
+      for (const target of ["/etc/passwd", "../secrets.ts", "src/../../**/*.ts"]) {
+        const res = await app.request(
+          `/api/lsp/diagnostics?directory=/test&path=${encodeURIComponent(target)}`
+        );
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toContain(target);
+      }
+    });
+
+    it("should reject unknown severities", async () => {
+      const app = new Hono();
+      const { lspRoutes: lspRouter } = await import("../lsp.route");
+      app.route("/", lspRouter);
+
+      const res = await app.request("/api/lsp/diagnostics?directory=/test&severity=fatal");
+      expect(res.status).toBe(400);
+    });
+  });
 });
@@ -12,7 +12,7 @@ type Env = {
 };
 
 const app = new Hono<Env>();
-const { getLspStatusUsecase } = buildLspUsecases();
+const { getLspDiagnosticsUsecase, getLspStatusUsecase } = buildLspUsecases();
 const lspQuerySchema = z.object({
   directory: z.string().optional(),
 });
@@ -25,4 +25,28 @@ app.get("/api/lsp/status", zValidator("query", lspQuerySchema), async c => {
   return c.json(result);
 });
 
+const lspDiagnosticsQuerySchema = lspQuerySchema.extend({
+  path: z.string().optional(),
+  severity: z.enum(["error", "warning", "info", "hint"]).optional(),
+});
+
+app.get("/api/lsp/diagnostics", zValidator("query", lspDiagnosticsQuerySchema), async c => {
+  const query = c.req.valid("query");
+  try {
+    const result = await getLspDiagnosticsUsecase({
+      directory: query.directory,
+      fallbackDirectory: c.get("instanceContext")?.directory,
+      path: query.path,
+      severity: query.severity,
+    });
+    return c.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Invalid path";
+    if (message.startsWith("Path ")) {
+      return c.json({ error: message }, 400);
+    }
+    throw error;
+  }
+});
+
 export const lspRoutes = app;
@@ -1,3 +1,5 @@
+import type { McpServerStatus } from "@sakti-code/core";
+
 export interface GetMcpStatusInput {
   directory?: string;
   fallbackDirectory?: string;
@@ -5,7 +7,7 @@ export interface GetMcpStatusInput {
 
 export interface GetMcpStatusOutput {
   directory: string;
-  servers: unknown[];
+  servers: McpServerStatus[];
   summary: {
     total: number;
     connected: number;
@@ -24,15 +26,16 @@ export function resolveMcpDirectory(
   return { ok: true, directory: raw };
 }
 
-export function getMcpStatusUsecase(directory: string): GetMcpStatusOutput {
+export async function getMcpStatusUsecase(directory: string): Promise<GetMcpStatusOutput> {
+  const { MCP } = await import("@sakti-code/core");
+
+  // Loading is idempotent; the first status request for a workspace connects its servers
+  await MCP.ensureWorkspace(directory);
+  const servers = MCP.getStatus(directory);
+
   return {
     directory,
-    servers: [],
-    summary: {
-      total: 0,
-      connected: 0,
-      degraded: 0,
-      offline: 0,
-    },
+    servers,
+    summary: MCP.summarize(servers),
   };
 }
@@ -0,0 +1,46 @@
+import type { GetMcpStatusOutput } from "./get-mcp-status.usecase.js";
+import { getMcpStatusUsecase } from "./get-mcp-status.usecase.js";
+
+export type McpServerScope = "user" | "workspace";
+
+/**
+ * Write a server definition, then reconnect the workspace's servers
+ */
+export async function saveMcpServerUsecase(input: {
+  directory: string;
+  scope: McpServerScope;
+  name: string;
+  server: unknown;
+}): Promise<GetMcpStatusOutput> {
+  const { MCP, saveMcpServer } = await import("@sakti-code/core");
+
+  await saveMcpServer(input.directory, input.scope, input.name, input.server);
+  await MCP.reload(input.directory);
+  return getMcpStatusUsecase(input.directory);
+}
+
+/**
+ * Remove a server definition, then reconnect the workspace's servers
+ *
+ * @returns null when the config file does not define the server
+ */
+export async function deleteMcpServerUsecase(input: {
+  directory: string;
+  scope: McpServerScope;
+  name: string;
+}): Promise<GetMcpStatusOutput | null> {
+  const { MCP, deleteMcpServer } = await import("@sakti-code/core");
+
+  const deleted = await deleteMcpServer(input.directory, input.scope, input.name);
+  if (!deleted) return null;
+
+  await MCP.reload(input.directory);
+  return getMcpStatusUsecase(input.directory);
+}
+
+export async function reloadMcpServersUsecase(directory: string): Promise<GetMcpStatusOutput> {
+  const { MCP } = await import("@sakti-code/core");
+
+  await MCP.reload(directory);
+  return getMcpStatusUsecase(directory);
+}
@@ -2,10 +2,18 @@ import {
   getMcpStatusUsecase,
   resolveMcpDirectory,
 } from "../../application/usecases/get-mcp-status.usecase.js";
+import {
+  deleteMcpServerUsecase,
+  reloadMcpServersUsecase,
+  saveMcpServerUsecase,
+} from "../../application/usecases/manage-mcp-servers.usecase.js";
 
 export function buildMcpUsecases() {
   return {
     getMcpStatusUsecase,
     resolveMcpDirectory,
+    saveMcpServerUsecase,
+    deleteMcpServerUsecase,
+    reloadMcpServersUsecase,
   };
 }
@@ -0,0 +1,119 @@
+import { Hono } from "hono";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("MCP Routes", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-route-"));
+  });
+
+  afterEach(async () => {
+    const { MCP } = await import("@sakti-code/core");
+    await MCP.shutdown();
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  async function createApp() {
+    const app = new Hono();
+    const { mcpRoutes } = await import("../mcp.route");
+    app.route("/", mcpRoutes);
+    return app;
+  }
+
+  describe("GET /api/mcp/status", () => {
+    it("returns empty status for a workspace without MCP config", async () => {
+      const app = await createApp();
+
+      const res = await app.request(`/api/mcp/status?directory=${encodeURIComponent(workspace)}`);
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json).toEqual({
+        directory: workspace,
+        servers: [],
+        summary: { total: 0, connected: 0, degraded: 0, offline: 0 },
+      });
+    });
+
+    it("reports configured servers that fail to start as offline", async () => {
+      await fs.mkdir(path.join(workspace, ".sakti-code"), { recursive: true });
+      await fs.writeFile(
+        path.join(workspace, ".sakti-code", "mcp.json"),
+        JSON.stringify({
+          mcpServers: { broken: { command: process.execPath, args: ["-e", "process.exit(1)"] } },
+        })
+      );
+      const app = await createApp();
+
+      const res = await app.request(`/api/mcp/status?directory=${encodeURIComponent(workspace)}`);
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.servers).toHaveLength(1);
+      expect(json.servers[0]).toMatchObject({ name: "broken", type: "stdio", state: "offline" });
+      expect(json.summary).toEqual({ total: 1, connected: 0, degraded: 0, offline: 1 });
+    });
+
+    it("rejects an empty directory parameter", async () => {
+      const app = await createApp();
+
+      const res = await app.request("/api/mcp/status?directory=");
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("server management", () => {
+    function put(app: Hono, body: Record<string, unknown>) {
+      return app.request("/api/mcp/servers", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directory: workspace, ...body }),
+      });
+    }
+
+    it("saves, lists and deletes a server", async () => {
+      const app = await createApp();
+
+      const saved = await put(app, {
+        name: "docs",
+        server: { url: "http://127.0.0.1:9/mcp", enabled: false, permissions: { "*": "ask" } },
+      });
+      expect(saved.status).toBe(200);
+      const json = await saved.json();
+      expect(json.servers).toEqual([
+        expect.objectContaining({
+          name: "docs",
+          type: "http",
+          scope: "workspace",
+          enabled: false,
+          state: "offline",
+          config: {
+            type: "http",
+            url: "http://127.0.0.1:9/mcp",
+            enabled: false,
+            permissions: { "*": "ask" },
+          },
+        }),
+      ]);
+
+      const query = `directory=${encodeURIComponent(workspace)}&scope=workspace`;
+      const deleted = await app.request(`/api/mcp/servers/docs?${query}`, { method: "DELETE" });
+      expect(deleted.status).toBe(200);
+      expect((await deleted.json()).servers).toEqual([]);
+
+      const missing = await app.request(`/api/mcp/servers/docs?${query}`, { method: "DELETE" });
+      expect(missing.status).toBe(404);
+    });
+
+    it("rejects invalid server definitions", async () => {
+      const app = await createApp();
+
+      const res = await put(app, { name: "bad", server: { args: ["no-command"] } });
+      expect(res.status).toBe(400);
+    });
+  });
+});
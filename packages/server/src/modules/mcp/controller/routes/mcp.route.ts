@@ -1,22 +1,41 @@
 import { Hono } from "hono";
 import { z } from "zod";
+import type { Env } from "../../../../index.js";
+import { resolveDirectory } from "../../../../shared/controller/http/directory-resolver.js";
 import { zValidator } from "../../../../shared/controller/http/validators.js";
 import { buildMcpUsecases } from "../factory/mcp.factory.js";
 
-type Env = {
-  Variables: {
-    requestId: string;
-    startTime: number;
-    instanceContext: { directory: string } | undefined;
-  };
-};
-
 const app = new Hono<Env>();
-const { getMcpStatusUsecase, resolveMcpDirectory } = buildMcpUsecases();
+const {
+  getMcpStatusUsecase,
+  resolveMcpDirectory,
+  saveMcpServerUsecase,
+  deleteMcpServerUsecase,
+  reloadMcpServersUsecase,
+} = buildMcpUsecases();
 const mcpQuerySchema = z.object({
   directory: z.string().optional(),
 });
 
+const scopeSchema = z.enum(["user", "workspace"]);
+
+const deleteQuerySchema = z.object({
+  directory: z.string().optional(),
+  scope: scopeSchema.default("workspace"),
+});
+
+// Server definitions are validated by core, which also infers the transport type
+const saveSchema = z.object({
+  directory: z.string().optional(),
+  scope: scopeSchema.default("workspace"),
+  name: z.string().min(1),
+  server: z.record(z.string(), z.unknown()),
+});
+
+const reloadSchema = z.object({
+  directory: z.string().optional(),
+});
+
 app.get("/api/mcp/status", zValidator("query", mcpQuerySchema), async c => {
   const queryDirectory = c.req.valid("query").directory;
   if (queryDirectory?.trim() === "") {
@@ -32,7 +51,58 @@ app.get("/api/mcp/status", zValidator("query", mcpQuerySchema), async c => {
     return c.json({ error: resolution.reason }, 400);
   }
 
-  return c.json(getMcpStatusUsecase(resolution.directory));
+  return c.json(await getMcpStatusUsecase(resolution.directory));
+});
+
+app.put("/api/mcp/servers", zValidator("json", saveSchema), async c => {
+  const body = c.req.valid("json");
+  const resolution = resolveDirectory(c, { directory: body.directory, allowFallbackCwd: true });
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  try {
+    return c.json(
+      await saveMcpServerUsecase({
+        directory: resolution.directory,
+        scope: body.scope,
+        name: body.name,
+        server: body.server,
+      })
+    );
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "Invalid server" }, 400);
+  }
+});
+
+app.delete("/api/mcp/servers/:name", zValidator("query", deleteQuerySchema), async c => {
+  const query = c.req.valid("query");
+  const resolution = resolveDirectory(c, { allowFallbackCwd: true });
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  const status = await deleteMcpServerUsecase({
+    directory: resolution.directory,
+    scope: query.scope,
+    name: c.req.param("name"),
+  });
+  if (!status) {
+    return c.json({ error: "Server not found" }, 404);
+  }
+  return c.json(status);
+});
+
+app.post("/api/mcp/reload", zValidator("json", reloadSchema), async c => {
+  const resolution = resolveDirectory(c, {
+    directory: c.req.valid("json").directory,
+    allowFallbackCwd: true,
+  });
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  return c.json(await reloadMcpServersUsecase(resolution.directory));
 });
 
 export const mcpRoutes = app;
@@ -0,0 +1,16 @@
+import type { EmbeddingIndexResult, EmbeddingStatus } from "@sakti-code/core";
+
+export async function getEmbeddingStatusUsecase(): Promise<EmbeddingStatus> {
+  const { getEmbeddingStatus } = await import("@sakti-code/core");
+  return getEmbeddingStatus();
+}
+
+/**
+ * Embed pending memory rows, or drop every vector and embed all rows again
+ */
+export async function reindexEmbeddingsUsecase(input: {
+  full: boolean;
+}): Promise<EmbeddingIndexResult> {
+  const { indexPendingEmbeddings, reindexEmbeddings } = await import("@sakti-code/core");
+  return input.full ? reindexEmbeddings() : indexPendingEmbeddings();
+}
@@ -0,0 +1,123 @@
+import type {
+  CreateMemoryPinInput,
+  MemoryResourceSummary,
+  MemorySettings,
+  MemorySnapshot,
+} from "@sakti-code/core";
+import type {
+  IProjectKeypointRepository,
+  ProjectKeypointRecord,
+} from "../../../project/domain/repositories/project-keypoint.repository.js";
+import type { IWorkspaceRepository } from "../../../workspace/domain/repositories/workspace.repository.js";
+
+export interface MemoryResource extends MemoryResourceSummary {
+  /** Workspace the resource ID refers to, by path or ID */
+  workspace: { id: string; name: string; path: string } | null;
+}
+
+export interface MemoryInspection extends MemorySnapshot {
+  /** Milestones of the resource's workspace; empty for threads and other resources */
+  keypoints: ProjectKeypointRecord[];
+}
+
+export function createMemoryInspectorUsecases(deps: {
+  workspaceRepository: IWorkspaceRepository;
+  projectKeypointRepository: IProjectKeypointRepository;
+}) {
+  // Sessions use the workspace path as resource ID, older ones the workspace ID
+  const findWorkspace = async (resourceId: string) =>
+    (await deps.workspaceRepository.getByPath(resourceId)) ??
+    (await deps.workspaceRepository.getById(resourceId));
+
+  return {
+    async listMemoryResources(): Promise<MemoryResource[]> {
+      const { listMemoryResources } = await import("@sakti-code/core");
+      const resources = await listMemoryResources();
+      return Promise.all(
+        resources.map(async resource => {
+          const workspace = await findWorkspace(resource.resourceId);
+          return {
+            ...resource,
+            workspace: workspace
+              ? { id: workspace.id, name: workspace.name, path: workspace.path }
+              : null,
+          };
+        })
+      );
+    },
+
+    async inspectMemory(input: {
+      resourceId: string;
+      threadId?: string;
+    }): Promise<MemoryInspection> {
+      const { getMemorySnapshot } = await import("@sakti-code/core");
+      const snapshot = await getMemorySnapshot(input);
+      if (input.threadId) return { ...snapshot, keypoints: [] };
+
+      const workspace = await findWorkspace(input.resourceId);
+      const keypoints = workspace
+        ? await deps.projectKeypointRepository.listByWorkspace(workspace.id)
+        : [];
+      return { ...snapshot, keypoints };
+    },
+
+    /**
+     * @throws {MemoryBusyError} While the observer or reflector holds the record
+     */
+    async updateObservations(id: string, content: string) {
+      const { updateObservations } = await import("@sakti-code/core");
+      return updateObservations(id, content);
+    },
+
+    async updateReflection(id: string, content: string) {
+      const { reflectionStorage } = await import("@sakti-code/core");
+      return reflectionStorage.updateReflection(id, content);
+    },
+
+    async deleteReflection(id: string): Promise<boolean> {
+      const { reflectionStorage } = await import("@sakti-code/core");
+      if (!(await reflectionStorage.getReflectionById(id))) return false;
+      await reflectionStorage.deleteReflection(id);
+      return true;
+    },
+
+    /**
+     * Replace working memory; thread-scoped working memory is keyed by thread ID
+     */
+    async saveWorkingMemory(input: { resourceId: string; threadId?: string; content: string }) {
+      const { workingMemoryStorage } = await import("@sakti-code/core");
+      const key = input.threadId ?? input.resourceId;
+      const scope = input.threadId ? "thread" : "resource";
+      return workingMemoryStorage.upsertWorkingMemory(
+        key,
+        { resourceId: key, content: input.content },
+        scope
+      );
+    },
+
+    async createPin(input: CreateMemoryPinInput) {
+      const { memoryPinStorage } = await import("@sakti-code/core");
+      return memoryPinStorage.createPin(input);
+    },
+
+    async updatePin(id: string, content: string) {
+      const { memoryPinStorage } = await import("@sakti-code/core");
+      return memoryPinStorage.updatePin(id, content);
+    },
+
+    async deletePin(id: string): Promise<boolean> {
+      const { memoryPinStorage } = await import("@sakti-code/core");
+      return memoryPinStorage.deletePin(id);
+    },
+
+    async getMemorySettings(): Promise<MemorySettings> {
+      const { loadMemorySettings } = await import("@sakti-code/core");
+      return loadMemorySettings();
+    },
+
+    async saveMemorySettings(settings: MemorySettings): Promise<MemorySettings> {
+      const { saveMemorySettings } = await import("@sakti-code/core");
+      return saveMemorySettings(settings);
+    },
+  };
+}
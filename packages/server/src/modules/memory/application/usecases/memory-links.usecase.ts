@@ -0,0 +1,68 @@
+import type { IWorkspaceRepository } from "../../../workspace/domain/repositories/workspace.repository.js";
+
+export interface LinkedMemoryResource {
+  resourceId: string;
+  /** Workspace the resource ID refers to, by path or ID */
+  workspace: { id: string; name: string; path: string } | null;
+  /** The linked resource shares nothing while private */
+  private: boolean;
+}
+
+export interface MemorySharing {
+  resourceId: string;
+  private: boolean;
+  links: LinkedMemoryResource[];
+}
+
+export function createMemoryLinkUsecases(deps: { workspaceRepository: IWorkspaceRepository }) {
+  const findWorkspace = async (resourceId: string) =>
+    (await deps.workspaceRepository.getByPath(resourceId)) ??
+    (await deps.workspaceRepository.getById(resourceId));
+
+  async function getMemorySharing(resourceId: string): Promise<MemorySharing> {
+    const { memoryLinkStorage } = await import("@sakti-code/core");
+    const linked = await memoryLinkStorage.listLinkedResources(resourceId);
+    const links = await Promise.all(
+      linked.map(async linkedId => {
+        const workspace = await findWorkspace(linkedId);
+        return {
+          resourceId: linkedId,
+          workspace: workspace
+            ? { id: workspace.id, name: workspace.name, path: workspace.path }
+            : null,
+          private: await memoryLinkStorage.isPrivate(linkedId),
+        };
+      })
+    );
+
+    return {
+      resourceId,
+      private: await memoryLinkStorage.isPrivate(resourceId),
+      links,
+    };
+  }
+
+  return {
+    getMemorySharing,
+
+    /**
+     * @throws {Error} When a resource is linked to itself
+     */
+    async linkMemory(resourceId: string, linkedResourceId: string): Promise<MemorySharing> {
+      const { memoryLinkStorage } = await import("@sakti-code/core");
+      await memoryLinkStorage.createLink(resourceId, linkedResourceId);
+      return getMemorySharing(resourceId);
+    },
+
+    async unlinkMemory(resourceId: string, linkedResourceId: string): Promise<boolean> {
+      const { memoryLinkStorage } = await import("@sakti-code/core");
+      return memoryLinkStorage.deleteLink(resourceId, linkedResourceId);
+    },
+
+    async setMemoryPrivacy(resourceId: string, isPrivate: boolean): Promise<MemorySharing> {
+      const { memoryLinkStorage } = await import("@sakti-code/core");
+      await memoryLinkStorage.setPrivate(resourceId, isPrivate);
+      return getMemorySharing(resourceId);
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import { projectKeypointRepository } from "../../../project/infrastructure/repositories/project-keypoint.repository.db.js";
+import { workspaceRepository } from "../../../workspace/infrastructure/repositories/workspace.repository.drizzle.js";
+import {
+  getEmbeddingStatusUsecase,
+  reindexEmbeddingsUsecase,
+} from "../../application/usecases/memory-embeddings.usecase.js";
+import { createMemoryInspectorUsecases } from "../../application/usecases/memory-inspector.usecase.js";
+import { createMemoryLinkUsecases } from "../../application/usecases/memory-links.usecase.js";
+
+export function buildMemoryUsecases() {
+  return {
+    getEmbeddingStatusUsecase,
+    reindexEmbeddingsUsecase,
+    ...createMemoryInspectorUsecases({ workspaceRepository, projectKeypointRepository }),
+    ...createMemoryLinkUsecases({ workspaceRepository }),
+  };
+}
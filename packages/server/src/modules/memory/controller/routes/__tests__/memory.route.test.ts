@@ -0,0 +1,295 @@
+import { Hono } from "hono";
+import { afterEach, describe, expect, it } from "vitest";
+
+describe("Memory Routes", () => {
+  afterEach(async () => {
+    const { setEmbedder } = await import("@sakti-code/core");
+    setEmbedder(undefined);
+  });
+
+  async function createApp() {
+    const app = new Hono();
+    const { memoryRoutes } = await import("../memory.route");
+    app.route("/", memoryRoutes);
+    return app;
+  }
+
+  function reindex(app: Hono, body: unknown) {
+    return app.request("/api/memory/embeddings/reindex", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("reports semantic search as disabled without an embedding model", async () => {
+    const { setEmbedder } = await import("@sakti-code/core");
+    setEmbedder(null);
+    const app = await createApp();
+
+    const res = await app.request("/api/memory/embeddings");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ enabled: false, model: null, indexed: 0, pending: 0 });
+
+    const reindexRes = await reindex(app, {});
+    expect(reindexRes.status).toBe(409);
+  });
+
+  it("re-indexes memory with the configured model", async () => {
+    const { setEmbedder } = await import("@sakti-code/core");
+    setEmbedder({ id: "test/route", embed: async values => values.map(() => [1, 0]) });
+    const app = await createApp();
+
+    const res = await reindex(app, { full: true });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ model: "test/route", pending: 0 });
+
+    const statusRes = await app.request("/api/memory/embeddings");
+    expect(await statusRes.json()).toMatchObject({
+      enabled: true,
+      model: "test/route",
+      pending: 0,
+    });
+  });
+
+  it("reports embedding model failures", async () => {
+    const { setEmbedder } = await import("@sakti-code/core");
+    setEmbedder({
+      id: `test/failing-${Date.now()}`,
+      embed: async () => {
+        throw new Error("connect ECONNREFUSED");
+      },
+    });
+    const { db, messages, threads } = await import("../../../../../../db");
+    const threadId = `memory-route-${Date.now()}`;
+    await db.insert(threads).values({
+      id: threadId,
+      resource_id: "local",
+      title: "Memory Route",
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+    await db.insert(messages).values({
+      id: `${threadId}-message`,
+      thread_id: threadId,
+      role: "user",
+      raw_content: "hello",
+      search_text: "hello",
+      injection_text: "hello",
+      created_at: new Date(),
+      message_index: 0,
+    });
+    const app = await createApp();
+
+    const res = await reindex(app, {});
+    expect(res.status).toBe(502);
+    expect(await res.json()).toEqual({ error: "connect ECONNREFUSED" });
+  });
+
+  describe("memory inspector", () => {
+    afterEach(async () => {
+      const { getMemorySettingsPath } = await import("@sakti-code/core");
+      const { rm } = await import("node:fs/promises");
+      await rm(getMemorySettingsPath(), { force: true });
+    });
+
+    function send(app: Hono, path: string, method: string, body?: unknown) {
+      return app.request(path, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    }
+
+    async function seedThread() {
+      const { db, observationalMemory, threads } = await import("../../../../../../db");
+      const threadId = `inspector-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      const resourceId = `/tmp/${threadId}`;
+      await db.insert(threads).values({
+        id: threadId,
+        resource_id: resourceId,
+        title: "Inspector Thread",
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+      const observationId = `${threadId}-om`;
+      await db.insert(observationalMemory).values({
+        id: observationId,
+        thread_id: threadId,
+        resource_id: resourceId,
+        scope: "thread",
+        lookup_key: `thread:${threadId}`,
+        active_observations: "* User prefers tabs",
+        generation_count: 0,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+      return { threadId, resourceId, observationId };
+    }
+
+    it("lists resources and a thread's records", async () => {
+      const { threadId, resourceId, observationId } = await seedThread();
+      const app = await createApp();
+
+      const resourcesRes = await app.request("/api/memory/resources");
+      expect(resourcesRes.status).toBe(200);
+      const { resources } = await resourcesRes.json();
+      expect(resources).toContainEqual(
+        expect.objectContaining({
+          resourceId,
+          workspace: null,
+          threads: [expect.objectContaining({ id: threadId, title: "Inspector Thread" })],
+        })
+      );
+
+      const recordsRes = await app.request(
+        `/api/memory/records?resourceId=${encodeURIComponent(resourceId)}&threadId=${threadId}`
+      );
+      expect(recordsRes.status).toBe(200);
+      expect(await recordsRes.json()).toMatchObject({
+        resourceId,
+        threadId,
+        observations: { id: observationId, content: "* User prefers tabs", busy: false },
+        reflections: [],
+        workingMemory: null,
+        pins: [],
+        keypoints: [],
+      });
+    });
+
+    it("edits observations and refuses while the observer holds them", async () => {
+      const { observationId } = await seedThread();
+      const app = await createApp();
+
+      const res = await send(app, `/api/memory/observations/${observationId}`, "PATCH", {
+        content: "* User prefers spaces",
+      });
+      expect(res.status).toBe(200);
+      expect((await res.json()).observations.content).toBe("* User prefers spaces");
+
+      const { db, observationalMemory } = await import("../../../../../../db");
+      const { eq } = await import("drizzle-orm");
+      await db
+        .update(observationalMemory)
+        .set({ is_observing: 1 })
+        .where(eq(observationalMemory.id, observationId));
+
+      const busyRes = await send(app, `/api/memory/observations/${observationId}`, "PATCH", {
+        content: "* Lost edit",
+      });
+      expect(busyRes.status).toBe(409);
+
+      const missingRes = await send(app, "/api/memory/observations/missing", "PATCH", {
+        content: "x",
+      });
+      expect(missingRes.status).toBe(404);
+    });
+
+    it("creates, edits and deletes pinned facts", async () => {
+      const { threadId, resourceId } = await seedThread();
+      const app = await createApp();
+
+      const createRes = await send(app, "/api/memory/pins", "POST", {
+        resourceId,
+        content: "Deploys go through staging first",
+      });
+      expect(createRes.status).toBe(201);
+      const { pin } = await createRes.json();
+      expect(pin).toMatchObject({ resourceId, threadId: null, sourceType: "manual" });
+
+      const updateRes = await send(app, `/api/memory/pins/${pin.id}`, "PATCH", {
+        content: "Deploys go through staging and canary",
+      });
+      expect((await updateRes.json()).pin.content).toBe("Deploys go through staging and canary");
+
+      const recordsRes = await app.request(
+        `/api/memory/records?resourceId=${encodeURIComponent(resourceId)}&threadId=${threadId}`
+      );
+      expect((await recordsRes.json()).pins).toEqual([expect.objectContaining({ id: pin.id })]);
+
+      expect((await send(app, `/api/memory/pins/${pin.id}`, "DELETE")).status).toBe(200);
+      expect((await send(app, `/api/memory/pins/${pin.id}`, "DELETE")).status).toBe(404);
+      expect(
+        (await send(app, "/api/memory/pins", "POST", { resourceId, content: " " })).status
+      ).toBe(400);
+    });
+
+    it("saves working memory and token thresholds", async () => {
+      const { threadId, resourceId } = await seedThread();
+      const app = await createApp();
+
+      const memoryRes = await send(app, "/api/memory/working-memory", "PUT", {
+        resourceId,
+        threadId,
+        content: "# Current task\nFix the login form",
+      });
+      expect(memoryRes.status).toBe(200);
+      expect((await memoryRes.json()).workingMemory).toMatchObject({
+        scope: "thread",
+        content: "# Current task\nFix the login form",
+      });
+
+      expect(await (await app.request("/api/memory/settings")).json()).toEqual({ settings: {} });
+      const saveRes = await send(app, "/api/memory/settings", "PUT", {
+        observationThreshold: 20_000,
+        reflectionThreshold: 60_000,
+      });
+      expect(saveRes.status).toBe(200);
+      expect(await (await app.request("/api/memory/settings")).json()).toEqual({
+        settings: { observationThreshold: 20_000, reflectionThreshold: 60_000 },
+      });
+      expect(
+        (await send(app, "/api/memory/settings", "PUT", { observationThreshold: -1 })).status
+      ).toBe(400);
+    });
+  });
+
+  describe("memory links", () => {
+    function send(app: Hono, path: string, method: string, body?: unknown) {
+      return app.request(path, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    }
+
+    it("links resources, reports privacy and unlinks them", async () => {
+      const suffix = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      const web = `/repos/web-${suffix}`;
+      const api = `/repos/api-${suffix}`;
+      const app = await createApp();
+
+      const linkRes = await send(app, "/api/memory/links", "POST", {
+        resourceId: web,
+        linkedResourceId: api,
+      });
+      expect(linkRes.status).toBe(201);
+      expect(await linkRes.json()).toEqual({
+        resourceId: web,
+        private: false,
+        links: [{ resourceId: api, workspace: null, private: false }],
+      });
+
+      const privacyRes = await send(app, "/api/memory/privacy", "PUT", {
+        resourceId: api,
+        private: true,
+      });
+      expect(await privacyRes.json()).toMatchObject({ resourceId: api, private: true });
+
+      const sharingRes = await app.request(
+        `/api/memory/links?resourceId=${encodeURIComponent(web)}`
+      );
+      expect((await sharingRes.json()).links).toEqual([
+        { resourceId: api, workspace: null, private: true },
+      ]);
+
+      const query = new URLSearchParams({ resourceId: api, linkedResourceId: web });
+      expect((await send(app, `/api/memory/links?${query}`, "DELETE")).status).toBe(200);
+      expect((await send(app, `/api/memory/links?${query}`, "DELETE")).status).toBe(404);
+      expect(
+        (await send(app, "/api/memory/links", "POST", { resourceId: web, linkedResourceId: web }))
+          .status
+      ).toBe(400);
+    });
+  });
+});
@@ -0,0 +1 @@
+export { memoryRoutes } from "./memory.route.js";
@@ -0,0 +1,297 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { zValidator } from "../../../../shared/controller/http/validators.js";
+import type { MemoryInspection } from "../../application/usecases/memory-inspector.usecase.js";
+import { buildMemoryUsecases } from "../factory/memory.factory.js";
+
+type Env = {
+  Variables: {
+    requestId: string;
+    startTime: number;
+  };
+};
+
+type ObservationRecord = NonNullable<MemoryInspection["observations"]>;
+type ReflectionRecord = MemoryInspection["reflections"][number];
+type WorkingMemoryRecord = NonNullable<MemoryInspection["workingMemory"]>;
+type PinRecord = MemoryInspection["pins"][number];
+
+const app = new Hono<Env>();
+const {
+  getEmbeddingStatusUsecase,
+  reindexEmbeddingsUsecase,
+  listMemoryResources,
+  inspectMemory,
+  updateObservations,
+  updateReflection,
+  deleteReflection,
+  saveWorkingMemory,
+  createPin,
+  updatePin,
+  deletePin,
+  getMemorySettings,
+  saveMemorySettings,
+  getMemorySharing,
+  linkMemory,
+  unlinkMemory,
+  setMemoryPrivacy,
+} = buildMemoryUsecases();
+
+const reindexSchema = z.object({
+  full: z.boolean().default(false),
+});
+
+const recordsQuerySchema = z.object({
+  resourceId: z.string().min(1),
+  threadId: z.string().min(1).optional(),
+});
+
+const idParamSchema = z.object({
+  id: z.string().min(1),
+});
+
+const contentSchema = z.object({
+  content: z.string(),
+});
+
+const workingMemorySchema = z.object({
+  resourceId: z.string().min(1),
+  threadId: z.string().min(1).optional(),
+  content: z.string(),
+});
+
+const createPinSchema = z.object({
+  resourceId: z.string().min(1),
+  threadId: z.string().min(1).optional(),
+  content: z.string().trim().min(1),
+  sourceType: z.enum(["manual", "observation", "reflection"]).optional(),
+  sourceId: z.string().min(1).optional(),
+});
+
+const pinContentSchema = z.object({
+  content: z.string().trim().min(1),
+});
+
+const settingsSchema = z.object({
+  observationThreshold: z.number().int().positive().optional(),
+  reflectionThreshold: z.number().int().positive().optional(),
+});
+
+const resourceQuerySchema = z.object({
+  resourceId: z.string().min(1),
+});
+
+const linkSchema = z.object({
+  resourceId: z.string().min(1),
+  linkedResourceId: z.string().min(1),
+});
+
+const privacySchema = z.object({
+  resourceId: z.string().min(1),
+  private: z.boolean(),
+});
+
+function serializeObservations(record: ObservationRecord) {
+  return {
+    id: record.id,
+    scope: record.scope,
+    threadId: record.thread_id,
+    resourceId: record.resource_id,
+    content: record.active_observations ?? "",
+    generationCount: record.generation_count,
+    busy: Boolean(record.is_observing || record.is_reflecting),
+    updatedAt: record.updated_at.toISOString(),
+  };
+}
+
+function serializeReflection(reflection: ReflectionRecord) {
+  return {
+    id: reflection.id,
+    threadId: reflection.thread_id,
+    resourceId: reflection.resource_id,
+    content: reflection.content,
+    generationCount: reflection.generation_count,
+    tokenCount: reflection.token_count,
+    createdAt: reflection.created_at.toISOString(),
+    updatedAt: reflection.updated_at.toISOString(),
+  };
+}
+
+function serializeWorkingMemory(memory: WorkingMemoryRecord) {
+  return {
+    id: memory.id,
+    resourceId: memory.resource_id,
+    scope: memory.scope,
+    content: memory.content,
+    updatedAt: memory.updated_at.toISOString(),
+  };
+}
+
+function serializePin(pin: PinRecord) {
+  return {
+    id: pin.id,
+    resourceId: pin.resource_id,
+    threadId: pin.thread_id,
+    content: pin.content,
+    sourceType: pin.source_type,
+    sourceId: pin.source_id,
+    createdAt: pin.created_at.toISOString(),
+    updatedAt: pin.updated_at.toISOString(),
+  };
+}
+
+function serializeInspection(inspection: MemoryInspection) {
+  return {
+    resourceId: inspection.resourceId,
+    threadId: inspection.threadId,
+    observations: inspection.observations ? serializeObservations(inspection.observations) : null,
+    reflections: inspection.reflections.map(serializeReflection),
+    workingMemory: inspection.workingMemory
+      ? serializeWorkingMemory(inspection.workingMemory)
+      : null,
+    pins: inspection.pins.map(serializePin),
+    keypoints: inspection.keypoints.map(keypoint => ({
+      id: keypoint.id,
+      taskTitle: keypoint.taskTitle,
+      milestone: keypoint.milestone,
+      summary: keypoint.summary,
+      completedAt: keypoint.completedAt.toISOString(),
+    })),
+  };
+}
+
+app.get("/api/memory/embeddings", async c => {
+  return c.json(await getEmbeddingStatusUsecase());
+});
+
+app.post("/api/memory/embeddings/reindex", zValidator("json", reindexSchema), async c => {
+  const { full } = c.req.valid("json");
+  const status = await getEmbeddingStatusUsecase();
+  if (!status.enabled) {
+    return c.json({ error: "No embedding model is configured" }, 409);
+  }
+
+  try {
+    return c.json(await reindexEmbeddingsUsecase({ full }));
+  } catch (error) {
+    // The embedding model is unreachable or rejected the input
+    return c.json({ error: error instanceof Error ? error.message : "Re-index failed" }, 502);
+  }
+});
+
+app.get("/api/memory/resources", async c => {
+  const resources = await listMemoryResources();
+  return c.json({
+    resources: resources.map(resource => ({
+      ...resource,
+      threads: resource.threads.map(thread => ({
+        ...thread,
+        updatedAt: thread.updatedAt.toISOString(),
+      })),
+    })),
+  });
+});
+
+app.get("/api/memory/records", zValidator("query", recordsQuerySchema), async c => {
+  return c.json(serializeInspection(await inspectMemory(c.req.valid("query"))));
+});
+
+app.patch(
+  "/api/memory/observations/:id",
+  zValidator("param", idParamSchema),
+  zValidator("json", contentSchema),
+  async c => {
+    const { id } = c.req.valid("param");
+    const { content } = c.req.valid("json");
+
+    try {
+      const record = await updateObservations(id, content);
+      if (!record) return c.json({ error: "Observations not found" }, 404);
+      return c.json({ observations: serializeObservations(record) });
+    } catch (error) {
+      if (error instanceof Error && error.name === "MemoryBusyError") {
+        return c.json({ error: error.message }, 409);
+      }
+      throw error;
+    }
+  }
+);
+
+app.patch(
+  "/api/memory/reflections/:id",
+  zValidator("param", idParamSchema),
+  zValidator("json", contentSchema),
+  async c => {
+    const { id } = c.req.valid("param");
+    const reflection = await updateReflection(id, c.req.valid("json").content);
+    if (!reflection) return c.json({ error: "Reflection not found" }, 404);
+    return c.json({ reflection: serializeReflection(reflection) });
+  }
+);
+
+app.delete("/api/memory/reflections/:id", zValidator("param", idParamSchema), async c => {
+  const deleted = await deleteReflection(c.req.valid("param").id);
+  if (!deleted) return c.json({ error: "Reflection not found" }, 404);
+  return c.json({ success: true });
+});
+
+app.put("/api/memory/working-memory", zValidator("json", workingMemorySchema), async c => {
+  const memory = await saveWorkingMemory(c.req.valid("json"));
+  return c.json({ workingMemory: serializeWorkingMemory(memory) });
+});
+
+app.post("/api/memory/pins", zValidator("json", createPinSchema), async c => {
+  const pin = await createPin(c.req.valid("json"));
+  return c.json({ pin: serializePin(pin) }, 201);
+});
+
+app.patch(
+  "/api/memory/pins/:id",
+  zValidator("param", idParamSchema),
+  zValidator("json", pinContentSchema),
+  async c => {
+    const pin = await updatePin(c.req.valid("param").id, c.req.valid("json").content);
+    if (!pin) return c.json({ error: "Pin not found" }, 404);
+    return c.json({ pin: serializePin(pin) });
+  }
+);
+
+app.delete("/api/memory/pins/:id", zValidator("param", idParamSchema), async c => {
+  const deleted = await deletePin(c.req.valid("param").id);
+  if (!deleted) return c.json({ error: "Pin not found" }, 404);
+  return c.json({ success: true });
+});
+
+app.get("/api/memory/settings", async c => {
+  return c.json({ settings: await getMemorySettings() });
+});
+
+app.put("/api/memory/settings", zValidator("json", settingsSchema), async c => {
+  return c.json({ settings: await saveMemorySettings(c.req.valid("json")) });
+});
+
+app.get("/api/memory/links", zValidator("query", resourceQuerySchema), async c => {
+  return c.json(await getMemorySharing(c.req.valid("query").resourceId));
+});
+
+app.post("/api/memory/links", zValidator("json", linkSchema), async c => {
+  const { resourceId, linkedResourceId } = c.req.valid("json");
+  if (resourceId === linkedResourceId) {
+    return c.json({ error: "A resource cannot be linked to itself" }, 400);
+  }
+  return c.json(await linkMemory(resourceId, linkedResourceId), 201);
+});
+
+app.delete("/api/memory/links", zValidator("query", linkSchema), async c => {
+  const { resourceId, linkedResourceId } = c.req.valid("query");
+  const deleted = await unlinkMemory(resourceId, linkedResourceId);
+  if (!deleted) return c.json({ error: "Link not found" }, 404);
+  return c.json({ success: true });
+});
+
+app.put("/api/memory/privacy", zValidator("json", privacySchema), async c => {
+  const { resourceId, private: isPrivate } = c.req.valid("json");
+  return c.json(await setMemoryPrivacy(resourceId, isPrivate));
+});
+
+export const memoryRoutes = app;
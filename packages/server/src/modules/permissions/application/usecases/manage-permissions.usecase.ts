@@ -12,7 +12,7 @@ export async function approvePermissionUsecase(input: ApprovePermissionInput): P
   const pending = permissionManager.getPendingRequests();
   const match = pending.find(request => request.id === input.id);
 
-  permissionManager.handleResponse({
+  await permissionManager.handleResponse({
     id: input.id,
     approved: input.approved,
     patterns: input.patterns,
@@ -37,7 +37,7 @@ export function listPendingPermissionsUsecase() {
   return permissionManager.getPendingRequests();
 }
 
-export function clearSessionPermissionsUsecase(sessionID: string): void {
+export async function clearSessionPermissionsUsecase(sessionID: string): Promise<void> {
   const permissionManager = PermissionManager.getInstance();
-  permissionManager.clearSession(sessionID);
+  await permissionManager.clearSession(sessionID);
 }
@@ -65,7 +65,7 @@ const sessionParamSchema = z.object({
   sessionID: z.string().min(1),
 });
 
-app.post("/session/:sessionID/clear", zValidator("param", sessionParamSchema), c => {
+app.post("/session/:sessionID/clear", zValidator("param", sessionParamSchema), async c => {
   const requestId = c.get("requestId");
   const { sessionID } = c.req.valid("param");
 
@@ -75,7 +75,7 @@ app.post("/session/:sessionID/clear", zValidator("param", sessionParamSchema), c
     sessionID,
   });
 
-  clearSessionPermissionsUsecase(sessionID);
+  await clearSessionPermissionsUsecase(sessionID);
 
   return c.json({ success: true });
 });
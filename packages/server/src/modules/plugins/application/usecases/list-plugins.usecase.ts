@@ -0,0 +1,46 @@
+import type { PluginStatus } from "@sakti-code/core";
+
+export interface WorkspacePluginsOutput {
+  directory: string;
+  apiVersion: number;
+  userDir: string;
+  workspaceDir: string;
+  plugins: PluginStatus[];
+}
+
+async function describePlugins(directory: string): Promise<WorkspacePluginsOutput> {
+  const { getUserPluginsDir, getWorkspacePluginsDir, PLUGIN_API_VERSION, Plugins } =
+    await import("@sakti-code/core");
+
+  return {
+    directory,
+    apiVersion: PLUGIN_API_VERSION,
+    userDir: getUserPluginsDir(),
+    workspaceDir: getWorkspacePluginsDir(directory),
+    plugins: Plugins.getStatus(directory),
+  };
+}
+
+export async function listPluginsUsecase(directory: string): Promise<WorkspacePluginsOutput> {
+  const { Plugins } = await import("@sakti-code/core");
+  await Plugins.ensureWorkspace(directory);
+  return describePlugins(directory);
+}
+
+/**
+ * Trust a workspace plugin for the user and load it
+ */
+export async function trustPluginUsecase(
+  directory: string,
+  pluginPath: string
+): Promise<WorkspacePluginsOutput> {
+  const { Plugins } = await import("@sakti-code/core");
+  await Plugins.trust(directory, pluginPath);
+  return describePlugins(directory);
+}
+
+export async function reloadPluginsUsecase(directory: string): Promise<WorkspacePluginsOutput> {
+  const { Plugins } = await import("@sakti-code/core");
+  await Plugins.reload(directory);
+  return describePlugins(directory);
+}
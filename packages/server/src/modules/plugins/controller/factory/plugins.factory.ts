@@ -0,0 +1,9 @@
+import {
+  listPluginsUsecase,
+  reloadPluginsUsecase,
+  trustPluginUsecase,
+} from "../../application/usecases/list-plugins.usecase.js";
+
+export function buildPluginsUsecases() {
+  return { listPluginsUsecase, reloadPluginsUsecase, trustPluginUsecase };
+}
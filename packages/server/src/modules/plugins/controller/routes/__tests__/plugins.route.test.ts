@@ -0,0 +1,119 @@
+import { Hono } from "hono";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+const PLUGIN = (tool: string) => `export default {
+  name: "tickets",
+  version: "1.0.0",
+  apiVersion: 1,
+  setup(api) {
+    api.registerTool("${tool}", { description: "Look up a ticket", execute: () => "ok" });
+  },
+};`;
+
+describe("Plugins Routes", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "plugins-route-"));
+    const { Plugins } = await import("@sakti-code/core");
+    Plugins.clear();
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  async function createApp() {
+    const app = new Hono();
+    const { pluginsRoutes } = await import("../plugins.route");
+    app.route("/", pluginsRoutes);
+    return app;
+  }
+
+  async function writePlugin(content: string) {
+    const dir = path.join(workspace, ".sakti-code", "plugins");
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(dir, "tickets.mjs");
+    await fs.writeFile(file, content, "utf-8");
+    // Bump the mtime so a reload imports the edited module
+    const mtime = new Date(Date.now() + 10_000);
+    await fs.utimes(file, mtime, mtime);
+    return file;
+  }
+
+  async function trustPlugin(app: Hono, file: string) {
+    return app.request("/api/plugins/trust", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ directory: workspace, path: file }),
+    });
+  }
+
+  it("requires a directory", async () => {
+    const app = await createApp();
+
+    const res = await app.request("/api/plugins");
+    expect(res.status).toBe(400);
+  });
+
+  it("lists workspace plugins as untrusted until they are trusted", async () => {
+    await writePlugin(PLUGIN("ticket_lookup"));
+    const app = await createApp();
+
+    const res = await app.request(`/api/plugins?directory=${encodeURIComponent(workspace)}`);
+
+    const json = await res.json();
+    expect(json.plugins).toEqual([
+      expect.objectContaining({ scope: "workspace", state: "untrusted", tools: [] }),
+    ]);
+  });
+
+  it("refuses to trust a path that is not a workspace plugin", async () => {
+    const app = await createApp();
+
+    const res = await trustPlugin(app, path.join(workspace, "elsewhere.mjs"));
+    expect(res.status).toBe(400);
+  });
+
+  it("lists plugins loaded for a workspace", async () => {
+    const file = await writePlugin(PLUGIN("ticket_lookup"));
+    const app = await createApp();
+    expect((await trustPlugin(app, file)).status).toBe(200);
+
+    const res = await app.request(`/api/plugins?directory=${encodeURIComponent(workspace)}`);
+    expect(res.status).toBe(200);
+
+    const json = await res.json();
+    expect(json.apiVersion).toBe(1);
+    expect(json.workspaceDir).toBe(path.join(workspace, ".sakti-code", "plugins"));
+    expect(json.plugins).toEqual([
+      expect.objectContaining({
+        name: "tickets",
+        scope: "workspace",
+        state: "loaded",
+        tools: ["ticket_lookup"],
+      }),
+    ]);
+  });
+
+  it("reloads plugins from disk", async () => {
+    const file = await writePlugin(PLUGIN("ticket_lookup"));
+    const app = await createApp();
+    await trustPlugin(app, file);
+
+    await writePlugin(PLUGIN("ticket_search"));
+    await trustPlugin(app, file);
+    const res = await app.request("/api/plugins/reload", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ directory: workspace }),
+    });
+    expect(res.status).toBe(200);
+
+    const json = await res.json();
+    expect(json.plugins[0].tools).toEqual(["ticket_search"]);
+  });
+});
@@ -0,0 +1 @@
+export { pluginsRoutes } from "./plugins.route.js";
@@ -0,0 +1,57 @@
+import { errorMessage } from "@sakti-code/shared/errors";
+import { Hono } from "hono";
+import { z } from "zod";
+import type { Env } from "../../../../index.js";
+import { resolveDirectory } from "../../../../shared/controller/http/directory-resolver.js";
+import { zValidator } from "../../../../shared/controller/http/validators.js";
+import { buildPluginsUsecases } from "../factory/plugins.factory.js";
+
+const app = new Hono<Env>();
+const { listPluginsUsecase, reloadPluginsUsecase, trustPluginUsecase } = buildPluginsUsecases();
+
+const directoryQuerySchema = z.object({
+  directory: z.string().optional(),
+});
+
+const reloadSchema = z.object({
+  directory: z.string().optional(),
+});
+
+const trustSchema = z.object({
+  directory: z.string().optional(),
+  path: z.string().min(1),
+});
+
+app.get("/api/plugins", zValidator("query", directoryQuerySchema), async c => {
+  const resolution = resolveDirectory(c);
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  return c.json(await listPluginsUsecase(resolution.directory));
+});
+
+app.post("/api/plugins/reload", zValidator("json", reloadSchema), async c => {
+  const resolution = resolveDirectory(c, { directory: c.req.valid("json").directory });
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  return c.json(await reloadPluginsUsecase(resolution.directory));
+});
+
+app.post("/api/plugins/trust", zValidator("json", trustSchema), async c => {
+  const body = c.req.valid("json");
+  const resolution = resolveDirectory(c, { directory: body.directory });
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  try {
+    return c.json(await trustPluginUsecase(resolution.directory, body.path));
+  } catch (error) {
+    return c.json({ error: errorMessage(error, "Invalid plugin") }, 400);
+  }
+});
+
+export const pluginsRoutes = app;
@@ -0,0 +1,139 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { LocalProviderAdapter } from "../../adapters/local";
+
+type Handler = (body: Record<string, unknown>) => unknown;
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+  servers.length = 0;
+});
+
+async function startFakeServer(routes: Record<string, Handler>): Promise<string> {
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = "";
+    req.on("data", chunk => (raw += chunk));
+    req.on("end", () => {
+      const handler = routes[`${req.method} ${req.url}`];
+      if (!handler) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(handler(raw ? JSON.parse(raw) : {})));
+    });
+  });
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+describe("LocalProviderAdapter", () => {
+  it("describes a provider that needs no credentials", () => {
+    const adapter = new LocalProviderAdapter({ baseUrl: "http://127.0.0.1:1" });
+
+    expect(adapter.describe().id).toBe("local");
+    expect(adapter.describe().auth.kind).toBe("none");
+  });
+
+  it("discovers ollama models with context length and capabilities", async () => {
+    const baseUrl = await startFakeServer({
+      "GET /api/tags": () => ({
+        models: [{ name: "qwen3:8b" }, { name: "llava:7b" }, { name: "nomic-embed-text" }],
+      }),
+      "POST /api/show": body => {
+        switch (body.model) {
+          case "qwen3:8b":
+            return {
+              model_info: { "general.architecture": "qwen3", "qwen3.context_length": 40960 },
+              capabilities: ["completion", "tools", "thinking"],
+            };
+          case "llava:7b":
+            return {
+              model_info: { "general.architecture": "llama", "llama.context_length": 4096 },
+              capabilities: ["completion", "vision"],
+            };
+          default:
+            return { capabilities: ["embedding"] };
+        }
+      },
+    });
+
+    const adapter = new LocalProviderAdapter({ baseUrl, api: "auto" });
+    const models = await adapter.listModels();
+
+    expect(models.map(model => model.id)).toEqual(["local/qwen3:8b", "local/llava:7b"]);
+    expect(models[0]).toMatchObject({
+      providerId: "local",
+      providerApiUrl: `${baseUrl}/v1`,
+      providerNpmPackage: "@ai-sdk/openai-compatible",
+      contextWindow: 40960,
+      capabilities: { tools: true, vision: false },
+    });
+    expect(models[1]).toMatchObject({
+      contextWindow: 4096,
+      capabilities: { tools: false, vision: true },
+    });
+  });
+
+  it("reads LM Studio details through the OpenAI-compatible api", async () => {
+    const baseUrl = await startFakeServer({
+      "GET /v1/models": () => ({
+        data: [{ id: "qwen2.5-coder-7b" }, { id: "text-embedding-nomic" }],
+      }),
+      "GET /api/v0/models": () => ({
+        data: [
+          {
+            id: "qwen2.5-coder-7b",
+            type: "llm",
+            max_context_length: 32768,
+            capabilities: ["tool_use"],
+          },
+          { id: "text-embedding-nomic", type: "embeddings", max_context_length: 2048 },
+        ],
+      }),
+    });
+
+    const adapter = new LocalProviderAdapter({ baseUrl: `${baseUrl}/v1/`, api: "openai" });
+    const models = await adapter.listModels();
+
+    expect(models).toHaveLength(1);
+    expect(models[0]).toMatchObject({
+      id: "local/qwen2.5-coder-7b",
+      providerApiUrl: `${baseUrl}/v1`,
+      contextWindow: 32768,
+      capabilities: { tools: true },
+    });
+  });
+
+  it("reads llama.cpp server props when ollama is not available", async () => {
+    const baseUrl = await startFakeServer({
+      "GET /v1/models": () => ({ data: [{ id: "gemma-3-4b.gguf" }] }),
+      "GET /props": () => ({
+        default_generation_settings: { n_ctx: 16384 },
+        chat_template_caps: { supports_tools: false },
+      }),
+    });
+
+    const adapter = new LocalProviderAdapter({ baseUrl });
+    const models = await adapter.listModels();
+
+    expect(models[0]).toMatchObject({
+      id: "local/gemma-3-4b.gguf",
+      contextWindow: 16384,
+      capabilities: { tools: false },
+    });
+  });
+
+  it("returns no models when the server is unreachable", async () => {
+    const baseUrl = await startFakeServer({});
+    await new Promise(resolve => servers.pop()!.close(resolve));
+
+    const adapter = new LocalProviderAdapter({ baseUrl, timeoutMs: 500 });
+
+    await expect(adapter.listModels()).resolves.toEqual([]);
+  });
+});
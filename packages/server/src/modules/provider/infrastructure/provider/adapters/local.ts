@@ -0,0 +1,258 @@
+import type { ModelDescriptor, ProviderAuthState, ProviderDescriptor } from "../types";
+import type { ProviderAdapter, SetProviderCredentialInput } from "./base";
+
+export type LocalProviderApi = "ollama" | "openai" | "auto";
+
+export interface LocalProviderAdapterOptions {
+  /** Server root, e.g. http://127.0.0.1:11434; a trailing /v1 is ignored */
+  baseUrl?: string;
+  /** Discovery protocol; "auto" tries Ollama first, then OpenAI-compatible */
+  api?: LocalProviderApi;
+  /** Per-request timeout for discovery calls */
+  timeoutMs?: number;
+  /** How long discovered models are reused before asking the server again */
+  cacheTtlMs?: number;
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_BASE_URL = "http://127.0.0.1:11434";
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+interface DiscoveredModel {
+  id: string;
+  contextWindow?: number;
+  tools?: boolean;
+  vision?: boolean;
+}
+
+interface OllamaTagsResponse {
+  models?: Array<{ name?: string; model?: string }>;
+}
+
+interface OllamaShowResponse {
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+}
+
+interface OpenAIModelsResponse {
+  data?: Array<{ id?: string; meta?: { n_ctx_train?: number } }>;
+}
+
+interface LMStudioModelsResponse {
+  data?: Array<{
+    id?: string;
+    type?: string;
+    max_context_length?: number;
+    loaded_context_length?: number;
+    capabilities?: string[];
+  }>;
+}
+
+interface LlamaCppPropsResponse {
+  default_generation_settings?: { n_ctx?: number };
+  chat_template_caps?: { supports_tools?: boolean };
+}
+
+function normalizeBaseUrl(input: string): string {
+  return input.trim().replace(/\/+$/, "").replace(/\/v1$/, "");
+}
+
+function parseApi(input: string | undefined): LocalProviderApi {
+  return input === "ollama" || input === "openai" ? input : "auto";
+}
+
+function positiveInt(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Models served by a local Ollama, llama.cpp or LM Studio server
+ *
+ * Models, context lengths and tool support are read from the server itself,
+ * so the list follows whatever is pulled or loaded locally. An unreachable
+ * server yields no models rather than an error.
+ */
+export class LocalProviderAdapter implements ProviderAdapter {
+  readonly id = "local";
+
+  private readonly baseUrl: string;
+  private readonly api: LocalProviderApi;
+  private readonly timeoutMs: number;
+  private readonly cacheTtlMs: number;
+  private readonly fetchImpl: typeof fetch;
+  private inMemoryToken: string | null = null;
+  private cache: { models: ModelDescriptor[]; expiresAt: number } | null = null;
+
+  constructor(options: LocalProviderAdapterOptions = {}) {
+    this.baseUrl = normalizeBaseUrl(
+      options.baseUrl ?? process.env.SAKTI_CODE_LOCAL_PROVIDER_URL ?? DEFAULT_BASE_URL
+    );
+    this.api = options.api ?? parseApi(process.env.SAKTI_CODE_LOCAL_PROVIDER_API);
+    this.timeoutMs = options.timeoutMs ?? 2000;
+    this.cacheTtlMs = options.cacheTtlMs ?? 30_000;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  describe(): ProviderDescriptor {
+    return {
+      id: "local",
+      name: "Local",
+      env: ["SAKTI_CODE_LOCAL_PROVIDER_URL"],
+      api: true,
+      models: true,
+      auth: { kind: "none" },
+    };
+  }
+
+  async listModels(): Promise<ModelDescriptor[]> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.models;
+    }
+
+    const discovered = await this.discover();
+    const models = discovered.map(model => this.toDescriptor(model));
+    this.cache = { models, expiresAt: Date.now() + this.cacheTtlMs };
+    return models;
+  }
+
+  async getAuthState(): Promise<ProviderAuthState> {
+    return {
+      providerId: "local",
+      status: "connected",
+      method: this.inMemoryToken ? "token" : "none",
+      accountLabel: null,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  async setCredential(input: SetProviderCredentialInput): Promise<void> {
+    this.inMemoryToken = input.token;
+  }
+
+  async clearCredential(): Promise<void> {
+    this.inMemoryToken = null;
+  }
+
+  private async discover(): Promise<DiscoveredModel[]> {
+    if (this.api !== "openai") {
+      const ollama = await this.discoverOllama();
+      if (ollama || this.api === "ollama") return ollama ?? [];
+    }
+    return (await this.discoverOpenAICompatible()) ?? [];
+  }
+
+  private async discoverOllama(): Promise<DiscoveredModel[] | null> {
+    const tags = await this.request<OllamaTagsResponse>("/api/tags");
+    if (!Array.isArray(tags?.models)) return null;
+
+    const names = tags.models
+      .map(model => model.model ?? model.name)
+      .filter((name): name is string => typeof name === "string" && name.length > 0);
+
+    const models = await Promise.all(
+      names.map(async (name): Promise<DiscoveredModel | null> => {
+        const show = await this.request<OllamaShowResponse>("/api/show", { model: name });
+        const capabilities = show?.capabilities;
+        // Embedding-only models cannot chat
+        if (capabilities && !capabilities.includes("completion")) return null;
+
+        const info = show?.model_info ?? {};
+        const architecture = info["general.architecture"];
+        const contextWindow =
+          typeof architecture === "string"
+            ? positiveInt(info[`${architecture}.context_length`])
+            : undefined;
+
+        return {
+          id: name,
+          contextWindow,
+          tools: capabilities?.includes("tools"),
+          vision: capabilities?.includes("vision"),
+        };
+      })
+    );
+
+    return models.filter((model): model is DiscoveredModel => model !== null);
+  }
+
+  private async discoverOpenAICompatible(): Promise<DiscoveredModel[] | null> {
+    const listed = await this.request<OpenAIModelsResponse>("/v1/models");
+    if (!Array.isArray(listed?.data)) return null;
+
+    // LM Studio and llama.cpp expose model details outside the OpenAI API
+    const [lmStudio, llamaCpp] = await Promise.all([
+      this.request<LMStudioModelsResponse>("/api/v0/models"),
+      this.request<LlamaCppPropsResponse>("/props"),
+    ]);
+    const lmStudioById = new Map(
+      (lmStudio?.data ?? []).flatMap(model => (model.id ? [[model.id, model] as const] : []))
+    );
+
+    const models: DiscoveredModel[] = [];
+    for (const model of listed.data) {
+      if (!model.id) continue;
+      const details = lmStudioById.get(model.id);
+      if (details?.type === "embeddings") continue;
+
+      models.push({
+        id: model.id,
+        contextWindow:
+          positiveInt(details?.loaded_context_length) ??
+          positiveInt(details?.max_context_length) ??
+          positiveInt(llamaCpp?.default_generation_settings?.n_ctx) ??
+          positiveInt(model.meta?.n_ctx_train),
+        tools: details
+          ? (details.capabilities?.includes("tool_use") ?? false)
+          : llamaCpp?.chat_template_caps?.supports_tools,
+        vision: details ? details.type === "vlm" : undefined,
+      });
+    }
+    return models;
+  }
+
+  private toDescriptor(model: DiscoveredModel): ModelDescriptor {
+    const contextWindow = model.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+    return {
+      id: `local/${model.id}`,
+      name: model.id,
+      providerId: "local",
+      providerName: "Local",
+      providerApiUrl: `${this.baseUrl}/v1`,
+      providerNpmPackage: "@ai-sdk/openai-compatible",
+      contextWindow,
+      maxOutputTokens: Math.min(DEFAULT_MAX_OUTPUT_TOKENS, contextWindow),
+      modalities: {
+        input: model.vision ? ["text", "image"] : ["text"],
+        output: ["text"],
+      },
+      capabilities: {
+        text: true,
+        vision: model.vision ?? false,
+        // Servers that do not report tool support are assumed to have it,
+        // as the agent cannot work without tools
+        tools: model.tools ?? true,
+        reasoning: false,
+        plan: false,
+      },
+    };
+  }
+
+  private async request<T>(path: string, body?: unknown): Promise<T | null> {
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+        method: body === undefined ? "GET" : "POST",
+        headers: {
+          ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+          ...(this.inMemoryToken ? { Authorization: `Bearer ${this.inMemoryToken}` } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) return null;
+      return (await response.json()) as T;
+    } catch {
+      return null;
+    }
+  }
+}
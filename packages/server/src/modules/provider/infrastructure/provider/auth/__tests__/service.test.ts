@@ -151,4 +151,20 @@ describe("provider auth service", () => {
     expect(state.status).toBe("error");
     expect(state.method).toBe("oauth");
   });
+
+  it("reports keyless providers as connected without a stored credential", async () => {
+    const base = await mkdtemp(join(tmpdir(), "sakti-code-provider-auth-"));
+    tempDirs.push(base);
+
+    const auth = createProviderAuthService({
+      storage: createProviderCredentialStorage({ baseDir: base }),
+      profileId: "default",
+    });
+
+    const state = await auth.getState("local");
+
+    expect(state.status).toBe("connected");
+    expect(state.method).toBe("none");
+    expect(await auth.getCredential("local")).toBeNull();
+  });
 });
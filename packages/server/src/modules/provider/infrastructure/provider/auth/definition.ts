@@ -51,7 +51,7 @@ export interface ProviderOAuthRefreshResult {
 }
 
 export interface ProviderAuthMethodDefinition {
-  type: "api" | "oauth" | "token";
+  type: "api" | "oauth" | "token" | "none";
   label: string;
   prompts?: ProviderAuthPrompt[];
   authorize?: (inputs?: Record<string, unknown>) => Promise<OAuthAuthorization>;
@@ -1,6 +1,7 @@
 import type { ProviderAuthDefinition } from "../definition";
 import { createAnthropicProviderAuthDefinition } from "./anthropic";
 import { createGitHubCopilotProviderAuthDefinition } from "./copilot";
+import { createLocalProviderAuthDefinition } from "./local";
 import { createOpenAIProviderAuthDefinition } from "./openai";
 
 export function createBuiltinProviderAuthDefinitions(): ProviderAuthDefinition[] {
@@ -8,5 +9,6 @@ export function createBuiltinProviderAuthDefinitions(): ProviderAuthDefinition[]
     createGitHubCopilotProviderAuthDefinition(),
     createOpenAIProviderAuthDefinition(),
     createAnthropicProviderAuthDefinition(),
+    createLocalProviderAuthDefinition(),
   ];
 }
@@ -0,0 +1,17 @@
+import type { ProviderAuthDefinition } from "../definition";
+
+export function createLocalProviderAuthDefinition(): ProviderAuthDefinition {
+  return {
+    providerId: "local",
+    methods: [
+      {
+        type: "none",
+        label: "No authentication",
+      },
+      {
+        type: "api",
+        label: "API Key (if the server requires one)",
+      },
+    ],
+  };
+}
@@ -1,5 +1,6 @@
 import type { ProviderCredentialStorage } from "../storage";
 import type { ProviderAuthState } from "../types";
+import { getProviderAuthMethods } from "./registry";
 
 export interface SetProviderTokenInput {
   providerId: string;
@@ -116,12 +117,19 @@ export function createProviderAuthService(
       const record = await options.storage.get({ providerId, profileId: options.profileId });
       const credential = await loadCredential(providerId);
       const hasInvalidPersistedOAuth = record?.kind === "oauth" && !credential;
-      const status = hasInvalidPersistedOAuth ? "error" : record ? "connected" : "disconnected";
+      // Providers such as local model servers work without any credential
+      const keyless =
+        !record && getProviderAuthMethods(providerId).some(method => method.type === "none");
+      const status = hasInvalidPersistedOAuth
+        ? "error"
+        : record || keyless
+          ? "connected"
+          : "disconnected";
 
       return {
         providerId,
         status,
-        method: record?.kind ?? "token",
+        method: record?.kind ?? (keyless ? "none" : "token"),
         accountLabel: credential?.kind === "oauth" ? (credential.oauth.accountLabel ?? null) : null,
         updatedAt: record?.updatedAt ?? new Date().toISOString(),
       };
@@ -33,6 +33,7 @@ const PROVIDER_NOTES: Record<string, string> = {
   anthropic: "Direct access to Claude models",
   google: "Gemini models for structured and multimodal tasks",
   openrouter: "Access many models from one provider",
+  local: "Models served by Ollama, llama.cpp or LM Studio on this machine",
 };
 
 function titleCaseProviderId(providerId: string): string {
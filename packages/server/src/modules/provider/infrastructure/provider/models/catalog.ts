@@ -24,6 +24,22 @@ interface CatalogModelLike {
     api?: string;
     npm?: string;
   };
+  cost?: {
+    input?: number;
+    output?: number;
+    cache_read?: number;
+    cache_write?: number;
+  };
+}
+
+function buildModelPricing(cost: CatalogModelLike["cost"]): ModelDescriptor["pricing"] {
+  if (typeof cost?.input !== "number" || typeof cost.output !== "number") return undefined;
+  return {
+    input: cost.input,
+    output: cost.output,
+    cacheRead: cost.cache_read,
+    cacheWrite: cost.cache_write,
+  };
 }
 
 function buildModelDescriptor(
@@ -58,6 +74,7 @@ function buildModelDescriptor(
             output: model.modalities?.output ?? [],
           }
         : undefined,
+    pricing: buildModelPricing(model.cost),
     capabilities: inferModelCapabilities({
       providerId,
       modelId: model.id,
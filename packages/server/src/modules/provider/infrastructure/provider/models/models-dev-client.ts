@@ -9,6 +9,13 @@ export interface ModelsDevModel {
     api?: string;
     npm?: string;
   };
+  /** USD per million tokens */
+  cost?: {
+    input?: number;
+    output?: number;
+    cache_read?: number;
+    cache_write?: number;
+  };
 }
 
 export interface ModelsDevProvider {
@@ -1,5 +1,6 @@
 import { AnthropicProviderAdapter } from "./adapters/anthropic";
 import type { ProviderAdapter } from "./adapters/base";
+import { LocalProviderAdapter } from "./adapters/local";
 import { OpenAIProviderAdapter } from "./adapters/openai";
 import { ZaiProviderAdapter } from "./adapters/zai";
 import type { ProviderDescriptor } from "./types";
@@ -15,9 +16,11 @@ export function createProviderRegistry(): ProviderRegistry {
   const zai = new ZaiProviderAdapter();
   const openai = new OpenAIProviderAdapter();
   const anthropic = new AnthropicProviderAdapter();
+  const local = new LocalProviderAdapter();
   adapters.set(zai.id, zai);
   adapters.set(openai.id, openai);
   adapters.set(anthropic.id, anthropic);
+  adapters.set(local.id, local);
 
   return { adapters };
 }
@@ -118,6 +118,15 @@ export const modelDescriptorSchema = z.object({
   contextWindow: z.number().int().nonnegative(),
   maxOutputTokens: z.number().int().nonnegative(),
   modalities: modelModalitiesSchema.optional(),
+  /** USD per million tokens; absent when the catalog has no pricing */
+  pricing: z
+    .object({
+      input: z.number().nonnegative(),
+      output: z.number().nonnegative(),
+      cacheRead: z.number().nonnegative().optional(),
+      cacheWrite: z.number().nonnegative().optional(),
+    })
+    .optional(),
   capabilities: z.object({
     text: z.boolean(),
     vision: z.boolean(),
@@ -1,21 +1,21 @@
 import {
   PermissionManager,
   createDefaultRules,
-  evaluatePermission,
   formatConfigRules,
   parseConfigRules,
 } from "@sakti-code/core/server";
+import type {
+  RuleAction,
+  RuleCondition,
+  RuleInput,
+} from "../../domain/repositories/permission-rule.repository.js";
 
-type RuleAction = "allow" | "deny" | "ask";
-type RulePermission = "read" | "edit" | "bash" | "external_directory" | "mode_switch";
+export type { RuleCondition, RuleInput };
 
-export interface RuleInput {
-  permission: RulePermission;
-  pattern: string;
-  action: RuleAction;
-}
-
-export type RulesConfig = Record<string, RuleAction | Record<string, RuleAction>>;
+export type RulesConfig = Record<
+  string,
+  RuleAction | Record<string, RuleAction | { action: RuleAction; when?: RuleCondition[] }>
+>;
 
 export function listRulesUsecase() {
   const permissionManager = PermissionManager.getInstance();
@@ -61,8 +61,3 @@ export function clearRulesUsecase(): RuleInput[] {
   permissionManager.clearRules();
   return [];
 }
-
-export function evaluateRuleUsecase(input: { permission: RulePermission; pattern: string }) {
-  const rules = listRulesUsecase();
-  return evaluatePermission(input.permission, input.pattern, rules);
-}
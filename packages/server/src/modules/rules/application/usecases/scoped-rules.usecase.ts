@@ -0,0 +1,181 @@
+import {
+  PermissionManager,
+  evaluateLayeredPatterns,
+  formatConfigRules,
+  parseCommand,
+  parseConfigRules,
+  type LayeredEvaluation,
+  type PermissionPolicyStore,
+} from "@sakti-code/core/server";
+import type { PermissionRuleScope, PermissionRuleSet } from "@sakti-code/shared";
+import type { ITaskSessionRepository } from "../../../task-sessions/domain/repositories/task-session.repository.js";
+import type {
+  IPermissionRuleRepository,
+  PermissionRuleRecord,
+  PermissionRuleScopeKey,
+  RuleInput,
+  RulePermission,
+} from "../../domain/repositories/permission-rule.repository.js";
+import type { RulesConfig } from "./manage-rules.usecase.js";
+
+export interface RuleScopeInput {
+  scope: PermissionRuleScope;
+  /** Workspace ID or task session ID; ignored for the global scope */
+  scopeId?: string;
+}
+
+export interface EvaluateScopedRuleInput {
+  permission: RulePermission;
+  pattern: string;
+  sessionId?: string;
+  workspaceId?: string;
+}
+
+export interface EvaluateScopedRuleOutput extends LayeredEvaluation {
+  permission: RulePermission;
+  pattern: string;
+}
+
+type ScopedRuleSessions = Pick<ITaskSessionRepository, "getById">;
+
+function toScopeKey(input: RuleScopeInput): PermissionRuleScopeKey {
+  if (input.scope === "global") {
+    return { scope: "global", scopeId: null };
+  }
+  if (!input.scopeId) {
+    throw new Error(`Scope ID required for ${input.scope} rules`);
+  }
+  return { scope: input.scope, scopeId: input.scopeId };
+}
+
+function toRuleSet(scope: PermissionRuleScope, records: PermissionRuleRecord[]): PermissionRuleSet {
+  return {
+    layer: scope,
+    rules: records.map(({ permission, pattern, action, when }) => ({
+      permission,
+      pattern,
+      action,
+      ...(when ? { when } : {}),
+    })),
+  };
+}
+
+export function createScopedRuleUsecases(
+  repository: IPermissionRuleRepository,
+  sessions: ScopedRuleSessions
+) {
+  /**
+   * Persisted rule sets for a session or workspace, most specific first
+   *
+   * A session's workspace rules apply unless a workspace is given explicitly.
+   * Session approvals are left out; they never override a rule.
+   */
+  async function getRuleSets(target: {
+    sessionId?: string;
+    workspaceId?: string;
+  }): Promise<PermissionRuleSet[]> {
+    const ruleSets: PermissionRuleSet[] = [];
+
+    let workspaceId = target.workspaceId;
+    if (target.sessionId) {
+      const records = await repository.list({ scope: "session", scopeId: target.sessionId });
+      ruleSets.push(
+        toRuleSet(
+          "session",
+          records.filter(record => record.source === "rule")
+        )
+      );
+      workspaceId ??= (await sessions.getById(target.sessionId))?.workspaceId ?? undefined;
+    }
+    if (workspaceId) {
+      const records = await repository.list({ scope: "workspace", scopeId: workspaceId });
+      ruleSets.push(toRuleSet("workspace", records));
+    }
+    ruleSets.push(toRuleSet("global", await repository.list({ scope: "global", scopeId: null })));
+
+    return ruleSets;
+  }
+
+  const policyStore: PermissionPolicyStore = {
+    getRuleSets: sessionId => getRuleSets({ sessionId }),
+    async getApprovals(sessionId) {
+      const records = await repository.list({ scope: "session", scopeId: sessionId });
+      return toRuleSet(
+        "session",
+        records.filter(record => record.source === "approval")
+      ).rules;
+    },
+    async saveApproval(sessionId, permission, patterns) {
+      await repository.append(
+        { scope: "session", scopeId: sessionId },
+        patterns.map(pattern => ({ permission, pattern, action: "allow" })),
+        "approval"
+      );
+    },
+    async clearApprovals(sessionId) {
+      await repository.clear({ scope: "session", scopeId: sessionId }, "approval");
+    },
+  };
+
+  return {
+    policyStore,
+
+    async listScopedRulesUsecase(input: RuleScopeInput): Promise<PermissionRuleRecord[]> {
+      return repository.list(toScopeKey(input));
+    },
+
+    async getScopedRulesConfigUsecase(input: RuleScopeInput) {
+      return formatConfigRules(await repository.list(toScopeKey(input)));
+    },
+
+    async replaceScopedRulesUsecase(
+      input: RuleScopeInput,
+      rules: RuleInput[]
+    ): Promise<PermissionRuleRecord[]> {
+      return repository.replace(toScopeKey(input), rules);
+    },
+
+    async replaceScopedRulesFromConfigUsecase(
+      input: RuleScopeInput,
+      config: RulesConfig
+    ): Promise<PermissionRuleRecord[]> {
+      return repository.replace(toScopeKey(input), parseConfigRules(config));
+    },
+
+    async addScopedRuleUsecase(
+      input: RuleScopeInput,
+      rule: RuleInput
+    ): Promise<PermissionRuleRecord> {
+      const [record] = await repository.append(toScopeKey(input), [rule], "rule");
+      return record;
+    },
+
+    async clearScopedRulesUsecase(input: RuleScopeInput): Promise<void> {
+      await repository.clear(toScopeKey(input));
+    },
+
+    /**
+     * Evaluate a pattern against every layer that applies, reporting which
+     * layer decided
+     */
+    async evaluateScopedRuleUsecase(
+      input: EvaluateScopedRuleInput
+    ): Promise<EvaluateScopedRuleOutput> {
+      const ruleSets = await getRuleSets(input);
+      ruleSets.push({ layer: "config", rules: PermissionManager.getInstance().getRules() });
+
+      // Bash patterns are command lines; each sub-command is checked, as the bash tool does
+      let patterns = [input.pattern];
+      let args: Record<string, string[]> = {};
+      if (input.permission === "bash") {
+        const { commands, patterns: prefixes } = await parseCommand(input.pattern, process.cwd());
+        const subCommands = commands.size > 0 ? Array.from(commands.keys()) : Array.from(prefixes);
+        if (subCommands.length > 0) patterns = subCommands;
+        args = Object.fromEntries(commands);
+      }
+      const evaluation = evaluateLayeredPatterns(input.permission, patterns, ruleSets, args);
+
+      return { permission: input.permission, pattern: input.pattern, ...evaluation };
+    },
+  };
+}
@@ -1,7 +1,7 @@
+import { taskSessionRepository } from "../../../task-sessions/infrastructure/repositories/task-session.repository.drizzle.js";
 import {
   addRuleUsecase,
   clearRulesUsecase,
-  evaluateRuleUsecase,
   getDefaultRulesUsecase,
   getRulesConfigUsecase,
   listRulesUsecase,
@@ -9,6 +9,8 @@ import {
   replaceRulesUsecase,
   resetRulesUsecase,
 } from "../../application/usecases/manage-rules.usecase.js";
+import { createScopedRuleUsecases } from "../../application/usecases/scoped-rules.usecase.js";
+import { permissionRuleRepository } from "../../infrastructure/repositories/permission-rule.repository.drizzle.js";
 
 export function buildRuleUsecases() {
   return {
@@ -20,6 +22,6 @@ export function buildRuleUsecases() {
     replaceRulesFromConfigUsecase,
     resetRulesUsecase,
     clearRulesUsecase,
-    evaluateRuleUsecase,
+    ...createScopedRuleUsecases(permissionRuleRepository, taskSessionRepository),
   };
 }
@@ -0,0 +1,164 @@
+import { app } from "@/app/app";
+/**
+ * Tests for scoped permission rule routes
+ */
+
+import { getDb, permissionRules, taskSessions, workspaces } from "@sakti-code/server/db";
+import { eq, sql } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { buildRuleUsecases } from "../../factory/rules.factory.js";
+
+describe("permission rules routes", () => {
+  const testCredentials = btoa("testuser:testpass");
+  let workspaceId: string;
+  let sessionId: string;
+
+  function request(path: string, init: { method?: string; body?: unknown } = {}) {
+    return app.request(path, {
+      method: init.method ?? "GET",
+      headers: {
+        Authorization: `Basic ${testCredentials}`,
+        "Content-Type": "application/json",
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+  }
+
+  async function cleanup() {
+    const db = await getDb();
+    await db.delete(permissionRules).where(eq(permissionRules.scope, "global"));
+    await db.delete(permissionRules).where(sql`${permissionRules.scope_id} LIKE 'test-%'`);
+    await db.delete(taskSessions).where(sql`${taskSessions.session_id} LIKE 'test-%'`);
+    await db.delete(workspaces).where(sql`${workspaces.id} LIKE 'test-%'`);
+  }
+
+  beforeEach(async () => {
+    process.env.SAKTI_CODE_USERNAME = "testuser";
+    process.env.SAKTI_CODE_PASSWORD = "testpass";
+    await cleanup();
+
+    const db = await getDb();
+    const now = new Date();
+    workspaceId = `test-ws-${uuidv7()}`;
+    sessionId = `test-session-${uuidv7()}`;
+    await db.insert(workspaces).values({
+      id: workspaceId,
+      path: `/tmp/${workspaceId}`,
+      name: "rules",
+      created_at: now,
+      last_opened_at: now,
+    });
+    await db.insert(taskSessions).values({
+      session_id: sessionId,
+      resource_id: "local",
+      thread_id: sessionId,
+      workspace_id: workspaceId,
+      created_at: now,
+      last_accessed: now,
+      last_activity_at: now,
+    });
+  });
+
+  afterEach(cleanup);
+
+  it("stores and reads rules per scope", async () => {
+    const put = await request("/api/permissions/rules?scope=global", {
+      method: "PUT",
+      body: { rules: [{ permission: "bash", pattern: "npm*", action: "allow" }] },
+    });
+    expect(put.status).toBe(200);
+
+    const add = await request(`/api/permissions/rules?scope=workspace&scopeId=${workspaceId}`, {
+      method: "POST",
+      body: {
+        permission: "bash",
+        pattern: "git push*",
+        action: "deny",
+        when: [{ argMatches: "--force" }],
+      },
+    });
+    expect(add.status).toBe(200);
+
+    const global = await (await request("/api/permissions/rules?scope=global")).json();
+    expect(global.rules).toMatchObject([
+      { scope: "global", scopeId: null, pattern: "npm*", action: "allow", source: "rule" },
+    ]);
+
+    const config = await (
+      await request(`/api/permissions/rules/config?scope=workspace&scopeId=${workspaceId}`)
+    ).json();
+    expect(config.config).toEqual({
+      bash: { "git push*": { action: "deny", when: [{ argMatches: "--force" }] } },
+    });
+
+    const cleared = await request("/api/permissions/rules?scope=global", { method: "DELETE" });
+    expect(cleared.status).toBe(200);
+    expect((await (await request("/api/permissions/rules?scope=global")).json()).rules).toEqual([]);
+  });
+
+  it("requires a scope ID for workspace and session rules", async () => {
+    const res = await request("/api/permissions/rules?scope=session");
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Scope ID required for session rules");
+  });
+
+  it("reports which layer decided an evaluation", async () => {
+    await request("/api/permissions/rules?scope=global", {
+      method: "PUT",
+      body: { rules: [{ permission: "bash", pattern: "git*", action: "deny" }] },
+    });
+    await request(`/api/permissions/rules?scope=workspace&scopeId=${workspaceId}`, {
+      method: "PUT",
+      body: { rules: [{ permission: "bash", pattern: "git*", action: "allow" }] },
+    });
+    await request(`/api/permissions/rules?scope=session&scopeId=${sessionId}`, {
+      method: "PUT",
+      body: { rules: [{ permission: "bash", pattern: "git push*", action: "ask" }] },
+    });
+
+    async function evaluate(body: Record<string, string>) {
+      const res = await request("/api/permissions/rules/evaluate", {
+        method: "POST",
+        body: { permission: "bash", ...body },
+      });
+      return res.json();
+    }
+
+    expect(await evaluate({ pattern: "git push", sessionId })).toMatchObject({
+      action: "ask",
+      decidedBy: "session",
+    });
+    expect(await evaluate({ pattern: "git status", sessionId })).toMatchObject({
+      action: "allow",
+      decidedBy: "workspace",
+    });
+    expect(await evaluate({ pattern: "git status" })).toMatchObject({
+      action: "deny",
+      decidedBy: "global",
+    });
+  });
+
+  it("persists session approvals separately from session rules", async () => {
+    const { policyStore } = buildRuleUsecases();
+    await request(`/api/permissions/rules?scope=session&scopeId=${sessionId}`, {
+      method: "POST",
+      body: { permission: "edit", pattern: "src/**", action: "allow" },
+    });
+
+    await policyStore.saveApproval(sessionId, "bash", ["pnpm test*"]);
+    const ruleSets = await policyStore.getRuleSets(sessionId);
+    expect(ruleSets.map(set => set.layer)).toEqual(["session", "workspace", "global"]);
+    expect(ruleSets[0].rules.map(rule => rule.pattern)).toEqual(["src/**"]);
+    expect(await policyStore.getApprovals(sessionId)).toEqual([
+      { permission: "bash", pattern: "pnpm test*", action: "allow" },
+    ]);
+
+    await policyStore.clearApprovals(sessionId);
+    const rules = await (
+      await request(`/api/permissions/rules?scope=session&scopeId=${sessionId}`)
+    ).json();
+    expect(rules.rules).toMatchObject([{ pattern: "src/**", source: "rule" }]);
+  });
+});
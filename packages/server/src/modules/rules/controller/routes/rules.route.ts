@@ -1,6 +1,7 @@
 import { createLogger } from "@sakti-code/shared/logger";
-import { Hono } from "hono";
+import { Hono, type MiddlewareHandler } from "hono";
 import { z } from "zod";
+import { clearCache } from "../../../../middleware/cache.js";
 import { zValidator } from "../../../../shared/controller/http/validators.js";
 import { buildRuleUsecases } from "../factory/rules.factory.js";
 
@@ -15,20 +16,61 @@ const app = new Hono<Env>();
 const logger = createLogger("server");
 const {
   addRuleUsecase,
+  addScopedRuleUsecase,
   clearRulesUsecase,
-  evaluateRuleUsecase,
+  clearScopedRulesUsecase,
+  evaluateScopedRuleUsecase,
   getDefaultRulesUsecase,
   getRulesConfigUsecase,
+  getScopedRulesConfigUsecase,
   listRulesUsecase,
+  listScopedRulesUsecase,
   replaceRulesFromConfigUsecase,
   replaceRulesUsecase,
+  replaceScopedRulesFromConfigUsecase,
+  replaceScopedRulesUsecase,
   resetRulesUsecase,
 } = buildRuleUsecases();
 
+/**
+ * Rule layer addressed by a request
+ *
+ * "config" (the default) is the in-memory rule set loaded from config; the
+ * other scopes are persisted, and workspace and session rules need the
+ * workspace or task session ID as `scopeId`.
+ */
+const scopeQuerySchema = z.object({
+  scope: z.enum(["config", "global", "workspace", "session"]).default("config"),
+  scopeId: z.string().min(1).optional(),
+});
+
+// GET responses are cached; drop them once rules change so reads see the write
+const invalidateCache: MiddlewareHandler<Env> = async (c, next) => {
+  await next();
+  if (c.req.method !== "GET") clearCache();
+};
+app.use("/api/permissions/rules", invalidateCache);
+app.use("/api/permissions/rules/*", invalidateCache);
+
+const globListSchema = z.union([z.string(), z.array(z.string())]);
+const conditionSchema = z.object({
+  argMatches: globListSchema.optional(),
+  argNotMatches: globListSchema.optional(),
+});
+
 const ruleSchema = z.object({
-  permission: z.enum(["read", "edit", "bash", "external_directory", "mode_switch"]),
+  permission: z.enum([
+    "read",
+    "edit",
+    "bash",
+    "external_directory",
+    "mode_switch",
+    "mcp",
+    "plugin",
+  ]),
   pattern: z.string(),
   action: z.enum(["allow", "deny", "ask"]),
+  when: z.array(conditionSchema).optional(),
 });
 
 const rulesArraySchema = z.array(ruleSchema);
@@ -40,7 +82,16 @@ const configSchema = z.record(
   z.string(),
   z.union([
     z.enum(["allow", "deny", "ask"]),
-    z.record(z.string(), z.enum(["allow", "deny", "ask"])),
+    z.record(
+      z.string(),
+      z.union([
+        z.enum(["allow", "deny", "ask"]),
+        z.object({
+          action: z.enum(["allow", "deny", "ask"]),
+          when: z.array(conditionSchema).optional(),
+        }),
+      ])
+    ),
   ])
 );
 const configPayloadSchema = z.object({
@@ -48,122 +99,186 @@ const configPayloadSchema = z.object({
 });
 
 const evaluateSchema = z.object({
-  permission: z.enum(["read", "edit", "bash", "external_directory", "mode_switch"]),
+  permission: z.enum([
+    "read",
+    "edit",
+    "bash",
+    "external_directory",
+    "mode_switch",
+    "mcp",
+    "plugin",
+  ]),
   pattern: z.string(),
+  sessionId: z.string().min(1).optional(),
+  workspaceId: z.string().min(1).optional(),
 });
 
-app.get("/api/permissions/rules", c => {
-  const requestId = c.get("requestId");
-  const rules = listRulesUsecase();
-
-  logger.debug("Permission rules fetched", {
-    module: "permissions",
-    requestId,
-    count: rules.length,
-  });
-
-  return c.json({ rules });
-});
-
-app.get("/api/permissions/rules/config", c => {
-  const requestId = c.get("requestId");
-  const config = getRulesConfigUsecase();
-
-  logger.debug("Permission rules config fetched", {
-    module: "permissions",
-    requestId,
-  });
-
-  return c.json({ config });
-});
-
-app.get("/api/permissions/rules/default", c => {
-  const requestId = c.get("requestId");
-  const defaultRules = getDefaultRulesUsecase();
-
-  logger.debug("Default permission rules fetched", {
-    module: "permissions",
-    requestId,
-  });
-
-  return c.json({ rules: defaultRules });
-});
-
-app.put("/api/permissions/rules", zValidator("json", rulesPayloadSchema), async c => {
+app.get("/api/permissions/rules", zValidator("query", scopeQuerySchema), async c => {
   const requestId = c.get("requestId");
+  const { scope, scopeId } = c.req.valid("query");
 
   try {
-    const { rules } = c.req.valid("json");
-    replaceRulesUsecase(rules);
+    const rules =
+      scope === "config" ? listRulesUsecase() : await listScopedRulesUsecase({ scope, scopeId });
 
-    logger.info("Permission rules replaced", {
+    logger.debug("Permission rules fetched", {
       module: "permissions",
       requestId,
+      scope,
       count: rules.length,
     });
 
-    return c.json({ success: true, rules });
+    return c.json({ scope, scopeId, rules });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : "Invalid request";
-    logger.error("Failed to update permission rules", error instanceof Error ? error : undefined, {
-      module: "permissions",
-      requestId,
-    });
     return c.json({ error: message }, 400);
   }
 });
 
-app.post("/api/permissions/rules", zValidator("json", ruleSchema), async c => {
+app.get("/api/permissions/rules/config", zValidator("query", scopeQuerySchema), async c => {
   const requestId = c.get("requestId");
+  const { scope, scopeId } = c.req.valid("query");
 
   try {
-    const rule = c.req.valid("json");
-    addRuleUsecase(rule);
+    const config =
+      scope === "config"
+        ? getRulesConfigUsecase()
+        : await getScopedRulesConfigUsecase({ scope, scopeId });
 
-    logger.info("Permission rule added", {
+    logger.debug("Permission rules config fetched", {
       module: "permissions",
       requestId,
-      rule,
+      scope,
     });
 
-    return c.json({ success: true, rule });
+    return c.json({ scope, scopeId, config });
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : "Invalid request";
-    logger.error("Failed to add permission rule", error instanceof Error ? error : undefined, {
-      module: "permissions",
-      requestId,
-    });
     return c.json({ error: message }, 400);
   }
 });
 
-app.post("/api/permissions/rules/config", zValidator("json", configPayloadSchema), async c => {
+app.get("/api/permissions/rules/default", c => {
   const requestId = c.get("requestId");
+  const defaultRules = getDefaultRulesUsecase();
 
-  try {
-    const { config } = c.req.valid("json");
-    const rules = replaceRulesFromConfigUsecase(config);
+  logger.debug("Default permission rules fetched", {
+    module: "permissions",
+    requestId,
+  });
 
-    logger.info("Permission rules updated from config", {
-      module: "permissions",
-      requestId,
-      count: rules.length,
-    });
+  return c.json({ rules: defaultRules });
+});
 
-    return c.json({ success: true, rules });
-  } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : "Invalid request";
-    logger.error(
-      "Failed to update permission rules from config",
-      error instanceof Error ? error : undefined,
-      {
+app.put(
+  "/api/permissions/rules",
+  zValidator("query", scopeQuerySchema),
+  zValidator("json", rulesPayloadSchema),
+  async c => {
+    const requestId = c.get("requestId");
+    const { scope, scopeId } = c.req.valid("query");
+
+    try {
+      const { rules } = c.req.valid("json");
+      const stored =
+        scope === "config"
+          ? replaceRulesUsecase(rules)
+          : await replaceScopedRulesUsecase({ scope, scopeId }, rules);
+
+      logger.info("Permission rules replaced", {
         module: "permissions",
         requestId,
-      }
-    );
-    return c.json({ error: message }, 400);
+        scope,
+        count: rules.length,
+      });
+
+      return c.json({ success: true, scope, scopeId, rules: stored });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Invalid request";
+      logger.error(
+        "Failed to update permission rules",
+        error instanceof Error ? error : undefined,
+        {
+          module: "permissions",
+          requestId,
+        }
+      );
+      return c.json({ error: message }, 400);
+    }
   }
-});
+);
+
+app.post(
+  "/api/permissions/rules",
+  zValidator("query", scopeQuerySchema),
+  zValidator("json", ruleSchema),
+  async c => {
+    const requestId = c.get("requestId");
+    const { scope, scopeId } = c.req.valid("query");
+
+    try {
+      const input = c.req.valid("json");
+      const rule =
+        scope === "config"
+          ? addRuleUsecase(input)
+          : await addScopedRuleUsecase({ scope, scopeId }, input);
+
+      logger.info("Permission rule added", {
+        module: "permissions",
+        requestId,
+        scope,
+        rule,
+      });
+
+      return c.json({ success: true, scope, scopeId, rule });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Invalid request";
+      logger.error("Failed to add permission rule", error instanceof Error ? error : undefined, {
+        module: "permissions",
+        requestId,
+      });
+      return c.json({ error: message }, 400);
+    }
+  }
+);
+
+app.post(
+  "/api/permissions/rules/config",
+  zValidator("query", scopeQuerySchema),
+  zValidator("json", configPayloadSchema),
+  async c => {
+    const requestId = c.get("requestId");
+    const { scope, scopeId } = c.req.valid("query");
+
+    try {
+      const { config } = c.req.valid("json");
+      const rules =
+        scope === "config"
+          ? replaceRulesFromConfigUsecase(config)
+          : await replaceScopedRulesFromConfigUsecase({ scope, scopeId }, config);
+
+      logger.info("Permission rules updated from config", {
+        module: "permissions",
+        requestId,
+        scope,
+        count: rules.length,
+      });
+
+      return c.json({ success: true, scope, scopeId, rules });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Invalid request";
+      logger.error(
+        "Failed to update permission rules from config",
+        error instanceof Error ? error : undefined,
+        {
+          module: "permissions",
+          requestId,
+        }
+      );
+      return c.json({ error: message }, 400);
+    }
+  }
+);
 
 app.post("/api/permissions/rules/reset", c => {
   const requestId = c.get("requestId");
@@ -177,34 +292,47 @@ app.post("/api/permissions/rules/reset", c => {
   return c.json({ success: true, rules: defaultRules });
 });
 
-app.delete("/api/permissions/rules", c => {
+app.delete("/api/permissions/rules", zValidator("query", scopeQuerySchema), async c => {
   const requestId = c.get("requestId");
-  const rules = clearRulesUsecase();
+  const { scope, scopeId } = c.req.valid("query");
 
-  logger.info("Permission rules cleared", {
-    module: "permissions",
-    requestId,
-  });
+  try {
+    if (scope === "config") {
+      clearRulesUsecase();
+    } else {
+      await clearScopedRulesUsecase({ scope, scopeId });
+    }
+
+    logger.info("Permission rules cleared", {
+      module: "permissions",
+      requestId,
+      scope,
+    });
 
-  return c.json({ success: true, rules });
+    return c.json({ success: true, scope, scopeId, rules: [] });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Invalid request";
+    return c.json({ error: message }, 400);
+  }
 });
 
 app.post("/api/permissions/rules/evaluate", zValidator("json", evaluateSchema), async c => {
   const requestId = c.get("requestId");
 
   try {
-    const { permission, pattern } = c.req.valid("json");
-    const action = evaluateRuleUsecase({ permission, pattern });
+    const input = c.req.valid("json");
+    const result = await evaluateScopedRuleUsecase(input);
 
     logger.debug("Permission rule evaluated", {
       module: "permissions",
       requestId,
-      permission,
-      pattern,
-      action,
+      permission: input.permission,
+      pattern: input.pattern,
+      action: result.action,
+      decidedBy: result.decidedBy,
     });
 
-    return c.json({ permission, pattern, action });
+    return c.json(result);
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : "Invalid request";
     logger.error("Failed to evaluate permission rule", error instanceof Error ? error : undefined, {
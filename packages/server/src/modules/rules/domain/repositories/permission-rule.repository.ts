@@ -0,0 +1,48 @@
+import type { PermissionAction, PermissionRuleScope, PermissionType } from "@sakti-code/shared";
+
+export type RuleAction = PermissionAction;
+export type RulePermission = PermissionType;
+
+export interface RuleCondition {
+  argMatches?: string | string[];
+  argNotMatches?: string | string[];
+}
+
+export interface RuleInput {
+  permission: RulePermission;
+  pattern: string;
+  action: RuleAction;
+  when?: RuleCondition[];
+}
+
+/** "rule" when written through the API, "approval" for session "always" approvals */
+export type PermissionRuleSource = "rule" | "approval";
+
+export interface PermissionRuleRecord extends RuleInput {
+  id: string;
+  scope: PermissionRuleScope;
+  /** Workspace ID or task session ID; null for global rules */
+  scopeId: string | null;
+  source: PermissionRuleSource;
+  createdAt: Date;
+}
+
+export interface PermissionRuleScopeKey {
+  scope: PermissionRuleScope;
+  scopeId: string | null;
+}
+
+export interface IPermissionRuleRepository {
+  /** Rules of a scope in evaluation order */
+  list(key: PermissionRuleScopeKey): Promise<PermissionRuleRecord[]>;
+  /** Replace the API-written rules of a scope, keeping approvals */
+  replace(key: PermissionRuleScopeKey, rules: RuleInput[]): Promise<PermissionRuleRecord[]>;
+  /** Append rules to a scope so they override the existing ones */
+  append(
+    key: PermissionRuleScopeKey,
+    rules: RuleInput[],
+    source: PermissionRuleSource
+  ): Promise<PermissionRuleRecord[]>;
+  /** Delete the rules of a scope, optionally only those from one source */
+  clear(key: PermissionRuleScopeKey, source?: PermissionRuleSource): Promise<void>;
+}
@@ -0,0 +1,92 @@
+import { and, asc, eq, isNull, max, type SQL } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
+import { db, permissionRules } from "../../../../../db/index.js";
+import type {
+  IPermissionRuleRepository,
+  PermissionRuleRecord,
+  PermissionRuleScopeKey,
+  PermissionRuleSource,
+  RuleInput,
+} from "../../domain/repositories/permission-rule.repository.js";
+
+function scopeCondition(key: PermissionRuleScopeKey): SQL | undefined {
+  return and(
+    eq(permissionRules.scope, key.scope),
+    key.scopeId === null
+      ? isNull(permissionRules.scope_id)
+      : eq(permissionRules.scope_id, key.scopeId)
+  );
+}
+
+function mapRowToRecord(row: typeof permissionRules.$inferSelect): PermissionRuleRecord {
+  return {
+    id: row.id,
+    scope: row.scope as PermissionRuleRecord["scope"],
+    scopeId: row.scope_id,
+    permission: row.permission as PermissionRuleRecord["permission"],
+    pattern: row.pattern,
+    action: row.action as PermissionRuleRecord["action"],
+    ...(row.conditions ? { when: row.conditions } : {}),
+    source: row.source as PermissionRuleSource,
+    createdAt: row.created_at,
+  };
+}
+
+export class DrizzlePermissionRuleRepository implements IPermissionRuleRepository {
+  async list(key: PermissionRuleScopeKey): Promise<PermissionRuleRecord[]> {
+    const rows = await db
+      .select()
+      .from(permissionRules)
+      .where(scopeCondition(key))
+      .orderBy(asc(permissionRules.position));
+    return rows.map(mapRowToRecord);
+  }
+
+  async replace(key: PermissionRuleScopeKey, rules: RuleInput[]): Promise<PermissionRuleRecord[]> {
+    await db
+      .delete(permissionRules)
+      .where(and(scopeCondition(key), eq(permissionRules.source, "rule")));
+    await this.append(key, rules, "rule");
+    return this.list(key);
+  }
+
+  async append(
+    key: PermissionRuleScopeKey,
+    rules: RuleInput[],
+    source: PermissionRuleSource
+  ): Promise<PermissionRuleRecord[]> {
+    if (rules.length === 0) return [];
+
+    const [last] = await db
+      .select({ position: max(permissionRules.position) })
+      .from(permissionRules)
+      .where(scopeCondition(key));
+    const start = (last?.position ?? -1) + 1;
+    const now = new Date();
+
+    const rows = rules.map((rule, index) => ({
+      id: uuidv7(),
+      scope: key.scope,
+      scope_id: key.scopeId,
+      permission: rule.permission,
+      pattern: rule.pattern,
+      action: rule.action,
+      conditions: rule.when && rule.when.length > 0 ? rule.when : null,
+      source,
+      position: start + index,
+      created_at: now,
+    }));
+    await db.insert(permissionRules).values(rows);
+    return rows.map(mapRowToRecord);
+  }
+
+  async clear(key: PermissionRuleScopeKey, source?: PermissionRuleSource): Promise<void> {
+    await db
+      .delete(permissionRules)
+      .where(
+        source ? and(scopeCondition(key), eq(permissionRules.source, source)) : scopeCondition(key)
+      );
+  }
+}
+
+export const permissionRuleRepository = new DrizzlePermissionRuleRepository();
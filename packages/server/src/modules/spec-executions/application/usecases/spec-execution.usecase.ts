@@ -0,0 +1,415 @@
+import { taskStorage } from "@sakti-code/core/memory/task/storage";
+import {
+  commitAll,
+  createWorktree,
+  getWorkspacesDir,
+  mergeBranches,
+} from "@sakti-code/core/server";
+import {
+  getReadyTasks,
+  listTasksBySpec,
+  updateCurrentTask,
+  updateSessionRuntimeMode,
+  updateSessionSpec,
+} from "@sakti-code/core/spec/helpers";
+import type {
+  CreateTaskRunInput,
+  CreateTaskRunOutput,
+} from "../../../task-runs/application/usecases/create-task-run.usecase.js";
+import type { ITaskRunRepository } from "../../../task-runs/domain/repositories/task-run.repository.js";
+import type { ITaskSessionRepository } from "../../../task-sessions/domain/repositories/task-session.repository.js";
+import type { createWorkspaceUsecases } from "../../../workspace/application/usecases/list-workspaces.usecase.js";
+import type {
+  ISpecExecutionRepository,
+  SpecExecution,
+  SpecExecutionTask,
+} from "../../domain/repositories/spec-execution.repository.js";
+
+export interface SpecImplementationValidation {
+  ok: boolean;
+  summary: string;
+}
+
+export type SpecImplementationValidator = (input: {
+  directory: string;
+  specSlug: string;
+}) => Promise<SpecImplementationValidation>;
+
+export interface StartSpecExecutionInput {
+  workspaceId: string;
+  specSlug: string;
+}
+
+export interface SpecMergeQueueEntry {
+  taskId: string;
+  title: string;
+  branch: string;
+  worktreePath: string;
+  taskSessionId: string | null;
+}
+
+export interface SpecExecutionView extends SpecExecution {
+  /** Branches of the tasks that passed validation, in merge order; null while running */
+  mergeQueue: SpecMergeQueueEntry[] | null;
+}
+
+type SpecTask = Awaited<ReturnType<typeof listTasksBySpec>>[number];
+
+type SpecExecutionWorkspaceUsecases = Pick<
+  ReturnType<typeof createWorkspaceUsecases>,
+  "getWorkspaceById" | "createWorkspace"
+>;
+
+type Workspace = NonNullable<
+  Awaited<ReturnType<SpecExecutionWorkspaceUsecases["getWorkspaceById"]>>
+>;
+
+interface SpecTaskInfo {
+  taskId: string;
+  parallel: boolean;
+  requirements: string[];
+  subtasks: Array<{ text: string; optional: boolean }>;
+}
+
+function readSpecTask(task: SpecTask): SpecTaskInfo {
+  const spec = (task.metadata as { spec?: Partial<SpecTaskInfo> } | null)?.spec;
+  return {
+    taskId: spec?.taskId ?? task.id,
+    parallel: spec?.parallel === true,
+    requirements: spec?.requirements ?? [],
+    subtasks: spec?.subtasks ?? [],
+  };
+}
+
+function compareSpecTaskIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function buildTaskMessage(specSlug: string, task: SpecTask, spec: SpecTaskInfo): string {
+  const lines = [`Implement task ${spec.taskId} of spec "${specSlug}": ${task.title}`, ""];
+  if (task.description) {
+    lines.push(`Outcome: ${task.description}`);
+  }
+  if (spec.requirements.length > 0) {
+    lines.push(`Requirements: ${spec.requirements.join(", ")}`);
+  }
+  if (spec.subtasks.length > 0) {
+    lines.push("Subtasks:");
+    for (const subtask of spec.subtasks) {
+      lines.push(`- ${subtask.text}${subtask.optional ? " (optional)" : ""}`);
+    }
+  }
+  lines.push(
+    "",
+    `Read requirements.md, design.md and tasks.md in .kiro/specs/${specSlug} first. ` +
+      "Only work on this task, and run its tests before finishing."
+  );
+  return lines.join("\n");
+}
+
+function toView(execution: SpecExecution): SpecExecutionView {
+  if (execution.status === "running") {
+    return { ...execution, mergeQueue: null };
+  }
+
+  const mergeQueue = execution.tasks
+    .filter(task => task.state === "done" && task.branch && task.worktreePath)
+    .sort(
+      (a, b) =>
+        (a.finishedAt?.getTime() ?? 0) - (b.finishedAt?.getTime() ?? 0) ||
+        compareSpecTaskIds(a.specTaskId, b.specTaskId)
+    )
+    .map(task => ({
+      taskId: task.specTaskId,
+      title: task.title,
+      branch: task.branch!,
+      worktreePath: task.worktreePath!,
+      taskSessionId: task.taskSessionId,
+    }));
+  return { ...execution, mergeQueue };
+}
+
+export function createSpecExecutionUsecases(deps: {
+  specExecutionRepository: ISpecExecutionRepository;
+  taskSessionRepository: ITaskSessionRepository;
+  taskRunRepository: Pick<ITaskRunRepository, "getById">;
+  createTaskRunUsecase: (input: CreateTaskRunInput) => Promise<CreateTaskRunOutput>;
+  workspaces: SpecExecutionWorkspaceUsecases;
+  validateImplementation: SpecImplementationValidator;
+}) {
+  const repository = deps.specExecutionRepository;
+
+  /**
+   * Branches of the tasks this one depends on that this execution finished,
+   * in task order
+   */
+  async function dependencyBranches(execution: SpecExecution, task: SpecTask): Promise<string[]> {
+    const dependencies = await taskStorage.getDependencies(task.id);
+    const blocking = new Set(
+      dependencies.filter(dependency => dependency.type === "blocks").map(d => d.depends_on_id)
+    );
+    return execution.tasks
+      .filter(entry => blocking.has(entry.taskId) && entry.state === "done" && entry.branch)
+      .sort((a, b) => compareSpecTaskIds(a.specTaskId, b.specTaskId))
+      .map(entry => entry.branch!);
+  }
+
+  /**
+   * Give a ready task its own worktree and task session, and queue a build run
+   *
+   * The worktree starts from the branches of the task's finished
+   * dependencies, merged together, so it builds on their work. Returns false
+   * when the task could not be started; it is recorded as failed.
+   */
+  async function startTask(
+    execution: SpecExecution,
+    workspace: Workspace,
+    task: SpecTask
+  ): Promise<boolean> {
+    const spec = readSpecTask(task);
+    const entry = {
+      executionId: execution.executionId,
+      taskId: task.id,
+      specTaskId: spec.taskId,
+      title: task.title,
+      parallel: spec.parallel,
+    };
+
+    const worktreeName = `${workspace.name}-${execution.specSlug}-${spec.taskId}-${Date.now().toString(36)}`;
+    const branch = `spec/${worktreeName}`;
+    const [startPoint, ...merges] = await dependencyBranches(execution, task);
+    let worktreePath: string;
+    try {
+      worktreePath = await createWorktree({
+        repoPath: workspace.path,
+        worktreeName,
+        branch,
+        worktreesDir: getWorkspacesDir(),
+        createBranch: true,
+        startPoint,
+      });
+      await mergeBranches(worktreePath, merges);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await repository.addTask({
+        ...entry,
+        state: "failed",
+        error: `Worktree unavailable: ${message}`,
+      });
+      return false;
+    }
+
+    const { workspace: taskWorkspace } = await deps.workspaces.createWorkspace({
+      path: worktreePath,
+      name: worktreeName,
+    });
+    const taskSession = await deps.taskSessionRepository.create({
+      resourceId: workspace.path,
+      workspaceId: taskWorkspace.id,
+      sessionKind: "task",
+      title: `${spec.taskId} ${task.title}`,
+    });
+    await updateSessionSpec(taskSession.taskSessionId, execution.specSlug);
+    await updateSessionRuntimeMode(taskSession.taskSessionId, "build");
+    await updateCurrentTask(taskSession.taskSessionId, spec.taskId);
+
+    const { run } = await deps.createTaskRunUsecase({
+      taskSessionId: taskSession.taskSessionId,
+      runtimeMode: "build",
+      clientRequestKey: `spec-execution:${execution.executionId}:${spec.taskId}`,
+      input: {
+        message: buildTaskMessage(execution.specSlug, task, spec),
+        directory: worktreePath,
+      },
+      metadata: {
+        specExecution: {
+          executionId: execution.executionId,
+          specSlug: execution.specSlug,
+          taskId: spec.taskId,
+        },
+      },
+    });
+
+    await taskStorage.updateTask(task.id, { status: "in_progress", updatedAt: Date.now() });
+    await repository.addTask({
+      ...entry,
+      taskSessionId: taskSession.taskSessionId,
+      runId: run.runId,
+      worktreePath,
+      branch,
+    });
+    return true;
+  }
+
+  /**
+   * Validate a task whose run has finished, then mark it done or failed
+   *
+   * The work of a validated task is committed to its branch, which its
+   * dependents start from and the merge queue lists.
+   *
+   * Failed tasks go back to open so a later execution can retry them; their
+   * dependents stay blocked either way.
+   */
+  async function settleTask(execution: SpecExecution, entry: SpecExecutionTask): Promise<void> {
+    const run = entry.runId ? await deps.taskRunRepository.getById(entry.runId) : null;
+    if (run && ["queued", "running", "cancel_requested", "stale"].includes(run.state)) {
+      return;
+    }
+
+    let error: string | null;
+    if (!run) {
+      error = "Run not found";
+    } else if (run.state !== "completed") {
+      error = run.errorMessage ?? `Run ${run.state}`;
+    } else {
+      try {
+        const validation = await deps.validateImplementation({
+          directory: entry.worktreePath!,
+          specSlug: execution.specSlug,
+        });
+        error = validation.ok ? null : `spec-validate-impl failed: ${validation.summary}`;
+      } catch (validationError) {
+        const message =
+          validationError instanceof Error ? validationError.message : String(validationError);
+        error = `spec-validate-impl failed: ${message}`;
+      }
+    }
+
+    if (!error) {
+      try {
+        await commitAll(entry.worktreePath!, `${entry.specTaskId}: ${entry.title}`);
+      } catch (commitError) {
+        const message = commitError instanceof Error ? commitError.message : String(commitError);
+        error = `Commit failed: ${message}`;
+      }
+    }
+
+    const now = Date.now();
+    if (error) {
+      await taskStorage.updateTask(entry.taskId, { status: "open", updatedAt: now });
+      await repository.finishTask(execution.executionId, entry.taskId, { state: "failed", error });
+      return;
+    }
+
+    await taskStorage.updateTask(entry.taskId, {
+      status: "closed",
+      closeReason: "completed",
+      summary: `Implemented on branch ${entry.branch}`,
+      closedAt: now,
+      updatedAt: now,
+    });
+    await repository.finishTask(execution.executionId, entry.taskId, { state: "done" });
+  }
+
+  /**
+   * Settle finished runs and start the tasks that became ready
+   *
+   * Tasks marked parallel in tasks.md run alongside each other. Any other
+   * task runs alone, once everything before it has finished. The execution
+   * finishes when nothing is running and nothing more can start.
+   */
+  async function advanceSpecExecutionUsecase(
+    executionId: string
+  ): Promise<SpecExecutionView | null> {
+    const execution = await repository.getById(executionId);
+    if (!execution || execution.status !== "running") {
+      return execution ? toView(execution) : null;
+    }
+
+    const workspace = await deps.workspaces.getWorkspaceById(execution.workspaceId);
+    if (!workspace) {
+      await repository.finish(executionId, "failed");
+      return toView((await repository.getById(executionId))!);
+    }
+
+    for (const entry of execution.tasks) {
+      if (entry.state === "running") {
+        await settleTask(execution, entry);
+      }
+    }
+
+    const settled = (await repository.getById(executionId))!;
+    // Parallel flags of the tasks that are running
+    const inFlight = settled.tasks
+      .filter(task => task.state === "running")
+      .map(task => task.parallel);
+    const attempted = new Set(settled.tasks.map(task => task.taskId));
+    const ready = (await getReadyTasks(execution.specSlug))
+      .filter(task => !attempted.has(task.id))
+      .sort((a, b) => compareSpecTaskIds(readSpecTask(a).taskId, readSpecTask(b).taskId));
+
+    for (const task of ready) {
+      if (inFlight.includes(false)) {
+        break;
+      }
+      const { parallel } = readSpecTask(task);
+      if (!parallel && inFlight.length > 0) {
+        break;
+      }
+      if (await startTask(settled, workspace, task)) {
+        inFlight.push(parallel);
+      }
+    }
+
+    if (inFlight.length === 0) {
+      const specTasks = await listTasksBySpec(execution.specSlug);
+      const finished = specTasks.every(task => task.status === "closed");
+      await repository.finish(executionId, finished ? "completed" : "failed");
+    }
+
+    return toView((await repository.getById(executionId))!);
+  }
+
+  return {
+    /**
+     * Execute a compiled spec: every ready task runs in its own worktree
+     */
+    async startSpecExecutionUsecase(input: StartSpecExecutionInput): Promise<SpecExecutionView> {
+      const workspace = await deps.workspaces.getWorkspaceById(input.workspaceId);
+      if (!workspace) {
+        throw new Error("Workspace not found");
+      }
+
+      const running = await repository.listByStatus("running");
+      if (
+        running.some(
+          execution =>
+            execution.workspaceId === input.workspaceId && execution.specSlug === input.specSlug
+        )
+      ) {
+        throw new Error("Spec execution already running");
+      }
+
+      const specTasks = await listTasksBySpec(input.specSlug);
+      if (specTasks.length === 0) {
+        throw new Error(`Spec has no compiled tasks: ${input.specSlug}`);
+      }
+
+      const execution = await repository.create(input);
+      return (await advanceSpecExecutionUsecase(execution.executionId))!;
+    },
+
+    async getSpecExecutionUsecase(executionId: string): Promise<SpecExecutionView | null> {
+      const execution = await repository.getById(executionId);
+      return execution ? toView(execution) : null;
+    },
+
+    async listSpecExecutionsUsecase(workspaceId: string): Promise<SpecExecutionView[]> {
+      const executions = await repository.listByWorkspace(workspaceId);
+      return executions.map(toView);
+    },
+
+    advanceSpecExecutionUsecase,
+
+    /**
+     * Advance every running execution; returns how many were advanced
+     */
+    async advanceRunningSpecExecutionsUsecase(): Promise<number> {
+      const running = await repository.listByStatus("running");
+      for (const execution of running) {
+        await advanceSpecExecutionUsecase(execution.executionId);
+      }
+      return running.length;
+    },
+  };
+}
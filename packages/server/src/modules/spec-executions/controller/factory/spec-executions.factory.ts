@@ -0,0 +1,19 @@
+import { buildTaskRunUsecases } from "../../../task-runs/controller/factory/task-runs.factory.js";
+import { taskRunRepository } from "../../../task-runs/infrastructure/repositories/task-run.repository.drizzle.js";
+import { taskSessionRepository } from "../../../task-sessions/infrastructure/repositories/task-session.repository.drizzle.js";
+import { createWorkspaceUsecases } from "../../../workspace/application/usecases/list-workspaces.usecase.js";
+import { workspaceRepository } from "../../../workspace/infrastructure/repositories/workspace.repository.drizzle.js";
+import { createSpecExecutionUsecases } from "../../application/usecases/spec-execution.usecase.js";
+import { specExecutionRepository } from "../../infrastructure/repositories/spec-execution.repository.drizzle.js";
+import { validateSpecImplementation } from "../../infrastructure/spec-implementation-validator.js";
+
+export function buildSpecExecutionUsecases() {
+  return createSpecExecutionUsecases({
+    specExecutionRepository,
+    taskSessionRepository,
+    taskRunRepository,
+    createTaskRunUsecase: buildTaskRunUsecases().createTaskRunUsecase,
+    workspaces: createWorkspaceUsecases(workspaceRepository),
+    validateImplementation: validateSpecImplementation,
+  });
+}
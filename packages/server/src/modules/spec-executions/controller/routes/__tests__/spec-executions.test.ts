@@ -0,0 +1,299 @@
+/**
+ * Tests for spec execution
+ *
+ * Tests verify:
+ * - Ready tasks are queued as build runs in their own worktrees
+ * - Worktrees start from the committed work of the tasks they depend on
+ * - Parallel tasks run together and other tasks run alone
+ * - Validation marks tasks done or failed, and dependents of failed tasks never start
+ * - Finished executions present their merge queue, and are listed by workspace
+ * - Executions are refused while background runs are disabled
+ */
+
+import { app } from "@/app/app";
+import { eq } from "drizzle-orm";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { v7 as uuidv7 } from "uuid";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { db, taskDependencies, taskSessionRuns, tasks } from "../../../../../../db";
+import { buildTaskRunUsecases } from "../../../../task-runs/controller/factory/task-runs.factory.js";
+import { taskRunRepository } from "../../../../task-runs/infrastructure/repositories/task-run.repository.drizzle.js";
+import { taskSessionRepository } from "../../../../task-sessions/infrastructure/repositories/task-session.repository.drizzle.js";
+import { createWorkspaceUsecases } from "../../../../workspace/application/usecases/list-workspaces.usecase.js";
+import { workspaceRepository } from "../../../../workspace/infrastructure/repositories/workspace.repository.drizzle.js";
+import {
+  createSpecExecutionUsecases,
+  type SpecImplementationValidator,
+} from "../../../application/usecases/spec-execution.usecase.js";
+import { specExecutionRepository } from "../../../infrastructure/repositories/spec-execution.repository.drizzle.js";
+
+interface SpecTaskFixture {
+  id: string;
+  parallel?: boolean;
+  dependencies?: string[];
+}
+
+describe("spec executions", () => {
+  const auth = `Basic ${btoa("testuser:testpass")}`;
+  const workspaces = createWorkspaceUsecases(workspaceRepository);
+  let tempDir: string;
+  let workspaceId: string;
+  let specSlug: string;
+  let failingTasks: Set<string>;
+  let spec: ReturnType<typeof createSpecExecutionUsecases>;
+
+  const validateImplementation: SpecImplementationValidator = async ({ directory }) => {
+    const failing = [...failingTasks].some(taskId => directory.includes(taskId));
+    return failing
+      ? { ok: false, summary: "Requirement 2 is not covered" }
+      : { ok: true, summary: "Validation passed." };
+  };
+
+  async function compileSpec(fixtures: SpecTaskFixture[]) {
+    const now = new Date();
+    for (const fixture of fixtures) {
+      await db.insert(tasks).values({
+        id: `spec-${specSlug}_${fixture.id}`,
+        title: `Task ${fixture.id}`,
+        description: `Outcome of ${fixture.id}`,
+        status: "open",
+        priority: 2,
+        type: "feature",
+        metadata: {
+          spec: {
+            slug: specSlug,
+            taskId: fixture.id,
+            requirements: ["R1"],
+            parallel: fixture.parallel ?? false,
+          },
+        },
+        created_at: now,
+        updated_at: now,
+      });
+    }
+    for (const fixture of fixtures) {
+      for (const dependency of fixture.dependencies ?? []) {
+        await db.insert(taskDependencies).values({
+          task_id: `spec-${specSlug}_${fixture.id}`,
+          depends_on_id: `spec-${specSlug}_${dependency}`,
+          type: "blocks",
+          created_at: now,
+        });
+      }
+    }
+  }
+
+  async function start() {
+    const res = await app.request("/api/spec-executions", {
+      method: "POST",
+      headers: { Authorization: auth, "Content-Type": "application/json" },
+      body: JSON.stringify({ workspaceId, specSlug }),
+    });
+    return { status: res.status, body: await res.json() };
+  }
+
+  async function finishRun(executionId: string, taskId: string, state: "completed" | "failed") {
+    const execution = await spec.getSpecExecutionUsecase(executionId);
+    const entry = execution?.tasks.find(task => task.specTaskId === taskId);
+    await taskRunRepository.updateState(entry!.runId!, state, {
+      errorMessage: state === "failed" ? "Model request failed" : undefined,
+    });
+  }
+
+  /** Leave a file in a task's worktree, as its run would */
+  async function implement(executionId: string, taskId: string) {
+    const execution = await spec.getSpecExecutionUsecase(executionId);
+    const entry = execution?.tasks.find(task => task.specTaskId === taskId);
+    await fs.writeFile(path.join(entry!.worktreePath!, `${taskId}.txt`), taskId);
+  }
+
+  async function worktreeFiles(executionId: string, taskId: string) {
+    const execution = await spec.getSpecExecutionUsecase(executionId);
+    const entry = execution?.tasks.find(task => task.specTaskId === taskId);
+    const files = await fs.readdir(entry!.worktreePath!);
+    return files.filter(file => file.endsWith(".txt")).sort();
+  }
+
+  function states(execution: { tasks: Array<{ specTaskId: string; state: string }> }) {
+    return Object.fromEntries(execution.tasks.map(task => [task.specTaskId, task.state]));
+  }
+
+  beforeEach(async () => {
+    process.env.SAKTI_CODE_USERNAME = "testuser";
+    process.env.SAKTI_CODE_PASSWORD = "testpass";
+    process.env.SAKTI_CODE_BACKGROUND_RUNS_ENABLED = "true";
+
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "sakti-code-spec-exec-"));
+    const repoDir = path.join(tempDir, `repo-${uuidv7().slice(-8)}`);
+    await fs.mkdir(repoDir);
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: repoDir, stdio: "ignore" });
+    git("init");
+    git("config", "user.email", "test@test.com");
+    git("config", "user.name", "Test");
+    await fs.writeFile(path.join(repoDir, "README.md"), "# Test");
+    git("add", ".");
+    git("commit", "-m", "Initial commit");
+
+    const { workspace } = await workspaces.createWorkspace({ path: repoDir });
+    workspaceId = workspace.id;
+    specSlug = `checkout-${uuidv7().slice(-8)}`;
+    failingTasks = new Set();
+    spec = createSpecExecutionUsecases({
+      specExecutionRepository,
+      taskSessionRepository,
+      taskRunRepository,
+      createTaskRunUsecase: buildTaskRunUsecases().createTaskRunUsecase,
+      workspaces,
+      validateImplementation,
+    });
+  });
+
+  afterEach(async () => {
+    delete process.env.SAKTI_CODE_BACKGROUND_RUNS_ENABLED;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("queues ready tasks in their own worktrees and respects parallel flags", async () => {
+    await compileSpec([
+      { id: "T-1" },
+      { id: "T-2", parallel: true, dependencies: ["T-1"] },
+      { id: "T-3", parallel: true, dependencies: ["T-1"] },
+      { id: "T-4", dependencies: ["T-2", "T-3"] },
+    ]);
+
+    const { status, body } = await start();
+    expect(status).toBe(201);
+    expect(body.execution).toMatchObject({ specSlug, status: "running", mergeQueue: null });
+    expect(states(body.execution)).toEqual({ "T-1": "running" });
+
+    const [first] = body.execution.tasks;
+    expect(first.branch).toMatch(new RegExp(`^spec/.*-${specSlug}-T-1-`));
+    await expect(fs.stat(path.join(first.worktreePath, "README.md"))).resolves.toBeTruthy();
+    const run = await db
+      .select()
+      .from(taskSessionRuns)
+      .where(eq(taskSessionRuns.run_id, first.runId))
+      .get();
+    expect(run).toMatchObject({
+      task_session_id: first.taskSessionId,
+      runtime_mode: "build",
+      state: "queued",
+      input: { directory: first.worktreePath },
+    });
+    expect(run?.input?.message).toContain(`Implement task T-1 of spec "${specSlug}"`);
+
+    // Nothing else starts while the sequential task runs
+    let execution = await spec.advanceSpecExecutionUsecase(body.execution.executionId);
+    expect(states(execution!)).toEqual({ "T-1": "running" });
+
+    await implement(body.execution.executionId, "T-1");
+    await finishRun(body.execution.executionId, "T-1", "completed");
+    execution = await spec.advanceSpecExecutionUsecase(body.execution.executionId);
+    expect(states(execution!)).toEqual({ "T-1": "done", "T-2": "running", "T-3": "running" });
+    expect(await worktreeFiles(body.execution.executionId, "T-2")).toEqual(["T-1.txt"]);
+    const closed = await db
+      .select()
+      .from(tasks)
+      .where(eq(tasks.id, `spec-${specSlug}_T-1`))
+      .get();
+    expect(closed).toMatchObject({ status: "closed", close_reason: "completed" });
+
+    await implement(body.execution.executionId, "T-2");
+    await implement(body.execution.executionId, "T-3");
+    await finishRun(body.execution.executionId, "T-2", "completed");
+    await finishRun(body.execution.executionId, "T-3", "completed");
+    execution = await spec.advanceSpecExecutionUsecase(body.execution.executionId);
+    expect(states(execution!)).toMatchObject({ "T-2": "done", "T-3": "done", "T-4": "running" });
+    expect(await worktreeFiles(body.execution.executionId, "T-4")).toEqual([
+      "T-1.txt",
+      "T-2.txt",
+      "T-3.txt",
+    ]);
+
+    await finishRun(body.execution.executionId, "T-4", "completed");
+    execution = await spec.advanceSpecExecutionUsecase(body.execution.executionId);
+    expect(execution?.status).toBe("completed");
+    expect(execution?.mergeQueue?.map(entry => entry.taskId)).toEqual(["T-1", "T-2", "T-3", "T-4"]);
+    expect(execution?.mergeQueue?.[0]).toMatchObject({
+      branch: first.branch,
+      worktreePath: first.worktreePath,
+    });
+
+    const listed = await app.request(`/api/spec-executions?workspaceId=${workspaceId}`, {
+      headers: { Authorization: auth },
+    });
+    const { executions } = await listed.json();
+    expect(executions).toHaveLength(1);
+    expect(executions[0]).toMatchObject({ executionId: body.execution.executionId });
+    expect(executions[0].mergeQueue).toHaveLength(4);
+  });
+
+  it("fails tasks whose run fails or whose validation fails and skips their dependents", async () => {
+    await compileSpec([
+      { id: "T-1", parallel: true },
+      { id: "T-2", parallel: true },
+      { id: "T-3", parallel: true },
+      { id: "T-4", dependencies: ["T-2"] },
+    ]);
+    failingTasks.add("T-3");
+
+    const { body } = await start();
+    const executionId = body.execution.executionId;
+    expect(states(body.execution)).toEqual({
+      "T-1": "running",
+      "T-2": "running",
+      "T-3": "running",
+    });
+
+    await finishRun(executionId, "T-1", "completed");
+    await finishRun(executionId, "T-2", "failed");
+    await finishRun(executionId, "T-3", "completed");
+    const execution = await spec.advanceSpecExecutionUsecase(executionId);
+
+    expect(execution?.status).toBe("failed");
+    expect(states(execution!)).toEqual({ "T-1": "done", "T-2": "failed", "T-3": "failed" });
+    expect(execution?.tasks.find(task => task.specTaskId === "T-2")?.error).toBe(
+      "Model request failed"
+    );
+    expect(execution?.tasks.find(task => task.specTaskId === "T-3")?.error).toContain(
+      "spec-validate-impl failed: Requirement 2 is not covered"
+    );
+    const reopened = await db
+      .select()
+      .from(tasks)
+      .where(eq(tasks.id, `spec-${specSlug}_T-3`))
+      .get();
+    expect(reopened?.status).toBe("open");
+    expect(execution?.mergeQueue?.map(entry => entry.taskId)).toEqual(["T-1"]);
+  });
+
+  it("refuses to start while background runs are disabled", async () => {
+    await compileSpec([{ id: "T-1" }]);
+    delete process.env.SAKTI_CODE_BACKGROUND_RUNS_ENABLED;
+
+    const { status, body } = await start();
+    expect(status).toBe(503);
+    expect(body.error).toContain("SAKTI_CODE_BACKGROUND_RUNS_ENABLED=true");
+    const task = await db
+      .select()
+      .from(tasks)
+      .where(eq(tasks.id, `spec-${specSlug}_T-1`))
+      .get();
+    expect(task?.status).toBe("open");
+  });
+
+  it("rejects specs without compiled tasks and unknown executions", async () => {
+    const { status, body } = await start();
+    expect(status).toBe(400);
+    expect(body.error).toContain(specSlug);
+
+    const res = await app.request(`/api/spec-executions/${uuidv7()}`, {
+      headers: { Authorization: auth },
+    });
+    expect(res.status).toBe(404);
+  });
+});
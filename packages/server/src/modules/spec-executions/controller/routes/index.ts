@@ -0,0 +1 @@
+export { specExecutionsRoutes } from "./spec-executions.route.js";
@@ -0,0 +1,71 @@
+/**
+ * Spec execution API routes
+ *
+ * POST /api/spec-executions - Execute a compiled spec's tasks in their own worktrees; needs
+ *   background runs (SAKTI_CODE_BACKGROUND_RUNS_ENABLED=true), which run the tasks
+ * GET /api/spec-executions?workspaceId= - A workspace's executions, newest first
+ * GET /api/spec-executions/:executionId - Task progress, and the merge queue once finished
+ */
+
+import { Hono } from "hono";
+import type { Env } from "../../../../index.js";
+import { zValidator } from "../../../../shared/controller/http/validators.js";
+import { buildSpecExecutionUsecases } from "../factory/spec-executions.factory.js";
+import {
+  ListSpecExecutionsQuerySchema,
+  SpecExecutionParamsSchema,
+  StartSpecExecutionSchema,
+} from "../schemas/spec-execution.schema.js";
+
+const app = new Hono<Env>();
+const { startSpecExecutionUsecase, getSpecExecutionUsecase, listSpecExecutionsUsecase } =
+  buildSpecExecutionUsecases();
+
+app.post("/api/spec-executions", zValidator("json", StartSpecExecutionSchema), async c => {
+  if (process.env.SAKTI_CODE_BACKGROUND_RUNS_ENABLED !== "true") {
+    return c.json(
+      {
+        error:
+          "Spec execution needs background runs; set SAKTI_CODE_BACKGROUND_RUNS_ENABLED=true and restart the server",
+      },
+      503
+    );
+  }
+
+  try {
+    const execution = await startSpecExecutionUsecase(c.req.valid("json"));
+    return c.json({ execution }, 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (message === "Workspace not found") {
+      return c.json({ error: message }, 404);
+    }
+    if (message === "Spec execution already running") {
+      return c.json({ error: message }, 409);
+    }
+    if (message.startsWith("Spec has no compiled tasks")) {
+      return c.json({ error: message }, 400);
+    }
+    throw error;
+  }
+});
+
+app.get("/api/spec-executions", zValidator("query", ListSpecExecutionsQuerySchema), async c => {
+  const { workspaceId } = c.req.valid("query");
+  return c.json({ executions: await listSpecExecutionsUsecase(workspaceId) });
+});
+
+app.get(
+  "/api/spec-executions/:executionId",
+  zValidator("param", SpecExecutionParamsSchema),
+  async c => {
+    const { executionId } = c.req.valid("param");
+    const execution = await getSpecExecutionUsecase(executionId);
+    if (!execution) {
+      return c.json({ error: "Spec execution not found" }, 404);
+    }
+    return c.json({ execution });
+  }
+);
+
+export const specExecutionsRoutes = app;
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+export const StartSpecExecutionSchema = z.object({
+  workspaceId: z.string().min(1),
+  specSlug: z
+    .string()
+    .min(1)
+    .max(100)
+    .regex(/^[a-z0-9-]+$/),
+});
+
+export const ListSpecExecutionsQuerySchema = z.object({
+  workspaceId: z.string().min(1),
+});
+
+export const SpecExecutionParamsSchema = z.object({
+  executionId: z.string().uuid(),
+});
@@ -0,0 +1,69 @@
+export type SpecExecutionStatus = "running" | "completed" | "failed";
+
+export type SpecExecutionTaskState = "running" | "done" | "failed";
+
+export interface SpecExecutionTask {
+  taskId: string;
+  specTaskId: string;
+  title: string;
+  parallel: boolean;
+  state: SpecExecutionTaskState;
+  taskSessionId: string | null;
+  runId: string | null;
+  worktreePath: string | null;
+  branch: string | null;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface SpecExecution {
+  executionId: string;
+  workspaceId: string;
+  specSlug: string;
+  status: SpecExecutionStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt: Date | null;
+  /** Tasks in the order they were started */
+  tasks: SpecExecutionTask[];
+}
+
+export interface CreateSpecExecutionInput {
+  workspaceId: string;
+  specSlug: string;
+}
+
+export interface AddSpecExecutionTaskInput {
+  executionId: string;
+  taskId: string;
+  specTaskId: string;
+  title: string;
+  parallel: boolean;
+  state?: SpecExecutionTaskState;
+  taskSessionId?: string;
+  runId?: string;
+  worktreePath?: string;
+  branch?: string;
+  error?: string;
+}
+
+export interface FinishSpecExecutionTaskInput {
+  state: Exclude<SpecExecutionTaskState, "running">;
+  error?: string;
+}
+
+export interface ISpecExecutionRepository {
+  create(input: CreateSpecExecutionInput): Promise<SpecExecution>;
+  getById(executionId: string): Promise<SpecExecution | null>;
+  listByStatus(status: SpecExecutionStatus): Promise<SpecExecution[]>;
+  /** Newest first */
+  listByWorkspace(workspaceId: string): Promise<SpecExecution[]>;
+  finish(executionId: string, status: Exclude<SpecExecutionStatus, "running">): Promise<void>;
+  addTask(input: AddSpecExecutionTaskInput): Promise<void>;
+  finishTask(
+    executionId: string,
+    taskId: string,
+    input: FinishSpecExecutionTaskInput
+  ): Promise<void>;
+}
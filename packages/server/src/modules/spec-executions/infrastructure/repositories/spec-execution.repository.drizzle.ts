@@ -0,0 +1,153 @@
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { v7 as uuidv7 } from "uuid";
+import { db, specExecutionTasks, specExecutions } from "../../../../../db/index.js";
+import type {
+  AddSpecExecutionTaskInput,
+  CreateSpecExecutionInput,
+  FinishSpecExecutionTaskInput,
+  ISpecExecutionRepository,
+  SpecExecution,
+  SpecExecutionStatus,
+  SpecExecutionTask,
+  SpecExecutionTaskState,
+} from "../../domain/repositories/spec-execution.repository.js";
+
+function toTaskRecord(row: typeof specExecutionTasks.$inferSelect): SpecExecutionTask {
+  return {
+    taskId: row.task_id,
+    specTaskId: row.spec_task_id,
+    title: row.title,
+    parallel: row.parallel,
+    state: row.state as SpecExecutionTaskState,
+    taskSessionId: row.task_session_id,
+    runId: row.run_id,
+    worktreePath: row.worktree_path,
+    branch: row.branch,
+    error: row.error,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+export class DrizzleSpecExecutionRepository implements ISpecExecutionRepository {
+  private async withTasks(row: typeof specExecutions.$inferSelect): Promise<SpecExecution> {
+    const taskRows = await db
+      .select()
+      .from(specExecutionTasks)
+      .where(eq(specExecutionTasks.execution_id, row.execution_id))
+      .orderBy(sql`rowid`);
+
+    return {
+      executionId: row.execution_id,
+      workspaceId: row.workspace_id,
+      specSlug: row.spec_slug,
+      status: row.status as SpecExecutionStatus,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      finishedAt: row.finished_at,
+      tasks: taskRows.map(toTaskRecord),
+    };
+  }
+
+  async create(input: CreateSpecExecutionInput): Promise<SpecExecution> {
+    const now = new Date();
+    const row = {
+      execution_id: uuidv7(),
+      workspace_id: input.workspaceId,
+      spec_slug: input.specSlug,
+      status: "running" as SpecExecutionStatus,
+      created_at: now,
+      updated_at: now,
+      finished_at: null,
+    };
+
+    await db.insert(specExecutions).values(row);
+    return this.withTasks(row);
+  }
+
+  async getById(executionId: string): Promise<SpecExecution | null> {
+    const row = await db
+      .select()
+      .from(specExecutions)
+      .where(eq(specExecutions.execution_id, executionId))
+      .get();
+    return row ? this.withTasks(row) : null;
+  }
+
+  async listByStatus(status: SpecExecutionStatus): Promise<SpecExecution[]> {
+    const rows = await db
+      .select()
+      .from(specExecutions)
+      .where(eq(specExecutions.status, status))
+      .orderBy(asc(specExecutions.created_at));
+    return Promise.all(rows.map(row => this.withTasks(row)));
+  }
+
+  async listByWorkspace(workspaceId: string): Promise<SpecExecution[]> {
+    const rows = await db
+      .select()
+      .from(specExecutions)
+      .where(eq(specExecutions.workspace_id, workspaceId))
+      .orderBy(desc(specExecutions.created_at));
+    return Promise.all(rows.map(row => this.withTasks(row)));
+  }
+
+  async finish(
+    executionId: string,
+    status: Exclude<SpecExecutionStatus, "running">
+  ): Promise<void> {
+    const now = new Date();
+    await db
+      .update(specExecutions)
+      .set({ status, updated_at: now, finished_at: now })
+      .where(eq(specExecutions.execution_id, executionId));
+  }
+
+  async addTask(input: AddSpecExecutionTaskInput): Promise<void> {
+    const now = new Date();
+    const state = input.state ?? "running";
+
+    await db.insert(specExecutionTasks).values({
+      execution_id: input.executionId,
+      task_id: input.taskId,
+      spec_task_id: input.specTaskId,
+      title: input.title,
+      parallel: input.parallel,
+      state,
+      task_session_id: input.taskSessionId ?? null,
+      run_id: input.runId ?? null,
+      worktree_path: input.worktreePath ?? null,
+      branch: input.branch ?? null,
+      error: input.error ?? null,
+      started_at: now,
+      finished_at: state === "running" ? null : now,
+    });
+    await db
+      .update(specExecutions)
+      .set({ updated_at: now })
+      .where(eq(specExecutions.execution_id, input.executionId));
+  }
+
+  async finishTask(
+    executionId: string,
+    taskId: string,
+    input: FinishSpecExecutionTaskInput
+  ): Promise<void> {
+    const now = new Date();
+    await db
+      .update(specExecutionTasks)
+      .set({ state: input.state, error: input.error ?? null, finished_at: now })
+      .where(
+        and(
+          eq(specExecutionTasks.execution_id, executionId),
+          eq(specExecutionTasks.task_id, taskId)
+        )
+      );
+    await db
+      .update(specExecutions)
+      .set({ updated_at: now })
+      .where(eq(specExecutions.execution_id, executionId));
+  }
+}
+
+export const specExecutionRepository = new DrizzleSpecExecutionRepository();
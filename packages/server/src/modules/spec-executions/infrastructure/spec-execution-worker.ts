@@ -0,0 +1,71 @@
+import { createLogger } from "@sakti-code/shared/logger";
+
+const logger = createLogger("server:spec-execution-worker");
+
+export interface SpecExecutionWorkerOptions {
+  /** Advance every running execution; resolves to how many were advanced */
+  advanceRunningExecutions: () => Promise<number>;
+  pollMs?: number;
+}
+
+/**
+ * Polls running spec executions so finished task runs are validated and the
+ * tasks they unblock are queued
+ */
+export class SpecExecutionWorker {
+  private readonly advanceRunningExecutions: () => Promise<number>;
+  private readonly pollMs: number;
+  private loopTimer: NodeJS.Timeout | null = null;
+  private stopped = true;
+  private runningTick = false;
+
+  public constructor(options: SpecExecutionWorkerOptions) {
+    this.advanceRunningExecutions = options.advanceRunningExecutions;
+    this.pollMs = options.pollMs ?? 2_000;
+  }
+
+  public start(): void {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.schedule();
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    if (this.loopTimer) {
+      clearTimeout(this.loopTimer);
+      this.loopTimer = null;
+    }
+  }
+
+  public async processOnce(): Promise<number> {
+    if (this.runningTick) {
+      return 0;
+    }
+
+    this.runningTick = true;
+    try {
+      return await this.advanceRunningExecutions();
+    } finally {
+      this.runningTick = false;
+    }
+  }
+
+  private schedule(): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.loopTimer = setTimeout(async () => {
+      try {
+        await this.processOnce();
+      } catch (error) {
+        logger.error("SpecExecutionWorker tick failed", error as Error);
+      } finally {
+        this.schedule();
+      }
+    }, this.pollMs);
+  }
+}
@@ -0,0 +1,39 @@
+import { Instance } from "@sakti-code/core/server";
+import type { SpecImplementationValidator } from "../application/usecases/spec-execution.usecase.js";
+
+interface SpecValidationOutput {
+  ok?: boolean;
+  summary?: string;
+  error?: string;
+  errors?: Array<{ message: string }>;
+}
+
+/**
+ * Run the spec-validate-impl tool against a task's worktree
+ */
+export const validateSpecImplementation: SpecImplementationValidator = async ({
+  directory,
+  specSlug,
+}) => {
+  const { specValidateImplTool } = await import("@sakti-code/core/tools");
+
+  const output = (await Instance.provide({
+    directory,
+    async fn() {
+      return specValidateImplTool.execute!(
+        { spec_slug: specSlug },
+        { toolCallId: `spec-validate-impl-${specSlug}`, messages: [] }
+      );
+    },
+  })) as SpecValidationOutput;
+
+  if (output.error) {
+    return { ok: false, summary: output.error };
+  }
+
+  const details = (output.errors ?? []).map(error => error.message);
+  return {
+    ok: output.ok === true,
+    summary: [output.summary ?? "", ...details].filter(Boolean).join("\n"),
+  };
+};
@@ -51,6 +51,20 @@ function readString(input: Record<string, unknown> | null, keys: string[]): stri
   return null;
 }
 
+function readCommand(
+  input: Record<string, unknown> | null
+): { name: string; arguments?: string } | undefined {
+  const command = input?.command;
+  if (!command || typeof command !== "object") {
+    return undefined;
+  }
+  const { name, arguments: args } = command as Record<string, unknown>;
+  if (typeof name !== "string" || name.length === 0) {
+    return undefined;
+  }
+  return { name, arguments: typeof args === "string" ? args : undefined };
+}
+
 export function createChatTaskRunExecutor(
   options: CreateChatTaskRunExecutorOptions
 ): TaskRunExecutor {
@@ -93,6 +107,8 @@ export function createChatTaskRunExecutor(
       modelId: readString(run.input, ["modelId"]),
       messageId: readString(run.input, ["messageId"]),
       retryOfAssistantMessageId: readString(run.input, ["retryOfAssistantMessageId"]),
+      agent: readString(run.input, ["agent"]),
+      command: readCommand(run.input),
     };
 
     const response = await fetchImpl(
@@ -103,6 +119,7 @@ export function createChatTaskRunExecutor(
           "Content-Type": "application/json",
           Authorization: `Basic ${Buffer.from(`admin:${options.token}`).toString("base64")}`,
           "X-Task-Session-ID": run.taskSessionId,
+          "X-Task-Run-ID": run.runId,
         },
         body: JSON.stringify(body),
       }
@@ -0,0 +1,110 @@
+import type { SessionBundle, SessionBundleMessage } from "../../domain/session-bundle.js";
+
+const ROLE_LABELS: Record<SessionBundleMessage["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+  tool: "Tool",
+};
+
+function fence(content: string, language = ""): string {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = "`".repeat(longestRun + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+/**
+ * Render a session bundle as a Markdown document
+ */
+export function renderSessionBundleMarkdown(bundle: SessionBundle): string {
+  const lines: string[] = [
+    `# ${bundle.session.title ?? "Untitled session"}`,
+    "",
+    `- Session: ${bundle.session.taskSessionId}`,
+    `- Status: ${bundle.session.status}`,
+    `- Created: ${bundle.session.createdAt}`,
+    `- Exported: ${bundle.exportedAt}`,
+    "",
+  ];
+
+  for (const message of bundle.messages) {
+    lines.push(
+      `## ${ROLE_LABELS[message.role]}`,
+      "",
+      message.role === "tool" ? fence(message.content) : message.content,
+      ""
+    );
+  }
+
+  if (bundle.spec) {
+    lines.push(`## Spec: ${bundle.spec.slug}`, "");
+    for (const file of bundle.spec.files) {
+      const language = file.path.endsWith(".json") ? "json" : "markdown";
+      lines.push(`### ${file.path}`, "", fence(file.content, language), "");
+    }
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+.meta { color: #57606a; font-size: 0.9rem; }
+section.message { border: 1px solid #d0d7de; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+section.message.user { background: #f6f8fa; }
+.role { font-weight: 600; margin-bottom: 0.5rem; }
+.text { white-space: pre-wrap; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 0.75rem; overflow-x: auto; }
+`.trim();
+
+/**
+ * Render a session bundle as a single static HTML page with no external assets
+ */
+export function renderSessionBundleHtml(bundle: SessionBundle): string {
+  const title = escapeHtml(bundle.session.title ?? "Untitled session");
+  const body: string[] = [
+    `<header><h1>${title}</h1><p class="meta">Session ${escapeHtml(bundle.session.taskSessionId)} · ${escapeHtml(bundle.session.status)} · exported ${escapeHtml(bundle.exportedAt)}</p></header>`,
+  ];
+
+  for (const message of bundle.messages) {
+    const content =
+      message.role === "tool"
+        ? `<pre>${escapeHtml(message.content)}</pre>`
+        : `<div class="text">${escapeHtml(message.content)}</div>`;
+    body.push(
+      `<section class="message ${message.role}"><div class="role">${ROLE_LABELS[message.role]}</div>${content}</section>`
+    );
+  }
+
+  if (bundle.spec) {
+    body.push(`<h2>Spec: ${escapeHtml(bundle.spec.slug)}</h2>`);
+    for (const file of bundle.spec.files) {
+      body.push(`<h3>${escapeHtml(file.path)}</h3><pre>${escapeHtml(file.content)}</pre>`);
+    }
+  }
+
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,84 @@
+import { isCompactionCheckpoint, messageStorage } from "@sakti-code/core";
+import { getActiveSpec } from "@sakti-code/core/spec/helpers";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { createWorkspaceUsecases } from "../../../workspace/application/usecases/list-workspaces.usecase.js";
+import type { ITaskSessionRepository } from "../../domain/repositories/task-session.repository.js";
+import {
+  SESSION_BUNDLE_VERSION,
+  type SessionBundle,
+  type SessionBundleMessage,
+  type SessionBundleSpecFile,
+} from "../../domain/session-bundle.js";
+
+type ExportWorkspaceUsecases = Pick<ReturnType<typeof createWorkspaceUsecases>, "getWorkspaceById">;
+
+const MESSAGE_LIMIT = 10000;
+
+async function readSpecFiles(specDir: string): Promise<SessionBundleSpecFile[]> {
+  const entries = await fs.readdir(specDir, { withFileTypes: true }).catch(() => []);
+  const files: SessionBundleSpecFile[] = [];
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    files.push({
+      path: entry.name,
+      content: await fs.readFile(path.join(specDir, entry.name), "utf-8"),
+    });
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function createExportTaskSessionUsecase(
+  repository: ITaskSessionRepository,
+  workspaces: ExportWorkspaceUsecases
+) {
+  /**
+   * Gather a task session into a self-contained bundle
+   */
+  return async function exportTaskSessionUsecase(taskSessionId: string): Promise<SessionBundle> {
+    const session = await repository.getById(taskSessionId);
+    if (!session) {
+      throw new Error(`Task session not found: ${taskSessionId}`);
+    }
+
+    let spec: SessionBundle["spec"] = null;
+    const slug = await getActiveSpec(session.taskSessionId);
+    const workspace = session.workspaceId
+      ? await workspaces.getWorkspaceById(session.workspaceId)
+      : null;
+    if (slug && workspace) {
+      spec = {
+        slug,
+        files: await readSpecFiles(path.join(workspace.path, ".kiro", "specs", slug)),
+      };
+    }
+
+    const stored = await messageStorage.listMessages({
+      threadId: session.threadId,
+      limit: MESSAGE_LIMIT,
+    });
+    // Checkpoints are derived from the original turns, which are exported in full
+    const messages: SessionBundleMessage[] = stored
+      .filter(message => !isCompactionCheckpoint(message))
+      .map(message => ({
+        role: message.role as SessionBundleMessage["role"],
+        content: message.raw_content,
+        createdAt: message.created_at.getTime(),
+      }));
+
+    return {
+      version: SESSION_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      session: {
+        taskSessionId: session.taskSessionId,
+        title: session.title,
+        status: session.status,
+        specType: session.specType,
+        sessionKind: session.sessionKind,
+        createdAt: session.createdAt.toISOString(),
+      },
+      messages,
+      spec,
+    };
+  };
+}
@@ -0,0 +1,121 @@
+import { forkSessionMemory, messageStorage } from "@sakti-code/core";
+import { createWorktree, getWorkspacesDir } from "@sakti-code/core/server";
+import { forkMessages } from "../../../chat/infrastructure/session-message-store.js";
+import type { createWorkspaceUsecases } from "../../../workspace/application/usecases/list-workspaces.usecase.js";
+import type {
+  ITaskSessionRepository,
+  TaskSession,
+} from "../../domain/repositories/task-session.repository.js";
+
+export interface ForkTaskSessionInput {
+  taskSessionId: string;
+  /** Fork just before this message; omit to fork the whole conversation */
+  messageId?: string;
+  /** Give the fork its own git worktree on a new branch */
+  worktree?: {
+    name?: string;
+    branch?: string;
+  };
+}
+
+export interface ForkTaskSessionOutput {
+  taskSession: TaskSession;
+  messages: number;
+  worktreePath: string | null;
+}
+
+type ForkWorkspaceUsecases = Pick<
+  ReturnType<typeof createWorkspaceUsecases>,
+  "getWorkspaceById" | "createWorkspace"
+>;
+
+export function createForkTaskSessionUsecase(
+  repository: ITaskSessionRepository,
+  workspaces: ForkWorkspaceUsecases
+) {
+  async function createForkWorkspace(
+    source: TaskSession,
+    worktree: NonNullable<ForkTaskSessionInput["worktree"]>
+  ): Promise<{ workspaceId: string; worktreePath: string }> {
+    const workspace = source.workspaceId
+      ? await workspaces.getWorkspaceById(source.workspaceId)
+      : null;
+    if (!workspace) {
+      throw new Error(`Worktree unavailable: session ${source.taskSessionId} has no workspace`);
+    }
+
+    const worktreeName = worktree.name ?? `${workspace.name}-fork-${Date.now().toString(36)}`;
+    let worktreePath: string;
+    try {
+      worktreePath = await createWorktree({
+        repoPath: workspace.path,
+        worktreeName,
+        branch: worktree.branch ?? `fork/${worktreeName}`,
+        worktreesDir: getWorkspacesDir(),
+        createBranch: true,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Worktree unavailable: ${message}`);
+    }
+
+    const { workspace: forkWorkspace } = await workspaces.createWorkspace({
+      path: worktreePath,
+      name: worktreeName,
+    });
+    return { workspaceId: forkWorkspace.id, worktreePath };
+  }
+
+  /**
+   * Start a new task session from a point in an existing one
+   *
+   * The fork gets copies of the visible messages and the agent memory from
+   * before that point. A worktree branches off the workspace's current HEAD.
+   */
+  return async function forkTaskSessionUsecase(
+    input: ForkTaskSessionInput
+  ): Promise<ForkTaskSessionOutput> {
+    const source = await repository.getById(input.taskSessionId);
+    if (!source) {
+      throw new Error(`Task session not found: ${input.taskSessionId}`);
+    }
+
+    let before: Date | undefined;
+    if (input.messageId) {
+      const message = await messageStorage.getMessage(input.messageId);
+      if (!message || message.thread_id !== source.threadId) {
+        throw new Error(`Message not found: ${input.messageId}`);
+      }
+      before = message.created_at;
+    }
+
+    const forkWorkspace = input.worktree ? await createForkWorkspace(source, input.worktree) : null;
+
+    const taskSession = await repository.create({
+      resourceId: source.resourceId,
+      workspaceId: forkWorkspace?.workspaceId ?? source.workspaceId ?? undefined,
+      sessionKind: source.sessionKind,
+      parentId: source.taskSessionId,
+      title: `${source.title ?? "New Chat"} (fork)`,
+    });
+
+    const memory = await forkSessionMemory({
+      sourceThreadId: source.threadId,
+      targetThreadId: taskSession.threadId,
+      before,
+    });
+    // Mirror the live timeline too when the source is still loaded
+    forkMessages({
+      sourceSessionID: source.taskSessionId,
+      targetSessionID: taskSession.taskSessionId,
+      beforeMessageID: input.messageId,
+      messageIDs: memory.messageIds,
+    });
+
+    return {
+      taskSession,
+      messages: memory.messages,
+      worktreePath: forkWorkspace?.worktreePath ?? null,
+    };
+  };
+}
@@ -0,0 +1,116 @@
+import { messageStorage } from "@sakti-code/core";
+import { updateSessionSpec } from "@sakti-code/core/spec/helpers";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { v7 as uuidv7 } from "uuid";
+import type { createWorkspaceUsecases } from "../../../workspace/application/usecases/list-workspaces.usecase.js";
+import type {
+  ITaskSessionRepository,
+  TaskSession,
+} from "../../domain/repositories/task-session.repository.js";
+import { SESSION_BUNDLE_VERSION, type SessionBundle } from "../../domain/session-bundle.js";
+
+export interface ImportTaskSessionInput {
+  bundle: SessionBundle;
+  /** Workspace the session is recreated in; spec files are written into it */
+  workspaceId?: string;
+  resourceId?: string;
+}
+
+export interface ImportTaskSessionOutput {
+  taskSession: TaskSession;
+  messages: number;
+  /** Whether the bundled spec was written into the workspace */
+  specRestored: boolean;
+}
+
+type ImportWorkspaceUsecases = Pick<ReturnType<typeof createWorkspaceUsecases>, "getWorkspaceById">;
+
+function isPlainName(name: string): boolean {
+  return name.length > 0 && name !== "." && name !== ".." && path.basename(name) === name;
+}
+
+/**
+ * Write bundled spec files into the workspace without touching an existing spec
+ */
+async function restoreSpec(
+  workspacePath: string,
+  spec: NonNullable<SessionBundle["spec"]>
+): Promise<boolean> {
+  const specDir = path.join(workspacePath, ".kiro", "specs", spec.slug);
+  const exists = await fs
+    .stat(specDir)
+    .then(() => true)
+    .catch(() => false);
+  if (exists) return false;
+
+  await fs.mkdir(specDir, { recursive: true });
+  for (const file of spec.files) {
+    if (!isPlainName(file.path)) continue;
+    await fs.writeFile(path.join(specDir, file.path), file.content, "utf-8");
+  }
+  return true;
+}
+
+export function createImportTaskSessionUsecase(
+  repository: ITaskSessionRepository,
+  workspaces: ImportWorkspaceUsecases
+) {
+  /**
+   * Recreate an exported task session under new IDs
+   *
+   * The messages are written to the new session's thread. The spec is written
+   * into the target workspace unless a spec with the same slug already exists
+   * there, in which case the session links to the existing one.
+   */
+  return async function importTaskSessionUsecase(
+    input: ImportTaskSessionInput
+  ): Promise<ImportTaskSessionOutput> {
+    const { bundle } = input;
+    if (bundle.version !== SESSION_BUNDLE_VERSION) {
+      throw new Error(`Unsupported bundle version: ${String(bundle.version)}`);
+    }
+
+    const workspace = input.workspaceId
+      ? await workspaces.getWorkspaceById(input.workspaceId)
+      : null;
+    if (input.workspaceId && !workspace) {
+      throw new Error(`Workspace not found: ${input.workspaceId}`);
+    }
+
+    const taskSession = await repository.create({
+      resourceId: input.resourceId ?? "local",
+      workspaceId: workspace?.id,
+      sessionKind: bundle.session.sessionKind,
+      title: bundle.session.title ?? undefined,
+    });
+    await repository.update(taskSession.taskSessionId, {
+      status: bundle.session.status,
+      specType: bundle.session.specType,
+    });
+
+    for (const [index, message] of bundle.messages.entries()) {
+      await messageStorage.createMessage({
+        id: uuidv7(),
+        threadId: taskSession.threadId,
+        resourceId: taskSession.resourceId,
+        role: message.role,
+        rawContent: message.content,
+        createdAt: message.createdAt,
+        messageIndex: index,
+      });
+    }
+
+    let specRestored = false;
+    if (bundle.spec && workspace && isPlainName(bundle.spec.slug)) {
+      specRestored = await restoreSpec(workspace.path, bundle.spec);
+      await updateSessionSpec(taskSession.taskSessionId, bundle.spec.slug);
+    }
+
+    return {
+      taskSession: (await repository.getById(taskSession.taskSessionId)) ?? taskSession,
+      messages: bundle.messages.length,
+      specRestored,
+    };
+  };
+}
@@ -1,4 +1,9 @@
+import { createWorkspaceUsecases } from "../../../workspace/application/usecases/list-workspaces.usecase.js";
+import { workspaceRepository } from "../../../workspace/infrastructure/repositories/workspace.repository.drizzle.js";
 import { createCreateTaskSessionUsecase } from "../../application/usecases/create-task-session.usecase.js";
+import { createExportTaskSessionUsecase } from "../../application/usecases/export-task-session.usecase.js";
+import { createForkTaskSessionUsecase } from "../../application/usecases/fork-task-session.usecase.js";
+import { createImportTaskSessionUsecase } from "../../application/usecases/import-task-session.usecase.js";
 import {
   createGetLatestTaskSessionByWorkspaceUsecase,
   createListTaskSessionsUsecase,
@@ -11,6 +16,7 @@ import {
 import { taskSessionRepository } from "../../infrastructure/repositories/task-session.repository.drizzle.js";
 
 export function buildTaskSessionUsecases() {
+  const workspaceUsecases = createWorkspaceUsecases(workspaceRepository);
   return {
     createTaskSessionUsecase: createCreateTaskSessionUsecase(taskSessionRepository),
     listTaskSessionsUsecase: createListTaskSessionsUsecase(taskSessionRepository),
@@ -19,5 +25,14 @@ export function buildTaskSessionUsecases() {
     deleteTaskSessionUsecase: createDeleteTaskSessionUsecase(taskSessionRepository),
     getLatestTaskSessionByWorkspaceUsecase:
       createGetLatestTaskSessionByWorkspaceUsecase(taskSessionRepository),
+    forkTaskSessionUsecase: createForkTaskSessionUsecase(taskSessionRepository, workspaceUsecases),
+    exportTaskSessionUsecase: createExportTaskSessionUsecase(
+      taskSessionRepository,
+      workspaceUsecases
+    ),
+    importTaskSessionUsecase: createImportTaskSessionUsecase(
+      taskSessionRepository,
+      workspaceUsecases
+    ),
   };
 }
@@ -5,6 +5,10 @@
 import { app } from "@/app/app";
 import { getDb, taskSessions } from "@sakti-code/server/db";
 import { eq, sql } from "drizzle-orm";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { v7 as uuidv7 } from "uuid";
 import { beforeEach, describe, expect, it } from "vitest";
 
 describe("task-sessions routes", () => {
@@ -208,4 +212,324 @@ describe("task-sessions routes", () => {
       expect(json.error).toContain("Invalid specType");
     });
   });
+
+  describe("POST /api/task-sessions/:taskSessionId/fork", () => {
+    const sourceId = "22222222-89ab-7123-8123-456789abcdef";
+    const userId = "33333333-89ab-7123-8123-456789abcdef";
+    const assistantId = "44444444-89ab-7123-8123-456789abcdef";
+    const secondUserId = "55555555-89ab-7123-8123-456789abcdef";
+
+    beforeEach(async () => {
+      const { clearSessionStore } =
+        await import("../../../../chat/infrastructure/session-message-store");
+      clearSessionStore();
+      const db = await getDb();
+      await db.run(sql`DELETE FROM threads`);
+    });
+
+    async function seedSource() {
+      const { createTaskSessionWithId } = await import("../../../../../../db/task-sessions");
+      await createTaskSessionWithId("local", sourceId);
+
+      const { upsertMessage, upsertPart } =
+        await import("../../../../chat/infrastructure/session-message-store");
+      upsertMessage({ role: "user", id: userId, sessionID: sourceId, time: { created: 1000 } });
+      upsertPart({
+        id: `${userId}-text`,
+        sessionID: sourceId,
+        messageID: userId,
+        type: "text",
+        text: "first question",
+      });
+      upsertMessage({
+        role: "assistant",
+        id: assistantId,
+        sessionID: sourceId,
+        parentID: userId,
+        time: { created: 2000 },
+      } as never);
+      upsertMessage({
+        role: "user",
+        id: secondUserId,
+        sessionID: sourceId,
+        time: { created: 3000 },
+      });
+
+      const { messageStorage } = await import("@sakti-code/core");
+      const conversation = [
+        [userId, "first question"],
+        [assistantId, "first answer"],
+        [secondUserId, "second question"],
+      ];
+      for (const [index, [id, text]] of conversation.entries()) {
+        await messageStorage.createMessage({
+          id: id!,
+          threadId: sourceId,
+          resourceId: "local",
+          role: index === 1 ? "assistant" : "user",
+          rawContent: text!,
+          createdAt: 1000 * (index + 1) + 500,
+          messageIndex: index,
+        });
+      }
+    }
+
+    function fork(body: unknown, sessionId = sourceId) {
+      return app.request(`/api/task-sessions/${sessionId}/fork`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${testCredentials}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it("forks a session before a message", async () => {
+      await seedSource();
+
+      const res = await fork({ messageId: secondUserId });
+
+      expect(res.status).toBe(201);
+      const json = await res.json();
+      expect(json.taskSession.parentId).toBe(sourceId);
+      expect(json.taskSession.title).toBe("New Chat (fork)");
+      expect(json.messages).toBe(2);
+      expect(json.worktreePath).toBeNull();
+
+      const forkId = json.taskSession.taskSessionId;
+      const { getSessionMessages } =
+        await import("../../../../chat/infrastructure/session-message-store");
+      const copied = getSessionMessages(forkId);
+      expect(copied.map(message => message.info.role)).toEqual(["user", "assistant"]);
+      expect(
+        copied.every(message => (message.info as { sessionID?: string }).sessionID === forkId)
+      ).toBe(true);
+      expect((copied[1]!.info as { parentID?: string }).parentID).toBe(copied[0]!.info.id);
+      expect(copied[0]!.parts[0]).toMatchObject({
+        text: "first question",
+        messageID: copied[0]!.info.id,
+      });
+
+      const { messageStorage } = await import("@sakti-code/core");
+      const memory = await messageStorage.listMessages({ threadId: forkId });
+      expect(memory.map(message => message.raw_content)).toEqual([
+        "first question",
+        "first answer",
+      ]);
+      expect(memory.map(message => message.id)).toEqual(copied.map(message => message.info.id));
+    });
+
+    it("forks from persisted messages when the live timeline is gone", async () => {
+      await seedSource();
+      const { clearSessionStore } =
+        await import("../../../../chat/infrastructure/session-message-store");
+      clearSessionStore();
+
+      const res = await fork({ messageId: assistantId });
+
+      expect(res.status).toBe(201);
+      const json = await res.json();
+      expect(json.messages).toBe(1);
+      const { messageStorage } = await import("@sakti-code/core");
+      const memory = await messageStorage.listMessages({
+        threadId: json.taskSession.taskSessionId,
+      });
+      expect(memory.map(message => message.raw_content)).toEqual(["first question"]);
+    });
+
+    it("returns 404 for unknown sessions and messages", async () => {
+      await seedSource();
+
+      expect((await fork({ messageId: "missing" })).status).toBe(404);
+      expect((await fork({}, "66666666-89ab-7123-8123-456789abcdef")).status).toBe(404);
+    });
+
+    it("rejects a worktree for sessions without a workspace", async () => {
+      await seedSource();
+
+      const res = await fork({ worktree: {} });
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain("Worktree unavailable");
+    });
+  });
+
+  describe("session export and import", () => {
+    const sourceId = "77777777-89ab-7123-8123-456789abcdef";
+
+    beforeEach(async () => {
+      const db = await getDb();
+      await db.run(sql`DELETE FROM threads`);
+    });
+
+    async function seedSource(workspaceId?: string) {
+      const db = await getDb();
+      const now = new Date();
+      await db.insert(taskSessions).values({
+        session_id: sourceId,
+        resource_id: "local",
+        thread_id: sourceId,
+        workspace_id: workspaceId ?? null,
+        title: "Parser <work>",
+        status: "implementing",
+        session_kind: "task",
+        created_at: now,
+        last_accessed: now,
+        last_activity_at: now,
+      });
+      await db.run(
+        sql`INSERT INTO threads (id, resource_id, title, created_at, updated_at) VALUES (${sourceId}, 'local', 'Parser', ${now.getTime()}, ${now.getTime()})`
+      );
+
+      const { messageStorage } = await import("@sakti-code/core");
+      const conversation = [
+        { role: "user", content: "write the parser" },
+        {
+          role: "tool",
+          content: JSON.stringify({ filePath: "/repo/parser.ts", diff: "+export {}" }),
+        },
+        { role: "assistant", content: "Parser written" },
+      ] as const;
+      for (const [index, message] of conversation.entries()) {
+        await messageStorage.createMessage({
+          id: uuidv7(),
+          threadId: sourceId,
+          resourceId: "local",
+          role: message.role,
+          rawContent: message.content,
+          createdAt: 1_700_000_000_000 + index,
+          messageIndex: index,
+        });
+      }
+    }
+
+    function request(url: string, init: RequestInit = {}) {
+      return app.request(url, {
+        ...init,
+        headers: {
+          Authorization: `Basic ${testCredentials}`,
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    it("exports the persisted messages as versioned JSON", async () => {
+      await seedSource();
+
+      const res = await request(`/api/task-sessions/${sourceId}/export`);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Disposition")).toContain("parser-work-77777777.json");
+      const bundle = await res.json();
+      expect(bundle.version).toBe(2);
+      expect(bundle.session).toMatchObject({ title: "Parser <work>", status: "implementing" });
+      expect(bundle.messages.map((message: { role: string }) => message.role)).toEqual([
+        "user",
+        "tool",
+        "assistant",
+      ]);
+      expect(bundle.messages[0]).toEqual({
+        role: "user",
+        content: "write the parser",
+        createdAt: 1_700_000_000_000,
+      });
+      expect(bundle.spec).toBeNull();
+    });
+
+    it("renders Markdown and self-contained HTML", async () => {
+      await seedSource();
+
+      const markdown = await request(`/api/task-sessions/${sourceId}/export?format=markdown`);
+      expect(markdown.headers.get("Content-Type")).toContain("text/markdown");
+      const text = await markdown.text();
+      expect(text).toContain("# Parser <work>");
+      expect(text).toContain("## User\n\nwrite the parser");
+      expect(text).toContain(
+        '## Tool\n\n```\n{"filePath":"/repo/parser.ts","diff":"+export {}"}\n```'
+      );
+
+      const html = await request(`/api/task-sessions/${sourceId}/export?format=html`);
+      expect(html.headers.get("Content-Type")).toContain("text/html");
+      const page = await html.text();
+      expect(page).toContain("<title>Parser &lt;work&gt;</title>");
+      expect(page).toContain("write the parser");
+      expect(page).not.toMatch(/<(script|link)\b/);
+    });
+
+    it("returns 404 when exporting an unknown session", async () => {
+      const res = await request(`/api/task-sessions/${uuidv7()}/export`);
+      expect(res.status).toBe(404);
+    });
+
+    it("imports a bundle as a new session with its spec", async () => {
+      const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "session-bundle-"));
+      const { createWorkspaceUsecases } =
+        await import("../../../../workspace/application/usecases/list-workspaces.usecase");
+      const { workspaceRepository } =
+        await import("../../../../workspace/infrastructure/repositories/workspace.repository.drizzle");
+      const { workspace } = await createWorkspaceUsecases(workspaceRepository).createWorkspace({
+        path: workspaceDir,
+        name: "bundle-target",
+      });
+
+      try {
+        await seedSource();
+        const bundle = await (await request(`/api/task-sessions/${sourceId}/export`)).json();
+        bundle.spec = {
+          slug: "parser",
+          files: [{ path: "tasks.md", content: "- [ ] T-001 Write parser" }],
+        };
+
+        const res = await request("/api/task-sessions/import", {
+          method: "POST",
+          body: JSON.stringify({ bundle, workspaceId: workspace.id }),
+        });
+
+        expect(res.status).toBe(201);
+        const json = await res.json();
+        expect(json.messages).toBe(3);
+        expect(json.specRestored).toBe(true);
+        expect(json.taskSession).toMatchObject({
+          title: "Parser <work>",
+          status: "implementing",
+          workspaceId: workspace.id,
+        });
+
+        const importedId = json.taskSession.taskSessionId;
+        expect(importedId).not.toBe(sourceId);
+        const { messageStorage } = await import("@sakti-code/core");
+        const imported = await messageStorage.listMessages({ threadId: importedId });
+        expect(imported.map(message => [message.role, message.raw_content])).toEqual(
+          bundle.messages.map((message: { role: string; content: string }) => [
+            message.role,
+            message.content,
+          ])
+        );
+
+        const { getActiveSpec } = await import("@sakti-code/core/spec/helpers");
+        expect(await getActiveSpec(importedId)).toBe("parser");
+        expect(
+          await fs.readFile(
+            path.join(workspaceDir, ".kiro", "specs", "parser", "tasks.md"),
+            "utf-8"
+          )
+        ).toBe("- [ ] T-001 Write parser");
+      } finally {
+        await fs.rm(workspaceDir, { recursive: true, force: true });
+      }
+    });
+
+    it("rejects bundles of another version", async () => {
+      await seedSource();
+      const bundle = await (await request(`/api/task-sessions/${sourceId}/export`)).json();
+
+      const res = await request("/api/task-sessions/import", {
+        method: "POST",
+        body: JSON.stringify({ bundle: { ...bundle, version: 1 } }),
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
 });
@@ -3,9 +3,17 @@ import { z } from "zod";
 import { publish, TaskSessionUpdated } from "../../../../bus";
 import type { Env } from "../../../../index.js";
 import { zValidator } from "../../../../shared/controller/http/validators.js";
+import {
+  renderSessionBundleHtml,
+  renderSessionBundleMarkdown,
+} from "../../application/services/session-bundle-render.js";
+import type { SessionBundle } from "../../domain/session-bundle.js";
 import { buildTaskSessionUsecases } from "../factory/task-sessions.factory.js";
 import {
   CreateTaskSessionSchema,
+  ExportTaskSessionQuerySchema,
+  ForkTaskSessionSchema,
+  ImportTaskSessionSchema,
   ListTaskSessionsQuerySchema,
   TaskSessionKindSchema,
   TaskSessionParamsSchema,
@@ -25,14 +33,35 @@ const {
   updateTaskSessionUsecase,
   deleteTaskSessionUsecase,
   getLatestTaskSessionByWorkspaceUsecase,
+  forkTaskSessionUsecase,
+  exportTaskSessionUsecase,
+  importTaskSessionUsecase,
 } = buildTaskSessionUsecases();
 
+const BUNDLE_CONTENT_TYPES = {
+  json: "application/json; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+} as const;
+
+const BUNDLE_EXTENSIONS = { json: "json", markdown: "md", html: "html" } as const;
+
+function bundleFileName(bundle: SessionBundle, extension: string): string {
+  const slug = (bundle.session.title ?? "session")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "session"}-${bundle.session.taskSessionId.slice(0, 8)}.${extension}`;
+}
+
 function serializeTaskSession(session: Awaited<ReturnType<typeof getTaskSessionUsecase>>) {
   if (!session) return null;
   return {
     taskSessionId: session.taskSessionId,
     resourceId: session.resourceId,
     threadId: session.threadId,
+    parentId: session.parentId,
     workspaceId: session.workspaceId,
     title: session.title,
     status: session.status,
@@ -107,6 +136,122 @@ app.post("/api/task-sessions", zValidator("json", CreateTaskSessionSchema), asyn
   return c.json({ taskSession: serializeTaskSession(result.taskSession) }, 201);
 });
 
+app.post(
+  "/api/task-sessions/:taskSessionId/fork",
+  zValidator("param", TaskSessionParamsSchema),
+  zValidator("json", ForkTaskSessionSchema),
+  async c => {
+    const { taskSessionId } = c.req.valid("param");
+    const { messageId, worktree } = c.req.valid("json");
+
+    let result: Awaited<ReturnType<typeof forkTaskSessionUsecase>>;
+    try {
+      result = await forkTaskSessionUsecase({ taskSessionId, messageId, worktree });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to fork task session";
+      if (message.startsWith("Task session not found") || message.startsWith("Message not found")) {
+        return c.json({ error: message }, 404);
+      }
+      if (message.startsWith("Worktree unavailable")) {
+        return c.json({ error: message }, 400);
+      }
+      return c.json({ error: message }, 500);
+    }
+
+    await publish(TaskSessionUpdated, {
+      taskSessionId: result.taskSession.taskSessionId,
+      workspaceId: result.taskSession.workspaceId ?? "",
+      status: result.taskSession.status,
+      specType: result.taskSession.specType,
+      sessionKind: result.taskSession.sessionKind,
+      title: result.taskSession.title ?? "",
+      lastActivityAt: result.taskSession.lastActivityAt.toISOString(),
+      mutation: "created",
+    });
+
+    return c.json(
+      {
+        taskSession: serializeTaskSession(result.taskSession),
+        messages: result.messages,
+        worktreePath: result.worktreePath,
+      },
+      201
+    );
+  }
+);
+
+app.get(
+  "/api/task-sessions/:taskSessionId/export",
+  zValidator("param", TaskSessionParamsSchema),
+  zValidator("query", ExportTaskSessionQuerySchema),
+  async c => {
+    const { taskSessionId } = c.req.valid("param");
+    const { format } = c.req.valid("query");
+
+    let bundle: SessionBundle;
+    try {
+      bundle = await exportTaskSessionUsecase(taskSessionId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to export task session";
+      return c.json({ error: message }, message.startsWith("Task session not found") ? 404 : 500);
+    }
+
+    const body =
+      format === "html"
+        ? renderSessionBundleHtml(bundle)
+        : format === "markdown"
+          ? renderSessionBundleMarkdown(bundle)
+          : JSON.stringify(bundle, null, 2);
+
+    return c.body(body, 200, {
+      "Content-Type": BUNDLE_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${bundleFileName(bundle, BUNDLE_EXTENSIONS[format])}"`,
+    });
+  }
+);
+
+app.post("/api/task-sessions/import", zValidator("json", ImportTaskSessionSchema), async c => {
+  const { bundle, workspaceId, resourceId } = c.req.valid("json");
+
+  let result: Awaited<ReturnType<typeof importTaskSessionUsecase>>;
+  try {
+    result = await importTaskSessionUsecase({
+      bundle: bundle as unknown as SessionBundle,
+      workspaceId,
+      resourceId,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to import task session";
+    if (message.startsWith("Workspace not found")) {
+      return c.json({ error: message }, 404);
+    }
+    if (message.startsWith("Unsupported bundle version")) {
+      return c.json({ error: message }, 400);
+    }
+    return c.json({ error: message }, 500);
+  }
+
+  await publish(TaskSessionUpdated, {
+    taskSessionId: result.taskSession.taskSessionId,
+    workspaceId: result.taskSession.workspaceId ?? "",
+    status: result.taskSession.status,
+    specType: result.taskSession.specType,
+    sessionKind: result.taskSession.sessionKind,
+    title: result.taskSession.title ?? "",
+    lastActivityAt: result.taskSession.lastActivityAt.toISOString(),
+    mutation: "created",
+  });
+
+  return c.json(
+    {
+      taskSession: serializeTaskSession(result.taskSession),
+      messages: result.messages,
+      specRestored: result.specRestored,
+    },
+    201
+  );
+});
+
 app.patch(
   "/api/task-sessions/:taskSessionId",
   zValidator("param", TaskSessionParamsSchema),
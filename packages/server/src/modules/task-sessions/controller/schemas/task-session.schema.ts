@@ -18,6 +18,7 @@ export const TaskSessionSchema = z.object({
   taskSessionId: z.string().uuid(),
   resourceId: z.string(),
   threadId: z.string().uuid(),
+  parentId: z.string().uuid().nullable(),
   workspaceId: z.string().uuid().nullable(),
   title: z.string().nullable(),
   status: TaskSessionStatusSchema,
@@ -41,6 +42,52 @@ export const UpdateTaskSessionSchema = z.object({
   title: z.string().optional(),
 });
 
+export const ForkTaskSessionSchema = z.object({
+  messageId: z.string().min(1).optional(),
+  worktree: z
+    .object({
+      name: z.string().min(1).optional(),
+      branch: z.string().min(1).optional(),
+    })
+    .optional(),
+});
+
+export const ExportTaskSessionQuerySchema = z.object({
+  format: z.enum(["json", "markdown", "html"]).optional().default("json"),
+});
+
+export const SessionBundleSchema = z.object({
+  version: z.literal(2),
+  exportedAt: z.string(),
+  session: z.object({
+    taskSessionId: z.string(),
+    title: z.string().nullable(),
+    status: TaskSessionStatusSchema,
+    specType: TaskSpecTypeSchema,
+    sessionKind: TaskSessionKindSchema,
+    createdAt: z.string(),
+  }),
+  messages: z.array(
+    z.object({
+      role: z.enum(["user", "assistant", "system", "tool"]),
+      content: z.string(),
+      createdAt: z.number(),
+    })
+  ),
+  spec: z
+    .object({
+      slug: z.string().min(1),
+      files: z.array(z.object({ path: z.string().min(1), content: z.string() })),
+    })
+    .nullable(),
+});
+
+export const ImportTaskSessionSchema = z.object({
+  bundle: SessionBundleSchema,
+  workspaceId: z.string().uuid().optional(),
+  resourceId: z.string().min(1).optional(),
+});
+
 export const ListTaskSessionsQuerySchema = z.object({
   workspaceId: z.string().uuid().optional(),
   kind: TaskSessionKindSchema.optional(),
@@ -15,6 +15,7 @@ export interface TaskSession {
   taskSessionId: string;
   resourceId: string;
   threadId: string;
+  parentId: string | null;
   workspaceId: string | null;
   title: string | null;
   status: TaskSessionStatus;
@@ -30,6 +31,8 @@ export interface CreateTaskSessionInput {
   resourceId: string;
   workspaceId?: string;
   sessionKind?: TaskSessionKind;
+  parentId?: string;
+  title?: string;
 }
 
 export interface UpdateTaskSessionInput {
@@ -0,0 +1,44 @@
+import type { TaskSession } from "./repositories/task-session.repository.js";
+
+/**
+ * Version of the JSON session bundle format; bump on breaking changes
+ */
+export const SESSION_BUNDLE_VERSION = 2;
+
+/** A file of the session's active spec, relative to the spec directory */
+export interface SessionBundleSpecFile {
+  path: string;
+  content: string;
+}
+
+/** A persisted message of the session's conversation */
+export interface SessionBundleMessage {
+  role: "user" | "assistant" | "system" | "tool";
+  content: string;
+  createdAt: number;
+}
+
+/**
+ * Self-contained export of a task session
+ *
+ * Holds everything needed to read the session offline or to recreate it in
+ * another workspace: the persisted messages of the conversation, including
+ * tool results, and the active spec.
+ */
+export interface SessionBundle {
+  version: typeof SESSION_BUNDLE_VERSION;
+  exportedAt: string;
+  session: {
+    taskSessionId: string;
+    title: string | null;
+    status: TaskSession["status"];
+    specType: TaskSession["specType"];
+    sessionKind: TaskSession["sessionKind"];
+    createdAt: string;
+  };
+  messages: SessionBundleMessage[];
+  spec: {
+    slug: string;
+    files: SessionBundleSpecFile[];
+  } | null;
+}
@@ -38,6 +38,7 @@ function mapRowToTaskSession(row: typeof taskSessions.$inferSelect): TaskSession
     taskSessionId: row.session_id,
     resourceId: row.resource_id,
     threadId: row.thread_id,
+    parentId: row.parent_id,
     workspaceId: row.workspace_id,
     title: row.title,
     status: row.status as TaskSession["status"],
@@ -59,8 +60,9 @@ export class DrizzleTaskSessionRepository implements ITaskSessionRepository {
       session_id: sessionId,
       resource_id: input.resourceId,
       thread_id: sessionId,
+      parent_id: input.parentId ?? null,
       workspace_id: input.workspaceId ?? null,
-      title: DEFAULT_SESSION_TITLE,
+      title: input.title ?? DEFAULT_SESSION_TITLE,
       created_at: now,
       last_accessed: now,
       last_activity_at: now,
@@ -70,12 +72,13 @@ export class DrizzleTaskSessionRepository implements ITaskSessionRepository {
     };
 
     await db.insert(taskSessions).values(session);
-    await ensureThreadRecord(session.thread_id, input.resourceId, DEFAULT_SESSION_TITLE);
+    await ensureThreadRecord(session.thread_id, input.resourceId, session.title);
 
     return {
       taskSessionId: session.session_id,
       resourceId: session.resource_id,
       threadId: session.thread_id,
+      parentId: session.parent_id,
       workspaceId: session.workspace_id,
       title: session.title,
       createdAt: session.created_at,
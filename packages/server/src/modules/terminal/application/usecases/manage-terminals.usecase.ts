@@ -0,0 +1,67 @@
+import { Terminal, type TerminalEvent, type TerminalInfo } from "@sakti-code/core/terminal";
+
+export interface CreateTerminalInput {
+  directory: string;
+  title?: string;
+  cols?: number;
+  rows?: number;
+}
+
+export interface TerminalSnapshot {
+  terminal: TerminalInfo;
+  scrollback: string;
+}
+
+function requireTerminal(id: string): TerminalInfo {
+  const terminal = Terminal.get(id);
+  if (!terminal) {
+    throw new Error(`Terminal not found: ${id}`);
+  }
+  return terminal;
+}
+
+export function listTerminalsUsecase(directory: string): TerminalInfo[] {
+  return Terminal.list(directory);
+}
+
+export async function createTerminalUsecase(input: CreateTerminalInput): Promise<TerminalInfo> {
+  return Terminal.create(input);
+}
+
+export function getTerminalUsecase(id: string): TerminalInfo {
+  return requireTerminal(id);
+}
+
+/**
+ * Terminal info plus the raw scrollback a newly attached client replays
+ */
+export function getTerminalSnapshotUsecase(id: string): TerminalSnapshot {
+  return {
+    terminal: requireTerminal(id),
+    scrollback: Terminal.getScrollback(id),
+  };
+}
+
+export function writeTerminalUsecase(id: string, data: string): void {
+  Terminal.write(id, data);
+}
+
+export function resizeTerminalUsecase(id: string, cols: number, rows: number): TerminalInfo {
+  Terminal.resize(id, cols, rows);
+  return requireTerminal(id);
+}
+
+export function readTerminalOutputUsecase(id: string, lines?: number): string {
+  return Terminal.readOutput(id, { lines });
+}
+
+export function subscribeTerminalUsecase(
+  id: string,
+  listener: (event: TerminalEvent) => void
+): () => void {
+  return Terminal.subscribe(id, listener);
+}
+
+export async function closeTerminalUsecase(id: string): Promise<void> {
+  await Terminal.close(id);
+}
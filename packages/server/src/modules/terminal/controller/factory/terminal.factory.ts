@@ -0,0 +1,25 @@
+import {
+  closeTerminalUsecase,
+  createTerminalUsecase,
+  getTerminalSnapshotUsecase,
+  getTerminalUsecase,
+  listTerminalsUsecase,
+  readTerminalOutputUsecase,
+  resizeTerminalUsecase,
+  subscribeTerminalUsecase,
+  writeTerminalUsecase,
+} from "../../application/usecases/manage-terminals.usecase.js";
+
+export function buildTerminalUsecases() {
+  return {
+    listTerminalsUsecase,
+    createTerminalUsecase,
+    getTerminalUsecase,
+    getTerminalSnapshotUsecase,
+    writeTerminalUsecase,
+    resizeTerminalUsecase,
+    readTerminalOutputUsecase,
+    subscribeTerminalUsecase,
+    closeTerminalUsecase,
+  };
+}
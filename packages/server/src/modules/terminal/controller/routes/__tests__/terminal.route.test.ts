@@ -0,0 +1,94 @@
+import { Hono } from "hono";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+describe("Terminal Routes", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "terminal-route-"));
+  });
+
+  afterEach(async () => {
+    const { Terminal } = await import("@sakti-code/core/terminal");
+    await Terminal.shutdown();
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  async function createApp() {
+    const app = new Hono();
+    const { terminalRoutes } = await import("../terminal.route");
+    app.route("/", terminalRoutes);
+    return app;
+  }
+
+  function post(app: Hono, url: string, body: unknown) {
+    return app.request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function waitForOutput(app: Hono, id: string, text: string) {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const res = await app.request(`/api/terminals/${id}/output`);
+      const { output } = (await res.json()) as { output: string };
+      if (output.includes(text)) return output;
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    throw new Error(`Timed out waiting for "${text}"`);
+  }
+
+  it("creates, lists and closes terminals per workspace", async () => {
+    const app = await createApp();
+
+    const created = await post(app, "/api/terminals", {
+      directory: workspace,
+      cols: 100,
+      rows: 30,
+    });
+    expect(created.status).toBe(201);
+    const { terminal } = (await created.json()) as { terminal: { id: string; cols: number } };
+    expect(terminal.cols).toBe(100);
+
+    const listed = await app.request(`/api/terminals?directory=${encodeURIComponent(workspace)}`);
+    const list = (await listed.json()) as { terminals: Array<{ id: string }> };
+    expect(list.terminals.map(t => t.id)).toEqual([terminal.id]);
+
+    const closed = await app.request(`/api/terminals/${terminal.id}`, { method: "DELETE" });
+    expect(closed.status).toBe(200);
+    const missing = await app.request(`/api/terminals/${terminal.id}`);
+    expect(missing.status).toBe(404);
+  });
+
+  it("writes input, resizes and reads output", async () => {
+    const app = await createApp();
+    const created = await post(app, "/api/terminals", { directory: workspace });
+    const { terminal } = (await created.json()) as { terminal: { id: string } };
+
+    const input = await post(app, `/api/terminals/${terminal.id}/input`, {
+      data: "echo route-marker\n",
+    });
+    expect(input.status).toBe(200);
+    expect(await waitForOutput(app, terminal.id, "route-marker")).toContain("route-marker");
+
+    const resized = await post(app, `/api/terminals/${terminal.id}/resize`, {
+      cols: 120,
+      rows: 40,
+    });
+    const body = (await resized.json()) as { terminal: { cols: number; rows: number } };
+    expect(body.terminal).toMatchObject({ cols: 120, rows: 40 });
+  });
+
+  it("returns 404 for unknown terminals", async () => {
+    const app = await createApp();
+
+    const input = await post(app, "/api/terminals/missing/input", { data: "ls\n" });
+    expect(input.status).toBe(404);
+    const stream = await app.request("/api/terminals/missing/stream");
+    expect(stream.status).toBe(404);
+  });
+});
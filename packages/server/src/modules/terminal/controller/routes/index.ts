@@ -0,0 +1 @@
+export { terminalRoutes } from "./terminal.route.js";
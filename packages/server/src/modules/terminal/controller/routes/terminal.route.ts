@@ -0,0 +1,221 @@
+import type { TerminalEvent } from "@sakti-code/core/terminal";
+import { createLogger } from "@sakti-code/shared/logger";
+import { Hono, type Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { z } from "zod";
+import type { Env } from "../../../../index.js";
+import { resolveDirectory } from "../../../../shared/controller/http/directory-resolver.js";
+import { zValidator } from "../../../../shared/controller/http/validators.js";
+import { buildTerminalUsecases } from "../factory/terminal.factory.js";
+
+const app = new Hono<Env>();
+const logger = createLogger("server");
+const {
+  closeTerminalUsecase,
+  createTerminalUsecase,
+  getTerminalSnapshotUsecase,
+  getTerminalUsecase,
+  listTerminalsUsecase,
+  readTerminalOutputUsecase,
+  resizeTerminalUsecase,
+  subscribeTerminalUsecase,
+  writeTerminalUsecase,
+} = buildTerminalUsecases();
+
+const directoryQuerySchema = z.object({
+  directory: z.string().optional(),
+});
+
+const sizeSchema = {
+  cols: z.number().int().min(1).max(1000),
+  rows: z.number().int().min(1).max(1000),
+};
+
+const createSchema = z.object({
+  directory: z.string().optional(),
+  title: z.string().optional(),
+  cols: sizeSchema.cols.optional(),
+  rows: sizeSchema.rows.optional(),
+});
+
+const inputSchema = z.object({
+  data: z.string(),
+});
+
+const resizeSchema = z.object(sizeSchema);
+
+const outputQuerySchema = z.object({
+  lines: z.coerce.number().int().min(1).optional(),
+});
+
+function errorResponse(c: Context<Env>, error: unknown) {
+  const message = error instanceof Error ? error.message : "Invalid request";
+  if (message.startsWith("Terminal not found")) {
+    return c.json({ error: message }, 404);
+  }
+  if (message.startsWith("Terminal has exited")) {
+    return c.json({ error: message }, 409);
+  }
+  return c.json({ error: message }, 400);
+}
+
+app.get("/api/terminals", zValidator("query", directoryQuerySchema), c => {
+  const resolution = resolveDirectory(c);
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  const { directory } = resolution;
+  return c.json({ directory, terminals: listTerminalsUsecase(directory) });
+});
+
+app.post("/api/terminals", zValidator("json", createSchema), async c => {
+  const requestId = c.get("requestId");
+  const body = c.req.valid("json");
+  const resolution = resolveDirectory(c, { directory: body.directory });
+  if (!resolution.ok) {
+    return c.json({ error: resolution.reason }, 400);
+  }
+
+  try {
+    const terminal = await createTerminalUsecase({ ...body, directory: resolution.directory });
+
+    logger.info("Terminal created", {
+      module: "terminal",
+      requestId,
+      terminalId: terminal.id,
+      backend: terminal.backend,
+    });
+
+    return c.json({ terminal }, 201);
+  } catch (error: unknown) {
+    return errorResponse(c, error);
+  }
+});
+
+app.get("/api/terminals/:id", c => {
+  try {
+    return c.json({ terminal: getTerminalUsecase(c.req.param("id")) });
+  } catch (error: unknown) {
+    return errorResponse(c, error);
+  }
+});
+
+app.get("/api/terminals/:id/output", zValidator("query", outputQuerySchema), c => {
+  const id = c.req.param("id");
+
+  try {
+    const output = readTerminalOutputUsecase(id, c.req.valid("query").lines);
+    return c.json({ id, output });
+  } catch (error: unknown) {
+    return errorResponse(c, error);
+  }
+});
+
+app.post("/api/terminals/:id/input", zValidator("json", inputSchema), c => {
+  try {
+    writeTerminalUsecase(c.req.param("id"), c.req.valid("json").data);
+    return c.json({ success: true });
+  } catch (error: unknown) {
+    return errorResponse(c, error);
+  }
+});
+
+app.post("/api/terminals/:id/resize", zValidator("json", resizeSchema), c => {
+  const { cols, rows } = c.req.valid("json");
+
+  try {
+    return c.json({ terminal: resizeTerminalUsecase(c.req.param("id"), cols, rows) });
+  } catch (error: unknown) {
+    return errorResponse(c, error);
+  }
+});
+
+app.delete("/api/terminals/:id", async c => {
+  const requestId = c.get("requestId");
+  const id = c.req.param("id");
+
+  try {
+    await closeTerminalUsecase(id);
+
+    logger.info("Terminal closed", {
+      module: "terminal",
+      requestId,
+      terminalId: id,
+    });
+
+    return c.json({ success: true });
+  } catch (error: unknown) {
+    return errorResponse(c, error);
+  }
+});
+
+/**
+ * Stream a terminal's output
+ *
+ * The first message is a snapshot with the terminal info and its scrollback,
+ * so a reattaching client can redraw before live output arrives.
+ */
+app.get("/api/terminals/:id/stream", async c => {
+  const requestId = c.get("requestId");
+  const id = c.req.param("id");
+
+  try {
+    getTerminalUsecase(id);
+  } catch (error: unknown) {
+    return errorResponse(c, error);
+  }
+
+  c.header("Cache-Control", "no-cache");
+  c.header("Connection", "keep-alive");
+  c.header("X-Accel-Buffering", "no");
+  c.header("Content-Encoding", "none");
+
+  return streamSSE(c, async stream => {
+    // Subscribe and snapshot in the same tick so no output is lost or repeated;
+    // events that arrive while the snapshot is being written are queued
+    const pending: TerminalEvent[] = [];
+    let ready = false;
+    const send = (event: TerminalEvent) =>
+      stream.writeSSE({ data: JSON.stringify(event) }).catch(err => {
+        logger.error("Failed to send terminal event", err, {
+          module: "terminal",
+          requestId,
+        });
+      });
+
+    const unsub = subscribeTerminalUsecase(id, event => {
+      if (!ready) {
+        pending.push(event);
+        return;
+      }
+      void send(event);
+    });
+
+    const snapshot = getTerminalSnapshotUsecase(id);
+    await stream.writeSSE({ data: JSON.stringify({ type: "snapshot", ...snapshot }) });
+    ready = true;
+    for (const event of pending.splice(0)) {
+      await send(event);
+    }
+
+    const heartbeat = setInterval(() => {
+      stream.write(": heartbeat\n\n").catch(() => {});
+    }, 30000);
+
+    await new Promise<void>(resolve => {
+      stream.onAbort(() => {
+        clearInterval(heartbeat);
+        unsub();
+        logger.debug("terminal SSE client disconnected", {
+          module: "terminal",
+          requestId,
+          terminalId: id,
+        });
+        resolve();
+      });
+    });
+  });
+});
+
+export const terminalRoutes = app;
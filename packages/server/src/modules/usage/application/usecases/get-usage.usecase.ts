@@ -0,0 +1,33 @@
+import type {
+  IUsageRepository,
+  MessageUsageRecord,
+  UsageTotals,
+} from "../../domain/repositories/usage.repository.js";
+
+export interface SessionUsage {
+  sessionId: string;
+  totals: UsageTotals;
+  messages: MessageUsageRecord[];
+}
+
+export function createUsageQueryUsecases(repository: IUsageRepository) {
+  return {
+    async getSessionUsageUsecase(sessionId: string): Promise<SessionUsage> {
+      const [totals, messages] = await Promise.all([
+        repository.totals({ sessionId }),
+        repository.listBySession(sessionId),
+      ]);
+      return { sessionId, totals, messages };
+    },
+
+    async getWorkspaceUsageUsecase(
+      workspaceId: string
+    ): Promise<{ workspaceId: string; totals: UsageTotals }> {
+      return { workspaceId, totals: await repository.totals({ workspaceId }) };
+    },
+
+    async getRunUsageUsecase(runId: string): Promise<{ runId: string; totals: UsageTotals }> {
+      return { runId, totals: await repository.totals({ runId }) };
+    },
+  };
+}
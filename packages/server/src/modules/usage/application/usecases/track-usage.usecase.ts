@@ -0,0 +1,251 @@
+/**
+ * Token usage tracking and budget enforcement for one assistant message
+ *
+ * Budgets live in the user's config directory, in budget.json:
+ * {
+ *   "run": { "maxCostUsd": 2, "maxTokens": 500000 },
+ *   "session": { "maxCostUsd": 20 },
+ *   "workspace": { "maxCostUsd": 100 }
+ * }
+ *
+ * A run is a durable task run; messages sent outside one are their own run.
+ */
+
+import { createLogger } from "@sakti-code/shared/logger";
+import { resolveAppPaths } from "@sakti-code/shared/paths";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import type {
+  IUsageRepository,
+  UsageTokens,
+  UsageTotals,
+} from "../../domain/repositories/usage.repository.js";
+
+const logger = createLogger("server:usage");
+
+export const BUDGET_CONFIG_FILENAME = "budget.json";
+
+/** Catalog pricing in USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+const UsageBudgetLimit = z.object({
+  maxCostUsd: z.number().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+});
+export type UsageBudgetLimit = z.infer<typeof UsageBudgetLimit>;
+
+export const UsageBudget = z.object({
+  run: UsageBudgetLimit.optional(),
+  session: UsageBudgetLimit.optional(),
+  workspace: UsageBudgetLimit.optional(),
+});
+export type UsageBudget = z.infer<typeof UsageBudget>;
+
+export interface StartUsageTrackingInput {
+  messageId: string;
+  sessionId: string;
+  workspaceId: string | null;
+  runId: string | null;
+  providerId: string;
+  modelId: string;
+  pricing?: ModelPricing;
+  budget: UsageBudget;
+}
+
+export interface RecordedStep {
+  /** Cost of this step in USD */
+  cost: number;
+  /** Set once a budget is exceeded; the run should stop */
+  exceeded: string | null;
+}
+
+export interface UsageTracker {
+  /** Add one model step's usage and persist the message total */
+  recordStep(tokens: UsageTokens): RecordedStep;
+  /** Wait until every recorded step is saved */
+  flush(): Promise<void>;
+  /** Usage of this message so far */
+  current(): { tokens: UsageTokens; cost: number };
+}
+
+export function emptyUsageTokens(): UsageTokens {
+  return { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } };
+}
+
+function addTokens(a: UsageTokens, b: UsageTokens): UsageTokens {
+  return {
+    input: a.input + b.input,
+    output: a.output + b.output,
+    reasoning: a.reasoning + b.reasoning,
+    cache: { read: a.cache.read + b.cache.read, write: a.cache.write + b.cache.write },
+  };
+}
+
+/**
+ * Price a step's tokens
+ *
+ * Input tokens include cache reads and writes, which are billed at their own
+ * rates when the catalog has them. Reasoning is already part of output.
+ */
+export function computeUsageCost(tokens: UsageTokens, pricing?: ModelPricing): number {
+  if (!pricing) return 0;
+  const cacheRead = pricing.cacheRead === undefined ? 0 : tokens.cache.read;
+  const cacheWrite = pricing.cacheWrite === undefined ? 0 : tokens.cache.write;
+  const uncachedInput = Math.max(tokens.input - cacheRead - cacheWrite, 0);
+  const cost =
+    uncachedInput * pricing.input +
+    tokens.output * pricing.output +
+    cacheRead * (pricing.cacheRead ?? 0) +
+    cacheWrite * (pricing.cacheWrite ?? 0);
+  return cost / 1_000_000;
+}
+
+export function getBudgetConfigPath(): string {
+  return path.join(resolveAppPaths().config, BUDGET_CONFIG_FILENAME);
+}
+
+/**
+ * Load the user's budget; a missing file means no limits
+ *
+ * @throws {Error} When the file exists but is invalid, so a typo never
+ *   silently lifts a spending cap
+ */
+export async function loadUsageBudget(): Promise<UsageBudget> {
+  const filePath = getBudgetConfigPath();
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid budget config ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const validated = UsageBudget.safeParse(parsed);
+  if (!validated.success) {
+    throw new Error(
+      `Invalid budget config ${filePath}: ${validated.error.issues.map(i => i.message).join("; ")}`
+    );
+  }
+  return validated.data;
+}
+
+function checkLimit(
+  scope: keyof UsageBudget,
+  limit: UsageBudgetLimit | undefined,
+  used: { cost: number; totalTokens: number }
+): string | null {
+  if (limit?.maxCostUsd !== undefined && used.cost >= limit.maxCostUsd) {
+    return `Budget exceeded: ${scope} cost $${used.cost.toFixed(4)} reached the $${limit.maxCostUsd} limit`;
+  }
+  if (limit?.maxTokens !== undefined && used.totalTokens >= limit.maxTokens) {
+    return `Budget exceeded: ${scope} used ${used.totalTokens} tokens of the ${limit.maxTokens} limit`;
+  }
+  return null;
+}
+
+/**
+ * Start tracking an assistant message's usage against the budget
+ *
+ * @returns The tracker, and the exceeded limit when the run, session or
+ *   workspace is already over budget and the message should not start
+ */
+export async function startUsageTrackingUsecase(
+  repository: IUsageRepository,
+  input: StartUsageTrackingInput
+): Promise<{ tracker: UsageTracker; exceeded: string | null }> {
+  const zero: UsageTotals = {
+    tokens: emptyUsageTokens(),
+    totalTokens: 0,
+    cost: 0,
+    messages: 0,
+  };
+  const [runBase, sessionBase, workspaceBase] = await Promise.all([
+    input.budget.run && input.runId ? repository.totals({ runId: input.runId }) : zero,
+    input.budget.session ? repository.totals({ sessionId: input.sessionId }) : zero,
+    input.budget.workspace && input.workspaceId
+      ? repository.totals({ workspaceId: input.workspaceId })
+      : zero,
+  ]);
+
+  const createdAt = new Date();
+  let tokens = emptyUsageTokens();
+  let cost = 0;
+  let steps = 0;
+  let pending: Promise<void> = Promise.resolve();
+
+  const check = (): string | null => {
+    const messageTokens = tokens.input + tokens.output;
+    return (
+      checkLimit("run", input.budget.run, {
+        cost: runBase.cost + cost,
+        totalTokens: runBase.totalTokens + messageTokens,
+      }) ??
+      checkLimit("session", input.budget.session, {
+        cost: sessionBase.cost + cost,
+        totalTokens: sessionBase.totalTokens + messageTokens,
+      }) ??
+      (input.workspaceId
+        ? checkLimit("workspace", input.budget.workspace, {
+            cost: workspaceBase.cost + cost,
+            totalTokens: workspaceBase.totalTokens + messageTokens,
+          })
+        : null)
+    );
+  };
+
+  const tracker: UsageTracker = {
+    recordStep(stepTokens) {
+      const stepCost = computeUsageCost(stepTokens, input.pricing);
+      tokens = addTokens(tokens, stepTokens);
+      cost += stepCost;
+      steps += 1;
+
+      const record = {
+        messageId: input.messageId,
+        sessionId: input.sessionId,
+        workspaceId: input.workspaceId,
+        runId: input.runId,
+        providerId: input.providerId,
+        modelId: input.modelId,
+        tokens,
+        cost,
+        steps,
+        createdAt,
+        updatedAt: new Date(),
+      };
+      pending = pending
+        .then(() => repository.save(record))
+        .catch(error => {
+          logger.error("Failed to save message usage", error as Error, {
+            messageId: input.messageId,
+          });
+        });
+
+      return { cost: stepCost, exceeded: check() };
+    },
+
+    flush() {
+      return pending;
+    },
+
+    current() {
+      return { tokens, cost };
+    },
+  };
+
+  return { tracker, exceeded: check() };
+}
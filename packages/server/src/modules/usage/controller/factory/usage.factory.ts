@@ -0,0 +1,16 @@
+import { createUsageQueryUsecases } from "../../application/usecases/get-usage.usecase.js";
+import {
+  loadUsageBudget,
+  startUsageTrackingUsecase,
+  type StartUsageTrackingInput,
+} from "../../application/usecases/track-usage.usecase.js";
+import { usageRepository } from "../../infrastructure/repositories/usage.repository.drizzle.js";
+
+export function buildUsageUsecases() {
+  return {
+    ...createUsageQueryUsecases(usageRepository),
+    loadUsageBudget,
+    startUsageTrackingUsecase: (input: StartUsageTrackingInput) =>
+      startUsageTrackingUsecase(usageRepository, input),
+  };
+}
@@ -0,0 +1,277 @@
+import { app } from "@/app/app";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { v7 as uuidv7 } from "uuid";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { db, taskSessionRuns, taskSessions, workspaces } from "../../../../../../db";
+import {
+  computeUsageCost,
+  emptyUsageTokens,
+  getBudgetConfigPath,
+  loadUsageBudget,
+} from "../../../application/usecases/track-usage.usecase";
+import { buildUsageUsecases } from "../../factory/usage.factory";
+
+const testApp = app;
+
+async function createSession(workspaceId: string | null) {
+  const sessionId = uuidv7();
+  const now = new Date();
+  await db.insert(taskSessions).values({
+    session_id: sessionId,
+    thread_id: sessionId,
+    resource_id: "local",
+    title: "Usage API",
+    workspace_id: workspaceId,
+    created_at: now,
+    last_accessed: now,
+    last_activity_at: now,
+    status: "researching",
+    session_kind: "task",
+    spec_type: null,
+  });
+  return sessionId;
+}
+
+async function createWorkspace() {
+  const workspaceId = uuidv7();
+  await db.insert(workspaces).values({
+    id: workspaceId,
+    path: `/tmp/usage-${workspaceId}`,
+    name: "usage",
+    status: "active",
+    created_at: new Date(),
+    last_opened_at: new Date(),
+  });
+  return workspaceId;
+}
+
+const pricing = { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 };
+
+describe("usage routes", () => {
+  const auth = `Basic ${btoa("testuser:testpass")}`;
+  const { startUsageTrackingUsecase } = buildUsageUsecases();
+
+  beforeEach(() => {
+    process.env.SAKTI_CODE_USERNAME = "testuser";
+    process.env.SAKTI_CODE_PASSWORD = "testpass";
+  });
+
+  it("totals tracked messages per session, workspace and run", async () => {
+    const workspaceId = await createWorkspace();
+    const sessionId = await createSession(workspaceId);
+    const otherSessionId = await createSession(workspaceId);
+    const runId = uuidv7();
+    const now = new Date();
+    await db.insert(taskSessionRuns).values({
+      run_id: runId,
+      task_session_id: sessionId,
+      runtime_mode: "build",
+      state: "running",
+      created_at: now,
+      updated_at: now,
+      queued_at: now,
+    });
+
+    const base = { workspaceId, providerId: "anthropic", modelId: "claude", pricing, budget: {} };
+    const first = await startUsageTrackingUsecase({
+      ...base,
+      messageId: uuidv7(),
+      sessionId,
+      runId,
+    });
+    first.tracker.recordStep({ ...emptyUsageTokens(), input: 1000, output: 200 });
+    first.tracker.recordStep({
+      input: 2000,
+      output: 100,
+      reasoning: 50,
+      cache: { read: 1000, write: 0 },
+    });
+    await first.tracker.flush();
+
+    const second = await startUsageTrackingUsecase({
+      ...base,
+      messageId: uuidv7(),
+      sessionId: otherSessionId,
+      runId: null,
+    });
+    second.tracker.recordStep({ ...emptyUsageTokens(), input: 500, output: 500 });
+    await second.tracker.flush();
+
+    const sessionRes = await testApp.request(`/api/usage/sessions/${sessionId}`, {
+      headers: { Authorization: auth },
+    });
+    expect(sessionRes.status).toBe(200);
+    const sessionUsage = await sessionRes.json();
+    expect(sessionUsage.totals.tokens).toEqual({
+      input: 3000,
+      output: 300,
+      reasoning: 50,
+      cache: { read: 1000, write: 0 },
+    });
+    expect(sessionUsage.totals.totalTokens).toBe(3300);
+    expect(sessionUsage.totals.messages).toBe(1);
+    expect(sessionUsage.messages).toHaveLength(1);
+    expect(sessionUsage.messages[0].steps).toBe(2);
+    expect(sessionUsage.totals.cost).toBeCloseTo(first.tracker.current().cost, 10);
+
+    const workspaceRes = await testApp.request(`/api/usage/workspaces/${workspaceId}`, {
+      headers: { Authorization: auth },
+    });
+    const workspaceUsage = await workspaceRes.json();
+    expect(workspaceUsage.totals.totalTokens).toBe(4300);
+    expect(workspaceUsage.totals.messages).toBe(2);
+
+    const runRes = await testApp.request(`/api/usage/runs/${runId}`, {
+      headers: { Authorization: auth },
+    });
+    const runUsage = await runRes.json();
+    expect(runUsage.totals.totalTokens).toBe(3300);
+  });
+
+  it("returns zero totals for a session without usage", async () => {
+    const sessionId = await createSession(null);
+
+    const res = await testApp.request(`/api/usage/sessions/${sessionId}`, {
+      headers: { Authorization: auth },
+    });
+
+    const data = await res.json();
+    expect(data.totals).toEqual({
+      tokens: emptyUsageTokens(),
+      totalTokens: 0,
+      cost: 0,
+      messages: 0,
+    });
+    expect(data.messages).toEqual([]);
+  });
+
+  it("reports when a step takes the run over budget", async () => {
+    const sessionId = await createSession(null);
+    const { tracker, exceeded } = await startUsageTrackingUsecase({
+      messageId: uuidv7(),
+      sessionId,
+      workspaceId: null,
+      runId: null,
+      providerId: "anthropic",
+      modelId: "claude",
+      pricing,
+      budget: { run: { maxTokens: 1000 } },
+    });
+    expect(exceeded).toBeNull();
+
+    expect(tracker.recordStep({ ...emptyUsageTokens(), input: 400, output: 100 }).exceeded).toBe(
+      null
+    );
+    expect(tracker.recordStep({ ...emptyUsageTokens(), input: 400, output: 100 }).exceeded).toBe(
+      "Budget exceeded: run used 1000 tokens of the 1000 limit"
+    );
+    await tracker.flush();
+  });
+
+  it("counts every message of a task run against the run budget", async () => {
+    const sessionId = await createSession(null);
+    const runId = uuidv7();
+    const now = new Date();
+    await db.insert(taskSessionRuns).values({
+      run_id: runId,
+      task_session_id: sessionId,
+      runtime_mode: "build",
+      state: "running",
+      created_at: now,
+      updated_at: now,
+      queued_at: now,
+    });
+    const base = {
+      sessionId,
+      workspaceId: null,
+      runId,
+      providerId: "anthropic",
+      modelId: "claude",
+      pricing,
+      budget: { run: { maxTokens: 1000 } },
+    };
+
+    const first = await startUsageTrackingUsecase({ ...base, messageId: uuidv7() });
+    first.tracker.recordStep({ ...emptyUsageTokens(), input: 600 });
+    await first.tracker.flush();
+
+    const second = await startUsageTrackingUsecase({ ...base, messageId: uuidv7() });
+    expect(second.exceeded).toBeNull();
+    expect(second.tracker.recordStep({ ...emptyUsageTokens(), input: 400 }).exceeded).toBe(
+      "Budget exceeded: run used 1000 tokens of the 1000 limit"
+    );
+    await second.tracker.flush();
+
+    const outsideRun = await startUsageTrackingUsecase({
+      ...base,
+      messageId: uuidv7(),
+      runId: null,
+    });
+    expect(outsideRun.exceeded).toBeNull();
+  });
+
+  it("refuses to start once the session budget is spent", async () => {
+    const sessionId = await createSession(null);
+    const base = {
+      sessionId,
+      workspaceId: null,
+      runId: null,
+      providerId: "anthropic",
+      modelId: "claude",
+      pricing,
+      budget: { session: { maxCostUsd: 0.01 } },
+    };
+    const first = await startUsageTrackingUsecase({ ...base, messageId: uuidv7() });
+    first.tracker.recordStep({ ...emptyUsageTokens(), input: 10_000 });
+    await first.tracker.flush();
+
+    const second = await startUsageTrackingUsecase({ ...base, messageId: uuidv7() });
+    expect(second.exceeded).toMatch(/^Budget exceeded: session cost \$0\.0300/);
+  });
+});
+
+describe("computeUsageCost", () => {
+  it("bills cached input at the cache rates", () => {
+    const cost = computeUsageCost(
+      { input: 1_000_000, output: 1_000_000, reasoning: 0, cache: { read: 500_000, write: 0 } },
+      pricing
+    );
+
+    expect(cost).toBeCloseTo(0.5 * 3 + 15 + 0.5 * 0.3, 10);
+  });
+
+  it("is free without catalog pricing", () => {
+    expect(computeUsageCost({ ...emptyUsageTokens(), input: 1000 })).toBe(0);
+  });
+});
+
+describe("loadUsageBudget", () => {
+  it("returns no limits without a config file and rejects an invalid one", async () => {
+    const previousHome = process.env.SAKTI_CODE_HOME;
+    const home = await fs.mkdtemp(path.join(os.tmpdir(), "usage-budget-"));
+    process.env.SAKTI_CODE_HOME = home;
+    try {
+      await expect(loadUsageBudget()).resolves.toEqual({});
+
+      await fs.mkdir(path.dirname(getBudgetConfigPath()), { recursive: true });
+      await fs.writeFile(getBudgetConfigPath(), JSON.stringify({ run: { maxCostUsd: -1 } }));
+      await expect(loadUsageBudget()).rejects.toThrow(/Invalid budget config/);
+
+      await fs.writeFile(
+        getBudgetConfigPath(),
+        JSON.stringify({ run: { maxCostUsd: 2 }, workspace: { maxTokens: 1000 } })
+      );
+      await expect(loadUsageBudget()).resolves.toEqual({
+        run: { maxCostUsd: 2 },
+        workspace: { maxTokens: 1000 },
+      });
+      expect(getBudgetConfigPath()).toBe(path.join(home, "config", "budget.json"));
+    } finally {
+      process.env.SAKTI_CODE_HOME = previousHome;
+      await fs.rm(home, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1 @@
+export { usageRoutes } from "./usage.route.js";
@@ -0,0 +1,49 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import type { Env } from "../../../../index.js";
+import { zValidator } from "../../../../shared/controller/http/validators.js";
+import { buildUsageUsecases } from "../factory/usage.factory.js";
+
+const app = new Hono<Env>();
+const { getRunUsageUsecase, getSessionUsageUsecase, getWorkspaceUsageUsecase } =
+  buildUsageUsecases();
+
+const sessionParamSchema = z.object({ sessionId: z.string().min(1) });
+const workspaceParamSchema = z.object({ workspaceId: z.string().min(1) });
+const runParamSchema = z.object({ runId: z.string().min(1) });
+
+/**
+ * Token usage and cost of a task session, with per-message breakdown
+ *
+ * GET /api/usage/sessions/:sessionId
+ */
+app.get("/api/usage/sessions/:sessionId", zValidator("param", sessionParamSchema), async c => {
+  const { sessionId } = c.req.valid("param");
+  return c.json(await getSessionUsageUsecase(sessionId));
+});
+
+/**
+ * Token usage and cost of every session in a workspace
+ *
+ * GET /api/usage/workspaces/:workspaceId
+ */
+app.get(
+  "/api/usage/workspaces/:workspaceId",
+  zValidator("param", workspaceParamSchema),
+  async c => {
+    const { workspaceId } = c.req.valid("param");
+    return c.json(await getWorkspaceUsageUsecase(workspaceId));
+  }
+);
+
+/**
+ * Token usage and cost of a durable task run
+ *
+ * GET /api/usage/runs/:runId
+ */
+app.get("/api/usage/runs/:runId", zValidator("param", runParamSchema), async c => {
+  const { runId } = c.req.valid("param");
+  return c.json(await getRunUsageUsecase(runId));
+});
+
+export const usageRoutes = app;
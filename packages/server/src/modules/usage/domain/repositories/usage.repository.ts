@@ -0,0 +1,45 @@
+export interface UsageTokens {
+  /** Prompt tokens, including cache reads and writes */
+  input: number;
+  /** Completion tokens, including reasoning */
+  output: number;
+  reasoning: number;
+  cache: {
+    read: number;
+    write: number;
+  };
+}
+
+export interface UsageTotals {
+  tokens: UsageTokens;
+  /** Input plus output tokens */
+  totalTokens: number;
+  /** USD */
+  cost: number;
+  messages: number;
+}
+
+export interface MessageUsageRecord {
+  messageId: string;
+  sessionId: string;
+  workspaceId: string | null;
+  runId: string | null;
+  providerId: string;
+  modelId: string;
+  tokens: UsageTokens;
+  cost: number;
+  steps: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type UsageFilter = { sessionId: string } | { workspaceId: string } | { runId: string };
+
+export interface IUsageRepository {
+  /** Insert or replace the usage of one assistant message */
+  save(record: MessageUsageRecord): Promise<void>;
+  /** Sum the usage matching a filter */
+  totals(filter: UsageFilter): Promise<UsageTotals>;
+  /** Per-message usage of a session, oldest first */
+  listBySession(sessionId: string): Promise<MessageUsageRecord[]>;
+}
@@ -0,0 +1,103 @@
+import { asc, count, eq, sql, sum, type SQL } from "drizzle-orm";
+import { db, messageUsage } from "../../../../../db/index.js";
+import type {
+  IUsageRepository,
+  MessageUsageRecord,
+  UsageFilter,
+  UsageTotals,
+} from "../../domain/repositories/usage.repository.js";
+
+function filterCondition(filter: UsageFilter): SQL {
+  if ("sessionId" in filter) return eq(messageUsage.session_id, filter.sessionId);
+  if ("workspaceId" in filter) return eq(messageUsage.workspace_id, filter.workspaceId);
+  return eq(messageUsage.run_id, filter.runId);
+}
+
+function mapRowToRecord(row: typeof messageUsage.$inferSelect): MessageUsageRecord {
+  return {
+    messageId: row.message_id,
+    sessionId: row.session_id,
+    workspaceId: row.workspace_id,
+    runId: row.run_id,
+    providerId: row.provider_id,
+    modelId: row.model_id,
+    tokens: {
+      input: row.input_tokens,
+      output: row.output_tokens,
+      reasoning: row.reasoning_tokens,
+      cache: { read: row.cache_read_tokens, write: row.cache_write_tokens },
+    },
+    cost: row.cost,
+    steps: row.steps,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class DrizzleUsageRepository implements IUsageRepository {
+  async save(record: MessageUsageRecord): Promise<void> {
+    const values = {
+      message_id: record.messageId,
+      session_id: record.sessionId,
+      workspace_id: record.workspaceId,
+      run_id: record.runId,
+      provider_id: record.providerId,
+      model_id: record.modelId,
+      input_tokens: record.tokens.input,
+      output_tokens: record.tokens.output,
+      reasoning_tokens: record.tokens.reasoning,
+      cache_read_tokens: record.tokens.cache.read,
+      cache_write_tokens: record.tokens.cache.write,
+      cost: record.cost,
+      steps: record.steps,
+      created_at: record.createdAt,
+      updated_at: record.updatedAt,
+    };
+    const { message_id: _messageId, created_at: _createdAt, ...updates } = values;
+    await db
+      .insert(messageUsage)
+      .values(values)
+      .onConflictDoUpdate({ target: messageUsage.message_id, set: updates });
+  }
+
+  async totals(filter: UsageFilter): Promise<UsageTotals> {
+    const [row] = await db
+      .select({
+        input: sum(messageUsage.input_tokens),
+        output: sum(messageUsage.output_tokens),
+        reasoning: sum(messageUsage.reasoning_tokens),
+        cacheRead: sum(messageUsage.cache_read_tokens),
+        cacheWrite: sum(messageUsage.cache_write_tokens),
+        cost: sql<number | null>`total(${messageUsage.cost})`,
+        messages: count(),
+      })
+      .from(messageUsage)
+      .where(filterCondition(filter));
+
+    // SUM returns NULL (and drizzle a string) for integer columns
+    const input = Number(row?.input ?? 0);
+    const output = Number(row?.output ?? 0);
+    return {
+      tokens: {
+        input,
+        output,
+        reasoning: Number(row?.reasoning ?? 0),
+        cache: { read: Number(row?.cacheRead ?? 0), write: Number(row?.cacheWrite ?? 0) },
+      },
+      totalTokens: input + output,
+      cost: Number(row?.cost ?? 0),
+      messages: row?.messages ?? 0,
+    };
+  }
+
+  async listBySession(sessionId: string): Promise<MessageUsageRecord[]> {
+    const rows = await db
+      .select()
+      .from(messageUsage)
+      .where(eq(messageUsage.session_id, sessionId))
+      .orderBy(asc(messageUsage.created_at), asc(messageUsage.message_id));
+    return rows.map(mapRowToRecord);
+  }
+}
+
+export const usageRepository = new DrizzleUsageRepository();
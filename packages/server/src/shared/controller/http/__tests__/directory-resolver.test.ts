@@ -55,6 +55,15 @@ describe("resolveDirectory", () => {
     expect(result.ok).toBe(false);
   });
 
+  it("prefers an explicit directory over the query parameter", () => {
+    const c = createMockContext("/query/path", "/context/path");
+    const result = resolveDirectory(c, { directory: " /body/path " });
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.directory).toBe("/body/path");
+    }
+  });
+
   it("falls back to instanceContext when no query parameter", () => {
     const c = createMockContext(undefined, "/context/path");
     const result = resolveDirectory(c);
@@ -13,14 +13,22 @@ export interface DirectoryResolutionError {
 
 export type DirectoryResolution = DirectoryResolutionResult | DirectoryResolutionError;
 
+/**
+ * Resolve the workspace directory of a request
+ *
+ * A `directory` option, such as one read from a JSON body, wins over the
+ * `directory` query parameter, which wins over the Instance context's.
+ */
 export function resolveDirectory(
   c: Context<Env>,
-  options: { allowFallbackCwd?: boolean } = {}
+  options: { allowFallbackCwd?: boolean; directory?: string } = {}
 ): DirectoryResolution {
+  const explicitDir = options.directory?.trim();
   const queryDir = c.req.query("directory")?.trim();
   const contextDir = c.get("instanceContext")?.directory?.trim();
 
-  const raw = queryDir || contextDir || (options.allowFallbackCwd ? process.cwd() : "");
+  const raw =
+    explicitDir || queryDir || contextDir || (options.allowFallbackCwd ? process.cwd() : "");
 
   if (!raw) {
     return { ok: false, reason: "Directory parameter required" };
@@ -29,6 +29,10 @@ registerCoreDbBindings({
   workingMemory: dbModule.workingMemory,
   reflections: dbModule.reflections,
   observationalMemory: dbModule.observationalMemory,
+  memoryEmbeddings: dbModule.memoryEmbeddings,
+  memoryPins: dbModule.memoryPins,
+  memoryLinks: dbModule.memoryLinks,
+  memoryResourceSettings: dbModule.memoryResourceSettings,
   toolSessions: dbModule.toolSessions,
 });
 
@@ -117,6 +117,38 @@ export interface ObservationalMemory {
   [key: string]: unknown;
 }
 
+export interface MemoryEmbedding {
+  source_type: "message" | "observation" | "reflection";
+  source_id: string;
+  thread_id: string | null;
+  resource_id: string | null;
+  model: string;
+  dimensions: number;
+  embedding: Buffer;
+  source_updated_at: Date;
+  created_at: Date;
+  [key: string]: unknown;
+}
+
+export interface MemoryPin {
+  id: string;
+  resource_id: string;
+  thread_id: string | null;
+  content: string;
+  source_type: "manual" | "observation" | "reflection";
+  source_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+  [key: string]: unknown;
+}
+
+export interface MemoryLink {
+  resource_id: string;
+  linked_resource_id: string;
+  created_at: Date;
+  [key: string]: unknown;
+}
+
 export interface CoreDbBindings {
   // Bridge boundary: server provides Drizzle runtime objects.
   // `any` is intentionally contained to this seam so core and shared stay decoupled from Drizzle internals.
@@ -142,6 +174,14 @@ export interface CoreDbBindings {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   observationalMemory: any;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  memoryEmbeddings: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  memoryPins: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  memoryLinks: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  memoryResourceSettings: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   toolSessions: any;
 }
 
@@ -0,0 +1,13 @@
+/**
+ * Error Utilities
+ */
+
+/**
+ * Message of a caught value, which may not be an Error
+ *
+ * @param fallback - Message for non-Errors (default: the value as a string)
+ */
+export function errorMessage(error: unknown, fallback?: string): string {
+  if (error instanceof Error) return error.message;
+  return fallback ?? String(error);
+}
@@ -33,6 +33,7 @@ const KNOWN_EVENT_TYPES: ReadonlyArray<EventType> = [
   "message.updated",
   "message.part.updated",
   "message.part.removed",
+  "message.removed",
   "session.created",
   "session.updated",
   "session.status",
@@ -91,6 +91,11 @@ export interface MessagePartUpdatedPayload {
   delta?: string;
 }
 
+export interface MessageRemovedPayload {
+  messageID: string;
+  sessionID: string;
+}
+
 export interface MessagePartRemovedPayload {
   partID: string;
   messageID: string;
@@ -192,6 +197,7 @@ export type EventMap = {
   "message.updated": MessageUpdatedPayload;
   "message.part.updated": MessagePartUpdatedPayload;
   "message.part.removed": MessagePartRemovedPayload;
+  "message.removed": MessageRemovedPayload;
 
   "session.created": SessionCreatedPayload;
   "session.updated": SessionUpdatedPayload;
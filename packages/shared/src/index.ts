@@ -6,6 +6,7 @@
 
 export * from "./binary";
 export * from "./core-server-bridge";
+export * from "./errors";
 export * from "./event-deduplication";
 export * from "./event-guards";
 export * from "./event-ordering";
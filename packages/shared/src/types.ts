@@ -23,14 +23,34 @@ export type PermissionType =
   | "external_directory"
   | "bash"
   | "mode_switch"
-  | "skill";
+  | "skill"
+  | "mcp"
+  | "plugin";
 
 export type PermissionAction = "allow" | "deny" | "ask";
 
+export interface PermissionRuleCondition {
+  argMatches?: string | string[]; // some argument matches one of these globs (e.g., "--force*")
+  argNotMatches?: string | string[]; // no argument matches any of these globs
+}
+
 export interface PermissionRule {
   permission: PermissionType;
   pattern: string; // glob pattern (e.g., "*.ts", "/etc/**", "git*")
   action: PermissionAction;
+  when?: PermissionRuleCondition[]; // rule applies only when every condition holds
+}
+
+// Persisted rule layers, from broadest to most specific
+export type PermissionRuleScope = "global" | "workspace" | "session";
+
+// Scoped layers plus the rules loaded from config (or the defaults) and the
+// overrides of the agent that is running
+export type PermissionRuleLayer = PermissionRuleScope | "config" | "agent";
+
+export interface PermissionRuleSet {
+  layer: PermissionRuleLayer;
+  rules: PermissionRule[];
 }
 
 export interface PermissionRequest {
@@ -39,6 +59,8 @@ export interface PermissionRequest {
   patterns: string[];
   always: string[];
   sessionID: string;
+  /** Parsed argument words of each bash pattern, for argument conditions */
+  arguments?: Record<string, string[]>;
   metadata?: Record<string, unknown>;
 }
 
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// Embedding request structure
+export interface ZaiEmbeddingRequest {
+  model: string;
+  input: string | string[];
+  dimensions?: number;
+}
+
+// Zai embedding request schema
+export const zaiEmbeddingRequestSchema = z.object({
+  model: z.string(),
+  input: z.union([z.string(), z.array(z.string())]),
+  dimensions: z.number().int().optional(),
+});
+
+// Zai embedding response schema
+export const zaiEmbeddingResponseSchema = z.object({
+  model: z.string().nullish(),
+  object: z.string().nullish(),
+  data: z.array(
+    z.object({
+      index: z.number(),
+      object: z.string().nullish(),
+      embedding: z.array(z.number()),
+    })
+  ),
+  usage: z
+    .object({
+      prompt_tokens: z.number().nullish(),
+      completion_tokens: z.number().nullish(),
+      total_tokens: z.number().nullish(),
+    })
+    .nullish(),
+});
+
+export type ZaiEmbeddingResponse = z.infer<typeof zaiEmbeddingResponseSchema>;
@@ -0,0 +1,16 @@
+import { zodSchema } from "@ai-sdk/provider-utils";
+import { z } from "zod";
+
+export type ZaiEmbeddingModelId = "embedding-3" | "embedding-2" | (string & {});
+
+const zaiEmbeddingModelOptionsSchema = z.object({
+  /**
+   * Number of dimensions of the output vectors.
+   * embedding-3 supports 256, 512, 1024 and 2048 (default).
+   */
+  dimensions: z.number().int().positive().optional(),
+});
+
+export type ZaiEmbeddingModelOptions = z.infer<typeof zaiEmbeddingModelOptionsSchema>;
+
+export const zaiEmbeddingModelOptions = zodSchema(zaiEmbeddingModelOptionsSchema);
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+// Image generation request structure
+export interface ZaiImageRequest {
+  model: string;
+  prompt: string;
+  size?: string;
+  quality?: "hd" | "standard";
+  user_id?: string;
+  watermark_enabled?: boolean;
+}
+
+// Zai image request schema
+export const zaiImageRequestSchema = z.object({
+  model: z.string(),
+  prompt: z.string(),
+  size: z.string().optional(),
+  quality: z.enum(["hd", "standard"]).optional(),
+  user_id: z.string().optional(),
+  watermark_enabled: z.boolean().optional(),
+});
+
+// Zai image response schema
+export const zaiImageResponseSchema = z.object({
+  created: z.number().nullish(),
+  data: z.array(
+    z.object({
+      url: z.string().nullish(),
+      b64_json: z.string().nullish(),
+    })
+  ),
+  content_filter: z
+    .array(
+      z.object({
+        role: z.string().nullish(),
+        level: z.number().nullish(),
+      })
+    )
+    .nullish(),
+});
+
+export type ZaiImageResponse = z.infer<typeof zaiImageResponseSchema>;
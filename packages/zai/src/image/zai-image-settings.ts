@@ -0,0 +1,23 @@
+import { zodSchema } from "@ai-sdk/provider-utils";
+import { z } from "zod";
+
+export type ZaiImageModelId = "glm-image" | "cogview-4-250304" | "cogview-4" | (string & {});
+
+const zaiImageModelOptionsSchema = z.object({
+  /**
+   * Image quality.
+   * - 'hd': More detailed images, slower generation (default)
+   * - 'standard': Faster generation
+   */
+  quality: z.enum(["hd", "standard"]).optional(),
+
+  /**
+   * Pass-through request fields supported by Z.ai.
+   */
+  user_id: z.string().optional(),
+  watermark_enabled: z.boolean().optional(),
+});
+
+export type ZaiImageModelOptions = z.infer<typeof zaiImageModelOptionsSchema>;
+
+export const zaiImageModelOptions = zodSchema(zaiImageModelOptionsSchema);
@@ -8,7 +8,18 @@ export type {
   ZaiToolCall,
 } from "./chat/zai-chat-api";
 export type { ZaiChatModelId } from "./chat/zai-chat-settings";
+export type { ZaiEmbeddingRequest, ZaiEmbeddingResponse } from "./embedding/zai-embedding-api";
+export type {
+  ZaiEmbeddingModelId,
+  ZaiEmbeddingModelOptions,
+} from "./embedding/zai-embedding-settings";
+export type { ZaiImageRequest, ZaiImageResponse } from "./image/zai-image-api";
+export type { ZaiImageModelId, ZaiImageModelOptions } from "./image/zai-image-settings";
 export { ZaiChatLanguageModel } from "./zai-chat-language-model";
 export type { ZaiChatConfig } from "./zai-chat-language-model";
+export { ZaiEmbeddingModel } from "./zai-embedding-model";
+export type { ZaiEmbeddingConfig } from "./zai-embedding-model";
+export { ZaiImageModel } from "./zai-image-model";
+export type { ZaiImageConfig } from "./zai-image-model";
 export { createZai, zai } from "./zai-provider";
 export type { ZaiProvider, ZaiProviderSettings } from "./zai-provider";
@@ -0,0 +1,106 @@
+import {
+  TooManyEmbeddingValuesForCallError,
+  type EmbeddingModelV3,
+  type EmbeddingModelV3CallOptions,
+  type EmbeddingModelV3Result,
+} from "@ai-sdk/provider";
+import {
+  combineHeaders,
+  createJsonResponseHandler,
+  parseProviderOptions,
+  postJsonToApi,
+  type FetchFunction,
+} from "@ai-sdk/provider-utils";
+import type { ZaiEmbeddingRequest, ZaiEmbeddingResponse } from "./embedding/zai-embedding-api";
+import { zaiEmbeddingResponseSchema } from "./embedding/zai-embedding-api";
+import type {
+  ZaiEmbeddingModelId,
+  ZaiEmbeddingModelOptions,
+} from "./embedding/zai-embedding-settings";
+import { zaiEmbeddingModelOptions } from "./embedding/zai-embedding-settings";
+import { zaiFailedResponseHandler } from "./zai-error";
+
+export interface ZaiEmbeddingConfig {
+  provider: string;
+  url: ({ path }: { path: string }) => string;
+  headers: () => Promise<Record<string, string | undefined>>;
+  fetch?: FetchFunction;
+}
+
+export class ZaiEmbeddingModel implements EmbeddingModelV3 {
+  readonly specificationVersion = "v3";
+  readonly modelId: ZaiEmbeddingModelId;
+
+  /**
+   * Z.ai accepts at most 64 inputs per embeddings request.
+   */
+  readonly maxEmbeddingsPerCall = 64;
+  readonly supportsParallelCalls = true;
+
+  private readonly config: ZaiEmbeddingConfig;
+
+  constructor(modelId: ZaiEmbeddingModelId, config: ZaiEmbeddingConfig) {
+    this.modelId = modelId;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  async doEmbed(options: EmbeddingModelV3CallOptions): Promise<EmbeddingModelV3Result> {
+    const { values } = options;
+
+    if (values.length > this.maxEmbeddingsPerCall) {
+      throw new TooManyEmbeddingValuesForCallError({
+        provider: this.provider,
+        modelId: this.modelId,
+        maxEmbeddingsPerCall: this.maxEmbeddingsPerCall,
+        values,
+      });
+    }
+
+    const providerOptions =
+      (await parseProviderOptions<ZaiEmbeddingModelOptions>({
+        provider: "zai",
+        providerOptions: options.providerOptions,
+        schema: zaiEmbeddingModelOptions,
+      })) ?? ({} satisfies ZaiEmbeddingModelOptions);
+
+    const args: ZaiEmbeddingRequest = {
+      model: this.modelId,
+      input: values,
+      dimensions: providerOptions.dimensions,
+    };
+
+    const {
+      responseHeaders,
+      value: response,
+      rawValue,
+    } = await postJsonToApi<ZaiEmbeddingResponse>({
+      url: this.config.url({
+        path: "/embeddings",
+      }),
+      headers: combineHeaders(await this.config.headers(), options.headers),
+      body: args,
+      failedResponseHandler: zaiFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(zaiEmbeddingResponseSchema),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    // Results carry their input index; keep them in input order
+    const embeddings = [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    const tokens = response.usage?.prompt_tokens ?? response.usage?.total_tokens;
+
+    return {
+      embeddings,
+      usage: tokens != null ? { tokens } : undefined,
+      response: { headers: responseHeaders, body: rawValue },
+      warnings: [],
+    };
+  }
+}
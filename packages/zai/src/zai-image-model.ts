@@ -0,0 +1,165 @@
+import {
+  InvalidArgumentError,
+  type ImageModelV3,
+  type ImageModelV3CallOptions,
+  type SharedV3Warning,
+} from "@ai-sdk/provider";
+import {
+  combineHeaders,
+  convertBase64ToUint8Array,
+  createBinaryResponseHandler,
+  createJsonResponseHandler,
+  createStatusCodeErrorResponseHandler,
+  getFromApi,
+  parseProviderOptions,
+  postJsonToApi,
+  type FetchFunction,
+} from "@ai-sdk/provider-utils";
+import type { ZaiImageRequest, ZaiImageResponse } from "./image/zai-image-api";
+import { zaiImageResponseSchema } from "./image/zai-image-api";
+import type { ZaiImageModelId, ZaiImageModelOptions } from "./image/zai-image-settings";
+import { zaiImageModelOptions } from "./image/zai-image-settings";
+import { zaiFailedResponseHandler } from "./zai-error";
+
+export interface ZaiImageConfig {
+  provider: string;
+  url: ({ path }: { path: string }) => string;
+  headers: () => Promise<Record<string, string | undefined>>;
+  fetch?: FetchFunction;
+  /**
+   * Clock for response timestamps; overridable in tests.
+   */
+  currentDate?: () => Date;
+}
+
+type ImageModelV3GenerateResult = Awaited<ReturnType<ImageModelV3["doGenerate"]>>;
+
+export class ZaiImageModel implements ImageModelV3 {
+  readonly specificationVersion = "v3";
+  readonly modelId: ZaiImageModelId;
+
+  /**
+   * Z.ai returns a single image per generation request.
+   */
+  readonly maxImagesPerCall = 1;
+
+  private readonly config: ZaiImageConfig;
+
+  constructor(modelId: ZaiImageModelId, config: ZaiImageConfig) {
+    this.modelId = modelId;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  async doGenerate(options: ImageModelV3CallOptions): Promise<ImageModelV3GenerateResult> {
+    const { args, warnings } = await this.getArgs(options);
+    const currentDate = this.config.currentDate?.() ?? new Date();
+
+    const { responseHeaders, value: response } = await postJsonToApi<ZaiImageResponse>({
+      url: this.config.url({
+        path: "/images/generations",
+      }),
+      headers: combineHeaders(await this.config.headers(), options.headers),
+      body: args,
+      failedResponseHandler: zaiFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(zaiImageResponseSchema),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    const images = await Promise.all(
+      response.data.map(item => this.loadImage(item, options.abortSignal))
+    );
+
+    return {
+      images,
+      warnings,
+      response: {
+        timestamp: currentDate,
+        modelId: this.modelId,
+        headers: responseHeaders,
+      },
+    };
+  }
+
+  /**
+   * Z.ai answers with temporary image URLs; download them so callers get
+   * the image data the AI SDK expects.
+   */
+  private async loadImage(
+    item: ZaiImageResponse["data"][number],
+    abortSignal: AbortSignal | undefined
+  ): Promise<Uint8Array> {
+    if (item.b64_json != null) {
+      return convertBase64ToUint8Array(item.b64_json);
+    }
+    if (item.url == null) {
+      throw new Error("Z.ai image response contained neither a URL nor image data.");
+    }
+
+    // The image host is not the API; it gets no API credentials
+    const { value } = await getFromApi({
+      url: item.url,
+      failedResponseHandler: createStatusCodeErrorResponseHandler(),
+      successfulResponseHandler: createBinaryResponseHandler(),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+    return value;
+  }
+
+  private async getArgs(options: ImageModelV3CallOptions): Promise<{
+    args: ZaiImageRequest;
+    warnings: SharedV3Warning[];
+  }> {
+    const warnings: SharedV3Warning[] = [];
+
+    if (options.prompt == null) {
+      throw new InvalidArgumentError({
+        argument: "prompt",
+        message: "Z.ai image generation requires a prompt.",
+      });
+    }
+
+    if (options.aspectRatio != null) {
+      warnings.push({
+        type: "unsupported",
+        feature: "aspectRatio",
+        details: "Z.ai image models do not support aspect ratio. Use `size` instead.",
+      });
+    }
+
+    if (options.seed != null) {
+      warnings.push({ type: "unsupported", feature: "seed" });
+    }
+
+    if (options.files != null || options.mask != null) {
+      warnings.push({
+        type: "unsupported",
+        feature: "files",
+        details: "Z.ai image models do not support image editing.",
+      });
+    }
+
+    const providerOptions =
+      (await parseProviderOptions<ZaiImageModelOptions>({
+        provider: "zai",
+        providerOptions: options.providerOptions,
+        schema: zaiImageModelOptions,
+      })) ?? ({} satisfies ZaiImageModelOptions);
+
+    const args: ZaiImageRequest = {
+      model: this.modelId,
+      prompt: options.prompt,
+      size: options.size,
+      quality: providerOptions.quality,
+      user_id: providerOptions.user_id,
+      watermark_enabled: providerOptions.watermark_enabled,
+    };
+
+    return { args, warnings };
+  }
+}
@@ -7,6 +7,8 @@ import {
   withUserAgentSuffix,
 } from "@ai-sdk/provider-utils";
 import type { ZaiChatModelId } from "./chat/zai-chat-settings";
+import type { ZaiEmbeddingModelId } from "./embedding/zai-embedding-settings";
+import type { ZaiImageModelId } from "./image/zai-image-settings";
 import { VERSION } from "./version";
 import { ZaiChatLanguageModel } from "./zai-chat-language-model";
 import {
@@ -15,15 +17,19 @@ import {
   DEFAULT_GENERAL_BASE_URL,
   DEFAULT_SOURCE_CHANNEL,
 } from "./zai-constants";
+import { ZaiEmbeddingModel } from "./zai-embedding-model";
 import { createResilientZaiFetch, type ZaiTransportSettings } from "./zai-fetch";
+import { ZaiImageModel } from "./zai-image-model";
 import { getZaiAuthorizationHeader } from "./zai-jwt";
 
 export interface ZaiProvider extends ProviderV3 {
   (modelId: ZaiChatModelId): LanguageModelV3;
   languageModel(modelId: ZaiChatModelId): LanguageModelV3;
   chat(modelId: ZaiChatModelId): LanguageModelV3;
-  embeddingModel(modelId: string): EmbeddingModelV3;
-  imageModel(modelId: string): ImageModelV3;
+  embeddingModel(modelId: ZaiEmbeddingModelId): EmbeddingModelV3;
+  textEmbeddingModel(modelId: ZaiEmbeddingModelId): EmbeddingModelV3;
+  imageModel(modelId: ZaiImageModelId): ImageModelV3;
+  image(modelId: ZaiImageModelId): ImageModelV3;
 }
 
 export interface ZaiProviderSettings {
@@ -75,12 +81,31 @@ export function createZai(options: ZaiProviderSettings = {}): ZaiProvider {
     );
   };
 
+  const url = ({ path }: { path: string }) => `${baseURL}${path}`;
+  const zaiFetch = options.fetch ?? createResilientZaiFetch(options.transport);
+
   const createChatModel = (modelId: ZaiChatModelId) =>
     new ZaiChatLanguageModel(modelId, {
       provider: "zai.chat",
-      url: ({ path }: { path: string }) => `${baseURL}${path}`,
+      url,
       headers: getHeaders,
-      fetch: options.fetch ?? createResilientZaiFetch(options.transport),
+      fetch: zaiFetch,
+    });
+
+  const createEmbeddingModel = (modelId: ZaiEmbeddingModelId) =>
+    new ZaiEmbeddingModel(modelId, {
+      provider: "zai.embedding",
+      url,
+      headers: getHeaders,
+      fetch: zaiFetch,
+    });
+
+  const createImageModel = (modelId: ZaiImageModelId) =>
+    new ZaiImageModel(modelId, {
+      provider: "zai.image",
+      url,
+      headers: getHeaders,
+      fetch: zaiFetch,
     });
 
   const provider = function (modelId: ZaiChatModelId): LanguageModelV3 {
@@ -90,12 +115,10 @@ export function createZai(options: ZaiProviderSettings = {}): ZaiProvider {
   provider.specificationVersion = "v3" as const;
   provider.languageModel = createChatModel;
   provider.chat = createChatModel;
-  provider.embeddingModel = () => {
-    throw new Error("Z.ai does not support embedding models.");
-  };
-  provider.imageModel = () => {
-    throw new Error("Z.ai does not support image models.");
-  };
+  provider.embeddingModel = createEmbeddingModel;
+  provider.textEmbeddingModel = createEmbeddingModel;
+  provider.imageModel = createImageModel;
+  provider.image = createImageModel;
 
   return provider as ZaiProvider;
 }
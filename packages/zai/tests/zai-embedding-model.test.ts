@@ -0,0 +1,98 @@
+import { APICallError, TooManyEmbeddingValuesForCallError } from "@ai-sdk/provider";
+import { describe, expect, it, vi } from "vitest";
+import { createZai } from "../src/zai-provider";
+
+vi.mock("../src/version", () => ({
+  VERSION: "0.0.0-test",
+}));
+
+function createJsonFetch(body: unknown, status = 200) {
+  return vi.fn(
+    async (_url: string | URL | Request, _init?: RequestInit) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "content-type": "application/json" },
+      })
+  );
+}
+
+const embeddingResponse = {
+  model: "embedding-3",
+  object: "list",
+  data: [
+    { index: 1, object: "embedding", embedding: [0.3, 0.4] },
+    { index: 0, object: "embedding", embedding: [0.1, 0.2] },
+  ],
+  usage: { prompt_tokens: 7, completion_tokens: 0, total_tokens: 7 },
+};
+
+describe("ZaiEmbeddingModel", () => {
+  it("should post values to the embeddings endpoint", async () => {
+    const fetch = createJsonFetch(embeddingResponse);
+    const model = createZai({ apiKey: "test-api-key", fetch }).embeddingModel("embedding-3");
+
+    await model.doEmbed({
+      values: ["hello", "world"],
+      providerOptions: { zai: { dimensions: 512 } },
+    });
+
+    const [url, init] = fetch.mock.calls[0]!;
+    expect(url).toBe("https://api.z.ai/api/paas/v4/embeddings");
+    expect(JSON.parse(init?.body as string)).toEqual({
+      model: "embedding-3",
+      input: ["hello", "world"],
+      dimensions: 512,
+    });
+  });
+
+  it("should return embeddings in input order with usage", async () => {
+    const fetch = createJsonFetch(embeddingResponse);
+    const model = createZai({ apiKey: "test-api-key", fetch }).embeddingModel("embedding-3");
+
+    const result = await model.doEmbed({ values: ["hello", "world"] });
+
+    expect(result.embeddings).toEqual([
+      [0.1, 0.2],
+      [0.3, 0.4],
+    ]);
+    expect(result.usage).toEqual({ tokens: 7 });
+    expect(result.response?.body).toEqual(embeddingResponse);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("should sign requests with a jwt when the api key contains a secret", async () => {
+    const fetch = createJsonFetch(embeddingResponse);
+    const model = createZai({ apiKey: "testKey.testSecret", fetch }).embeddingModel("embedding-3");
+
+    await model.doEmbed({ values: ["hello"] });
+
+    const headers = new Headers(fetch.mock.calls[0]![1]?.headers);
+    const token = headers.get("authorization")?.replace("Bearer ", "");
+    expect(token?.split(".")).toHaveLength(3);
+    expect(token).not.toBe("testKey.testSecret");
+  });
+
+  it("should map Z.ai error responses to APICallError", async () => {
+    const fetch = createJsonFetch(
+      { error: { code: "1211", message: "Model does not exist" } },
+      400
+    );
+    const model = createZai({ apiKey: "test-api-key", fetch }).embeddingModel("missing-model");
+
+    const error = await model.doEmbed({ values: ["hello"] }).catch(e => e);
+
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(error.message).toBe("Model does not exist");
+    expect(error.statusCode).toBe(400);
+  });
+
+  it("should reject more values than fit in one call", async () => {
+    const fetch = createJsonFetch(embeddingResponse);
+    const model = createZai({ apiKey: "test-api-key", fetch }).embeddingModel("embedding-3");
+
+    await expect(
+      model.doEmbed({ values: Array.from({ length: 65 }, (_, i) => `value ${i}`) })
+    ).rejects.toSatisfy(error => TooManyEmbeddingValuesForCallError.isInstance(error));
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
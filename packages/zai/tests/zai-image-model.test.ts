@@ -0,0 +1,121 @@
+import { APICallError } from "@ai-sdk/provider";
+import { describe, expect, it, vi } from "vitest";
+import { createZai } from "../src/zai-provider";
+
+vi.mock("../src/version", () => ({
+  VERSION: "0.0.0-test",
+}));
+
+const IMAGE_URL = "https://cdn.example.com/generated.png";
+const IMAGE_BYTES = new Uint8Array([137, 80, 78, 71]);
+
+function createImageFetch(body: unknown, status = 200) {
+  return vi.fn(async (url: string | URL | Request, _init?: RequestInit) => {
+    if (url === IMAGE_URL) {
+      return new Response(IMAGE_BYTES, { status: 200, headers: { "content-type": "image/png" } });
+    }
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json" },
+    });
+  });
+}
+
+const imageResponse = {
+  created: 1735689600,
+  data: [{ url: IMAGE_URL }],
+};
+
+const baseOptions = {
+  prompt: "A lighthouse at dusk",
+  n: 1,
+  size: undefined,
+  aspectRatio: undefined,
+  seed: undefined,
+  files: undefined,
+  mask: undefined,
+  providerOptions: {},
+};
+
+describe("ZaiImageModel", () => {
+  it("should post the prompt to the image generations endpoint", async () => {
+    const fetch = createImageFetch(imageResponse);
+    const model = createZai({ apiKey: "test-api-key", fetch }).imageModel("cogview-4-250304");
+
+    await model.doGenerate({
+      ...baseOptions,
+      size: "1024x1024",
+      providerOptions: { zai: { quality: "standard", watermark_enabled: false } },
+    });
+
+    const [url, init] = fetch.mock.calls[0]!;
+    expect(url).toBe("https://api.z.ai/api/paas/v4/images/generations");
+    expect(JSON.parse(init?.body as string)).toEqual({
+      model: "cogview-4-250304",
+      prompt: "A lighthouse at dusk",
+      size: "1024x1024",
+      quality: "standard",
+      watermark_enabled: false,
+    });
+  });
+
+  it("should download generated images without api credentials", async () => {
+    const fetch = createImageFetch(imageResponse);
+    const model = createZai({ apiKey: "test-api-key", fetch }).imageModel("cogview-4-250304");
+
+    const result = await model.doGenerate(baseOptions);
+
+    expect(result.images).toEqual([IMAGE_BYTES]);
+    expect(result.response.modelId).toBe("cogview-4-250304");
+    const [url, init] = fetch.mock.calls[1]!;
+    expect(url).toBe(IMAGE_URL);
+    expect(new Headers(init?.headers).get("authorization")).toBeNull();
+  });
+
+  it("should decode base64 images without downloading", async () => {
+    const fetch = createImageFetch({
+      created: 1735689600,
+      data: [{ b64_json: Buffer.from(IMAGE_BYTES).toString("base64") }],
+    });
+    const model = createZai({ apiKey: "test-api-key", fetch }).imageModel("cogview-4-250304");
+
+    const result = await model.doGenerate(baseOptions);
+
+    expect(result.images).toEqual([IMAGE_BYTES]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should warn about unsupported settings", async () => {
+    const fetch = createImageFetch(imageResponse);
+    const model = createZai({ apiKey: "test-api-key", fetch }).imageModel("cogview-4-250304");
+
+    const result = await model.doGenerate({ ...baseOptions, aspectRatio: "16:9", seed: 42 });
+
+    expect(
+      result.warnings.map(warning => warning.type === "unsupported" && warning.feature)
+    ).toEqual(["aspectRatio", "seed"]);
+  });
+
+  it("should sign requests with a jwt when the api key contains a secret", async () => {
+    const fetch = createImageFetch(imageResponse);
+    const model = createZai({ apiKey: "testKey.testSecret", fetch }).imageModel("cogview-4-250304");
+
+    await model.doGenerate(baseOptions);
+
+    const headers = new Headers(fetch.mock.calls[0]![1]?.headers);
+    const token = headers.get("authorization")?.replace("Bearer ", "");
+    expect(token?.split(".")).toHaveLength(3);
+    expect(token).not.toBe("testKey.testSecret");
+  });
+
+  it("should map Z.ai error responses to APICallError", async () => {
+    const fetch = createImageFetch({ error: { code: "1301", message: "Unsafe content" } }, 400);
+    const model = createZai({ apiKey: "test-api-key", fetch }).imageModel("cogview-4-250304");
+
+    const error = await model.doGenerate(baseOptions).catch(e => e);
+
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(error.message).toBe("Unsafe content");
+    expect(error.statusCode).toBe(400);
+  });
+});
@@ -26,6 +26,24 @@ describe("createZai", () => {
       const provider = createZai({ apiKey: "test-api-key" });
       expect(typeof provider).toBe("function");
     });
+
+    it("should create embedding models", () => {
+      const provider = createZai({ apiKey: "test-api-key" });
+      const model = provider.embeddingModel("embedding-3");
+
+      expect(model.specificationVersion).toBe("v3");
+      expect(model.provider).toBe("zai.embedding");
+      expect(model.modelId).toBe("embedding-3");
+    });
+
+    it("should create image models", () => {
+      const provider = createZai({ apiKey: "test-api-key" });
+      const model = provider.imageModel("cogview-4-250304");
+
+      expect(model.specificationVersion).toBe("v3");
+      expect(model.provider).toBe("zai.image");
+      expect(model.modelId).toBe("cogview-4-250304");
+    });
   });
 
   describe("endpoint configuration", () => {